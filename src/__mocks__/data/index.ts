@@ -62,6 +62,22 @@ export type Recipient = {
   createdAt: string
 }
 
+/** Mirrors `RecurrenceRule` in `src/features/recurrence-rules`. */
+export type MockRecurrenceRule =
+  | {
+      kind: 'DAY_OF_MONTH'
+      day: number
+      shift: string
+    }
+  | {
+      kind: 'NTH_WEEKDAY'
+      ordinal: number
+      weekday: number
+    }
+  | {
+      kind: 'LAST_BANK_DAY'
+    }
+
 export type Income = {
   id: string
   name: string
@@ -78,6 +94,8 @@ export type Income = {
   createdAt: string
   /** Optional override; otherwise derived from {@link mockIncomeRevisions} in MSW. */
   numberOfRevisions?: number
+  /** Bank-day placement of the instances, set through `/incomes/{incomeId}/recurrence-rule`. */
+  recurrenceRule?: MockRecurrenceRule | null
 }
 
 export type IncomeSource = {
@@ -164,6 +182,8 @@ export type Bill = {
   createdAt: string
   /** Optional override; otherwise derived from {@link mockBillRevisions} in MSW. */
   numberOfRevisions?: number
+  /** Bank-day placement of the instances, set through `/bills/{billId}/recurrence-rule`. */
+  recurrenceRule?: MockRecurrenceRule | null
 }
 
 /** MSW-only rows for `GET /bills/{billId}/revisions` (newest-first in handler). */
@@ -364,6 +384,124 @@ export type Allocation = {
   createdAt: string
 }
 
+/** MSW-only rows for the attachment stand-in endpoints. */
+export type MockAttachment = {
+  id: string
+  householdId: string
+  ownerType: 'TRANSACTION' | 'BILL_INSTANCE'
+  ownerId: string
+  fileName: string
+  contentType: string
+  size: number
+  createdAt: string
+  /** Uploaded file; left out of list responses. */
+  content: Blob
+}
+
+/** MSW-only latest reconciliation per account. */
+export type MockReconciliation = {
+  accountId: string
+  householdId: string
+  statementDate: string
+  statementBalance: number
+  reconciledAt: string
+  clearedTransactionIds: string[]
+}
+
+/** MSW-only reconciliation lock; locked transactions refuse edits. */
+export type MockTransactionLock = {
+  transactionId: string
+  accountId: string
+  householdId: string
+  lockedAt: string
+}
+
+/** MSW-only recorded change to a transaction. */
+export type MockTransactionRevision = {
+  id: string
+  householdId: string
+  transactionId: string
+  transactionName: string
+  action: 'created' | 'updated' | 'deleted'
+  authorId: string
+  createdAt: string
+  changes: Array<{
+    field: string
+    previousValue: unknown
+    newValue: unknown
+  }>
+}
+
+/** MSW-only link from a refund credit (INCOME) to the expense it refunds. */
+export type MockTransactionRefund = {
+  refundId: string
+  householdId: string
+  originalId: string
+  originalName: string
+  amount: number
+  date: string
+  lines: Array<{
+    budgetId: string | null
+    categoryId: string | null
+    subtitle: string
+    amount: number
+  }>
+  allocations: Array<{
+    budgetId: string
+    amount: number
+  }>
+  createdAt: string
+}
+
+/** MSW-only household defaults for settling up. */
+export type MockSharedExpenseSettings = {
+  defaultShares: Record<string, number>
+  accountOwners: Record<string, string>
+}
+
+/** MSW-only payer and shares of one expense. */
+export type MockTransactionAttribution = {
+  transactionId: string
+  householdId: string
+  attribution: {
+    payerId?: string
+    shares?: Record<string, number>
+    splitShares?: Array<Record<string, number> | null>
+  }
+}
+
+/** MSW-only household transaction tag. */
+export type MockTransactionTag = {
+  id: string
+  householdId: string
+  name: string
+  color: string
+}
+
+/** MSW-only household auto-assignment rule. */
+export type MockAssignmentRule = {
+  id: string
+  householdId: string
+  name: string
+  enabled: boolean
+  conditions: Record<string, unknown>
+  actions: Record<string, unknown>
+}
+
+/** MSW-only record of one statement import and what it created. */
+export type MockImportHistoryEntry = {
+  id: string
+  householdId: string
+  importedAt: string
+  files: Array<{
+    fileName: string
+    accountId: string
+  }>
+  transactions: Array<Record<string, unknown>>
+  allocations: Array<Record<string, unknown>>
+  undoneAt?: string
+}
+
 let idCounter = 1000
 
 export function nextId(prefix: string): string {
@@ -390,13 +528,43 @@ export async function readJson<T>(request: Request): Promise<T> {
   return (await request.json()) as T
 }
 
+/** Author of the fixture revisions; used when a request has no readable token. */
+const DEFAULT_USER_ID = 'user_dev'
+
+/**
+ * User id (`sub` claim) of the request's bearer token, which the API treats as
+ * the authenticated user. The mock does not verify the signature.
+ */
+export function authenticatedUserId(request: Request): string {
+  const token = request.headers.get('Authorization')?.replace(/^Bearer /, '')
+  const payload = token?.split('.')[1]
+  if (!payload) return DEFAULT_USER_ID
+  try {
+    const claims = JSON.parse(
+      atob(payload.replace(/-/g, '+').replace(/_/g, '/'))
+    ) as {
+      sub?: unknown
+    }
+    return typeof claims.sub === 'string' ? claims.sub : DEFAULT_USER_ID
+  } catch {
+    return DEFAULT_USER_ID
+  }
+}
+
+/**
+ * Applies `limit` / `offset` like the API: without a limit every item from
+ * `offset` on is returned, and `limit=0` returns only the pagination counts.
+ */
 export function paginate<T>(
   items: T[],
   limitRaw: string | null,
   offsetRaw: string | null
 ): PaginatedResponse<T> {
-  const limit = Number(limitRaw ?? 50)
-  const offset = Number(offsetRaw ?? 0)
+  const offset = Math.max(0, Number(offsetRaw ?? 0) || 0)
+  const limit =
+    limitRaw === null
+      ? Math.max(0, items.length - offset)
+      : Math.max(0, Number(limitRaw) || 0)
   const page = items.slice(offset, offset + limit)
   return {
     data: page,
@@ -808,3 +976,33 @@ export const allocations: Allocation[] = [
     createdAt: nowIso()
   }
 ]
+
+/** Uploaded receipts and invoices; kept in memory until the page reloads. */
+export const attachments: MockAttachment[] = []
+
+/** Completed reconciliations; kept in memory until the page reloads. */
+export const reconciliations: MockReconciliation[] = []
+
+export const transactionLocks: MockTransactionLock[] = []
+
+export const transactionRefunds: MockTransactionRefund[] = []
+
+/** Sharing settings per household id. */
+export const sharedExpenseSettings: Record<string, MockSharedExpenseSettings> =
+  {}
+
+export const transactionAttributions: MockTransactionAttribution[] = []
+
+export const transactionTags: MockTransactionTag[] = []
+
+/** Tag ids per transaction id. */
+export const transactionTagAssignments: Record<string, string[]> = {}
+
+/** Assignment rules in priority order within each household. */
+export const assignmentRules: MockAssignmentRule[] = []
+
+/** Statement imports, newest first. */
+export const importHistory: MockImportHistoryEntry[] = []
+
+/** Transaction change history, newest first. */
+export const transactionRevisions: MockTransactionRevision[] = []
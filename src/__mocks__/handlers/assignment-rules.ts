@@ -0,0 +1,93 @@
+import { HttpResponse, http } from 'msw'
+import { assignmentRules, type MockAssignmentRule, readJson } from '../data'
+
+const BASE = '/api/v1'
+
+type AssignmentRuleBody = Omit<MockAssignmentRule, 'householdId'>
+
+function notFound(message: string) {
+  return HttpResponse.json(
+    {
+      error: {
+        code: 'NOT_FOUND',
+        message
+      }
+    },
+    {
+      status: 404
+    }
+  )
+}
+
+function toRuleResponse(rule: MockAssignmentRule): AssignmentRuleBody {
+  const { householdId: _householdId, ...body } = rule
+  return body
+}
+
+function householdRules(householdId: string): AssignmentRuleBody[] {
+  return assignmentRules
+    .filter((rule) => rule.householdId === householdId)
+    .map(toRuleResponse)
+}
+
+export const assignmentRuleHandlers = [
+  http.get(`${BASE}/households/:householdId/assignment-rules`, ({ params }) =>
+    HttpResponse.json(householdRules(String(params.householdId)))
+  ),
+
+  http.put(
+    `${BASE}/households/:householdId/assignment-rules`,
+    async ({ request, params }) => {
+      const householdId = String(params.householdId)
+      const { rules } = await readJson<{
+        rules: AssignmentRuleBody[]
+      }>(request)
+      const others = assignmentRules.filter(
+        (rule) => rule.householdId !== householdId
+      )
+      assignmentRules.splice(
+        0,
+        assignmentRules.length,
+        ...others,
+        ...rules.map((rule) => ({
+          ...rule,
+          householdId
+        }))
+      )
+      return HttpResponse.json(householdRules(householdId))
+    }
+  ),
+
+  http.put(
+    `${BASE}/households/:householdId/assignment-rules/:ruleId`,
+    async ({ request, params }) => {
+      const householdId = String(params.householdId)
+      const body = await readJson<AssignmentRuleBody>(request)
+      const rule: MockAssignmentRule = {
+        ...body,
+        id: String(params.ruleId),
+        householdId
+      }
+      const index = assignmentRules.findIndex(
+        (item) => item.id === rule.id && item.householdId === householdId
+      )
+      if (index === -1) {
+        assignmentRules.push(rule)
+      } else {
+        assignmentRules[index] = rule
+      }
+      return HttpResponse.json(toRuleResponse(rule))
+    }
+  ),
+
+  http.delete(`${BASE}/assignment-rules/:ruleId`, ({ params }) => {
+    const index = assignmentRules.findIndex((rule) => rule.id === params.ruleId)
+    if (index === -1) {
+      return notFound('Assignment rule not found')
+    }
+    assignmentRules.splice(index, 1)
+    return new HttpResponse(null, {
+      status: 204
+    })
+  })
+]
@@ -0,0 +1,165 @@
+import { HttpResponse, http } from 'msw'
+import {
+  accounts,
+  attachments,
+  billInstances,
+  type MockAttachment,
+  nextId,
+  nowIso,
+  transactions
+} from '../data'
+
+const BASE = '/api/v1'
+
+function notFound(message: string) {
+  return HttpResponse.json(
+    {
+      error: {
+        code: 'NOT_FOUND',
+        message
+      }
+    },
+    {
+      status: 404
+    }
+  )
+}
+
+function toAttachmentResponse(attachment: MockAttachment) {
+  return {
+    id: attachment.id,
+    ownerType: attachment.ownerType,
+    ownerId: attachment.ownerId,
+    fileName: attachment.fileName,
+    contentType: attachment.contentType,
+    size: attachment.size,
+    createdAt: attachment.createdAt
+  }
+}
+
+function ownerHouseholdId(
+  ownerType: MockAttachment['ownerType'],
+  ownerId: string
+): string | null {
+  if (ownerType === 'TRANSACTION') {
+    return transactions.find((item) => item.id === ownerId)?.householdId ?? null
+  }
+  const instance = billInstances.find((item) => item.id === ownerId)
+  if (!instance) return null
+  return (
+    accounts.find((item) => item.id === instance.accountId)?.householdId ?? null
+  )
+}
+
+function listForOwner(ownerType: MockAttachment['ownerType'], ownerId: string) {
+  return HttpResponse.json({
+    data: attachments
+      .filter(
+        (item) => item.ownerType === ownerType && item.ownerId === ownerId
+      )
+      .map(toAttachmentResponse)
+  })
+}
+
+async function uploadForOwner(
+  request: Request,
+  ownerType: MockAttachment['ownerType'],
+  ownerId: string
+) {
+  const householdId = ownerHouseholdId(ownerType, ownerId)
+  if (!householdId) {
+    return notFound(
+      ownerType === 'TRANSACTION'
+        ? 'Transaction not found'
+        : 'Bill instance not found'
+    )
+  }
+  const form = await request.formData()
+  const file = form.get('file')
+  if (!(file instanceof File)) {
+    return HttpResponse.json(
+      {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'A file is required'
+        }
+      },
+      {
+        status: 400
+      }
+    )
+  }
+  const attachment: MockAttachment = {
+    id: nextId('att'),
+    householdId,
+    ownerType,
+    ownerId,
+    fileName: file.name,
+    contentType: file.type || 'application/octet-stream',
+    size: file.size,
+    createdAt: nowIso(),
+    content: file
+  }
+  attachments.push(attachment)
+  return HttpResponse.json(toAttachmentResponse(attachment), {
+    status: 201
+  })
+}
+
+export const attachmentHandlers = [
+  http.get(`${BASE}/households/:householdId/attachments`, ({ params }) =>
+    HttpResponse.json({
+      data: attachments
+        .filter((item) => item.householdId === params.householdId)
+        .map(toAttachmentResponse)
+    })
+  ),
+
+  http.get(`${BASE}/transactions/:transactionId/attachments`, ({ params }) =>
+    listForOwner('TRANSACTION', String(params.transactionId))
+  ),
+
+  http.post(
+    `${BASE}/transactions/:transactionId/attachments`,
+    ({ request, params }) =>
+      uploadForOwner(request, 'TRANSACTION', String(params.transactionId))
+  ),
+
+  http.get(`${BASE}/bill-instances/:instanceId/attachments`, ({ params }) =>
+    listForOwner('BILL_INSTANCE', String(params.instanceId))
+  ),
+
+  http.post(
+    `${BASE}/bill-instances/:instanceId/attachments`,
+    ({ request, params }) =>
+      uploadForOwner(request, 'BILL_INSTANCE', String(params.instanceId))
+  ),
+
+  http.get(`${BASE}/attachments/:attachmentId/content`, ({ params }) => {
+    const attachment = attachments.find(
+      (item) => item.id === params.attachmentId
+    )
+    if (!attachment) {
+      return notFound('Attachment not found')
+    }
+    return new HttpResponse(attachment.content, {
+      headers: {
+        'Content-Type': attachment.contentType,
+        'Content-Disposition': `inline; filename="${encodeURIComponent(attachment.fileName)}"`
+      }
+    })
+  }),
+
+  http.delete(`${BASE}/attachments/:attachmentId`, ({ params }) => {
+    const index = attachments.findIndex(
+      (item) => item.id === params.attachmentId
+    )
+    if (index === -1) {
+      return notFound('Attachment not found')
+    }
+    attachments.splice(index, 1)
+    return new HttpResponse(null, {
+      status: 204
+    })
+  })
+]
@@ -427,7 +427,9 @@ function getBudgetHouseholdId(budgetId?: string | null): string | undefined {
   return budgets.find((item) => item.id === budgetId)?.householdId
 }
 
-function getBillHouseholdId(bill: Record<string, unknown>): string | undefined {
+export function getBillHouseholdId(
+  bill: Record<string, unknown>
+): string | undefined {
   return typeof bill.householdId === 'string'
     ? bill.householdId
     : getBudgetHouseholdId(
@@ -1,5 +1,12 @@
 import { HttpResponse, http } from 'msw'
-import { householdMembers, households, nextId, nowIso, readJson } from '../data'
+import {
+  householdMembers,
+  households,
+  nextId,
+  nowIso,
+  paginate,
+  readJson
+} from '../data'
 
 const BASE = '/api/v1'
 
@@ -87,11 +94,28 @@ export const householdHandlers = [
     })
   }),
 
-  http.get(`${BASE}/households/:householdId/members`, ({ params }) => {
-    const members = householdMembers.filter(
-      (item) => item.householdId === params.householdId
+  http.get(`${BASE}/households/:householdId/members`, ({ request, params }) => {
+    const url = new URL(request.url)
+    const members = householdMembers
+      .filter((item) => item.householdId === params.householdId)
+      .map((item) => ({
+        id: `${item.householdId}_${item.id}`,
+        userId: item.id,
+        householdId: item.householdId,
+        joinedAt: '2024-01-01T00:00:00.000Z',
+        user: {
+          id: item.id,
+          fullName: item.name,
+          email: item.email
+        }
+      }))
+    return HttpResponse.json(
+      paginate(
+        members,
+        url.searchParams.get('limit'),
+        url.searchParams.get('offset')
+      )
     )
-    return HttpResponse.json(members)
   }),
 
   http.put(`${BASE}/households/:householdId/members/:userId`, ({ params }) => {
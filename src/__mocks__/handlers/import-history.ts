@@ -0,0 +1,50 @@
+import { HttpResponse, http } from 'msw'
+import { importHistory, type MockImportHistoryEntry, readJson } from '../data'
+
+const BASE = '/api/v1'
+
+type ImportHistoryEntryBody = Omit<MockImportHistoryEntry, 'householdId'>
+
+function toEntryResponse(
+  entry: MockImportHistoryEntry
+): ImportHistoryEntryBody {
+  const { householdId: _householdId, ...body } = entry
+  return body
+}
+
+export const importHistoryHandlers = [
+  http.get(`${BASE}/households/:householdId/import-history`, ({ params }) =>
+    HttpResponse.json(
+      importHistory
+        .filter((entry) => entry.householdId === params.householdId)
+        .map(toEntryResponse)
+    )
+  ),
+
+  // Retries of a partly failed import update the entry and keep when it
+  // was first imported.
+  http.put(
+    `${BASE}/households/:householdId/import-history/:entryId`,
+    async ({ request, params }) => {
+      const body = await readJson<ImportHistoryEntryBody>(request)
+      const index = importHistory.findIndex(
+        (entry) =>
+          entry.id === params.entryId &&
+          entry.householdId === params.householdId
+      )
+      const entry: MockImportHistoryEntry = {
+        ...body,
+        id: String(params.entryId),
+        householdId: String(params.householdId),
+        importedAt:
+          index === -1 ? body.importedAt : importHistory[index].importedAt
+      }
+      if (index === -1) {
+        importHistory.unshift(entry)
+      } else {
+        importHistory[index] = entry
+      }
+      return HttpResponse.json(toEntryResponse(entry))
+    }
+  )
+]
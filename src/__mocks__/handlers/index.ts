@@ -1,12 +1,21 @@
 import { accountHandlers } from './accounts'
 import { allocationHandlers } from './allocations'
+import { assignmentRuleHandlers } from './assignment-rules'
+import { attachmentHandlers } from './attachments'
 import { billHandlers } from './bills'
 import { budgetHandlers } from './budgets'
 import { categoryHandlers } from './categories'
 import { householdHandlers } from './households'
+import { importHistoryHandlers } from './import-history'
 import { incomeHandlers } from './income'
 import { invitationHandlers } from './invitations'
 import { recipientHandlers } from './recipients'
+import { reconciliationHandlers } from './reconciliations'
+import { recurrenceRuleHandlers } from './recurrence-rules'
+import { sharedExpenseHandlers } from './shared-expenses'
+import { transactionRefundHandlers } from './transaction-refunds'
+import { transactionRevisionHandlers } from './transaction-revisions'
+import { transactionTagHandlers } from './transaction-tags'
 import { transactionHandlers } from './transactions'
 
 export const handlers = [
@@ -17,7 +26,16 @@ export const handlers = [
   ...transactionHandlers,
   ...billHandlers,
   ...incomeHandlers,
+  ...recurrenceRuleHandlers,
   ...recipientHandlers,
   ...invitationHandlers,
-  ...allocationHandlers
+  ...allocationHandlers,
+  ...attachmentHandlers,
+  ...reconciliationHandlers,
+  ...transactionRefundHandlers,
+  ...sharedExpenseHandlers,
+  ...transactionTagHandlers,
+  ...assignmentRuleHandlers,
+  ...importHistoryHandlers,
+  ...transactionRevisionHandlers
 ]
@@ -0,0 +1,133 @@
+import { HttpResponse, http } from 'msw'
+import {
+  accounts,
+  type MockReconciliation,
+  nowIso,
+  readJson,
+  reconciliations,
+  transactionLocks
+} from '../data'
+
+const BASE = '/api/v1'
+
+function notFound(message: string) {
+  return HttpResponse.json(
+    {
+      error: {
+        code: 'NOT_FOUND',
+        message
+      }
+    },
+    {
+      status: 404
+    }
+  )
+}
+
+function toReconciliationResponse(reconciliation: MockReconciliation) {
+  return {
+    accountId: reconciliation.accountId,
+    statementDate: reconciliation.statementDate,
+    statementBalance: reconciliation.statementBalance,
+    reconciledAt: reconciliation.reconciledAt,
+    clearedTransactionIds: reconciliation.clearedTransactionIds
+  }
+}
+
+/** Whether a reconciliation has locked the transaction against edits. */
+export function isTransactionLocked(transactionId: string): boolean {
+  return transactionLocks.some((lock) => lock.transactionId === transactionId)
+}
+
+export function transactionLockedResponse() {
+  return HttpResponse.json(
+    {
+      error: {
+        code: 'TRANSACTION_LOCKED',
+        message: 'Transaction is locked by a reconciliation'
+      }
+    },
+    {
+      status: 409
+    }
+  )
+}
+
+export const reconciliationHandlers = [
+  http.get(`${BASE}/households/:householdId/reconciliations`, ({ params }) =>
+    HttpResponse.json({
+      data: reconciliations
+        .filter((item) => item.householdId === params.householdId)
+        .map(toReconciliationResponse)
+    })
+  ),
+
+  http.post(
+    `${BASE}/accounts/:accountId/reconciliations`,
+    async ({ request, params }) => {
+      const account = accounts.find((item) => item.id === params.accountId)
+      if (!account) {
+        return notFound('Account not found')
+      }
+      const body = await readJson<{
+        statementDate: string
+        statementBalance: number
+        clearedTransactionIds: string[]
+        lock: boolean
+      }>(request)
+      const reconciliation: MockReconciliation = {
+        accountId: account.id,
+        householdId: account.householdId,
+        statementDate: body.statementDate,
+        statementBalance: body.statementBalance,
+        reconciledAt: nowIso(),
+        clearedTransactionIds: body.clearedTransactionIds
+      }
+      const index = reconciliations.findIndex(
+        (item) => item.accountId === account.id
+      )
+      if (index === -1) reconciliations.push(reconciliation)
+      else reconciliations[index] = reconciliation
+
+      if (body.lock) {
+        for (const transactionId of body.clearedTransactionIds) {
+          if (isTransactionLocked(transactionId)) continue
+          transactionLocks.push({
+            transactionId,
+            accountId: account.id,
+            householdId: account.householdId,
+            lockedAt: reconciliation.reconciledAt
+          })
+        }
+      }
+      return HttpResponse.json(toReconciliationResponse(reconciliation), {
+        status: 201
+      })
+    }
+  ),
+
+  http.get(`${BASE}/households/:householdId/transaction-locks`, ({ params }) =>
+    HttpResponse.json({
+      data: transactionLocks
+        .filter((item) => item.householdId === params.householdId)
+        .map((lock) => ({
+          transactionId: lock.transactionId,
+          accountId: lock.accountId,
+          lockedAt: lock.lockedAt
+        }))
+    })
+  ),
+
+  http.delete(`${BASE}/transactions/:transactionId/lock`, ({ params }) => {
+    const index = transactionLocks.findIndex(
+      (item) => item.transactionId === params.transactionId
+    )
+    if (index === -1) {
+      return notFound('Transaction is not locked')
+    }
+    transactionLocks.splice(index, 1)
+    return new HttpResponse(null, {
+      status: 204
+    })
+  })
+]
@@ -0,0 +1,103 @@
+import { HttpResponse, http } from 'msw'
+import { bills, incomes, type MockRecurrenceRule, readJson } from '../data'
+import { getBillHouseholdId } from './bills'
+
+const BASE = '/api/v1'
+
+function notFound(message: string) {
+  return HttpResponse.json(
+    {
+      error: {
+        code: 'NOT_FOUND',
+        message
+      }
+    },
+    {
+      status: 404
+    }
+  )
+}
+
+function rulesById(
+  items: Array<{
+    id: string
+    recurrenceRule?: MockRecurrenceRule | null
+  }>
+): Record<string, MockRecurrenceRule> {
+  return Object.fromEntries(
+    items.flatMap((item) =>
+      item.recurrenceRule
+        ? [
+            [
+              item.id,
+              item.recurrenceRule
+            ]
+          ]
+        : []
+    )
+  )
+}
+
+export const recurrenceRuleHandlers = [
+  http.get(`${BASE}/households/:householdId/recurrence-rules`, ({ params }) => {
+    const householdId = String(params.householdId)
+    return HttpResponse.json({
+      bills: rulesById(
+        bills.filter(
+          (bill) =>
+            getBillHouseholdId(bill as unknown as Record<string, unknown>) ===
+            householdId
+        )
+      ),
+      incomes: rulesById(
+        incomes.filter((income) => income.householdId === householdId)
+      )
+    })
+  }),
+
+  http.put(
+    `${BASE}/bills/:billId/recurrence-rule`,
+    async ({ request, params }) => {
+      const bill = bills.find((item) => item.id === params.billId)
+      if (!bill) {
+        return notFound('Bill not found')
+      }
+      bill.recurrenceRule = await readJson<MockRecurrenceRule>(request)
+      return HttpResponse.json(bill.recurrenceRule)
+    }
+  ),
+
+  http.delete(`${BASE}/bills/:billId/recurrence-rule`, ({ params }) => {
+    const bill = bills.find((item) => item.id === params.billId)
+    if (!bill) {
+      return notFound('Bill not found')
+    }
+    bill.recurrenceRule = null
+    return new HttpResponse(null, {
+      status: 204
+    })
+  }),
+
+  http.put(
+    `${BASE}/incomes/:incomeId/recurrence-rule`,
+    async ({ request, params }) => {
+      const income = incomes.find((item) => item.id === params.incomeId)
+      if (!income) {
+        return notFound('Income not found')
+      }
+      income.recurrenceRule = await readJson<MockRecurrenceRule>(request)
+      return HttpResponse.json(income.recurrenceRule)
+    }
+  ),
+
+  http.delete(`${BASE}/incomes/:incomeId/recurrence-rule`, ({ params }) => {
+    const income = incomes.find((item) => item.id === params.incomeId)
+    if (!income) {
+      return notFound('Income not found')
+    }
+    income.recurrenceRule = null
+    return new HttpResponse(null, {
+      status: 204
+    })
+  })
+]
@@ -0,0 +1,95 @@
+import { HttpResponse, http } from 'msw'
+import {
+  type MockTransactionAttribution,
+  readJson,
+  sharedExpenseSettings,
+  transactionAttributions,
+  transactions
+} from '../data'
+
+const BASE = '/api/v1'
+
+const EMPTY_SETTINGS = {
+  defaultShares: {},
+  accountOwners: {}
+}
+
+function notFound(message: string) {
+  return HttpResponse.json(
+    {
+      error: {
+        code: 'NOT_FOUND',
+        message
+      }
+    },
+    {
+      status: 404
+    }
+  )
+}
+
+/** Drops the payer and shares of a deleted transaction. */
+export function removeTransactionAttribution(transactionId: string): void {
+  const index = transactionAttributions.findIndex(
+    (item) => item.transactionId === transactionId
+  )
+  if (index !== -1) transactionAttributions.splice(index, 1)
+}
+
+export const sharedExpenseHandlers = [
+  http.get(`${BASE}/households/:householdId/shared-expenses`, ({ params }) => {
+    const householdId = String(params.householdId)
+    return HttpResponse.json({
+      settings: sharedExpenseSettings[householdId] ?? EMPTY_SETTINGS,
+      attributions: Object.fromEntries(
+        transactionAttributions
+          .filter((item) => item.householdId === householdId)
+          .map((item) => [
+            item.transactionId,
+            item.attribution
+          ])
+      )
+    })
+  }),
+
+  http.put(
+    `${BASE}/households/:householdId/shared-expenses/settings`,
+    async ({ request, params }) => {
+      const settings =
+        await readJson<(typeof sharedExpenseSettings)[string]>(request)
+      sharedExpenseSettings[String(params.householdId)] = settings
+      return HttpResponse.json(settings)
+    }
+  ),
+
+  http.put(
+    `${BASE}/transactions/:transactionId/attribution`,
+    async ({ request, params }) => {
+      const transaction = transactions.find(
+        (item) => item.id === params.transactionId
+      )
+      if (!transaction) {
+        return notFound('Transaction not found')
+      }
+      const attribution =
+        await readJson<MockTransactionAttribution['attribution']>(request)
+      removeTransactionAttribution(transaction.id)
+      transactionAttributions.push({
+        transactionId: transaction.id,
+        householdId: transaction.householdId,
+        attribution
+      })
+      return HttpResponse.json(attribution)
+    }
+  ),
+
+  http.delete(
+    `${BASE}/transactions/:transactionId/attribution`,
+    ({ params }) => {
+      removeTransactionAttribution(String(params.transactionId))
+      return new HttpResponse(null, {
+        status: 204
+      })
+    }
+  )
+]
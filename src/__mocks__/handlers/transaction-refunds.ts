@@ -0,0 +1,100 @@
+import { HttpResponse, http } from 'msw'
+import {
+  type MockTransactionRefund,
+  readJson,
+  transactionRefunds,
+  transactions
+} from '../data'
+
+const BASE = '/api/v1'
+
+function notFound(message: string) {
+  return HttpResponse.json(
+    {
+      error: {
+        code: 'NOT_FOUND',
+        message
+      }
+    },
+    {
+      status: 404
+    }
+  )
+}
+
+function toRefundResponse(refund: MockTransactionRefund) {
+  return {
+    refundId: refund.refundId,
+    originalId: refund.originalId,
+    originalName: refund.originalName,
+    amount: refund.amount,
+    date: refund.date,
+    lines: refund.lines,
+    allocations: refund.allocations,
+    createdAt: refund.createdAt
+  }
+}
+
+/** Whether refunds are linked to the expense, which keeps it from deletion. */
+export function hasLinkedRefunds(transactionId: string): boolean {
+  return transactionRefunds.some((item) => item.originalId === transactionId)
+}
+
+export function transactionRefundedResponse() {
+  return HttpResponse.json(
+    {
+      error: {
+        code: 'TRANSACTION_REFUNDED',
+        message: 'Transaction has linked refunds'
+      }
+    },
+    {
+      status: 409
+    }
+  )
+}
+
+/** Drops the link of a deleted refund credit. */
+export function removeRefundLink(transactionId: string): void {
+  const index = transactionRefunds.findIndex(
+    (item) => item.refundId === transactionId
+  )
+  if (index !== -1) transactionRefunds.splice(index, 1)
+}
+
+export const transactionRefundHandlers = [
+  http.get(
+    `${BASE}/households/:householdId/transaction-refunds`,
+    ({ params }) =>
+      HttpResponse.json({
+        data: transactionRefunds
+          .filter((item) => item.householdId === params.householdId)
+          .map(toRefundResponse)
+      })
+  ),
+
+  http.put(
+    `${BASE}/transactions/:transactionId/refund`,
+    async ({ request, params }) => {
+      const credit = transactions.find(
+        (item) => item.id === params.transactionId
+      )
+      if (!credit) {
+        return notFound('Transaction not found')
+      }
+      const body =
+        await readJson<Omit<MockTransactionRefund, 'householdId'>>(request)
+      if (!transactions.some((item) => item.id === body.originalId)) {
+        return notFound('Refunded transaction not found')
+      }
+      const refund: MockTransactionRefund = {
+        ...body,
+        refundId: credit.id,
+        householdId: credit.householdId
+      }
+      removeRefundLink(credit.id)
+      transactionRefunds.push(refund)
+      return HttpResponse.json(toRefundResponse(refund))
+    }
+  )
+]
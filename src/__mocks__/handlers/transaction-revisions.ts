@@ -0,0 +1,164 @@
+import { HttpResponse, http } from 'msw'
+import {
+  authenticatedUserId,
+  type MockTransactionRevision,
+  nextId,
+  nowIso,
+  paginate,
+  transactionRevisions
+} from '../data'
+
+const BASE = '/api/v1'
+
+/** Transaction as returned by the transaction endpoints. */
+type RevisionSource = {
+  id: string
+  name: string
+  amount: number
+  date: string
+  type: string
+  account: {
+    id: string
+  } | null
+  transferToAccount: {
+    id: string
+  } | null
+  recipient: {
+    id: string
+  } | null
+  incomeSource: {
+    id: string
+  } | null
+  budget: {
+    id: string
+  } | null
+  category: {
+    id: string
+  } | null
+  splits?: Array<{
+    subtitle: string
+    amount: number
+    categoryId?: string | null
+    budgetId?: string | null
+  }>
+}
+
+/** Tracked fields, in the order the timeline lists them. */
+function revisionSnapshot(transaction: RevisionSource) {
+  return {
+    type: transaction.type,
+    name: transaction.name,
+    amount: transaction.amount,
+    date: transaction.date.slice(0, 10),
+    accountId: transaction.account?.id ?? null,
+    transferToAccountId: transaction.transferToAccount?.id ?? null,
+    recipientId: transaction.recipient?.id ?? null,
+    incomeSourceId: transaction.incomeSource?.id ?? null,
+    budgetId: transaction.budget?.id ?? null,
+    categoryId: transaction.category?.id ?? null,
+    splitLines: (transaction.splits ?? []).map((split) => ({
+      subtitle: split.subtitle,
+      amount: split.amount,
+      categoryId: split.categoryId || null,
+      budgetId: split.budgetId || null
+    }))
+  }
+}
+
+type RevisionSnapshot = ReturnType<typeof revisionSnapshot>
+
+function isEmptyValue(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  )
+}
+
+function diffSnapshots(
+  before: RevisionSource | null,
+  after: RevisionSource | null
+): MockTransactionRevision['changes'] {
+  const previous = before ? revisionSnapshot(before) : null
+  const next = after ? revisionSnapshot(after) : null
+  const fields = Object.keys(next ?? previous ?? {}) as Array<
+    keyof RevisionSnapshot
+  >
+  return fields.flatMap((field) => {
+    const previousValue = previous?.[field] ?? null
+    const newValue = next?.[field] ?? null
+    if (isEmptyValue(previousValue) && isEmptyValue(newValue)) return []
+    if (JSON.stringify(previousValue) === JSON.stringify(newValue)) return []
+    return [
+      {
+        field,
+        previousValue: isEmptyValue(previousValue) ? null : previousValue,
+        newValue: isEmptyValue(newValue) ? null : newValue
+      }
+    ]
+  })
+}
+
+/**
+ * Records a change as the request's authenticated user. `before` is `null`
+ * for creations and `after` for deletions. Updates that leave every tracked
+ * field as it was are skipped.
+ */
+export function recordTransactionRevision(
+  request: Request,
+  householdId: string,
+  before: RevisionSource | null,
+  after: RevisionSource | null
+): void {
+  const source = after ?? before
+  if (!source) return
+  const changes = diffSnapshots(before, after)
+  const action = !before ? 'created' : !after ? 'deleted' : 'updated'
+  if (action === 'updated' && changes.length === 0) return
+  transactionRevisions.unshift({
+    id: nextId('rev'),
+    householdId,
+    transactionId: source.id,
+    transactionName: source.name,
+    action,
+    authorId: authenticatedUserId(request),
+    createdAt: nowIso(),
+    changes
+  })
+}
+
+function toRevisionResponse(revision: MockTransactionRevision) {
+  return {
+    id: revision.id,
+    transactionId: revision.transactionId,
+    transactionName: revision.transactionName,
+    action: revision.action,
+    authorId: revision.authorId,
+    createdAt: revision.createdAt,
+    changes: revision.changes
+  }
+}
+
+export const transactionRevisionHandlers = [
+  http.get(
+    `${BASE}/households/:householdId/transaction-revisions`,
+    ({ request, params }) => {
+      const url = new URL(request.url)
+      const transactionId = url.searchParams.get('transactionId')
+      return HttpResponse.json(
+        paginate(
+          transactionRevisions
+            .filter(
+              (item) =>
+                item.householdId === params.householdId &&
+                (!transactionId || item.transactionId === transactionId)
+            )
+            .map(toRevisionResponse),
+          url.searchParams.get('limit'),
+          url.searchParams.get('offset')
+        )
+      )
+    }
+  )
+]
@@ -0,0 +1,167 @@
+import { HttpResponse, http } from 'msw'
+import {
+  type MockTransactionTag,
+  nextId,
+  readJson,
+  transactionTagAssignments,
+  transactionTags
+} from '../data'
+
+const BASE = '/api/v1'
+
+function notFound(message: string) {
+  return HttpResponse.json(
+    {
+      error: {
+        code: 'NOT_FOUND',
+        message
+      }
+    },
+    {
+      status: 404
+    }
+  )
+}
+
+function toTagResponse(tag: MockTransactionTag) {
+  return {
+    id: tag.id,
+    name: tag.name,
+    color: tag.color
+  }
+}
+
+function isNameTaken(
+  householdId: string,
+  name: string,
+  exceptTagId?: string
+): boolean {
+  const wanted = name.toLocaleLowerCase('sv')
+  return transactionTags.some(
+    (tag) =>
+      tag.householdId === householdId &&
+      tag.id !== exceptTagId &&
+      tag.name.toLocaleLowerCase('sv') === wanted
+  )
+}
+
+function nameTakenResponse() {
+  return HttpResponse.json(
+    {
+      error: {
+        code: 'TAG_NAME_TAKEN',
+        message: 'A tag with this name already exists'
+      }
+    },
+    {
+      status: 409
+    }
+  )
+}
+
+/** Takes the tags off a deleted transaction. */
+export function removeTransactionTagAssignments(transactionId: string): void {
+  delete transactionTagAssignments[transactionId]
+}
+
+export const transactionTagHandlers = [
+  http.get(`${BASE}/households/:householdId/transaction-tags`, ({ params }) => {
+    const tags = transactionTags.filter(
+      (tag) => tag.householdId === params.householdId
+    )
+    const tagIds = new Set(tags.map((tag) => tag.id))
+    return HttpResponse.json({
+      tags: tags.map(toTagResponse),
+      assignments: Object.fromEntries(
+        Object.entries(transactionTagAssignments).filter(([, ids]) =>
+          ids.some((id) => tagIds.has(id))
+        )
+      )
+    })
+  }),
+
+  http.post(
+    `${BASE}/households/:householdId/transaction-tags`,
+    async ({ request, params }) => {
+      const householdId = String(params.householdId)
+      const body =
+        await readJson<Omit<MockTransactionTag, 'id' | 'householdId'>>(request)
+      if (isNameTaken(householdId, body.name)) {
+        return nameTakenResponse()
+      }
+      const tag: MockTransactionTag = {
+        id: nextId('tag'),
+        householdId,
+        name: body.name,
+        color: body.color
+      }
+      transactionTags.push(tag)
+      return HttpResponse.json(toTagResponse(tag), {
+        status: 201
+      })
+    }
+  ),
+
+  http.patch(`${BASE}/transaction-tags/:tagId`, async ({ request, params }) => {
+    const index = transactionTags.findIndex((tag) => tag.id === params.tagId)
+    const tag = transactionTags[index]
+    if (!tag) {
+      return notFound('Tag not found')
+    }
+    const body =
+      await readJson<Partial<Pick<MockTransactionTag, 'name' | 'color'>>>(
+        request
+      )
+    if (body.name && isNameTaken(tag.householdId, body.name, tag.id)) {
+      return nameTakenResponse()
+    }
+    transactionTags[index] = {
+      ...tag,
+      ...body
+    }
+    return HttpResponse.json(toTagResponse(transactionTags[index]))
+  }),
+
+  http.delete(`${BASE}/transaction-tags/:tagId`, ({ params }) => {
+    const index = transactionTags.findIndex((tag) => tag.id === params.tagId)
+    if (index === -1) {
+      return notFound('Tag not found')
+    }
+    transactionTags.splice(index, 1)
+    for (const [transactionId, tagIds] of Object.entries(
+      transactionTagAssignments
+    )) {
+      const remaining = tagIds.filter((id) => id !== params.tagId)
+      if (remaining.length > 0)
+        transactionTagAssignments[transactionId] = remaining
+      else delete transactionTagAssignments[transactionId]
+    }
+    return new HttpResponse(null, {
+      status: 204
+    })
+  }),
+
+  http.put(
+    `${BASE}/households/:householdId/transaction-tag-assignments`,
+    async ({ request, params }) => {
+      const body = await readJson<{
+        assignments: Record<string, string[]>
+      }>(request)
+      const knownTagIds = new Set(
+        transactionTags
+          .filter((tag) => tag.householdId === params.householdId)
+          .map((tag) => tag.id)
+      )
+      for (const [transactionId, tagIds] of Object.entries(body.assignments)) {
+        const kept = [
+          ...new Set(tagIds.filter((id) => knownTagIds.has(id)))
+        ]
+        if (kept.length > 0) transactionTagAssignments[transactionId] = kept
+        else delete transactionTagAssignments[transactionId]
+      }
+      return new HttpResponse(null, {
+        status: 204
+      })
+    }
+  )
+]
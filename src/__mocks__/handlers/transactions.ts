@@ -2,6 +2,7 @@ import { HttpResponse, http } from 'msw'
 import {
   accounts,
   allocations,
+  attachments,
   billInstances,
   bills,
   budgets,
@@ -18,6 +19,18 @@ import {
   toUtcIsoDateTime,
   transactions
 } from '../data'
+import {
+  isTransactionLocked,
+  transactionLockedResponse
+} from './reconciliations'
+import { removeTransactionAttribution } from './shared-expenses'
+import {
+  hasLinkedRefunds,
+  removeRefundLink,
+  transactionRefundedResponse
+} from './transaction-refunds'
+import { recordTransactionRevision } from './transaction-revisions'
+import { removeTransactionTagAssignments } from './transaction-tags'
 
 const BASE = '/api/v1'
 
@@ -340,7 +353,13 @@ function applyBulkAllocationAdjustments(
 export const transactionHandlers = [
   http.get(`${BASE}/transactions`, ({ request }) => {
     const url = new URL(request.url)
-    const filtered = listFilteredTransactions(url)
+    // Newest first with a stable tie-break so `offset` pages never overlap.
+    const filtered = listFilteredTransactions(url).sort(
+      (a, b) =>
+        new Date(b.date).getTime() - new Date(a.date).getTime() ||
+        b.createdAt.localeCompare(a.createdAt) ||
+        b.id.localeCompare(a.id)
+    )
     return HttpResponse.json(
       paginate(
         filtered.map(enrichTransaction),
@@ -399,7 +418,9 @@ export const transactionHandlers = [
     const body = await readJson<MockCreateTransactionBody>(request)
     try {
       const transaction = createStoredTransaction(body)
-      return HttpResponse.json(enrichTransaction(transaction), {
+      const created = enrichTransaction(transaction)
+      recordTransactionRevision(request, transaction.householdId, null, created)
+      return HttpResponse.json(created, {
         status: 201
       })
     } catch (error) {
@@ -476,6 +497,12 @@ export const transactionHandlers = [
       }
       try {
         const transaction = createStoredTransaction(createBody)
+        recordTransactionRevision(
+          request,
+          transaction.householdId,
+          null,
+          enrichTransaction(transaction)
+        )
         created.push({
           clientRowId,
           transactionId: transaction.id
@@ -534,16 +561,27 @@ export const transactionHandlers = [
           }
         )
       }
+      if (isTransactionLocked(String(params.transactionId))) {
+        return transactionLockedResponse()
+      }
       const body = await readJson<Record<string, unknown>>(request)
+      const before = enrichTransaction(transactions[index])
       transactions[index] = {
         ...transactions[index],
         ...body
       }
-      return HttpResponse.json(enrichTransaction(transactions[index]))
+      const updated = enrichTransaction(transactions[index])
+      recordTransactionRevision(
+        request,
+        transactions[index].householdId,
+        before,
+        updated
+      )
+      return HttpResponse.json(updated)
     }
   ),
 
-  http.delete(`${BASE}/transactions/:transactionId`, ({ params }) => {
+  http.delete(`${BASE}/transactions/:transactionId`, ({ request, params }) => {
     const index = transactions.findIndex(
       (item) => item.id === params.transactionId
     )
@@ -560,36 +598,67 @@ export const transactionHandlers = [
         }
       )
     }
-    transactions.splice(index, 1)
+    if (isTransactionLocked(String(params.transactionId))) {
+      return transactionLockedResponse()
+    }
+    if (hasLinkedRefunds(String(params.transactionId))) {
+      return transactionRefundedResponse()
+    }
+    const [deleted] = transactions.splice(index, 1)
+    recordTransactionRevision(
+      request,
+      deleted.householdId,
+      enrichTransaction(deleted),
+      null
+    )
+    removeRefundLink(String(params.transactionId))
+    removeTransactionAttribution(String(params.transactionId))
+    removeTransactionTagAssignments(String(params.transactionId))
+    for (let i = attachments.length - 1; i >= 0; i -= 1) {
+      const attachment = attachments[i]
+      if (
+        attachment?.ownerType === 'TRANSACTION' &&
+        attachment.ownerId === params.transactionId
+      ) {
+        attachments.splice(i, 1)
+      }
+    }
     return HttpResponse.json({
       success: true
     })
   }),
 
-  http.post(`${BASE}/transactions/:transactionId/clone`, ({ params }) => {
-    const source = transactions.find((item) => item.id === params.transactionId)
-    if (!source) {
-      return HttpResponse.json(
-        {
-          error: {
-            code: 'NOT_FOUND',
-            message: 'Transaction not found'
-          }
-        },
-        {
-          status: 404
-        }
+  http.post(
+    `${BASE}/transactions/:transactionId/clone`,
+    ({ request, params }) => {
+      const source = transactions.find(
+        (item) => item.id === params.transactionId
       )
+      if (!source) {
+        return HttpResponse.json(
+          {
+            error: {
+              code: 'NOT_FOUND',
+              message: 'Transaction not found'
+            }
+          },
+          {
+            status: 404
+          }
+        )
+      }
+      const clone = {
+        ...source,
+        id: nextId('txn'),
+        notes: `${source.notes ?? ''} (copy)`.trim(),
+        createdAt: nowIso()
+      }
+      transactions.push(clone)
+      const created = enrichTransaction(clone)
+      recordTransactionRevision(request, clone.householdId, null, created)
+      return HttpResponse.json(created, {
+        status: 201
+      })
     }
-    const clone = {
-      ...source,
-      id: nextId('txn'),
-      notes: `${source.notes ?? ''} (copy)`.trim(),
-      createdAt: nowIso()
-    }
-    transactions.push(clone)
-    return HttpResponse.json(enrichTransaction(clone), {
-      status: 201
-    })
-  })
+  )
 ]
@@ -6,12 +6,19 @@
 import { Link } from '@tanstack/react-router'
 import {
   ArrowLeftRight,
+  CalendarDays,
   ChartSpline,
   Grid2X2,
   HandCoins,
-  ReceiptText
+  History,
+  ReceiptText,
+  Scale,
+  Tags,
+  WandSparkles,
+  Zap
 } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/button/button'
 import { DateRangePicker } from '@/components/date-range-picker/date-range-picker'
 import { SidebarUserMenu } from '@/components/sidebar-user-menu/sidebar-user-menu'
 import { Sidebar } from '@/components/ui/sidebar'
@@ -33,6 +40,7 @@ type AppSidebarProps = {
   onCreateHousehold: () => void
   onEditHousehold: () => void
   onShowInvitations: () => void
+  onQuickAdd: () => void
   onSignOut: () => void
 }
 
@@ -44,6 +52,7 @@ export function AppSidebar({
   onCreateHousehold,
   onEditHousehold,
   onShowInvitations,
+  onQuickAdd,
   onSignOut
 }: AppSidebarProps) {
   const { t } = useTranslation()
@@ -70,10 +79,35 @@ export function AppSidebar({
       url: '/bills',
       icon: ReceiptText
     },
+    {
+      title: t('nav.calendar'),
+      url: '/calendar',
+      icon: CalendarDays
+    },
     {
       title: t('nav.categories'),
       url: '/categories',
       icon: Grid2X2
+    },
+    {
+      title: t('nav.tags'),
+      url: '/tags',
+      icon: Tags
+    },
+    {
+      title: t('nav.assignmentRules'),
+      url: '/assignment-rules',
+      icon: WandSparkles
+    },
+    {
+      title: t('nav.settleUp'),
+      url: '/settle-up',
+      icon: Scale
+    },
+    {
+      title: t('nav.changes'),
+      url: '/changes',
+      icon: History
     }
   ]
 
@@ -143,6 +177,19 @@ export function AppSidebar({
             />
           </div>
 
+          <div className="flex flex-col gap-1 px-4">
+            <Button
+              variant="filled"
+              color="primary"
+              icon={<Zap aria-hidden />}
+              label={t('quickAdd.open')}
+              onClick={onQuickAdd}
+            />
+            <span className="type-label-small text-muted-foreground">
+              {t('quickAdd.shortcutHint')}
+            </span>
+          </div>
+
           <nav aria-label={t('dashboard.sidebar')}>
             <ul className="flex flex-col gap-2">
               {navItems.map((item) => (
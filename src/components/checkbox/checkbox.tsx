@@ -7,6 +7,8 @@ type CheckboxProps = {
   onCheckedChange: (checked: boolean) => void
   /** When omitted, only the control is rendered (e.g. tables, icon-only filters). */
   label?: string
+  /** Accessible name when no `label` is rendered. */
+  'aria-label'?: string
   disabled?: boolean
 }
 
@@ -15,11 +17,13 @@ export function Checkbox({
   checked,
   onCheckedChange,
   label,
+  'aria-label': ariaLabel,
   disabled
 }: CheckboxProps) {
   const control = (
     <CheckboxPrimitive
       id={id}
+      aria-label={ariaLabel}
       checked={checked}
       onCheckedChange={(c) => onCheckedChange(c === true)}
       disabled={disabled}
@@ -4,7 +4,7 @@ import {
   type Table
 } from '@tanstack/react-table'
 import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react'
-import type { ReactNode } from 'react'
+import { type ReactNode, type RefObject, useEffect, useRef } from 'react'
 
 import {
   TableBody,
@@ -50,6 +50,72 @@ export interface DataTableProps<TData> {
   getRowClassName?: (row: TData) => string | undefined
   /** Toolbar region for table-specific quick filters (e.g. switches). */
   quickFilters?: ReactNode
+  /**
+   * Server-side tables without pagination: calls `onLoadMore` when the end of
+   * the loaded rows scrolls into view while `hasMore` is true.
+   */
+  infiniteScroll?: DataTableInfiniteScroll
+}
+
+export type DataTableInfiniteScroll = {
+  hasMore: boolean
+  loading: boolean
+  onLoadMore: () => void
+  /** Shown in the last row while the next page loads. */
+  loadingLabel: ReactNode
+}
+
+/**
+ * Sentinel row after the loaded rows; asks for the next page once it comes
+ * within a screen of the scroll container's bottom edge.
+ */
+function DataTableLoadMoreRow({
+  scrollRootRef,
+  colSpan,
+  infiniteScroll
+}: {
+  scrollRootRef: RefObject<HTMLDivElement | null>
+  colSpan: number
+  infiniteScroll: DataTableInfiniteScroll
+}) {
+  const rowRef = useRef<HTMLTableRowElement | null>(null)
+  const { hasMore, loading, onLoadMore } = infiniteScroll
+
+  useEffect(() => {
+    const row = rowRef.current
+    if (!row || !hasMore || loading) return
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onLoadMore()
+      },
+      {
+        root: scrollRootRef.current,
+        rootMargin: '0px 0px 100% 0px'
+      }
+    )
+    observer.observe(row)
+    return () => observer.disconnect()
+  }, [
+    hasMore,
+    loading,
+    onLoadMore,
+    scrollRootRef
+  ])
+
+  if (!hasMore && !loading) return null
+  return (
+    <TableRow
+      ref={rowRef}
+      className="hover:bg-transparent"
+    >
+      <TableCell
+        colSpan={colSpan}
+        className="px-3 py-3 text-center type-label text-gray-600"
+      >
+        {loading ? infiniteScroll.loadingLabel : null}
+      </TableCell>
+    </TableRow>
+  )
 }
 
 /**
@@ -69,10 +135,12 @@ export function DataTable<TData>({
   pagination,
   emptyMessage,
   getRowClassName,
-  quickFilters
+  quickFilters,
+  infiniteScroll
 }: DataTableProps<TData>) {
   'use no memo'
   const visibleColumnCount = table.getVisibleLeafColumns().length
+  const scrollRootRef = useRef<HTMLDivElement | null>(null)
 
   return (
     <div className="flex min-h-0 flex-1 flex-col gap-2">
@@ -86,7 +154,10 @@ export function DataTable<TData>({
         actionButton={actionButton}
         labels={toolbarLabels}
       />
-      <div className="min-h-0 flex-1 overflow-auto">
+      <div
+        ref={scrollRootRef}
+        className="min-h-0 flex-1 overflow-auto"
+      >
         <TableFrame>
           <TableHeader>
             {table.getHeaderGroups().map((headerGroup) => (
@@ -174,6 +245,13 @@ export function DataTable<TData>({
                 ))}
               </TableRow>
             ))}
+            {infiniteScroll ? (
+              <DataTableLoadMoreRow
+                scrollRootRef={scrollRootRef}
+                colSpan={visibleColumnCount}
+                infiniteScroll={infiniteScroll}
+              />
+            ) : null}
           </TableBody>
         </TableFrame>
       </div>
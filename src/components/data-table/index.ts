@@ -1,4 +1,8 @@
-export { DataTable, type DataTableProps } from './data-table'
+export {
+  DataTable,
+  type DataTableInfiniteScroll,
+  type DataTableProps
+} from './data-table'
 export {
   DataTablePagination,
   type DataTablePaginationProps
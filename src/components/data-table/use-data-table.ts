@@ -1,5 +1,6 @@
 import {
   type ColumnFiltersState,
+  functionalUpdate,
   getCoreRowModel,
   getFilteredRowModel,
   getPaginationRowModel,
@@ -8,6 +9,7 @@ import {
   type Row,
   type SortingState,
   type Table,
+  type Updater,
   useReactTable
 } from '@tanstack/react-table'
 import { useCallback, useEffect, useMemo, useState } from 'react'
@@ -26,6 +28,24 @@ export interface UseDataTableOptions<TData> {
   initialSorting?: SortingState
   /** When set, row pagination is enabled with this initial page size. */
   defaultPageSize?: number
+  /**
+   * Controlled table state, e.g. kept in the route's search params. Each
+   * value is only controlled when passed together with its change handler.
+   */
+  sorting?: SortingState
+  onSortingChange?: (sorting: SortingState) => void
+  globalFilter?: string
+  onGlobalFilterChange?: (globalFilter: string) => void
+  columnFilters?: ColumnFiltersState
+  onColumnFiltersChange?: (columnFilters: ColumnFiltersState) => void
+  /**
+   * Server mode: `data` already holds the filtered, sorted rows to show and the
+   * hook only tracks state for the caller to send as query parameters.
+   * `rowCount` is the total number of matches on the server.
+   */
+  serverSide?: {
+    rowCount: number
+  }
 }
 
 export interface UseDataTableReturn<TData> {
@@ -96,6 +116,40 @@ function formatFilterPillDisplay<TData>(
   return String(value)
 }
 
+/**
+ * Internal state unless the caller passes both a value and its change handler.
+ */
+function useControllableState<T>(
+  controlledValue: T | undefined,
+  onChange: ((value: T) => void) | undefined,
+  initialValue: T
+): [
+  T,
+  (updater: Updater<T>) => void
+] {
+  const [internalValue, setInternalValue] = useState<T>(initialValue)
+  const isControlled = controlledValue !== undefined && onChange !== undefined
+  const value = isControlled ? controlledValue : internalValue
+  const setValue = useCallback(
+    (updater: Updater<T>) => {
+      if (!isControlled) {
+        setInternalValue(updater)
+        return
+      }
+      onChange(functionalUpdate(updater, controlledValue))
+    },
+    [
+      controlledValue,
+      isControlled,
+      onChange
+    ]
+  )
+  return [
+    value,
+    setValue
+  ]
+}
+
 /**
  * Creates a TanStack Table instance with shared global search, sorting, filtering, and toolbar helpers.
  */
@@ -103,17 +157,38 @@ export function useDataTable<TData>(
   options: UseDataTableOptions<TData>
 ): UseDataTableReturn<TData> {
   'use no memo'
-  const { data, columns, getRowId, initialSorting, defaultPageSize } = options
+  const {
+    data,
+    columns,
+    getRowId,
+    initialSorting,
+    defaultPageSize,
+    serverSide
+  } = options
 
-  const [sorting, setSorting] = useState<SortingState>(initialSorting ?? [])
-  const [globalFilter, setGlobalFilter] = useState('')
-  const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([])
+  const [sorting, setSorting] = useControllableState<SortingState>(
+    options.sorting,
+    options.onSortingChange,
+    initialSorting ?? []
+  )
+  const [globalFilter, setGlobalFilter] = useControllableState(
+    options.globalFilter,
+    options.onGlobalFilterChange,
+    ''
+  )
+  const [columnFilters, setColumnFilters] =
+    useControllableState<ColumnFiltersState>(
+      options.columnFilters,
+      options.onColumnFiltersChange,
+      []
+    )
   const [pagination, setPagination] = useState<PaginationState>(() => ({
     pageIndex: 0,
     pageSize: defaultPageSize ?? 10
   }))
 
   const enablePagination = defaultPageSize !== undefined
+  const isServerSide = serverSide !== undefined
 
   const columnsWithSort = useMemo(
     () =>
@@ -172,11 +247,18 @@ export function useDataTable<TData>(
 
   const clearAllFilters = useCallback(() => {
     setColumnFilters([])
-  }, [])
+  }, [
+    setColumnFilters
+  ])
 
-  const removeFilter = useCallback((columnId: string) => {
-    setColumnFilters((prev) => prev.filter((f) => f.id !== columnId))
-  }, [])
+  const removeFilter = useCallback(
+    (columnId: string) => {
+      setColumnFilters((prev) => prev.filter((f) => f.id !== columnId))
+    },
+    [
+      setColumnFilters
+    ]
+  )
 
   const activeFilters = useMemo((): ActiveFilter[] => {
     return columnFilters.map((filter) => {
@@ -211,7 +293,9 @@ export function useDataTable<TData>(
     enablePagination,
     globalFilter,
     columnFilters,
-    data.length
+    sorting,
+    // A server page arriving must not send the table back to the first page.
+    isServerSide ? 0 : data.length
   ])
 
   const table = useReactTable({
@@ -238,6 +322,10 @@ export function useDataTable<TData>(
         }
       : {}),
     globalFilterFn,
+    manualFiltering: isServerSide,
+    manualSorting: isServerSide,
+    manualPagination: isServerSide,
+    rowCount: serverSide?.rowCount,
     getCoreRowModel: getCoreRowModel(),
     getFilteredRowModel: getFilteredRowModel(),
     getSortedRowModel: getSortedRowModel(),
@@ -0,0 +1,136 @@
+import { ChevronLeft, ChevronRight, Download } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/button/button'
+import { IconButton } from '@/components/icon-button/icon-button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import {
+  type Attachment,
+  formatFileSize
+} from '@/features/attachments/attachments'
+import { useAttachmentObjectUrl } from '@/features/attachments/use-attachments'
+
+type AttachmentViewerDialogProps = {
+  attachments: Attachment[]
+  /** The attachment shown, or `null` when the viewer is closed. */
+  attachmentId: string | null
+  onAttachmentIdChange: (attachmentId: string | null) => void
+}
+
+function saveObjectUrl(url: string, fileName: string): void {
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.append(link)
+  link.click()
+  link.remove()
+}
+
+/**
+ * Shows a receipt photo or PDF invoice inline, with stepping between the
+ * owner's attachments and a download of the original file.
+ */
+export function AttachmentViewerDialog({
+  attachments,
+  attachmentId,
+  onAttachmentIdChange
+}: AttachmentViewerDialogProps) {
+  const { t } = useTranslation()
+  const index = attachments.findIndex((item) => item.id === attachmentId)
+  const attachment = index === -1 ? null : attachments[index]
+  const preview = useAttachmentObjectUrl(attachment?.id ?? null)
+  const previous = index > 0 ? attachments[index - 1] : undefined
+  const next = index === -1 ? undefined : attachments[index + 1]
+
+  return (
+    <Dialog
+      open={attachment !== null}
+      onOpenChange={(open) => {
+        if (!open) onAttachmentIdChange(null)
+      }}
+    >
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="truncate">
+            {attachment?.fileName ?? ''}
+          </DialogTitle>
+          <DialogDescription>
+            {attachment
+              ? t('attachments.viewer.description', {
+                  position: index + 1,
+                  total: attachments.length,
+                  size: formatFileSize(attachment.size)
+                })
+              : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex h-[60vh] items-center justify-center overflow-hidden rounded-md bg-gray-100">
+          {!preview ? (
+            <p className="type-body-medium text-gray-600">
+              {t('common.loading')}
+            </p>
+          ) : preview.kind === 'pdf' ? (
+            <iframe
+              src={preview.url}
+              title={attachment?.fileName}
+              sandbox=""
+              className="h-full w-full border-0"
+            />
+          ) : preview.kind === 'image' ? (
+            <img
+              src={preview.url}
+              alt={attachment?.fileName}
+              className="max-h-full max-w-full object-contain"
+            />
+          ) : (
+            <p className="type-body-medium text-gray-600">
+              {t('attachments.viewer.unsupported')}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <div className="flex items-center gap-1">
+            <IconButton
+              variant="text"
+              color="subtle"
+              icon={<ChevronLeft />}
+              aria-label={t('attachments.viewer.previous')}
+              title={t('attachments.viewer.previous')}
+              disabled={!previous}
+              onClick={() => previous && onAttachmentIdChange(previous.id)}
+            />
+            <IconButton
+              variant="text"
+              color="subtle"
+              icon={<ChevronRight />}
+              aria-label={t('attachments.viewer.next')}
+              title={t('attachments.viewer.next')}
+              disabled={!next}
+              onClick={() => next && onAttachmentIdChange(next.id)}
+            />
+          </div>
+          <Button
+            variant="outlined"
+            color="subtle"
+            icon={<Download aria-hidden />}
+            label={t('attachments.viewer.download')}
+            disabled={!preview}
+            onClick={() => {
+              if (preview && attachment) {
+                saveObjectUrl(preview.url, attachment.fileName)
+              }
+            }}
+          />
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
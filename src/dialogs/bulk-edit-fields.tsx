@@ -0,0 +1,139 @@
+/**
+ * Labelled fields shared by the bulk edit dialogs. Empty values and
+ * `NO_CHANGE_VALUE` mean "leave the selected rows as they are".
+ */
+
+import { type ReactNode, useId } from 'react'
+import type { ComboboxValue } from '@/components/form'
+import {
+  DRAFT_CONTROL_CLASS_NAME,
+  DraftCombobox
+} from '@/features/import-statements/components/import-table-fields'
+import { TagPicker } from '@/features/transaction-tags/tag-picker'
+
+export const NO_CHANGE_VALUE = '__no_change__'
+
+export function BulkCombobox({
+  label,
+  value,
+  placeholder,
+  options,
+  allowCreate,
+  createLabel,
+  onChange
+}: {
+  label: string
+  value: ComboboxValue | null
+  placeholder: string
+  options: Array<{
+    value: string
+    label: string
+  }>
+  allowCreate?: boolean
+  createLabel?: string
+  onChange: (value: ComboboxValue | null) => void
+}) {
+  const id = useId()
+  return (
+    <div className="flex flex-col gap-2">
+      <span
+        className="type-label text-gray-800"
+        id={id}
+      >
+        {label}
+      </span>
+      <DraftCombobox
+        value={value}
+        placeholder={placeholder}
+        options={options}
+        allowCreate={allowCreate}
+        createLabel={createLabel}
+        onChange={onChange}
+      />
+    </div>
+  )
+}
+
+export function BulkSelect({
+  label,
+  value,
+  onChange,
+  children
+}: {
+  label: string
+  value: string
+  onChange: (value: string) => void
+  children: ReactNode
+}) {
+  const id = useId()
+  return (
+    <div className="flex flex-col gap-2">
+      <label
+        className="type-label text-gray-800"
+        htmlFor={id}
+      >
+        {label}
+      </label>
+      <select
+        id={id}
+        className={DRAFT_CONTROL_CLASS_NAME}
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+      >
+        {children}
+      </select>
+    </div>
+  )
+}
+
+export function BulkInput({
+  label,
+  value,
+  type = 'text',
+  onChange
+}: {
+  label: string
+  value: string
+  type?: 'text' | 'number'
+  onChange: (value: string) => void
+}) {
+  const id = useId()
+  return (
+    <div className="flex flex-col gap-2">
+      <label
+        className="type-label text-gray-800"
+        htmlFor={id}
+      >
+        {label}
+      </label>
+      <input
+        id={id}
+        type={type}
+        className={DRAFT_CONTROL_CLASS_NAME}
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+      />
+    </div>
+  )
+}
+
+/** Tags added to every selected row on top of the tags already on it. */
+export function BulkTagPicker({
+  label,
+  value,
+  onChange
+}: {
+  label: string
+  value: string[]
+  onChange: (value: string[]) => void
+}) {
+  return (
+    <div className="flex flex-col gap-2 sm:col-span-2">
+      <span className="type-label text-gray-800">{label}</span>
+      <TagPicker
+        value={value}
+        onChange={onChange}
+      />
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import { type ReactNode, useId, useState } from 'react'
+import { useId, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import {
   type BillInstance,
@@ -6,6 +6,7 @@ import {
   TransactionType
 } from '@/api/generated/types.gen'
 import { Button } from '@/components/button/button'
+import { Checkbox } from '@/components/checkbox/checkbox'
 import type { ComboboxValue } from '@/components/form'
 import {
   Dialog,
@@ -15,13 +16,18 @@ import {
   DialogHeader,
   DialogTitle
 } from '@/components/ui/dialog'
+import {
+  BulkCombobox,
+  BulkInput,
+  BulkSelect,
+  BulkTagPicker,
+  NO_CHANGE_VALUE
+} from '@/dialogs/bulk-edit-fields'
 import {
   getBillInstanceLabel,
   getIncomeInstanceLabel
 } from '@/features/import-statements/classification/instance-matching'
 import {
-  DRAFT_CONTROL_CLASS_NAME,
-  DraftCombobox,
   lookupItemsToComboboxOptions,
   SelectOptionList
 } from '@/features/import-statements/components/import-table-fields'
@@ -30,8 +36,6 @@ import type {
   TransactionDraft
 } from '@/features/import-statements/types'
 
-export const NO_CHANGE_VALUE = '__no_change__'
-
 export type BulkEditValues = {
   type: TransactionDraft['type'] | typeof NO_CHANGE_VALUE
   name: string
@@ -43,6 +47,10 @@ export type BulkEditValues = {
   recipient: ComboboxValue | null
   incomeSource: ComboboxValue | null
   category: ComboboxValue | null
+  /** Fill the budget (and empty category) of selected rows from their suggestion. */
+  acceptBudgetSuggestions: boolean
+  /** Tags added to the selected rows, saved on the transactions once imported. */
+  tagIds: string[]
 }
 
 const EMPTY_BULK_EDIT_VALUES: BulkEditValues = {
@@ -55,7 +63,9 @@ const EMPTY_BULK_EDIT_VALUES: BulkEditValues = {
   budgetId: '',
   recipient: null,
   incomeSource: null,
-  category: null
+  category: null,
+  acceptBudgetSuggestions: false,
+  tagIds: []
 }
 
 function bulkComboboxId(value: ComboboxValue | null): string | null {
@@ -66,6 +76,8 @@ function bulkComboboxId(value: ComboboxValue | null): string | null {
 type ImportBulkEditDialogProps = {
   open: boolean
   selectedCount: number
+  /** Selected rows with a budget suggestion from recipient history. */
+  suggestedCount: number
   sectionType: TransactionDraft['type']
   accounts: ImportLookupItem[]
   budgets: ImportLookupItem[]
@@ -82,107 +94,6 @@ type ImportBulkEditDialogProps = {
   onApply: (values: BulkEditValues) => void
 }
 
-function BulkCombobox({
-  label,
-  value,
-  placeholder,
-  options,
-  allowCreate,
-  createLabel,
-  onChange
-}: {
-  label: string
-  value: ComboboxValue | null
-  placeholder: string
-  options: Array<{
-    value: string
-    label: string
-  }>
-  allowCreate?: boolean
-  createLabel?: string
-  onChange: (value: ComboboxValue | null) => void
-}) {
-  const id = useId()
-  return (
-    <div className="flex flex-col gap-2">
-      <span
-        className="type-label text-gray-800"
-        id={id}
-      >
-        {label}
-      </span>
-      <DraftCombobox
-        value={value}
-        placeholder={placeholder}
-        options={options}
-        allowCreate={allowCreate}
-        createLabel={createLabel}
-        onChange={onChange}
-      />
-    </div>
-  )
-}
-
-function BulkSelect({
-  label,
-  value,
-  onChange,
-  children
-}: {
-  label: string
-  value: string
-  onChange: (value: string) => void
-  children: ReactNode
-}) {
-  const id = useId()
-  return (
-    <div className="flex flex-col gap-2">
-      <label
-        className="type-label text-gray-800"
-        htmlFor={id}
-      >
-        {label}
-      </label>
-      <select
-        id={id}
-        className={DRAFT_CONTROL_CLASS_NAME}
-        value={value}
-        onChange={(event) => onChange(event.target.value)}
-      >
-        {children}
-      </select>
-    </div>
-  )
-}
-
-function BulkInput({
-  label,
-  value,
-  onChange
-}: {
-  label: string
-  value: string
-  onChange: (value: string) => void
-}) {
-  const id = useId()
-  return (
-    <div className="flex flex-col gap-2">
-      <label
-        className="type-label text-gray-800"
-        htmlFor={id}
-      >
-        {label}
-      </label>
-      <input
-        id={id}
-        className={DRAFT_CONTROL_CLASS_NAME}
-        value={value}
-        onChange={(event) => onChange(event.target.value)}
-      />
-    </div>
-  )
-}
-
 function sectionSupportsRecipient(type: TransactionDraft['type']): boolean {
   return type === TransactionType.EXPENSE
 }
@@ -214,6 +125,7 @@ function sectionSupportsTransferAccount(
 export function ImportBulkEditDialog({
   open,
   selectedCount,
+  suggestedCount,
   sectionType,
   accounts,
   budgets,
@@ -227,6 +139,7 @@ export function ImportBulkEditDialog({
 }: ImportBulkEditDialogProps) {
   const { t } = useTranslation()
   const [values, setValues] = useState<BulkEditValues>(EMPTY_BULK_EDIT_VALUES)
+  const acceptSuggestionsId = useId()
 
   const closeDialog = (nextOpen: boolean) => {
     if (!nextOpen) setValues(EMPTY_BULK_EDIT_VALUES)
@@ -461,6 +374,25 @@ export function ImportBulkEditDialog({
             </BulkSelect>
           ) : null}
 
+          {sectionSupportsBudgetAndCategory(sectionType) &&
+          suggestedCount > 0 ? (
+            <div className="sm:col-span-2">
+              <Checkbox
+                id={acceptSuggestionsId}
+                checked={values.acceptBudgetSuggestions}
+                label={t('statementImport.bulkEdit.acceptBudgetSuggestions', {
+                  count: suggestedCount
+                })}
+                onCheckedChange={(acceptBudgetSuggestions) =>
+                  setValues((current) => ({
+                    ...current,
+                    acceptBudgetSuggestions
+                  }))
+                }
+              />
+            </div>
+          ) : null}
+
           {sectionSupportsCategory(sectionType) ? (
             <BulkCombobox
               label={t('common.category')}
@@ -481,6 +413,17 @@ export function ImportBulkEditDialog({
               }
             />
           ) : null}
+
+          <BulkTagPicker
+            label={t('tags.bulkAdd')}
+            value={values.tagIds}
+            onChange={(tagIds) =>
+              setValues((current) => ({
+                ...current,
+                tagIds
+              }))
+            }
+          />
         </div>
 
         <DialogFooter>
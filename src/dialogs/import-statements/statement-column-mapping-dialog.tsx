@@ -0,0 +1,424 @@
+import { type ReactNode, useId, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/button/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import { DRAFT_CONTROL_CLASS_NAME } from '@/features/import-statements/components/import-table-fields'
+import {
+  normalizeHeader,
+  parseStatementRows
+} from '@/features/import-statements/parser'
+import {
+  createMappedStatementProfile,
+  type StatementColumnMapping
+} from '@/features/import-statements/profiles'
+import {
+  STATEMENT_DATE_FORMATS,
+  type StatementDateFormat
+} from '@/features/import-statements/utils/date'
+
+const HEADER_ROW_CANDIDATES = 15
+const PREVIEW_ROWS = 5
+const AUTO_VALUE = '__auto__'
+const NONE_VALUE = '__none__'
+
+type MappingValues = {
+  name: string
+  headerRowIndex: number
+  date: string
+  description: string
+  amount: string
+  balance: string
+  dateFormat: string
+  signConvention: StatementColumnMapping['signConvention']
+}
+
+function cellText(value: unknown): string {
+  if (value instanceof Date) return value.toISOString().slice(0, 10)
+  return String(value ?? '').trim()
+}
+
+/** First row with at least three filled cells is the likeliest header. */
+function guessHeaderRowIndex(rows: unknown[][]): number {
+  const index = rows
+    .slice(0, HEADER_ROW_CANDIDATES)
+    .findIndex((row) => row.filter((cell) => cellText(cell)).length >= 3)
+  return Math.max(index, 0)
+}
+
+function initialValues(rows: unknown[][]): MappingValues {
+  return {
+    name: '',
+    headerRowIndex: guessHeaderRowIndex(rows),
+    date: '',
+    description: '',
+    amount: '',
+    balance: NONE_VALUE,
+    dateFormat: AUTO_VALUE,
+    signConvention: 'signed'
+  }
+}
+
+function toMapping(values: MappingValues): StatementColumnMapping | null {
+  if (!values.name.trim() || !values.date) return null
+  if (!values.description || !values.amount) return null
+
+  const required = [
+    values.date,
+    values.description,
+    values.amount
+  ]
+  if (new Set(required).size !== required.length) return null
+
+  return {
+    name: values.name,
+    headerRowIndex: values.headerRowIndex,
+    columns: {
+      date: Number(values.date),
+      description: Number(values.description),
+      amount: Number(values.amount),
+      balance: values.balance === NONE_VALUE ? null : Number(values.balance)
+    },
+    dateFormat:
+      values.dateFormat === AUTO_VALUE
+        ? null
+        : (values.dateFormat as StatementDateFormat),
+    signConvention: values.signConvention
+  }
+}
+
+function previewMapping(
+  rows: unknown[][],
+  mapping: StatementColumnMapping
+): {
+  parsed: number
+  invalid: number
+} {
+  try {
+    const result = parseStatementRows(rows, [
+      createMappedStatementProfile(rows, mapping, normalizeHeader)
+    ])
+    return {
+      parsed: result.transactions.length,
+      invalid: result.invalidRows.length
+    }
+  } catch {
+    return {
+      parsed: 0,
+      invalid: 0
+    }
+  }
+}
+
+function MappingSelect({
+  label,
+  value,
+  onChange,
+  children
+}: {
+  label: string
+  value: string
+  onChange: (value: string) => void
+  children: ReactNode
+}) {
+  const id = useId()
+  return (
+    <div className="flex flex-col gap-2">
+      <label
+        className="type-label text-gray-800"
+        htmlFor={id}
+      >
+        {label}
+      </label>
+      <select
+        id={id}
+        className={DRAFT_CONTROL_CLASS_NAME}
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+      >
+        {children}
+      </select>
+    </div>
+  )
+}
+
+type StatementColumnMappingDialogProps = {
+  open: boolean
+  fileName: string
+  rows: unknown[][]
+  onOpenChange: (open: boolean) => void
+  onConfirm: (mapping: StatementColumnMapping) => void
+}
+
+/**
+ * Column-mapping step shown when no statement profile recognizes a file's
+ * headers. The chosen mapping is saved as a household profile by the caller.
+ */
+export function StatementColumnMappingDialog({
+  open,
+  fileName,
+  rows,
+  onOpenChange,
+  onConfirm
+}: StatementColumnMappingDialogProps) {
+  const { t } = useTranslation()
+  const nameInputId = useId()
+  const [values, setValues] = useState<MappingValues>(() => initialValues(rows))
+
+  const headerRow = rows[values.headerRowIndex] ?? []
+  const columnOptions = headerRow.map((cell, index) => ({
+    value: String(index),
+    label:
+      cellText(cell) ||
+      t('statementImport.mapping.columnFallback', {
+        column: index + 1
+      })
+  }))
+  const mapping = toMapping(values)
+  const headersNamed =
+    mapping != null &&
+    [
+      mapping.columns.date,
+      mapping.columns.description,
+      mapping.columns.amount
+    ].every((column) => normalizeHeader(headerRow[column]) !== '')
+
+  const preview = mapping && headersNamed ? previewMapping(rows, mapping) : null
+
+  const setValue = <Key extends keyof MappingValues>(
+    key: Key,
+    value: MappingValues[Key]
+  ) =>
+    setValues((current) => ({
+      ...current,
+      [key]: value
+    }))
+
+  const closeDialog = (nextOpen: boolean) => {
+    if (!nextOpen) setValues(initialValues(rows))
+    onOpenChange(nextOpen)
+  }
+
+  const handleConfirm = () => {
+    if (!mapping || !preview?.parsed) return
+    onConfirm(mapping)
+  }
+
+  const columnSelectOptions = columnOptions.map((option) => (
+    <option
+      key={option.value}
+      value={option.value}
+    >
+      {option.label}
+    </option>
+  ))
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={closeDialog}
+    >
+      <DialogContent className="max-h-[min(90vh,760px)] overflow-y-auto sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{t('statementImport.mapping.title')}</DialogTitle>
+          <DialogDescription>
+            {t('statementImport.mapping.description', {
+              fileName
+            })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="flex flex-col gap-2 sm:col-span-2">
+            <label
+              className="type-label text-gray-800"
+              htmlFor={nameInputId}
+            >
+              {t('statementImport.mapping.profileName')}
+            </label>
+            <input
+              id={nameInputId}
+              className={DRAFT_CONTROL_CLASS_NAME}
+              value={values.name}
+              placeholder={t('statementImport.mapping.profileNamePlaceholder')}
+              onChange={(event) => setValue('name', event.target.value)}
+            />
+          </div>
+
+          <MappingSelect
+            label={t('statementImport.mapping.headerRow')}
+            value={String(values.headerRowIndex)}
+            onChange={(value) =>
+              setValues((current) => ({
+                ...initialValues(rows),
+                name: current.name,
+                headerRowIndex: Number(value)
+              }))
+            }
+          >
+            {rows.slice(0, HEADER_ROW_CANDIDATES).map((row, index) => (
+              <option
+                // biome-ignore lint/suspicious/noArrayIndexKey: rows have no identity besides position
+                key={index}
+                value={String(index)}
+              >
+                {t('statementImport.mapping.headerRowOption', {
+                  row: index + 1,
+                  preview: row.map(cellText).filter(Boolean).join(' | ')
+                })}
+              </option>
+            ))}
+          </MappingSelect>
+
+          <MappingSelect
+            label={t('statementImport.mapping.dateFormat')}
+            value={values.dateFormat}
+            onChange={(value) => setValue('dateFormat', value)}
+          >
+            <option value={AUTO_VALUE}>
+              {t('statementImport.mapping.autoDetect')}
+            </option>
+            {STATEMENT_DATE_FORMATS.map((format) => (
+              <option
+                key={format}
+                value={format}
+              >
+                {format}
+              </option>
+            ))}
+          </MappingSelect>
+
+          <MappingSelect
+            label={t('statementImport.mapping.dateColumn')}
+            value={values.date}
+            onChange={(value) => setValue('date', value)}
+          >
+            <option value="">
+              {t('statementImport.mapping.chooseColumn')}
+            </option>
+            {columnSelectOptions}
+          </MappingSelect>
+
+          <MappingSelect
+            label={t('statementImport.mapping.descriptionColumn')}
+            value={values.description}
+            onChange={(value) => setValue('description', value)}
+          >
+            <option value="">
+              {t('statementImport.mapping.chooseColumn')}
+            </option>
+            {columnSelectOptions}
+          </MappingSelect>
+
+          <MappingSelect
+            label={t('statementImport.mapping.amountColumn')}
+            value={values.amount}
+            onChange={(value) => setValue('amount', value)}
+          >
+            <option value="">
+              {t('statementImport.mapping.chooseColumn')}
+            </option>
+            {columnSelectOptions}
+          </MappingSelect>
+
+          <MappingSelect
+            label={t('statementImport.mapping.balanceColumn')}
+            value={values.balance}
+            onChange={(value) => setValue('balance', value)}
+          >
+            <option value={NONE_VALUE}>
+              {t('statementImport.mapping.noBalanceColumn')}
+            </option>
+            {columnSelectOptions}
+          </MappingSelect>
+
+          <MappingSelect
+            label={t('statementImport.mapping.signConvention')}
+            value={values.signConvention}
+            onChange={(value) =>
+              setValue(
+                'signConvention',
+                value as MappingValues['signConvention']
+              )
+            }
+          >
+            <option value="signed">
+              {t('statementImport.mapping.signSigned')}
+            </option>
+            <option value="inverted">
+              {t('statementImport.mapping.signInverted')}
+            </option>
+          </MappingSelect>
+        </div>
+
+        <div className="overflow-x-auto rounded-sm border border-gray-300">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {columnOptions.map((option) => (
+                  <TableHead key={option.value}>{option.label}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows
+                .slice(
+                  values.headerRowIndex + 1,
+                  values.headerRowIndex + 1 + PREVIEW_ROWS
+                )
+                .map((row, rowIndex) => (
+                  // biome-ignore lint/suspicious/noArrayIndexKey: preview rows have no identity besides position
+                  <TableRow key={rowIndex}>
+                    {columnOptions.map((option) => (
+                      <TableCell key={option.value}>
+                        {cellText(row[Number(option.value)])}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <p className="type-label text-gray-800">
+          {!mapping
+            ? t('statementImport.mapping.incomplete')
+            : !headersNamed
+              ? t('statementImport.mapping.unnamedHeader')
+              : t('statementImport.mapping.preview', {
+                  parsed: preview?.parsed ?? 0,
+                  invalid: preview?.invalid ?? 0
+                })}
+        </p>
+
+        <DialogFooter>
+          <Button
+            variant="text"
+            color="subtle"
+            label={t('common.cancel')}
+            onClick={() => closeDialog(false)}
+          />
+          <Button
+            label={t('statementImport.mapping.submit')}
+            disabled={!preview?.parsed}
+            onClick={handleConfirm}
+          />
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
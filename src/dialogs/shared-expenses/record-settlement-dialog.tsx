@@ -0,0 +1,210 @@
+import { format, isValid, parseISO } from 'date-fns'
+import { useEffect, useId, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/button/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import {
+  DRAFT_CONTROL_CLASS_NAME,
+  SelectOptionList
+} from '@/features/import-statements/components/import-table-fields'
+import type { ImportLookupItem } from '@/features/import-statements/types'
+import type { Settlement } from '@/features/shared-expenses/settle-up'
+import { formatCurrency } from '@/lib/utils'
+
+export type SettlementTransfer = {
+  accountId: string
+  transferToAccountId: string
+  amount: number
+  date: Date
+}
+
+type RecordSettlementDialogProps = {
+  /** The payment to record; the dialog is open while it is set. */
+  settlement: Settlement | null
+  memberNames: Map<string, string>
+  /** Accounts each member owns, by member user id. */
+  accountsByMember: Map<string, ImportLookupItem[]>
+  pending: boolean
+  onOpenChange: (open: boolean) => void
+  onSubmit: (transfer: SettlementTransfer) => void
+}
+
+/**
+ * Records a settle-up payment as a TRANSFER from one of the paying member's
+ * accounts to one of the other member's.
+ */
+export function RecordSettlementDialog({
+  settlement,
+  memberNames,
+  accountsByMember,
+  pending,
+  onOpenChange,
+  onSubmit
+}: RecordSettlementDialogProps) {
+  const { t } = useTranslation()
+  const fromId = useId()
+  const toId = useId()
+  const amountId = useId()
+  const dateId = useId()
+  const [fromAccountId, setFromAccountId] = useState('')
+  const [toAccountId, setToAccountId] = useState('')
+  const [amount, setAmount] = useState('')
+  const [date, setDate] = useState('')
+
+  const fromAccounts = settlement
+    ? (accountsByMember.get(settlement.fromMemberId) ?? [])
+    : []
+  const toAccounts = settlement
+    ? (accountsByMember.get(settlement.toMemberId) ?? [])
+    : []
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reset only when another settlement opens
+  useEffect(() => {
+    if (!settlement) return
+    setFromAccountId(fromAccounts[0]?.id ?? '')
+    setToAccountId(toAccounts[0]?.id ?? '')
+    setAmount(String(settlement.amount))
+    setDate(format(new Date(), 'yyyy-MM-dd'))
+  }, [
+    settlement
+  ])
+
+  const parsedAmount = Number.parseFloat(amount.replace(',', '.'))
+  const parsedDate = parseISO(date)
+  const canSubmit =
+    Boolean(fromAccountId && toAccountId) &&
+    fromAccountId !== toAccountId &&
+    Number.isFinite(parsedAmount) &&
+    parsedAmount > 0 &&
+    isValid(parsedDate) &&
+    !pending
+
+  const fromName = settlement
+    ? (memberNames.get(settlement.fromMemberId) ?? '')
+    : ''
+  const toName = settlement
+    ? (memberNames.get(settlement.toMemberId) ?? '')
+    : ''
+
+  return (
+    <Dialog
+      open={settlement !== null}
+      onOpenChange={onOpenChange}
+    >
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('sharedExpenses.settle.recordTitle')}</DialogTitle>
+          <DialogDescription>
+            {t('sharedExpenses.settle.recordDescription', {
+              from: fromName,
+              to: toName,
+              amount: formatCurrency(settlement?.amount ?? 0)
+            })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-4">
+          <div className="flex flex-col gap-2">
+            <label
+              className="type-label text-gray-800"
+              htmlFor={fromId}
+            >
+              {t('sharedExpenses.settle.fromAccount', {
+                name: fromName
+              })}
+            </label>
+            <select
+              id={fromId}
+              className={DRAFT_CONTROL_CLASS_NAME}
+              value={fromAccountId}
+              onChange={(event) => setFromAccountId(event.target.value)}
+            >
+              <SelectOptionList items={fromAccounts} />
+            </select>
+          </div>
+          <div className="flex flex-col gap-2">
+            <label
+              className="type-label text-gray-800"
+              htmlFor={toId}
+            >
+              {t('sharedExpenses.settle.toAccount', {
+                name: toName
+              })}
+            </label>
+            <select
+              id={toId}
+              className={DRAFT_CONTROL_CLASS_NAME}
+              value={toAccountId}
+              onChange={(event) => setToAccountId(event.target.value)}
+            >
+              <SelectOptionList items={toAccounts} />
+            </select>
+          </div>
+          {fromAccounts.length === 0 || toAccounts.length === 0 ? (
+            <p className="type-label text-red-700">
+              {t('sharedExpenses.settle.missingAccounts')}
+            </p>
+          ) : null}
+          <div className="flex flex-col gap-2">
+            <label
+              className="type-label text-gray-800"
+              htmlFor={amountId}
+            >
+              {t('common.amount')}
+            </label>
+            <input
+              id={amountId}
+              className={DRAFT_CONTROL_CLASS_NAME}
+              inputMode="decimal"
+              value={amount}
+              onChange={(event) => setAmount(event.target.value)}
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <label
+              className="type-label text-gray-800"
+              htmlFor={dateId}
+            >
+              {t('common.date')}
+            </label>
+            <input
+              id={dateId}
+              type="date"
+              className={DRAFT_CONTROL_CLASS_NAME}
+              value={date}
+              onChange={(event) => setDate(event.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="text"
+            color="subtle"
+            label={t('common.cancel')}
+            onClick={() => onOpenChange(false)}
+          />
+          <Button
+            label={t('sharedExpenses.settle.record')}
+            disabled={!canSubmit}
+            onClick={() =>
+              onSubmit({
+                accountId: fromAccountId,
+                transferToAccountId: toAccountId,
+                amount: parsedAmount,
+                date: parsedDate
+              })
+            }
+          />
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,258 @@
+import { format, isValid, parseISO } from 'date-fns'
+import { useEffect, useId, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/button/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { DRAFT_CONTROL_CLASS_NAME } from '@/features/import-statements/components/import-table-fields'
+import {
+  distributeRefund,
+  type RefundableTransaction,
+  type RefundLine,
+  refundedAmount,
+  refundLinesTotal,
+  remainingRefundLines,
+  type TransactionRefund
+} from '@/features/transaction-refunds/refunds'
+import { formatCurrency } from '@/lib/utils'
+
+type RefundTransactionDialogProps = {
+  /** The expense to refund; the dialog is open while it is set. */
+  transaction: RefundableTransaction | null
+  /** Refunds already linked to the expense. */
+  refunds: TransactionRefund[]
+  budgetNames: Map<string, string>
+  categoryNames: Map<string, string>
+  pending: boolean
+  onOpenChange: (open: boolean) => void
+  onSubmit: (refund: { lines: RefundLine[]; name: string; date: Date }) => void
+}
+
+function lineLabel(
+  line: RefundLine,
+  budgetNames: Map<string, string>,
+  categoryNames: Map<string, string>,
+  uncategorized: string
+): string {
+  return [
+    line.budgetId ? (budgetNames.get(line.budgetId) ?? line.budgetId) : '',
+    line.categoryId
+      ? (categoryNames.get(line.categoryId) ?? line.categoryId)
+      : uncategorized,
+    line.subtitle
+  ]
+    .filter(Boolean)
+    .join(' · ')
+}
+
+/**
+ * Records a full or partial refund of an expense. The credit is spread over
+ * the expense's budget and category lines in proportion to what is left on
+ * each, and the preview shows what each budget gets back.
+ */
+export function RefundTransactionDialog({
+  transaction,
+  refunds,
+  budgetNames,
+  categoryNames,
+  pending,
+  onOpenChange,
+  onSubmit
+}: RefundTransactionDialogProps) {
+  const { t } = useTranslation()
+  const amountInputId = useId()
+  const nameInputId = useId()
+  const dateInputId = useId()
+  const [amount, setAmount] = useState('')
+  const [name, setName] = useState('')
+  const [date, setDate] = useState('')
+
+  const remainingLines = useMemo(
+    () => (transaction ? remainingRefundLines(transaction, refunds) : []),
+    [
+      refunds,
+      transaction
+    ]
+  )
+  const remaining = refundLinesTotal(remainingLines)
+
+  // Start from a full refund each time the dialog opens for an expense.
+  useEffect(() => {
+    if (!transaction) return
+    setAmount(String(remaining))
+    setName(
+      t('transactions.refund.defaultName', {
+        name: transaction.name
+      })
+    )
+    setDate(format(new Date(), 'yyyy-MM-dd'))
+  }, [
+    transaction,
+    remaining,
+    t
+  ])
+
+  const parsedAmount = Number.parseFloat(amount.replace(',', '.'))
+  const parsedDate = parseISO(date)
+  const amountValid =
+    Number.isFinite(parsedAmount) &&
+    parsedAmount > 0 &&
+    parsedAmount <= remaining
+  const lines = useMemo(
+    () => distributeRefund(remainingLines, amountValid ? parsedAmount : 0),
+    [
+      amountValid,
+      parsedAmount,
+      remainingLines
+    ]
+  )
+  const canSubmit =
+    amountValid && name.trim().length > 0 && isValid(parsedDate) && !pending
+
+  const submit = () => {
+    if (!canSubmit) return
+    onSubmit({
+      lines,
+      name: name.trim(),
+      date: parsedDate
+    })
+  }
+
+  return (
+    <Dialog
+      open={transaction !== null}
+      onOpenChange={onOpenChange}
+    >
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('transactions.refund.title')}</DialogTitle>
+          <DialogDescription>
+            {t('transactions.refund.description', {
+              name: transaction?.name ?? '',
+              amount: formatCurrency(transaction?.amount ?? 0)
+            })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-4">
+          {refunds.length > 0 ? (
+            <p className="type-label text-gray-700">
+              {t('transactions.refund.alreadyRefunded', {
+                amount: formatCurrency(refundedAmount(refunds)),
+                remaining: formatCurrency(remaining)
+              })}
+            </p>
+          ) : null}
+
+          <div className="flex flex-col gap-2">
+            <label
+              className="type-label text-gray-800"
+              htmlFor={amountInputId}
+            >
+              {t('common.amount')}
+            </label>
+            <div className="flex gap-2">
+              <input
+                id={amountInputId}
+                className={DRAFT_CONTROL_CLASS_NAME}
+                inputMode="decimal"
+                value={amount}
+                onChange={(event) => setAmount(event.target.value)}
+              />
+              <Button
+                variant="outlined"
+                color="subtle"
+                label={t('transactions.refund.full')}
+                disabled={parsedAmount === remaining}
+                onClick={() => setAmount(String(remaining))}
+              />
+            </div>
+            {amount && !amountValid ? (
+              <span className="type-label text-red-700">
+                {t('transactions.refund.amountInvalid', {
+                  amount: formatCurrency(remaining)
+                })}
+              </span>
+            ) : null}
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <label
+              className="type-label text-gray-800"
+              htmlFor={nameInputId}
+            >
+              {t('forms.transactionName')}
+            </label>
+            <input
+              id={nameInputId}
+              className={DRAFT_CONTROL_CLASS_NAME}
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+            />
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <label
+              className="type-label text-gray-800"
+              htmlFor={dateInputId}
+            >
+              {t('common.date')}
+            </label>
+            <input
+              id={dateInputId}
+              type="date"
+              className={DRAFT_CONTROL_CLASS_NAME}
+              value={date}
+              onChange={(event) => setDate(event.target.value)}
+            />
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <span className="type-label text-gray-800">
+              {t('transactions.refund.restores')}
+            </span>
+            {lines.map((line, index) => (
+              <span
+                // biome-ignore lint/suspicious/noArrayIndexKey: lines follow the expense's split order and have no id
+                key={index}
+                className="type-body-medium flex justify-between gap-4 text-gray-950"
+              >
+                <span>
+                  {lineLabel(
+                    line,
+                    budgetNames,
+                    categoryNames,
+                    t('common.uncategorized')
+                  )}
+                </span>
+                <span className="text-green-700">
+                  {`+${formatCurrency(line.amount)}`}
+                </span>
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="text"
+            color="subtle"
+            label={t('common.cancel')}
+            onClick={() => onOpenChange(false)}
+          />
+          <Button
+            label={t('transactions.refund.submit')}
+            disabled={!canSubmit}
+            onClick={submit}
+          />
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
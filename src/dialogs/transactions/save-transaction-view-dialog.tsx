@@ -0,0 +1,165 @@
+import { useEffect, useId, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/button/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { DRAFT_CONTROL_CLASS_NAME } from '@/features/import-statements/components/import-table-fields'
+import type {
+  DateRangeSearch,
+  SavedViewDateRange,
+  SavedViewDateRangeKind
+} from '@/features/transaction-views/view-search'
+
+const DATE_RANGE_KINDS: SavedViewDateRangeKind[] = [
+  'current',
+  'thisMonth',
+  'lastMonth',
+  'last30Days',
+  'fixed'
+]
+
+type SaveTransactionViewDialogProps = {
+  open: boolean
+  /** Date range the page shows now; what a `fixed` view keeps. */
+  currentRange: DateRangeSearch
+  existingNames: string[]
+  onOpenChange: (open: boolean) => void
+  onSave: (view: { name: string; dateRange: SavedViewDateRange }) => void
+}
+
+/**
+ * Names the current search, filters, and sorting as a saved view, and picks
+ * which dates the view opens with.
+ */
+export function SaveTransactionViewDialog({
+  open,
+  currentRange,
+  existingNames,
+  onOpenChange,
+  onSave
+}: SaveTransactionViewDialogProps) {
+  const { t } = useTranslation()
+  const nameInputId = useId()
+  const dateRangeId = useId()
+  const [name, setName] = useState('')
+  const [dateRangeKind, setDateRangeKind] =
+    useState<SavedViewDateRangeKind>('current')
+
+  useEffect(() => {
+    if (open) return
+    setName('')
+    setDateRangeKind('current')
+  }, [
+    open
+  ])
+
+  const trimmedName = name.trim()
+  const replacesExisting = existingNames.some(
+    (existing) =>
+      existing.trim().toLocaleLowerCase() === trimmedName.toLocaleLowerCase()
+  )
+
+  const save = () => {
+    if (!trimmedName) return
+    onSave({
+      name: trimmedName,
+      dateRange:
+        dateRangeKind === 'fixed'
+          ? {
+              kind: 'fixed',
+              ...currentRange
+            }
+          : {
+              kind: dateRangeKind
+            }
+    })
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={onOpenChange}
+    >
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('transactions.views.saveTitle')}</DialogTitle>
+          <DialogDescription>
+            {t('transactions.views.saveDescription')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-4">
+          <div className="flex flex-col gap-2">
+            <label
+              className="type-label text-gray-800"
+              htmlFor={nameInputId}
+            >
+              {t('transactions.views.name')}
+            </label>
+            <input
+              id={nameInputId}
+              className={DRAFT_CONTROL_CLASS_NAME}
+              value={name}
+              placeholder={t('transactions.views.namePlaceholder')}
+              onChange={(event) => setName(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter') save()
+              }}
+            />
+            {replacesExisting ? (
+              <span className="type-label text-gray-700">
+                {t('transactions.views.replacesExisting')}
+              </span>
+            ) : null}
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <label
+              className="type-label text-gray-800"
+              htmlFor={dateRangeId}
+            >
+              {t('transactions.views.dateRange')}
+            </label>
+            <select
+              id={dateRangeId}
+              className={DRAFT_CONTROL_CLASS_NAME}
+              value={dateRangeKind}
+              onChange={(event) =>
+                setDateRangeKind(event.target.value as SavedViewDateRangeKind)
+              }
+            >
+              {DATE_RANGE_KINDS.map((kind) => (
+                <option
+                  key={kind}
+                  value={kind}
+                >
+                  {t(`transactions.views.dateRanges.${kind}`, currentRange)}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="text"
+            color="subtle"
+            label={t('common.cancel')}
+            onClick={() => onOpenChange(false)}
+          />
+          <Button
+            label={t('common.save')}
+            disabled={!trimmedName}
+            onClick={save}
+          />
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
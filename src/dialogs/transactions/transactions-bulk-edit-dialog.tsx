@@ -0,0 +1,411 @@
+import { useEffect, useId, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import {
+  type Category,
+  CategoryType,
+  TransactionType
+} from '@/api/generated/types.gen'
+import { Button } from '@/components/button/button'
+import { Checkbox } from '@/components/checkbox/checkbox'
+import type { ComboboxValue } from '@/components/form'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import {
+  BulkCombobox,
+  BulkInput,
+  BulkSelect,
+  BulkTagPicker,
+  NO_CHANGE_VALUE
+} from '@/dialogs/bulk-edit-fields'
+import type {
+  MatchableBillInstance,
+  MatchableIncomeInstance
+} from '@/features/import-statements/classification/instance-matching'
+import {
+  lookupItemsToComboboxOptions,
+  SelectOptionList
+} from '@/features/import-statements/components/import-table-fields'
+import type { ImportLookupItem } from '@/features/import-statements/types'
+import {
+  type BudgetImpact,
+  type BulkEditableTransaction,
+  bulkDeleteBudgetImpact,
+  bulkUpdateBudgetImpact,
+  EMPTY_TRANSACTION_BULK_EDIT_VALUES,
+  planTransactionBulkUpdate,
+  type TransactionBulkEditValues,
+  type TransactionBulkUpdate
+} from '@/features/transaction-bulk-actions/bulk-update'
+import { formatCurrency } from '@/lib/utils'
+
+export type TransactionsBulkDialogMode = 'edit' | 'delete'
+
+type TransactionsBulkEditDialogProps = {
+  mode: TransactionsBulkDialogMode | null
+  transactions: BulkEditableTransaction[]
+  accounts: ImportLookupItem[]
+  budgets: Array<
+    ImportLookupItem & {
+      remainingAmount?: number
+    }
+  >
+  categories: Array<Pick<Category, 'id' | 'name' | 'types' | 'archived'>>
+  recipients: ImportLookupItem[]
+  billInstances: MatchableBillInstance[]
+  incomeInstances: MatchableIncomeInstance[]
+  pending: boolean
+  onOpenChange: (open: boolean) => void
+  /** `tagIds` are added to every selected transaction. */
+  onApply: (updates: TransactionBulkUpdate[], tagIds: string[]) => void
+  onDelete: (transactions: BulkEditableTransaction[]) => void
+}
+
+function comboboxId(value: ComboboxValue | null): string {
+  return typeof value === 'string' ? value : ''
+}
+
+function formatChange(amount: number): string {
+  return `${amount > 0 ? '+' : ''}${formatCurrency(amount)}`
+}
+
+/**
+ * Per-budget change in spending, with what remains in each budget after it.
+ */
+function BudgetImpactPreview({
+  impact,
+  budgets
+}: {
+  impact: BudgetImpact[]
+  budgets: TransactionsBulkEditDialogProps['budgets']
+}) {
+  const { t } = useTranslation()
+  if (impact.length === 0) {
+    return (
+      <p className="type-body-medium text-gray-700">
+        {t('transactions.bulk.noBudgetImpact')}
+      </p>
+    )
+  }
+  return (
+    <div className="flex flex-col gap-1">
+      <span className="type-label text-gray-800">
+        {t('transactions.bulk.budgetImpact')}
+      </span>
+      {impact.map((item) => {
+        const budget = budgets.find((entry) => entry.id === item.budgetId)
+        const remainingAfter =
+          budget?.remainingAmount === undefined
+            ? undefined
+            : budget.remainingAmount - item.change
+        return (
+          <span
+            key={item.budgetId}
+            className="type-body-medium flex justify-between gap-4 text-gray-950"
+          >
+            <span>{budget?.name ?? item.budgetId}</span>
+            <span className="flex gap-3">
+              <span
+                className={item.change > 0 ? 'text-red-700' : 'text-green-700'}
+              >
+                {formatChange(item.change)}
+              </span>
+              {remainingAfter === undefined ? null : (
+                <span
+                  className={
+                    remainingAfter < 0 ? 'text-red-700' : 'text-gray-700'
+                  }
+                >
+                  {t('transactions.bulk.remainingAfter', {
+                    amount: formatCurrency(remainingAfter)
+                  })}
+                </span>
+              )}
+            </span>
+          </span>
+        )
+      })}
+    </div>
+  )
+}
+
+/**
+ * Bulk edit or delete for the transactions selected in the table. Fields left
+ * at "no change" keep each row's value; the preview shows how budget spending
+ * moves before anything is saved.
+ */
+export function TransactionsBulkEditDialog({
+  mode,
+  transactions,
+  accounts,
+  budgets,
+  categories,
+  recipients,
+  billInstances,
+  incomeInstances,
+  pending,
+  onOpenChange,
+  onApply,
+  onDelete
+}: TransactionsBulkEditDialogProps) {
+  const { t } = useTranslation()
+  const linkInstancesId = useId()
+  const [values, setValues] = useState<TransactionBulkEditValues>(
+    EMPTY_TRANSACTION_BULK_EDIT_VALUES
+  )
+  const [category, setCategory] = useState<ComboboxValue | null>(null)
+  const [recipient, setRecipient] = useState<ComboboxValue | null>(null)
+  const [shiftDays, setShiftDays] = useState('')
+  const [tagIds, setTagIds] = useState<string[]>([])
+
+  const hasExpenses = transactions.some(
+    (transaction) => transaction.type === TransactionType.EXPENSE
+  )
+  const hasIncomes = transactions.some(
+    (transaction) => transaction.type === TransactionType.INCOME
+  )
+
+  const categoryItems = useMemo(
+    () =>
+      categories
+        .filter(
+          (item) =>
+            (hasExpenses && item.types.includes(CategoryType.EXPENSE)) ||
+            (hasIncomes && item.types.includes(CategoryType.INCOME))
+        )
+        .map((item) => ({
+          id: item.id,
+          name: item.name,
+          archived: item.archived
+        })),
+    [
+      categories,
+      hasExpenses,
+      hasIncomes
+    ]
+  )
+
+  const plan = useMemo(
+    () =>
+      planTransactionBulkUpdate({
+        transactions,
+        values: {
+          ...values,
+          categoryId: comboboxId(category),
+          recipientId: comboboxId(recipient),
+          shiftDays: Number.parseInt(shiftDays, 10) || 0
+        },
+        categories,
+        billInstances,
+        incomeInstances
+      }),
+    [
+      billInstances,
+      categories,
+      category,
+      incomeInstances,
+      recipient,
+      shiftDays,
+      transactions,
+      values
+    ]
+  )
+
+  const impact = useMemo(
+    () =>
+      mode === 'delete'
+        ? bulkDeleteBudgetImpact(transactions)
+        : bulkUpdateBudgetImpact(plan.updates),
+    [
+      mode,
+      plan.updates,
+      transactions
+    ]
+  )
+  const linkedCount = plan.updates.filter(
+    (update) => update.body.instanceId
+  ).length
+
+  // Reset whenever the dialog closes; after saving, the page closes it.
+  useEffect(() => {
+    if (mode !== null) return
+    setValues(EMPTY_TRANSACTION_BULK_EDIT_VALUES)
+    setCategory(null)
+    setRecipient(null)
+    setShiftDays('')
+    setTagIds([])
+  }, [
+    mode
+  ])
+
+  return (
+    <Dialog
+      open={mode !== null}
+      onOpenChange={onOpenChange}
+    >
+      <DialogContent className="max-h-[min(90vh,720px)] overflow-y-auto sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>
+            {mode === 'delete'
+              ? t('transactions.bulk.deleteTitle')
+              : t('transactions.bulk.editTitle')}
+          </DialogTitle>
+          <DialogDescription>
+            {mode === 'delete'
+              ? t('transactions.bulk.deleteDescription', {
+                  count: transactions.length
+                })
+              : t('transactions.bulk.editDescription', {
+                  count: transactions.length
+                })}
+          </DialogDescription>
+        </DialogHeader>
+
+        {mode === 'edit' ? (
+          <div className="grid gap-4 sm:grid-cols-2">
+            {hasExpenses ? (
+              <BulkSelect
+                label={t('common.budget')}
+                value={values.budgetId || NO_CHANGE_VALUE}
+                onChange={(value) =>
+                  setValues((current) => ({
+                    ...current,
+                    budgetId: value === NO_CHANGE_VALUE ? '' : value
+                  }))
+                }
+              >
+                <option value={NO_CHANGE_VALUE}>
+                  {t('statementImport.bulkEdit.noChange')}
+                </option>
+                <SelectOptionList items={budgets} />
+              </BulkSelect>
+            ) : null}
+
+            {hasExpenses || hasIncomes ? (
+              <BulkCombobox
+                label={t('common.category')}
+                value={category}
+                placeholder={t('statementImport.bulkEdit.noChange')}
+                options={lookupItemsToComboboxOptions(categoryItems)}
+                onChange={setCategory}
+              />
+            ) : null}
+
+            {hasExpenses ? (
+              <BulkCombobox
+                label={t('common.recipient')}
+                value={recipient}
+                placeholder={t('statementImport.bulkEdit.noChange')}
+                options={lookupItemsToComboboxOptions(recipients)}
+                onChange={setRecipient}
+              />
+            ) : null}
+
+            <BulkSelect
+              label={t('common.account')}
+              value={values.accountId || NO_CHANGE_VALUE}
+              onChange={(value) =>
+                setValues((current) => ({
+                  ...current,
+                  accountId: value === NO_CHANGE_VALUE ? '' : value
+                }))
+              }
+            >
+              <option value={NO_CHANGE_VALUE}>
+                {t('statementImport.bulkEdit.noChange')}
+              </option>
+              <SelectOptionList items={accounts} />
+            </BulkSelect>
+
+            <BulkInput
+              label={t('transactions.bulk.shiftDays')}
+              type="number"
+              value={shiftDays}
+              onChange={setShiftDays}
+            />
+
+            {hasExpenses || hasIncomes ? (
+              <div className="flex items-end pb-2">
+                <Checkbox
+                  id={linkInstancesId}
+                  checked={values.linkInstances}
+                  label={t('transactions.bulk.linkInstances')}
+                  onCheckedChange={(linkInstances) =>
+                    setValues((current) => ({
+                      ...current,
+                      linkInstances
+                    }))
+                  }
+                />
+              </div>
+            ) : null}
+
+            <BulkTagPicker
+              label={t('tags.bulkAdd')}
+              value={tagIds}
+              onChange={setTagIds}
+            />
+          </div>
+        ) : null}
+
+        {mode === 'edit' ? (
+          <p className="type-label text-gray-700">
+            {[
+              t('transactions.bulk.changedCount', {
+                count: plan.updates.length
+              }),
+              plan.unchanged.length > 0
+                ? t('transactions.bulk.unchangedCount', {
+                    count: plan.unchanged.length
+                  })
+                : '',
+              values.linkInstances
+                ? t('transactions.bulk.linkedCount', {
+                    count: linkedCount
+                  })
+                : ''
+            ]
+              .filter(Boolean)
+              .join(' · ')}
+          </p>
+        ) : null}
+
+        <BudgetImpactPreview
+          impact={impact}
+          budgets={budgets}
+        />
+
+        <DialogFooter>
+          <Button
+            variant="text"
+            color="subtle"
+            label={t('common.cancel')}
+            onClick={() => onOpenChange(false)}
+          />
+          {mode === 'delete' ? (
+            <Button
+              variant="filled"
+              color="destructive"
+              label={t('common.delete')}
+              disabled={pending || transactions.length === 0}
+              onClick={() => onDelete(transactions)}
+            />
+          ) : (
+            <Button
+              label={t('common.apply')}
+              disabled={
+                pending || (plan.updates.length === 0 && tagIds.length === 0)
+              }
+              onClick={() => onApply(plan.updates, tagIds)}
+            />
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
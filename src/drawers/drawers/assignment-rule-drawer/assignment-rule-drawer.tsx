@@ -0,0 +1,487 @@
+import { Check, Grid2x2PlusIcon, Trash2Icon } from 'lucide-react'
+import { useCallback, useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+
+import { TransactionType } from '@/api/generated/types.gen'
+import { Button } from '@/components/button/button'
+import { useAppForm } from '@/components/form'
+import { IconButton } from '@/components/icon-button/icon-button'
+import { useAuth } from '@/contexts/auth-context'
+import {
+  type AssignmentRuleLookupItem,
+  transactionTypeLabel
+} from '@/features/assignment-rules/rule-summary'
+import {
+  createAssignmentRule,
+  createAssignmentRuleSplit
+} from '@/features/assignment-rules/rules'
+import type { AssignmentRule } from '@/features/assignment-rules/types'
+import { useAssignmentRuleLookups } from '@/features/assignment-rules/use-assignment-rule-lookups'
+import { useAssignmentRules } from '@/features/assignment-rules/use-assignment-rules'
+import { getErrorMessage } from '@/lib/api-error'
+import {
+  applyZodIssuesToTanStackForm,
+  clearTanStackFieldErrors,
+  translateIfLikelyI18nKey
+} from '@/lib/form-validation'
+
+import {
+  type AssignmentRuleFormSplit,
+  assignmentRuleFormSchema,
+  formValuesToRule,
+  NO_VALUE,
+  ruleToFormValues
+} from './form-values'
+
+export type AssignmentRuleDrawerProps = {
+  /** Omitted when creating a new rule. */
+  ruleId?: string
+  onClose: () => void
+}
+
+const FIELD_NAMES = [
+  'name',
+  'descriptionContains',
+  'descriptionPattern',
+  'minAmount',
+  'maxAmount'
+]
+
+function toOptions(items: AssignmentRuleLookupItem[]) {
+  return items.map((item) => ({
+    value: item.id,
+    label: item.name
+  }))
+}
+
+function AssignmentRuleFormBody({
+  rule,
+  onSave,
+  onClose
+}: {
+  rule: AssignmentRule
+  onSave: (rule: AssignmentRule) => Promise<void>
+  onClose: () => void
+}) {
+  const { t } = useTranslation()
+  const { householdId, userId } = useAuth()
+  const { lookups } = useAssignmentRuleLookups({
+    householdId,
+    userId
+  })
+
+  const form = useAppForm({
+    defaultValues: ruleToFormValues(rule),
+    canSubmitWhenInvalid: true,
+    onSubmit: async ({ value, formApi }) => {
+      const fieldNames = [
+        ...FIELD_NAMES
+      ]
+      value.splits.forEach((_, index) => {
+        fieldNames.push(
+          `splits[${index}].percentage`,
+          `splits[${index}].categoryId`,
+          `splits[${index}].budgetId`
+        )
+      })
+      clearTanStackFieldErrors(formApi, fieldNames)
+
+      const result = assignmentRuleFormSchema.safeParse(value)
+      if (!result.success) {
+        applyZodIssuesToTanStackForm(formApi, result.error.issues, (m) =>
+          translateIfLikelyI18nKey(m, t)
+        )
+        return
+      }
+
+      try {
+        await onSave(formValuesToRule(rule.id, value))
+      } catch (error) {
+        toast.error(getErrorMessage(error))
+        return
+      }
+      toast.success(t('assignmentRules.saveSuccess'))
+      onClose()
+    }
+  })
+
+  const keepOption = useMemo(
+    () => ({
+      value: NO_VALUE,
+      label: t('assignmentRules.form.keepValue')
+    }),
+    [
+      t
+    ]
+  )
+
+  const typeOptions = useMemo(
+    () => [
+      keepOption,
+      ...[
+        TransactionType.EXPENSE,
+        TransactionType.INCOME,
+        TransactionType.TRANSFER
+      ].map((type) => ({
+        value: type,
+        label: transactionTypeLabel(t, type)
+      }))
+    ],
+    [
+      keepOption,
+      t
+    ]
+  )
+
+  const addSplit = useCallback(() => {
+    form.setFieldValue('splits', (prev) => [
+      ...prev,
+      {
+        ...createAssignmentRuleSplit(),
+        percentage: prev.length === 0 ? 100 : null
+      }
+    ])
+  }, [
+    form
+  ])
+
+  const removeSplit = useCallback(
+    (index: number) => {
+      form.setFieldValue('splits', (prev) =>
+        prev.filter((_, rowIndex) => rowIndex !== index)
+      )
+    },
+    [
+      form
+    ]
+  )
+
+  return (
+    <form
+      className="flex h-full min-h-0 flex-1 flex-col"
+      onSubmit={(e) => {
+        e.preventDefault()
+        e.stopPropagation()
+        void form.handleSubmit()
+      }}
+    >
+      <div className="flex min-h-0 flex-1 flex-col gap-4 overflow-y-auto">
+        <form.AppField name="name">
+          {(field) => (
+            <field.TextField
+              label={t('assignmentRules.form.name')}
+              placeholder={t('assignmentRules.form.namePlaceholder')}
+            />
+          )}
+        </form.AppField>
+        <form.AppField name="enabled">
+          {(field) => (
+            <field.SwitchField label={t('assignmentRules.form.enabled')} />
+          )}
+        </form.AppField>
+
+        <div className="flex flex-col gap-1 pt-2">
+          <p className="type-label text-gray-800">
+            {t('assignmentRules.form.conditionsTitle')}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {t('assignmentRules.form.conditionsHelp')}
+          </p>
+        </div>
+        <form.AppField name="descriptionContains">
+          {(field) => (
+            <field.TextField
+              label={t('assignmentRules.form.descriptionContains')}
+              placeholder={t(
+                'assignmentRules.form.descriptionContainsPlaceholder'
+              )}
+            />
+          )}
+        </form.AppField>
+        <form.AppField name="descriptionPattern">
+          {(field) => (
+            <field.TextField
+              label={t('assignmentRules.form.descriptionPattern')}
+              description={t('assignmentRules.form.descriptionPatternHelp')}
+            />
+          )}
+        </form.AppField>
+        <div className="grid grid-cols-2 gap-4">
+          <form.AppField name="minAmount">
+            {(field) => (
+              <field.NumberField
+                label={t('assignmentRules.form.minAmount')}
+                min={0}
+              />
+            )}
+          </form.AppField>
+          <form.AppField name="maxAmount">
+            {(field) => (
+              <field.NumberField
+                label={t('assignmentRules.form.maxAmount')}
+                min={0}
+              />
+            )}
+          </form.AppField>
+        </div>
+        <form.AppField name="sign">
+          {(field) => (
+            <field.SelectField
+              label={t('assignmentRules.form.sign')}
+              options={[
+                {
+                  value: 'any',
+                  label: t('assignmentRules.form.signAny')
+                },
+                {
+                  value: 'in',
+                  label: t('assignmentRules.form.signIn')
+                },
+                {
+                  value: 'out',
+                  label: t('assignmentRules.form.signOut')
+                }
+              ]}
+            />
+          )}
+        </form.AppField>
+        <form.AppField name="originAccountId">
+          {(field) => (
+            <field.SelectField
+              label={t('assignmentRules.form.originAccount')}
+              options={[
+                {
+                  value: NO_VALUE,
+                  label: t('assignmentRules.form.anyAccount')
+                },
+                ...toOptions(lookups.accounts)
+              ]}
+            />
+          )}
+        </form.AppField>
+
+        <div className="flex flex-col gap-1 pt-2">
+          <p className="type-label text-gray-800">
+            {t('assignmentRules.form.actionsTitle')}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {t('assignmentRules.form.actionsHelp')}
+          </p>
+        </div>
+        <form.AppField name="type">
+          {(field) => (
+            <field.SelectField
+              label={t('assignmentRules.form.type')}
+              options={typeOptions}
+            />
+          )}
+        </form.AppField>
+        <form.AppField name="recipientId">
+          {(field) => (
+            <field.SelectField
+              label={t('assignmentRules.form.recipient')}
+              options={[
+                keepOption,
+                ...toOptions(lookups.recipients)
+              ]}
+            />
+          )}
+        </form.AppField>
+        <form.AppField name="incomeSourceId">
+          {(field) => (
+            <field.SelectField
+              label={t('assignmentRules.form.incomeSource')}
+              options={[
+                keepOption,
+                ...toOptions(lookups.incomeSources)
+              ]}
+            />
+          )}
+        </form.AppField>
+
+        <form.Subscribe
+          selector={(s) => ({
+            type: s.values.type,
+            splits: s.values.splits as AssignmentRuleFormSplit[]
+          })}
+        >
+          {({ type, splits }) => {
+            if (type === TransactionType.TRANSFER) return null
+            if (splits.length === 0) {
+              return (
+                <>
+                  <form.AppField name="categoryId">
+                    {(field) => (
+                      <field.SelectField
+                        label={t('assignmentRules.form.category')}
+                        options={[
+                          keepOption,
+                          ...toOptions(lookups.categories)
+                        ]}
+                      />
+                    )}
+                  </form.AppField>
+                  <form.AppField name="budgetId">
+                    {(field) => (
+                      <field.SelectField
+                        label={t('assignmentRules.form.budget')}
+                        options={[
+                          keepOption,
+                          ...toOptions(lookups.budgets)
+                        ]}
+                      />
+                    )}
+                  </form.AppField>
+                  <Button
+                    type="button"
+                    variant="outlined"
+                    color="primary"
+                    icon={<Grid2x2PlusIcon aria-hidden />}
+                    label={t('assignmentRules.form.splitRule')}
+                    onClick={addSplit}
+                  />
+                </>
+              )
+            }
+
+            const total = splits.reduce(
+              (sum, split) => sum + (split.percentage ?? 0),
+              0
+            )
+            return (
+              <div className="flex flex-col gap-4">
+                <p className="type-label text-gray-800">
+                  {t('assignmentRules.form.splitsTotal', {
+                    percentage: Number(total.toFixed(2))
+                  })}
+                </p>
+                {splits.map((split, index) => (
+                  <div
+                    key={split.id}
+                    className="flex flex-col gap-4 border-gray-200 border-l-2 pl-3"
+                  >
+                    <div className="flex items-end gap-2">
+                      <div className="min-w-0 flex-1">
+                        <form.AppField name={`splits[${index}].subtitle`}>
+                          {(field) => (
+                            <field.TextField
+                              label={t('forms.sectionNameField')}
+                              placeholder={t('forms.subtitlePlaceholder')}
+                            />
+                          )}
+                        </form.AppField>
+                      </div>
+                      <IconButton
+                        variant="text"
+                        color="destructive"
+                        icon={<Trash2Icon />}
+                        title={t('forms.splitBillRemoveSection')}
+                        aria-label={t('forms.splitBillRemoveSection')}
+                        onClick={() => removeSplit(index)}
+                      />
+                    </div>
+                    <form.AppField name={`splits[${index}].percentage`}>
+                      {(field) => (
+                        <field.NumberField
+                          label={t('assignmentRules.form.splitPercentage')}
+                          unit="%"
+                          min={0}
+                          max={100}
+                        />
+                      )}
+                    </form.AppField>
+                    <form.AppField name={`splits[${index}].categoryId`}>
+                      {(field) => (
+                        <field.SelectField
+                          label={t('common.category')}
+                          placeholder={t('forms.selectCategory')}
+                          options={toOptions(lookups.categories)}
+                        />
+                      )}
+                    </form.AppField>
+                    {type !== TransactionType.INCOME ? (
+                      <form.AppField name={`splits[${index}].budgetId`}>
+                        {(field) => (
+                          <field.SelectField
+                            label={t('common.budget')}
+                            placeholder={t('forms.selectBudget')}
+                            options={toOptions(lookups.budgets)}
+                          />
+                        )}
+                      </form.AppField>
+                    ) : null}
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outlined"
+                  color="primary"
+                  icon={<Grid2x2PlusIcon aria-hidden />}
+                  label={t('forms.addSection')}
+                  onClick={addSplit}
+                />
+              </div>
+            )
+          }}
+        </form.Subscribe>
+      </div>
+
+      <div className="mt-auto flex shrink-0 flex-wrap items-center justify-end gap-2 border-t border-gray-200 pt-4">
+        <Button
+          type="button"
+          variant="outlined"
+          color="subtle"
+          label={t('common.cancel')}
+          onClick={onClose}
+        />
+        <form.Subscribe selector={(s) => s.isSubmitting}>
+          {(isSubmitting) => (
+            <Button
+              type="submit"
+              variant="filled"
+              color="primary"
+              icon={<Check aria-hidden={true} />}
+              label={t('common.save')}
+              disabled={isSubmitting}
+              onClick={() => void 0}
+            />
+          )}
+        </form.Subscribe>
+      </div>
+    </form>
+  )
+}
+
+export function AssignmentRuleDrawer({
+  ruleId,
+  onClose
+}: AssignmentRuleDrawerProps) {
+  const { householdId } = useAuth()
+  const { t } = useTranslation()
+  const { rules, isLoading, saveRule } = useAssignmentRules(householdId)
+
+  const existing = ruleId ? rules.find((rule) => rule.id === ruleId) : null
+  // Created once per drawer so the form keeps the same id while editing.
+  const newRule = useMemo(() => createAssignmentRule(), [])
+
+  if (ruleId && isLoading) {
+    return (
+      <p className="text-sm text-muted-foreground">{t('common.loading')}</p>
+    )
+  }
+
+  if (ruleId && !existing) {
+    return (
+      <p className="text-sm text-muted-foreground">{t('common.notFound')}</p>
+    )
+  }
+
+  return (
+    <AssignmentRuleFormBody
+      rule={existing ?? newRule}
+      onSave={saveRule}
+      onClose={onClose}
+    />
+  )
+}
@@ -0,0 +1,204 @@
+import { z } from 'zod'
+
+import { TransactionType } from '@/api/generated/types.gen'
+import {
+  createAssignmentRule,
+  hasAssignmentRuleConditions,
+  isValidRulePattern
+} from '@/features/assignment-rules/rules'
+import type {
+  AssignmentRule,
+  AssignmentRuleSign,
+  AssignmentRuleSplit
+} from '@/features/assignment-rules/types'
+import { nullableNonNegativeNumber } from '@/lib/zod-nullable-number'
+
+/** Select value for "leave untouched" / "any"; Radix Select has no empty item. */
+export const NO_VALUE = '__none__'
+
+/** `NumberField` stores null while the percentage input is empty. */
+export type AssignmentRuleFormSplit = Omit<
+  AssignmentRuleSplit,
+  'percentage'
+> & {
+  percentage: number | null
+}
+
+export type AssignmentRuleFormValues = {
+  name: string
+  enabled: boolean
+  descriptionContains: string
+  descriptionPattern: string
+  minAmount: number | null
+  maxAmount: number | null
+  sign: AssignmentRuleSign
+  originAccountId: string
+  type: string
+  recipientId: string
+  incomeSourceId: string
+  categoryId: string
+  budgetId: string
+  splits: AssignmentRuleFormSplit[]
+}
+
+function toSelectValue(id: string | null): string {
+  return id || NO_VALUE
+}
+
+function fromSelectValue(value: string): string {
+  return value === NO_VALUE ? '' : value
+}
+
+export function ruleToFormValues(
+  rule: AssignmentRule
+): AssignmentRuleFormValues {
+  const { conditions, actions } = rule
+  return {
+    name: rule.name,
+    enabled: rule.enabled,
+    descriptionContains: conditions.descriptionContains,
+    descriptionPattern: conditions.descriptionPattern,
+    minAmount: conditions.minAmount,
+    maxAmount: conditions.maxAmount,
+    sign: conditions.sign,
+    originAccountId: toSelectValue(conditions.originAccountId),
+    type: toSelectValue(actions.type),
+    recipientId: toSelectValue(actions.recipientId),
+    incomeSourceId: toSelectValue(actions.incomeSourceId),
+    categoryId: toSelectValue(actions.categoryId),
+    budgetId: toSelectValue(actions.budgetId),
+    splits: actions.splits
+  }
+}
+
+export function formValuesToRule(
+  id: string,
+  values: AssignmentRuleFormValues
+): AssignmentRule {
+  const type = fromSelectValue(values.type) as TransactionType | ''
+  const hasSplits =
+    values.splits.length > 0 && type !== TransactionType.TRANSFER
+  return createAssignmentRule({
+    id,
+    name: values.name.trim(),
+    enabled: values.enabled,
+    conditions: {
+      descriptionContains: values.descriptionContains.trim(),
+      descriptionPattern: values.descriptionPattern.trim(),
+      minAmount: values.minAmount,
+      maxAmount: values.maxAmount,
+      sign: values.sign,
+      originAccountId: fromSelectValue(values.originAccountId)
+    },
+    actions: {
+      type: type || null,
+      recipientId: fromSelectValue(values.recipientId),
+      incomeSourceId: fromSelectValue(values.incomeSourceId),
+      categoryId: hasSplits ? '' : fromSelectValue(values.categoryId),
+      budgetId: hasSplits ? '' : fromSelectValue(values.budgetId),
+      splits: hasSplits
+        ? values.splits.map((split) => ({
+            ...split,
+            subtitle: split.subtitle.trim(),
+            percentage: split.percentage ?? 0,
+            budgetId: type === TransactionType.INCOME ? '' : split.budgetId
+          }))
+        : []
+    }
+  })
+}
+
+const splitSchema = z.object({
+  id: z.string(),
+  subtitle: z.string(),
+  categoryId: z.string().min(1, 'validation.categoryRequired'),
+  budgetId: z.string(),
+  percentage: z
+    .number({
+      message: 'validation.positive'
+    })
+    .gt(0, 'validation.positive')
+    .max(100)
+})
+
+export const assignmentRuleFormSchema = z
+  .object({
+    name: z.string().trim().min(1, 'validation.nameRequired'),
+    enabled: z.boolean(),
+    descriptionContains: z.string(),
+    descriptionPattern: z
+      .string()
+      .refine(
+        (pattern) => isValidRulePattern(pattern.trim()),
+        'assignmentRules.validation.invalidPattern'
+      ),
+    minAmount: nullableNonNegativeNumber('validation.nonNegative'),
+    maxAmount: nullableNonNegativeNumber('validation.nonNegative'),
+    sign: z.enum([
+      'any',
+      'in',
+      'out'
+    ]),
+    originAccountId: z.string(),
+    type: z.string(),
+    recipientId: z.string(),
+    incomeSourceId: z.string(),
+    categoryId: z.string(),
+    budgetId: z.string(),
+    splits: z.array(splitSchema)
+  })
+  .superRefine((values, ctx) => {
+    if (!hasAssignmentRuleConditions(formValuesToRule('', values))) {
+      ctx.addIssue({
+        code: 'custom',
+        path: [
+          'descriptionContains'
+        ],
+        message: 'assignmentRules.validation.noConditions'
+      })
+    }
+    if (
+      values.minAmount != null &&
+      values.maxAmount != null &&
+      values.maxAmount < values.minAmount
+    ) {
+      ctx.addIssue({
+        code: 'custom',
+        path: [
+          'maxAmount'
+        ],
+        message: 'assignmentRules.validation.maxBelowMin'
+      })
+    }
+
+    if (values.splits.length === 0 || values.type === TransactionType.TRANSFER)
+      return
+    values.splits.forEach((split, index) => {
+      if (values.type !== TransactionType.INCOME && !split.budgetId) {
+        ctx.addIssue({
+          code: 'custom',
+          path: [
+            'splits',
+            index,
+            'budgetId'
+          ],
+          message: 'validation.required'
+        })
+      }
+    })
+    const total = values.splits.reduce(
+      (sum, split) => sum + split.percentage,
+      0
+    )
+    if (Math.abs(total - 100) > 0.001) {
+      ctx.addIssue({
+        code: 'custom',
+        path: [
+          'splits',
+          values.splits.length - 1,
+          'percentage'
+        ],
+        message: 'assignmentRules.validation.splitsMustTotal100'
+      })
+    }
+  })
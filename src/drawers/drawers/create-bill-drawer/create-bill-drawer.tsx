@@ -17,6 +17,13 @@ import {
 } from '@/components/form'
 import { Switch } from '@/components/ui/switch'
 import { useAuth } from '@/contexts/auth-context'
+import { RecurrenceRuleFields } from '@/features/recurrence-rules/recurrence-rule-fields'
+import {
+  type RecurrenceRule,
+  ruleStartDate,
+  supportsRecurrenceRule
+} from '@/features/recurrence-rules/recurrence-rules'
+import { useApplyRecurrenceRule } from '@/features/recurrence-rules/use-apply-recurrence-rule'
 import {
   useAccountsList,
   useBudgetsList,
@@ -55,8 +62,12 @@ export function CreateBillDrawer({ onClose }: CreateBillDrawerProps) {
     Record<string, boolean>
   >({})
   const splitSwitchId = useId()
+  const [recurrenceRule, setRecurrenceRule] = useState<RecurrenceRule | null>(
+    null
+  )
 
   const { mutate: createBill, isPending } = useCreateBill()
+  const applyRecurrenceRule = useApplyRecurrenceRule(householdId)
 
   const { data: accounts = [] } = useAccountsList({
     householdId,
@@ -123,7 +134,19 @@ export function CreateBillDrawer({ onClose }: CreateBillDrawerProps) {
         return
       }
 
-      const data = parsed.data
+      const rule = supportsRecurrenceRule(parsed.data.recurrenceType)
+        ? recurrenceRule
+        : null
+      const data = rule
+        ? {
+            ...parsed.data,
+            dueDate: ruleStartDate(
+              rule,
+              parsed.data.recurrenceType,
+              parsed.data.dueDate
+            )
+          }
+        : parsed.data
       const body = buildCreateBillBody({
         t,
         data,
@@ -137,7 +160,19 @@ export function CreateBillDrawer({ onClose }: CreateBillDrawerProps) {
           ...body
         },
         {
-          onSuccess: () => {
+          onSuccess: async (created) => {
+            if (rule) {
+              try {
+                await applyRecurrenceRule({
+                  owner: 'bills',
+                  id: created.id,
+                  userId,
+                  rule
+                })
+              } catch (err) {
+                toast.error(getErrorMessage(err))
+              }
+            }
             toast.success(t('bills.createSuccess'))
             onClose()
           },
@@ -501,6 +536,23 @@ export function CreateBillDrawer({ onClose }: CreateBillDrawerProps) {
           )}
         </form.AppField>
 
+        <form.Subscribe
+          selector={(s) => ({
+            recurrenceType: s.values.recurrenceType,
+            customIntervalDays: s.values.customIntervalDays,
+            startDate: s.values.dueDate,
+            endDate: s.values.endDate
+          })}
+        >
+          {(schedule) => (
+            <RecurrenceRuleFields
+              {...schedule}
+              rule={recurrenceRule}
+              onRuleChange={setRecurrenceRule}
+            />
+          )}
+        </form.Subscribe>
+
         <div className="flex items-center gap-2">
           <Switch
             checked={useSplits}
@@ -1,5 +1,5 @@
 import { HandCoins, PlusIcon } from 'lucide-react'
-import { useMemo } from 'react'
+import { useMemo, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { toast } from 'sonner'
 
@@ -11,6 +11,13 @@ import {
   useAppForm
 } from '@/components/form'
 import { useAuth } from '@/contexts/auth-context'
+import { RecurrenceRuleFields } from '@/features/recurrence-rules/recurrence-rule-fields'
+import {
+  type RecurrenceRule,
+  ruleStartDate,
+  supportsRecurrenceRule
+} from '@/features/recurrence-rules/recurrence-rules'
+import { useApplyRecurrenceRule } from '@/features/recurrence-rules/use-apply-recurrence-rule'
 import {
   useAccountsList,
   useCategoriesList,
@@ -32,8 +39,12 @@ export type CreateIncomeDrawerProps = {
 export function CreateIncomeDrawer({ onClose }: CreateIncomeDrawerProps) {
   const { t } = useTranslation()
   const { userId, householdId } = useAuth()
+  const [recurrenceRule, setRecurrenceRule] = useState<RecurrenceRule | null>(
+    null
+  )
 
   const { mutate: createIncome, isPending } = useCreateIncome()
+  const applyRecurrenceRule = useApplyRecurrenceRule(householdId)
 
   const { data: accounts = [] } = useAccountsList({
     householdId,
@@ -155,18 +166,41 @@ export function CreateIncomeDrawer({ onClose }: CreateIncomeDrawerProps) {
         return
       }
 
-      createIncome(
-        mapIncomeFormToCreateVariables(result.data, householdId, userId),
-        {
-          onSuccess: () => {
-            toast.success(t('income.createSuccess'))
-            onClose()
-          },
-          onError: (err) => {
-            toast.error(getErrorMessage(err))
+      const rule = supportsRecurrenceRule(result.data.recurrenceType)
+        ? recurrenceRule
+        : null
+      const data = rule
+        ? {
+            ...result.data,
+            expectedDate: ruleStartDate(
+              rule,
+              result.data.recurrenceType,
+              result.data.expectedDate
+            )
+          }
+        : result.data
+
+      createIncome(mapIncomeFormToCreateVariables(data, householdId, userId), {
+        onSuccess: async (created) => {
+          if (rule) {
+            try {
+              await applyRecurrenceRule({
+                owner: 'incomes',
+                id: created.id,
+                userId,
+                rule
+              })
+            } catch (err) {
+              toast.error(getErrorMessage(err))
+            }
           }
+          toast.success(t('income.createSuccess'))
+          onClose()
+        },
+        onError: (err) => {
+          toast.error(getErrorMessage(err))
         }
-      )
+      })
     }
   })
 
@@ -338,6 +372,23 @@ export function CreateIncomeDrawer({ onClose }: CreateIncomeDrawerProps) {
           )}
         </form.AppField>
 
+        <form.Subscribe
+          selector={(state) => ({
+            recurrenceType: state.values.recurrenceType,
+            customIntervalDays: state.values.customIntervalDays,
+            startDate: state.values.expectedDate,
+            endDate: state.values.endDate
+          })}
+        >
+          {(schedule) => (
+            <RecurrenceRuleFields
+              {...schedule}
+              rule={recurrenceRule}
+              onRuleChange={setRecurrenceRule}
+            />
+          )}
+        </form.Subscribe>
+
         <form.AppField
           name="category"
           validators={{
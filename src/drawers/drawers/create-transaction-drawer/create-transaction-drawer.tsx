@@ -8,6 +8,9 @@ import { Button } from '@/components/button/button'
 import { useAppForm } from '@/components/form'
 import { TransactionTypeSegmentedControl } from '@/components/transaction-type-segmented-control/transaction-type-segmented-control'
 import { useAuth } from '@/contexts/auth-context'
+import type { QuickAddParseResult } from '@/features/quick-add/quick-add'
+import { TagPicker } from '@/features/transaction-tags/tag-picker'
+import { useTransactionTags } from '@/features/transaction-tags/use-transaction-tags'
 import {
   useAccountBalancesList,
   useAccountsList,
@@ -34,6 +37,7 @@ import {
 } from './budget-allocation-shortfall'
 import { ExpenseIncomeTransferFields } from './expense-income-transfer-fields'
 import { buildCreateTransactionBody } from './map-to-request'
+import { quickAddFormValues } from './quick-add-values'
 import { drawerFormSchema } from './schema'
 import { submitExpenseWithOptionalAllocation } from './submit-expense-with-allocation'
 import {
@@ -76,12 +80,15 @@ export type CreateTransactionDrawerProps = {
   onClose: () => void
   incomeInstance?: IncomeInstancePrefill
   billInstance?: BillInstancePrefill
+  /** Quick-add entry opened in the full form to finish or correct it. */
+  quickAdd?: QuickAddParseResult
 }
 
 export function CreateTransactionDrawer({
   onClose,
   incomeInstance,
-  billInstance
+  billInstance,
+  quickAdd
 }: CreateTransactionDrawerProps) {
   const { t } = useTranslation()
   const { userId, householdId } = useAuth()
@@ -92,6 +99,8 @@ export function CreateTransactionDrawer({
     Record<string, boolean>
   >({})
   const splitSwitchId = useId()
+  const [tagIds, setTagIds] = useState<string[]>([])
+  const { setTransactionTags } = useTransactionTags(householdId)
 
   const isInstanceLinked = !!incomeInstance || !!billInstance
 
@@ -210,10 +219,12 @@ export function CreateTransactionDrawer({
         recipient: billInstance.recipientId
       }
     }
+    if (quickAdd) return quickAddFormValues(quickAdd)
     return DRAWER_DEFAULT_VALUES
   }, [
     incomeInstance,
-    billInstance
+    billInstance,
+    quickAdd
   ])
 
   const form = useAppForm({
@@ -335,10 +346,15 @@ export function CreateTransactionDrawer({
         promptAllocation,
         createAllocationAsync,
         submitTransaction: async () => {
-          await createTransactionAsync({
+          const created = await createTransactionAsync({
             userId,
             ...body
           })
+          if (tagIds.length > 0) {
+            setTransactionTags({
+              [created.id]: tagIds
+            })
+          }
         }
       })
 
@@ -603,6 +619,13 @@ export function CreateTransactionDrawer({
               />
             )}
           </form.Subscribe>
+          <div className="flex flex-col gap-2">
+            <p className="type-label text-gray-800">{t('tags.fieldLabel')}</p>
+            <TagPicker
+              value={tagIds}
+              onChange={setTagIds}
+            />
+          </div>
         </div>
 
         <div className="mt-auto flex shrink-0 flex-wrap items-center justify-end gap-2 border-t border-gray-200 pt-4">
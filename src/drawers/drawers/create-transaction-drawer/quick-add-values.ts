@@ -0,0 +1,31 @@
+import { TransactionType } from '@/api/generated/types.gen'
+import type { ComboboxValue } from '@/components/form'
+import type { QuickAddParseResult } from '@/features/quick-add/quick-add'
+import { DRAWER_DEFAULT_VALUES, type DrawerFormValues } from './types'
+
+/** Form values for a parsed quick-add entry; unknown parties become new ones. */
+export function quickAddFormValues(
+  entry: QuickAddParseResult
+): DrawerFormValues {
+  const party: ComboboxValue = entry.partyId
+    ? entry.partyId
+    : entry.newPartyName
+      ? {
+          isNew: true,
+          name: entry.newPartyName
+        }
+      : null
+  const isIncome = entry.type === TransactionType.INCOME
+  return {
+    ...DRAWER_DEFAULT_VALUES,
+    transactionType: entry.type,
+    name: entry.name,
+    amount: entry.amount,
+    date: entry.date,
+    accountId: entry.accountId,
+    recipient: isIncome ? null : party,
+    sender: isIncome ? party : null,
+    budgetId: isIncome ? '' : entry.budgetId,
+    category: entry.categoryId || null
+  }
+}
@@ -17,6 +17,13 @@ import {
 } from '@/components/form'
 import { Switch } from '@/components/ui/switch'
 import { useAuth } from '@/contexts/auth-context'
+import { RecurrenceRuleFields } from '@/features/recurrence-rules/recurrence-rule-fields'
+import { useRecurrenceRules } from '@/features/recurrence-rules/use-recurrence-rules'
+import {
+  type RecurrenceRule,
+  supportsRecurrenceRule
+} from '@/features/recurrence-rules/recurrence-rules'
+import { useApplyRecurrenceRule } from '@/features/recurrence-rules/use-apply-recurrence-rule'
 import {
   useAccountsList,
   useBillsList,
@@ -73,8 +80,14 @@ export function EditBillBlueprintDrawer({
   >({})
   const splitSwitchId = useId()
   const templateHadSplitsAtOpenRef = useRef(false)
+  const [recurrenceRule, setRecurrenceRule] = useState<RecurrenceRule | null>(
+    null
+  )
 
   const { mutate: updateBill, isPending } = useUpdateBill()
+  const { bills: billRules, isLoading: rulesLoading } =
+    useRecurrenceRules(householdId)
+  const applyRecurrenceRule = useApplyRecurrenceRule(householdId)
 
   const { data: bills = [], isPending: billsLoading } = useBillsList({
     householdId,
@@ -266,7 +279,19 @@ export function EditBillBlueprintDrawer({
             ...vars
           },
           {
-            onSuccess: () => {
+            onSuccess: async () => {
+              try {
+                await applyRecurrenceRule({
+                  owner: 'bills',
+                  id: billId,
+                  userId,
+                  rule: supportsRecurrenceRule(parsed.data.recurrenceType)
+                    ? recurrenceRule
+                    : null
+                })
+              } catch (err) {
+                toast.error(getErrorMessage(err))
+              }
               toast.success(t('bills.updateSuccess'))
               onClose()
             },
@@ -365,7 +390,7 @@ export function EditBillBlueprintDrawer({
   )
 
   useEffect(() => {
-    if (!bill || hasInitializedForm) return
+    if (!bill || rulesLoading || hasInitializedForm) return
 
     const normalized = normalizeBackendSplits(bill.splits)
     templateHadSplitsAtOpenRef.current = Boolean(
@@ -392,6 +417,7 @@ export function EditBillBlueprintDrawer({
     )
     form.setFieldValue('endDate', bill.endDate ?? null)
     form.setFieldValue('scopeChangeDate', bill.dueDate)
+    setRecurrenceRule(billRules[bill.id] ?? null)
 
     if (normalized && normalized.length > 0) {
       setUseSplits(true)
@@ -428,6 +454,8 @@ export function EditBillBlueprintDrawer({
     setHasInitializedForm(true)
   }, [
     bill,
+    billRules,
+    rulesLoading,
     form,
     hasInitializedForm,
     mode
@@ -652,6 +680,23 @@ export function EditBillBlueprintDrawer({
           )}
         </form.AppField>
 
+        <form.Subscribe
+          selector={(s) => ({
+            recurrenceType: s.values.recurrenceType,
+            customIntervalDays: s.values.customIntervalDays,
+            startDate: s.values.dueDate,
+            endDate: s.values.endDate
+          })}
+        >
+          {(schedule) => (
+            <RecurrenceRuleFields
+              {...schedule}
+              rule={recurrenceRule}
+              onRuleChange={setRecurrenceRule}
+            />
+          )}
+        </form.Subscribe>
+
         <div className="flex items-center gap-2">
           <Switch
             checked={useSplits}
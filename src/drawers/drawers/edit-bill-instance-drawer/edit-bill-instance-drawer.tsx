@@ -18,6 +18,7 @@ import {
 } from '@/components/form'
 import { Switch } from '@/components/ui/switch'
 import { useAuth } from '@/contexts/auth-context'
+import { AttachmentsSection } from '@/features/attachments/attachments-section'
 import {
   useAccountsList,
   useBillInstanceById,
@@ -26,8 +27,8 @@ import {
   useRecipientsList,
   useUpdateBillInstance
 } from '@/hooks/api'
-import { getErrorMessage } from '@/lib/api-error'
 import { formatAccountLabel } from '@/lib/accounts'
+import { getErrorMessage } from '@/lib/api-error'
 import { translateIfLikelyI18nKey } from '@/lib/form-validation'
 import { normalizeBackendSplits } from '@/lib/split-normalization'
 import { withSplitTotalsCoercedForValidation } from '../create-bill-drawer/bill-split-form-payload'
@@ -712,6 +713,13 @@ export function EditBillInstanceDrawer({
             </form.AppField>
           </>
         ) : null}
+
+        <AttachmentsSection
+          owner={{
+            type: 'BILL_INSTANCE',
+            id: instance.id
+          }}
+        />
       </div>
 
       <div className="mt-auto flex shrink-0 flex-wrap items-center justify-end gap-2 border-t border-gray-200 pt-4">
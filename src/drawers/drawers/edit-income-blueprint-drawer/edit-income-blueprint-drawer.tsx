@@ -17,6 +17,13 @@ import {
   useAppForm
 } from '@/components/form'
 import { useAuth } from '@/contexts/auth-context'
+import { RecurrenceRuleFields } from '@/features/recurrence-rules/recurrence-rule-fields'
+import { useRecurrenceRules } from '@/features/recurrence-rules/use-recurrence-rules'
+import {
+  type RecurrenceRule,
+  supportsRecurrenceRule
+} from '@/features/recurrence-rules/recurrence-rules'
+import { useApplyRecurrenceRule } from '@/features/recurrence-rules/use-apply-recurrence-rule'
 import {
   useAccountsList,
   useCategoriesList,
@@ -94,6 +101,9 @@ export function EditIncomeBlueprintDrawer({
   const { t } = useTranslation()
   const { userId, householdId } = useAuth()
   const [hasInitializedForm, setHasInitializedForm] = useState(false)
+  const [recurrenceRule, setRecurrenceRule] = useState<RecurrenceRule | null>(
+    null
+  )
 
   const {
     data: income,
@@ -126,6 +136,9 @@ export function EditIncomeBlueprintDrawer({
   })
 
   const { mutateAsync: updateIncomeAsync, isPending } = useUpdateIncome()
+  const { incomes: incomeRules, isLoading: rulesLoading } =
+    useRecurrenceRules(householdId)
+  const applyRecurrenceRule = useApplyRecurrenceRule(householdId)
 
   const incomeSources = useMemo(() => {
     const byId = new Map<
@@ -283,6 +296,14 @@ export function EditIncomeBlueprintDrawer({
             : {}),
           ...categoryToUpdate(result.data.category)
         })
+        await applyRecurrenceRule({
+          owner: 'incomes',
+          id: incomeId,
+          userId,
+          rule: supportsRecurrenceRule(result.data.recurrenceType)
+            ? recurrenceRule
+            : null
+        })
         toast.success(t('income.updateSuccess'))
         onClose()
       } catch (err) {
@@ -299,7 +320,7 @@ export function EditIncomeBlueprintDrawer({
   ])
 
   useEffect(() => {
-    if (!income || hasInitializedForm) return
+    if (!income || rulesLoading || hasInitializedForm) return
 
     form.setFieldValue('name', income.name)
     form.setFieldValue('incomeSource', income.incomeSourceId)
@@ -310,6 +331,7 @@ export function EditIncomeBlueprintDrawer({
     form.setFieldValue('expectedDate', income.expectedDate)
     form.setFieldValue('endDate', income.endDate ?? null)
     form.setFieldValue('category', income.categoryId ?? null)
+    setRecurrenceRule(incomeRules[income.id] ?? null)
 
     if (mode === 'upcoming') {
       form.setFieldValue('changeDate', income.expectedDate)
@@ -320,6 +342,8 @@ export function EditIncomeBlueprintDrawer({
     setHasInitializedForm(true)
   }, [
     income,
+    incomeRules,
+    rulesLoading,
     form,
     hasInitializedForm,
     mode
@@ -518,6 +542,23 @@ export function EditIncomeBlueprintDrawer({
           )}
         </form.AppField>
 
+        <form.Subscribe
+          selector={(state) => ({
+            recurrenceType: state.values.recurrenceType,
+            customIntervalDays: state.values.customIntervalDays,
+            startDate: state.values.expectedDate,
+            endDate: state.values.endDate
+          })}
+        >
+          {(schedule) => (
+            <RecurrenceRuleFields
+              {...schedule}
+              rule={recurrenceRule}
+              onRuleChange={setRecurrenceRule}
+            />
+          )}
+        </form.Subscribe>
+
         <form.AppField name="category">
           {(field) => (
             <field.ComboboxField
@@ -1,4 +1,4 @@
-import { Check } from 'lucide-react'
+import { Check, LockOpen } from 'lucide-react'
 import { useCallback, useEffect, useId, useMemo, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { toast } from 'sonner'
@@ -8,6 +8,16 @@ import { Alert } from '@/components/alert/alert'
 import { Button } from '@/components/button/button'
 import { useAppForm } from '@/components/form'
 import { useAuth } from '@/contexts/auth-context'
+import { useAccountReconciliations } from '@/features/account-reconciliation/use-account-reconciliations'
+import { AttachmentsSection } from '@/features/attachments/attachments-section'
+import {
+  compactAttribution,
+  type TransactionAttribution
+} from '@/features/shared-expenses/attribution'
+import { useSharedExpenses } from '@/features/shared-expenses/use-shared-expenses'
+import { useTransactionRevisions } from '@/features/transaction-revisions/use-transaction-revisions'
+import { TagPicker } from '@/features/transaction-tags/tag-picker'
+import { useTransactionTags } from '@/features/transaction-tags/use-transaction-tags'
 import {
   useAccountBalancesList,
   useAccountsList,
@@ -16,6 +26,7 @@ import {
   useBudgetsList,
   useCategoryById,
   useCreateAllocationMutation,
+  useHouseholdMembers,
   useIncomeSourcesList,
   useRecipientsList,
   useTransactionById,
@@ -44,7 +55,10 @@ import {
   newSplitRow,
   type SplitRowValue
 } from '../create-transaction-drawer/types'
+import { ExpenseAttributionFields } from './expense-attribution-fields'
 import { buildUpdateTransactionBody } from './map-to-update-request'
+import { RefundLinkAlert } from './refund-link-alert'
+import { TransactionRevisionHistory } from './transaction-revision-history'
 
 export type EditTransactionDrawerProps = {
   transactionId: string
@@ -150,6 +164,8 @@ export function EditTransactionDrawer({
     Record<string, boolean>
   >({})
   const splitSwitchId = useId()
+  const [attribution, setAttribution] = useState<TransactionAttribution>({})
+  const [tagIds, setTagIds] = useState<string[]>([])
   const loadedTypeRef = useRef<TransactionType | null>(null)
   const expenseBudgetHydrationDoneRef = useRef(false)
 
@@ -242,6 +258,20 @@ export function EditTransactionDrawer({
     enabled: !!householdId
   })
 
+  const { data: members = [] } = useHouseholdMembers({
+    householdId,
+    userId,
+    enabled: !!householdId
+  })
+  const sharedExpenses = useSharedExpenses(householdId)
+  const { lockedTransactionIds, unlockTransaction } =
+    useAccountReconciliations(householdId)
+  const isLocked = lockedTransactionIds.has(transactionId)
+  const transactionTags = useTransactionTags(householdId)
+  const { revisions } = useTransactionRevisions(householdId, {
+    transactionId
+  })
+
   const expenseCategoryIdForBudgetHydration = useMemo(() => {
     if (!transaction) return null
     if (transaction.type !== TransactionType.EXPENSE) return null
@@ -415,6 +445,21 @@ export function EditTransactionDrawer({
       })
 
       if (didSubmit) {
+        if (data.transactionType === TransactionType.EXPENSE) {
+          await sharedExpenses
+            .saveAttribution(
+              transactionId,
+              compactAttribution(
+                attribution,
+                members.map((member) => member.userId),
+                hasSplits ? (data.splits?.length ?? 0) : 0
+              )
+            )
+            .catch((error) => toast.error(getErrorMessage(error)))
+        }
+        transactionTags.setTransactionTags({
+          [transactionId]: tagIds
+        })
         const kind = loadedTypeRef.current
         toast.success(
           kind === TransactionType.TRANSFER
@@ -439,6 +484,7 @@ export function EditTransactionDrawer({
   useEffect(() => {
     if (!transaction || hasInitializedForm) return
     if (householdId && !accountBalancesFetched) return
+    if (sharedExpenses.isLoading || transactionTags.isLoading) return
     if (needsBillInstanceAccountFallback && !billInstanceAccountFetched) return
 
     const v = transactionToFormValues(transaction, billInstanceForAccount)
@@ -456,6 +502,8 @@ export function EditTransactionDrawer({
 
     const hadSplits = (transaction.splits?.length ?? 0) > 0
     setUseSplits(hadSplits)
+    setAttribution(sharedExpenses.attributions[transaction.id] ?? {})
+    setTagIds(transactionTags.assignments[transaction.id] ?? [])
     loadedTypeRef.current = transaction.type
 
     if (hadSplits && v.splits.length > 0) {
@@ -700,6 +748,29 @@ export function EditTransactionDrawer({
         }}
       >
         <div className="flex min-h-0 flex-1 flex-col gap-4 overflow-y-auto">
+          {isLocked ? (
+            <Alert variant="info">
+              <div className="flex flex-col items-start gap-2">
+                <span>{t('reconciliation.lockedTransaction')}</span>
+                <Button
+                  variant="text"
+                  color="primary"
+                  icon={<LockOpen aria-hidden />}
+                  label={t('reconciliation.unlock')}
+                  onClick={() =>
+                    unlockTransaction(transactionId).catch((error) =>
+                      toast.error(getErrorMessage(error))
+                    )
+                  }
+                />
+              </div>
+            </Alert>
+          ) : null}
+          <RefundLinkAlert
+            householdId={householdId}
+            transactionId={transaction.id}
+            amount={transaction.amount}
+          />
           <form.Subscribe
             selector={(s) => ({
               transactionType: s.values.transactionType,
@@ -730,6 +801,49 @@ export function EditTransactionDrawer({
               />
             )}
           </form.Subscribe>
+          {members.length > 1 ? (
+            <form.Subscribe
+              selector={(s) => ({
+                transactionType: s.values.transactionType,
+                accountId: s.values.accountId,
+                splits: s.values.splits
+              })}
+            >
+              {({ transactionType, accountId, splits }) =>
+                transactionType === TransactionType.EXPENSE ? (
+                  <ExpenseAttributionFields
+                    members={members}
+                    settings={sharedExpenses.settings}
+                    accountId={accountId}
+                    splitSubtitles={
+                      useSplits ? splits.map((split) => split.subtitle) : []
+                    }
+                    value={attribution}
+                    onChange={setAttribution}
+                  />
+                ) : null
+              }
+            </form.Subscribe>
+          ) : null}
+          <div className="flex flex-col gap-2">
+            <p className="type-label text-gray-800">{t('tags.fieldLabel')}</p>
+            <TagPicker
+              value={tagIds}
+              onChange={setTagIds}
+              disabled={isLocked}
+            />
+          </div>
+          <AttachmentsSection
+            owner={{
+              type: 'TRANSACTION',
+              id: transaction.id
+            }}
+          />
+          <TransactionRevisionHistory
+            transactionId={transaction.id}
+            createdAt={transaction.createdAt}
+            revisions={revisions}
+          />
         </div>
 
         <div className="mt-auto flex shrink-0 flex-wrap items-center justify-end gap-2 border-t border-gray-200 pt-4">
@@ -748,7 +862,9 @@ export function EditTransactionDrawer({
                 color="primary"
                 icon={<Check aria-hidden />}
                 label={submitLabel}
-                disabled={isSubmitting || isPending || !hasInitializedForm}
+                disabled={
+                  isSubmitting || isPending || !hasInitializedForm || isLocked
+                }
                 onClick={() => void 0}
               />
             )}
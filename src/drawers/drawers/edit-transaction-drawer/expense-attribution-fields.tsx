@@ -0,0 +1,196 @@
+import { useId } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import { DRAFT_CONTROL_CLASS_NAME } from '@/features/import-statements/components/import-table-fields'
+import {
+  defaultShareWeights,
+  memberDisplayName,
+  type SharedExpenseMember,
+  type SharedExpenseSettings,
+  type ShareWeights,
+  type TransactionAttribution
+} from '@/features/shared-expenses/attribution'
+
+type ExpenseAttributionFieldsProps = {
+  members: SharedExpenseMember[]
+  settings: SharedExpenseSettings
+  accountId: string
+  /** Subtitles of the form's split lines; empty for an unsplit expense. */
+  splitSubtitles: string[]
+  value: TransactionAttribution
+  onChange: (value: TransactionAttribution) => void
+}
+
+function withWeight(
+  weights: ShareWeights | null | undefined,
+  memberId: string,
+  input: string
+): ShareWeights | null {
+  const { [memberId]: _, ...rest } = weights ?? {}
+  const weight = Number.parseFloat(input.replace(',', '.'))
+  const next =
+    input.trim() && Number.isFinite(weight) && weight >= 0
+      ? {
+          ...rest,
+          [memberId]: weight
+        }
+      : rest
+  return Object.keys(next).length > 0 ? next : null
+}
+
+/**
+ * Payer and per-member shares of an expense, for the whole amount and for
+ * each split line. A row left blank uses the row above it or the household
+ * default; members left blank in a filled row bear none of it.
+ */
+export function ExpenseAttributionFields({
+  members,
+  settings,
+  accountId,
+  splitSubtitles,
+  value,
+  onChange
+}: ExpenseAttributionFieldsProps) {
+  const { t } = useTranslation()
+  const payerId = useId()
+  const memberIds = members.map((member) => member.userId)
+  const names = new Map(
+    members.map((member) => [
+      member.userId,
+      memberDisplayName(member, t('forms.unknownUser'))
+    ])
+  )
+  const accountOwnerId = settings.accountOwners[accountId]
+  const defaults = defaultShareWeights(settings, memberIds)
+  const transactionShares = value.shares ?? defaults
+
+  const rows = [
+    {
+      key: 'all',
+      label:
+        splitSubtitles.length > 0
+          ? t('sharedExpenses.attribution.allLines')
+          : t('sharedExpenses.attribution.wholeAmount'),
+      weights: value.shares,
+      placeholder: defaults,
+      onChange: (memberId: string, input: string) =>
+        onChange({
+          ...value,
+          shares: withWeight(value.shares, memberId, input) ?? undefined
+        })
+    },
+    ...splitSubtitles.map((subtitle, index) => ({
+      key: `split-${index}`,
+      label:
+        subtitle ||
+        t('sharedExpenses.attribution.line', {
+          number: index + 1
+        }),
+      weights: value.splitShares?.[index],
+      placeholder: transactionShares,
+      onChange: (memberId: string, input: string) => {
+        const splitShares = splitSubtitles.map(
+          (_, lineIndex) => value.splitShares?.[lineIndex] ?? null
+        )
+        splitShares[index] = withWeight(splitShares[index], memberId, input)
+        onChange({
+          ...value,
+          splitShares
+        })
+      }
+    }))
+  ]
+
+  return (
+    <fieldset className="flex flex-col gap-3 border-gray-200 border-t pt-4">
+      <legend className="type-label text-gray-800">
+        {t('sharedExpenses.attribution.title')}
+      </legend>
+      <div className="flex flex-col gap-2">
+        <label
+          className="type-label text-gray-800"
+          htmlFor={payerId}
+        >
+          {t('sharedExpenses.attribution.payer')}
+        </label>
+        <select
+          id={payerId}
+          className={DRAFT_CONTROL_CLASS_NAME}
+          value={value.payerId ?? ''}
+          onChange={(event) =>
+            onChange({
+              ...value,
+              payerId: event.target.value || undefined
+            })
+          }
+        >
+          <option value="">
+            {accountOwnerId && names.has(accountOwnerId)
+              ? t('sharedExpenses.attribution.payerFromAccount', {
+                  name: names.get(accountOwnerId)
+                })
+              : t('sharedExpenses.attribution.payerUnknown')}
+          </option>
+          {members.map((member) => (
+            <option
+              key={member.userId}
+              value={member.userId}
+            >
+              {names.get(member.userId)}
+            </option>
+          ))}
+        </select>
+      </div>
+      <table className="w-full">
+        <thead>
+          <tr>
+            <th className="type-label text-left text-gray-700">
+              {t('sharedExpenses.attribution.shares')}
+            </th>
+            {members.map((member) => (
+              <th
+                key={member.userId}
+                className="type-label px-1 text-left text-gray-700"
+              >
+                {names.get(member.userId)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.key}>
+              <td className="type-body-medium py-1 pr-2 text-gray-950">
+                {row.label}
+              </td>
+              {members.map((member) => (
+                <td
+                  key={member.userId}
+                  className="px-1 py-1"
+                >
+                  <input
+                    className={DRAFT_CONTROL_CLASS_NAME}
+                    inputMode="decimal"
+                    aria-label={`${row.label}: ${names.get(member.userId)}`}
+                    value={row.weights?.[member.userId] ?? ''}
+                    placeholder={
+                      row.weights
+                        ? '0'
+                        : String(row.placeholder[member.userId] ?? 0)
+                    }
+                    onChange={(event) =>
+                      row.onChange(member.userId, event.target.value)
+                    }
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="type-label text-gray-600">
+        {t('sharedExpenses.attribution.hint')}
+      </p>
+    </fieldset>
+  )
+}
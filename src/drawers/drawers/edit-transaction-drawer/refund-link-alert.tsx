@@ -0,0 +1,82 @@
+import { format } from 'date-fns'
+import { useTranslation } from 'react-i18next'
+
+import { Alert } from '@/components/alert/alert'
+import { Button } from '@/components/button/button'
+import { refundedAmount } from '@/features/transaction-refunds/refunds'
+import { useTransactionRefunds } from '@/features/transaction-refunds/use-transaction-refunds'
+import { formatCurrency } from '@/lib/utils'
+import { useDrawer } from '../../use-drawer'
+
+type RefundLinkAlertProps = {
+  householdId: string
+  transactionId: string
+  amount: number
+}
+
+/**
+ * Shows which expense a refund credits, or which refunds an expense has,
+ * with buttons that open the other side of the link.
+ */
+export function RefundLinkAlert({
+  householdId,
+  transactionId,
+  amount
+}: RefundLinkAlertProps) {
+  const { t } = useTranslation()
+  const { openDrawer } = useDrawer()
+  const { refundIndex: index } = useTransactionRefunds(householdId)
+
+  const open = (id: string) =>
+    openDrawer('editTransaction', {
+      transactionId: id
+    })
+
+  const refund = index.byRefund.get(transactionId)
+  if (refund) {
+    return (
+      <Alert variant="info">
+        <div className="flex flex-col items-start gap-2">
+          <span>
+            {t('transactions.refund.refundOf', {
+              name: refund.originalName
+            })}
+          </span>
+          <Button
+            variant="text"
+            color="primary"
+            label={t('transactions.refund.openOriginal')}
+            onClick={() => open(refund.originalId)}
+          />
+        </div>
+      </Alert>
+    )
+  }
+
+  const ofOriginal = index.byOriginal.get(transactionId) ?? []
+  if (ofOriginal.length === 0) return null
+  return (
+    <Alert variant="info">
+      <div className="flex flex-col items-start gap-2">
+        <span>
+          {t('transactions.refund.refunded', {
+            amount: formatCurrency(refundedAmount(ofOriginal)),
+            total: formatCurrency(amount)
+          })}
+        </span>
+        {ofOriginal.map((item) => (
+          <Button
+            key={item.refundId}
+            variant="text"
+            color="primary"
+            label={t('transactions.refund.openRefund', {
+              date: format(new Date(item.date), 'yyyy-MM-dd'),
+              amount: formatCurrency(item.amount)
+            })}
+            onClick={() => open(item.refundId)}
+          />
+        ))}
+      </div>
+    </Alert>
+  )
+}
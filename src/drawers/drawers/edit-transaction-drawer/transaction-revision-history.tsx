@@ -0,0 +1,58 @@
+import { useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import { BlueprintRevisionTimeline } from '@/features/blueprint-revisions/blueprint-revision-timeline'
+import {
+  type TransactionRevision,
+  transactionTimelineRevisions
+} from '@/features/transaction-revisions/transaction-revisions'
+import { useTransactionRevisionLookups } from '@/features/transaction-revisions/use-transaction-revision-lookups'
+
+type TransactionRevisionHistoryProps = {
+  transactionId: string
+  createdAt: string
+  revisions: TransactionRevision[]
+}
+
+/**
+ * Who changed the transaction and how, newest first, ending with its creation.
+ */
+export function TransactionRevisionHistory({
+  transactionId,
+  createdAt,
+  revisions
+}: TransactionRevisionHistoryProps) {
+  const { t } = useTranslation()
+  const { lookups, authorNames } = useTransactionRevisionLookups()
+
+  const timeline = useMemo(
+    () =>
+      transactionTimelineRevisions({
+        revisions: revisions.filter(
+          (revision) => revision.transactionId === transactionId
+        ),
+        createdAt,
+        authorNames
+      }),
+    [
+      revisions,
+      transactionId,
+      createdAt,
+      authorNames
+    ]
+  )
+
+  return (
+    <section className="flex flex-col gap-3 border-gray-200 border-t pt-4">
+      <h3 className="type-body-strong text-gray-950">
+        {t('drawers.transactionRevisions.title')}
+      </h3>
+      <BlueprintRevisionTimeline
+        kind="transaction"
+        t={t}
+        revisions={timeline}
+        lookups={lookups}
+      />
+    </section>
+  )
+}
@@ -0,0 +1,445 @@
+import { format } from 'date-fns'
+import { sv } from 'date-fns/locale'
+import { PencilIcon, PlusIcon, ZapIcon } from 'lucide-react'
+import {
+  type ReactNode,
+  useEffect,
+  useId,
+  useMemo,
+  useRef,
+  useState
+} from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+
+import { TransactionType } from '@/api/generated/types.gen'
+import { Badge } from '@/components/badge/badge'
+import { Button } from '@/components/button/button'
+import {
+  InputShell,
+  InputShellIcon,
+  inputInnerClassName
+} from '@/components/input-shell/input-shell'
+import { useAuth } from '@/contexts/auth-context'
+import { budgetSuggestionSince } from '@/features/import-statements/classification/budget-suggestions'
+import {
+  buildQuickAddHistory,
+  parseQuickAdd,
+  type QuickAddLookups
+} from '@/features/quick-add/quick-add'
+import {
+  useAccountsList,
+  useAllocationsQuery,
+  useBudgetsList,
+  useCategoriesList,
+  useCreateAllocationMutation,
+  useCreateTransaction,
+  useIncomeSourcesList,
+  useRecipientsList,
+  useTransactionsList
+} from '@/hooks/api'
+import { useBudgetAllocateOnDemandDialog } from '@/hooks/use-budget-allocate-on-demand-dialog'
+import { getErrorMessage } from '@/lib/api-error'
+import { translateIfLikelyI18nKey } from '@/lib/form-validation'
+import { cn, formatCurrency } from '@/lib/utils'
+import { useDrawer } from '../use-drawer'
+import {
+  expenseLinesFromFormValues,
+  resolveExpenseBudgetShortfalls
+} from './create-transaction-drawer/budget-allocation-shortfall'
+import { buildCreateTransactionBody } from './create-transaction-drawer/map-to-request'
+import { quickAddFormValues } from './create-transaction-drawer/quick-add-values'
+import { drawerFormSchema } from './create-transaction-drawer/schema'
+import { submitExpenseWithOptionalAllocation } from './create-transaction-drawer/submit-expense-with-allocation'
+
+export type QuickAddTransactionDrawerProps = {
+  onClose: () => void
+}
+
+function PreviewRow({
+  label,
+  value,
+  missing
+}: {
+  label: string
+  value: ReactNode
+  missing?: boolean
+}) {
+  return (
+    <div className="flex items-center justify-between gap-4 py-2">
+      <dt className="type-label text-gray-600">{label}</dt>
+      <dd
+        className={cn(
+          'type-body-medium min-w-0 truncate text-right',
+          missing ? 'text-gray-500' : 'text-gray-950'
+        )}
+      >
+        {value}
+      </dd>
+    </div>
+  )
+}
+
+/**
+ * One-line entry for a transaction right after paying: the text is parsed
+ * as it is typed, the draft is shown for confirmation and saved with Enter.
+ * Anything the parser gets wrong can be fixed in the full form.
+ */
+export function QuickAddTransactionDrawer({
+  onClose
+}: QuickAddTransactionDrawerProps) {
+  const { t } = useTranslation()
+  const { userId, householdId } = useAuth()
+  const { openDrawer } = useDrawer()
+  const inputId = useId()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [input, setInput] = useState('')
+  const [today] = useState(() => new Date())
+  const historySince = useMemo(
+    () => budgetSuggestionSince(today),
+    [
+      today
+    ]
+  )
+
+  const { promptAllocation, allocateOnDemandDialog } =
+    useBudgetAllocateOnDemandDialog()
+  const { mutateAsync: createTransactionAsync, isPending: isCreating } =
+    useCreateTransaction()
+  const { mutateAsync: createAllocationAsync, isPending: isAllocating } =
+    useCreateAllocationMutation()
+  const { data: allocationSummary } = useAllocationsQuery({
+    householdId: householdId ?? '',
+    userId: userId ?? '',
+    enabled: Boolean(householdId && userId)
+  })
+  const isPending = isCreating || isAllocating
+
+  const { data: accounts = [] } = useAccountsList({
+    householdId,
+    userId,
+    enabled: !!householdId,
+    excludeArchived: true
+  })
+  const { data: budgets = [] } = useBudgetsList({
+    householdId,
+    userId,
+    enabled: !!householdId
+  })
+  const { data: categories = [] } = useCategoriesList({
+    householdId,
+    userId,
+    enabled: !!householdId
+  })
+  const { data: recipients = [] } = useRecipientsList({
+    householdId,
+    userId,
+    enabled: !!householdId
+  })
+  const { data: incomeSources = [] } = useIncomeSourcesList({
+    householdId,
+    userId,
+    enabled: !!householdId
+  })
+  const { data: recentTransactions = [] } = useTransactionsList({
+    householdId,
+    userId,
+    dateFrom: historySince,
+    dateTo: today,
+    enabled: !!householdId
+  })
+
+  const lookups = useMemo<QuickAddLookups>(
+    () => ({
+      accounts: accounts.map((account) => ({
+        id: account.id,
+        name: account.name ?? ''
+      })),
+      budgets,
+      recipients,
+      incomeSources
+    }),
+    [
+      accounts,
+      budgets,
+      recipients,
+      incomeSources
+    ]
+  )
+  const history = useMemo(
+    () => buildQuickAddHistory(recentTransactions, historySince),
+    [
+      recentTransactions,
+      historySince
+    ]
+  )
+
+  const entry = useMemo(
+    () =>
+      parseQuickAdd({
+        input,
+        lookups,
+        history,
+        today
+      }),
+    [
+      input,
+      lookups,
+      history,
+      today
+    ]
+  )
+  const values = useMemo(
+    () => quickAddFormValues(entry),
+    [
+      entry
+    ]
+  )
+  const validation = useMemo(
+    () => drawerFormSchema.safeParse(values),
+    [
+      values
+    ]
+  )
+  const firstIssue = validation.success
+    ? null
+    : validation.error.issues[0]?.message
+
+  const nameById = useMemo(
+    () =>
+      new Map<string, string>(
+        [
+          ...lookups.accounts,
+          ...budgets,
+          ...categories
+        ].map((item) => [
+          item.id,
+          item.name
+        ])
+      ),
+    [
+      lookups.accounts,
+      budgets,
+      categories
+    ]
+  )
+
+  const isIncome = entry.type === TransactionType.INCOME
+  const hasInput = input.trim().length > 0
+
+  const handleSubmit = async () => {
+    if (!validation.success || isPending) return
+    if (!householdId) {
+      toast.error(t('server.badRequest.missingHouseholdId'))
+      return
+    }
+    const data = validation.data
+    let body: ReturnType<typeof buildCreateTransactionBody>
+    try {
+      body = buildCreateTransactionBody({
+        t,
+        data,
+        hasSplits: false
+      })
+    } catch (err) {
+      toast.error(getErrorMessage(err))
+      return
+    }
+
+    const shortfalls =
+      data.transactionType === TransactionType.EXPENSE
+        ? resolveExpenseBudgetShortfalls({
+            mode: 'create',
+            budgets,
+            newExpenseLines: expenseLinesFromFormValues({
+              hasSplits: false,
+              amount: data.amount,
+              budgetId: data.budgetId,
+              splits: data.splits
+            }),
+            newDate: data.date
+          })
+        : []
+
+    const didSubmit = await submitExpenseWithOptionalAllocation({
+      shortfalls,
+      unallocatedAmount: allocationSummary?.unallocated ?? 0,
+      userId,
+      confirmLabel: t('transactions.allocateAndCreate'),
+      t,
+      promptAllocation,
+      createAllocationAsync,
+      submitTransaction: async () => {
+        await createTransactionAsync({
+          userId,
+          ...body
+        })
+      }
+    })
+
+    if (didSubmit) {
+      toast.success(t('transactions.createSuccess'))
+      onClose()
+    }
+  }
+
+  // After the drawer's own open focus, so typing can start right away.
+  useEffect(() => {
+    const timeoutId = window.setTimeout(() => inputRef.current?.focus(), 0)
+    return () => window.clearTimeout(timeoutId)
+  }, [])
+
+  const missing = t('quickAdd.preview.missing')
+
+  return (
+    <>
+      {allocateOnDemandDialog}
+      <form
+        className="flex h-full min-h-0 flex-1 flex-col"
+        onSubmit={(e) => {
+          e.preventDefault()
+          void handleSubmit()
+        }}
+      >
+        <div className="flex min-h-0 flex-1 flex-col gap-4 overflow-y-auto">
+          <div className="flex flex-col gap-1">
+            <label
+              className="type-label text-gray-600"
+              htmlFor={inputId}
+            >
+              {t('quickAdd.inputLabel')}
+            </label>
+            <InputShell>
+              <InputShellIcon>
+                <ZapIcon aria-hidden={true} />
+              </InputShellIcon>
+              <input
+                id={inputId}
+                type="text"
+                autoComplete="off"
+                enterKeyHint="done"
+                ref={inputRef}
+                placeholder={t('quickAdd.placeholder')}
+                value={input}
+                disabled={isPending}
+                onChange={(e) => setInput(e.target.value)}
+                className={cn(inputInnerClassName)}
+              />
+            </InputShell>
+            <p className="type-label-small text-gray-600">
+              {t('quickAdd.hint')}
+            </p>
+          </div>
+
+          {hasInput ? (
+            <section
+              className="flex flex-col gap-2"
+              aria-live="polite"
+            >
+              <div className="flex items-center justify-between gap-3">
+                <h3 className="type-body-strong text-gray-950">
+                  {t('quickAdd.preview.title')}
+                </h3>
+                <Badge
+                  color={isIncome ? 'green' : 'orange'}
+                  label={
+                    isIncome
+                      ? t('transactions.income')
+                      : t('transactions.expense')
+                  }
+                />
+              </div>
+              <dl className="flex flex-col divide-y divide-gray-200">
+                <PreviewRow
+                  label={t('quickAdd.preview.amount')}
+                  value={
+                    entry.amount === null
+                      ? missing
+                      : formatCurrency(entry.amount)
+                  }
+                  missing={entry.amount === null}
+                />
+                <PreviewRow
+                  label={
+                    isIncome
+                      ? t('quickAdd.preview.sender')
+                      : t('quickAdd.preview.recipient')
+                  }
+                  value={
+                    entry.name ? (
+                      <span className="flex items-center justify-end gap-2">
+                        <span className="truncate">{entry.name}</span>
+                        {entry.newPartyName ? (
+                          <Badge
+                            color="blue"
+                            label={t('quickAdd.preview.new')}
+                          />
+                        ) : null}
+                      </span>
+                    ) : (
+                      missing
+                    )
+                  }
+                  missing={!entry.name}
+                />
+                {isIncome ? null : (
+                  <PreviewRow
+                    label={t('quickAdd.preview.budget')}
+                    value={nameById.get(entry.budgetId) ?? missing}
+                    missing={!entry.budgetId}
+                  />
+                )}
+                <PreviewRow
+                  label={t('quickAdd.preview.category')}
+                  value={nameById.get(entry.categoryId) ?? missing}
+                  missing={!entry.categoryId}
+                />
+                <PreviewRow
+                  label={t('quickAdd.preview.date')}
+                  value={format(entry.date, 'PPP', {
+                    locale: sv
+                  })}
+                />
+                <PreviewRow
+                  label={t('quickAdd.preview.account')}
+                  value={nameById.get(entry.accountId) ?? missing}
+                  missing={!entry.accountId}
+                />
+              </dl>
+              {firstIssue ? (
+                <p className="type-label-small text-red-600">
+                  {translateIfLikelyI18nKey(firstIssue, t)}
+                </p>
+              ) : null}
+            </section>
+          ) : null}
+        </div>
+
+        <div className="mt-auto flex shrink-0 flex-wrap items-center justify-end gap-2 border-t border-gray-200 pt-4">
+          <Button
+            type="button"
+            variant="outlined"
+            color="subtle"
+            icon={<PencilIcon aria-hidden />}
+            label={t('quickAdd.openForm')}
+            disabled={isPending}
+            onClick={() =>
+              openDrawer('createTransaction', {
+                quickAdd: entry
+              })
+            }
+          />
+          <Button
+            type="submit"
+            variant="filled"
+            color="primary"
+            icon={<PlusIcon aria-hidden />}
+            label={t('quickAdd.confirm')}
+            disabled={!validation.success || isPending}
+            onClick={() => void 0}
+          />
+        </div>
+      </form>
+    </>
+  )
+}
@@ -41,6 +41,7 @@ const FILTER_IDS = [
   'account',
   'budget',
   'category',
+  'tags',
   'recipientSender'
 ] as const
 
@@ -54,6 +55,7 @@ export type TransactionsTableFilterDrawerProps = {
   availableBudgets: SelectOption[]
   availableCategories: SelectOption[]
   availableRecipientsSenders: SelectOption[]
+  availableTags: SelectOption[]
   amountBounds: {
     min?: number
     max?: number
@@ -72,6 +74,7 @@ export function TransactionsTableFilterDrawer({
   availableBudgets,
   availableCategories,
   availableRecipientsSenders,
+  availableTags,
   amountBounds,
   onClose
 }: TransactionsTableFilterDrawerProps) {
@@ -107,6 +110,9 @@ export function TransactionsTableFilterDrawer({
   const [selectedRecipientsSenders, setSelectedRecipientsSenders] = useState<
     string[]
   >(() => readArrayFilter(columnFilters, 'recipientSender'))
+  const [selectedTags, setSelectedTags] = useState<string[]>(() =>
+    readArrayFilter(columnFilters, 'tags')
+  )
 
   useEffect(() => {
     setDateRange(readDateRangeFilter(columnFilters, 'date'))
@@ -124,6 +130,7 @@ export function TransactionsTableFilterDrawer({
     setSelectedRecipientsSenders(
       readArrayFilter(columnFilters, 'recipientSender')
     )
+    setSelectedTags(readArrayFilter(columnFilters, 'tags'))
   }, [
     columnFilters
   ])
@@ -194,6 +201,13 @@ export function TransactionsTableFilterDrawer({
       })
     }
 
+    if (selectedTags.length > 0) {
+      nextFilters.push({
+        id: 'tags',
+        value: selectedTags
+      })
+    }
+
     if (selectedRecipientsSenders.length > 0) {
       nextFilters.push({
         id: 'recipientSender',
@@ -366,6 +380,20 @@ export function TransactionsTableFilterDrawer({
           </div>
         )}
 
+        {/* Tags */}
+        {availableTags.length > 0 && (
+          <div className="flex flex-col gap-2">
+            <p className="type-label text-gray-600">{t('tags.column')}</p>
+            <FilterMultiselect
+              value={selectedTags}
+              onChange={setSelectedTags}
+              options={availableTags}
+              placeholder={t('common.selectAnOption')}
+              searchPlaceholder={t('common.search')}
+            />
+          </div>
+        )}
+
         {/* Recipient / Sender */}
         {availableRecipientsSenders.length > 0 && (
           <div className="flex flex-col gap-2">
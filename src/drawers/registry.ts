@@ -9,6 +9,7 @@ import type {
 } from '@/api/generated/types.gen'
 import type { BillOverviewStatus } from '@/routes/_authenticated/bills/-components/bill-overview-table'
 import { AllocateBudgetDrawer } from './drawers/allocate-budget-drawer'
+import { AssignmentRuleDrawer } from './drawers/assignment-rule-drawer/assignment-rule-drawer'
 import { BillBasisFilterDrawer } from './drawers/bill-basis-filter-drawer'
 import { BillOverviewFilterDrawer } from './drawers/bill-overview-filter-drawer'
 import { BillRevisionsDrawer } from './drawers/bill-revisions-drawer'
@@ -36,6 +37,7 @@ import { IncomeRevisionsDrawer } from './drawers/income-revisions-drawer'
 import { IncomeSourceFilterDrawer } from './drawers/income-source-filter-drawer'
 import { IncomeTableFilterDrawer } from './drawers/income-table-filter-drawer'
 import { MyInvitationsDrawer } from './drawers/my-invitations-drawer'
+import { QuickAddTransactionDrawer } from './drawers/quick-add-transaction-drawer'
 import { TransactionsTableFilterDrawer } from './drawers/transactions-table-filter-drawer'
 import { TransferBudgetAllocationDrawer } from './drawers/transfer-budget-allocation-drawer'
 
@@ -79,6 +81,10 @@ export type DrawerPropsMap = {
       value: string
       label: string
     }>
+    availableTags: Array<{
+      value: string
+      label: string
+    }>
     amountBounds: {
       min?: number
       max?: number
@@ -138,7 +144,20 @@ export type DrawerPropsMap = {
         categoryId: string
       }>
     }
+    /** Parsed quick-add entry to finish in the full form. */
+    quickAdd?: {
+      type: typeof TransactionType.EXPENSE | typeof TransactionType.INCOME
+      amount: number | null
+      date: Date
+      name: string
+      accountId: string
+      partyId: string
+      newPartyName: string
+      budgetId: string
+      categoryId: string
+    }
   }
+  quickAddTransaction: Record<string, never>
   createIncome: Record<string, never>
   createBill: Record<string, never>
   createBudget: Record<string, never>
@@ -303,6 +322,9 @@ export type DrawerPropsMap = {
     billId: string
     name: string
   }
+  assignmentRule: {
+    ruleId?: string
+  }
 }
 
 export type DrawerName = keyof DrawerPropsMap
@@ -334,6 +356,10 @@ export const drawerMeta = {
     titleKey: 'drawers.createTransaction.title',
     descriptionKey: 'drawers.createTransaction.description'
   },
+  quickAddTransaction: {
+    titleKey: 'drawers.quickAddTransaction.title',
+    descriptionKey: 'drawers.quickAddTransaction.description'
+  },
   editTransaction: {
     titleKey: 'drawers.editTransaction.title',
     descriptionKey: 'drawers.editTransaction.description'
@@ -448,6 +474,10 @@ export const drawerMeta = {
     descriptionParams: ({ name }) => ({
       name
     })
+  },
+  assignmentRule: {
+    titleKey: 'drawers.assignmentRule.title',
+    descriptionKey: 'drawers.assignmentRule.description'
   }
 } satisfies DrawerMeta
 
@@ -456,6 +486,7 @@ export const drawerComponents = {
   transactionsTableFilterDrawer: TransactionsTableFilterDrawer,
   incomeTableFilterDrawer: IncomeTableFilterDrawer,
   createTransaction: CreateTransactionDrawer,
+  quickAddTransaction: QuickAddTransactionDrawer,
   editTransaction: EditTransactionDrawer,
   createIncome: CreateIncomeDrawer,
   createBill: CreateBillDrawer,
@@ -482,7 +513,8 @@ export const drawerComponents = {
   editHousehold: EditHouseholdDrawer,
   myInvitations: MyInvitationsDrawer,
   incomeRevisions: IncomeRevisionsDrawer,
-  billRevisions: BillRevisionsDrawer
+  billRevisions: BillRevisionsDrawer,
+  assignmentRule: AssignmentRuleDrawer
 } satisfies {
   [K in keyof DrawerPropsMap]: ComponentType<
     DrawerPropsMap[K] & {
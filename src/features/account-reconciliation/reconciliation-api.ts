@@ -0,0 +1,108 @@
+import { client } from '@/api/generated/client.gen'
+import type {
+  AccountReconciliation,
+  CompleteReconciliationInput,
+  TransactionLock
+} from './reconciliation'
+
+/*
+ * Reconciliation endpoints are not in the OpenAPI spec yet, so they are called
+ * through the generated client by hand to share its base URL and auth. The
+ * MSW handlers in `src/__mocks__/handlers/reconciliations.ts` mirror them.
+ * The server refuses to update or delete a locked transaction.
+ */
+
+const SECURITY = [
+  {
+    scheme: 'bearer',
+    type: 'http'
+  } as const
+]
+
+/** Latest reconciliation of each household account. */
+export async function listHouseholdReconciliations(
+  householdId: string
+): Promise<AccountReconciliation[]> {
+  const { data } = await client.get<
+    {
+      200: {
+        data: AccountReconciliation[]
+      }
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/households/{householdId}/reconciliations',
+    path: {
+      householdId
+    },
+    throwOnError: true
+  })
+  return data.data
+}
+
+/** Records the account as reconciled and, with `lock`, locks what was cleared. */
+export async function completeReconciliation(
+  accountId: string,
+  input: CompleteReconciliationInput
+): Promise<AccountReconciliation> {
+  const { data } = await client.post<
+    {
+      201: AccountReconciliation
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/accounts/{accountId}/reconciliations',
+    path: {
+      accountId
+    },
+    body: input,
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    throwOnError: true
+  })
+  return data
+}
+
+export async function listHouseholdTransactionLocks(
+  householdId: string
+): Promise<TransactionLock[]> {
+  const { data } = await client.get<
+    {
+      200: {
+        data: TransactionLock[]
+      }
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/households/{householdId}/transaction-locks',
+    path: {
+      householdId
+    },
+    throwOnError: true
+  })
+  return data.data
+}
+
+export async function unlockTransaction(transactionId: string): Promise<void> {
+  await client.delete<
+    {
+      204: undefined
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/transactions/{transactionId}/lock',
+    path: {
+      transactionId
+    },
+    throwOnError: true
+  })
+}
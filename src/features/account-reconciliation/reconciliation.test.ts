@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest'
+import { TransactionType } from '@/api/generated/types.gen'
+import {
+  buildBalanceAdjustmentBody,
+  buildReconciliationRows,
+  clearedBalance,
+  type ReconcileTransaction,
+  reconciliationDifference
+} from './reconciliation'
+
+function transaction(
+  id: string,
+  type: TransactionType,
+  amount: number,
+  date: string,
+  accountId = 'acc_1',
+  transferToAccountId?: string
+): ReconcileTransaction {
+  return {
+    id,
+    name: id,
+    type,
+    amount,
+    date: new Date(date),
+    account: {
+      id: accountId
+    },
+    transferToAccount: transferToAccountId
+      ? {
+          id: transferToAccountId
+        }
+      : null
+  }
+}
+
+const transactions = [
+  transaction('rent', TransactionType.EXPENSE, 8000, '2026-03-25T10:00:00'),
+  transaction('salary', TransactionType.INCOME, 25000, '2026-03-24T10:00:00'),
+  transaction(
+    'savings',
+    TransactionType.TRANSFER,
+    2000,
+    '2026-03-26T10:00:00',
+    'acc_2',
+    'acc_1'
+  ),
+  transaction(
+    'other',
+    TransactionType.EXPENSE,
+    99,
+    '2026-03-26T10:00:00',
+    'acc_2'
+  ),
+  transaction('later', TransactionType.EXPENSE, 500, '2026-04-02T10:00:00')
+]
+
+describe('buildReconciliationRows', () => {
+  it('keeps the account transactions up to the statement date with a running balance', () => {
+    const rows = buildReconciliationRows({
+      transactions,
+      accountId: 'acc_1',
+      initialBalance: 1000,
+      statementDate: new Date('2026-03-31T00:00:00')
+    })
+
+    expect(
+      rows.map((row) => [
+        row.transaction.id,
+        row.amount,
+        row.runningBalance
+      ])
+    ).toEqual([
+      [
+        'salary',
+        25000,
+        26000
+      ],
+      [
+        'rent',
+        -8000,
+        18000
+      ],
+      [
+        'savings',
+        2000,
+        20000
+      ]
+    ])
+  })
+})
+
+describe('clearedBalance', () => {
+  it('adds only ticked transactions to the opening balance', () => {
+    const rows = buildReconciliationRows({
+      transactions,
+      accountId: 'acc_1',
+      initialBalance: 1000,
+      statementDate: new Date('2026-03-31T00:00:00')
+    })
+    const cleared = clearedBalance(
+      rows,
+      1000,
+      new Set([
+        'salary',
+        'rent'
+      ])
+    )
+
+    expect(cleared).toBe(18000)
+    expect(reconciliationDifference(17950.5, cleared)).toBe(-49.5)
+  })
+})
+
+describe('buildBalanceAdjustmentBody', () => {
+  it('books a shortfall as an expense and a surplus as income', () => {
+    expect(
+      buildBalanceAdjustmentBody({
+        accountId: 'acc_1',
+        difference: -49.5,
+        name: 'Saldojustering'
+      })
+    ).toEqual({
+      type: TransactionType.EXPENSE,
+      accountId: 'acc_1',
+      name: 'Saldojustering',
+      amount: 49.5
+    })
+    expect(
+      buildBalanceAdjustmentBody({
+        accountId: 'acc_1',
+        difference: 12,
+        name: 'Saldojustering'
+      }).type
+    ).toBe(TransactionType.INCOME)
+  })
+})
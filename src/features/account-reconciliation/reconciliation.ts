@@ -0,0 +1,156 @@
+import { endOfDay } from 'date-fns'
+import {
+  type CreateTransactionRequest,
+  type Transaction,
+  TransactionType
+} from '@/api/generated/types.gen'
+
+/** The latest completed reconciliation of one account. */
+export type AccountReconciliation = {
+  accountId: string
+  /** Bank statement date, `yyyy-MM-dd`. */
+  statementDate: string
+  statementBalance: number
+  reconciledAt: string
+  /** Transactions ticked off as cleared, pre-ticked next time. */
+  clearedTransactionIds: string[]
+}
+
+export type CompleteReconciliationInput = Pick<
+  AccountReconciliation,
+  'statementDate' | 'statementBalance' | 'clearedTransactionIds'
+> & {
+  /** Locks the cleared transactions against edits and deletes. */
+  lock: boolean
+}
+
+/** A transaction locked against edits by a reconciliation. */
+export type TransactionLock = {
+  transactionId: string
+  accountId: string
+  lockedAt: string
+}
+
+export type ReconcileTransaction = Pick<
+  Transaction,
+  'id' | 'name' | 'type' | 'amount'
+> & {
+  date: Date
+  account: {
+    id: string
+  }
+  transferToAccount?: {
+    id: string
+  } | null
+}
+
+export type ReconciliationRow = {
+  transaction: ReconcileTransaction
+  /** Signed effect on the account: money in is positive. */
+  amount: number
+  /** Book balance after this transaction, in date order. */
+  runningBalance: number
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100)
+}
+
+/**
+ * What a transaction does to one account's balance. A transfer takes money
+ * out of its account and puts it into `transferToAccount`.
+ */
+export function accountSignedAmount(
+  transaction: ReconcileTransaction,
+  accountId: string
+): number {
+  if (transaction.type === TransactionType.TRANSFER) {
+    if (transaction.account.id === accountId) return -transaction.amount
+    if (transaction.transferToAccount?.id === accountId)
+      return transaction.amount
+    return 0
+  }
+  if (transaction.account.id !== accountId) return 0
+  return transaction.type === TransactionType.INCOME
+    ? transaction.amount
+    : -transaction.amount
+}
+
+/**
+ * The account's transactions up to the end of the statement date, oldest
+ * first, each with the book balance after it.
+ */
+export function buildReconciliationRows(params: {
+  transactions: ReconcileTransaction[]
+  accountId: string
+  initialBalance: number
+  statementDate: Date
+}): ReconciliationRow[] {
+  const { accountId, initialBalance } = params
+  const until = endOfDay(params.statementDate).getTime()
+  const seen = new Set<string>()
+  const transactions = params.transactions
+    .filter((transaction) => {
+      if (seen.has(transaction.id)) return false
+      seen.add(transaction.id)
+      return (
+        transaction.date.getTime() <= until &&
+        (transaction.account.id === accountId ||
+          transaction.transferToAccount?.id === accountId)
+      )
+    })
+    .sort(
+      (a, b) => a.date.getTime() - b.date.getTime() || a.id.localeCompare(b.id)
+    )
+
+  let balance = toCents(initialBalance)
+  return transactions.map((transaction) => {
+    const amount = accountSignedAmount(transaction, accountId)
+    balance += toCents(amount)
+    return {
+      transaction,
+      amount,
+      runningBalance: balance / 100
+    }
+  })
+}
+
+/** Opening balance plus every cleared transaction. */
+export function clearedBalance(
+  rows: ReconciliationRow[],
+  initialBalance: number,
+  clearedIds: ReadonlySet<string>
+): number {
+  const cents = rows.reduce(
+    (sum, row) =>
+      clearedIds.has(row.transaction.id) ? sum + toCents(row.amount) : sum,
+    toCents(initialBalance)
+  )
+  return cents / 100
+}
+
+/** Statement balance minus cleared balance; zero means reconciled. */
+export function reconciliationDifference(
+  statementBalance: number,
+  cleared: number
+): number {
+  return (toCents(statementBalance) - toCents(cleared)) / 100
+}
+
+/**
+ * Transaction that books the difference left after reconciling: income when
+ * the bank holds more than the cleared balance, an expense when it holds less.
+ */
+export function buildBalanceAdjustmentBody(params: {
+  accountId: string
+  difference: number
+  name: string
+}): Omit<CreateTransactionRequest, 'date'> {
+  return {
+    type:
+      params.difference > 0 ? TransactionType.INCOME : TransactionType.EXPENSE,
+    accountId: params.accountId,
+    name: params.name,
+    amount: Math.abs(params.difference)
+  }
+}
@@ -0,0 +1,119 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useMemo } from 'react'
+import type {
+  AccountReconciliation,
+  CompleteReconciliationInput,
+  TransactionLock
+} from './reconciliation'
+import {
+  completeReconciliation,
+  listHouseholdReconciliations,
+  listHouseholdTransactionLocks,
+  unlockTransaction
+} from './reconciliation-api'
+
+const RECONCILIATIONS_QUERY_KEY = 'reconciliations'
+
+export const reconciliationQueryKeys = {
+  all: [
+    RECONCILIATIONS_QUERY_KEY
+  ] as const,
+  household: (householdId: string) =>
+    [
+      RECONCILIATIONS_QUERY_KEY,
+      'household',
+      householdId
+    ] as const,
+  locks: (householdId: string) =>
+    [
+      RECONCILIATIONS_QUERY_KEY,
+      'locks',
+      householdId
+    ] as const
+}
+
+const EMPTY_RECONCILIATIONS: AccountReconciliation[] = []
+const EMPTY_LOCKS: TransactionLock[] = []
+
+export type UseAccountReconciliationsResult = {
+  /** Latest reconciliation per account id. */
+  accounts: Record<string, AccountReconciliation>
+  lockedTransactionIds: ReadonlySet<string>
+  isLoading: boolean
+  /** Records the account as reconciled and optionally locks what was cleared. */
+  completeReconciliation: (
+    accountId: string,
+    input: CompleteReconciliationInput
+  ) => Promise<AccountReconciliation>
+  unlockTransaction: (transactionId: string) => Promise<void>
+}
+
+/**
+ * Household reconciliations and transaction locks, shared by the reconcile
+ * page, the dashboard account list, and the transaction drawer. Both live on
+ * the server so every member and device sees the same locks.
+ */
+export function useAccountReconciliations(
+  householdId: string
+): UseAccountReconciliationsResult {
+  const queryClient = useQueryClient()
+  const { data: reconciliations = EMPTY_RECONCILIATIONS, isLoading } = useQuery(
+    {
+      queryKey: reconciliationQueryKeys.household(householdId),
+      queryFn: () => listHouseholdReconciliations(householdId),
+      enabled: !!householdId
+    }
+  )
+  const { data: locks = EMPTY_LOCKS, isLoading: locksLoading } = useQuery({
+    queryKey: reconciliationQueryKeys.locks(householdId),
+    queryFn: () => listHouseholdTransactionLocks(householdId),
+    enabled: !!householdId
+  })
+
+  const accounts = useMemo(
+    () =>
+      Object.fromEntries(
+        reconciliations.map((reconciliation) => [
+          reconciliation.accountId,
+          reconciliation
+        ])
+      ),
+    [
+      reconciliations
+    ]
+  )
+  const lockedTransactionIds = useMemo(
+    () => new Set(locks.map((lock) => lock.transactionId)),
+    [
+      locks
+    ]
+  )
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({
+      queryKey: reconciliationQueryKeys.all
+    })
+  const { mutateAsync: complete } = useMutation({
+    mutationFn: (variables: {
+      accountId: string
+      input: CompleteReconciliationInput
+    }) => completeReconciliation(variables.accountId, variables.input),
+    onSuccess: invalidate
+  })
+  const { mutateAsync: unlock } = useMutation({
+    mutationFn: unlockTransaction,
+    onSuccess: invalidate
+  })
+
+  return {
+    accounts,
+    lockedTransactionIds,
+    isLoading: isLoading || locksLoading,
+    completeReconciliation: (accountId, input) =>
+      complete({
+        accountId,
+        input
+      }),
+    unlockTransaction: unlock
+  }
+}
@@ -0,0 +1,56 @@
+import { useCallback } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { useAccountReconciliations } from './use-account-reconciliations'
+
+export type UseTransactionLocksResult = {
+  /** False, with a toast, when the transaction is locked by a reconciliation. */
+  ensureUnlocked: (transactionId: string) => boolean
+  /** The ids that are not locked, with a toast counting the ones skipped. */
+  skipLocked: (transactionIds: string[]) => string[]
+}
+
+/** Guards for actions that change or delete reconciled transactions. */
+export function useTransactionLocks(
+  householdId: string
+): UseTransactionLocksResult {
+  const { t } = useTranslation()
+  const { lockedTransactionIds } = useAccountReconciliations(householdId)
+
+  const ensureUnlocked = useCallback(
+    (transactionId: string) => {
+      if (!lockedTransactionIds.has(transactionId)) return true
+      toast.error(t('reconciliation.lockedTransaction'))
+      return false
+    },
+    [
+      lockedTransactionIds,
+      t
+    ]
+  )
+
+  const skipLocked = useCallback(
+    (transactionIds: string[]) => {
+      const unlocked = transactionIds.filter(
+        (id) => !lockedTransactionIds.has(id)
+      )
+      if (unlocked.length < transactionIds.length) {
+        toast.error(
+          t('reconciliation.lockedSkipped', {
+            count: transactionIds.length - unlocked.length
+          })
+        )
+      }
+      return unlocked
+    },
+    [
+      lockedTransactionIds,
+      t
+    ]
+  )
+
+  return {
+    ensureUnlocked,
+    skipLocked
+  }
+}
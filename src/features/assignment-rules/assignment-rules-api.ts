@@ -0,0 +1,108 @@
+import { client } from '@/api/generated/client.gen'
+import type { AssignmentRule } from './types'
+
+/*
+ * Assignment rule endpoints are not in the OpenAPI spec yet, so they are
+ * called through the generated client by hand to share its base URL and auth.
+ * The MSW handlers in `src/__mocks__/handlers/assignment-rules.ts` mirror them.
+ * Rules are returned in priority order (first = highest).
+ */
+
+const SECURITY = [
+  {
+    scheme: 'bearer',
+    type: 'http'
+  } as const
+]
+
+export async function listHouseholdAssignmentRules(
+  householdId: string
+): Promise<AssignmentRule[]> {
+  const { data } = await client.get<
+    {
+      200: AssignmentRule[]
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/households/{householdId}/assignment-rules',
+    path: {
+      householdId
+    },
+    throwOnError: true
+  })
+  return data
+}
+
+/** Replaces every rule of the household; the list order is the new priority. */
+export async function replaceHouseholdAssignmentRules(
+  householdId: string,
+  rules: AssignmentRule[]
+): Promise<AssignmentRule[]> {
+  const { data } = await client.put<
+    {
+      200: AssignmentRule[]
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/households/{householdId}/assignment-rules',
+    path: {
+      householdId
+    },
+    body: {
+      rules
+    },
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    throwOnError: true
+  })
+  return data
+}
+
+/** Replaces a rule by id, or appends it as the lowest priority. */
+export async function saveAssignmentRule(
+  householdId: string,
+  rule: AssignmentRule
+): Promise<AssignmentRule> {
+  const { data } = await client.put<
+    {
+      200: AssignmentRule
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/households/{householdId}/assignment-rules/{ruleId}',
+    path: {
+      householdId,
+      ruleId: rule.id
+    },
+    body: rule,
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    throwOnError: true
+  })
+  return data
+}
+
+export async function deleteAssignmentRule(ruleId: string): Promise<void> {
+  await client.delete<
+    {
+      204: undefined
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/assignment-rules/{ruleId}',
+    path: {
+      ruleId
+    },
+    throwOnError: true
+  })
+}
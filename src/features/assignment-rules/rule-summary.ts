@@ -0,0 +1,143 @@
+import type { TFunction } from 'i18next'
+
+import { TransactionType } from '@/api/generated/types.gen'
+import { formatCurrency } from '@/lib/utils'
+
+import type {
+  AssignmentRuleActions,
+  AssignmentRuleConditions,
+  ResolvedAssignmentRuleActions
+} from './types'
+
+export type AssignmentRuleLookupItem = {
+  id: string
+  name: string
+}
+
+export type AssignmentRuleLookups = {
+  accounts: AssignmentRuleLookupItem[]
+  recipients: AssignmentRuleLookupItem[]
+  incomeSources: AssignmentRuleLookupItem[]
+  categories: AssignmentRuleLookupItem[]
+  budgets: AssignmentRuleLookupItem[]
+}
+
+function nameOf(items: AssignmentRuleLookupItem[], id: string): string {
+  return items.find((item) => item.id === id)?.name ?? id
+}
+
+export function transactionTypeLabel(t: TFunction, type: TransactionType) {
+  switch (type) {
+    case TransactionType.INCOME:
+      return t('transactions.income')
+    case TransactionType.TRANSFER:
+      return t('common.transfer')
+    default:
+      return t('transactions.expense')
+  }
+}
+
+/** Short human-readable condition parts, e.g. `innehåller "willys"`. */
+export function describeAssignmentRuleConditions(
+  conditions: AssignmentRuleConditions,
+  lookups: AssignmentRuleLookups,
+  t: TFunction
+): string[] {
+  const parts: string[] = []
+  const contains = conditions.descriptionContains.trim()
+  if (contains) {
+    parts.push(
+      t('assignmentRules.summary.contains', {
+        value: contains
+      })
+    )
+  }
+  if (conditions.descriptionPattern) {
+    parts.push(
+      t('assignmentRules.summary.pattern', {
+        value: conditions.descriptionPattern
+      })
+    )
+  }
+  if (conditions.minAmount != null) {
+    parts.push(
+      t('assignmentRules.summary.minAmount', {
+        amount: formatCurrency(conditions.minAmount)
+      })
+    )
+  }
+  if (conditions.maxAmount != null) {
+    parts.push(
+      t('assignmentRules.summary.maxAmount', {
+        amount: formatCurrency(conditions.maxAmount)
+      })
+    )
+  }
+  if (conditions.sign === 'in') parts.push(t('assignmentRules.summary.signIn'))
+  if (conditions.sign === 'out')
+    parts.push(t('assignmentRules.summary.signOut'))
+  if (conditions.originAccountId) {
+    parts.push(
+      t('assignmentRules.summary.account', {
+        name: nameOf(lookups.accounts, conditions.originAccountId)
+      })
+    )
+  }
+  return parts
+}
+
+/**
+ * Short human-readable action parts. Accepts both stored rule actions and
+ * resolved actions (used by the rule preview).
+ */
+export function describeAssignmentRuleActions(
+  actions: Partial<AssignmentRuleActions> | ResolvedAssignmentRuleActions,
+  lookups: AssignmentRuleLookups,
+  t: TFunction
+): string[] {
+  const parts: string[] = []
+  if (actions.type) {
+    parts.push(
+      t('assignmentRules.summary.type', {
+        type: transactionTypeLabel(t, actions.type)
+      })
+    )
+  }
+  if (actions.recipientId) {
+    parts.push(
+      t('assignmentRules.summary.recipient', {
+        name: nameOf(lookups.recipients, actions.recipientId)
+      })
+    )
+  }
+  if (actions.incomeSourceId) {
+    parts.push(
+      t('assignmentRules.summary.incomeSource', {
+        name: nameOf(lookups.incomeSources, actions.incomeSourceId)
+      })
+    )
+  }
+  if (actions.splits?.length) {
+    parts.push(
+      t('assignmentRules.summary.splits', {
+        count: actions.splits.length
+      })
+    )
+    return parts
+  }
+  if (actions.categoryId) {
+    parts.push(
+      t('assignmentRules.summary.category', {
+        name: nameOf(lookups.categories, actions.categoryId)
+      })
+    )
+  }
+  if (actions.budgetId) {
+    parts.push(
+      t('assignmentRules.summary.budget', {
+        name: nameOf(lookups.budgets, actions.budgetId)
+      })
+    )
+  }
+  return parts
+}
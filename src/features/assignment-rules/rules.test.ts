@@ -0,0 +1,216 @@
+import { describe, expect, it } from 'vitest'
+import { TransactionType } from '@/api/generated/types.gen'
+import {
+  assignmentRuleMatches,
+  createAssignmentRule,
+  createAssignmentRuleSplit,
+  isValidRulePattern,
+  resolveAssignmentRuleActions,
+  splitAmountByPercentages
+} from './rules'
+import type { AssignmentRuleInput } from './types'
+
+const input: AssignmentRuleInput = {
+  description: 'KORTKÖP WILLYS GÖTEBORG',
+  signedAmount: -412.5,
+  originAccountId: 'account'
+}
+
+describe('assignmentRuleMatches', () => {
+  it('matches description substrings without case or diacritics', () => {
+    const rule = createAssignmentRule({
+      conditions: {
+        descriptionContains: 'kortkop willys'
+      }
+    })
+
+    expect(assignmentRuleMatches(rule, input)).toBe(true)
+  })
+
+  it('requires every condition to hold', () => {
+    const rule = createAssignmentRule({
+      conditions: {
+        descriptionPattern: '^kortköp',
+        minAmount: 100,
+        maxAmount: 400,
+        sign: 'out',
+        originAccountId: 'account'
+      }
+    })
+
+    expect(assignmentRuleMatches(rule, input)).toBe(false)
+    expect(
+      assignmentRuleMatches(rule, {
+        ...input,
+        signedAmount: -399
+      })
+    ).toBe(true)
+    expect(
+      assignmentRuleMatches(rule, {
+        ...input,
+        signedAmount: 399
+      })
+    ).toBe(false)
+    expect(
+      assignmentRuleMatches(rule, {
+        ...input,
+        signedAmount: -399,
+        originAccountId: 'other'
+      })
+    ).toBe(false)
+  })
+
+  it('never matches disabled rules, rules without conditions, or invalid patterns', () => {
+    expect(
+      assignmentRuleMatches(
+        createAssignmentRule({
+          enabled: false,
+          conditions: {
+            descriptionContains: 'willys'
+          }
+        }),
+        input
+      )
+    ).toBe(false)
+    expect(assignmentRuleMatches(createAssignmentRule(), input)).toBe(false)
+    expect(
+      assignmentRuleMatches(
+        createAssignmentRule({
+          conditions: {
+            descriptionPattern: '(willys'
+          }
+        }),
+        input
+      )
+    ).toBe(false)
+    expect(isValidRulePattern('(willys')).toBe(false)
+  })
+})
+
+describe('resolveAssignmentRuleActions', () => {
+  it('lets the highest-priority rule win per field', () => {
+    const resolved = resolveAssignmentRuleActions(
+      [
+        createAssignmentRule({
+          id: 'specific',
+          conditions: {
+            descriptionContains: 'willys'
+          },
+          actions: {
+            recipientId: 'willys',
+            categoryId: 'groceries'
+          }
+        }),
+        createAssignmentRule({
+          id: 'card',
+          conditions: {
+            descriptionContains: 'kortköp'
+          },
+          actions: {
+            type: TransactionType.EXPENSE,
+            recipientId: 'other',
+            budgetId: 'food'
+          }
+        })
+      ],
+      input
+    )
+
+    expect(resolved).toEqual({
+      matchedRuleIds: [
+        'specific',
+        'card'
+      ],
+      type: TransactionType.EXPENSE,
+      recipientId: 'willys',
+      categoryId: 'groceries',
+      budgetId: 'food'
+    })
+  })
+
+  it('resolves split amounts and skips budget/category from lower rules', () => {
+    const resolved = resolveAssignmentRuleActions(
+      [
+        createAssignmentRule({
+          conditions: {
+            descriptionContains: 'willys'
+          },
+          actions: {
+            splits: [
+              createAssignmentRuleSplit({
+                subtitle: 'Mat',
+                categoryId: 'groceries',
+                budgetId: 'food',
+                percentage: 70
+              }),
+              createAssignmentRuleSplit({
+                subtitle: 'Hushåll',
+                categoryId: 'household',
+                budgetId: 'home',
+                percentage: 30
+              })
+            ]
+          }
+        }),
+        createAssignmentRule({
+          conditions: {
+            sign: 'out'
+          },
+          actions: {
+            budgetId: 'misc'
+          }
+        })
+      ],
+      input
+    )
+
+    expect(resolved.budgetId).toBeUndefined()
+    expect(resolved.splits).toEqual([
+      {
+        subtitle: 'Mat',
+        categoryId: 'groceries',
+        budgetId: 'food',
+        amount: 288.75
+      },
+      {
+        subtitle: 'Hushåll',
+        categoryId: 'household',
+        budgetId: 'home',
+        amount: 123.75
+      }
+    ])
+  })
+})
+
+describe('splitAmountByPercentages', () => {
+  it('gives the rounding remainder to the last line', () => {
+    expect(
+      splitAmountByPercentages(
+        100,
+        [
+          33.33,
+          33.33,
+          33.34
+        ]
+      )
+    ).toEqual([
+      33.33,
+      33.33,
+      33.34
+    ])
+    expect(
+      splitAmountByPercentages(
+        10,
+        [
+          33,
+          33,
+          34
+        ]
+      )
+    ).toEqual([
+      3.3,
+      3.3,
+      3.4
+    ])
+  })
+})
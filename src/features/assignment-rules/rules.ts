@@ -0,0 +1,202 @@
+import { createId } from '@/lib/create-id'
+import type {
+  AssignmentRule,
+  AssignmentRuleInput,
+  AssignmentRuleSplit,
+  ResolvedAssignmentRuleActions
+} from './types'
+
+export function createAssignmentRuleSplit(
+  overrides: Partial<AssignmentRuleSplit> = {}
+): AssignmentRuleSplit {
+  return {
+    id: createId('split'),
+    subtitle: '',
+    categoryId: '',
+    budgetId: '',
+    percentage: 0,
+    ...overrides
+  }
+}
+
+export type AssignmentRuleOverrides = Partial<
+  Omit<AssignmentRule, 'conditions' | 'actions'>
+> & {
+  conditions?: Partial<AssignmentRule['conditions']>
+  actions?: Partial<AssignmentRule['actions']>
+}
+
+/**
+ * New rule with empty conditions and actions. Also used to fill defaults for
+ * partially stored rules.
+ */
+export function createAssignmentRule(
+  overrides: AssignmentRuleOverrides = {}
+): AssignmentRule {
+  return {
+    id: createId('rule'),
+    name: '',
+    enabled: true,
+    ...overrides,
+    conditions: {
+      descriptionContains: '',
+      descriptionPattern: '',
+      minAmount: null,
+      maxAmount: null,
+      sign: 'any',
+      originAccountId: '',
+      ...overrides.conditions
+    },
+    actions: {
+      type: null,
+      recipientId: '',
+      incomeSourceId: '',
+      categoryId: '',
+      budgetId: '',
+      splits: [],
+      ...overrides.actions
+    }
+  }
+}
+
+/** Case- and diacritic-folded text, as used by `descriptionContains`. */
+export function normalizeRuleText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/\p{Diacritic}/gu, '')
+    .toLocaleLowerCase('sv-SE')
+}
+
+/** Null when the pattern is not a valid regular expression. */
+export function compileRulePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i')
+  } catch {
+    return null
+  }
+}
+
+export function isValidRulePattern(pattern: string): boolean {
+  return !pattern || compileRulePattern(pattern) !== null
+}
+
+/** A rule without any condition never matches, so it cannot catch every row. */
+export function hasAssignmentRuleConditions(rule: AssignmentRule): boolean {
+  const { conditions } = rule
+  return Boolean(
+    conditions.descriptionContains.trim() ||
+      conditions.descriptionPattern ||
+      conditions.minAmount != null ||
+      conditions.maxAmount != null ||
+      conditions.sign !== 'any' ||
+      conditions.originAccountId
+  )
+}
+
+export function assignmentRuleMatches(
+  rule: AssignmentRule,
+  input: AssignmentRuleInput
+): boolean {
+  if (!rule.enabled || !hasAssignmentRuleConditions(rule)) return false
+
+  const { conditions } = rule
+  const contains = conditions.descriptionContains.trim()
+  if (
+    contains &&
+    !normalizeRuleText(input.description).includes(normalizeRuleText(contains))
+  ) {
+    return false
+  }
+  if (conditions.descriptionPattern) {
+    const pattern = compileRulePattern(conditions.descriptionPattern)
+    if (!pattern?.test(input.description)) return false
+  }
+
+  const amount = Math.abs(input.signedAmount)
+  if (conditions.minAmount != null && amount < conditions.minAmount)
+    return false
+  if (conditions.maxAmount != null && amount > conditions.maxAmount)
+    return false
+  if (conditions.sign === 'in' && input.signedAmount <= 0) return false
+  if (conditions.sign === 'out' && input.signedAmount >= 0) return false
+
+  return (
+    !conditions.originAccountId ||
+    conditions.originAccountId === input.originAccountId
+  )
+}
+
+export function findMatchingAssignmentRules(
+  rules: AssignmentRule[],
+  input: AssignmentRuleInput
+): AssignmentRule[] {
+  return rules.filter((rule) => assignmentRuleMatches(rule, input))
+}
+
+/**
+ * Splits `amount` by percentages, rounded to öre. The last line takes the
+ * rounding remainder so lines always sum to `amount`.
+ */
+export function splitAmountByPercentages(
+  amount: number,
+  percentages: number[]
+): number[] {
+  const cents = Math.round(amount * 100)
+  let assigned = 0
+  return percentages.map((percentage, index) => {
+    const lineCents =
+      index === percentages.length - 1
+        ? cents - assigned
+        : Math.round((cents * percentage) / 100)
+    assigned += lineCents
+    return lineCents / 100
+  })
+}
+
+/**
+ * Merges the actions of all matching rules in priority order: the first rule
+ * that sets a field wins. Splits and a single budget/category are mutually
+ * exclusive (as in the transaction API), so whichever comes first wins.
+ */
+export function resolveAssignmentRuleActions(
+  rules: AssignmentRule[],
+  input: AssignmentRuleInput
+): ResolvedAssignmentRuleActions {
+  const resolved: ResolvedAssignmentRuleActions = {
+    matchedRuleIds: []
+  }
+
+  for (const rule of findMatchingAssignmentRules(rules, input)) {
+    const { actions } = rule
+    resolved.matchedRuleIds.push(rule.id)
+
+    if (actions.type && !resolved.type) resolved.type = actions.type
+    if (actions.recipientId && !resolved.recipientId)
+      resolved.recipientId = actions.recipientId
+    if (actions.incomeSourceId && !resolved.incomeSourceId)
+      resolved.incomeSourceId = actions.incomeSourceId
+
+    if (actions.splits.length > 0) {
+      if (resolved.splits || resolved.budgetId || resolved.categoryId) continue
+      const amounts = splitAmountByPercentages(
+        Math.abs(input.signedAmount),
+        actions.splits.map((split) => split.percentage)
+      )
+      resolved.splits = actions.splits.map((split, index) => ({
+        subtitle: split.subtitle,
+        categoryId: split.categoryId,
+        budgetId: split.budgetId,
+        amount: amounts[index]
+      }))
+      continue
+    }
+
+    if (resolved.splits) continue
+    if (actions.categoryId && !resolved.categoryId)
+      resolved.categoryId = actions.categoryId
+    if (actions.budgetId && !resolved.budgetId)
+      resolved.budgetId = actions.budgetId
+  }
+
+  return resolved
+}
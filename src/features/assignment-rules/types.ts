@@ -0,0 +1,74 @@
+import type { TransactionType } from '@/api/generated/types.gen'
+
+/** `in` = money into the origin account, `out` = money out of it. */
+export type AssignmentRuleSign = 'any' | 'in' | 'out'
+
+/**
+ * Every non-empty condition must hold for a rule to match. Empty strings and
+ * null bounds mean "any".
+ */
+export type AssignmentRuleConditions = {
+  /** Case- and diacritic-insensitive substring of the description. */
+  descriptionContains: string
+  /** Case-insensitive regular expression source tested against the description. */
+  descriptionPattern: string
+  /** Inclusive bounds on the absolute amount. */
+  minAmount: number | null
+  maxAmount: number | null
+  sign: AssignmentRuleSign
+  originAccountId: string
+}
+
+/** Split line template; `percentage` of the transaction amount (0–100). */
+export type AssignmentRuleSplit = {
+  id: string
+  subtitle: string
+  categoryId: string
+  budgetId: string
+  percentage: number
+}
+
+/** Empty strings, null type, and no splits leave the field untouched. */
+export type AssignmentRuleActions = {
+  type: TransactionType | null
+  recipientId: string
+  incomeSourceId: string
+  categoryId: string
+  budgetId: string
+  splits: AssignmentRuleSplit[]
+}
+
+/**
+ * Household-scoped auto-assignment rule. Rules are evaluated in list order
+ * (first = highest priority).
+ */
+export type AssignmentRule = {
+  id: string
+  name: string
+  enabled: boolean
+  conditions: AssignmentRuleConditions
+  actions: AssignmentRuleActions
+}
+
+export type AssignmentRuleInput = {
+  description: string
+  /** Negative = money out of the origin account. */
+  signedAmount: number
+  originAccountId: string
+}
+
+/** Merged result of every matching rule, with split amounts resolved. */
+export type ResolvedAssignmentRuleActions = {
+  type?: TransactionType
+  recipientId?: string
+  incomeSourceId?: string
+  categoryId?: string
+  budgetId?: string
+  splits?: Array<{
+    subtitle: string
+    categoryId: string
+    budgetId: string
+    amount: number
+  }>
+  matchedRuleIds: string[]
+}
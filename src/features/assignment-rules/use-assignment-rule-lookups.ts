@@ -0,0 +1,94 @@
+import { useMemo } from 'react'
+
+import {
+  useAccountsList,
+  useBudgetsList,
+  useCategoriesList,
+  useIncomeSourcesList,
+  useRecipientsList
+} from '@/hooks/api'
+
+import type { AssignmentRuleLookups } from './rule-summary'
+
+function toLookup(
+  items: Array<{
+    id: string
+    name: string
+  }>
+) {
+  return items.map((item) => ({
+    id: item.id,
+    name: item.name
+  }))
+}
+
+/** Names for every id a rule can reference (rules page, rule drawer). */
+export function useAssignmentRuleLookups({
+  householdId,
+  userId
+}: {
+  householdId: string
+  userId: string
+}): {
+  lookups: AssignmentRuleLookups
+  isLoading: boolean
+} {
+  const enabled = !!householdId
+  const { data: accounts = [], isLoading: accountsLoading } = useAccountsList({
+    householdId,
+    userId,
+    enabled,
+    excludeArchived: true
+  })
+  const { data: recipients = [], isLoading: recipientsLoading } =
+    useRecipientsList({
+      householdId,
+      userId,
+      enabled
+    })
+  const { data: incomeSources = [], isLoading: incomeSourcesLoading } =
+    useIncomeSourcesList({
+      householdId,
+      userId,
+      includeArchived: false,
+      enabled
+    })
+  const { data: categories = [], isLoading: categoriesLoading } =
+    useCategoriesList({
+      householdId,
+      userId,
+      enabled
+    })
+  const { data: budgets = [], isLoading: budgetsLoading } = useBudgetsList({
+    householdId,
+    userId,
+    enabled
+  })
+
+  const lookups = useMemo(
+    () => ({
+      accounts: toLookup(accounts),
+      recipients: toLookup(recipients),
+      incomeSources: toLookup(incomeSources),
+      categories: toLookup(categories),
+      budgets: toLookup(budgets)
+    }),
+    [
+      accounts,
+      recipients,
+      incomeSources,
+      categories,
+      budgets
+    ]
+  )
+
+  return {
+    lookups,
+    isLoading:
+      accountsLoading ||
+      recipientsLoading ||
+      incomeSourcesLoading ||
+      categoriesLoading ||
+      budgetsLoading
+  }
+}
@@ -0,0 +1,135 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useCallback } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { getErrorMessage } from '@/lib/api-error'
+import {
+  deleteAssignmentRule,
+  listHouseholdAssignmentRules,
+  replaceHouseholdAssignmentRules,
+  saveAssignmentRule
+} from './assignment-rules-api'
+import type { AssignmentRule } from './types'
+
+const ASSIGNMENT_RULES_QUERY_KEY = 'assignment-rules'
+
+export const assignmentRuleQueryKeys = {
+  all: [
+    ASSIGNMENT_RULES_QUERY_KEY
+  ] as const,
+  household: (householdId: string) =>
+    [
+      ASSIGNMENT_RULES_QUERY_KEY,
+      'household',
+      householdId
+    ] as const
+}
+
+const EMPTY_RULES: AssignmentRule[] = []
+
+export type UseAssignmentRulesResult = {
+  rules: AssignmentRule[]
+  isLoading: boolean
+  /** Replaces a rule by id, or appends it as the lowest priority. */
+  saveRule: (rule: AssignmentRule) => Promise<void>
+  deleteRule: (ruleId: string) => Promise<void>
+  /** Moves a rule one step up (-1, higher priority) or down (1). */
+  moveRule: (ruleId: string, offset: -1 | 1) => void
+  /** Saves the list `update` derives from the latest loaded rules. */
+  updateRules: (
+    update: (rules: AssignmentRule[]) => AssignmentRule[]
+  ) => Promise<void>
+}
+
+/**
+ * Household auto-assignment rules in priority order, shared by the management
+ * page, rule drawer, and import page.
+ */
+export function useAssignmentRules(
+  householdId: string
+): UseAssignmentRulesResult {
+  const { t } = useTranslation()
+  const queryClient = useQueryClient()
+  const queryKey = assignmentRuleQueryKeys.household(householdId)
+  const { data: rules = EMPTY_RULES, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => listHouseholdAssignmentRules(householdId),
+    enabled: !!householdId
+  })
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({
+      queryKey: assignmentRuleQueryKeys.all
+    })
+  const current = useCallback(
+    () => queryClient.getQueryData<AssignmentRule[]>(queryKey) ?? EMPTY_RULES,
+    [
+      queryClient,
+      queryKey
+    ]
+  )
+
+  const { mutateAsync: saveRule } = useMutation({
+    mutationFn: async (rule: AssignmentRule) => {
+      await saveAssignmentRule(householdId, rule)
+    },
+    onSuccess: invalidate
+  })
+  const { mutateAsync: deleteRule } = useMutation({
+    mutationFn: deleteAssignmentRule,
+    onSuccess: invalidate
+  })
+  const { mutate: reorder, mutateAsync: replaceRules } = useMutation({
+    mutationFn: async (next: AssignmentRule[]) => {
+      await replaceHouseholdAssignmentRules(householdId, next)
+    },
+    onMutate: (next) => {
+      queryClient.setQueryData(queryKey, next)
+    },
+    onSettled: invalidate
+  })
+
+  const moveRule = useCallback(
+    (ruleId: string, offset: -1 | 1) => {
+      const next = [
+        ...current()
+      ]
+      const index = next.findIndex((item) => item.id === ruleId)
+      const target = index + offset
+      if (index < 0 || target < 0 || target >= next.length) return
+      const [rule] = next.splice(index, 1)
+      next.splice(target, 0, rule)
+      reorder(next, {
+        onError: (error) =>
+          toast.error(
+            t('assignmentRules.saveFailed', {
+              message: getErrorMessage(error)
+            })
+          )
+      })
+    },
+    [
+      current,
+      reorder,
+      t
+    ]
+  )
+
+  const updateRules = useCallback(
+    (update: (rules: AssignmentRule[]) => AssignmentRule[]) =>
+      replaceRules(update(current())),
+    [
+      current,
+      replaceRules
+    ]
+  )
+
+  return {
+    rules,
+    isLoading,
+    saveRule,
+    deleteRule,
+    moveRule,
+    updateRules
+  }
+}
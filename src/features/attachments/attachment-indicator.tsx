@@ -0,0 +1,25 @@
+import { Paperclip } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+
+/** Paperclip with the number of attached files; nothing when there are none. */
+export function AttachmentIndicator({ count }: { count: number }) {
+  const { t } = useTranslation()
+  if (count === 0) return null
+
+  const label = t('attachments.count', {
+    count
+  })
+  return (
+    <span
+      className="type-label inline-flex items-center gap-1 text-gray-700"
+      title={label}
+    >
+      <Paperclip
+        className="size-4"
+        aria-hidden
+      />
+      <span aria-hidden>{count}</span>
+      <span className="sr-only">{label}</span>
+    </span>
+  )
+}
@@ -0,0 +1,126 @@
+import { formDataBodySerializer } from '@/api/generated/client'
+import { client } from '@/api/generated/client.gen'
+import type { Attachment, AttachmentOwner } from './attachments'
+
+/*
+ * Attachment endpoints are not in the OpenAPI spec yet, so they are called
+ * through the generated client by hand to share its base URL and auth. The
+ * MSW handlers in `src/__mocks__/handlers/attachments.ts` mirror them.
+ */
+
+const SECURITY = [
+  {
+    scheme: 'bearer',
+    type: 'http'
+  } as const
+]
+
+type AttachmentListResponse = {
+  data: Attachment[]
+}
+
+function ownerUrl(owner: AttachmentOwner): string {
+  const base =
+    owner.type === 'TRANSACTION' ? '/transactions' : '/bill-instances'
+  return `${base}/${encodeURIComponent(owner.id)}/attachments`
+}
+
+/** Metadata for every attachment in the household, for table indicators. */
+export async function listHouseholdAttachments(
+  householdId: string
+): Promise<Attachment[]> {
+  const { data } = await client.get<
+    {
+      200: AttachmentListResponse
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/households/{householdId}/attachments',
+    path: {
+      householdId
+    },
+    throwOnError: true
+  })
+  return data.data
+}
+
+export async function listOwnerAttachments(
+  owner: AttachmentOwner
+): Promise<Attachment[]> {
+  const { data } = await client.get<
+    {
+      200: AttachmentListResponse
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: ownerUrl(owner),
+    throwOnError: true
+  })
+  return data.data
+}
+
+export async function uploadAttachment(
+  owner: AttachmentOwner,
+  file: File
+): Promise<Attachment> {
+  const { data } = await client.post<
+    {
+      201: Attachment
+    },
+    unknown,
+    true
+  >({
+    ...formDataBodySerializer,
+    security: SECURITY,
+    url: ownerUrl(owner),
+    body: {
+      file
+    },
+    // Let the browser set the multipart boundary.
+    headers: {
+      'Content-Type': null
+    },
+    throwOnError: true
+  })
+  return data
+}
+
+export async function downloadAttachment(attachmentId: string): Promise<Blob> {
+  const { data } = await client.get<
+    {
+      200: Blob
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/attachments/{attachmentId}/content',
+    path: {
+      attachmentId
+    },
+    parseAs: 'blob',
+    throwOnError: true
+  })
+  return data
+}
+
+export async function deleteAttachment(attachmentId: string): Promise<void> {
+  await client.delete<
+    {
+      204: undefined
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/attachments/{attachmentId}',
+    path: {
+      attachmentId
+    },
+    throwOnError: true
+  })
+}
@@ -0,0 +1,239 @@
+import { Camera, FileText, Paperclip, TrashIcon } from 'lucide-react'
+import { type ChangeEvent, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/button/button'
+import { IconButton } from '@/components/icon-button/icon-button'
+import { AttachmentViewerDialog } from '@/dialogs/attachments/attachment-viewer-dialog'
+import { useConfirmDialog } from '@/hooks/use-confirm-dialog'
+import { useIsMobile } from '@/hooks/use-mobile'
+import { getErrorMessage } from '@/lib/api-error'
+import {
+  ATTACHMENT_ACCEPT,
+  type Attachment,
+  type AttachmentOwner,
+  attachmentFileError,
+  attachmentKind,
+  formatFileSize,
+  MAX_ATTACHMENT_BYTES
+} from './attachments'
+import {
+  useAttachmentObjectUrl,
+  useDeleteAttachment,
+  useOwnerAttachments,
+  useUploadAttachment
+} from './use-attachments'
+
+function AttachmentThumbnail({ attachment }: { attachment: Attachment }) {
+  const isImage = attachmentKind(attachment.contentType) === 'image'
+  const preview = useAttachmentObjectUrl(isImage ? attachment.id : null)
+
+  if (preview?.kind === 'image') {
+    return (
+      <img
+        src={preview.url}
+        alt=""
+        className="h-full w-full object-cover"
+      />
+    )
+  }
+  return (
+    <FileText
+      className="size-8 stroke-[1.5] text-gray-600"
+      aria-hidden
+    />
+  )
+}
+
+type AttachmentsSectionProps = {
+  owner: AttachmentOwner
+}
+
+/**
+ * Receipts and invoices kept with a transaction or bill instance: upload
+ * from files or, on mobile, the camera, with thumbnails and a viewer.
+ */
+export function AttachmentsSection({ owner }: AttachmentsSectionProps) {
+  const { t } = useTranslation()
+  const isMobile = useIsMobile()
+  const { confirm, confirmDialog } = useConfirmDialog()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const cameraInputRef = useRef<HTMLInputElement>(null)
+  const [viewedId, setViewedId] = useState<string | null>(null)
+  const [uploadingCount, setUploadingCount] = useState(0)
+
+  const { data: attachments = [], isPending } = useOwnerAttachments(owner)
+  const { mutateAsync: uploadAsync } = useUploadAttachment()
+  const { mutate: deleteAttachment, isPending: isDeleting } =
+    useDeleteAttachment({
+      onSuccess: () => toast.success(t('attachments.deleteSuccess')),
+      onError: (error) => toast.error(getErrorMessage(error))
+    })
+
+  const uploadFiles = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    // Clear the input so picking the same file again still triggers a change.
+    event.target.value = ''
+    const accepted = files.filter((file) => {
+      const error = attachmentFileError(file)
+      if (!error) return true
+      toast.error(
+        t(`attachments.errors.${error}`, {
+          name: file.name,
+          max: formatFileSize(MAX_ATTACHMENT_BYTES)
+        })
+      )
+      return false
+    })
+    if (accepted.length === 0) return
+
+    setUploadingCount((count) => count + accepted.length)
+    let uploaded = 0
+    for (const file of accepted) {
+      try {
+        await uploadAsync({
+          owner,
+          file
+        })
+        uploaded += 1
+      } catch (error) {
+        toast.error(getErrorMessage(error))
+      } finally {
+        setUploadingCount((count) => count - 1)
+      }
+    }
+    if (uploaded > 0) {
+      toast.success(
+        t('attachments.uploadSuccess', {
+          count: uploaded
+        })
+      )
+    }
+  }
+
+  const removeAttachment = async (attachment: Attachment) => {
+    const confirmed = await confirm({
+      title: t('attachments.deleteTitle'),
+      description: t('attachments.deleteConfirm', {
+        name: attachment.fileName
+      }),
+      confirmText: t('common.delete')
+    })
+    if (confirmed) deleteAttachment(attachment)
+  }
+
+  return (
+    <section className="flex flex-col gap-3 border-gray-200 border-t pt-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="type-body-strong text-gray-950">
+          {t('attachments.title')}
+        </h3>
+        <div className="flex flex-wrap gap-2">
+          {isMobile ? (
+            <Button
+              type="button"
+              variant="outlined"
+              color="subtle"
+              icon={<Camera aria-hidden />}
+              label={t('attachments.takePhoto')}
+              onClick={() => cameraInputRef.current?.click()}
+            />
+          ) : null}
+          <Button
+            type="button"
+            variant="outlined"
+            color="subtle"
+            icon={<Paperclip aria-hidden />}
+            label={t('attachments.addFile')}
+            onClick={() => fileInputRef.current?.click()}
+          />
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ATTACHMENT_ACCEPT}
+          multiple
+          className="hidden"
+          onChange={(event) => void uploadFiles(event)}
+        />
+        <input
+          ref={cameraInputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          className="hidden"
+          onChange={(event) => void uploadFiles(event)}
+        />
+      </div>
+
+      {uploadingCount > 0 ? (
+        <p className="type-label text-gray-600">
+          {t('attachments.uploading', {
+            count: uploadingCount
+          })}
+        </p>
+      ) : null}
+
+      {isPending ? (
+        <p className="type-body-medium text-gray-600">{t('common.loading')}</p>
+      ) : attachments.length === 0 ? (
+        <p className="type-body-medium text-gray-600">
+          {t('attachments.empty')}
+        </p>
+      ) : (
+        <ul className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+          {attachments.map((attachment) => (
+            <li
+              key={attachment.id}
+              className="flex min-w-0 flex-col gap-1"
+            >
+              <button
+                type="button"
+                className="flex aspect-square items-center justify-center overflow-hidden rounded-md border border-gray-200 bg-gray-50 hover:border-gray-400"
+                aria-label={t('attachments.open', {
+                  name: attachment.fileName
+                })}
+                onClick={() => setViewedId(attachment.id)}
+              >
+                <AttachmentThumbnail attachment={attachment} />
+              </button>
+              <div className="flex min-w-0 items-center gap-1">
+                <div className="flex min-w-0 flex-1 flex-col">
+                  <span
+                    className="type-label truncate text-gray-950"
+                    title={attachment.fileName}
+                  >
+                    {attachment.fileName}
+                  </span>
+                  <span className="type-label text-gray-600">
+                    {formatFileSize(attachment.size)}
+                  </span>
+                </div>
+                <IconButton
+                  type="button"
+                  variant="text"
+                  color="destructive"
+                  icon={<TrashIcon />}
+                  aria-label={t('attachments.delete', {
+                    name: attachment.fileName
+                  })}
+                  title={t('common.delete')}
+                  disabled={isDeleting}
+                  onClick={() => void removeAttachment(attachment)}
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <AttachmentViewerDialog
+        attachments={attachments}
+        attachmentId={viewedId}
+        onAttachmentIdChange={setViewedId}
+      />
+      {confirmDialog}
+    </section>
+  )
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import {
+  type Attachment,
+  attachmentCountsByOwner,
+  attachmentFileError,
+  formatFileSize,
+  MAX_ATTACHMENT_BYTES
+} from './attachments'
+
+function attachment(
+  id: string,
+  ownerType: Attachment['ownerType'],
+  ownerId: string
+): Attachment {
+  return {
+    id,
+    ownerType,
+    ownerId,
+    fileName: `${id}.jpg`,
+    contentType: 'image/jpeg',
+    size: 1000,
+    createdAt: '2026-10-01T08:00:00.000Z'
+  }
+}
+
+describe('attachmentFileError', () => {
+  it('accepts images and PDFs', () => {
+    expect(
+      attachmentFileError({
+        type: 'image/heic',
+        size: 2000
+      })
+    ).toBeNull()
+    expect(
+      attachmentFileError({
+        type: 'application/pdf',
+        size: 2000
+      })
+    ).toBeNull()
+  })
+
+  it('rejects other types, empty files and files over the limit', () => {
+    expect(
+      attachmentFileError({
+        type: 'text/plain',
+        size: 2000
+      })
+    ).toBe('unsupportedType')
+    expect(
+      attachmentFileError({
+        type: 'image/png',
+        size: 0
+      })
+    ).toBe('empty')
+    expect(
+      attachmentFileError({
+        type: 'image/png',
+        size: MAX_ATTACHMENT_BYTES + 1
+      })
+    ).toBe('tooLarge')
+  })
+})
+
+describe('attachmentCountsByOwner', () => {
+  it('counts attachments per owner of the given type', () => {
+    const counts = attachmentCountsByOwner(
+      [
+        attachment('a', 'TRANSACTION', 'tx1'),
+        attachment('b', 'TRANSACTION', 'tx1'),
+        attachment('c', 'TRANSACTION', 'tx2'),
+        attachment('d', 'BILL_INSTANCE', 'tx1')
+      ],
+      'TRANSACTION'
+    )
+    expect(Object.fromEntries(counts)).toEqual({
+      tx1: 2,
+      tx2: 1
+    })
+  })
+})
+
+describe('formatFileSize', () => {
+  it('uses the largest fitting unit with a Swedish decimal comma', () => {
+    expect(formatFileSize(512)).toBe('512 B')
+    expect(formatFileSize(1536)).toBe('1,5 kB')
+    expect(formatFileSize(3 * 1024 * 1024)).toBe('3 MB')
+  })
+})
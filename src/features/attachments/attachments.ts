@@ -0,0 +1,78 @@
+export type AttachmentOwnerType = 'TRANSACTION' | 'BILL_INSTANCE'
+
+/** The transaction or bill instance a file is kept with. */
+export type AttachmentOwner = {
+  type: AttachmentOwnerType
+  id: string
+}
+
+/** Metadata for an uploaded receipt or invoice; the file itself is downloaded separately. */
+export type Attachment = {
+  id: string
+  ownerType: AttachmentOwnerType
+  ownerId: string
+  fileName: string
+  contentType: string
+  /** File size in bytes. */
+  size: number
+  createdAt: string
+}
+
+export type AttachmentKind = 'image' | 'pdf'
+
+export type AttachmentFileError = 'empty' | 'unsupportedType' | 'tooLarge'
+
+/** `accept` value for file inputs: photos and scans, and PDF invoices. */
+export const ATTACHMENT_ACCEPT = 'image/*,application/pdf'
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+
+export function attachmentKind(contentType: string): AttachmentKind | null {
+  const type = contentType.toLowerCase()
+  if (type.startsWith('image/')) return 'image'
+  if (type === 'application/pdf') return 'pdf'
+  return null
+}
+
+/** Why a picked file can't be attached, or `null` when it can. */
+export function attachmentFileError(file: {
+  type: string
+  size: number
+}): AttachmentFileError | null {
+  if (file.size === 0) return 'empty'
+  if (!attachmentKind(file.type)) return 'unsupportedType'
+  if (file.size > MAX_ATTACHMENT_BYTES) return 'tooLarge'
+  return null
+}
+
+/** Number of attachments per transaction or bill instance id. */
+export function attachmentCountsByOwner(
+  attachments: Attachment[],
+  ownerType: AttachmentOwnerType
+): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const attachment of attachments) {
+    if (attachment.ownerType !== ownerType) continue
+    counts.set(attachment.ownerId, (counts.get(attachment.ownerId) ?? 0) + 1)
+  }
+  return counts
+}
+
+const FILE_SIZE_UNITS = [
+  'B',
+  'kB',
+  'MB'
+]
+
+export function formatFileSize(bytes: number): string {
+  let value = bytes
+  let unit = 0
+  while (value >= 1024 && unit < FILE_SIZE_UNITS.length - 1) {
+    value /= 1024
+    unit += 1
+  }
+  const formatted = value.toLocaleString('sv-SE', {
+    maximumFractionDigits: unit === 0 ? 0 : 1
+  })
+  return `${formatted} ${FILE_SIZE_UNITS[unit]}`
+}
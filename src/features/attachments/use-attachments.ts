@@ -0,0 +1,156 @@
+import {
+  type QueryClient,
+  useMutation,
+  useQuery,
+  useQueryClient
+} from '@tanstack/react-query'
+import { useEffect, useState } from 'react'
+import type { MutationCallbacks } from '@/hooks/api/types'
+import {
+  type Attachment,
+  type AttachmentKind,
+  type AttachmentOwner,
+  attachmentKind
+} from './attachments'
+import {
+  deleteAttachment,
+  downloadAttachment,
+  listHouseholdAttachments,
+  listOwnerAttachments,
+  uploadAttachment
+} from './attachments-api'
+
+const ATTACHMENTS_QUERY_KEY = 'attachments'
+
+export const attachmentQueryKeys = {
+  all: [
+    ATTACHMENTS_QUERY_KEY
+  ] as const,
+  household: (householdId: string) =>
+    [
+      ATTACHMENTS_QUERY_KEY,
+      'household',
+      householdId
+    ] as const,
+  owner: (owner: AttachmentOwner) =>
+    [
+      ATTACHMENTS_QUERY_KEY,
+      owner.type,
+      owner.id
+    ] as const,
+  content: (attachmentId: string) =>
+    [
+      ATTACHMENTS_QUERY_KEY,
+      'content',
+      attachmentId
+    ] as const
+}
+
+/** Refreshes attachment lists; downloaded file contents never change. */
+function invalidateAttachmentLists(queryClient: QueryClient): void {
+  queryClient.invalidateQueries({
+    queryKey: attachmentQueryKeys.all,
+    predicate: (query) => query.queryKey[1] !== 'content'
+  })
+}
+
+/** Every attachment in the household; the tables only need the counts. */
+export function useHouseholdAttachments(params: {
+  householdId?: string | null
+  enabled?: boolean
+}) {
+  const { householdId, enabled = true } = params
+  return useQuery({
+    queryKey: attachmentQueryKeys.household(householdId ?? ''),
+    queryFn: () => listHouseholdAttachments(householdId ?? ''),
+    enabled: enabled && !!householdId
+  })
+}
+
+export function useOwnerAttachments(owner: AttachmentOwner) {
+  return useQuery({
+    queryKey: attachmentQueryKeys.owner(owner),
+    queryFn: () => listOwnerAttachments(owner),
+    enabled: !!owner.id
+  })
+}
+
+/** A downloaded attachment file and how it may be shown inline. */
+export type AttachmentPreview = {
+  url: string
+  /** From the downloaded file itself, `null` when it can't be shown inline. */
+  kind: AttachmentKind | null
+}
+
+/**
+ * Object URL for an attachment's file, for thumbnails and the viewer. The
+ * file is fetched with the API auth header, which a plain `src` can't send.
+ * The kind is read from the downloaded blob, not the stored metadata, so a
+ * file whose content type does not match is never rendered inline.
+ */
+export function useAttachmentObjectUrl(
+  attachmentId: string | null
+): AttachmentPreview | null {
+  const { data: blob } = useQuery({
+    queryKey: attachmentQueryKeys.content(attachmentId ?? ''),
+    queryFn: () => downloadAttachment(attachmentId ?? ''),
+    enabled: !!attachmentId,
+    staleTime: Number.POSITIVE_INFINITY
+  })
+  const [preview, setPreview] = useState<AttachmentPreview | null>(null)
+
+  useEffect(() => {
+    if (!blob) {
+      setPreview(null)
+      return
+    }
+    const objectUrl = URL.createObjectURL(blob)
+    setPreview({
+      url: objectUrl,
+      kind: attachmentKind(blob.type)
+    })
+    return () => URL.revokeObjectURL(objectUrl)
+  }, [
+    blob
+  ])
+
+  return preview
+}
+
+export function useUploadAttachment(
+  callbacks?: MutationCallbacks<
+    Attachment,
+    {
+      owner: AttachmentOwner
+      file: File
+    }
+  >
+) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (variables: { owner: AttachmentOwner; file: File }) =>
+      uploadAttachment(variables.owner, variables.file),
+    onSuccess: (data, variables) => {
+      invalidateAttachmentLists(queryClient)
+      callbacks?.onSuccess?.(data, variables)
+    },
+    onError: (error, variables) => callbacks?.onError?.(error, variables)
+  })
+}
+
+export function useDeleteAttachment(
+  callbacks?: MutationCallbacks<void, Attachment>
+) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (attachment: Attachment) => deleteAttachment(attachment.id),
+    onSuccess: (data, attachment) => {
+      queryClient.removeQueries({
+        queryKey: attachmentQueryKeys.content(attachment.id)
+      })
+      invalidateAttachmentLists(queryClient)
+      callbacks?.onSuccess?.(data, attachment)
+    },
+    onError: (error, attachment) => callbacks?.onError?.(error, attachment)
+  })
+}
@@ -14,15 +14,26 @@ import {
   splitTrailingCreationRevision
 } from './revision-helpers'
 
-export type BlueprintRevisionTimelineKind = 'income' | 'bill'
+export type BlueprintRevisionTimelineKind = 'income' | 'bill' | 'transaction'
 
 export type BlueprintRevisionTimelineProps = {
   kind: BlueprintRevisionTimelineKind
   t: TFunction
   revisions: BlueprintRevisionLike[]
   lookups: RevisionLabelLookups
-  onUndo: (revision: BlueprintRevisionLike) => void
-  undoingRevisionId: string | null
+  /** Only needed when revisions can be scheduled. */
+  onUndo?: (revision: BlueprintRevisionLike) => void
+  undoingRevisionId?: string | null
+}
+
+function revisionTime(createdAt: string): string {
+  const date = new Date(createdAt)
+  return Number.isNaN(date.getTime())
+    ? ''
+    : date.toLocaleTimeString('sv-SE', {
+        hour: '2-digit',
+        minute: '2-digit'
+      })
 }
 
 function fieldLabelKey(
@@ -32,16 +43,17 @@ function fieldLabelKey(
   return `drawers.${kind}Revisions.fields.${field}`
 }
 
-type RevisionChangeListProps = {
+export type RevisionChangeListProps = {
   kind: BlueprintRevisionTimelineKind
   t: TFunction
   lookups: RevisionLabelLookups
   dayRevisions: BlueprintRevisionLike[]
-  undoingRevisionId: string | null
-  onUndo: (revision: BlueprintRevisionLike) => void
+  undoingRevisionId?: string | null
+  onUndo?: (revision: BlueprintRevisionLike) => void
 }
 
-function RevisionChangeList({
+/** Field changes of the given revisions, each as `label: old → new`. */
+export function RevisionChangeList({
   kind,
   t,
   lookups,
@@ -51,8 +63,19 @@ function RevisionChangeList({
 }: RevisionChangeListProps) {
   return (
     <ul className="flex list-none flex-col gap-1 p-0">
-      {dayRevisions.flatMap((revision) =>
-        revision.changes.map((change, changeIdx) => {
+      {dayRevisions.flatMap((revision) => [
+        revision.authorName ? (
+          <li
+            key={`${revision.id}:author`}
+            className="type-body-small text-muted-foreground"
+          >
+            {t('drawers.blueprintRevisions.changedBy', {
+              name: revision.authorName,
+              time: revisionTime(revision.createdAt)
+            })}
+          </li>
+        ) : null,
+        ...revision.changes.map((change, changeIdx) => {
           const labelKey = fieldLabelKey(kind, change.field)
           const fieldLabel =
             t(labelKey) === labelKey ? change.field : t(labelKey)
@@ -102,7 +125,7 @@ function RevisionChangeList({
                   </span>
                 )}
               </div>
-              {isScheduled && isLastChange ? (
+              {isScheduled && isLastChange && onUndo ? (
                 <span className="shrink-0">
                   <IconButton
                     type="button"
@@ -121,13 +144,14 @@ function RevisionChangeList({
             </li>
           )
         })
-      )}
+      ])}
     </ul>
   )
 }
 
 /**
- * Scrollable revision history for a recurring income or bill blueprint (Swedish UI).
+ * Scrollable revision history for a recurring income or bill blueprint, or a
+ * single transaction (Swedish UI).
  */
 export function BlueprintRevisionTimeline({
   kind,
@@ -226,7 +250,9 @@ export function BlueprintRevisionTimeline({
               label={
                 kind === 'income'
                   ? t('drawers.incomeRevisions.badgeCreated')
-                  : t('drawers.billRevisions.badgeCreated')
+                  : kind === 'bill'
+                    ? t('drawers.billRevisions.badgeCreated')
+                    : t('drawers.transactionRevisions.badgeCreated')
               }
             />
             {currentBadge?.kind === 'creation' ? (
@@ -46,6 +46,44 @@ function formatPaymentHandling(value: unknown, t: TFunction): string | null {
   return label === key ? value : label
 }
 
+function formatTransactionType(value: unknown, t: TFunction): string | null {
+  if (typeof value !== 'string') return null
+  const map: Record<string, string> = {
+    EXPENSE: 'transactions.expense',
+    INCOME: 'transactions.income',
+    TRANSFER: 'common.transfer'
+  }
+  const key = map[value]
+  return key ? t(key) : value
+}
+
+/** Transaction split lines with their amounts, e.g. `Mat · Livsmedel · 120 kr`. */
+function formatSplitLines(
+  value: unknown[],
+  t: TFunction,
+  lookups: RevisionLabelLookups
+): string {
+  return value
+    .map((line) => {
+      if (!isRecord(line)) return ''
+      const categoryId =
+        typeof line.categoryId === 'string' ? line.categoryId : null
+      const budgetId = typeof line.budgetId === 'string' ? line.budgetId : null
+      return [
+        typeof line.subtitle === 'string' ? line.subtitle.trim() : '',
+        categoryId
+          ? (lookups.categoryById.get(categoryId) ?? categoryId)
+          : t('common.uncategorized'),
+        budgetId ? (lookups.budgetById?.get(budgetId) ?? budgetId) : '',
+        typeof line.amount === 'number' ? formatCurrency(line.amount) : ''
+      ]
+        .filter(Boolean)
+        .join(' · ')
+    })
+    .filter(Boolean)
+    .join(' | ')
+}
+
 function formatIsoDate(value: unknown): string | null {
   if (typeof value !== 'string' || value.length < 10) return null
   const d = new Date(value)
@@ -68,8 +106,14 @@ export function formatBlueprintRevisionValue(
 
   switch (field) {
     case 'estimatedAmount':
+    case 'amount':
       if (typeof value === 'number') return formatCurrency(value)
       break
+    case 'type': {
+      const type = formatTransactionType(value, t)
+      if (type) return type
+      break
+    }
     case 'recurrenceType': {
       const r = formatRecurrence(value, t)
       if (r) return r
@@ -85,6 +129,7 @@ export function formatBlueprintRevisionValue(
       if (typeof value === 'number') return String(value)
       break
     case 'accountId':
+    case 'transferToAccountId':
       if (typeof value === 'string')
         return lookups.accountById.get(value) ?? value
       break
@@ -107,6 +152,7 @@ export function formatBlueprintRevisionValue(
         return lookups.budgetById.get(value) ?? value
       }
       break
+    case 'date':
     case 'expectedDate':
     case 'dueDate':
     case 'endDate':
@@ -132,6 +178,12 @@ export function formatBlueprintRevisionValue(
         uncategorized
       )
     }
+    case 'splitLines':
+      if (!Array.isArray(value)) break
+      if (value.length === 0) {
+        return t('drawers.blueprintRevisions.value.empty')
+      }
+      return formatSplitLines(value, t, lookups)
     default:
       break
   }
@@ -11,6 +11,8 @@ export type BlueprintRevisionLike = {
   scope?: string | null
   /** When true, the revision is not yet applied to the blueprint (cancel via DELETE …/revisions/{id}). */
   scheduled?: boolean
+  /** Household member who made the change, when known. */
+  authorName?: string | null
   changes: BlueprintRevisionChangeLike[]
 }
 
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest'
+import {
+  type CalendarEvent,
+  calendarDayKey,
+  calendarDays,
+  calendarRange,
+  groupEventsByDay,
+  projectedDailyBalances,
+  rescheduledDate
+} from './calendar'
+
+function event(
+  id: string,
+  kind: CalendarEvent['kind'],
+  amount: number,
+  date: Date,
+  transactionId: string | null = null
+): CalendarEvent {
+  return {
+    id,
+    kind,
+    name: id,
+    amount,
+    date,
+    status: transactionId ? 'PAID' : 'UPCOMING',
+    transactionId,
+    ruleDate: null
+  }
+}
+
+describe('calendarRange', () => {
+  it('covers the month in whole Monday-first weeks', () => {
+    const { start, end } = calendarRange('month', new Date(2026, 9, 15))
+    expect(calendarDayKey(start)).toBe('2026-09-28')
+    expect(calendarDayKey(end)).toBe('2026-11-01')
+    expect(calendarDays('month', new Date(2026, 9, 15))).toHaveLength(35)
+  })
+
+  it('covers a single week for the week view', () => {
+    const days = calendarDays('week', new Date(2026, 9, 21))
+    expect(days.map(calendarDayKey)).toEqual([
+      '2026-10-19',
+      '2026-10-20',
+      '2026-10-21',
+      '2026-10-22',
+      '2026-10-23',
+      '2026-10-24',
+      '2026-10-25'
+    ])
+  })
+})
+
+describe('groupEventsByDay', () => {
+  it('lists incomes before bills on the same day', () => {
+    const day = new Date(2026, 9, 25)
+    const byDay = groupEventsByDay([
+      event('Hyra', 'bill', 9000, day),
+      event('Lön', 'income', 30000, day)
+    ])
+    expect(byDay.get('2026-10-25')?.map((item) => item.id)).toEqual([
+      'Lön',
+      'Hyra'
+    ])
+  })
+})
+
+describe('projectedDailyBalances', () => {
+  it('runs from the current balance through pending instances', () => {
+    const days = calendarDays('week', new Date(2026, 9, 21))
+    const balances = projectedDailyBalances({
+      days,
+      startingBalance: 1000,
+      today: new Date(2026, 9, 21, 14),
+      events: [
+        event('overdue', 'bill', 100, new Date(2026, 8, 30)),
+        event('paid', 'bill', 500, new Date(2026, 9, 22), 'tx'),
+        event('el', 'bill', 200, new Date(2026, 9, 22)),
+        event('lon', 'income', 3000, new Date(2026, 9, 25))
+      ]
+    })
+    expect(balances.has('2026-10-20')).toBe(false)
+    expect(balances.get('2026-10-21')).toBe(900)
+    expect(balances.get('2026-10-22')).toBe(700)
+    expect(balances.get('2026-10-24')).toBe(700)
+    expect(balances.get('2026-10-25')).toBe(3700)
+  })
+
+  it('includes pending instances between today and a later view', () => {
+    const balances = projectedDailyBalances({
+      days: calendarDays('week', new Date(2026, 10, 4)),
+      startingBalance: 0,
+      today: new Date(2026, 9, 21),
+      events: [
+        event('lon', 'income', 3000, new Date(2026, 9, 25))
+      ]
+    })
+    expect(balances.get('2026-11-02')).toBe(3000)
+  })
+})
+
+describe('rescheduledDate', () => {
+  it('keeps the time of day of the original instant', () => {
+    const moved = rescheduledDate(
+      new Date(2026, 9, 25, 9, 30),
+      new Date(2026, 9, 27)
+    )
+    expect(moved).toEqual(new Date(2026, 9, 27, 9, 30))
+  })
+})
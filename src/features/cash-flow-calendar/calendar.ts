@@ -0,0 +1,154 @@
+import {
+  addDays,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isBefore,
+  startOfDay,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns'
+import type {
+  BillInstanceStatus,
+  IncomeInstanceStatus
+} from '@/api/generated/types.gen'
+
+export type CalendarView = 'month' | 'week'
+
+export type CalendarEventKind = 'bill' | 'income'
+
+/** A bill or income instance placed on its due or expected day. */
+export type CalendarEvent = {
+  id: string
+  kind: CalendarEventKind
+  name: string
+  /** Always positive; {@link signedEventAmount} applies the direction. */
+  amount: number
+  date: Date
+  status: BillInstanceStatus | IncomeInstanceStatus
+  /** Linked transaction once paid or received. */
+  transactionId: string | null
+  /** The date rule's day when this pending instance has drifted off it. */
+  ruleDate: Date | null
+}
+
+const WEEK_OPTIONS = {
+  weekStartsOn: 1
+} as const
+
+/** `yyyy-MM-dd` key for grouping events and balances by local day. */
+export function calendarDayKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd')
+}
+
+/**
+ * First and last day shown: whole Monday-first weeks covering the month, or
+ * the single week containing `anchor`.
+ */
+export function calendarRange(
+  view: CalendarView,
+  anchor: Date
+): {
+  start: Date
+  end: Date
+} {
+  if (view === 'week') {
+    return {
+      start: startOfWeek(anchor, WEEK_OPTIONS),
+      end: startOfDay(endOfWeek(anchor, WEEK_OPTIONS))
+    }
+  }
+  return {
+    start: startOfWeek(startOfMonth(anchor), WEEK_OPTIONS),
+    end: startOfDay(endOfWeek(endOfMonth(anchor), WEEK_OPTIONS))
+  }
+}
+
+export function calendarDays(view: CalendarView, anchor: Date): Date[] {
+  return eachDayOfInterval(calendarRange(view, anchor))
+}
+
+/** Instances without a linked transaction have not moved any money yet. */
+export function isPendingEvent(event: CalendarEvent): boolean {
+  return event.transactionId === null
+}
+
+export function signedEventAmount(event: CalendarEvent): number {
+  return event.kind === 'income' ? event.amount : -event.amount
+}
+
+/** Events per day key, incomes first and then by name. */
+export function groupEventsByDay(
+  events: CalendarEvent[]
+): Map<string, CalendarEvent[]> {
+  const byDay = new Map<string, CalendarEvent[]>()
+  for (const event of events) {
+    const key = calendarDayKey(event.date)
+    const dayEvents = byDay.get(key)
+    if (dayEvents) dayEvents.push(event)
+    else
+      byDay.set(key, [
+        event
+      ])
+  }
+  for (const dayEvents of byDay.values()) {
+    dayEvents.sort(
+      (a, b) =>
+        (a.kind === b.kind ? 0 : a.kind === 'income' ? -1 : 1) ||
+        a.name.localeCompare(b.name, 'sv')
+    )
+  }
+  return byDay
+}
+
+/**
+ * End-of-day projected balance for each visible day from `today` on. Starts
+ * from the accounts' current balance, counts overdue instances on `today`
+ * and adds every pending instance on its day, including days between today
+ * and the first visible day. Days before today get no projection.
+ */
+export function projectedDailyBalances(params: {
+  days: Date[]
+  events: CalendarEvent[]
+  startingBalance: number
+  today: Date
+}): Map<string, number> {
+  const { days, events, startingBalance } = params
+  const today = startOfDay(params.today)
+  const balances = new Map<string, number>()
+  const lastDay = days[days.length - 1]
+  if (!lastDay || isBefore(lastDay, today)) return balances
+
+  const changeByDay = new Map<string, number>()
+  let running = startingBalance
+  for (const event of events) {
+    if (!isPendingEvent(event)) continue
+    if (isBefore(event.date, today)) {
+      running += signedEventAmount(event)
+      continue
+    }
+    const key = calendarDayKey(event.date)
+    changeByDay.set(key, (changeByDay.get(key) ?? 0) + signedEventAmount(event))
+  }
+
+  const visible = new Set(days.map(calendarDayKey))
+  for (let day = today; !isBefore(lastDay, day); day = addDays(day, 1)) {
+    const key = calendarDayKey(day)
+    running += changeByDay.get(key) ?? 0
+    if (visible.has(key)) balances.set(key, running)
+  }
+  return balances
+}
+
+/** `target` day at the original time of day, so the instant stays comparable. */
+export function rescheduledDate(original: Date, target: Date): Date {
+  const date = new Date(target)
+  date.setHours(
+    original.getHours(),
+    original.getMinutes(),
+    original.getSeconds(),
+    original.getMilliseconds()
+  )
+  return date
+}
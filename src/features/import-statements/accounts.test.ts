@@ -1,5 +1,10 @@
 import { describe, expect, it } from 'vitest'
-import { findMatchingAccountId, normalizeAccountNumber } from './accounts'
+import {
+  findMatchingAccountId,
+  guessTransferAccountCandidates,
+  guessTransferAccountId,
+  normalizeAccountNumber
+} from './accounts'
 import type { ImportLookupItem } from './types'
 
 const accounts: ImportLookupItem[] = [
@@ -54,3 +59,47 @@ describe('findMatchingAccountId', () => {
     ).toBe('')
   })
 })
+
+describe('guessTransferAccountId', () => {
+  it('matches an IBAN in the description against the account identifier', () => {
+    expect(
+      guessTransferAccountId(
+        'Överföring till SE45 5000 0000 0583 9825 7466',
+        [
+          ...accounts,
+          {
+            id: 'iban',
+            name: 'Buffert',
+            externalIdentifier: 'SE4550000000058398257466'
+          }
+        ],
+        'checking'
+      )
+    ).toBe('iban')
+  })
+
+  it('lists every account an ambiguous description points to', () => {
+    const ambiguous = [
+      ...accounts,
+      {
+        id: 'other',
+        name: 'Other',
+        externalIdentifier: '0209'
+      }
+    ]
+
+    expect(
+      guessTransferAccountId('Överföring 123 0209', ambiguous, 'checking')
+    ).toBe('')
+    expect(
+      guessTransferAccountCandidates(
+        'Överföring 123 0209',
+        ambiguous,
+        'checking'
+      )
+    ).toEqual([
+      'savings',
+      'other'
+    ])
+  })
+})
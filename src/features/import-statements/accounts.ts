@@ -16,34 +16,71 @@ function accountCandidates(account: ImportLookupItem): string[] {
     .filter(Boolean)
 }
 
-export function findMatchingAccountId(
+function matchingAccountIds(
   accountNumber: string | null,
   accounts: ImportLookupItem[]
-): string {
+): string[] {
   const normalized = normalizeAccountNumber(accountNumber)
-  if (!normalized) return ''
+  if (!normalized) return []
 
-  const matches = accounts.filter((account) =>
-    accountCandidates(account).some((candidate) =>
-      normalized.includes(candidate)
+  return accounts
+    .filter((account) =>
+      accountCandidates(account).some((candidate) =>
+        normalized.includes(candidate)
+      )
     )
-  )
-
-  return matches.length === 1 ? matches[0].id : ''
+    .map((account) => account.id)
 }
 
-export function guessTransferAccountId(
-  description: string,
-  accounts: ImportLookupItem[],
-  originAccountId: string
+export function findMatchingAccountId(
+  accountNumber: string | null,
+  accounts: ImportLookupItem[]
 ): string {
+  const matches = matchingAccountIds(accountNumber, accounts)
+  return matches.length === 1 ? matches[0] : ''
+}
+
+/** IBANs and digit groups in free text, normalized, longest first. */
+function accountNumberTokens(description: string): string[] {
+  const ibans =
+    description.match(
+      /\b[A-Z]{2}\d{2}(?:\s?[A-Z\d]{4}){2,7}(?:\s?[A-Z\d]{1,4})?\b/g
+    ) ?? []
   const digitGroups = description.match(/\d[\d\s.-]{1,}\d/g) ?? []
-  const candidates = digitGroups
+  return [
+    ...ibans,
+    ...digitGroups
+  ]
     .map(normalizeAccountNumber)
     .filter((candidate) => candidate.length >= 2)
     .sort((a: string, b: string) => b.length - a.length)
+}
+
+/**
+ * Every household account (other than origin) whose number appears in the
+ * description. More than one means the description is ambiguous.
+ */
+export function guessTransferAccountCandidates(
+  description: string,
+  accounts: ImportLookupItem[],
+  originAccountId: string
+): string[] {
+  const others = accounts.filter((account) => account.id !== originAccountId)
+  return [
+    ...new Set(
+      accountNumberTokens(description).flatMap((token) =>
+        matchingAccountIds(token, others)
+      )
+    )
+  ]
+}
 
-  for (const candidate of candidates) {
+export function guessTransferAccountId(
+  description: string,
+  accounts: ImportLookupItem[],
+  originAccountId: string
+): string {
+  for (const candidate of accountNumberTokens(description)) {
     const matched = findMatchingAccountId(
       candidate,
       accounts.filter((account) => account.id !== originAccountId)
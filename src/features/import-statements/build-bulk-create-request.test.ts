@@ -43,4 +43,64 @@ describe('buildBulkCreateRequest', () => {
 
     expect(body.transactions[0]?.instanceId).toBe('inc_inst_1')
   })
+
+  it('sends split lines instead of top-level budget and category', () => {
+    const body = buildBulkCreateRequest([
+      incomeDraft({
+        type: TransactionType.EXPENSE,
+        signedAmount: -1000,
+        recipientId: 'rec_1',
+        budgetId: null,
+        categoryId: null,
+        splits: [
+          {
+            subtitle: 'Mat',
+            amount: 700,
+            categoryId: 'cat_food',
+            budgetId: 'bud_food'
+          },
+          {
+            subtitle: 'Hushåll',
+            amount: 300,
+            categoryId: 'cat_home',
+            budgetId: 'bud_home'
+          }
+        ]
+      })
+    ])
+
+    expect(body.transactions[0]).toMatchObject({
+      budgetId: null,
+      splits: [
+        {
+          subtitle: 'Mat',
+          amount: 700,
+          categoryId: 'cat_food',
+          budgetId: 'bud_food'
+        },
+        {
+          subtitle: 'Hushåll',
+          amount: 300,
+          categoryId: 'cat_home',
+          budgetId: 'bud_home'
+        }
+      ]
+    })
+    expect(body.transactions[0]).not.toHaveProperty('categoryId')
+  })
+
+  it('leaves out rows created by an earlier attempt', () => {
+    const body = buildBulkCreateRequest([
+      incomeDraft({
+        importedTransactionId: 'tx_1'
+      }),
+      incomeDraft({
+        id: 'row-2'
+      })
+    ])
+
+    expect(body.transactions.map((item) => item.clientRowId)).toEqual([
+      'row-2'
+    ])
+  })
 })
@@ -3,6 +3,7 @@ import {
   type BulkCreateTransactionItem,
   type BulkCreateTransactionsRequest,
   CategoryType,
+  type TransactionSplitWrite,
   TransactionType
 } from '@/api/generated/types.gen'
 import {
@@ -12,13 +13,28 @@ import {
 } from '@/drawers/drawers/create-transaction-drawer/map-to-request'
 import { toApiDateRequired } from '@/hooks/api/date-normalization'
 import { idOrNewNameToComboboxValue } from './components/import-table-fields'
-import type { TransactionDraft } from './types'
+import type { TransactionDraft, TransactionDraftSplit } from './types'
 
 function optionalInstanceId(id: string | null | undefined): string | null {
   const trimmed = id?.trim()
   return trimmed ? trimmed : null
 }
 
+function draftSplitsToApi(
+  splits: TransactionDraftSplit[]
+): TransactionSplitWrite[] {
+  return splits.map((split) => ({
+    categoryId: split.categoryId,
+    ...(split.budgetId
+      ? {
+          budgetId: split.budgetId
+        }
+      : {}),
+    amount: split.amount,
+    subtitle: split.subtitle
+  }))
+}
+
 function draftToBulkCreateItem(
   draft: TransactionDraft
 ): BulkCreateTransactionItem {
@@ -34,12 +50,16 @@ function draftToBulkCreateItem(
       ...base,
       type: TransactionType.EXPENSE,
       accountId: draft.originAccountId,
-      budgetId: draft.budgetId ?? null,
+      budgetId: draft.splits?.length ? null : (draft.budgetId ?? null),
       instanceId: optionalInstanceId(draft.billInstanceId),
-      ...categoryToApi(
-        idOrNewNameToComboboxValue(draft.categoryId, draft.newCategoryName),
-        CategoryType.EXPENSE
-      ),
+      ...(draft.splits?.length
+        ? {
+            splits: draftSplitsToApi(draft.splits)
+          }
+        : categoryToApi(
+            idOrNewNameToComboboxValue(draft.categoryId, draft.newCategoryName),
+            CategoryType.EXPENSE
+          )),
       ...recipientToApi(
         idOrNewNameToComboboxValue(draft.recipientId, draft.newRecipientName)
       )
@@ -53,10 +73,14 @@ function draftToBulkCreateItem(
       accountId: draft.originAccountId,
       budgetId: null,
       instanceId: optionalInstanceId(draft.incomeInstanceId),
-      ...categoryToApi(
-        idOrNewNameToComboboxValue(draft.categoryId, draft.newCategoryName),
-        CategoryType.INCOME
-      ),
+      ...(draft.splits?.length
+        ? {
+            splits: draftSplitsToApi(draft.splits)
+          }
+        : categoryToApi(
+            idOrNewNameToComboboxValue(draft.categoryId, draft.newCategoryName),
+            CategoryType.INCOME
+          )),
       ...incomeSourceToApi(
         idOrNewNameToComboboxValue(
           draft.incomeSourceId,
@@ -84,11 +108,16 @@ function draftToBulkCreateItem(
 }
 
 function isIncludedDraft(draft: TransactionDraft): boolean {
-  return !draft.excluded && draft.type !== 'uncategorized'
+  return (
+    !draft.excluded &&
+    !draft.importedTransactionId &&
+    draft.type !== 'uncategorized'
+  )
 }
 
 /**
- * Maps reviewed import drafts to the bulk create API request body.
+ * Maps reviewed import drafts to the bulk create API request body. Rows
+ * created by an earlier attempt are left out.
  */
 export function buildBulkCreateRequest(
   drafts: TransactionDraft[],
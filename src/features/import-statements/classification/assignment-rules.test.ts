@@ -1,5 +1,9 @@
 import { describe, expect, it } from 'vitest'
 import { TransactionType } from '@/api/generated/types.gen'
+import {
+  createAssignmentRule,
+  createAssignmentRuleSplit
+} from '@/features/assignment-rules/rules'
 import type { ImportLookupItem, TransactionDraft } from '../types'
 import { applyAssignmentRules, findFuzzyRecipientId } from './assignment-rules'
 
@@ -14,6 +18,13 @@ const recipients: ImportLookupItem[] = [
   }
 ]
 
+const budgets: ImportLookupItem[] = [
+  {
+    id: 'home',
+    name: 'Boende'
+  }
+]
+
 const categories: ImportLookupItem[] = [
   {
     id: 'utilities',
@@ -54,9 +65,11 @@ describe('findFuzzyRecipientId', () => {
 describe('applyAssignmentRules', () => {
   it('fills recipient from fuzzy match for expenses', () => {
     const assigned = applyAssignmentRules(draft({}), {
+      rules: [],
       recipients,
       incomeSources: [],
-      categories
+      categories,
+      budgets: []
     })
 
     expect(assigned.recipientId).toBe('goteborg-energi')
@@ -68,12 +81,101 @@ describe('applyAssignmentRules', () => {
         type: TransactionType.INCOME
       }),
       {
+        rules: [],
         recipients,
         incomeSources: [],
-        categories
+        categories,
+        budgets: []
       }
     )
 
     expect(assigned.recipientId).toBeUndefined()
   })
+
+  it('applies stored household rules before fuzzy matching', () => {
+    const assigned = applyAssignmentRules(draft({}), {
+      rules: [
+        createAssignmentRule({
+          conditions: {
+            descriptionContains: 'energi'
+          },
+          actions: {
+            recipientId: 'bahnhof',
+            categoryId: 'utilities',
+            budgetId: 'home'
+          }
+        })
+      ],
+      recipients,
+      incomeSources: [],
+      categories,
+      budgets
+    })
+
+    expect(assigned).toMatchObject({
+      recipientId: 'bahnhof',
+      categoryId: 'utilities',
+      budgetId: 'home'
+    })
+  })
+
+  it('ignores rule actions pointing at removed entities', () => {
+    const assigned = applyAssignmentRules(draft({}), {
+      rules: [
+        createAssignmentRule({
+          conditions: {
+            descriptionContains: 'energi'
+          },
+          actions: {
+            recipientId: 'deleted-recipient',
+            categoryId: 'deleted-category'
+          }
+        })
+      ],
+      recipients,
+      incomeSources: [],
+      categories,
+      budgets
+    })
+
+    expect(assigned.recipientId).toBe('goteborg-energi')
+    expect(assigned.categoryId).toBeUndefined()
+  })
+
+  it('replaces budget and category with split lines from a rule', () => {
+    const assigned = applyAssignmentRules(draft({}), {
+      rules: [
+        createAssignmentRule({
+          conditions: {
+            sign: 'out'
+          },
+          actions: {
+            splits: [
+              createAssignmentRuleSplit({
+                subtitle: 'El',
+                categoryId: 'utilities',
+                budgetId: 'home',
+                percentage: 100
+              })
+            ]
+          }
+        })
+      ],
+      recipients,
+      incomeSources: [],
+      categories,
+      budgets
+    })
+
+    expect(assigned.budgetId).toBeNull()
+    expect(assigned.categoryId).toBeNull()
+    expect(assigned.splits).toEqual([
+      {
+        subtitle: 'El',
+        amount: 1487,
+        categoryId: 'utilities',
+        budgetId: 'home'
+      }
+    ])
+  })
 })
@@ -1,63 +1,9 @@
 import Fuse from 'fuse.js'
 import { TransactionType } from '@/api/generated/types.gen'
+import { resolveAssignmentRuleActions } from '@/features/assignment-rules/rules'
+import type { AssignmentRule } from '@/features/assignment-rules/types'
 import type { ImportLookupItem, TransactionDraft } from '../types'
 
-type AssignmentRule = {
-  pattern: RegExp
-  recipientName?: string
-  incomeSourceName?: string
-  categoryName?: string
-  type?: TransactionDraft['type']
-}
-
-const ASSIGNMENT_RULES: AssignmentRule[] = [
-  {
-    pattern: /göteborg energi/i,
-    recipientName: 'Göteborg Energi',
-    categoryName: 'Utilities'
-  },
-  {
-    pattern: /tibber/i,
-    recipientName: 'Tibber',
-    categoryName: 'Electricity'
-  },
-  {
-    pattern: /ica/i,
-    recipientName: 'ICA',
-    categoryName: 'Groceries'
-  },
-  {
-    pattern: /bahnhof/i,
-    recipientName: 'Bahnhof',
-    categoryName: 'Internet'
-  },
-  {
-    pattern: /csn/i,
-    recipientName: 'CSN',
-    categoryName: 'Loan'
-  },
-  {
-    pattern: /lön/i,
-    categoryName: 'Salary'
-  },
-  {
-    pattern: /överföring|överf\./i,
-    type: TransactionType.TRANSFER
-  }
-]
-
-function findByName(
-  name: string | undefined,
-  items: ImportLookupItem[]
-): string {
-  if (!name) return ''
-  const normalized = name.toLocaleLowerCase('sv-SE')
-  return (
-    items.find((item) => item.name.toLocaleLowerCase('sv-SE') === normalized)
-      ?.id ?? ''
-  )
-}
-
 export function findFuzzyRecipientId(
   description: string,
   recipients: ImportLookupItem[]
@@ -78,33 +24,64 @@ export function findFuzzyRecipientId(
   return match && (match.score ?? 1) <= 0.3 ? match.item.id : ''
 }
 
+function existingId(id: string | undefined, items: ImportLookupItem[]): string {
+  return id && items.some((item) => item.id === id) ? id : ''
+}
+
+/**
+ * Applies the household's stored assignment rules (see
+ * `@/features/assignment-rules`) to a parsed draft, then falls back to fuzzy
+ * recipient matching for expenses. Ids that no longer exist in the lookups
+ * (deleted recipients, categories, …) are ignored. The result is kept as
+ * `suggestion` so corrections can be learned after import.
+ */
 export function applyAssignmentRules(
   draft: TransactionDraft,
   lookups: {
+    rules: AssignmentRule[]
     recipients: ImportLookupItem[]
     incomeSources: ImportLookupItem[]
     categories: ImportLookupItem[]
+    budgets: ImportLookupItem[]
   }
 ): TransactionDraft {
-  let next = draft
-
-  for (const rule of ASSIGNMENT_RULES) {
-    if (!rule.pattern.test(draft.originalDescription)) continue
-
-    const recipientId = findByName(rule.recipientName, lookups.recipients)
-    const incomeSourceId = findByName(
-      rule.incomeSourceName,
-      lookups.incomeSources
-    )
-    const categoryId = findByName(rule.categoryName, lookups.categories)
+  const resolved = resolveAssignmentRuleActions(lookups.rules, {
+    description: draft.originalDescription,
+    signedAmount: draft.signedAmount,
+    originAccountId: draft.originAccountId
+  })
+  const type = resolved.type ?? draft.type
+  const splits = (resolved.splits ?? []).map((split) => ({
+    subtitle: split.subtitle,
+    amount: split.amount,
+    categoryId: existingId(split.categoryId, lookups.categories),
+    budgetId:
+      type === TransactionType.EXPENSE
+        ? existingId(split.budgetId, lookups.budgets)
+        : ''
+  }))
+  const hasSplits =
+    splits.length > 0 &&
+    (type === TransactionType.EXPENSE || type === TransactionType.INCOME)
 
-    next = {
-      ...next,
-      type: rule.type ?? next.type,
-      recipientId: recipientId || next.recipientId,
-      incomeSourceId: incomeSourceId || next.incomeSourceId,
-      categoryId: categoryId || next.categoryId
-    }
+  let next: TransactionDraft = {
+    ...draft,
+    type,
+    recipientId:
+      existingId(resolved.recipientId, lookups.recipients) || draft.recipientId,
+    incomeSourceId:
+      existingId(resolved.incomeSourceId, lookups.incomeSources) ||
+      draft.incomeSourceId,
+    categoryId:
+      existingId(resolved.categoryId, lookups.categories) || draft.categoryId,
+    budgetId: existingId(resolved.budgetId, lookups.budgets) || draft.budgetId,
+    ...(hasSplits
+      ? {
+          splits,
+          categoryId: null,
+          budgetId: null
+        }
+      : {})
   }
 
   if (next.type === TransactionType.EXPENSE && !next.recipientId) {
@@ -120,5 +97,15 @@ export function applyAssignmentRules(
     }
   }
 
-  return next
+  return {
+    ...next,
+    suggestion: {
+      type: next.type,
+      recipientId: next.recipientId ?? '',
+      incomeSourceId: next.incomeSourceId ?? '',
+      categoryId: next.categoryId ?? '',
+      budgetId: next.budgetId ?? '',
+      hasSplits
+    }
+  }
 }
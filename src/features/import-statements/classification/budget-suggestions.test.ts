@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest'
+import { TransactionType } from '@/api/generated/types.gen'
+import type { TransactionDraft } from '../types'
+import {
+  acceptBudgetSuggestionPatch,
+  applyBudgetSuggestions,
+  type RecipientHistoryTransaction,
+  recipientBudgetSuggestions
+} from './budget-suggestions'
+
+const SINCE = new Date('2026-01-01T00:00:00.000Z')
+
+function draft(overrides: Partial<TransactionDraft>): TransactionDraft {
+  return {
+    id: 'draft',
+    sourceRowNumber: 3,
+    originalDescription: 'ICA NARA',
+    date: '2026-06-20',
+    amount: 250,
+    signedAmount: -250,
+    type: TransactionType.EXPENSE,
+    name: 'ICA',
+    originAccountId: 'checking',
+    recipientId: 'ica',
+    budgetId: null,
+    excluded: false,
+    ...overrides
+  }
+}
+
+function expense(
+  id: string,
+  budgetId: string,
+  overrides: Partial<RecipientHistoryTransaction> = {}
+): RecipientHistoryTransaction {
+  return {
+    id,
+    type: TransactionType.EXPENSE,
+    date: '2026-05-10T00:00:00.000Z',
+    recipient: {
+      id: 'ica',
+      name: 'ICA'
+    },
+    budget: {
+      id: budgetId,
+      name: budgetId
+    },
+    category: {
+      id: 'groceries',
+      name: 'Livsmedel'
+    },
+    ...overrides
+  }
+}
+
+describe('recipientBudgetSuggestions', () => {
+  it('picks the most frequent budget and its most common category', () => {
+    const suggestions = recipientBudgetSuggestions(
+      [
+        expense('1', 'food'),
+        expense('2', 'food', {
+          category: {
+            id: 'snacks',
+            name: 'Godis'
+          }
+        }),
+        expense('3', 'food'),
+        expense('4', 'household')
+      ],
+      SINCE
+    )
+
+    expect(suggestions.get('ica')).toEqual({
+      budgetId: 'food',
+      categoryId: 'groceries',
+      count: 3,
+      total: 4
+    })
+  })
+
+  it('ignores old, split, and non-expense transactions and breaks ties by recency', () => {
+    const suggestions = recipientBudgetSuggestions(
+      [
+        expense('old', 'food', {
+          date: '2025-06-01T00:00:00.000Z'
+        }),
+        expense('split', 'food', {
+          splits: [
+            {
+              id: 's1',
+              transactionId: 'split',
+              categoryId: 'groceries',
+              amount: 100,
+              subtitle: 'Mat'
+            }
+          ]
+        }),
+        expense('income', 'food', {
+          type: TransactionType.INCOME
+        }),
+        expense('a', 'food', {
+          date: '2026-03-01T00:00:00.000Z'
+        }),
+        expense('b', 'household', {
+          date: '2026-04-01T00:00:00.000Z'
+        })
+      ],
+      SINCE
+    )
+
+    expect(suggestions.get('ica')?.budgetId).toBe('household')
+    expect(suggestions.get('ica')?.total).toBe(2)
+  })
+})
+
+describe('applyBudgetSuggestions', () => {
+  it('suggests only for open expense rows without a budget', () => {
+    const suggestions = recipientBudgetSuggestions(
+      [
+        expense('1', 'food')
+      ],
+      SINCE
+    )
+    const [open, budgeted, imported] = applyBudgetSuggestions(
+      [
+        draft({}),
+        draft({
+          id: 'budgeted',
+          budgetId: 'household'
+        }),
+        draft({
+          id: 'imported',
+          importedTransactionId: 'tx_1'
+        })
+      ],
+      suggestions
+    )
+
+    expect(open?.budgetSuggestion?.budgetId).toBe('food')
+    expect(open?.budgetId).toBeNull()
+    expect(budgeted?.budgetSuggestion).toBeUndefined()
+    expect(imported?.budgetSuggestion).toBeUndefined()
+  })
+
+  it('keeps a chosen category when the suggestion is accepted', () => {
+    const [suggested] = applyBudgetSuggestions(
+      [
+        draft({
+          categoryId: 'snacks'
+        })
+      ],
+      recipientBudgetSuggestions(
+        [
+          expense('1', 'food')
+        ],
+        SINCE
+      )
+    )
+
+    expect(acceptBudgetSuggestionPatch(suggested as TransactionDraft)).toEqual({
+      budgetId: 'food'
+    })
+  })
+})
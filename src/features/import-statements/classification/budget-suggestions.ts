@@ -0,0 +1,156 @@
+import { subMonths } from 'date-fns'
+import { type Transaction, TransactionType } from '@/api/generated/types.gen'
+import type { BudgetSuggestion, TransactionDraft } from '../types'
+
+/** How far back a recipient's expenses count toward a budget suggestion. */
+export const BUDGET_SUGGESTION_MONTHS = 6
+
+export type RecipientHistoryTransaction = Omit<
+  Pick<
+    Transaction,
+    'id' | 'type' | 'date' | 'recipient' | 'budget' | 'category' | 'splits'
+  >,
+  'date'
+> & {
+  date: string | Date
+}
+
+type BudgetTally = {
+  count: number
+  lastUsed: number
+  categoryCounts: Map<string, number>
+}
+
+function mostFrequentKey(counts: Map<string, number>): string | undefined {
+  let best: string | undefined
+  let bestCount = 0
+  for (const [key, count] of counts) {
+    if (count > bestCount) {
+      best = key
+      bestCount = count
+    }
+  }
+  return best
+}
+
+/** Start of the history window for a statement ending at `statementEnd`. */
+export function budgetSuggestionSince(statementEnd: Date): Date {
+  return subMonths(statementEnd, BUDGET_SUGGESTION_MONTHS)
+}
+
+/**
+ * Most frequent budget per recipient among registered expenses on or after
+ * `since`, with the category most often used together with it. Ties go to the
+ * budget used most recently. Split transactions are skipped: their budgets
+ * belong to the lines, not the purchase.
+ */
+export function recipientBudgetSuggestions(
+  transactions: RecipientHistoryTransaction[],
+  since: Date
+): Map<string, BudgetSuggestion> {
+  const tallies = new Map<string, Map<string, BudgetTally>>()
+  const totals = new Map<string, number>()
+
+  for (const transaction of transactions) {
+    const recipientId = transaction.recipient?.id
+    const budgetId = transaction.budget?.id
+    const time = new Date(transaction.date).getTime()
+    if (
+      transaction.type !== TransactionType.EXPENSE ||
+      !recipientId ||
+      !budgetId ||
+      (transaction.splits?.length ?? 0) > 0 ||
+      Number.isNaN(time) ||
+      time < since.getTime()
+    )
+      continue
+
+    totals.set(recipientId, (totals.get(recipientId) ?? 0) + 1)
+    const byBudget = tallies.get(recipientId) ?? new Map()
+    tallies.set(recipientId, byBudget)
+    const tally: BudgetTally = byBudget.get(budgetId) ?? {
+      count: 0,
+      lastUsed: 0,
+      categoryCounts: new Map()
+    }
+    byBudget.set(budgetId, tally)
+    tally.count += 1
+    tally.lastUsed = Math.max(tally.lastUsed, time)
+    const categoryId = transaction.category?.id
+    if (categoryId) {
+      tally.categoryCounts.set(
+        categoryId,
+        (tally.categoryCounts.get(categoryId) ?? 0) + 1
+      )
+    }
+  }
+
+  const suggestions = new Map<string, BudgetSuggestion>()
+  for (const [recipientId, byBudget] of tallies) {
+    const [budgetId, tally] = [
+      ...byBudget
+    ].sort(
+      (a, b) => b[1].count - a[1].count || b[1].lastUsed - a[1].lastUsed
+    )[0]
+    suggestions.set(recipientId, {
+      budgetId,
+      categoryId: mostFrequentKey(tally.categoryCounts),
+      count: tally.count,
+      total: totals.get(recipientId) ?? tally.count
+    })
+  }
+  return suggestions
+}
+
+/** Included, unlocked expense rows with a recipient but no budget yet. */
+function canSuggestBudget(draft: TransactionDraft): boolean {
+  return (
+    draft.type === TransactionType.EXPENSE &&
+    !draft.excluded &&
+    !draft.importedTransactionId &&
+    Boolean(draft.recipientId) &&
+    !draft.budgetId &&
+    (draft.splits?.length ?? 0) === 0
+  )
+}
+
+/**
+ * Attaches the recipient's suggestion to expense rows still missing a budget.
+ * The suggestion is not applied; rows keep their own values until accepted.
+ * Rows without a suggestion are returned unchanged.
+ */
+export function applyBudgetSuggestions(
+  drafts: TransactionDraft[],
+  suggestions: Map<string, BudgetSuggestion>
+): TransactionDraft[] {
+  if (suggestions.size === 0) return drafts
+  return drafts.map((draft) => {
+    const suggestion =
+      canSuggestBudget(draft) && draft.recipientId
+        ? suggestions.get(draft.recipientId)
+        : undefined
+    if (!suggestion) return draft
+    return {
+      ...draft,
+      budgetSuggestion: suggestion
+    }
+  })
+}
+
+/**
+ * Patch that accepts a row's budget suggestion. The suggested category only
+ * fills an empty category; one the user or a rule chose is kept.
+ */
+export function acceptBudgetSuggestionPatch(
+  draft: TransactionDraft
+): Partial<TransactionDraft> {
+  const suggestion = draft.budgetSuggestion
+  if (!suggestion || !canSuggestBudget(draft)) return {}
+  const patch: Partial<TransactionDraft> = {
+    budgetId: suggestion.budgetId
+  }
+  if (suggestion.categoryId && !draft.categoryId && !draft.newCategoryName) {
+    patch.categoryId = suggestion.categoryId
+  }
+  return patch
+}
@@ -2,11 +2,16 @@ import { TransactionType } from '@/api/generated/types.gen'
 
 const TRANSFER_PATTERN = /överföring|överf\.|overforing|overf\./i
 
+/** Bank wording for a transfer ("Överföring", "Överf."). */
+export function hasTransferHint(description: string): boolean {
+  return TRANSFER_PATTERN.test(description)
+}
+
 export function classifyTransaction(
   description: string,
   amount: number
 ): TransactionType {
-  if (TRANSFER_PATTERN.test(description)) return TransactionType.TRANSFER
+  if (hasTransferHint(description)) return TransactionType.TRANSFER
   if (amount < 0) return TransactionType.EXPENSE
   return TransactionType.INCOME
 }
@@ -0,0 +1,286 @@
+import { describe, expect, it } from 'vitest'
+import { TransactionType } from '@/api/generated/types.gen'
+import type { TransactionDraft } from '../types'
+import {
+  findDuplicateTransactions,
+  flagDuplicateDrafts,
+  type MatchableTransaction,
+  statementDateSpan
+} from './duplicate-detection'
+
+function draft(overrides: Partial<TransactionDraft>): TransactionDraft {
+  return {
+    id: 'draft',
+    sourceRowNumber: 5,
+    originalDescription: 'GOTEBORG ENERGI AB',
+    date: '2026-06-20',
+    amount: 1487,
+    signedAmount: -1487,
+    type: TransactionType.EXPENSE,
+    name: 'GOTEBORG ENERGI AB',
+    originAccountId: 'account',
+    excluded: false,
+    ...overrides
+  }
+}
+
+function transaction(
+  overrides: Partial<MatchableTransaction>
+): MatchableTransaction {
+  return {
+    id: 'transaction',
+    name: 'Elräkning',
+    amount: 1487,
+    date: '2026-06-18T00:00:00.000Z',
+    type: TransactionType.EXPENSE,
+    account: {
+      id: 'account',
+      name: 'Lönekonto'
+    },
+    recipient: {
+      id: 'recipient',
+      name: 'Göteborg Energi'
+    },
+    ...overrides
+  }
+}
+
+describe('findDuplicateTransactions', () => {
+  it('matches same amount within date tolerance by fuzzy name', () => {
+    const matches = findDuplicateTransactions(
+      [
+        draft({})
+      ],
+      [
+        transaction({})
+      ]
+    )
+
+    expect(matches.get('draft')).toEqual({
+      transactionId: 'transaction',
+      name: 'Elräkning',
+      date: '2026-06-18',
+      amount: 1487,
+      type: TransactionType.EXPENSE
+    })
+  })
+
+  it('finds a stored name inside a longer bank text', () => {
+    const matches = findDuplicateTransactions(
+      [
+        draft({
+          id: 'suffix',
+          originalDescription: 'ICA MAXI STORMARKNAD'
+        }),
+        draft({
+          id: 'prefix',
+          originalDescription: 'KORTKÖP ICA MAXI',
+          date: '2026-06-19'
+        })
+      ],
+      [
+        transaction({
+          id: 'first',
+          name: 'ICA Maxi',
+          recipient: {
+            id: 'ica',
+            name: 'ICA Maxi'
+          }
+        }),
+        transaction({
+          id: 'second',
+          name: 'ICA Maxi',
+          date: '2026-06-19T00:00:00.000Z',
+          recipient: {
+            id: 'ica',
+            name: 'ICA Maxi'
+          }
+        })
+      ]
+    )
+
+    expect(matches.get('suffix')?.transactionId).toBe('first')
+    expect(matches.get('prefix')?.transactionId).toBe('second')
+  })
+
+  it('matches on the recipient when the name differs', () => {
+    const matches = findDuplicateTransactions(
+      [
+        draft({
+          originalDescription: 'AUTOGIRO GOTEBORG ENERGI AB'
+        })
+      ],
+      [
+        transaction({
+          name: 'Elräkning juni'
+        })
+      ]
+    )
+
+    expect(matches.get('draft')?.transactionId).toBe('transaction')
+  })
+
+  it('ignores different amounts, distant dates, and unrelated names', () => {
+    const matches = findDuplicateTransactions(
+      [
+        draft({})
+      ],
+      [
+        transaction({
+          id: 'amount',
+          amount: 1480
+        }),
+        transaction({
+          id: 'date',
+          date: '2026-06-10T00:00:00.000Z'
+        }),
+        transaction({
+          id: 'name',
+          name: 'Hyra',
+          recipient: {
+            id: 'landlord',
+            name: 'Bostadsbolaget'
+          }
+        })
+      ]
+    )
+
+    expect(matches.size).toBe(0)
+  })
+
+  it('requires the money to move in the same direction on the account', () => {
+    const matches = findDuplicateTransactions(
+      [
+        draft({})
+      ],
+      [
+        transaction({
+          type: TransactionType.INCOME
+        })
+      ]
+    )
+
+    expect(matches.size).toBe(0)
+  })
+
+  it('matches incoming transfers by destination account', () => {
+    const matches = findDuplicateTransactions(
+      [
+        draft({
+          originalDescription: 'Överföring sparkonto',
+          signedAmount: 500,
+          amount: 500
+        })
+      ],
+      [
+        transaction({
+          name: 'Överföring sparkonto',
+          amount: 500,
+          type: TransactionType.TRANSFER,
+          account: {
+            id: 'savings',
+            name: 'Sparkonto'
+          },
+          transferToAccount: {
+            id: 'account',
+            name: 'Lönekonto'
+          }
+        })
+      ]
+    )
+
+    expect(matches.get('draft')?.transactionId).toBe('transaction')
+  })
+
+  it('matches each existing transaction only once', () => {
+    const matches = findDuplicateTransactions(
+      [
+        draft({
+          id: 'first',
+          date: '2026-06-18'
+        }),
+        draft({
+          id: 'second',
+          date: '2026-06-19'
+        })
+      ],
+      [
+        transaction({})
+      ]
+    )
+
+    expect([
+      ...matches.keys()
+    ]).toEqual([
+      'first'
+    ])
+  })
+})
+
+describe('flagDuplicateDrafts', () => {
+  it('excludes flagged drafts by default', () => {
+    const [flagged, untouched] = flagDuplicateDrafts(
+      [
+        draft({}),
+        draft({
+          id: 'other',
+          amount: 99,
+          signedAmount: -99
+        })
+      ],
+      [
+        transaction({})
+      ]
+    )
+
+    expect(flagged.excluded).toBe(true)
+    expect(flagged.duplicateOf?.transactionId).toBe('transaction')
+    expect(untouched.excluded).toBe(false)
+    expect(untouched.duplicateOf).toBeUndefined()
+  })
+
+  it('ignores imported rows and the transactions they created', () => {
+    const [imported, retried] = flagDuplicateDrafts(
+      [
+        draft({
+          importedTransactionId: 'created'
+        }),
+        draft({
+          id: 'retried'
+        })
+      ],
+      [
+        transaction({
+          id: 'created'
+        })
+      ]
+    )
+
+    expect(imported.duplicateOf).toBeUndefined()
+    expect(retried.excluded).toBe(false)
+    expect(retried.duplicateOf).toBeUndefined()
+  })
+})
+
+describe('statementDateSpan', () => {
+  it('widens the statement span by the tolerance', () => {
+    expect(
+      statementDateSpan([
+        draft({
+          date: '2026-06-20'
+        }),
+        draft({
+          date: '2026-06-05',
+          valueDate: '2026-06-03'
+        })
+      ])
+    ).toEqual({
+      dateFrom: new Date('2026-05-31T00:00:00.000Z'),
+      dateTo: new Date('2026-06-23T00:00:00.000Z')
+    })
+  })
+
+  it('returns null without drafts', () => {
+    expect(statementDateSpan([])).toBeNull()
+  })
+})
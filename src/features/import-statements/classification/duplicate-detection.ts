@@ -0,0 +1,229 @@
+import Fuse from 'fuse.js'
+import { type Transaction, TransactionType } from '@/api/generated/types.gen'
+import type { DuplicateTransactionMatch, TransactionDraft } from '../types'
+import { draftDateDistanceDays } from './instance-matching'
+
+export type MatchableTransaction = Omit<
+  Pick<
+    Transaction,
+    | 'id'
+    | 'name'
+    | 'amount'
+    | 'type'
+    | 'account'
+    | 'transferToAccount'
+    | 'recipient'
+    | 'incomeSource'
+  >,
+  'date'
+> & {
+  date: string | Date
+}
+
+/** Banks may book a few days after the transaction was registered manually. */
+export const DUPLICATE_DATE_TOLERANCE_DAYS = 3
+const MAX_AMOUNT_DIFFERENCE = 0.005
+const MAX_NAME_SCORE = 0.5
+
+function toDate(value: string | Date): Date {
+  return value instanceof Date ? value : new Date(value)
+}
+
+/**
+ * Best fuzzy score of any stored name inside the bank description. The stored
+ * names are the search patterns because bank texts wrap the merchant in
+ * prefixes and suffixes ("KORTKÖP ICA MAXI STORMARKNAD") that would never fit
+ * inside a short name like "ICA Maxi".
+ */
+function nameScore(description: string, candidates: string[]): number {
+  if (!description.trim()) return 1
+  const fuse = new Fuse(
+    [
+      {
+        value: description
+      }
+    ],
+    {
+      keys: [
+        'value'
+      ],
+      includeScore: true,
+      ignoreDiacritics: true,
+      ignoreLocation: true,
+      threshold: MAX_NAME_SCORE
+    }
+  )
+  return Math.min(
+    1,
+    ...candidates
+      .filter((candidate) => candidate.trim())
+      .map((candidate) => fuse.search(candidate.trim())[0]?.score ?? 1)
+  )
+}
+
+/**
+ * Direction of money on the origin account: +1 in, -1 out, 0 when the
+ * transaction does not touch the account at all.
+ */
+function directionOnAccount(
+  transaction: MatchableTransaction,
+  accountId: string
+): number {
+  if (transaction.type === TransactionType.TRANSFER) {
+    if (transaction.transferToAccount?.id === accountId) return 1
+    if (transaction.account.id === accountId) return -1
+    return 0
+  }
+  if (accountId && transaction.account.id !== accountId) return 0
+  return transaction.type === TransactionType.INCOME ? 1 : -1
+}
+
+function duplicateScore(
+  draft: TransactionDraft,
+  transaction: MatchableTransaction
+): number | null {
+  if (
+    Math.abs(draft.amount - Math.abs(transaction.amount)) >
+    MAX_AMOUNT_DIFFERENCE
+  )
+    return null
+  if (
+    draft.signedAmount !== 0 &&
+    directionOnAccount(transaction, draft.originAccountId) !==
+      Math.sign(draft.signedAmount)
+  )
+    return null
+
+  const dateScore = draftDateDistanceDays(draft, transaction.date)
+  if (dateScore > DUPLICATE_DATE_TOLERANCE_DAYS) return null
+
+  const textScore = nameScore(draft.originalDescription, [
+    transaction.name,
+    transaction.recipient?.name ?? '',
+    transaction.incomeSource?.name ?? ''
+  ])
+  if (textScore > MAX_NAME_SCORE) return null
+
+  return dateScore / DUPLICATE_DATE_TOLERANCE_DAYS + textScore
+}
+
+function toDuplicateMatch(
+  transaction: MatchableTransaction
+): DuplicateTransactionMatch {
+  return {
+    transactionId: transaction.id,
+    name: transaction.name,
+    date: toDate(transaction.date).toISOString().slice(0, 10),
+    amount: Math.abs(transaction.amount),
+    type: transaction.type
+  }
+}
+
+/**
+ * Pairs drafts with already registered transactions on the origin account.
+ * A pair needs the same amount and direction, dates within
+ * `DUPLICATE_DATE_TOLERANCE_DAYS`, and a fuzzy name match. Each existing
+ * transaction is matched at most once, best-scoring pairs first.
+ */
+export function findDuplicateTransactions(
+  drafts: TransactionDraft[],
+  transactions: MatchableTransaction[]
+): Map<string, DuplicateTransactionMatch> {
+  const candidates: Array<{
+    draftId: string
+    transaction: MatchableTransaction
+    score: number
+  }> = []
+
+  for (const draft of drafts) {
+    for (const transaction of transactions) {
+      const score = duplicateScore(draft, transaction)
+      if (score !== null)
+        candidates.push({
+          draftId: draft.id,
+          transaction,
+          score
+        })
+    }
+  }
+
+  candidates.sort((a, b) => a.score - b.score)
+
+  const matches = new Map<string, DuplicateTransactionMatch>()
+  const usedTransactionIds = new Set<string>()
+  for (const candidate of candidates) {
+    if (
+      matches.has(candidate.draftId) ||
+      usedTransactionIds.has(candidate.transaction.id)
+    )
+      continue
+    matches.set(candidate.draftId, toDuplicateMatch(candidate.transaction))
+    usedTransactionIds.add(candidate.transaction.id)
+  }
+
+  return matches
+}
+
+/**
+ * Flags probable duplicates and excludes them, so re-importing an overlapping
+ * statement does not create the same transaction twice. Users can include a
+ * flagged row again from the table. Earlier flags are replaced, so re-running
+ * after an origin account change re-includes rows that no longer match.
+ * Rows already imported are left alone, and the transactions they created
+ * are not matched against the rest.
+ */
+export function flagDuplicateDrafts(
+  drafts: TransactionDraft[],
+  transactions: MatchableTransaction[]
+): TransactionDraft[] {
+  const importedIds = new Set(
+    drafts.map((draft) => draft.importedTransactionId).filter(Boolean)
+  )
+  const cleared = drafts.map((draft) =>
+    draft.duplicateOf && !draft.importedTransactionId
+      ? {
+          ...draft,
+          duplicateOf: undefined,
+          excluded: false
+        }
+      : draft
+  )
+  const matches = findDuplicateTransactions(
+    cleared.filter((draft) => !draft.importedTransactionId),
+    transactions.filter((transaction) => !importedIds.has(transaction.id))
+  )
+  return cleared.map((draft) => {
+    const duplicateOf = matches.get(draft.id)
+    if (!duplicateOf) return draft
+    return {
+      ...draft,
+      duplicateOf,
+      excluded: true
+    }
+  })
+}
+
+/**
+ * Date span covering every draft (booking and value dates), widened by the
+ * duplicate tolerance. Returns null when there are no drafts.
+ */
+export function statementDateSpan(drafts: TransactionDraft[]): {
+  dateFrom: Date
+  dateTo: Date
+} | null {
+  const times = drafts
+    .flatMap((draft) => [
+      draft.date,
+      draft.valueDate
+    ])
+    .filter((value): value is string => Boolean(value))
+    .map((value) => new Date(value).getTime())
+    .filter((time) => !Number.isNaN(time))
+  if (times.length === 0) return null
+
+  const tolerance = DUPLICATE_DATE_TOLERANCE_DAYS * 86_400_000
+  return {
+    dateFrom: new Date(Math.min(...times) - tolerance),
+    dateTo: new Date(Math.max(...times) + tolerance)
+  }
+}
@@ -2,7 +2,18 @@ import Fuse from 'fuse.js'
 import type { BillInstance, IncomeInstance } from '@/api/generated/types.gen'
 import type { TransactionDraft } from '../types'
 
-type MatchableIncomeInstance = Pick<
+/** Row fields instance matching reads; drafts and registered transactions fit. */
+export type InstanceMatchInput = Pick<
+  TransactionDraft,
+  | 'date'
+  | 'valueDate'
+  | 'amount'
+  | 'originalDescription'
+  | 'recipientId'
+  | 'incomeSourceId'
+>
+
+export type MatchableIncomeInstance = Pick<
   IncomeInstance,
   | 'id'
   | 'name'
@@ -13,7 +24,7 @@ type MatchableIncomeInstance = Pick<
   | 'transactionId'
 >
 
-type MatchableBillInstance = Omit<
+export type MatchableBillInstance = Omit<
   Pick<
     BillInstance,
     | 'id'
@@ -40,6 +51,16 @@ function dateDistanceDays(a: string, b: string | Date): number {
   return Math.abs(left.getTime() - right.getTime()) / 86_400_000
 }
 
+/** Closest of booking and value date, so either may line up with `date`. */
+export function draftDateDistanceDays(
+  draft: Pick<TransactionDraft, 'date' | 'valueDate'>,
+  date: string | Date
+): number {
+  const bookingDistance = dateDistanceDays(draft.date, date)
+  if (!draft.valueDate) return bookingDistance
+  return Math.min(bookingDistance, dateDistanceDays(draft.valueDate, date))
+}
+
 function amountDistanceRatio(a: number, b: number): number {
   const base = Math.max(Math.abs(a), Math.abs(b), 1)
   return Math.abs(Math.abs(a) - Math.abs(b)) / base
@@ -75,7 +96,7 @@ function instanceIsAvailable(
 }
 
 export function findMatchingIncomeInstanceId(
-  draft: TransactionDraft,
+  draft: InstanceMatchInput,
   instances: MatchableIncomeInstance[],
   selectedIds: Set<string>
 ): string {
@@ -93,7 +114,7 @@ export function findMatchingIncomeInstanceId(
     )
       continue
 
-    const dateScore = dateDistanceDays(draft.date, instance.expectedDate)
+    const dateScore = draftDateDistanceDays(draft, instance.expectedDate)
     const amountScore =
       draft.amount === 0
         ? 0
@@ -164,7 +185,7 @@ export function buildBillInstancePatch(
 }
 
 export function findMatchingBillInstanceId(
-  draft: TransactionDraft,
+  draft: InstanceMatchInput,
   instances: MatchableBillInstance[],
   selectedIds: Set<string>
 ): string {
@@ -181,7 +202,7 @@ export function findMatchingBillInstanceId(
     if (draft.recipientId && instance.recipient.id !== draft.recipientId)
       continue
 
-    const dateScore = dateDistanceDays(draft.date, instance.dueDate)
+    const dateScore = draftDateDistanceDays(draft, instance.dueDate)
     const amountScore =
       draft.amount === 0
         ? 0
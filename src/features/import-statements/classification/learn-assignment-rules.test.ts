@@ -0,0 +1,211 @@
+import { describe, expect, it } from 'vitest'
+import { TransactionType } from '@/api/generated/types.gen'
+import { createAssignmentRule } from '@/features/assignment-rules/rules'
+import type { TransactionDraft } from '../types'
+import {
+  applyAssignmentRuleProposals,
+  descriptionRuleText,
+  proposeAssignmentRules
+} from './learn-assignment-rules'
+
+const unassigned = {
+  type: TransactionType.EXPENSE,
+  recipientId: '',
+  incomeSourceId: '',
+  categoryId: '',
+  budgetId: '',
+  hasSplits: false
+}
+
+function draft(overrides: Partial<TransactionDraft>): TransactionDraft {
+  return {
+    id: 'draft',
+    sourceRowNumber: 2,
+    originalDescription: 'KORTKÖP 240312 WILLYS GÖTEBORG',
+    date: '2026-03-12',
+    amount: 412.5,
+    signedAmount: -412.5,
+    type: TransactionType.EXPENSE,
+    name: 'KORTKÖP 240312 WILLYS GÖTEBORG',
+    originAccountId: 'account',
+    recipientId: 'willys',
+    categoryId: 'groceries',
+    budgetId: 'food',
+    excluded: false,
+    suggestion: unassigned,
+    ...overrides
+  }
+}
+
+describe('descriptionRuleText', () => {
+  it('keeps the longest run of words without digits', () => {
+    expect(descriptionRuleText('KORTKÖP 240312 WILLYS GÖTEBORG')).toBe(
+      'WILLYS GÖTEBORG'
+    )
+    expect(descriptionRuleText('KORTKÖP WILLYS 4321')).toBe('KORTKÖP WILLYS')
+    expect(descriptionRuleText('123 456')).toBe('')
+  })
+})
+
+describe('proposeAssignmentRules', () => {
+  it('proposes a rule for corrected rows sharing a description', () => {
+    const proposals = proposeAssignmentRules(
+      [
+        draft({
+          id: 'a'
+        }),
+        draft({
+          id: 'b',
+          originalDescription: 'KORTKÖP 240319 WILLYS GÖTEBORG'
+        })
+      ],
+      []
+    )
+
+    expect(proposals).toEqual([
+      {
+        id: 'willys goteborg:out',
+        ruleId: undefined,
+        descriptionContains: 'WILLYS GÖTEBORG',
+        sign: 'out',
+        type: TransactionType.EXPENSE,
+        recipientId: 'willys',
+        incomeSourceId: '',
+        categoryId: 'groceries',
+        budgetId: 'food',
+        rowCount: 2
+      }
+    ])
+  })
+
+  it('skips accepted suggestions, conflicting groups, and new catalog names', () => {
+    expect(
+      proposeAssignmentRules(
+        [
+          draft({
+            suggestion: {
+              ...unassigned,
+              recipientId: 'willys',
+              categoryId: 'groceries',
+              budgetId: 'food'
+            }
+          })
+        ],
+        []
+      )
+    ).toEqual([])
+    expect(
+      proposeAssignmentRules(
+        [
+          draft({
+            id: 'a'
+          }),
+          draft({
+            id: 'b',
+            budgetId: 'household'
+          })
+        ],
+        []
+      )
+    ).toEqual([])
+    expect(
+      proposeAssignmentRules(
+        [
+          draft({
+            recipientId: undefined,
+            newRecipientName: 'Willys'
+          })
+        ],
+        []
+      )
+    ).toEqual([])
+  })
+
+  it('updates the existing rule with the same description text', () => {
+    const rule = createAssignmentRule({
+      id: 'rule',
+      conditions: {
+        descriptionContains: 'willys göteborg'
+      },
+      actions: {
+        categoryId: 'other'
+      }
+    })
+
+    const proposals = proposeAssignmentRules(
+      [
+        draft({})
+      ],
+      [
+        rule
+      ]
+    )
+
+    expect(proposals[0]?.ruleId).toBe('rule')
+  })
+})
+
+describe('applyAssignmentRuleProposals', () => {
+  it('prepends new rules and replaces actions of updated ones', () => {
+    const existing = createAssignmentRule({
+      id: 'rule',
+      name: 'ICA',
+      conditions: {
+        descriptionContains: 'ica'
+      },
+      actions: {
+        categoryId: 'other'
+      }
+    })
+    const [created, updated] = applyAssignmentRuleProposals(
+      [
+        existing
+      ],
+      [
+        {
+          id: 'willys:out',
+          descriptionContains: 'WILLYS',
+          sign: 'out',
+          type: TransactionType.EXPENSE,
+          recipientId: 'willys',
+          incomeSourceId: '',
+          categoryId: 'groceries',
+          budgetId: 'food',
+          rowCount: 1
+        },
+        {
+          id: 'ica:out',
+          ruleId: 'rule',
+          descriptionContains: 'ICA',
+          sign: 'out',
+          type: TransactionType.EXPENSE,
+          recipientId: 'ica',
+          incomeSourceId: '',
+          categoryId: 'groceries',
+          budgetId: 'food',
+          rowCount: 1
+        }
+      ]
+    )
+
+    expect(created).toMatchObject({
+      name: 'WILLYS',
+      conditions: {
+        descriptionContains: 'WILLYS',
+        sign: 'out'
+      },
+      actions: {
+        recipientId: 'willys',
+        budgetId: 'food'
+      }
+    })
+    expect(updated).toMatchObject({
+      id: 'rule',
+      name: 'ICA',
+      actions: {
+        recipientId: 'ica',
+        categoryId: 'groceries'
+      }
+    })
+  })
+})
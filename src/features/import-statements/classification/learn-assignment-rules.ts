@@ -0,0 +1,266 @@
+import { TransactionType } from '@/api/generated/types.gen'
+import {
+  createAssignmentRule,
+  normalizeRuleText
+} from '@/features/assignment-rules/rules'
+import type {
+  AssignmentRule,
+  AssignmentRuleSign
+} from '@/features/assignment-rules/types'
+import type { TransactionDraft } from '../types'
+
+/** Rule suggested from rows the user re-mapped by hand during an import. */
+export type AssignmentRuleProposal = {
+  /** Stable per import: normalized description text plus sign. */
+  id: string
+  /** Existing rule with the same description text; absent for new rules. */
+  ruleId?: string
+  descriptionContains: string
+  sign: Exclude<AssignmentRuleSign, 'any'>
+  type: typeof TransactionType.EXPENSE | typeof TransactionType.INCOME
+  recipientId: string
+  incomeSourceId: string
+  categoryId: string
+  budgetId: string
+  /** Imported rows that share this description and assignment. */
+  rowCount: number
+}
+
+type LearnedTarget = Pick<
+  AssignmentRuleProposal,
+  'type' | 'recipientId' | 'incomeSourceId' | 'categoryId' | 'budgetId'
+>
+
+/**
+ * Longest run of words without digits, e.g. `KORTKÖP WILLYS GÖTEBORG` from
+ * `KORTKÖP WILLYS GÖTEBORG 240312`. Dates, card numbers, and references vary
+ * between statements, so they would keep a substring rule from matching again.
+ */
+export function descriptionRuleText(description: string): string {
+  let best: string[] = []
+  let current: string[] = []
+  for (const token of description.trim().split(/\s+/)) {
+    if (/\p{L}/u.test(token) && !/\d/.test(token)) {
+      current.push(token)
+      continue
+    }
+    if (current.join(' ').length > best.join(' ').length) best = current
+    current = []
+  }
+  if (current.join(' ').length > best.join(' ').length) best = current
+  return best.join(' ')
+}
+
+/** Final catalog assignment of an imported row, or null when nothing can be learned. */
+function learnedTarget(draft: TransactionDraft): LearnedTarget | null {
+  if (draft.excluded || draft.splits?.length) return null
+  // New catalog names only get ids once created; skip rather than guess.
+  if (
+    draft.newRecipientName ||
+    draft.newIncomeSourceName ||
+    draft.newCategoryName
+  )
+    return null
+
+  if (draft.type === TransactionType.EXPENSE) {
+    return {
+      type: TransactionType.EXPENSE,
+      recipientId: draft.recipientId ?? '',
+      incomeSourceId: '',
+      categoryId: draft.categoryId ?? '',
+      budgetId: draft.budgetId ?? ''
+    }
+  }
+  if (draft.type === TransactionType.INCOME) {
+    return {
+      type: TransactionType.INCOME,
+      recipientId: '',
+      incomeSourceId: draft.incomeSourceId ?? '',
+      categoryId: draft.categoryId ?? '',
+      budgetId: ''
+    }
+  }
+  return null
+}
+
+function hasCatalogValue(target: LearnedTarget): boolean {
+  return Boolean(
+    target.recipientId ||
+      target.incomeSourceId ||
+      target.categoryId ||
+      target.budgetId
+  )
+}
+
+function sameTarget(a: LearnedTarget, b: LearnedTarget): boolean {
+  return (
+    a.type === b.type &&
+    a.recipientId === b.recipientId &&
+    a.incomeSourceId === b.incomeSourceId &&
+    a.categoryId === b.categoryId &&
+    a.budgetId === b.budgetId
+  )
+}
+
+function wasCorrected(draft: TransactionDraft, target: LearnedTarget): boolean {
+  const suggestion = draft.suggestion
+  if (!suggestion) return false
+  return (
+    suggestion.hasSplits ||
+    !sameTarget(target, {
+      type: suggestion.type as LearnedTarget['type'],
+      recipientId:
+        target.type === TransactionType.EXPENSE ? suggestion.recipientId : '',
+      incomeSourceId:
+        target.type === TransactionType.INCOME ? suggestion.incomeSourceId : '',
+      categoryId: suggestion.categoryId,
+      budgetId:
+        target.type === TransactionType.EXPENSE ? suggestion.budgetId : ''
+    })
+  )
+}
+
+function findRuleForText(
+  rules: AssignmentRule[],
+  text: string,
+  sign: AssignmentRuleProposal['sign']
+): AssignmentRule | undefined {
+  const key = normalizeRuleText(text)
+  return rules.find(
+    (rule) =>
+      normalizeRuleText(rule.conditions.descriptionContains.trim()) === key &&
+      (rule.conditions.sign === 'any' || rule.conditions.sign === sign)
+  )
+}
+
+function ruleAlreadyAssigns(rule: AssignmentRule, target: LearnedTarget) {
+  const { actions } = rule
+  return (
+    actions.splits.length === 0 &&
+    actions.type === target.type &&
+    actions.recipientId === target.recipientId &&
+    actions.incomeSourceId === target.incomeSourceId &&
+    actions.categoryId === target.categoryId &&
+    actions.budgetId === target.budgetId
+  )
+}
+
+/**
+ * Compares imported expense/income rows with what the assignment rules first
+ * suggested and proposes one rule per description the user corrected. Rows
+ * are grouped by `descriptionRuleText`; groups whose rows ended up with
+ * different assignments are ambiguous and skipped.
+ */
+export function proposeAssignmentRules(
+  drafts: TransactionDraft[],
+  rules: AssignmentRule[]
+): AssignmentRuleProposal[] {
+  const groups = new Map<
+    string,
+    {
+      text: string
+      sign: AssignmentRuleProposal['sign']
+      target: LearnedTarget
+      rowCount: number
+      corrected: boolean
+      conflicting: boolean
+    }
+  >()
+
+  for (const draft of drafts) {
+    const target = learnedTarget(draft)
+    if (!target) continue
+    const text = descriptionRuleText(draft.originalDescription)
+    if (!text) continue
+
+    const sign = target.type === TransactionType.INCOME ? 'in' : 'out'
+    const key = `${normalizeRuleText(text)}:${sign}`
+    const group = groups.get(key)
+    if (!group) {
+      groups.set(key, {
+        text,
+        sign,
+        target,
+        rowCount: 1,
+        corrected: wasCorrected(draft, target),
+        conflicting: false
+      })
+      continue
+    }
+    group.rowCount += 1
+    group.corrected ||= wasCorrected(draft, target)
+    group.conflicting ||= !sameTarget(group.target, target)
+  }
+
+  const proposals: AssignmentRuleProposal[] = []
+  for (const [key, group] of groups) {
+    if (!group.corrected || group.conflicting) continue
+    if (!hasCatalogValue(group.target)) continue
+
+    const existing = findRuleForText(rules, group.text, group.sign)
+    if (existing && ruleAlreadyAssigns(existing, group.target)) continue
+
+    proposals.push({
+      id: key,
+      ruleId: existing?.id,
+      descriptionContains: group.text,
+      sign: group.sign,
+      ...group.target,
+      rowCount: group.rowCount
+    })
+  }
+  return proposals
+}
+
+/**
+ * Returns `rules` with accepted proposals applied. Updates replace the
+ * matching rule's actions in place; new rules go first so a learned,
+ * description-specific rule wins over broader ones.
+ */
+export function applyAssignmentRuleProposals(
+  rules: AssignmentRule[],
+  proposals: AssignmentRuleProposal[]
+): AssignmentRule[] {
+  const actionsOf = (proposal: AssignmentRuleProposal) => ({
+    type: proposal.type,
+    recipientId: proposal.recipientId,
+    incomeSourceId: proposal.incomeSourceId,
+    categoryId: proposal.categoryId,
+    budgetId: proposal.budgetId,
+    splits: []
+  })
+
+  const updates = new Map(
+    proposals
+      .filter((proposal) => proposal.ruleId)
+      .map((proposal) => [
+        proposal.ruleId,
+        proposal
+      ])
+  )
+  const created = proposals
+    .filter((proposal) => !proposal.ruleId)
+    .map((proposal) =>
+      createAssignmentRule({
+        name: proposal.descriptionContains,
+        conditions: {
+          descriptionContains: proposal.descriptionContains,
+          sign: proposal.sign
+        },
+        actions: actionsOf(proposal)
+      })
+    )
+
+  return [
+    ...created,
+    ...rules.map((rule) => {
+      const proposal = updates.get(rule.id)
+      return proposal
+        ? {
+            ...rule,
+            actions: actionsOf(proposal)
+          }
+        : rule
+    })
+  ]
+}
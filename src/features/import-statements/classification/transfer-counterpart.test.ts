@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest'
+import { TransactionType } from '@/api/generated/types.gen'
+import type { TransactionDraft } from '../types'
+import type { MatchableTransaction } from './duplicate-detection'
+import { applyTransferCounterparts } from './transfer-counterpart'
+
+function draft(overrides: Partial<TransactionDraft>): TransactionDraft {
+  return {
+    id: 'draft',
+    sourceRowNumber: 7,
+    originalDescription: 'Överföring',
+    date: '2026-06-25',
+    amount: 3000,
+    signedAmount: -3000,
+    type: TransactionType.TRANSFER,
+    name: 'Överföring',
+    originAccountId: 'checking',
+    transferFromAccountId: 'checking',
+    transferToAccountId: '',
+    excluded: false,
+    ...overrides
+  }
+}
+
+function transaction(
+  overrides: Partial<MatchableTransaction>
+): MatchableTransaction {
+  return {
+    id: 'transaction',
+    name: 'Insättning',
+    amount: 3000,
+    date: '2026-06-26T00:00:00.000Z',
+    type: TransactionType.INCOME,
+    account: {
+      id: 'savings',
+      name: 'Sparkonto'
+    },
+    ...overrides
+  }
+}
+
+describe('applyTransferCounterparts', () => {
+  it('fills the destination from an opposite transaction on another account', () => {
+    const [matched] = applyTransferCounterparts(
+      [
+        draft({})
+      ],
+      [
+        transaction({}),
+        transaction({
+          id: 'same-account',
+          account: {
+            id: 'checking',
+            name: 'Lönekonto'
+          }
+        }),
+        transaction({
+          id: 'wrong-direction',
+          type: TransactionType.EXPENSE,
+          account: {
+            id: 'buffer',
+            name: 'Buffert'
+          }
+        })
+      ]
+    )
+
+    expect(matched).toMatchObject({
+      transferToAccountId: 'savings',
+      transferCounterpart: {
+        source: 'transaction',
+        confidence: 'medium',
+        candidateAccountIds: [
+          'savings'
+        ]
+      }
+    })
+  })
+
+  it('marks rows with several fitting accounts as low confidence', () => {
+    const [matched] = applyTransferCounterparts(
+      [
+        draft({
+          signedAmount: 3000,
+          transferFromAccountId: '',
+          transferToAccountId: 'checking'
+        })
+      ],
+      [
+        transaction({
+          type: TransactionType.EXPENSE,
+          date: '2026-06-22T00:00:00.000Z'
+        }),
+        transaction({
+          id: 'closer',
+          type: TransactionType.EXPENSE,
+          account: {
+            id: 'buffer',
+            name: 'Buffert'
+          }
+        })
+      ]
+    )
+
+    expect(matched).toMatchObject({
+      transferFromAccountId: 'buffer',
+      transferCounterpart: {
+        confidence: 'low',
+        candidateAccountIds: [
+          'buffer',
+          'savings'
+        ]
+      }
+    })
+  })
+
+  it('leaves rows with a known counterpart or no candidates alone', () => {
+    const drafts = [
+      draft({
+        id: 'known',
+        transferToAccountId: 'buffer'
+      }),
+      draft({
+        id: 'late',
+        date: '2026-07-20'
+      })
+    ]
+
+    expect(
+      applyTransferCounterparts(drafts, [
+        transaction({})
+      ])
+    ).toEqual(drafts)
+  })
+})
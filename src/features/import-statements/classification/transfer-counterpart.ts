@@ -0,0 +1,97 @@
+import { TransactionType } from '@/api/generated/types.gen'
+import type { TransactionDraft } from '../types'
+import type { MatchableTransaction } from './duplicate-detection'
+import { draftDateDistanceDays } from './instance-matching'
+import { TRANSFER_PAIR_DATE_TOLERANCE_DAYS } from './transfer-pairing'
+
+const MAX_AMOUNT_DIFFERENCE = 0.005
+
+/** True when the side of the transfer away from the origin account is empty. */
+function isMissingCounterpart(draft: TransactionDraft): boolean {
+  return draft.signedAmount < 0
+    ? !draft.transferToAccountId
+    : !draft.transferFromAccountId
+}
+
+/**
+ * Accounts other than origin holding a registered income (for outgoing rows)
+ * or expense (for incoming rows) with the same amount within
+ * `TRANSFER_PAIR_DATE_TOLERANCE_DAYS`, closest first. Transfers are skipped:
+ * one touching the origin account is a duplicate, not a counterpart.
+ */
+export function findCounterpartAccountIds(
+  draft: TransactionDraft,
+  transactions: MatchableTransaction[]
+): string[] {
+  const expectedType =
+    draft.signedAmount < 0 ? TransactionType.INCOME : TransactionType.EXPENSE
+  const distanceByAccount = new Map<string, number>()
+
+  for (const transaction of transactions) {
+    if (
+      transaction.type !== expectedType ||
+      transaction.account.id === draft.originAccountId ||
+      Math.abs(Math.abs(transaction.amount) - draft.amount) >
+        MAX_AMOUNT_DIFFERENCE
+    )
+      continue
+    const distance = draftDateDistanceDays(draft, transaction.date)
+    if (distance > TRANSFER_PAIR_DATE_TOLERANCE_DAYS) continue
+    distanceByAccount.set(
+      transaction.account.id,
+      Math.min(
+        distance,
+        distanceByAccount.get(transaction.account.id) ?? Infinity
+      )
+    )
+  }
+
+  return [
+    ...distanceByAccount
+  ]
+    .sort((a, b) => a[1] - b[1])
+    .map(([accountId]) => accountId)
+}
+
+/**
+ * Fills the missing account of included transfer rows from opposite
+ * registered transactions on other accounts. A single fitting account is a
+ * `medium` match; several fill the closest one and are marked `low` so the
+ * row shows as ambiguous.
+ */
+export function applyTransferCounterparts(
+  drafts: TransactionDraft[],
+  transactions: MatchableTransaction[]
+): TransactionDraft[] {
+  return drafts.map((draft) => {
+    if (
+      draft.type !== TransactionType.TRANSFER ||
+      draft.excluded ||
+      draft.importedTransactionId ||
+      !draft.originAccountId ||
+      draft.signedAmount === 0 ||
+      !isMissingCounterpart(draft)
+    )
+      return draft
+
+    const candidateAccountIds = findCounterpartAccountIds(draft, transactions)
+    if (candidateAccountIds.length === 0) return draft
+
+    const [accountId] = candidateAccountIds
+    return {
+      ...draft,
+      ...(draft.signedAmount < 0
+        ? {
+            transferToAccountId: accountId
+          }
+        : {
+            transferFromAccountId: accountId
+          }),
+      transferCounterpart: {
+        source: 'transaction',
+        confidence: candidateAccountIds.length === 1 ? 'medium' : 'low',
+        candidateAccountIds
+      }
+    }
+  })
+}
@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest'
+import { TransactionType } from '@/api/generated/types.gen'
+import type { TransactionDraft } from '../types'
+import {
+  confirmTransferPair,
+  pairStatementTransfers,
+  unpairStatementTransfers
+} from './transfer-pairing'
+
+function draft(overrides: Partial<TransactionDraft>): TransactionDraft {
+  return {
+    id: 'draft',
+    sourceRowNumber: 2,
+    originalDescription: 'Kortköp',
+    date: '2026-03-25',
+    amount: 2000,
+    signedAmount: -2000,
+    type: TransactionType.EXPENSE,
+    name: 'Kortköp',
+    originAccountId: 'checking',
+    excluded: false,
+    ...overrides
+  }
+}
+
+describe('pairStatementTransfers', () => {
+  it('merges a debit and a matching credit on another account', () => {
+    const outgoing = draft({
+      id: 'out',
+      originalDescription: 'Överföring sparkonto',
+      categoryId: 'savings'
+    })
+    const incoming = draft({
+      id: 'in',
+      date: '2026-03-26',
+      signedAmount: 2000,
+      type: TransactionType.INCOME,
+      originAccountId: 'savings'
+    })
+
+    const paired = pairStatementTransfers([
+      outgoing,
+      draft({
+        id: 'rent',
+        amount: 9000,
+        signedAmount: -9000
+      }),
+      incoming
+    ])
+
+    expect(paired.map((row) => row.id)).toEqual([
+      'out',
+      'rent'
+    ])
+    expect(paired[0]).toMatchObject({
+      type: TransactionType.TRANSFER,
+      transferFromAccountId: 'checking',
+      transferToAccountId: 'savings',
+      categoryId: undefined,
+      transferPair: {
+        outgoing,
+        incoming
+      }
+    })
+    expect(unpairStatementTransfers(paired)).toEqual([
+      outgoing,
+      incoming,
+      paired[1]
+    ])
+  })
+
+  it('leaves rows on the same account, far apart, or excluded unpaired', () => {
+    const drafts = [
+      draft({
+        id: 'out'
+      }),
+      draft({
+        id: 'same-account',
+        signedAmount: 2000
+      }),
+      draft({
+        id: 'too-late',
+        date: '2026-04-10',
+        signedAmount: 2000,
+        originAccountId: 'savings'
+      }),
+      draft({
+        id: 'excluded',
+        signedAmount: 2000,
+        originAccountId: 'savings',
+        excluded: true
+      })
+    ]
+
+    expect(pairStatementTransfers(drafts)).toBe(drafts)
+  })
+
+  it('pairs each row once, closest dates first', () => {
+    const paired = pairStatementTransfers([
+      draft({
+        id: 'out-1',
+        date: '2026-03-20'
+      }),
+      draft({
+        id: 'out-2',
+        date: '2026-03-25'
+      }),
+      draft({
+        id: 'in',
+        date: '2026-03-24',
+        signedAmount: 2000,
+        type: TransactionType.TRANSFER,
+        originAccountId: 'savings'
+      })
+    ])
+
+    expect(
+      paired.map((row) => [
+        row.id,
+        row.transferPair?.incoming.id
+      ])
+    ).toEqual([
+      [
+        'out-1',
+        undefined
+      ],
+      [
+        'out-2',
+        'in'
+      ]
+    ])
+  })
+
+  it('only suggests pairing an ordinary expense and income of the same amount', () => {
+    const expense = draft({
+      id: 'ica',
+      originalDescription: 'ICA MAXI',
+      recipientId: 'ica',
+      budgetId: 'food'
+    })
+    const income = draft({
+      id: 'salary',
+      originalDescription: 'LÖN',
+      date: '2026-03-25',
+      signedAmount: 2000,
+      type: TransactionType.INCOME,
+      originAccountId: 'savings'
+    })
+
+    const suggested = pairStatementTransfers([
+      expense,
+      income
+    ])
+
+    expect(suggested).toEqual([
+      {
+        ...expense,
+        transferPairSuggestion: {
+          draftId: 'salary',
+          originalDescription: 'LÖN',
+          date: '2026-03-25'
+        }
+      },
+      {
+        ...income,
+        transferPairSuggestion: {
+          draftId: 'ica',
+          originalDescription: 'ICA MAXI',
+          date: '2026-03-25'
+        }
+      }
+    ])
+
+    const confirmed = confirmTransferPair(suggested, 'salary')
+    expect(confirmed).toHaveLength(1)
+    expect(confirmed[0]).toMatchObject({
+      id: 'ica',
+      type: TransactionType.TRANSFER,
+      transferFromAccountId: 'checking',
+      transferToAccountId: 'savings',
+      transferPairSuggestion: undefined,
+      transferPair: {
+        outgoing: expense,
+        incoming: income
+      }
+    })
+  })
+})
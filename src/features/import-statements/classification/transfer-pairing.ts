@@ -0,0 +1,244 @@
+import { TransactionType } from '@/api/generated/types.gen'
+import type { TransactionDraft, TransferPairSuggestion } from '../types'
+import { hasTransferHint } from './classify-transaction'
+
+/** Transfers between own accounts may book a few days apart. */
+export const TRANSFER_PAIR_DATE_TOLERANCE_DAYS = 3
+const MAX_AMOUNT_DIFFERENCE = 0.005
+const DAY_MS = 86_400_000
+
+function dayDistance(a: TransactionDraft, b: TransactionDraft): number {
+  const datesA = [
+    a.date,
+    a.valueDate
+  ].filter((value): value is string => Boolean(value))
+  const datesB = [
+    b.date,
+    b.valueDate
+  ].filter((value): value is string => Boolean(value))
+
+  let best = Number.POSITIVE_INFINITY
+  for (const dateA of datesA) {
+    for (const dateB of datesB) {
+      const distance = Math.abs(
+        new Date(dateA).getTime() - new Date(dateB).getTime()
+      )
+      if (!Number.isNaN(distance)) best = Math.min(best, distance / DAY_MS)
+    }
+  }
+  return best
+}
+
+function isPairable(draft: TransactionDraft): boolean {
+  return (
+    !draft.excluded &&
+    !draft.transferPair &&
+    !draft.duplicateOf &&
+    Boolean(draft.originAccountId) &&
+    draft.signedAmount !== 0
+  )
+}
+
+/**
+ * Whether anything besides amount and date says the two rows are one
+ * transfer: either row is already classified as a transfer, its text reads
+ * like one, or its counterparty account is the other row's account.
+ */
+function hasTransferSignal(
+  outgoing: TransactionDraft,
+  incoming: TransactionDraft
+): boolean {
+  return (
+    outgoing.type === TransactionType.TRANSFER ||
+    incoming.type === TransactionType.TRANSFER ||
+    hasTransferHint(outgoing.originalDescription) ||
+    hasTransferHint(incoming.originalDescription) ||
+    outgoing.transferToAccountId === incoming.originAccountId ||
+    incoming.transferFromAccountId === outgoing.originAccountId
+  )
+}
+
+function withoutSuggestion(draft: TransactionDraft): TransactionDraft {
+  return draft.transferPairSuggestion
+    ? {
+        ...draft,
+        transferPairSuggestion: undefined
+      }
+    : draft
+}
+
+function pairSuggestion(other: TransactionDraft): TransferPairSuggestion {
+  return {
+    draftId: other.id,
+    originalDescription: other.originalDescription,
+    date: other.date
+  }
+}
+
+/**
+ * Transfer on the outgoing row's account that replaces both statement rows.
+ * Assignments from rules are dropped since transfers carry none.
+ */
+function mergeTransferPair(
+  outgoing: TransactionDraft,
+  incoming: TransactionDraft
+): TransactionDraft {
+  return {
+    ...outgoing,
+    type: TransactionType.TRANSFER,
+    transferFromAccountId: outgoing.originAccountId,
+    transferToAccountId: incoming.originAccountId,
+    recipientId: undefined,
+    incomeSourceId: undefined,
+    incomeInstanceId: undefined,
+    billInstanceId: undefined,
+    budgetId: undefined,
+    categoryId: undefined,
+    newCategoryName: undefined,
+    newRecipientName: undefined,
+    newIncomeSourceName: undefined,
+    splits: undefined,
+    parseWarnings: undefined,
+    transferCounterpart: {
+      source: 'pairedRow',
+      confidence: 'high'
+    },
+    transferPair: {
+      outgoing,
+      incoming
+    }
+  }
+}
+
+/**
+ * Merges rows from different origin accounts that are the two sides of one
+ * transfer: a debit and a credit with the same amount, dated within
+ * `TRANSFER_PAIR_DATE_TOLERANCE_DAYS`, with a transfer signal (see
+ * `hasTransferSignal`). Matching rows without a signal only get a
+ * `transferPairSuggestion` for the user to confirm, since an ordinary expense
+ * and income can share an amount. Closest dates pair first and each row pairs
+ * at most once. The merged transfer keeps the outgoing row's position; the
+ * incoming row is removed.
+ */
+export function pairStatementTransfers(
+  drafts: TransactionDraft[]
+): TransactionDraft[] {
+  const candidates: Array<{
+    outgoing: TransactionDraft
+    incoming: TransactionDraft
+    distance: number
+    signal: boolean
+  }> = []
+
+  const pairable = drafts.filter(isPairable)
+  for (const outgoing of pairable) {
+    if (outgoing.signedAmount > 0) continue
+    for (const incoming of pairable) {
+      if (
+        incoming.signedAmount < 0 ||
+        incoming.originAccountId === outgoing.originAccountId ||
+        Math.abs(incoming.amount - outgoing.amount) > MAX_AMOUNT_DIFFERENCE
+      )
+        continue
+      const distance = dayDistance(outgoing, incoming)
+      if (distance > TRANSFER_PAIR_DATE_TOLERANCE_DAYS) continue
+      candidates.push({
+        outgoing,
+        incoming,
+        distance,
+        signal: hasTransferSignal(outgoing, incoming)
+      })
+    }
+  }
+
+  // Signalled pairs win over suggestions, then the closest dates.
+  candidates.sort(
+    (a, b) => Number(b.signal) - Number(a.signal) || a.distance - b.distance
+  )
+
+  const replaced = new Map<string, TransactionDraft>()
+  const removedIds = new Set<string>()
+  for (const { outgoing, incoming, signal } of candidates) {
+    if (replaced.has(outgoing.id) || replaced.has(incoming.id)) continue
+    if (signal) {
+      replaced.set(
+        outgoing.id,
+        mergeTransferPair(
+          withoutSuggestion(outgoing),
+          withoutSuggestion(incoming)
+        )
+      )
+      replaced.set(incoming.id, incoming)
+      removedIds.add(incoming.id)
+      continue
+    }
+    replaced.set(outgoing.id, {
+      ...outgoing,
+      transferPairSuggestion: pairSuggestion(incoming)
+    })
+    replaced.set(incoming.id, {
+      ...incoming,
+      transferPairSuggestion: pairSuggestion(outgoing)
+    })
+  }
+
+  const stale = drafts.some(
+    (draft) => draft.transferPairSuggestion && !replaced.has(draft.id)
+  )
+  if (replaced.size === 0 && !stale) return drafts
+  return drafts
+    .filter((draft) => !removedIds.has(draft.id))
+    .map((draft) => replaced.get(draft.id) ?? withoutSuggestion(draft))
+}
+
+/**
+ * Merges the suggested pair around row `id` into one transfer, as
+ * `pairStatementTransfers` does for pairs with a transfer signal.
+ */
+export function confirmTransferPair(
+  drafts: TransactionDraft[],
+  id: string
+): TransactionDraft[] {
+  const draft = drafts.find((row) => row.id === id)
+  const otherId = draft?.transferPairSuggestion?.draftId
+  const other = drafts.find((row) => row.id === otherId)
+  if (!draft || !other) return drafts
+
+  const [outgoing, incoming] =
+    draft.signedAmount < 0
+      ? [
+          draft,
+          other
+        ]
+      : [
+          other,
+          draft
+        ]
+  const merged = mergeTransferPair(
+    withoutSuggestion(outgoing),
+    withoutSuggestion(incoming)
+  )
+  return drafts
+    .filter((row) => row.id !== incoming.id)
+    .map((row) => (row.id === outgoing.id ? merged : row))
+}
+
+/**
+ * Splits paired transfers back into their original statement rows. Edits made
+ * to the merged transfer are discarded.
+ */
+export function unpairStatementTransfers(
+  drafts: TransactionDraft[],
+  shouldUnpair: (draft: TransactionDraft) => boolean = () => true
+): TransactionDraft[] {
+  return drafts.flatMap((draft) =>
+    draft.transferPair && shouldUnpair(draft)
+      ? [
+          draft.transferPair.outgoing,
+          draft.transferPair.incoming
+        ]
+      : [
+          draft
+        ]
+  )
+}
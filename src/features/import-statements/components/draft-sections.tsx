@@ -0,0 +1,81 @@
+import type { ComponentProps } from 'react'
+import { useTranslation } from 'react-i18next'
+import { TransactionType } from '@/api/generated/types.gen'
+import type { TransactionDraft } from '../types'
+import { ExpensesTable } from './expenses-table'
+import { IncomesTable } from './incomes-table'
+import { TransfersTable } from './transfers-table'
+import { UncategorizedTable } from './uncategorized-table'
+
+export type DraftSectionTableProps = Omit<
+  ComponentProps<typeof ExpensesTable>,
+  'title' | 'rows' | 'onConfirmTransferPair'
+>
+
+type DraftSectionsProps = {
+  /** Origin account heading; omitted when the import covers one account. */
+  heading?: string
+  /** File names of the statements behind this account. */
+  fileNames?: string[]
+  rows: TransactionDraft[]
+  tableProps: DraftSectionTableProps
+  onUnpairTransfer: (id: string) => void
+  onConfirmTransferPair: (id: string) => void
+}
+
+/**
+ * The four review tables (uncategorized, incomes, transfers, expenses) for
+ * one origin account, or for the whole import when there is only one.
+ */
+export function DraftSections({
+  heading,
+  fileNames,
+  rows,
+  tableProps,
+  onUnpairTransfer,
+  onConfirmTransferPair
+}: DraftSectionsProps) {
+  const { t } = useTranslation()
+  const uncategorizedRows = rows.filter(
+    (draft) => draft.type === 'uncategorized'
+  )
+
+  return (
+    <section className="flex flex-col gap-6">
+      {heading ? (
+        <div className="flex flex-col gap-1">
+          <h2 className="type-title-sans-large text-gray-950">{heading}</h2>
+          {fileNames?.length ? (
+            <p className="type-label text-gray-600">{fileNames.join(', ')}</p>
+          ) : null}
+        </div>
+      ) : null}
+      {uncategorizedRows.length > 0 ? (
+        <UncategorizedTable
+          title={t('statementImport.sections.uncategorized')}
+          rows={uncategorizedRows}
+          onConfirmTransferPair={onConfirmTransferPair}
+          {...tableProps}
+        />
+      ) : null}
+      <IncomesTable
+        title={t('statementImport.sections.incomes')}
+        rows={rows.filter((draft) => draft.type === TransactionType.INCOME)}
+        onConfirmTransferPair={onConfirmTransferPair}
+        {...tableProps}
+      />
+      <TransfersTable
+        title={t('statementImport.sections.transfers')}
+        rows={rows.filter((draft) => draft.type === TransactionType.TRANSFER)}
+        onUnpairTransfer={onUnpairTransfer}
+        {...tableProps}
+      />
+      <ExpensesTable
+        title={t('statementImport.sections.expenses')}
+        rows={rows.filter((draft) => draft.type === TransactionType.EXPENSE)}
+        onConfirmTransferPair={onConfirmTransferPair}
+        {...tableProps}
+      />
+    </section>
+  )
+}
@@ -21,6 +21,7 @@ type Props = {
     }
   >
   onDraftChange: (id: string, patch: Partial<TransactionDraft>) => void
+  onConfirmTransferPair: (id: string) => void
 }
 
 export function ExpensesTable(props: Props) {
@@ -4,9 +4,11 @@ import { TransactionType } from '@/api/generated/types.gen'
 import { Button } from '@/components/button/button'
 import type { InvalidStatementRow, TransactionDraft } from '../types'
 import {
+  hasCompleteImportSplits,
   hasImportCategory,
   hasImportIncomeSource,
-  hasImportRecipient
+  hasImportRecipient,
+  hasImportSplits
 } from './import-table-fields'
 
 export function importValidationMessages(
@@ -14,7 +16,9 @@ export function importValidationMessages(
   t: TFunction
 ): string[] {
   const messages: string[] = []
-  const included = drafts.filter((draft) => !draft.excluded)
+  const included = drafts.filter(
+    (draft) => !draft.excluded && !draft.importedTransactionId
+  )
 
   if (included.length === 0) {
     messages.push(t('statementImport.validation.noIncludedRows'))
@@ -26,9 +30,10 @@ export function importValidationMessages(
     included.some(
       (draft) =>
         draft.type === TransactionType.EXPENSE &&
-        (!draft.budgetId ||
-          !hasImportCategory(draft) ||
-          !hasImportRecipient(draft))
+        (!hasImportRecipient(draft) ||
+          (hasImportSplits(draft)
+            ? !hasCompleteImportSplits(draft)
+            : !draft.budgetId || !hasImportCategory(draft)))
     )
   ) {
     messages.push(t('statementImport.validation.expenseRequiredFields'))
@@ -37,7 +42,10 @@ export function importValidationMessages(
     included.some(
       (draft) =>
         draft.type === TransactionType.INCOME &&
-        (!hasImportCategory(draft) || !hasImportIncomeSource(draft))
+        (!hasImportIncomeSource(draft) ||
+          (hasImportSplits(draft)
+            ? !hasCompleteImportSplits(draft)
+            : !hasImportCategory(draft)))
     )
   ) {
     messages.push(t('statementImport.validation.incomeRequiredFields'))
@@ -63,16 +71,25 @@ export function importValidationMessages(
 export function Footer({
   validationMessages,
   invalidRows,
+  importErrors = [],
+  isRetry = false,
   isSubmitting,
   onImport
 }: {
   validationMessages: string[]
   invalidRows: InvalidStatementRow[]
+  /** Rows the server rejected in the last attempt; they do not block a retry. */
+  importErrors?: string[]
+  /** Some rows were already imported; the button imports the remaining ones. */
+  isRetry?: boolean
   isSubmitting: boolean
   onImport: () => void
 }) {
   const { t } = useTranslation()
   const isValid = validationMessages.length === 0 && invalidRows.length === 0
+  const submitLabel = isRetry
+    ? t('statementImport.footer.retry')
+    : t('statementImport.footer.submit')
 
   return (
     <section className="flex flex-col gap-4 border-t border-gray-200 pt-4">
@@ -110,13 +127,23 @@ export function Footer({
             ))}
           </div>
         )}
+        {importErrors.length > 0 ? (
+          <div className="flex flex-col gap-1 text-red-700">
+            {importErrors.map((message) => (
+              <p
+                key={message}
+                className="type-body-medium"
+              >
+                {message}
+              </p>
+            ))}
+          </div>
+        ) : null}
       </div>
       <div className="flex">
         <Button
           label={
-            isSubmitting
-              ? t('statementImport.footer.submitting')
-              : t('statementImport.footer.submit')
+            isSubmitting ? t('statementImport.footer.submitting') : submitLabel
           }
           onClick={onImport}
           disabled={!isValid || isSubmitting}
@@ -30,6 +30,8 @@ type DialogRequest = {
   unallocatedAmount: number
   existingUnallocated: number
   pendingIncomeAmount: number
+  /** Amounts chosen in an earlier attempt; prefilled instead of the shortfall. */
+  initialChoices?: ImportAllocationChoice[]
   resolve: (value: ImportAllocationChoice[] | null) => void
 }
 
@@ -91,6 +93,7 @@ export function useImportBudgetAllocationDialog() {
       unallocatedAmount: number
       existingUnallocated: number
       pendingIncomeAmount: number
+      initialChoices?: ImportAllocationChoice[]
     }) => {
       return new Promise<ImportAllocationChoice[] | null>((resolve) => {
         setDialogState({
@@ -121,19 +124,23 @@ export function useImportBudgetAllocationDialog() {
     ]
   )
 
+  const initialChoices = dialogState?.initialChoices
+
   useEffect(() => {
     if (!dialogState?.open) return
     setAmounts(
       Object.fromEntries(
         shortfalls.map((item) => [
           item.budgetId,
-          item.shortfall
+          initialChoices?.find((choice) => choice.budgetId === item.budgetId)
+            ?.amount ?? item.shortfall
         ])
       )
     )
     setFormError(null)
   }, [
     dialogState?.open,
+    initialChoices,
     shortfalls
   ])
 
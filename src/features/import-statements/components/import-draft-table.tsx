@@ -1,5 +1,16 @@
 import { createColumnHelper } from '@tanstack/react-table'
-import { EditIcon, Link2, SaveIcon, SaveOffIcon, Unlink } from 'lucide-react'
+import type { TFunction } from 'i18next'
+import {
+  ArrowLeftRight,
+  CheckIcon,
+  CopyIcon,
+  EditIcon,
+  Link2,
+  SaveIcon,
+  SaveOffIcon,
+  Unlink,
+  XIcon
+} from 'lucide-react'
 import {
   type RefObject,
   useCallback,
@@ -13,6 +24,7 @@ import {
   type IncomeInstance,
   TransactionType
 } from '@/api/generated/types.gen'
+import { Badge } from '@/components/badge/badge'
 import { Button } from '@/components/button/button'
 import { Checkbox } from '@/components/checkbox/checkbox'
 import {
@@ -21,6 +33,7 @@ import {
   useDataTable
 } from '@/components/data-table'
 import { IconButton } from '@/components/icon-button/icon-button'
+import { SplitLinesTableCell } from '@/components/split-lines-table-cell/split-lines-table-cell'
 import {
   Dialog,
   DialogContent,
@@ -30,18 +43,29 @@ import {
   DialogTitle
 } from '@/components/ui/dialog'
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { NO_CHANGE_VALUE } from '@/dialogs/bulk-edit-fields'
 import {
   type BulkEditValues,
-  ImportBulkEditDialog,
-  NO_CHANGE_VALUE
+  ImportBulkEditDialog
 } from '@/dialogs/import-statements/import-bulk-edit-dialog'
+import { useDrawer } from '@/drawers'
+import {
+  acceptBudgetSuggestionPatch,
+  BUDGET_SUGGESTION_MONTHS
+} from '../classification/budget-suggestions'
 import {
   buildBillInstancePatch,
   buildIncomeInstancePatch,
   getBillInstanceLabel,
   getIncomeInstanceLabel
 } from '../classification/instance-matching'
-import type { ImportLookupItem, TransactionDraft } from '../types'
+import type {
+  BudgetSuggestion,
+  ImportLookupItem,
+  ImportRowError,
+  TransactionDraft,
+  TransferCounterpart
+} from '../types'
 import { formatSwedishMoney } from '../utils/money'
 import {
   comboboxValueToIdAndNewName,
@@ -49,6 +73,7 @@ import {
   DraftPlainText,
   DraftSelect,
   DraftTextInput,
+  hasImportSplits,
   idOrNewNameToComboboxValue,
   lookupItemsToComboboxOptions,
   SelectOptionList
@@ -72,6 +97,10 @@ type ImportDraftTableProps = {
   incomeInstances: IncomeInstance[]
   billInstances: BillImportInstance[]
   onDraftChange: (id: string, patch: Partial<TransactionDraft>) => void
+  /** Splits a paired transfer back into its two statement rows. */
+  onUnpairTransfer?: (id: string) => void
+  /** Merges a suggested pair (`transferPairSuggestion`) into one transfer. */
+  onConfirmTransferPair?: (id: string) => void
 }
 
 const columnHelper = createColumnHelper<TransactionDraft>()
@@ -82,8 +111,11 @@ type ImportDraftColumnVolatileContext = {
   selectedIds: Set<string>
   onSelectedChange: (id: string, selected: boolean) => void
   onOpenInstancePicker: (draft: InstancePickerDraft) => void
+  onShowDuplicate: (transactionId: string) => void
   onDraftChange: (id: string, patch: Partial<TransactionDraft>) => void
-  t: (key: string, options?: Record<string, unknown>) => string
+  onUnpairTransfer?: (id: string) => void
+  onConfirmTransferPair?: (id: string) => void
+  t: TFunction
 }
 
 type ImportDraftColumnStableContext = {
@@ -144,9 +176,11 @@ function buildBulkPatch(
   }
   if (nextType === TransactionType.TRANSFER && values.transferToAccountId) {
     patch.transferToAccountId = values.transferToAccountId
+    patch.transferCounterpart = undefined
   }
   if (nextType === TransactionType.TRANSFER && values.transferFromAccountId) {
     patch.transferFromAccountId = values.transferFromAccountId
+    patch.transferCounterpart = undefined
   }
   if (nextType === TransactionType.EXPENSE && values.billInstanceId) {
     const instance = instances.billInstances.find(
@@ -161,6 +195,16 @@ function buildBulkPatch(
           }
     )
   }
+  // A suggestion belongs to the row's current recipient, so a new recipient
+  // or an explicit budget wins.
+  if (
+    values.acceptBudgetSuggestions &&
+    nextType === TransactionType.EXPENSE &&
+    values.recipient === null &&
+    !values.budgetId
+  ) {
+    Object.assign(patch, acceptBudgetSuggestionPatch(draft))
+  }
   if (nextType !== TransactionType.TRANSFER) {
     if (values.budgetId) patch.budgetId = values.budgetId
     if (values.category !== null) {
@@ -168,11 +212,25 @@ function buildBulkPatch(
       patch.categoryId = next.id
       patch.newCategoryName = next.newName
     }
+    if (values.budgetId || values.category !== null) patch.splits = undefined
+  }
+  if (values.tagIds.length > 0) {
+    patch.tagIds = [
+      ...new Set([
+        ...(draft.tagIds ?? []),
+        ...values.tagIds
+      ])
+    ]
   }
 
   return patch
 }
 
+/** Excluded rows and rows created by an earlier attempt are read-only. */
+function isLockedDraft(draft: TransactionDraft): boolean {
+  return draft.excluded || Boolean(draft.importedTransactionId)
+}
+
 function canEditDate(kind: ImportDraftTableKind): boolean {
   return kind !== 'uncategorized'
 }
@@ -188,6 +246,163 @@ function lookupName(
   return items.find((item) => item.id === id)?.name ?? ''
 }
 
+/**
+ * Indicator for transfers whose other account was inferred with medium or low
+ * confidence; the title explains the source and lists fitting accounts.
+ */
+function TransferCounterpartBadge({
+  counterpart,
+  accounts,
+  t
+}: {
+  counterpart: TransferCounterpart
+  accounts: ImportLookupItem[]
+  t: TFunction
+}) {
+  if (counterpart.confidence === 'high') return null
+
+  const candidates = counterpart.candidateAccountIds ?? []
+  const title = [
+    t(`statementImport.counterpart.sources.${counterpart.source}`),
+    candidates.length > 1
+      ? t('statementImport.counterpart.candidates', {
+          count: candidates.length,
+          accounts: candidates
+            .map((accountId) => lookupName(accounts, accountId))
+            .join(', ')
+        })
+      : ''
+  ]
+    .filter(Boolean)
+    .join('. ')
+
+  return (
+    <span title={title}>
+      <Badge
+        color={counterpart.confidence === 'medium' ? 'yellow' : 'red'}
+        label={t(`statementImport.counterpart.${counterpart.confidence}`)}
+      />
+    </span>
+  )
+}
+
+/** Server error from the last import attempt; field hints go in the title. */
+function ImportErrorText({ error }: { error: ImportRowError }) {
+  const fieldHints = Object.entries(error.fieldErrors ?? {}).map(
+    ([field, messages]) => `${field}: ${messages.join(', ')}`
+  )
+  return (
+    <span
+      className="type-label block max-w-48 text-red-700"
+      title={[
+        error.message,
+        ...fieldHints
+      ].join('\n')}
+    >
+      {error.message}
+    </span>
+  )
+}
+
+/**
+ * Split badge for rows split by an assignment rule. `onClear` drops the split
+ * lines so the single budget/category controls come back.
+ */
+function DraftSplitsCell({
+  draft,
+  items,
+  field,
+  t,
+  onClear
+}: {
+  draft: TransactionDraft
+  items: ImportLookupItem[]
+  field: 'budgetId' | 'categoryId'
+  t: TFunction
+  onClear?: () => void
+}) {
+  const splits = draft.splits ?? []
+  return (
+    <span className="flex items-center gap-1">
+      <SplitLinesTableCell
+        lineCount={splits.length}
+        t={t}
+        title={splits
+          .map((split) => lookupName(items, split[field]) || split.subtitle)
+          .join(' · ')}
+      />
+      {onClear ? (
+        <IconButton
+          variant="text"
+          color="subtle"
+          icon={<XIcon />}
+          disabled={isLockedDraft(draft)}
+          title={t('statementImport.table.clearSplits')}
+          aria-label={t('statementImport.table.clearSplits')}
+          onClick={onClear}
+        />
+      ) : null}
+    </span>
+  )
+}
+
+/**
+ * Budget select for a row with an unaccepted suggestion from the recipient's
+ * history. The suggestion is shown in italics as the empty option; picking a
+ * budget or accepting it makes it a confirmed value.
+ */
+function BudgetSuggestionCell({
+  draft,
+  suggestion,
+  budgets,
+  t,
+  onChange
+}: {
+  draft: TransactionDraft
+  suggestion: BudgetSuggestion
+  budgets: ImportLookupItem[]
+  t: TFunction
+  onChange: (patch: Partial<TransactionDraft>) => void
+}) {
+  const name = lookupName(budgets, suggestion.budgetId)
+  const basis = t('statementImport.table.suggestionBasis', {
+    count: suggestion.count,
+    total: suggestion.total,
+    months: BUDGET_SUGGESTION_MONTHS
+  })
+  return (
+    <span
+      className="flex items-center gap-1"
+      title={basis}
+    >
+      <DraftSelect
+        value=""
+        className="border-dashed text-gray-600 italic"
+        onChange={(budgetId) =>
+          onChange({
+            budgetId
+          })
+        }
+      >
+        <option value="">
+          {t('statementImport.table.suggested', {
+            name
+          })}
+        </option>
+        <SelectOptionList items={budgets} />
+      </DraftSelect>
+      <IconButton
+        variant="text"
+        color="subtle"
+        icon={<CheckIcon />}
+        title={t('statementImport.table.acceptSuggestion')}
+        aria-label={t('statementImport.table.acceptSuggestion')}
+        onClick={() => onChange(acceptBudgetSuggestionPatch(draft))}
+      />
+    </span>
+  )
+}
+
 function getAvailableIncomeInstances({
   draft,
   rows,
@@ -269,7 +484,7 @@ function createColumns(
           <Checkbox
             id={`statement-import-select-${kind}-${draft.id}`}
             checked={selectedIds.has(draft.id)}
-            disabled={draft.excluded}
+            disabled={isLockedDraft(draft)}
             aria-label={translate('statementImport.table.selectRowAria', {
               row: draft.sourceRowNumber
             })}
@@ -298,8 +513,51 @@ function createColumns(
         const {
           onDraftChange,
           onOpenInstancePicker,
+          onUnpairTransfer,
+          onConfirmTransferPair,
           t: translate
         } = volatileCtxRef.current
+        if (
+          draft.transferPair &&
+          onUnpairTransfer &&
+          !draft.importedTransactionId
+        ) {
+          const { incoming } = draft.transferPair
+          const label = translate('statementImport.table.unpairTransfer', {
+            description: incoming.originalDescription,
+            date: incoming.date
+          })
+          return (
+            <IconButton
+              variant="text"
+              color="subtle"
+              icon={<Unlink />}
+              title={label}
+              aria-label={label}
+              onClick={() => onUnpairTransfer(draft.id)}
+            />
+          )
+        }
+        if (
+          draft.transferPairSuggestion &&
+          onConfirmTransferPair &&
+          !draft.importedTransactionId
+        ) {
+          const label = translate('statementImport.table.confirmTransferPair', {
+            description: draft.transferPairSuggestion.originalDescription,
+            date: draft.transferPairSuggestion.date
+          })
+          return (
+            <IconButton
+              variant="text"
+              color="primary"
+              icon={<ArrowLeftRight />}
+              title={label}
+              aria-label={label}
+              onClick={() => onConfirmTransferPair(draft.id)}
+            />
+          )
+        }
         if (
           draft.type !== TransactionType.INCOME &&
           draft.type !== TransactionType.EXPENSE
@@ -318,7 +576,7 @@ function createColumns(
             variant="text"
             color={linked ? 'subtle' : 'primary'}
             icon={linked ? <Unlink /> : <Link2 />}
-            disabled={draft.excluded}
+            disabled={isLockedDraft(draft)}
             title={
               linked
                 ? translate('statementImport.table.unlinkInstance')
@@ -349,6 +607,40 @@ function createColumns(
         )
       }
     }),
+    columnHelper.display({
+      id: 'duplicate',
+      header: '',
+      enableSorting: false,
+      cell: (ctx) => {
+        const { duplicateOf } = ctx.row.original
+        const { onShowDuplicate, t: translate } = volatileCtxRef.current
+        if (!duplicateOf) return null
+
+        const label = translate('statementImport.table.showDuplicate', {
+          name: duplicateOf.name,
+          date: duplicateOf.date,
+          amount: formatSwedishMoney(duplicateOf.amount)
+        })
+        return (
+          <IconButton
+            variant="text"
+            icon={<CopyIcon />}
+            title={label}
+            aria-label={label}
+            onClick={() => onShowDuplicate(duplicateOf.transactionId)}
+          />
+        )
+      }
+    }),
+    columnHelper.display({
+      id: 'importError',
+      header: '',
+      enableSorting: false,
+      cell: (ctx) => {
+        const { importError } = ctx.row.original
+        return importError ? <ImportErrorText error={importError} /> : null
+      }
+    }),
     columnHelper.accessor('date', {
       id: 'date',
       header: t('common.date'),
@@ -359,7 +651,7 @@ function createColumns(
           <DraftTextInput
             value={draft.date}
             type="date"
-            disabled={draft.excluded}
+            disabled={isLockedDraft(draft)}
             onChange={(date) =>
               onDraftChange(draft.id, {
                 date
@@ -404,7 +696,7 @@ function createColumns(
           return canEditName(kind) ? (
             <DraftTextInput
               value={draft.name}
-              disabled={draft.excluded}
+              disabled={isLockedDraft(draft)}
               onChange={(name) =>
                 onDraftChange(draft.id, {
                   name
@@ -447,7 +739,7 @@ function createColumns(
         return (
           <DraftSelect
             value={draft.type}
-            disabled={draft.excluded}
+            disabled={isLockedDraft(draft)}
             className="min-w-28"
             onChange={(type) =>
               onDraftChange(draft.id, {
@@ -493,7 +785,7 @@ function createColumns(
                 draft.incomeSourceId,
                 draft.newIncomeSourceName
               )}
-              disabled={draft.excluded}
+              disabled={isLockedDraft(draft)}
               placeholder={translate('statementImport.table.chooseSender')}
               options={lookupItemsToComboboxOptions(incomeSources)}
               allowCreate
@@ -516,13 +808,28 @@ function createColumns(
         cell: (ctx) => {
           const draft = ctx.row.original
           const { onDraftChange, t: translate } = volatileCtxRef.current
+          if (hasImportSplits(draft)) {
+            return (
+              <DraftSplitsCell
+                draft={draft}
+                items={categories}
+                field="categoryId"
+                t={translate}
+                onClear={() =>
+                  onDraftChange(draft.id, {
+                    splits: undefined
+                  })
+                }
+              />
+            )
+          }
           return (
             <DraftCombobox
               value={idOrNewNameToComboboxValue(
                 draft.categoryId,
                 draft.newCategoryName
               )}
-              disabled={draft.excluded}
+              disabled={isLockedDraft(draft)}
               placeholder={translate('statementImport.table.noCategory')}
               options={lookupItemsToComboboxOptions(categories)}
               allowCreate
@@ -555,7 +862,7 @@ function createColumns(
                 draft.recipientId,
                 draft.newRecipientName
               )}
-              disabled={draft.excluded}
+              disabled={isLockedDraft(draft)}
               placeholder={translate('statementImport.table.chooseRecipient')}
               options={lookupItemsToComboboxOptions(recipients)}
               allowCreate
@@ -578,10 +885,37 @@ function createColumns(
         cell: (ctx) => {
           const draft = ctx.row.original
           const { onDraftChange, t: translate } = volatileCtxRef.current
+          if (hasImportSplits(draft)) {
+            return (
+              <DraftSplitsCell
+                draft={draft}
+                items={budgets}
+                field="budgetId"
+                t={translate}
+                onClear={() =>
+                  onDraftChange(draft.id, {
+                    splits: undefined
+                  })
+                }
+              />
+            )
+          }
+          const suggestion = draft.budgetSuggestion
+          if (suggestion && !draft.budgetId) {
+            return (
+              <BudgetSuggestionCell
+                draft={draft}
+                suggestion={suggestion}
+                budgets={budgets}
+                t={translate}
+                onChange={(patch) => onDraftChange(draft.id, patch)}
+              />
+            )
+          }
           return (
             <DraftSelect
               value={draft.budgetId ?? ''}
-              disabled={draft.excluded}
+              disabled={isLockedDraft(draft)}
               onChange={(budgetId) =>
                 onDraftChange(draft.id, {
                   budgetId
@@ -600,14 +934,33 @@ function createColumns(
         cell: (ctx) => {
           const draft = ctx.row.original
           const { onDraftChange, t: translate } = volatileCtxRef.current
+          if (hasImportSplits(draft)) {
+            return (
+              <DraftSplitsCell
+                draft={draft}
+                items={categories}
+                field="categoryId"
+                t={translate}
+              />
+            )
+          }
           return (
             <DraftCombobox
               value={idOrNewNameToComboboxValue(
                 draft.categoryId,
                 draft.newCategoryName
               )}
-              disabled={draft.excluded}
-              placeholder={translate('statementImport.table.noCategory')}
+              disabled={isLockedDraft(draft)}
+              placeholder={
+                draft.budgetSuggestion?.categoryId
+                  ? translate('statementImport.table.suggested', {
+                      name: lookupName(
+                        categories,
+                        draft.budgetSuggestion.categoryId
+                      )
+                    })
+                  : translate('statementImport.table.noCategory')
+              }
               options={lookupItemsToComboboxOptions(categories)}
               allowCreate
               createLabel={translate('forms.createExpenseCategory')}
@@ -646,10 +999,11 @@ function createColumns(
           return (
             <DraftSelect
               value={fromAccountId}
-              disabled={draft.excluded}
+              disabled={isLockedDraft(draft)}
               onChange={(transferFromAccountId) =>
                 onDraftChange(draft.id, {
-                  transferFromAccountId
+                  transferFromAccountId,
+                  transferCounterpart: undefined
                 })
               }
             >
@@ -679,10 +1033,11 @@ function createColumns(
           return (
             <DraftSelect
               value={toAccountId}
-              disabled={draft.excluded}
+              disabled={isLockedDraft(draft)}
               onChange={(transferToAccountId) =>
                 onDraftChange(draft.id, {
-                  transferToAccountId
+                  transferToAccountId,
+                  transferCounterpart: undefined
                 })
               }
             >
@@ -693,6 +1048,22 @@ function createColumns(
             </DraftSelect>
           )
         }
+      }),
+      columnHelper.display({
+        id: 'counterpart',
+        header: '',
+        enableSorting: false,
+        cell: (ctx) => {
+          const { transferCounterpart } = ctx.row.original
+          if (!transferCounterpart) return null
+          return (
+            <TransferCounterpartBadge
+              counterpart={transferCounterpart}
+              accounts={accounts}
+              t={volatileCtxRef.current.t}
+            />
+          )
+        }
       })
     )
   }
@@ -706,6 +1077,14 @@ function createColumns(
         const draft = ctx.row.original
         const excluded = draft.excluded
         const { onDraftChange, t: translate } = volatileCtxRef.current
+        if (draft.importedTransactionId) {
+          return (
+            <Badge
+              color="green"
+              label={translate('statementImport.table.imported')}
+            />
+          )
+        }
         return (
           <IconButton
             variant="text"
@@ -913,9 +1292,12 @@ export function ImportDraftTable({
   incomeSources,
   incomeInstances,
   billInstances,
-  onDraftChange
+  onDraftChange,
+  onUnpairTransfer,
+  onConfirmTransferPair
 }: ImportDraftTableProps) {
   const { t } = useTranslation()
+  const { openDrawer } = useDrawer()
   const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set())
   const [bulkEditOpen, setBulkEditOpen] = useState(false)
   const [instancePickerDraft, setInstancePickerDraft] =
@@ -932,6 +1314,9 @@ export function ImportDraftTable({
   const selectedCount = sortedRows.filter((row) =>
     selectedIds.has(row.id)
   ).length
+  const selectedSuggestedCount = sortedRows.filter(
+    (row) => selectedIds.has(row.id) && row.budgetSuggestion
+  ).length
 
   const handleSelectedChange = useCallback((id: string, selected: boolean) => {
     setSelectedIds((current) => {
@@ -961,7 +1346,7 @@ export function ImportDraftTable({
 
   const handleBulkApply = (values: BulkEditValues) => {
     for (const draft of sortedRows) {
-      if (!selectedIds.has(draft.id) || draft.excluded) continue
+      if (!selectedIds.has(draft.id) || isLockedDraft(draft)) continue
       const patch = buildBulkPatch(draft, values, {
         incomeInstances,
         billInstances
@@ -974,18 +1359,29 @@ export function ImportDraftTable({
     setBulkEditOpen(false)
   }
 
+  const handleShowDuplicate = (transactionId: string) =>
+    openDrawer('editTransaction', {
+      transactionId
+    })
+
   const volatileColumnCtxRef = useRef<ImportDraftColumnVolatileContext>({
     selectedIds,
     onSelectedChange: handleSelectedChange,
     onOpenInstancePicker: setInstancePickerDraft,
+    onShowDuplicate: handleShowDuplicate,
     onDraftChange: handleDraftChange,
+    onUnpairTransfer,
+    onConfirmTransferPair,
     t
   })
   volatileColumnCtxRef.current = {
     selectedIds,
     onSelectedChange: handleSelectedChange,
     onOpenInstancePicker: setInstancePickerDraft,
+    onShowDuplicate: handleShowDuplicate,
     onDraftChange: handleDraftChange,
+    onUnpairTransfer,
+    onConfirmTransferPair,
     t
   }
 
@@ -1036,13 +1432,17 @@ export function ImportDraftTable({
           pillRemoveAriaLabel: t('common.removeFilter')
         }}
         emptyMessage={t('common.noResultsFound')}
-        getRowClassName={(row) =>
-          row.excluded ? 'bg-gray-50 text-gray-500 hover:bg-gray-50' : undefined
-        }
+        getRowClassName={(row) => {
+          if (isLockedDraft(row)) {
+            return 'bg-gray-50 text-gray-500 hover:bg-gray-50'
+          }
+          return row.importError ? 'bg-red-50 hover:bg-red-50' : undefined
+        }}
       />
       <ImportBulkEditDialog
         open={bulkEditOpen}
         selectedCount={selectedCount}
+        suggestedCount={selectedSuggestedCount}
         sectionType={kind}
         accounts={accounts}
         budgets={budgets}
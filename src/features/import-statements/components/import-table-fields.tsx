@@ -6,6 +6,7 @@ import {
 } from 'lucide-react'
 import { type ReactNode, useState } from 'react'
 import { useTranslation } from 'react-i18next'
+import { TransactionType } from '@/api/generated/types.gen'
 import type { ComboboxValue } from '@/components/form'
 import {
   INPUT_ICON_STROKE,
@@ -84,6 +85,19 @@ export function hasImportCategory(draft: TransactionDraft): boolean {
   return Boolean(draft.categoryId || draft.newCategoryName?.trim())
 }
 
+export function hasImportSplits(draft: TransactionDraft): boolean {
+  return (draft.splits?.length ?? 0) > 0
+}
+
+/** Every split line has a category, and a budget when the row is an expense. */
+export function hasCompleteImportSplits(draft: TransactionDraft): boolean {
+  return (draft.splits ?? []).every(
+    (split) =>
+      split.categoryId &&
+      (draft.type !== TransactionType.EXPENSE || split.budgetId)
+  )
+}
+
 export function hasImportRecipient(draft: TransactionDraft): boolean {
   return Boolean(draft.recipientId || draft.newRecipientName?.trim())
 }
@@ -0,0 +1,210 @@
+import { useCallback, useId, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import { Badge } from '@/components/badge/badge'
+import { Button } from '@/components/button/button'
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import type { AssignmentRuleProposal } from '../classification/learn-assignment-rules'
+import type { ImportLookupItem } from '../types'
+
+type LearnedRulesLookups = {
+  recipients: ImportLookupItem[]
+  incomeSources: ImportLookupItem[]
+  categories: ImportLookupItem[]
+  budgets: ImportLookupItem[]
+}
+
+type DialogState = {
+  proposals: AssignmentRuleProposal[]
+  lookups: LearnedRulesLookups
+  resolve: (value: AssignmentRuleProposal[] | null) => void
+}
+
+function lookupName(items: ImportLookupItem[], id: string): string {
+  return items.find((item) => item.id === id)?.name ?? ''
+}
+
+/** `Willys / Livsmedel / Mat` — names of everything the rule would assign. */
+function proposalTargetLabel(
+  proposal: AssignmentRuleProposal,
+  lookups: LearnedRulesLookups
+): string {
+  return [
+    lookupName(lookups.recipients, proposal.recipientId),
+    lookupName(lookups.incomeSources, proposal.incomeSourceId),
+    lookupName(lookups.categories, proposal.categoryId),
+    lookupName(lookups.budgets, proposal.budgetId)
+  ]
+    .filter(Boolean)
+    .join(' / ')
+}
+
+/**
+ * Review step after a successful import: lists rule proposals learned from the
+ * user's corrections. Resolves with the accepted proposals, or null when
+ * skipped.
+ */
+export function useLearnedRulesDialog() {
+  const { t } = useTranslation()
+  const [dialogState, setDialogState] = useState<DialogState | null>(null)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+
+  const promptLearnedRules = useCallback(
+    (params: {
+      proposals: AssignmentRuleProposal[]
+      lookups: LearnedRulesLookups
+    }) => {
+      return new Promise<AssignmentRuleProposal[] | null>((resolve) => {
+        setSelectedIds(new Set(params.proposals.map((item) => item.id)))
+        setDialogState({
+          ...params,
+          resolve
+        })
+      })
+    },
+    []
+  )
+
+  const closeDialog = useCallback((result: AssignmentRuleProposal[] | null) => {
+    setDialogState((current) => {
+      current?.resolve(result)
+      return null
+    })
+  }, [])
+
+  const toggle = useCallback((id: string, checked: boolean) => {
+    setSelectedIds((current) => {
+      const next = new Set(current)
+      if (checked) next.add(id)
+      else next.delete(id)
+      return next
+    })
+  }, [])
+
+  const dialog = useMemo(
+    () => (
+      <AlertDialog
+        open={dialogState !== null}
+        onOpenChange={(open) => {
+          if (!open) closeDialog(null)
+        }}
+      >
+        <AlertDialogContent className="flex max-h-[min(90vh,720px)] flex-col gap-4 overflow-y-auto">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {t('statementImport.learnedRules.title')}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('statementImport.learnedRules.intro')}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          <div className="flex flex-col gap-3">
+            {dialogState?.proposals.map((proposal) => (
+              <LearnedRuleRow
+                key={proposal.id}
+                proposal={proposal}
+                targetLabel={proposalTargetLabel(proposal, dialogState.lookups)}
+                checked={selectedIds.has(proposal.id)}
+                onCheckedChange={(checked) => toggle(proposal.id, checked)}
+              />
+            ))}
+          </div>
+
+          <AlertDialogFooter>
+            <AlertDialogCancel>
+              {t('statementImport.learnedRules.skip')}
+            </AlertDialogCancel>
+            <Button
+              type="button"
+              variant="filled"
+              color="primary"
+              label={t('statementImport.learnedRules.submit', {
+                count: selectedIds.size
+              })}
+              disabled={selectedIds.size === 0}
+              onClick={() =>
+                closeDialog(
+                  dialogState?.proposals.filter((item) =>
+                    selectedIds.has(item.id)
+                  ) ?? []
+                )
+              }
+            />
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    ),
+    [
+      closeDialog,
+      dialogState,
+      selectedIds,
+      t,
+      toggle
+    ]
+  )
+
+  return {
+    promptLearnedRules,
+    learnedRulesDialog: dialog
+  }
+}
+
+function LearnedRuleRow({
+  proposal,
+  targetLabel,
+  checked,
+  onCheckedChange
+}: {
+  proposal: AssignmentRuleProposal
+  targetLabel: string
+  checked: boolean
+  onCheckedChange: (checked: boolean) => void
+}) {
+  const { t } = useTranslation()
+  const checkboxId = useId()
+
+  return (
+    <div className="flex items-start gap-3">
+      <Checkbox
+        id={checkboxId}
+        checked={checked}
+        onCheckedChange={(value) => onCheckedChange(value === true)}
+      />
+      <Label
+        htmlFor={checkboxId}
+        className="flex min-w-0 flex-1 cursor-pointer flex-col items-start gap-1 font-normal"
+      >
+        <span className="type-body-medium text-gray-950">
+          {t('statementImport.learnedRules.proposal', {
+            description: proposal.descriptionContains,
+            target: targetLabel
+          })}
+        </span>
+        <span className="flex flex-wrap items-center gap-2">
+          <span className="type-label text-gray-500">
+            {t('statementImport.learnedRules.rowCount', {
+              count: proposal.rowCount
+            })}
+          </span>
+          {proposal.ruleId ? (
+            <Badge
+              color="blue"
+              label={t('statementImport.learnedRules.updatesRule')}
+            />
+          ) : null}
+        </span>
+      </Label>
+    </div>
+  )
+}
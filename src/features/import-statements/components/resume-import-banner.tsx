@@ -0,0 +1,98 @@
+import { format } from 'date-fns'
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Alert } from '@/components/alert'
+import { Button } from '@/components/button/button'
+import { useConfirmDialog } from '@/hooks/use-confirm-dialog'
+import {
+  deleteImportSession,
+  listImportSessions,
+  type StoredImportSession
+} from '../session-storage'
+
+function sessionFileNames(session: StoredImportSession): string {
+  return session.statements.map((statement) => statement.fileName).join(', ')
+}
+
+export type ResumeImportBannerProps = {
+  householdId: string
+  onResume: (session: StoredImportSession) => void
+}
+
+/**
+ * Lists imports the household started but did not finish, with actions to
+ * continue on the import page or discard the saved drafts.
+ */
+export function ResumeImportBanner({
+  householdId,
+  onResume
+}: ResumeImportBannerProps) {
+  const { t } = useTranslation()
+  const { confirm, confirmDialog } = useConfirmDialog()
+  const [sessions, setSessions] = useState<StoredImportSession[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+    void listImportSessions(householdId).then((next) => {
+      if (!cancelled) setSessions(next)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [
+    householdId
+  ])
+
+  const handleDiscard = async (session: StoredImportSession) => {
+    const confirmed = await confirm({
+      description: t('statementImport.resume.discardConfirm', {
+        fileName: sessionFileNames(session)
+      }),
+      confirmText: t('statementImport.resume.discard')
+    })
+    if (!confirmed) return
+
+    await deleteImportSession(session.householdId, session.fingerprint)
+    setSessions((current) =>
+      current.filter((item) => item.fingerprint !== session.fingerprint)
+    )
+  }
+
+  if (sessions.length === 0) return null
+
+  return (
+    <div className="flex flex-col gap-2">
+      {sessions.map((session) => (
+        <Alert
+          key={session.fingerprint}
+          variant="info"
+        >
+          <span className="flex flex-wrap items-center justify-between gap-2">
+            <span>
+              {t('statementImport.resume.message', {
+                fileName: sessionFileNames(session),
+                count: session.drafts.length,
+                date: format(new Date(session.updatedAt), 'yyyy-MM-dd HH:mm')
+              })}
+            </span>
+            <span className="flex gap-2">
+              <Button
+                variant="text"
+                color="destructive"
+                label={t('statementImport.resume.discard')}
+                onClick={() => void handleDiscard(session)}
+              />
+              <Button
+                variant="outlined"
+                color="primary"
+                label={t('statementImport.resume.continue')}
+                onClick={() => onResume(session)}
+              />
+            </span>
+          </span>
+        </Alert>
+      ))}
+      {confirmDialog}
+    </div>
+  )
+}
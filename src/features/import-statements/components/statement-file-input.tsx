@@ -1,16 +1,49 @@
 import { useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { toast } from 'sonner'
-import { isSupportedStatementFile, parseStatementFile } from '../parser'
-import type { StatementParseResult } from '../types'
+import { useAuth } from '@/contexts/auth-context'
+import { StatementColumnMappingDialog } from '@/dialogs/import-statements/statement-column-mapping-dialog'
+import {
+  isSupportedStatementFile,
+  normalizeHeader,
+  parseStatementFile,
+  parseStatementRows,
+  readStatementRows
+} from '../parser'
+import { loadStatementProfiles, saveStatementProfile } from '../profile-storage'
+import {
+  createMappedStatementProfile,
+  type StatementColumnMapping,
+  statementProfilesToTry
+} from '../profiles'
+import { statementFileFingerprint } from '../session-storage'
+import type { ImportStatementFile } from '../types'
+
+const NO_HEADER_ERROR = 'statementImport.errors.noTransactionHeader'
 
 export type StatementFileInputHandle = {
   open: () => void
+  /** Parses dropped files the same way as picked ones. */
+  parseFiles: (files: File[]) => void
 }
 
 type StatementFileInputProps = {
   inputRef: React.RefObject<StatementFileInputHandle | null>
-  onParsed: (result: StatementParseResult, fileName: string) => void
+  /** Called once per pick or drop with every file that parsed. */
+  onParsed: (statements: ImportStatementFile[]) => void
+}
+
+type PendingMapping = {
+  key: number
+  fileName: string
+  fingerprint: string
+  rows: unknown[][]
+}
+
+/** Files parsed so far while unrecognized ones wait for column mapping. */
+type PendingMappings = {
+  parsed: ImportStatementFile[]
+  queue: PendingMapping[]
 }
 
 export function StatementFileInput({
@@ -18,31 +51,78 @@ export function StatementFileInput({
   onParsed
 }: StatementFileInputProps) {
   const nativeInputRef = useRef<HTMLInputElement>(null)
+  const { householdId } = useAuth()
   const { t } = useTranslation()
   const [isParsing, setIsParsing] = useState(false)
+  const [pending, setPending] = useState<PendingMappings | null>(null)
 
-  inputRef.current = {
-    open: () => nativeInputRef.current?.click()
-  }
-
-  const handleFile = async (file: File | null | undefined) => {
-    if (!file || isParsing) return
+  const errorMessage = (error: unknown) =>
+    error instanceof Error
+      ? t(error.message)
+      : t('statementImport.errors.couldNotParse')
 
-    if (!isSupportedStatementFile(file)) {
-      toast.error(t('statementImport.errors.chooseXlsx'))
+  const finish = (parsed: ImportStatementFile[], queue: PendingMapping[]) => {
+    if (queue.length > 0) {
+      setPending({
+        parsed,
+        queue
+      })
       return
     }
+    setPending(null)
+    if (parsed.length > 0) onParsed(parsed)
+  }
+
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0 || isParsing) return
 
     setIsParsing(true)
+    const parsed: ImportStatementFile[] = []
+    const queue: PendingMapping[] = []
     try {
-      const result = await parseStatementFile(file)
-      onParsed(result, file.name)
-    } catch (error) {
-      toast.error(
-        error instanceof Error
-          ? t(error.message)
-          : t('statementImport.errors.couldNotParse')
-      )
+      for (const file of files) {
+        if (!isSupportedStatementFile(file)) {
+          toast.error(t('statementImport.errors.chooseStatementFile'), {
+            description: file.name
+          })
+          continue
+        }
+
+        let fingerprint = ''
+        try {
+          fingerprint = await statementFileFingerprint(file)
+          // The same file picked twice would double every row.
+          if (parsed.some((statement) => statement.id === fingerprint)) continue
+          const result = await parseStatementFile(
+            file,
+            statementProfilesToTry(loadStatementProfiles(householdId))
+          )
+          parsed.push({
+            id: fingerprint,
+            fileName: file.name,
+            result
+          })
+        } catch (error) {
+          let failure = error
+          if (error instanceof Error && error.message === NO_HEADER_ERROR) {
+            try {
+              queue.push({
+                key: Date.now() + queue.length,
+                fileName: file.name,
+                fingerprint,
+                rows: await readStatementRows(file)
+              })
+              continue
+            } catch (readError) {
+              failure = readError
+            }
+          }
+          toast.error(errorMessage(failure), {
+            description: file.name
+          })
+        }
+      }
+      finish(parsed, queue)
     } finally {
       setIsParsing(false)
       if (nativeInputRef.current) {
@@ -51,13 +131,90 @@ export function StatementFileInput({
     }
   }
 
+  inputRef.current = {
+    open: () => nativeInputRef.current?.click(),
+    parseFiles: (files) => void handleFiles(files)
+  }
+
+  const pendingMapping = pending?.queue[0] ?? null
+
+  const skipPendingMapping = () => {
+    if (!pending) return
+    finish(pending.parsed, pending.queue.slice(1))
+  }
+
+  const handleMappingConfirm = (mapping: StatementColumnMapping) => {
+    if (!pending || !pendingMapping) return
+
+    const profile = createMappedStatementProfile(
+      pendingMapping.rows,
+      mapping,
+      normalizeHeader
+    )
+    try {
+      const result = parseStatementRows(pendingMapping.rows, [
+        profile
+      ])
+      saveStatementProfile(householdId, profile)
+      toast.success(
+        t('statementImport.mapping.saved', {
+          name: profile.name
+        })
+      )
+
+      // Later files from the same bank parse with the profile just saved.
+      const parsed = [
+        ...pending.parsed,
+        {
+          id: pendingMapping.fingerprint,
+          fileName: pendingMapping.fileName,
+          result
+        }
+      ]
+      const queue: PendingMapping[] = []
+      for (const next of pending.queue.slice(1)) {
+        try {
+          parsed.push({
+            id: next.fingerprint,
+            fileName: next.fileName,
+            result: parseStatementRows(next.rows, [
+              profile
+            ])
+          })
+        } catch {
+          queue.push(next)
+        }
+      }
+      finish(parsed, queue)
+    } catch (error) {
+      toast.error(errorMessage(error))
+    }
+  }
+
   return (
-    <input
-      ref={nativeInputRef}
-      type="file"
-      accept=".xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
-      className="hidden"
-      onChange={(event) => void handleFile(event.target.files?.[0])}
-    />
+    <>
+      <input
+        ref={nativeInputRef}
+        type="file"
+        multiple
+        accept=".xlsx,.csv,.ofx,.qfx,.xml,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,text/csv,application/x-ofx,application/xml"
+        className="hidden"
+        onChange={(event) =>
+          void handleFiles(Array.from(event.target.files ?? []))
+        }
+      />
+      {pendingMapping ? (
+        <StatementColumnMappingDialog
+          key={pendingMapping.key}
+          open
+          fileName={pendingMapping.fileName}
+          rows={pendingMapping.rows}
+          onOpenChange={(open) => {
+            if (!open) skipPendingMapping()
+          }}
+          onConfirm={handleMappingConfirm}
+        />
+      ) : null}
+    </>
   )
 }
@@ -2,19 +2,31 @@ import { ArrowRightLeft, TrendingDown, TrendingUp } from 'lucide-react'
 import { useId } from 'react'
 import { useTranslation } from 'react-i18next'
 import { TransactionType } from '@/api/generated/types.gen'
+import { Badge } from '@/components/badge/badge'
 import { Button } from '@/components/button/button'
 import { InfoCard } from '@/components/info-card/info-card'
 import type { ImportLookupItem, TransactionDraft } from '../types'
 import { formatSwedishMoney } from '../utils/money'
 import { DraftSelect, SelectOptionList } from './import-table-fields'
 
+export type SummaryStatement = {
+  id: string
+  fileName: string
+  /** Name of the statement profile (bank layout) the file was parsed with. */
+  profileName?: string
+  originAccountId: string
+  /** Rows of the file were imported; its origin account can no longer change. */
+  locked?: boolean
+}
+
 export type SummaryProps = {
   drafts: TransactionDraft[]
-  fileName: string
+  statements: SummaryStatement[]
   accounts: ImportLookupItem[]
-  originAccountId: string
-  onOriginAccountChange: (accountId: string) => void
+  onOriginAccountChange: (statementId: string, accountId: string) => void
   onChangeFile: () => void
+  /** Drops the drafts and the saved import session; hidden when absent. */
+  onDiscard?: () => void
 }
 
 const ROW_SEPARATOR = ' / '
@@ -25,6 +37,10 @@ function summary(drafts: TransactionDraft[]) {
     totalRows: drafts.length,
     includedRows: included.length,
     excludedRows: drafts.length - included.length,
+    duplicateRows: drafts.filter((draft) => draft.duplicateOf).length,
+    importedRows: drafts.filter((draft) => draft.importedTransactionId).length,
+    failedRows: drafts.filter((draft) => draft.importError).length,
+    pairedTransfers: drafts.filter((draft) => draft.transferPair).length,
     income: included
       .filter((draft) => draft.type === TransactionType.INCOME)
       .reduce((sum, draft) => sum + draft.amount, 0),
@@ -61,30 +77,101 @@ function RowsInfoCard({
   )
 }
 
+function StatementOriginAccount({
+  statement,
+  accounts,
+  onOriginAccountChange
+}: {
+  statement: SummaryStatement
+  accounts: ImportLookupItem[]
+  onOriginAccountChange: SummaryProps['onOriginAccountChange']
+}) {
+  const originAccountInputId = useId()
+  const { t } = useTranslation()
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span
+          className="type-body-medium max-w-64 truncate text-gray-700"
+          title={statement.fileName}
+        >
+          {statement.fileName}
+        </span>
+        {statement.profileName ? (
+          <span className="type-label rounded-sm border border-gray-300 bg-gray-100 px-1.5 py-0.5 text-gray-800">
+            {t('statementImport.summary.profile', {
+              name: statement.profileName
+            })}
+          </span>
+        ) : null}
+      </div>
+      <label
+        className="type-label text-gray-800"
+        htmlFor={originAccountInputId}
+      >
+        {t('statementImport.table.originAccount')}
+      </label>
+      <DraftSelect
+        id={originAccountInputId}
+        value={statement.originAccountId}
+        disabled={statement.locked}
+        onChange={(accountId) => onOriginAccountChange(statement.id, accountId)}
+      >
+        <option value="">{t('statementImport.table.chooseAccount')}</option>
+        <SelectOptionList items={accounts} />
+      </DraftSelect>
+    </div>
+  )
+}
+
 export function Summary({
   drafts,
-  fileName,
+  statements,
   accounts,
-  originAccountId,
   onOriginAccountChange,
-  onChangeFile
+  onChangeFile,
+  onDiscard
 }: SummaryProps) {
-  const originAccountInputId = useId()
   const { t } = useTranslation()
   const totals = summary(drafts)
 
   return (
     <section className="flex flex-col gap-4">
       <div className="flex flex-wrap items-start justify-between gap-4">
-        <div className="flex flex-col gap-2">
+        <div className="flex flex-col gap-4">
           <div className="flex flex-wrap items-center gap-2">
-            {fileName ? (
-              <span
-                className="type-body-medium max-w-64 truncate text-gray-700"
-                title={fileName}
-              >
-                {fileName}
-              </span>
+            {totals.pairedTransfers > 0 ? (
+              <Badge
+                color="blue"
+                label={t('statementImport.summary.pairedTransfers', {
+                  count: totals.pairedTransfers
+                })}
+              />
+            ) : null}
+            {totals.importedRows > 0 ? (
+              <Badge
+                color="green"
+                label={t('statementImport.summary.importedRows', {
+                  count: totals.importedRows
+                })}
+              />
+            ) : null}
+            {totals.failedRows > 0 ? (
+              <Badge
+                color="red"
+                label={t('statementImport.summary.failedRows', {
+                  count: totals.failedRows
+                })}
+              />
+            ) : null}
+            {totals.duplicateRows > 0 ? (
+              <Badge
+                color="yellow"
+                label={t('statementImport.summary.duplicates', {
+                  count: totals.duplicateRows
+                })}
+              />
             ) : null}
             <Button
               variant="outlined"
@@ -92,21 +179,23 @@ export function Summary({
               label={t('statementImport.table.changeFile')}
               onClick={onChangeFile}
             />
+            {onDiscard ? (
+              <Button
+                variant="text"
+                color="destructive"
+                label={t('statementImport.resume.discard')}
+                onClick={onDiscard}
+              />
+            ) : null}
           </div>
-          <label
-            className="type-label text-gray-800"
-            htmlFor={originAccountInputId}
-          >
-            {t('statementImport.table.originAccount')}
-          </label>
-          <DraftSelect
-            id={originAccountInputId}
-            value={originAccountId}
-            onChange={onOriginAccountChange}
-          >
-            <option value="">{t('statementImport.table.chooseAccount')}</option>
-            <SelectOptionList items={accounts} />
-          </DraftSelect>
+          {statements.map((statement) => (
+            <StatementOriginAccount
+              key={statement.id}
+              statement={statement}
+              accounts={accounts}
+              onOriginAccountChange={onOriginAccountChange}
+            />
+          ))}
         </div>
 
         <div className="flex max-w-full flex-row flex-nowrap justify-end gap-2 overflow-x-auto">
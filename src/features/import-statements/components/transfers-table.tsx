@@ -21,6 +21,7 @@ type Props = {
     }
   >
   onDraftChange: (id: string, patch: Partial<TransactionDraft>) => void
+  onUnpairTransfer: (id: string) => void
 }
 
 export function TransfersTable(props: Props) {
@@ -17,6 +17,7 @@ type Props = {
     }
   >
   onDraftChange: (id: string, patch: Partial<TransactionDraft>) => void
+  onConfirmTransferPair: (id: string) => void
 }
 
 export function UncategorizedTable(props: Props) {
@@ -0,0 +1,257 @@
+import { useCallback, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import { Button } from '@/components/button/button'
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog'
+import type { TransactionRefundIndex } from '@/features/transaction-refunds/refunds'
+import { formatCurrency } from '@/lib/utils'
+import {
+  type ImportHistoryEntry,
+  type ImportHistoryTransaction,
+  importUndoImpact
+} from '../import-history'
+import type { ImportLookupItem } from '../types'
+import {
+  lockedImportTransactions,
+  refundedImportTransactions
+} from '../undo-import'
+
+type UndoImportLookups = {
+  accounts: ImportLookupItem[]
+  budgets: ImportLookupItem[]
+}
+
+type DialogState = {
+  entry: ImportHistoryEntry
+  lookups: UndoImportLookups
+  lockedTransactionIds: ReadonlySet<string>
+  refunds: TransactionRefundIndex
+  resolve: (value: boolean) => void
+}
+
+function lookupName(items: ImportLookupItem[], id: string): string {
+  return items.find((item) => item.id === id)?.name ?? id
+}
+
+function formatChange(amount: number): string {
+  return `${amount > 0 ? '+' : ''}${formatCurrency(amount)}`
+}
+
+function ImpactList({
+  title,
+  rows
+}: {
+  title: string
+  rows: Array<{
+    id: string
+    name: string
+    change: number
+  }>
+}) {
+  if (rows.length === 0) return null
+  return (
+    <div className="flex flex-col gap-1">
+      <span className="type-label text-gray-800">{title}</span>
+      {rows.map((row) => (
+        <span
+          key={row.id}
+          className="type-body-medium flex justify-between gap-4 text-gray-950"
+        >
+          <span>{row.name}</span>
+          <span className={row.change < 0 ? 'text-red-700' : 'text-green-700'}>
+            {formatChange(row.change)}
+          </span>
+        </span>
+      ))}
+    </div>
+  )
+}
+
+function BlockingList({
+  title,
+  transactions
+}: {
+  title: string
+  transactions: ImportHistoryTransaction[]
+}) {
+  const { t } = useTranslation()
+  if (transactions.length === 0) return null
+  return (
+    <div className="flex flex-col gap-1">
+      <span className="type-label text-red-700">{title}</span>
+      {transactions.map((transaction) => (
+        <span
+          key={transaction.id}
+          className="type-body-medium flex justify-between gap-4 text-gray-950"
+        >
+          <span>
+            {t('importHistory.undoDialog.lockedTransaction', {
+              name: transaction.name,
+              date: transaction.date
+            })}
+          </span>
+          <span>{formatCurrency(transaction.amount)}</span>
+        </span>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Confirmation before undoing an import batch. Previews how account balances,
+ * budgets, and the unallocated pool change once the batch's transactions are
+ * deleted and its allocations reversed. Locked (reconciled) transactions and
+ * transactions linked to refunds are listed instead, and the undo stays
+ * disabled until they are unlocked or the refunds removed.
+ */
+export function useUndoImportDialog() {
+  const { t } = useTranslation()
+  const [dialogState, setDialogState] = useState<DialogState | null>(null)
+
+  const promptUndoImport = useCallback(
+    (params: {
+      entry: ImportHistoryEntry
+      lookups: UndoImportLookups
+      lockedTransactionIds: ReadonlySet<string>
+      refunds: TransactionRefundIndex
+    }) => {
+      return new Promise<boolean>((resolve) => {
+        setDialogState({
+          ...params,
+          resolve
+        })
+      })
+    },
+    []
+  )
+
+  const closeDialog = useCallback((result: boolean) => {
+    setDialogState((current) => {
+      current?.resolve(result)
+      return null
+    })
+  }, [])
+
+  const dialog = useMemo(() => {
+    const entry = dialogState?.entry
+    const impact = entry ? importUndoImpact(entry) : null
+    const lookups = dialogState?.lookups
+    const transactionCount =
+      entry?.transactions.filter((transaction) => !transaction.undone).length ??
+      0
+    const allocationCount =
+      entry?.allocations.filter((allocation) => !allocation.undone).length ?? 0
+    const lockedTransactions =
+      entry && dialogState
+        ? lockedImportTransactions(entry, dialogState.lockedTransactionIds)
+        : []
+    const refundedTransactions =
+      entry && dialogState
+        ? refundedImportTransactions(entry, dialogState.refunds)
+        : []
+    const isBlocked =
+      lockedTransactions.length > 0 || refundedTransactions.length > 0
+
+    return (
+      <AlertDialog
+        open={dialogState !== null}
+        onOpenChange={(open) => {
+          if (!open) closeDialog(false)
+        }}
+      >
+        <AlertDialogContent className="flex max-h-[min(90vh,720px)] flex-col gap-4 overflow-y-auto">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {t('importHistory.undoDialog.title')}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('importHistory.undoDialog.description', {
+                transactions: transactionCount,
+                allocations: allocationCount
+              })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {isBlocked ? (
+            <div className="flex flex-col gap-4">
+              <BlockingList
+                title={t('importHistory.undoDialog.locked', {
+                  count: lockedTransactions.length
+                })}
+                transactions={lockedTransactions}
+              />
+              <BlockingList
+                title={t('importHistory.undoDialog.refunded', {
+                  count: refundedTransactions.length
+                })}
+                transactions={refundedTransactions}
+              />
+            </div>
+          ) : impact && lookups ? (
+            <div className="flex flex-col gap-4">
+              <ImpactList
+                title={t('importHistory.undoDialog.balances')}
+                rows={impact.accounts.map((item) => ({
+                  id: item.accountId,
+                  name: lookupName(lookups.accounts, item.accountId),
+                  change: item.change
+                }))}
+              />
+              <ImpactList
+                title={t('importHistory.undoDialog.budgets')}
+                rows={impact.budgets.map((item) => ({
+                  id: item.budgetId,
+                  name: lookupName(lookups.budgets, item.budgetId),
+                  change: item.change
+                }))}
+              />
+              <ImpactList
+                title={t('importHistory.undoDialog.pool')}
+                rows={
+                  impact.unallocatedChange === 0
+                    ? []
+                    : [
+                        {
+                          id: 'unallocated',
+                          name: t('importHistory.undoDialog.unallocated'),
+                          change: impact.unallocatedChange
+                        }
+                      ]
+                }
+              />
+            </div>
+          ) : null}
+
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <Button
+              type="button"
+              variant="filled"
+              color="destructive"
+              label={t('importHistory.undo')}
+              disabled={isBlocked}
+              onClick={() => closeDialog(true)}
+            />
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    )
+  }, [
+    closeDialog,
+    dialogState,
+    t
+  ])
+
+  return {
+    promptUndoImport,
+    undoImportDialog: dialog
+  }
+}
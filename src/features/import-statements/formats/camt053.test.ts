@@ -0,0 +1,68 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { TransactionType } from '@/api/generated/types.gen'
+import { parseCamt053Statement } from './camt053'
+
+const CAMT_053 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Acct><Id><IBAN>SE4550000000058398257466</IBAN></Id></Acct>
+      <Ntry>
+        <Amt Ccy="SEK">349.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <BookgDt><Dt>2026-06-20</Dt></BookgDt>
+        <ValDt><Dt>2026-06-19</Dt></ValDt>
+        <AcctSvcrRef>SEB-123</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <RltdPties>
+            <Cdtr><Nm>Willys AB</Nm></Cdtr>
+            <CdtrAcct><Id><Othr><Id>5050-1055</Id></Othr></Id></CdtrAcct>
+          </RltdPties>
+        </TxDtls></NtryDtls>
+        <AddtlNtryInf>KORTKÖP WILLYS</AddtlNtryInf>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="SEK">25000.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <BookgDt><DtTm>2026-06-25T06:00:00</DtTm></BookgDt>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>LON-2026-06</EndToEndId></Refs>
+          <RltdPties><Dbtr><Nm>Arbetsgivaren AB</Nm></Dbtr></RltdPties>
+        </TxDtls></NtryDtls>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`
+
+describe('parseCamt053Statement', () => {
+  it('maps entries with booking/value dates, references, and counterparties', () => {
+    const result = parseCamt053Statement(CAMT_053)
+
+    expect(result.accountNumber).toBe('SE4550000000058398257466')
+    expect(result.transactions).toEqual([
+      expect.objectContaining({
+        originalDescription: 'KORTKÖP WILLYS',
+        date: '2026-06-20',
+        valueDate: '2026-06-19',
+        signedAmount: -349,
+        externalId: 'SEB-123',
+        counterpartyAccount: '5050-1055',
+        type: TransactionType.EXPENSE
+      }),
+      expect.objectContaining({
+        originalDescription: 'Arbetsgivaren AB',
+        date: '2026-06-25',
+        signedAmount: 25000,
+        externalId: 'LON-2026-06',
+        type: TransactionType.INCOME
+      })
+    ])
+  })
+
+  it('rejects XML that is not a CAMT.053 statement', () => {
+    expect(() => parseCamt053Statement('<Document />')).toThrow(
+      'statementImport.errors.invalidCamt'
+    )
+  })
+})
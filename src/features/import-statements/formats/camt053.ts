@@ -0,0 +1,139 @@
+import { createStatementDraft } from '../statement-draft'
+import type {
+  InvalidStatementRow,
+  StatementParseResult,
+  TransactionDraft
+} from '../types'
+import { parseStatementDate } from '../utils/date'
+
+/** Direct children matching an ISO 20022 element name, ignoring namespaces. */
+function children(parent: Element | null | undefined, name: string): Element[] {
+  if (!parent) return []
+  return Array.from(parent.children).filter((child) => child.localName === name)
+}
+
+/** Follows a path of direct child element names, e.g. `Acct`, `Id`, `IBAN`. */
+function child(
+  parent: Element | null | undefined,
+  ...path: string[]
+): Element | null {
+  let current: Element | null = parent ?? null
+  for (const name of path) {
+    current = children(current, name)[0] ?? null
+    if (!current) return null
+  }
+  return current
+}
+
+function text(parent: Element | null | undefined, ...path: string[]): string {
+  return child(parent, ...path)?.textContent?.trim() ?? ''
+}
+
+/** IBAN when present, otherwise the first `Othr/Id`. */
+function accountId(account: Element | null): string {
+  return text(account, 'Id', 'IBAN') || text(account, 'Id', 'Othr', 'Id')
+}
+
+/** `Dt` or the date part of `DtTm`. */
+function entryDate(parent: Element | null): string {
+  const value = text(parent, 'Dt') || text(parent, 'DtTm').slice(0, 10)
+  if (!value) throw new Error('statementImport.errors.missingDate')
+  return parseStatementDate(value, [
+    'YYYY-MM-DD'
+  ])
+}
+
+function entryAmount(entry: Element): number {
+  const raw = text(entry, 'Amt')
+  if (!raw) throw new Error('statementImport.errors.missingAmount')
+  const amount = Number(raw)
+  if (!Number.isFinite(amount)) {
+    throw new Error('statementImport.errors.invalidAmountWithValue')
+  }
+  return text(entry, 'CdtDbtInd') === 'DBIT' ? -amount : amount
+}
+
+/**
+ * Parses ISO 20022 CAMT.053 bank-to-customer statements (any `camt.053.001.xx`
+ * version) into drafts. Uses `AcctSvcrRef` as external id, `ValDt` as value
+ * date, and the debtor/creditor account of the other party as counterparty.
+ */
+export function parseCamt053Statement(xml: string): StatementParseResult {
+  const document = new DOMParser().parseFromString(xml, 'application/xml')
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('statementImport.errors.invalidCamt')
+  }
+
+  const statement = child(document.documentElement, 'BkToCstmrStmt', 'Stmt')
+  if (!statement) throw new Error('statementImport.errors.invalidCamt')
+
+  const accountNumber = accountId(child(statement, 'Acct')) || null
+  const transactions: TransactionDraft[] = []
+  const invalidRows: InvalidStatementRow[] = []
+
+  children(statement, 'Ntry').forEach((entry, index) => {
+    const sourceRowNumber = index + 1
+    const details = child(entry, 'NtryDtls', 'TxDtls')
+    const isDebit = text(entry, 'CdtDbtInd') === 'DBIT'
+    const counterpartyRole = isDebit ? 'Cdtr' : 'Dbtr'
+    const externalId =
+      text(entry, 'AcctSvcrRef') ||
+      text(details, 'Refs', 'AcctSvcrRef') ||
+      text(details, 'Refs', 'EndToEndId')
+
+    try {
+      const counterpartyName =
+        text(details, 'RltdPties', counterpartyRole, 'Nm') ||
+        text(details, 'RltdPties', counterpartyRole, 'Pty', 'Nm')
+      const description =
+        text(entry, 'AddtlNtryInf') ||
+        counterpartyName ||
+        text(details, 'RmtInf', 'Ustrd')
+      if (!description)
+        throw new Error('statementImport.errors.missingDescription')
+
+      const valueDate = child(entry, 'ValDt')
+
+      transactions.push(
+        createStatementDraft({
+          sourceRowNumber,
+          description,
+          date: entryDate(child(entry, 'BookgDt')),
+          amount: entryAmount(entry),
+          externalId: externalId || undefined,
+          valueDate: valueDate ? entryDate(valueDate) : undefined,
+          counterpartyAccount:
+            accountId(child(details, 'RltdPties', `${counterpartyRole}Acct`)) ||
+            undefined
+        })
+      )
+    } catch (error) {
+      invalidRows.push({
+        sourceRowNumber,
+        rawValues: [
+          externalId,
+          text(entry, 'BookgDt', 'Dt'),
+          text(entry, 'Amt')
+        ],
+        reason:
+          error instanceof Error
+            ? error.message
+            : 'statementImport.errors.malformedRow'
+      })
+    }
+  })
+
+  if (transactions.length === 0) {
+    throw new Error('statementImport.errors.noTransactionsFound')
+  }
+
+  return {
+    accountNumber,
+    profile: {
+      id: 'camt053',
+      name: 'CAMT.053'
+    },
+    transactions,
+    invalidRows
+  }
+}
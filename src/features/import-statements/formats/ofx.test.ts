@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { TransactionType } from '@/api/generated/types.gen'
+import { parseOfxStatement } from './ofx'
+
+const SGML_OFX = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+CHARSET:1252
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>SEK
+<BANKACCTFROM>
+<BANKID>9150
+<ACCTID>0260209
+<ACCTTYPE>CHECKING
+</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20260620120000.000[+1:CET]
+<DTAVAIL>20260619
+<TRNAMT>-1487.50
+<FITID>2026062000001
+<NAME>GOTEBORG ENERGI AB
+<MEMO>Autogiro
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>XFER
+<DTPOSTED>20260621
+<TRNAMT>2000,00
+<FITID>2026062100002
+<NAME>Överföring
+<BANKACCTTO>
+<BANKID>5555
+<ACCTID>6666777
+</BANKACCTTO>
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20260622
+<FITID>2026062200003
+<NAME>Missing amount
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`
+
+describe('parseOfxStatement', () => {
+  it('maps OFX transactions with external id, value date, and counterparty', () => {
+    const result = parseOfxStatement(SGML_OFX)
+
+    expect(result.accountNumber).toBe('91500260209')
+    expect(result.transactions).toHaveLength(2)
+    expect(result.transactions[0]).toMatchObject({
+      sourceRowNumber: 1,
+      originalDescription: 'GOTEBORG ENERGI AB Autogiro',
+      date: '2026-06-20',
+      valueDate: '2026-06-19',
+      signedAmount: -1487.5,
+      externalId: '2026062000001',
+      type: TransactionType.EXPENSE
+    })
+    expect(result.transactions[1]).toMatchObject({
+      signedAmount: 2000,
+      counterpartyAccount: '55556666777',
+      type: TransactionType.TRANSFER
+    })
+    expect(result.invalidRows).toEqual([
+      expect.objectContaining({
+        sourceRowNumber: 3,
+        reason: 'statementImport.errors.missingAmount'
+      })
+    ])
+  })
+
+  it('rejects files without an OFX body', () => {
+    expect(() => parseOfxStatement('Datum;Belopp')).toThrow(
+      'statementImport.errors.invalidOfx'
+    )
+  })
+})
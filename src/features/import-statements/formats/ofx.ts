@@ -0,0 +1,140 @@
+import { createStatementDraft } from '../statement-draft'
+import type {
+  InvalidStatementRow,
+  StatementParseResult,
+  TransactionDraft
+} from '../types'
+import { parseStatementDate } from '../utils/date'
+
+const TRANSACTION_BLOCK_PATTERN = /<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+/**
+ * Reads `<TAG>value` from OFX 1.x SGML (no closing tags) and OFX 2.x XML.
+ */
+function readTag(source: string, tag: string): string {
+  const match = source.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))
+  return match ? decodeEntities(match[1].trim()) : ''
+}
+
+function readBlock(source: string, tag: string): string {
+  const match = source.match(
+    new RegExp(`<${tag}>([\\s\\S]*?)(?:</${tag}>|$)`, 'i')
+  )
+  return match ? match[1] : ''
+}
+
+function parseOfxDate(value: string): string {
+  if (!value) throw new Error('statementImport.errors.missingDate')
+  return parseStatementDate(value.slice(0, 8), [
+    'YYYYMMDD'
+  ])
+}
+
+/** OFX amounts use `.` decimals, but some banks emit `,`. */
+function parseOfxAmount(value: string): number {
+  if (!value) throw new Error('statementImport.errors.missingAmount')
+  const normalized = value.includes('.') ? value : value.replace(',', '.')
+  const parsed = Number(normalized.replace(/\s/g, ''))
+  if (!Number.isFinite(parsed)) {
+    throw new Error('statementImport.errors.invalidAmountWithValue')
+  }
+  return parsed
+}
+
+/**
+ * Parses OFX/QFX bank statements (SGML 1.x or XML 2.x) into drafts. Uses
+ * `FITID` as external id, `DTAVAIL`/`DTUSER` as value date, and
+ * `BANKACCTTO` as counterparty account when present.
+ */
+export function parseOfxStatement(text: string): StatementParseResult {
+  if (!/<OFX>/i.test(text)) {
+    throw new Error('statementImport.errors.invalidOfx')
+  }
+
+  const statementAccount = readBlock(text, 'BANKACCTFROM')
+  const bankId = readTag(statementAccount, 'BANKID')
+  const accountId =
+    readTag(statementAccount, 'ACCTID') ||
+    readTag(readBlock(text, 'CCACCTFROM'), 'ACCTID')
+  const accountNumber = accountId ? `${bankId}${accountId}` : null
+
+  const transactions: TransactionDraft[] = []
+  const invalidRows: InvalidStatementRow[] = []
+  const blocks = [
+    ...text.matchAll(TRANSACTION_BLOCK_PATTERN)
+  ].map((match) => match[1])
+
+  blocks.forEach((block, index) => {
+    const sourceRowNumber = index + 1
+    const externalId = readTag(block, 'FITID')
+    const rawDate = readTag(block, 'DTPOSTED')
+    const rawAmount = readTag(block, 'TRNAMT')
+
+    try {
+      const name = readTag(block, 'NAME')
+      const memo = readTag(block, 'MEMO')
+      const description = [
+        name,
+        memo === name ? '' : memo
+      ]
+        .filter(Boolean)
+        .join(' ')
+      if (!description)
+        throw new Error('statementImport.errors.missingDescription')
+
+      const rawValueDate = readTag(block, 'DTAVAIL') || readTag(block, 'DTUSER')
+      const counterparty = readBlock(block, 'BANKACCTTO')
+      const counterpartyAccount = counterparty
+        ? `${readTag(counterparty, 'BANKID')}${readTag(counterparty, 'ACCTID')}`
+        : ''
+
+      transactions.push(
+        createStatementDraft({
+          sourceRowNumber,
+          description,
+          date: parseOfxDate(rawDate),
+          amount: parseOfxAmount(rawAmount),
+          externalId: externalId || undefined,
+          valueDate: rawValueDate ? parseOfxDate(rawValueDate) : undefined,
+          counterpartyAccount: counterpartyAccount || undefined
+        })
+      )
+    } catch (error) {
+      invalidRows.push({
+        sourceRowNumber,
+        rawValues: [
+          externalId,
+          rawDate,
+          rawAmount
+        ],
+        reason:
+          error instanceof Error
+            ? error.message
+            : 'statementImport.errors.malformedRow'
+      })
+    }
+  })
+
+  if (transactions.length === 0) {
+    throw new Error('statementImport.errors.noTransactionsFound')
+  }
+
+  return {
+    accountNumber,
+    profile: {
+      id: 'ofx',
+      name: 'OFX'
+    },
+    transactions,
+    invalidRows
+  }
+}
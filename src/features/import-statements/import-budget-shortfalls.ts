@@ -14,7 +14,8 @@ type BudgetLike = {
 }
 
 /**
- * Sums included, effective-dated expense import rows per budget.
+ * Sums included, not yet imported, effective-dated expense rows per budget.
+ * Split rows contribute one line per split budget.
  */
 export function expenseLinesFromImportDrafts(
   drafts: TransactionDraft[]
@@ -22,9 +23,24 @@ export function expenseLinesFromImportDrafts(
   const lines: ExpenseBudgetLine[] = []
 
   for (const draft of drafts) {
-    if (draft.excluded || draft.type !== TransactionType.EXPENSE) continue
-    if (!draft.budgetId) continue
+    if (
+      draft.excluded ||
+      draft.importedTransactionId ||
+      draft.type !== TransactionType.EXPENSE
+    )
+      continue
     if (!isEffectiveTransactionDate(new Date(draft.date))) continue
+    if (draft.splits?.length) {
+      for (const split of draft.splits) {
+        if (split.budgetId)
+          lines.push({
+            budgetId: split.budgetId,
+            amount: split.amount
+          })
+      }
+      continue
+    }
+    if (!draft.budgetId) continue
 
     lines.push({
       budgetId: draft.budgetId,
@@ -57,7 +73,12 @@ export function pendingIncomeTotalFromImportDrafts(
   let total = 0
 
   for (const draft of drafts) {
-    if (draft.excluded || draft.type !== TransactionType.INCOME) continue
+    if (
+      draft.excluded ||
+      draft.importedTransactionId ||
+      draft.type !== TransactionType.INCOME
+    )
+      continue
     total += draft.amount
   }
 
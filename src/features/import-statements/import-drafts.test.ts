@@ -2,7 +2,8 @@ import { describe, expect, it } from 'vitest'
 import { TransactionType } from '@/api/generated/types.gen'
 import {
   applyTransferAccountDefaults,
-  buildDraftsFromStatement
+  buildDraftsFromStatement,
+  buildDraftsFromStatements
 } from './import-drafts'
 import type { ImportLookupItem, StatementParseResult, TransactionDraft } from './types'
 
@@ -112,7 +113,9 @@ describe('buildDraftsFromStatement', () => {
       accounts,
       recipients: [],
       incomeSources: [],
-      categories: []
+      categories: [],
+      budgets: [],
+      rules: []
     })
 
     expect(originAccountId).toBe('checking')
@@ -130,6 +133,38 @@ describe('buildDraftsFromStatement', () => {
     })
   })
 
+  it('turns rows paid to another household account into transfers', () => {
+    const result: StatementParseResult = {
+      accountNumber: '9150-026 0209',
+      invalidRows: [],
+      transactions: [
+        transferDraft({
+          id: 'to-savings',
+          type: TransactionType.EXPENSE,
+          originalDescription: 'Sparande',
+          signedAmount: -1000,
+          amount: 1000,
+          counterpartyAccount: '5555-6666777'
+        })
+      ]
+    }
+
+    const { drafts } = buildDraftsFromStatement(result, {
+      accounts,
+      recipients: [],
+      incomeSources: [],
+      categories: [],
+      budgets: [],
+      rules: []
+    })
+
+    expect(drafts[0]).toMatchObject({
+      type: TransactionType.TRANSFER,
+      transferFromAccountId: 'checking',
+      transferToAccountId: 'savings'
+    })
+  })
+
   it('preserves signedAmount on parsed drafts while keeping amount absolute', () => {
     const result: StatementParseResult = {
       accountNumber: '9150-026 0209',
@@ -146,7 +181,9 @@ describe('buildDraftsFromStatement', () => {
       accounts,
       recipients: [],
       incomeSources: [],
-      categories: []
+      categories: [],
+      budgets: [],
+      rules: []
     })
 
     expect(drafts[0]).toMatchObject({
@@ -155,3 +192,115 @@ describe('buildDraftsFromStatement', () => {
     })
   })
 })
+
+describe('buildDraftsFromStatements', () => {
+  it('matches each file to its account and pairs transfers across files', () => {
+    const lookups = {
+      accounts,
+      recipients: [],
+      incomeSources: [],
+      categories: [],
+      budgets: [],
+      rules: []
+    }
+    const { originAccountIds, drafts } = buildDraftsFromStatements(
+      [
+        {
+          id: 'checking-file',
+          fileName: 'checking.csv',
+          result: {
+            accountNumber: '9150-026 0209',
+            invalidRows: [],
+            transactions: [
+              transferDraft({
+                id: 'out',
+                signedAmount: -500,
+                originalDescription: 'Till sparkonto'
+              })
+            ]
+          }
+        },
+        {
+          id: 'savings-file',
+          fileName: 'savings.csv',
+          result: {
+            accountNumber: '5555 6666777',
+            invalidRows: [],
+            transactions: [
+              transferDraft({
+                id: 'in',
+                date: '2026-06-21',
+                originalDescription: 'Från lönekonto'
+              })
+            ]
+          }
+        }
+      ],
+      lookups
+    )
+
+    expect(originAccountIds).toEqual({
+      'checking-file': 'checking',
+      'savings-file': 'savings'
+    })
+    expect(drafts).toHaveLength(1)
+    expect(drafts[0]).toMatchObject({
+      id: 'out',
+      statementId: 'checking-file',
+      type: TransactionType.TRANSFER,
+      transferFromAccountId: 'checking',
+      transferToAccountId: 'savings'
+    })
+  })
+
+  it('drops rows repeated under the same bank id in overlapping files', () => {
+    const lookups = {
+      accounts,
+      recipients: [],
+      incomeSources: [],
+      categories: [],
+      budgets: [],
+      rules: []
+    }
+    const statement = (id: string, transactions: TransactionDraft[]) => ({
+      id,
+      fileName: `${id}.ofx`,
+      result: {
+        accountNumber: '9150 0260209',
+        invalidRows: [],
+        transactions
+      }
+    })
+    const { drafts } = buildDraftsFromStatements(
+      [
+        statement('june', [
+          transferDraft({
+            id: 'june-1',
+            externalId: 'FITID-1'
+          }),
+          transferDraft({
+            id: 'june-2',
+            externalId: 'FITID-2'
+          })
+        ]),
+        statement('june-july', [
+          transferDraft({
+            id: 'june-july-2',
+            externalId: 'FITID-2'
+          }),
+          transferDraft({
+            id: 'june-july-3',
+            externalId: 'FITID-3'
+          })
+        ])
+      ],
+      lookups
+    )
+
+    expect(drafts.map((draft) => draft.id)).toEqual([
+      'june-1',
+      'june-2',
+      'june-july-3'
+    ])
+  })
+})
@@ -1,38 +1,103 @@
 import { TransactionType } from '@/api/generated/types.gen'
-import { findMatchingAccountId, guessTransferAccountId } from './accounts'
+import type { AssignmentRule } from '@/features/assignment-rules/types'
+import {
+  findMatchingAccountId,
+  guessTransferAccountCandidates,
+  guessTransferAccountId
+} from './accounts'
 import { applyAssignmentRules } from './classification/assignment-rules'
+import { pairStatementTransfers } from './classification/transfer-pairing'
 import type {
   ImportLookupItem,
+  ImportStatementFile,
   StatementParseResult,
-  TransactionDraft
+  TransactionDraft,
+  TransferCounterpart
 } from './types'
 
+type DraftLookups = {
+  accounts: ImportLookupItem[]
+  recipients: ImportLookupItem[]
+  incomeSources: ImportLookupItem[]
+  categories: ImportLookupItem[]
+  budgets: ImportLookupItem[]
+  rules: AssignmentRule[]
+}
+
+/**
+ * Household account (other than origin) matching the statement's
+ * counterparty account number, when the format provides one (OFX, CAMT.053).
+ */
+export function findCounterpartyAccountId(
+  draft: Pick<TransactionDraft, 'counterpartyAccount'>,
+  accounts: ImportLookupItem[],
+  originAccountId: string
+): string {
+  if (!draft.counterpartyAccount) return ''
+  return findMatchingAccountId(
+    draft.counterpartyAccount,
+    accounts.filter((account) => account.id !== originAccountId)
+  )
+}
+
 export function applyTransferAccountDefaults(
   draft: Pick<
     TransactionDraft,
-    'originalDescription' | 'signedAmount'
+    'originalDescription' | 'signedAmount' | 'counterpartyAccount'
   >,
   accounts: ImportLookupItem[],
   originAccountId: string
 ): Pick<TransactionDraft, 'transferFromAccountId' | 'transferToAccountId'> {
   const isTransferIn = draft.signedAmount > 0
+  const counterpartyAccountId =
+    findCounterpartyAccountId(draft, accounts, originAccountId) ||
+    guessTransferAccountId(draft.originalDescription, accounts, originAccountId)
 
   return {
     transferFromAccountId: isTransferIn
-      ? guessTransferAccountId(
-          draft.originalDescription,
-          accounts,
-          originAccountId
-        )
+      ? counterpartyAccountId
       : originAccountId,
-    transferToAccountId: isTransferIn
-      ? originAccountId
-      : guessTransferAccountId(
-          draft.originalDescription,
-          accounts,
-          originAccountId
-        )
+    transferToAccountId: isTransferIn ? originAccountId : counterpartyAccountId
+  }
+}
+
+/**
+ * How `applyTransferAccountDefaults` found the other account. Descriptions
+ * naming several household accounts are reported as low-confidence
+ * candidates without filling any of them.
+ */
+export function statementTransferCounterpart(
+  draft: Pick<TransactionDraft, 'originalDescription' | 'counterpartyAccount'>,
+  accounts: ImportLookupItem[],
+  originAccountId: string
+): TransferCounterpart | undefined {
+  if (findCounterpartyAccountId(draft, accounts, originAccountId)) {
+    return {
+      source: 'statement',
+      confidence: 'high'
+    }
+  }
+  if (
+    guessTransferAccountId(draft.originalDescription, accounts, originAccountId)
+  ) {
+    return {
+      source: 'description',
+      confidence: 'high'
+    }
+  }
+  const candidateAccountIds = guessTransferAccountCandidates(
+    draft.originalDescription,
+    accounts,
+    originAccountId
+  )
+  if (candidateAccountIds.length > 1) {
+    return {
+      source: 'description',
+      confidence: 'low',
+      candidateAccountIds
+    }
   }
+  return undefined
 }
 
 export function toLookupItems(
@@ -51,14 +116,28 @@ export function toLookupItems(
   }))
 }
 
+/** Moves a draft to another origin account, keeping transfer sides in sync. */
+export function withOriginAccount(
+  draft: TransactionDraft,
+  accountId: string
+): TransactionDraft {
+  return {
+    ...draft,
+    originAccountId: accountId,
+    transferFromAccountId:
+      draft.type === TransactionType.TRANSFER && draft.signedAmount < 0
+        ? accountId
+        : draft.transferFromAccountId,
+    transferToAccountId:
+      draft.type === TransactionType.TRANSFER && draft.signedAmount > 0
+        ? accountId
+        : draft.transferToAccountId
+  }
+}
+
 export function buildDraftsFromStatement(
   result: StatementParseResult,
-  lookups: {
-    accounts: ImportLookupItem[]
-    recipients: ImportLookupItem[]
-    incomeSources: ImportLookupItem[]
-    categories: ImportLookupItem[]
-  }
+  lookups: DraftLookups
 ): {
   originAccountId: string
   drafts: TransactionDraft[]
@@ -74,20 +153,32 @@ export function buildDraftsFromStatement(
         originAccountId
       },
       {
+        rules: lookups.rules,
         recipients: lookups.recipients,
         incomeSources: lookups.incomeSources,
-        categories: lookups.categories
+        categories: lookups.categories,
+        budgets: lookups.budgets
       }
     )
 
-    if (assigned.type !== TransactionType.TRANSFER) return assigned
+    const isOwnAccountTransfer =
+      findCounterpartyAccountId(assigned, lookups.accounts, originAccountId) !==
+      ''
+    if (assigned.type !== TransactionType.TRANSFER && !isOwnAccountTransfer)
+      return assigned
 
     return {
       ...assigned,
+      type: TransactionType.TRANSFER,
       ...applyTransferAccountDefaults(
         assigned,
         lookups.accounts,
         originAccountId
+      ),
+      transferCounterpart: statementTransferCounterpart(
+        assigned,
+        lookups.accounts,
+        originAccountId
       )
     }
   })
@@ -97,3 +188,43 @@ export function buildDraftsFromStatement(
     drafts
   }
 }
+
+/**
+ * Builds drafts for every statement file in the session. Each file gets its
+ * own origin account from its account number; rows that are two sides of one
+ * transfer between the files are merged by `pairStatementTransfers`.
+ */
+export function buildDraftsFromStatements(
+  statements: ImportStatementFile[],
+  lookups: DraftLookups
+): {
+  originAccountIds: Record<string, string>
+  drafts: TransactionDraft[]
+} {
+  const originAccountIds: Record<string, string> = {}
+  const drafts: TransactionDraft[] = []
+  // Overlapping OFX/CAMT exports of one account repeat rows under the same
+  // bank id; only the first file's row is kept.
+  const seenExternalIds = new Set<string>()
+  for (const statement of statements) {
+    const next = buildDraftsFromStatement(statement.result, lookups)
+    originAccountIds[statement.id] = next.originAccountId
+    const account = next.originAccountId || statement.result.accountNumber || ''
+    for (const draft of next.drafts) {
+      if (draft.externalId) {
+        const key = `${account}\u0000${draft.externalId}`
+        if (seenExternalIds.has(key)) continue
+        seenExternalIds.add(key)
+      }
+      drafts.push({
+        ...draft,
+        statementId: statement.id
+      })
+    }
+  }
+
+  return {
+    originAccountIds,
+    drafts: pairStatementTransfers(drafts)
+  }
+}
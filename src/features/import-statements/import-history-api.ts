@@ -0,0 +1,66 @@
+import { client } from '@/api/generated/client.gen'
+import type { ImportHistoryEntry } from './import-history'
+
+/*
+ * Import history endpoints are not in the OpenAPI spec yet, so they are
+ * called through the generated client by hand to share its base URL and auth.
+ * The MSW handlers in `src/__mocks__/handlers/import-history.ts` mirror them.
+ */
+
+const SECURITY = [
+  {
+    scheme: 'bearer',
+    type: 'http'
+  } as const
+]
+
+/** Household import batches, most recent first. */
+export async function listHouseholdImportHistory(
+  householdId: string
+): Promise<ImportHistoryEntry[]> {
+  const { data } = await client.get<
+    {
+      200: ImportHistoryEntry[]
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/households/{householdId}/import-history',
+    path: {
+      householdId
+    },
+    throwOnError: true
+  })
+  return data
+}
+
+/**
+ * Replaces the entry with the same id, or adds it as the most recent. An
+ * existing entry keeps its `importedAt`.
+ */
+export async function saveImportHistoryEntry(
+  householdId: string,
+  entry: ImportHistoryEntry
+): Promise<ImportHistoryEntry> {
+  const { data } = await client.put<
+    {
+      200: ImportHistoryEntry
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/households/{householdId}/import-history/{entryId}',
+    path: {
+      householdId,
+      entryId: entry.id
+    },
+    body: entry,
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    throwOnError: true
+  })
+  return data
+}
@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest'
+import { TransactionType } from '@/api/generated/types.gen'
+import {
+  type ImportHistoryEntry,
+  importedHistoryTransactions,
+  importUndoImpact
+} from './import-history'
+import type { TransactionDraft } from './types'
+
+function draft(overrides: Partial<TransactionDraft> = {}): TransactionDraft {
+  return {
+    id: 'row-1',
+    sourceRowNumber: 1,
+    originalDescription: 'ICA',
+    date: '2026-01-10',
+    amount: 300,
+    signedAmount: -300,
+    type: TransactionType.EXPENSE,
+    name: 'ICA',
+    originAccountId: 'acc_1',
+    budgetId: 'bud_food',
+    excluded: false,
+    ...overrides
+  }
+}
+
+function entry(overrides: Partial<ImportHistoryEntry>): ImportHistoryEntry {
+  return {
+    id: 'batch',
+    importedAt: '2026-01-15T10:00:00.000Z',
+    files: [],
+    transactions: [],
+    allocations: [],
+    ...overrides
+  }
+}
+
+describe('importedHistoryTransactions', () => {
+  it('records imported rows with their accounts and budget lines', () => {
+    const transactions = importedHistoryTransactions([
+      draft({
+        id: 'row-2',
+        sourceRowNumber: 2,
+        type: TransactionType.TRANSFER,
+        budgetId: null,
+        transferFromAccountId: 'acc_1',
+        transferToAccountId: 'acc_2',
+        importedTransactionId: 'tx_2'
+      }),
+      draft({
+        importedTransactionId: 'tx_1'
+      }),
+      draft({
+        id: 'row-3',
+        sourceRowNumber: 3
+      })
+    ])
+
+    expect(transactions).toEqual([
+      {
+        id: 'tx_1',
+        type: TransactionType.EXPENSE,
+        name: 'ICA',
+        date: '2026-01-10',
+        amount: 300,
+        accountId: 'acc_1',
+        budgetLines: [
+          {
+            budgetId: 'bud_food',
+            amount: 300
+          }
+        ]
+      },
+      {
+        id: 'tx_2',
+        type: TransactionType.TRANSFER,
+        name: 'ICA',
+        date: '2026-01-10',
+        amount: 300,
+        accountId: 'acc_1',
+        transferToAccountId: 'acc_2',
+        budgetLines: []
+      }
+    ])
+  })
+})
+
+describe('importUndoImpact', () => {
+  it('reverses balances, budgets, and the unallocated pool', () => {
+    const impact = importUndoImpact(
+      entry({
+        transactions: [
+          {
+            id: 'tx_income',
+            type: TransactionType.INCOME,
+            name: 'Lön',
+            date: '2026-01-10',
+            amount: 1000,
+            accountId: 'acc_1',
+            budgetLines: []
+          },
+          {
+            id: 'tx_expense',
+            type: TransactionType.EXPENSE,
+            name: 'ICA',
+            date: '2026-01-11',
+            amount: 300,
+            accountId: 'acc_1',
+            budgetLines: [
+              {
+                budgetId: 'bud_food',
+                amount: 200
+              }
+            ]
+          },
+          {
+            id: 'tx_transfer',
+            type: TransactionType.TRANSFER,
+            name: 'Spar',
+            date: '2026-01-12',
+            amount: 50,
+            accountId: 'acc_1',
+            transferToAccountId: 'acc_2',
+            budgetLines: []
+          },
+          {
+            id: 'tx_undone',
+            type: TransactionType.INCOME,
+            name: 'Bonus',
+            date: '2026-01-12',
+            amount: 999,
+            accountId: 'acc_1',
+            budgetLines: [],
+            undone: true
+          }
+        ],
+        allocations: [
+          {
+            budgetId: 'bud_food',
+            amount: 150
+          }
+        ]
+      })
+    )
+
+    expect(impact.accounts).toEqual([
+      {
+        accountId: 'acc_1',
+        change: -1000 + 300 + 50
+      },
+      {
+        accountId: 'acc_2',
+        change: -50
+      }
+    ])
+    expect(impact.budgets).toEqual([
+      {
+        budgetId: 'bud_food',
+        change: 200 - 150
+      }
+    ])
+    // Income leaves the pool, the unbudgeted 100 and the allocation return.
+    expect(impact.unallocatedChange).toBe(-1000 + 100 + 150)
+  })
+
+  it('ignores future-dated transactions', () => {
+    const impact = importUndoImpact(
+      entry({
+        transactions: [
+          {
+            id: 'tx_future',
+            type: TransactionType.INCOME,
+            name: 'Lön',
+            date: '2999-01-01',
+            amount: 1000,
+            accountId: 'acc_1',
+            budgetLines: []
+          }
+        ]
+      })
+    )
+
+    expect(impact).toEqual({
+      accounts: [],
+      budgets: [],
+      unallocatedChange: 0
+    })
+  })
+})
@@ -0,0 +1,217 @@
+import { TransactionType } from '@/api/generated/types.gen'
+import { isEffectiveTransactionDate } from '@/drawers/drawers/create-transaction-drawer/budget-allocation-shortfall'
+import type { ImportAllocationChoice } from './components/import-allocation-dialog'
+import type { TransactionDraft } from './types'
+
+/** Transaction an import created, with what is needed to list and undo it. */
+export type ImportHistoryTransaction = {
+  id: string
+  type: TransactionType
+  name: string
+  /** `YYYY-MM-DD` */
+  date: string
+  amount: number
+  /** Account the money entered or left; the source account for transfers. */
+  accountId: string
+  transferToAccountId?: string
+  /** Budgets an expense draws from, one line per split. */
+  budgetLines: Array<{
+    budgetId: string
+    amount: number
+  }>
+  /** Deleted by an undo that did not finish. */
+  undone?: boolean
+}
+
+export type ImportHistoryAllocation = ImportAllocationChoice & {
+  /** Reversed by an undo that did not finish. */
+  undone?: boolean
+}
+
+/** One submitted import: the files, and what it created. */
+export type ImportHistoryEntry = {
+  id: string
+  /** ISO timestamp of the first attempt that created rows. */
+  importedAt: string
+  files: Array<{
+    fileName: string
+    accountId: string
+  }>
+  transactions: ImportHistoryTransaction[]
+  allocations: ImportHistoryAllocation[]
+  /** ISO timestamp once every transaction and allocation was undone. */
+  undoneAt?: string
+}
+
+export type ImportHistoryTotals = {
+  incomeCount: number
+  expenseCount: number
+  transferCount: number
+  income: number
+  expenses: number
+  transfers: number
+  allocated: number
+}
+
+export type ImportUndoImpact = {
+  /** Balance change per account; positive means the balance goes up. */
+  accounts: Array<{
+    accountId: string
+    change: number
+  }>
+  /** Change of what is left to spend per budget. */
+  budgets: Array<{
+    budgetId: string
+    change: number
+  }>
+  unallocatedChange: number
+}
+
+function draftBudgetLines(
+  draft: TransactionDraft
+): ImportHistoryTransaction['budgetLines'] {
+  if (draft.type !== TransactionType.EXPENSE) return []
+  if (draft.splits?.length) {
+    return draft.splits
+      .filter((split) => split.budgetId)
+      .map((split) => ({
+        budgetId: split.budgetId,
+        amount: split.amount
+      }))
+  }
+  return draft.budgetId
+    ? [
+        {
+          budgetId: draft.budgetId,
+          amount: draft.amount
+        }
+      ]
+    : []
+}
+
+/**
+ * History records for the rows an import created (`importedTransactionId`),
+ * in statement row order.
+ */
+export function importedHistoryTransactions(
+  drafts: TransactionDraft[]
+): ImportHistoryTransaction[] {
+  return drafts
+    .filter(
+      (draft) => draft.importedTransactionId && draft.type !== 'uncategorized'
+    )
+    .sort((a, b) => a.sourceRowNumber - b.sourceRowNumber)
+    .map((draft) => ({
+      id: draft.importedTransactionId as string,
+      type: draft.type as TransactionType,
+      name: draft.name,
+      date: draft.date,
+      amount: draft.amount,
+      accountId:
+        draft.type === TransactionType.TRANSFER
+          ? (draft.transferFromAccountId ?? draft.originAccountId)
+          : draft.originAccountId,
+      ...(draft.type === TransactionType.TRANSFER && draft.transferToAccountId
+        ? {
+            transferToAccountId: draft.transferToAccountId
+          }
+        : {}),
+      budgetLines: draftBudgetLines(draft)
+    }))
+}
+
+export function importHistoryTotals(
+  entry: ImportHistoryEntry
+): ImportHistoryTotals {
+  const totals: ImportHistoryTotals = {
+    incomeCount: 0,
+    expenseCount: 0,
+    transferCount: 0,
+    income: 0,
+    expenses: 0,
+    transfers: 0,
+    allocated: entry.allocations.reduce(
+      (sum, allocation) => sum + allocation.amount,
+      0
+    )
+  }
+  for (const transaction of entry.transactions) {
+    if (transaction.type === TransactionType.INCOME) {
+      totals.incomeCount += 1
+      totals.income += transaction.amount
+    } else if (transaction.type === TransactionType.EXPENSE) {
+      totals.expenseCount += 1
+      totals.expenses += transaction.amount
+    } else if (transaction.type === TransactionType.TRANSFER) {
+      totals.transferCount += 1
+      totals.transfers += transaction.amount
+    }
+  }
+  return totals
+}
+
+function addChange(changes: Map<string, number>, id: string, amount: number) {
+  if (!id || amount === 0) return
+  changes.set(id, (changes.get(id) ?? 0) + amount)
+}
+
+/**
+ * What undoing the rest of the batch does to balances, budgets, and the
+ * unallocated pool. Future-dated transactions do not count yet, matching how
+ * balances and budgets treat them. Budgeted expenses leave the pool unchanged:
+ * the money returns to the accounts and to the budget.
+ */
+export function importUndoImpact(entry: ImportHistoryEntry): ImportUndoImpact {
+  const accounts = new Map<string, number>()
+  const budgets = new Map<string, number>()
+  let unallocatedChange = 0
+
+  for (const transaction of entry.transactions) {
+    if (
+      transaction.undone ||
+      !isEffectiveTransactionDate(new Date(transaction.date))
+    )
+      continue
+    if (transaction.type === TransactionType.INCOME) {
+      addChange(accounts, transaction.accountId, -transaction.amount)
+      unallocatedChange -= transaction.amount
+    } else if (transaction.type === TransactionType.EXPENSE) {
+      addChange(accounts, transaction.accountId, transaction.amount)
+      let budgeted = 0
+      for (const line of transaction.budgetLines) {
+        addChange(budgets, line.budgetId, line.amount)
+        budgeted += line.amount
+      }
+      unallocatedChange += transaction.amount - budgeted
+    } else if (transaction.type === TransactionType.TRANSFER) {
+      addChange(accounts, transaction.accountId, transaction.amount)
+      addChange(
+        accounts,
+        transaction.transferToAccountId ?? '',
+        -transaction.amount
+      )
+    }
+  }
+
+  for (const allocation of entry.allocations) {
+    if (allocation.undone) continue
+    addChange(budgets, allocation.budgetId, -allocation.amount)
+    unallocatedChange += allocation.amount
+  }
+
+  return {
+    accounts: [
+      ...accounts
+    ].map(([accountId, change]) => ({
+      accountId,
+      change
+    })),
+    budgets: [
+      ...budgets
+    ].map(([budgetId, change]) => ({
+      budgetId,
+      change
+    })),
+    unallocatedChange
+  }
+}
@@ -0,0 +1,234 @@
+import { describe, expect, it } from 'vitest'
+import { TransactionType } from '@/api/generated/types.gen'
+import {
+  isSupportedStatementFile,
+  normalizeHeader,
+  parseStatementFile,
+  parseStatementRows
+} from './parser'
+import {
+  createMappedStatementProfile,
+  statementProfilesToTry
+} from './profiles'
+
+function csvFile(content: string, name = 'kontoutdrag.csv'): File {
+  return new File(
+    [
+      content
+    ],
+    name,
+    {
+      type: 'text/csv'
+    }
+  )
+}
+
+describe('parseStatementFile', () => {
+  it('parses semicolon separated CSV statements', async () => {
+    const result = await parseStatementFile(
+      csvFile(
+        [
+          'Kontonummer;9150 0260209',
+          '',
+          'Bokf. datum;Beskrivning;Belopp;Saldo',
+          '2026-06-20;"ICA Maxi; Göteborg";-1 487,50;10 000,00',
+          '21/06/2026;LÖN;44 417,00;54 417,00',
+          'not-a-date;Broken;12,00;0'
+        ].join('\r\n')
+      )
+    )
+
+    expect(result.accountNumber).toBe('9150 0260209')
+    expect(
+      result.transactions.map((draft) => [
+        draft.sourceRowNumber,
+        draft.date,
+        draft.originalDescription,
+        draft.signedAmount,
+        draft.type
+      ])
+    ).toEqual([
+      [
+        3,
+        '2026-06-20',
+        'ICA Maxi; Göteborg',
+        -1487.5,
+        TransactionType.EXPENSE
+      ],
+      [
+        4,
+        '2026-06-21',
+        'LÖN',
+        44417,
+        TransactionType.INCOME
+      ]
+    ])
+    expect(result.invalidRows).toHaveLength(1)
+  })
+
+  it('rejects unsupported file types', () => {
+    expect(isSupportedStatementFile(csvFile('', 'statement.pdf'))).toBe(false)
+  })
+})
+
+describe('parseStatementRows with statement profiles', () => {
+  it('recognizes Swedbank exports and reads the account number columns', () => {
+    const result = parseStatementRows(
+      [
+        [
+          '* Transaktioner Period 2026-06-01–2026-06-30'
+        ],
+        [
+          'Radnummer',
+          'Clearingnummer',
+          'Kontonummer',
+          'Bokföringsdag',
+          'Beskrivning',
+          'Belopp',
+          'Bokfört saldo'
+        ],
+        [
+          '1',
+          '8327-9',
+          '123 456 789-0',
+          '2026-06-20',
+          'ICA MAXI',
+          '-512,30',
+          '9 487,70'
+        ]
+      ],
+      statementProfilesToTry()
+    )
+
+    expect(result.profile?.id).toBe('swedbank')
+    expect(result.accountNumber).toBe('8327-9123 456 789-0')
+    expect(result.transactions[0].signedAmount).toBe(-512.3)
+  })
+
+  it('falls back to the generic profile when a bank profile cannot read the dates', () => {
+    const result = parseStatementRows(
+      [
+        [
+          'Datum',
+          'Text',
+          'Belopp'
+        ],
+        [
+          '25.10.2026',
+          'LÖN',
+          '32 000,00'
+        ],
+        [
+          '2026-10-26',
+          'ICA',
+          '-250,00'
+        ]
+      ],
+      statementProfilesToTry()
+    )
+
+    expect(result.profile?.id).toBe('generic')
+    expect(result.transactions.map((draft) => draft.date)).toEqual([
+      '2026-10-25',
+      '2026-10-26'
+    ])
+    expect(result.invalidRows).toHaveLength(0)
+  })
+
+  it('recognizes ICA Banken exports by their Typ and Budgetgrupp columns', () => {
+    const result = parseStatementRows(
+      [
+        [
+          'Datum',
+          'Text',
+          'Typ',
+          'Budgetgrupp',
+          'Belopp',
+          'Saldo'
+        ],
+        [
+          '2026-10-26',
+          'ICA KVANTUM',
+          'Korttransaktion',
+          'Mat',
+          '-250,00',
+          '1 000,00'
+        ]
+      ],
+      statementProfilesToTry()
+    )
+
+    expect(result.profile?.id).toBe('ica-banken')
+    expect(result.transactions[0].signedAmount).toBe(-250)
+  })
+
+  it('does not label generic ISO-dated exports as a bank', () => {
+    const result = parseStatementRows(
+      [
+        [
+          'Datum',
+          'Text',
+          'Belopp',
+          'Saldo'
+        ],
+        [
+          '2026-10-26',
+          'ICA',
+          '-250,00',
+          '1 000,00'
+        ]
+      ],
+      statementProfilesToTry()
+    )
+
+    expect(result.profile?.id).toBe('generic')
+  })
+
+  it('applies mapped profile date format and inverted sign convention', () => {
+    const rows = [
+      [
+        'Köpdatum',
+        'Inköpsställe',
+        'Summa'
+      ],
+      [
+        '20.06.2026',
+        'WILLYS',
+        '349,00'
+      ]
+    ]
+    const profile = createMappedStatementProfile(
+      rows,
+      {
+        name: 'Kreditkort',
+        headerRowIndex: 0,
+        columns: {
+          date: 0,
+          description: 1,
+          amount: 2,
+          balance: null
+        },
+        dateFormat: 'DD.MM.YYYY',
+        signConvention: 'inverted'
+      },
+      normalizeHeader
+    )
+
+    expect(() => parseStatementRows(rows, statementProfilesToTry())).toThrow(
+      'statementImport.errors.noTransactionHeader'
+    )
+
+    const result = parseStatementRows(
+      rows,
+      statementProfilesToTry([
+        profile
+      ])
+    )
+    expect(result.profile?.name).toBe('Kreditkort')
+    expect(result.transactions[0]).toMatchObject({
+      date: '2026-06-20',
+      signedAmount: -349,
+      type: TransactionType.EXPENSE
+    })
+  })
+})
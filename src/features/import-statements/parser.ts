@@ -1,41 +1,63 @@
 import * as XLSX from 'xlsx'
-import { TransactionType } from '@/api/generated/types.gen'
-import { classifyTransaction } from './classification/classify-transaction'
+import { parseCamt053Statement } from './formats/camt053'
+import { parseOfxStatement } from './formats/ofx'
+import {
+  GENERIC_STATEMENT_PROFILE,
+  type StatementHeaderKey,
+  type StatementProfile
+} from './profiles'
+import { createStatementDraft } from './statement-draft'
 import type {
   InvalidStatementRow,
   StatementParseResult,
   TransactionDraft
 } from './types'
+import {
+  decodeStatementText,
+  detectCsvDelimiter,
+  parseCsvRows
+} from './utils/csv'
 import { parseStatementDate } from './utils/date'
 import { parseSwedishMoney } from './utils/money'
 
-const SUPPORTED_MIME_TYPES = new Set([
-  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-  'application/octet-stream',
-  ''
-])
-
-type HeaderKey = 'date' | 'description' | 'amount' | 'balance'
-
-const HEADER_ALIASES: Record<HeaderKey, string[]> = {
-  date: [
-    'bokfdatum',
-    'bokforingsdatum',
-    'datum'
-  ],
-  description: [
-    'beskrivning',
-    'text',
-    'transaktion'
-  ],
-  amount: [
-    'belopp',
-    'amount'
-  ],
-  balance: [
-    'saldo',
-    'balance'
-  ]
+export type StatementFileFormat = 'xlsx' | 'csv' | 'ofx' | 'camt053'
+
+const FILE_EXTENSION_FORMATS: Record<string, StatementFileFormat> = {
+  xlsx: 'xlsx',
+  csv: 'csv',
+  ofx: 'ofx',
+  qfx: 'ofx',
+  xml: 'camt053'
+}
+
+const SUPPORTED_MIME_TYPES: Record<StatementFileFormat, Set<string>> = {
+  xlsx: new Set([
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/octet-stream',
+    ''
+  ]),
+  csv: new Set([
+    'text/csv',
+    'text/plain',
+    'application/csv',
+    'application/vnd.ms-excel',
+    'application/octet-stream',
+    ''
+  ]),
+  ofx: new Set([
+    'application/x-ofx',
+    'application/ofx',
+    'application/vnd.intu.qfx',
+    'text/plain',
+    'application/octet-stream',
+    ''
+  ]),
+  camt053: new Set([
+    'application/xml',
+    'text/xml',
+    'application/octet-stream',
+    ''
+  ])
 }
 
 function normalizeHeader(value: unknown): string {
@@ -50,23 +72,38 @@ function isEmptyRow(row: unknown[]): boolean {
   return row.every((cell) => String(cell ?? '').trim() === '')
 }
 
-function findHeaderIndex(row: unknown[], key: HeaderKey): number {
-  const normalizedAliases = HEADER_ALIASES[key].map(normalizeHeader)
+function findHeaderIndex(
+  row: unknown[],
+  aliases: string[] | undefined
+): number {
+  const normalizedAliases = (aliases ?? []).map(normalizeHeader)
+  if (normalizedAliases.length === 0) return -1
   return row.findIndex((cell) =>
     normalizedAliases.includes(normalizeHeader(cell))
   )
 }
 
-function findHeaderRow(rows: unknown[][]): {
+type StatementHeader = {
   index: number
-  columns: Record<Exclude<HeaderKey, 'balance'>, number>
-} {
+  columns: Record<Exclude<StatementHeaderKey, 'balance'>, number>
+}
+
+function findHeaderRowForProfile(
+  rows: unknown[][],
+  profile: StatementProfile
+): StatementHeader | null {
   for (let index = 0; index < rows.length; index++) {
     const row = rows[index]
-    const date = findHeaderIndex(row, 'date')
-    const description = findHeaderIndex(row, 'description')
-    const amount = findHeaderIndex(row, 'amount')
-    if (date >= 0 && description >= 0 && amount >= 0) {
+    const date = findHeaderIndex(row, profile.headerAliases.date)
+    const description = findHeaderIndex(row, profile.headerAliases.description)
+    const amount = findHeaderIndex(row, profile.headerAliases.amount)
+    const hasRequiredHeaders = (profile.requiredHeaders ?? []).every(
+      (header) =>
+        findHeaderIndex(row, [
+          header
+        ]) >= 0
+    )
+    if (date >= 0 && description >= 0 && amount >= 0 && hasRequiredHeaders) {
       return {
         index,
         columns: {
@@ -78,75 +115,147 @@ function findHeaderRow(rows: unknown[][]): {
     }
   }
 
+  return null
+}
+
+/**
+ * Built-in profiles share generic headers (Datum/Text/Belopp) with other
+ * exports, so a header match alone does not identify the bank. The profile
+ * only counts when its date formats read every data row; otherwise the next
+ * profile (ultimately the auto-detecting generic one) gets the file.
+ */
+function profileReadsDates(
+  rows: unknown[][],
+  profile: StatementProfile,
+  header: StatementHeader
+): boolean {
+  if (profile.custom || profile.dateFormats.length === 0) return true
+  return rows.slice(header.index + 1).every((row) => {
+    const value = row[header.columns.date]
+    if (String(value ?? '').trim() === '') return true
+    try {
+      parseStatementDate(value as string | number | Date, profile.dateFormats)
+      return true
+    } catch {
+      return false
+    }
+  })
+}
+
+function findHeaderRow(
+  rows: unknown[][],
+  profiles: StatementProfile[]
+): {
+  profile: StatementProfile
+  header: StatementHeader
+} {
+  for (const profile of profiles) {
+    const header = findHeaderRowForProfile(rows, profile)
+    if (header && profileReadsDates(rows, profile, header)) {
+      return {
+        profile,
+        header
+      }
+    }
+  }
+
   throw new Error('statementImport.errors.noTransactionHeader')
 }
 
-function parseAccountNumber(rows: unknown[][]): string | null {
-  for (const row of rows.slice(0, 10)) {
-    const labelIndex = row.findIndex(
-      (cell) => normalizeHeader(cell) === 'kontonummer'
-    )
-    if (labelIndex < 0) continue
+function parseAccountNumber(
+  rows: unknown[][],
+  profile: StatementProfile,
+  header: StatementHeader
+): string | null {
+  const location = profile.accountNumber
+
+  if (location.type === 'label') {
+    const labels = location.labels.map(normalizeHeader)
+    for (const row of rows.slice(0, Math.min(10, header.index))) {
+      const labelIndex = row.findIndex((cell) =>
+        labels.includes(normalizeHeader(cell))
+      )
+      if (labelIndex < 0) continue
 
-    const value = row
-      .slice(labelIndex + 1)
-      .find((cell) => String(cell ?? '').trim() !== '')
-    return value == null ? null : String(value).trim()
+      const value = row
+        .slice(labelIndex + 1)
+        .find((cell) => String(cell ?? '').trim() !== '')
+      return value == null ? null : String(value).trim()
+    }
+    return null
+  }
+
+  if (location.type === 'column') {
+    const headerRow = rows[header.index]
+    const firstDataRow = rows
+      .slice(header.index + 1)
+      .find((row) => !isEmptyRow(row))
+    if (!firstDataRow) return null
+
+    const value = location.columns
+      .map((column) =>
+        findHeaderIndex(headerRow, [
+          column
+        ])
+      )
+      .filter((index) => index >= 0)
+      .map((index) => String(firstDataRow[index] ?? '').trim())
+      .filter(Boolean)
+      .join('')
+    return value || null
   }
 
   return null
 }
 
-function makeDraft(args: {
-  sourceRowNumber: number
-  description: string
-  date: string
-  amount: number
-}): TransactionDraft {
-  const type = classifyTransaction(args.description, args.amount)
-  return {
-    id:
-      typeof crypto !== 'undefined' && 'randomUUID' in crypto
-        ? crypto.randomUUID()
-        : `${args.sourceRowNumber}-${Date.now()}`,
-    sourceRowNumber: args.sourceRowNumber,
-    originalDescription: args.description,
-    date: args.date,
-    amount: Math.abs(args.amount),
-    signedAmount: args.amount,
-    type,
-    name: args.description,
-    originAccountId: '',
-    excluded: false,
-    parseWarnings:
-      type === TransactionType.TRANSFER
-        ? [
-            'statementImport.warnings.reviewTransferDestination'
-          ]
-        : undefined
-  }
+export function getStatementFileFormat(file: File): StatementFileFormat | null {
+  const extension = file.name.toLocaleLowerCase('sv-SE').split('.').pop() ?? ''
+  const format = Object.hasOwn(FILE_EXTENSION_FORMATS, extension)
+    ? FILE_EXTENSION_FORMATS[extension]
+    : null
+  if (!format || !SUPPORTED_MIME_TYPES[format].has(file.type)) return null
+  return format
 }
 
 export function isSupportedStatementFile(file: File): boolean {
-  return (
-    file.name.toLocaleLowerCase('sv-SE').endsWith('.xlsx') &&
-    SUPPORTED_MIME_TYPES.has(file.type)
-  )
+  return getStatementFileFormat(file) !== null
 }
 
+/**
+ * Reads and parses a statement file. OFX/QFX and CAMT.053 carry their own
+ * structure; for spreadsheets `profiles` are tried in order (see
+ * `statementProfilesToTry`). Throws `statementImport.errors.noTransactionHeader`
+ * when no profile matches — callers can then offer column mapping with
+ * `readStatementRows` + `parseStatementRows`.
+ */
 export async function parseStatementFile(
-  file: File
+  file: File,
+  profiles?: StatementProfile[]
 ): Promise<StatementParseResult> {
-  if (!isSupportedStatementFile(file)) {
-    throw new Error('statementImport.errors.onlyXlsxSupported')
+  const format = getStatementFileFormat(file)
+  if (format === 'ofx') {
+    return parseOfxStatement(decodeStatementText(await file.arrayBuffer()))
+  }
+  if (format === 'camt053') {
+    return parseCamt053Statement(decodeStatementText(await file.arrayBuffer()))
   }
 
-  return parseXlsxStatement(file)
+  return parseStatementRows(await readStatementRows(file), profiles)
 }
 
-export async function parseXlsxStatement(
-  file: File
-): Promise<StatementParseResult> {
+/**
+ * Reads raw cell rows from a spreadsheet-like statement file (`.xlsx`,
+ * `.csv`) without interpreting headers.
+ */
+export async function readStatementRows(file: File): Promise<unknown[][]> {
+  const format = getStatementFileFormat(file)
+  if (format === 'csv') return readCsvRows(file)
+  if (format === 'xlsx') return readXlsxRows(file)
+
+  throw new Error('statementImport.errors.unsupportedFileType')
+}
+
+async function readXlsxRows(file: File): Promise<unknown[][]> {
   const buffer = await file.arrayBuffer()
   const workbook = XLSX.read(buffer, {
     type: 'array',
@@ -156,14 +265,36 @@ export async function parseXlsxStatement(
   if (!sheetName) throw new Error('statementImport.errors.noWorksheets')
 
   const sheet = workbook.Sheets[sheetName]
-  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+  return XLSX.utils.sheet_to_json<unknown[]>(sheet, {
     header: 1,
     raw: true,
     blankrows: false
   })
+}
+
+/**
+ * Reads semicolon/comma/tab separated exports. Encoding (UTF-8 or
+ * Windows-1252) and delimiter are detected from the file contents.
+ */
+async function readCsvRows(file: File): Promise<unknown[][]> {
+  const text = decodeStatementText(await file.arrayBuffer())
+  return parseCsvRows(text, detectCsvDelimiter(text))
+}
 
-  const accountNumber = parseAccountNumber(rows)
-  const header = findHeaderRow(rows)
+/**
+ * Shared row pipeline for all spreadsheet-like formats: picks the first
+ * matching profile, locates account number and header row, then parses each
+ * data row into a draft using the profile's date formats and sign convention.
+ */
+export function parseStatementRows(
+  rows: unknown[][],
+  profiles: StatementProfile[] = [
+    GENERIC_STATEMENT_PROFILE
+  ]
+): StatementParseResult {
+  const { profile, header } = findHeaderRow(rows, profiles)
+  const accountNumber = parseAccountNumber(rows, profile, header)
+  const amountSign = profile.signConvention === 'inverted' ? -1 : 1
   const transactions: TransactionDraft[] = []
   const invalidRows: InvalidStatementRow[] = []
 
@@ -185,14 +316,15 @@ export async function parseXlsxStatement(
         throw new Error('statementImport.errors.missingDescription')
 
       const date = parseStatementDate(
-        row[header.columns.date] as string | number | Date
-      )
-      const amount = parseSwedishMoney(
-        row[header.columns.amount] as string | number
+        row[header.columns.date] as string | number | Date,
+        profile.dateFormats
       )
+      const amount =
+        amountSign *
+        parseSwedishMoney(row[header.columns.amount] as string | number)
 
       transactions.push(
-        makeDraft({
+        createStatementDraft({
           sourceRowNumber,
           description,
           date,
@@ -217,6 +349,10 @@ export async function parseXlsxStatement(
 
   return {
     accountNumber,
+    profile: {
+      id: profile.id,
+      name: profile.name
+    },
     transactions,
     invalidRows
   }
@@ -0,0 +1,54 @@
+import { createLocalStore } from '@/lib/local-store'
+import type { StatementProfile } from './profiles'
+
+const EMPTY_PROFILES: StatementProfile[] = []
+
+function isStoredProfile(value: unknown): value is StatementProfile {
+  if (typeof value !== 'object' || value === null) return false
+  const profile = value as Partial<StatementProfile>
+  return (
+    typeof profile.id === 'string' &&
+    typeof profile.name === 'string' &&
+    typeof profile.headerAliases === 'object' &&
+    profile.headerAliases !== null &&
+    Array.isArray(profile.dateFormats) &&
+    (profile.signConvention === 'signed' ||
+      profile.signConvention === 'inverted') &&
+    typeof profile.accountNumber === 'object'
+  )
+}
+
+const store = createLocalStore(
+  'yoshi-statement-profiles-v1',
+  (stored) =>
+    Array.isArray(stored) ? stored.filter(isStoredProfile) : EMPTY_PROFILES,
+  EMPTY_PROFILES
+)
+
+/**
+ * Household-saved statement profiles from the column-mapping step. Stored in
+ * localStorage until the backend offers a profile endpoint.
+ */
+export function loadStatementProfiles(householdId: string): StatementProfile[] {
+  return store.load(householdId)
+}
+
+/**
+ * Adds or replaces (by id, then by name) a household statement profile.
+ */
+export function saveStatementProfile(
+  householdId: string,
+  profile: StatementProfile
+): StatementProfile[] {
+  const normalizedName = profile.name.toLocaleLowerCase('sv-SE')
+  const next = [
+    profile,
+    ...loadStatementProfiles(householdId).filter(
+      (existing) =>
+        existing.id !== profile.id &&
+        existing.name.toLocaleLowerCase('sv-SE') !== normalizedName
+    )
+  ]
+  store.save(householdId, next)
+  return next
+}
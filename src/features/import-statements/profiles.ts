@@ -0,0 +1,326 @@
+import { createId } from '@/lib/create-id'
+import type { StatementDateFormat } from './utils/date'
+
+export type StatementHeaderKey = 'date' | 'description' | 'amount' | 'balance'
+
+/**
+ * `signed` keeps the amount column as-is (negative = money out). `inverted`
+ * flips it for exports where purchases are positive (e.g. card statements).
+ */
+export type StatementSignConvention = 'signed' | 'inverted'
+
+/**
+ * Where the statement account number lives:
+ * - `label`: a cell matching one of `labels`, value in the next non-empty cell
+ *   of the same row (above the transaction header).
+ * - `column`: one or more transaction columns read from the first data row and
+ *   concatenated (e.g. clearing number + account number).
+ * - `none`: the export carries no account number.
+ */
+export type StatementAccountNumberLocation =
+  | {
+      type: 'label'
+      labels: string[]
+    }
+  | {
+      type: 'column'
+      columns: string[]
+    }
+  | {
+      type: 'none'
+    }
+
+export type StatementProfile = {
+  id: string
+  name: string
+  /** Header aliases per column; matched after `normalizeHeader`. */
+  headerAliases: Record<StatementHeaderKey, string[]>
+  /**
+   * Further headers the header row must contain, for banks whose column
+   * names are otherwise the same as a generic export.
+   */
+  requiredHeaders?: string[]
+  /** Tried in order. Empty means auto-detect via `parseStatementDate`. */
+  dateFormats: StatementDateFormat[]
+  signConvention: StatementSignConvention
+  accountNumber: StatementAccountNumberLocation
+  /** True for household-saved profiles created by the column-mapping step. */
+  custom?: boolean
+}
+
+export const HEADER_ALIASES: Record<StatementHeaderKey, string[]> = {
+  date: [
+    'bokfdatum',
+    'bokforingsdatum',
+    'datum'
+  ],
+  description: [
+    'beskrivning',
+    'text',
+    'transaktion'
+  ],
+  amount: [
+    'belopp',
+    'amount'
+  ],
+  balance: [
+    'saldo',
+    'balance'
+  ]
+}
+
+const KONTONUMMER_LABEL: StatementAccountNumberLocation = {
+  type: 'label',
+  labels: [
+    'kontonummer'
+  ]
+}
+
+/** Fallback layout used when no bank-specific profile matches. */
+export const GENERIC_STATEMENT_PROFILE: StatementProfile = {
+  id: 'generic',
+  name: 'Standard',
+  headerAliases: HEADER_ALIASES,
+  dateFormats: [],
+  signConvention: 'signed',
+  accountNumber: KONTONUMMER_LABEL
+}
+
+/**
+ * Known Swedish bank export layouts. Order matters: the first profile whose
+ * date, description, and amount headers all match and whose date formats read
+ * every data row is used.
+ */
+export const BUILT_IN_STATEMENT_PROFILES: StatementProfile[] = [
+  {
+    id: 'swedbank',
+    name: 'Swedbank',
+    headerAliases: {
+      date: [
+        'bokforingsdag'
+      ],
+      description: [
+        'beskrivning',
+        'referens'
+      ],
+      amount: [
+        'belopp'
+      ],
+      balance: [
+        'bokfortsaldo'
+      ]
+    },
+    dateFormats: [
+      'YYYY-MM-DD'
+    ],
+    signConvention: 'signed',
+    accountNumber: {
+      type: 'column',
+      columns: [
+        'clearingnummer',
+        'kontonummer'
+      ]
+    }
+  },
+  {
+    id: 'seb',
+    name: 'SEB',
+    headerAliases: {
+      date: [
+        'bokforingsdatum'
+      ],
+      description: [
+        'textmottagare'
+      ],
+      amount: [
+        'belopp'
+      ],
+      balance: [
+        'saldo'
+      ]
+    },
+    dateFormats: [
+      'YYYY-MM-DD'
+    ],
+    signConvention: 'signed',
+    accountNumber: KONTONUMMER_LABEL
+  },
+  {
+    id: 'nordea',
+    name: 'Nordea',
+    headerAliases: {
+      date: [
+        'bokforingsdag'
+      ],
+      description: [
+        'rubrik',
+        'namn'
+      ],
+      amount: [
+        'belopp'
+      ],
+      balance: [
+        'saldo'
+      ]
+    },
+    dateFormats: [
+      'YYYY/MM/DD',
+      'YYYY-MM-DD'
+    ],
+    signConvention: 'signed',
+    accountNumber: {
+      type: 'none'
+    }
+  },
+  {
+    id: 'handelsbanken',
+    name: 'Handelsbanken',
+    headerAliases: {
+      date: [
+        'reskontradatum',
+        'transaktionsdatum'
+      ],
+      description: [
+        'text'
+      ],
+      amount: [
+        'belopp'
+      ],
+      balance: [
+        'saldo'
+      ]
+    },
+    dateFormats: [
+      'YYYY-MM-DD'
+    ],
+    signConvention: 'signed',
+    accountNumber: {
+      type: 'label',
+      labels: [
+        'konto',
+        'kontonummer'
+      ]
+    }
+  },
+  {
+    id: 'ica-banken',
+    name: 'ICA Banken',
+    headerAliases: {
+      date: [
+        'datum'
+      ],
+      description: [
+        'text'
+      ],
+      amount: [
+        'belopp'
+      ],
+      balance: [
+        'saldo'
+      ]
+    },
+    // Datum/Text/Belopp alone is the generic layout.
+    requiredHeaders: [
+      'typ',
+      'budgetgrupp'
+    ],
+    dateFormats: [
+      'YYYY-MM-DD'
+    ],
+    signConvention: 'signed',
+    accountNumber: KONTONUMMER_LABEL
+  },
+  {
+    id: 'lunar',
+    name: 'Lunar',
+    // English headers only: Swedish Datum/Text/Belopp exports are left to
+    // the generic profile instead of being labelled as Lunar.
+    headerAliases: {
+      date: [
+        'date'
+      ],
+      description: [
+        'description'
+      ],
+      amount: [
+        'amount'
+      ],
+      balance: [
+        'balance'
+      ]
+    },
+    dateFormats: [
+      'YYYY-MM-DD',
+      'DD-MM-YYYY'
+    ],
+    signConvention: 'signed',
+    accountNumber: {
+      type: 'none'
+    }
+  }
+]
+
+/**
+ * Profiles to try when parsing: household-saved profiles first (explicit user
+ * intent), then built-in bank profiles, then the generic layout.
+ */
+export function statementProfilesToTry(
+  customProfiles: StatementProfile[] = []
+): StatementProfile[] {
+  return [
+    ...customProfiles,
+    ...BUILT_IN_STATEMENT_PROFILES,
+    GENERIC_STATEMENT_PROFILE
+  ]
+}
+
+export type StatementColumnMapping = {
+  name: string
+  headerRowIndex: number
+  columns: Record<Exclude<StatementHeaderKey, 'balance'>, number> & {
+    balance: number | null
+  }
+  dateFormat: StatementDateFormat | null
+  signConvention: StatementSignConvention
+}
+
+/**
+ * Builds a reusable profile from the header cells the user picked in the
+ * column-mapping step, so later files with the same headers match
+ * automatically.
+ */
+export function createMappedStatementProfile(
+  rows: unknown[][],
+  mapping: StatementColumnMapping,
+  normalize: (value: unknown) => string
+): StatementProfile {
+  const headerRow = rows[mapping.headerRowIndex] ?? []
+  const aliasAt = (column: number | null): string[] => {
+    if (column == null) return []
+    const alias = normalize(headerRow[column])
+    return alias
+      ? [
+          alias
+        ]
+      : []
+  }
+
+  return {
+    id: createId('custom'),
+    name: mapping.name.trim(),
+    headerAliases: {
+      date: aliasAt(mapping.columns.date),
+      description: aliasAt(mapping.columns.description),
+      amount: aliasAt(mapping.columns.amount),
+      balance: aliasAt(mapping.columns.balance)
+    },
+    dateFormats: mapping.dateFormat
+      ? [
+          mapping.dateFormat
+        ]
+      : [],
+    signConvention: mapping.signConvention,
+    accountNumber: KONTONUMMER_LABEL,
+    custom: true
+  }
+}
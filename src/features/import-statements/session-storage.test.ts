@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import {
+  importSessionFingerprint,
+  listImportSessions,
+  statementFileFingerprint
+} from './session-storage'
+
+describe('statementFileFingerprint', () => {
+  it('hashes file bytes so the same statement maps to the same session', async () => {
+    const fingerprint = await statementFileFingerprint(
+      new Blob([
+        'abc'
+      ])
+    )
+
+    expect(fingerprint).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    )
+    expect(
+      await statementFileFingerprint(
+        new Blob([
+          'abc'
+        ])
+      )
+    ).toBe(fingerprint)
+    expect(
+      await statementFileFingerprint(
+        new Blob([
+          'abd'
+        ])
+      )
+    ).not.toBe(fingerprint)
+  })
+})
+
+describe('importSessionFingerprint', () => {
+  it('does not depend on the order files were picked in', () => {
+    expect(
+      importSessionFingerprint([
+        {
+          id: 'b'
+        },
+        {
+          id: 'a'
+        }
+      ])
+    ).toBe('a+b')
+  })
+})
+
+describe('listImportSessions', () => {
+  it('reads as no sessions where IndexedDB is unavailable', async () => {
+    expect(await listImportSessions('household')).toEqual([])
+  })
+})
@@ -0,0 +1,180 @@
+import type { ImportAllocationChoice } from './components/import-allocation-dialog'
+import type { ImportStatementFile, TransactionDraft } from './types'
+
+const DB_NAME = 'yoshi-import-sessions'
+const DB_VERSION = 1
+const STORE_NAME = 'sessions'
+
+/**
+ * In-progress import, saved while the user reviews drafts so a reload or a
+ * closed tab does not lose exclusions, assignments, instance links, and
+ * allocation choices.
+ */
+export type StoredImportSession = {
+  householdId: string
+  /** Fingerprint of the statement files; see `importSessionFingerprint`. */
+  fingerprint: string
+  statements: ImportStatementFile[]
+  drafts: TransactionDraft[]
+  /** Origin account per statement file id. */
+  originAccountIds: Record<string, string>
+  allocationChoices: ImportAllocationChoice[]
+  /** Allocations created by a partially failed attempt; never sent again. */
+  createdAllocations?: ImportAllocationChoice[]
+  /** Import history entry the attempts are recorded under. */
+  historyEntryId?: string
+  /** Signatures of the automatic passes already applied to `drafts`. */
+  autoMatchedSignature: string
+  duplicateCheckSignature: string
+  /** ISO timestamp of the last save. */
+  updatedAt: string
+}
+
+type StoredRecord = StoredImportSession & {
+  key: string
+}
+
+function importSessionKey(householdId: string, fingerprint: string): string {
+  return `${householdId}:${fingerprint}`
+}
+
+/** Hex SHA-256 of the file bytes: the same file yields the same session. */
+export async function statementFileFingerprint(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('')
+}
+
+/**
+ * Session key for a set of statement files: the file fingerprint, or the
+ * sorted fingerprints when several files are reviewed together.
+ */
+export function importSessionFingerprint(
+  statements: Pick<ImportStatementFile, 'id'>[]
+): string {
+  return statements
+    .map((statement) => statement.id)
+    .sort()
+    .join('+')
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, {
+        keyPath: 'key'
+      })
+    }
+    dbPromise = requestResult(request).catch((error) => {
+      dbPromise = null
+      throw error
+    })
+  }
+  return dbPromise
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase()
+  return requestResult(
+    run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+  )
+}
+
+function isAvailable(householdId: string): boolean {
+  return typeof indexedDB !== 'undefined' && Boolean(householdId)
+}
+
+/** Drops records written before sessions covered several statement files. */
+function isCurrentRecord(
+  record: StoredRecord | undefined
+): record is StoredRecord {
+  return Boolean(record && Array.isArray(record.statements))
+}
+
+function toSession({
+  key: _key,
+  ...session
+}: StoredRecord): StoredImportSession {
+  return session
+}
+
+/**
+ * Saved import sessions for the household, most recently edited first.
+ * Storage errors (private mode, quota) read as no sessions.
+ */
+export async function listImportSessions(
+  householdId: string
+): Promise<StoredImportSession[]> {
+  if (!isAvailable(householdId)) return []
+
+  try {
+    const records = await withStore<StoredRecord[]>('readonly', (store) =>
+      store.getAll()
+    )
+    return records
+      .filter(
+        (record) =>
+          record.householdId === householdId && isCurrentRecord(record)
+      )
+      .map(toSession)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+  } catch {
+    return []
+  }
+}
+
+export async function loadImportSession(
+  householdId: string,
+  fingerprint: string
+): Promise<StoredImportSession | null> {
+  if (!isAvailable(householdId) || !fingerprint) return null
+
+  try {
+    const record = await withStore<StoredRecord | undefined>(
+      'readonly',
+      (store) => store.get(importSessionKey(householdId, fingerprint))
+    )
+    return isCurrentRecord(record) ? toSession(record) : null
+  } catch {
+    return null
+  }
+}
+
+/** Adds or replaces the session for the household and file fingerprint. */
+export async function saveImportSession(
+  session: StoredImportSession
+): Promise<void> {
+  if (!isAvailable(session.householdId) || !session.fingerprint) return
+
+  await withStore('readwrite', (store) =>
+    store.put({
+      ...session,
+      key: importSessionKey(session.householdId, session.fingerprint)
+    } satisfies StoredRecord)
+  )
+}
+
+export async function deleteImportSession(
+  householdId: string,
+  fingerprint: string
+): Promise<void> {
+  if (!isAvailable(householdId) || !fingerprint) return
+
+  await withStore('readwrite', (store) =>
+    store.delete(importSessionKey(householdId, fingerprint))
+  )
+}
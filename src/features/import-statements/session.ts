@@ -1,25 +1,16 @@
-import type { StatementParseResult } from './types'
+import type { ImportStatementFile } from './types'
 
-let activeStatement: StatementParseResult | null = null
-let activeStatementFileName = ''
+let activeStatements: ImportStatementFile[] = []
 
-export function setActiveStatement(
-  result: StatementParseResult,
-  fileName = ''
-): void {
-  activeStatement = result
-  activeStatementFileName = fileName
+/** Statement files picked on the transactions page for the import route. */
+export function setActiveStatements(statements: ImportStatementFile[]): void {
+  activeStatements = statements
 }
 
-export function getActiveStatement(): StatementParseResult | null {
-  return activeStatement
+export function getActiveStatements(): ImportStatementFile[] {
+  return activeStatements
 }
 
-export function getActiveStatementFileName(): string {
-  return activeStatementFileName
-}
-
-export function clearActiveStatement(): void {
-  activeStatement = null
-  activeStatementFileName = ''
+export function clearActiveStatements(): void {
+  activeStatements = []
 }
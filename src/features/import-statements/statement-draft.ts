@@ -0,0 +1,53 @@
+import { TransactionType } from '@/api/generated/types.gen'
+import { createId } from '@/lib/create-id'
+import { classifyTransaction } from './classification/classify-transaction'
+import type { TransactionDraft } from './types'
+
+/**
+ * Builds a fresh, classified draft from one parsed statement entry. Shared by
+ * the spreadsheet, OFX, and CAMT.053 parsers.
+ */
+export function createStatementDraft(args: {
+  sourceRowNumber: number
+  description: string
+  date: string
+  amount: number
+  externalId?: string
+  valueDate?: string
+  counterpartyAccount?: string
+}): TransactionDraft {
+  const type = classifyTransaction(args.description, args.amount)
+  return {
+    id: createId(`row-${args.sourceRowNumber}`),
+    sourceRowNumber: args.sourceRowNumber,
+    originalDescription: args.description,
+    date: args.date,
+    amount: Math.abs(args.amount),
+    signedAmount: args.amount,
+    type,
+    name: args.description,
+    originAccountId: '',
+    ...(args.externalId
+      ? {
+          externalId: args.externalId
+        }
+      : {}),
+    ...(args.valueDate
+      ? {
+          valueDate: args.valueDate
+        }
+      : {}),
+    ...(args.counterpartyAccount
+      ? {
+          counterpartyAccount: args.counterpartyAccount
+        }
+      : {}),
+    excluded: false,
+    parseWarnings:
+      type === TransactionType.TRANSFER
+        ? [
+            'statementImport.warnings.reviewTransferDestination'
+          ]
+        : undefined
+  }
+}
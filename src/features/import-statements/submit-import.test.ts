@@ -0,0 +1,214 @@
+import { describe, expect, it, vi } from 'vitest'
+import { TransactionType } from '@/api/generated/types.gen'
+import { applyImportPhaseResult, submitImportInOrder } from './submit-import'
+import type { TransactionDraft } from './types'
+
+function draft(overrides: Partial<TransactionDraft> = {}): TransactionDraft {
+  return {
+    id: 'row-1',
+    sourceRowNumber: 1,
+    originalDescription: 'ICA',
+    date: '2026-06-20',
+    amount: 100,
+    signedAmount: -100,
+    type: TransactionType.EXPENSE,
+    name: 'ICA',
+    originAccountId: 'acc_1',
+    recipientId: 'rec_1',
+    categoryId: 'cat_1',
+    budgetId: 'bud_1',
+    excluded: false,
+    ...overrides
+  }
+}
+
+describe('applyImportPhaseResult', () => {
+  it('marks created rows imported and attaches errors to failed rows', () => {
+    const next = applyImportPhaseResult(
+      [
+        draft({
+          importError: {
+            message: 'Old'
+          }
+        }),
+        draft({
+          id: 'row-2'
+        }),
+        draft({
+          id: 'row-3'
+        })
+      ],
+      {
+        created: [
+          {
+            clientRowId: 'row-1',
+            transactionId: 'tx_1'
+          }
+        ],
+        failed: [
+          {
+            clientRowId: 'row-2',
+            message: 'Budget saknas',
+            fieldErrors: {
+              budgetId: [
+                'Required'
+              ]
+            }
+          }
+        ]
+      }
+    )
+
+    expect(next[0]).toMatchObject({
+      importedTransactionId: 'tx_1',
+      importError: undefined
+    })
+    expect(next[1]?.importError).toEqual({
+      message: 'Budget saknas',
+      fieldErrors: {
+        budgetId: [
+          'Required'
+        ]
+      }
+    })
+    expect(next[2]).toEqual(
+      draft({
+        id: 'row-3'
+      })
+    )
+  })
+})
+
+describe('submitImportInOrder', () => {
+  it('sends only rows that were not imported by an earlier attempt', async () => {
+    const bulkCreateAsync = vi.fn().mockResolvedValue({
+      created: [
+        {
+          clientRowId: 'row-2',
+          transactionId: 'tx_2'
+        }
+      ],
+      failed: []
+    })
+    const createAllocationAsync = vi.fn()
+
+    const result = await submitImportInOrder({
+      drafts: [
+        draft({
+          type: TransactionType.INCOME,
+          signedAmount: 100,
+          importedTransactionId: 'tx_1'
+        }),
+        draft({
+          id: 'row-2'
+        })
+      ],
+      allocationChoices: [],
+      bulkCreateAsync,
+      createAllocationAsync
+    })
+
+    expect(result.ok).toBe(true)
+    expect(bulkCreateAsync).toHaveBeenCalledTimes(1)
+    expect(
+      bulkCreateAsync.mock.calls[0]?.[0].transactions.map(
+        (item: { clientRowId: string }) => item.clientRowId
+      )
+    ).toEqual([
+      'row-2'
+    ])
+    expect(createAllocationAsync).not.toHaveBeenCalled()
+  })
+
+  it('reports which allocations went through when one fails', async () => {
+    const bulkCreateAsync = vi.fn()
+    const createAllocationAsync = vi
+      .fn()
+      .mockResolvedValueOnce({})
+      .mockRejectedValueOnce(new Error('Nope'))
+
+    const result = await submitImportInOrder({
+      drafts: [
+        draft()
+      ],
+      allocationChoices: [
+        {
+          budgetId: 'bud_1',
+          amount: 50
+        },
+        {
+          budgetId: 'bud_2',
+          amount: 20
+        }
+      ],
+      bulkCreateAsync,
+      createAllocationAsync
+    })
+
+    expect(result).toMatchObject({
+      ok: false,
+      phase: 'allocations',
+      createdAllocations: [
+        {
+          budgetId: 'bud_1',
+          amount: 50
+        }
+      ]
+    })
+    expect(bulkCreateAsync).not.toHaveBeenCalled()
+  })
+
+  it('keeps created incomes and allocations when the last request rejects', async () => {
+    const bulkCreateAsync = vi
+      .fn()
+      .mockResolvedValueOnce({
+        created: [
+          {
+            clientRowId: 'income-1',
+            transactionId: 'tx_1'
+          }
+        ],
+        failed: []
+      })
+      .mockRejectedValueOnce(new Error('Network down'))
+    const createAllocationAsync = vi.fn().mockResolvedValue({})
+    const allocationChoices = [
+      {
+        budgetId: 'bud_1',
+        amount: 50
+      }
+    ]
+
+    const result = await submitImportInOrder({
+      drafts: [
+        draft({
+          id: 'income-1',
+          type: TransactionType.INCOME,
+          signedAmount: 100
+        }),
+        draft({
+          id: 'row-2'
+        })
+      ],
+      allocationChoices,
+      bulkCreateAsync,
+      createAllocationAsync
+    })
+
+    expect(bulkCreateAsync).toHaveBeenCalledTimes(2)
+    expect(result).toMatchObject({
+      ok: false,
+      phase: 'transfersAndExpenses',
+      incomeResult: {
+        created: [
+          {
+            clientRowId: 'income-1',
+            transactionId: 'tx_1'
+          }
+        ]
+      },
+      createdAllocations: allocationChoices
+    })
+    expect(result.ok ? undefined : result.error).toBeInstanceOf(Error)
+  })
+})
@@ -20,7 +20,10 @@ export type ImportSubmitResult =
       ok: false
       phase: 'incomes' | 'allocations' | 'transfersAndExpenses'
       incomeResult?: ImportBulkPhaseResult
-      allocationError?: unknown
+      /** Allocations that went through before the attempt stopped. */
+      createdAllocations: ImportAllocationChoice[]
+      /** Set when a request rejected instead of returning per-row failures. */
+      error?: unknown
       finalResult?: ImportBulkPhaseResult
     }
 
@@ -44,7 +47,55 @@ function toPhaseResult(
 }
 
 /**
- * Import order: incomes → budget allocations → transfers and expenses.
+ * Marks rows the bulk endpoint created as imported and attaches the per-item
+ * error to rows it rejected.
+ */
+export function applyImportPhaseResult(
+  drafts: TransactionDraft[],
+  result: ImportBulkPhaseResult
+): TransactionDraft[] {
+  const createdIds = new Map(
+    result.created.map((row) => [
+      row.clientRowId,
+      row.transactionId
+    ])
+  )
+  const failures = new Map(
+    result.failed.map((row) => [
+      row.clientRowId,
+      row
+    ])
+  )
+
+  return drafts.map((draft) => {
+    const transactionId = createdIds.get(draft.id)
+    if (transactionId) {
+      return {
+        ...draft,
+        importedTransactionId: transactionId,
+        importError: undefined
+      }
+    }
+    const failure = failures.get(draft.id)
+    if (!failure) return draft
+    return {
+      ...draft,
+      importError: {
+        message: failure.message,
+        ...(failure.fieldErrors
+          ? {
+              fieldErrors: failure.fieldErrors
+            }
+          : {})
+      }
+    }
+  })
+}
+
+/**
+ * Import order: incomes → budget allocations → transfers and expenses. Rows
+ * with `importedTransactionId` are skipped, so a retry after a partial failure
+ * sends only what is left; pass only the allocations not yet created.
  */
 export async function submitImportInOrder(params: {
   drafts: TransactionDraft[]
@@ -70,29 +121,43 @@ export async function submitImportInOrder(params: {
   let incomeResult: ImportBulkPhaseResult | null = null
 
   if (incomeBody.transactions.length > 0) {
-    const response = await bulkCreateAsync(incomeBody)
+    let response: BulkCreateTransactionsResponse2
+    try {
+      response = await bulkCreateAsync(incomeBody)
+    } catch (error) {
+      return {
+        ok: false,
+        phase: 'incomes',
+        createdAllocations: [],
+        error
+      }
+    }
     incomeResult = toPhaseResult(response)
     if (response.failed.length > 0) {
       return {
         ok: false,
         phase: 'incomes',
-        incomeResult
+        incomeResult,
+        createdAllocations: []
       }
     }
   }
 
   if (allocationChoices.length > 0) {
-    try {
-      await Promise.all(
-        allocationChoices.map((choice) =>
-          createAllocationAsync({
-            budgetId: choice.budgetId,
-            amount: choice.amount,
-            userId
-          })
-        )
+    const outcomes = await Promise.allSettled(
+      allocationChoices.map((choice) =>
+        createAllocationAsync({
+          budgetId: choice.budgetId,
+          amount: choice.amount,
+          userId
+        })
       )
-    } catch (allocationError) {
+    )
+    const rejected = outcomes.find(
+      (outcome): outcome is PromiseRejectedResult =>
+        outcome.status === 'rejected'
+    )
+    if (rejected) {
       return {
         ok: false,
         phase: 'allocations',
@@ -101,7 +166,10 @@ export async function submitImportInOrder(params: {
               incomeResult
             }
           : {}),
-        allocationError
+        createdAllocations: allocationChoices.filter(
+          (_, index) => outcomes[index]?.status === 'fulfilled'
+        ),
+        error: rejected.reason
       }
     }
   }
@@ -121,18 +189,32 @@ export async function submitImportInOrder(params: {
     }
   }
 
-  const response = await bulkCreateAsync(transfersAndExpensesBody)
+  const partialIncome = incomeResult
+    ? {
+        incomeResult
+      }
+    : {}
+
+  let response: BulkCreateTransactionsResponse2
+  try {
+    response = await bulkCreateAsync(transfersAndExpensesBody)
+  } catch (error) {
+    return {
+      ok: false,
+      phase: 'transfersAndExpenses',
+      ...partialIncome,
+      createdAllocations: allocationChoices,
+      error
+    }
+  }
   const finalResult = toPhaseResult(response)
 
   if (response.failed.length > 0) {
     return {
       ok: false,
       phase: 'transfersAndExpenses',
-      ...(incomeResult
-        ? {
-            incomeResult
-          }
-        : {}),
+      ...partialIncome,
+      createdAllocations: allocationChoices,
       finalResult
     }
   }
@@ -4,10 +4,23 @@ export type ImportTransactionType = TransactionType | 'uncategorized'
 
 export type StatementParseResult = {
   accountNumber: string | null
+  /** Statement profile (bank layout) the rows were parsed with. */
+  profile?: {
+    id: string
+    name: string
+  }
   transactions: TransactionDraft[]
   invalidRows: InvalidStatementRow[]
 }
 
+/** One statement file in an import session. */
+export type ImportStatementFile = {
+  /** File fingerprint (`statementFileFingerprint`). */
+  id: string
+  fileName: string
+  result: StatementParseResult
+}
+
 export type TransactionDraft = {
   id: string
   sourceRowNumber: number
@@ -17,8 +30,16 @@ export type TransactionDraft = {
   amount: number
   /** Raw signed value from the statement (`Belopp` column). */
   signedAmount: number
+  /** Bank's stable transaction id (OFX `FITID`, CAMT `AcctSvcrRef`). */
+  externalId?: string
+  /** Value date (`YYYY-MM-DD`) when the statement distinguishes it from `date`. */
+  valueDate?: string
+  /** Other party's account number or IBAN, as given by the statement. */
+  counterpartyAccount?: string
   type: ImportTransactionType
   name: string
+  /** Statement file the row came from (`ImportStatementFile.id`). */
+  statementId?: string
   originAccountId: string
   transferFromAccountId?: string
   transferToAccountId?: string
@@ -31,8 +52,96 @@ export type TransactionDraft = {
   newCategoryName?: string | null
   newRecipientName?: string | null
   newIncomeSourceName?: string | null
+  /** Split lines from an assignment rule; replace `budgetId`/`categoryId`. */
+  splits?: TransactionDraftSplit[]
+  /** Household tags saved on the transaction once it is imported. */
+  tagIds?: string[]
   excluded: boolean
   parseWarnings?: string[]
+  /** Already registered transaction this row probably duplicates. */
+  duplicateOf?: DuplicateTransactionMatch
+  /** Assignment as first suggested; compared after import to learn rules. */
+  suggestion?: DraftAssignmentSuggestion
+  /** How the transfer's other account was found; cleared when the user picks one. */
+  transferCounterpart?: TransferCounterpart
+  /** Both statement rows of a transfer between two imported accounts. */
+  transferPair?: {
+    outgoing: TransactionDraft
+    incoming: TransactionDraft
+  }
+  /**
+   * Opposite row in another imported statement with the same amount but no
+   * transfer signal; merged only when the user confirms.
+   */
+  transferPairSuggestion?: TransferPairSuggestion
+  /** Transaction created by an earlier, partially failed attempt; locks the row. */
+  importedTransactionId?: string
+  /** Server error from the last import attempt; cleared when the row is edited. */
+  importError?: ImportRowError
+  /** Budget from the recipient's history; shown until accepted, never submitted. */
+  budgetSuggestion?: BudgetSuggestion
+}
+
+export type BudgetSuggestion = {
+  budgetId: string
+  /** Category most often used with the budget for this recipient. */
+  categoryId?: string
+  /** Recipient's expenses in the window that used `budgetId`. */
+  count: number
+  /** Recipient's expenses in the window with any budget. */
+  total: number
+}
+
+export type DraftAssignmentSuggestion = {
+  type: ImportTransactionType
+  recipientId: string
+  incomeSourceId: string
+  categoryId: string
+  budgetId: string
+  hasSplits: boolean
+}
+
+export type TransferCounterpartConfidence = 'high' | 'medium' | 'low'
+
+export type TransferCounterpart = {
+  /**
+   * `statement`: counterparty account field; `description`: account number in
+   * the text; `pairedRow`: row in another imported statement; `transaction`:
+   * opposite registered transaction on another account.
+   */
+  source: 'statement' | 'description' | 'pairedRow' | 'transaction'
+  confidence: TransferCounterpartConfidence
+  /** Accounts that fit, best first; more than one means ambiguous. */
+  candidateAccountIds?: string[]
+}
+
+export type TransferPairSuggestion = {
+  draftId: string
+  originalDescription: string
+  date: string
+}
+
+export type TransactionDraftSplit = {
+  subtitle: string
+  amount: number
+  categoryId: string
+  /** Required for expense splits, empty for income splits. */
+  budgetId: string
+}
+
+export type DuplicateTransactionMatch = {
+  transactionId: string
+  name: string
+  /** `YYYY-MM-DD` */
+  date: string
+  amount: number
+  type: TransactionType
+}
+
+export type ImportRowError = {
+  message: string
+  /** Field-level hints from the bulk endpoint (e.g. `budgetId` → `["Required"]`). */
+  fieldErrors?: Record<string, string[]>
 }
 
 export type InvalidStatementRow = {
@@ -0,0 +1,187 @@
+import { describe, expect, it, vi } from 'vitest'
+import { TransactionType } from '@/api/generated/types.gen'
+import {
+  indexTransactionRefunds,
+  type TransactionRefund
+} from '@/features/transaction-refunds/refunds'
+import type { ImportHistoryEntry } from './import-history'
+import { undoImportBatch } from './undo-import'
+
+function batch(): ImportHistoryEntry {
+  return {
+    id: 'batch',
+    importedAt: '2026-01-15T10:00:00.000Z',
+    files: [
+      {
+        fileName: 'jan.csv',
+        accountId: 'acc_1'
+      }
+    ],
+    transactions: [
+      {
+        id: 'tx_income',
+        type: TransactionType.INCOME,
+        name: 'Lön',
+        date: '2026-01-10',
+        amount: 1000,
+        accountId: 'acc_1',
+        budgetLines: []
+      },
+      {
+        id: 'tx_expense',
+        type: TransactionType.EXPENSE,
+        name: 'ICA',
+        date: '2026-01-11',
+        amount: 300,
+        accountId: 'acc_1',
+        budgetLines: []
+      }
+    ],
+    allocations: [
+      {
+        budgetId: 'bud_food',
+        amount: 150
+      }
+    ]
+  }
+}
+
+describe('undoImportBatch', () => {
+  it('deletes expenses, reverses allocations, then deletes incomes', async () => {
+    const calls: string[] = []
+    const deleteTransactionAsync = vi.fn(async ({ id }: { id: string }) => {
+      calls.push(`delete:${id}`)
+    })
+    const createAllocationAsync = vi.fn(
+      async ({ budgetId, amount }: { budgetId: string; amount: number }) => {
+        calls.push(`allocate:${budgetId}:${amount}`)
+      }
+    )
+
+    const result = await undoImportBatch({
+      entry: batch(),
+      deleteTransactionAsync,
+      createAllocationAsync
+    })
+
+    expect(calls).toEqual([
+      'delete:tx_expense',
+      'allocate:bud_food:-150',
+      'delete:tx_income'
+    ])
+    expect(result.ok).toBe(true)
+    expect(result.entry.undoneAt).toBeDefined()
+  })
+
+  it('keeps incomes when reversing an allocation fails, and resumes later', async () => {
+    const deleteTransactionAsync = vi.fn().mockResolvedValue(undefined)
+    const createAllocationAsync = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('Nope'))
+      .mockResolvedValue({})
+
+    const failed = await undoImportBatch({
+      entry: batch(),
+      deleteTransactionAsync,
+      createAllocationAsync
+    })
+
+    expect(failed.ok).toBe(false)
+    expect(deleteTransactionAsync).toHaveBeenCalledTimes(1)
+    expect(
+      failed.entry.transactions.map((transaction) => transaction.undone)
+    ).toEqual([
+      undefined,
+      true
+    ])
+
+    const retried = await undoImportBatch({
+      entry: failed.entry,
+      deleteTransactionAsync,
+      createAllocationAsync
+    })
+
+    expect(retried.ok).toBe(true)
+    expect(deleteTransactionAsync).toHaveBeenCalledTimes(2)
+    expect(deleteTransactionAsync).toHaveBeenLastCalledWith({
+      id: 'tx_income'
+    })
+  })
+
+  it('treats transactions that are already gone as undone', async () => {
+    const deleteTransactionAsync = vi.fn().mockRejectedValue({
+      status: 404,
+      title: 'Not Found',
+      detail: 'Transaction not found'
+    })
+
+    const result = await undoImportBatch({
+      entry: {
+        ...batch(),
+        allocations: []
+      },
+      deleteTransactionAsync,
+      createAllocationAsync: vi.fn()
+    })
+
+    expect(result.ok).toBe(true)
+  })
+
+  it('leaves the batch untouched while a transaction is locked', async () => {
+    const deleteTransactionAsync = vi.fn()
+    const createAllocationAsync = vi.fn()
+
+    const result = await undoImportBatch({
+      entry: batch(),
+      lockedTransactionIds: new Set([
+        'tx_expense'
+      ]),
+      deleteTransactionAsync,
+      createAllocationAsync
+    })
+
+    expect(result.ok).toBe(false)
+    expect(result.entry).toEqual(batch())
+    expect(
+      result.lockedTransactions?.map((transaction) => transaction.id)
+    ).toEqual([
+      'tx_expense'
+    ])
+    expect(deleteTransactionAsync).not.toHaveBeenCalled()
+    expect(createAllocationAsync).not.toHaveBeenCalled()
+  })
+
+  it('leaves the batch untouched while an expense has refunds linked', async () => {
+    const deleteTransactionAsync = vi.fn()
+    const createAllocationAsync = vi.fn()
+    const refund: TransactionRefund = {
+      refundId: 'tx_refund',
+      originalId: 'tx_expense',
+      originalName: 'ICA',
+      amount: 100,
+      date: '2026-01-20',
+      lines: [],
+      allocations: [],
+      createdAt: '2026-01-20T10:00:00.000Z'
+    }
+
+    const result = await undoImportBatch({
+      entry: batch(),
+      refunds: indexTransactionRefunds([
+        refund
+      ]),
+      deleteTransactionAsync,
+      createAllocationAsync
+    })
+
+    expect(result.ok).toBe(false)
+    expect(result.entry).toEqual(batch())
+    expect(
+      result.refundedTransactions?.map((transaction) => transaction.id)
+    ).toEqual([
+      'tx_expense'
+    ])
+    expect(deleteTransactionAsync).not.toHaveBeenCalled()
+    expect(createAllocationAsync).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,231 @@
+import { TransactionType } from '@/api/generated/types.gen'
+import type { TransactionRefundIndex } from '@/features/transaction-refunds/refunds'
+import { getProblemDetails } from '@/lib/api-error'
+import type {
+  ImportHistoryAllocation,
+  ImportHistoryEntry,
+  ImportHistoryTransaction
+} from './import-history'
+
+export type UndoImportResult = {
+  ok: boolean
+  /** The entry with what was undone marked; `undoneAt` is set when complete. */
+  entry: ImportHistoryEntry
+  error?: unknown
+  /** Reconciled transactions that kept the undo from starting. */
+  lockedTransactions?: ImportHistoryTransaction[]
+  /** Transactions linked to refunds that kept the undo from starting. */
+  refundedTransactions?: ImportHistoryTransaction[]
+}
+
+type DeleteTransactionAsync = (variables: { id: string }) => Promise<unknown>
+
+type CreateAllocationAsync = (variables: {
+  budgetId: string
+  amount: number
+  userId?: string | null
+}) => Promise<unknown>
+
+/** A transaction someone already deleted counts as undone. */
+function isAlreadyDeleted(error: unknown): boolean {
+  return getProblemDetails(error)?.status === 404
+}
+
+async function deleteTransactions(
+  transactions: ImportHistoryTransaction[],
+  deleteTransactionAsync: DeleteTransactionAsync
+): Promise<{
+  deletedIds: Set<string>
+  error?: unknown
+}> {
+  const outcomes = await Promise.allSettled(
+    transactions.map((transaction) =>
+      deleteTransactionAsync({
+        id: transaction.id
+      })
+    )
+  )
+  const deletedIds = new Set<string>()
+  let error: unknown
+  outcomes.forEach((outcome, index) => {
+    const transaction = transactions[index]
+    if (!transaction) return
+    if (outcome.status === 'fulfilled' || isAlreadyDeleted(outcome.reason)) {
+      deletedIds.add(transaction.id)
+    } else {
+      error ??= outcome.reason
+    }
+  })
+  return {
+    deletedIds,
+    error
+  }
+}
+
+/**
+ * Transactions of the batch still to undo that a reconciliation locked. They
+ * match the bank statement, so the batch cannot be undone until they are
+ * unlocked.
+ */
+export function lockedImportTransactions(
+  entry: ImportHistoryEntry,
+  lockedTransactionIds: ReadonlySet<string>
+): ImportHistoryTransaction[] {
+  return entry.transactions.filter(
+    (transaction) =>
+      !transaction.undone && lockedTransactionIds.has(transaction.id)
+  )
+}
+
+/**
+ * Transactions of the batch still to undo that are linked as a refunded
+ * expense or as the refund credit. Deleting them here would leave the link
+ * and the refund's budget allocations behind, so the batch cannot be undone
+ * until the refunds are removed from the transactions page.
+ */
+export function refundedImportTransactions(
+  entry: ImportHistoryEntry,
+  refunds: TransactionRefundIndex
+): ImportHistoryTransaction[] {
+  return entry.transactions.filter(
+    (transaction) =>
+      !transaction.undone &&
+      (!!refunds.byOriginal.get(transaction.id)?.length ||
+        refunds.byRefund.has(transaction.id))
+  )
+}
+
+/**
+ * Undoes an import in reverse import order: transfers and expenses are
+ * deleted, allocations are reversed with a negative allocation, then incomes
+ * are deleted. Stops after the first step with a failure so the pool never
+ * loses incomes before the allocations funded by them are returned. Parts
+ * already undone (by an earlier, failed attempt) are skipped. Nothing is
+ * touched while any remaining transaction is locked or has refunds linked.
+ */
+export async function undoImportBatch(params: {
+  entry: ImportHistoryEntry
+  userId?: string | null
+  lockedTransactionIds?: ReadonlySet<string>
+  refunds?: TransactionRefundIndex
+  deleteTransactionAsync: DeleteTransactionAsync
+  createAllocationAsync: CreateAllocationAsync
+}): Promise<UndoImportResult> {
+  const { userId, deleteTransactionAsync, createAllocationAsync } = params
+  let entry = params.entry
+
+  const lockedTransactions = lockedImportTransactions(
+    entry,
+    params.lockedTransactionIds ?? new Set()
+  )
+  if (lockedTransactions.length > 0)
+    return {
+      ok: false,
+      entry,
+      lockedTransactions
+    }
+
+  const refundedTransactions = params.refunds
+    ? refundedImportTransactions(entry, params.refunds)
+    : []
+  if (refundedTransactions.length > 0)
+    return {
+      ok: false,
+      entry,
+      refundedTransactions
+    }
+
+  const markTransactions = (deletedIds: Set<string>) => {
+    entry = {
+      ...entry,
+      transactions: entry.transactions.map((transaction) =>
+        deletedIds.has(transaction.id)
+          ? {
+              ...transaction,
+              undone: true
+            }
+          : transaction
+      )
+    }
+  }
+
+  const pending = (types: TransactionType[]) =>
+    entry.transactions.filter(
+      (transaction) => !transaction.undone && types.includes(transaction.type)
+    )
+
+  const first = await deleteTransactions(
+    pending([
+      TransactionType.TRANSFER,
+      TransactionType.EXPENSE
+    ]),
+    deleteTransactionAsync
+  )
+  markTransactions(first.deletedIds)
+  if (first.error)
+    return {
+      ok: false,
+      entry,
+      error: first.error
+    }
+
+  const allocations = entry.allocations.filter(
+    (allocation) => !allocation.undone
+  )
+  const allocationOutcomes = await Promise.allSettled(
+    allocations.map((allocation) =>
+      createAllocationAsync({
+        budgetId: allocation.budgetId,
+        amount: -allocation.amount,
+        userId
+      })
+    )
+  )
+  const reversed = new Set<ImportHistoryAllocation>(
+    allocations.filter(
+      (_, index) => allocationOutcomes[index]?.status === 'fulfilled'
+    )
+  )
+  entry = {
+    ...entry,
+    allocations: entry.allocations.map((allocation) =>
+      reversed.has(allocation)
+        ? {
+            ...allocation,
+            undone: true
+          }
+        : allocation
+    )
+  }
+  const rejected = allocationOutcomes.find(
+    (outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected'
+  )
+  if (rejected)
+    return {
+      ok: false,
+      entry,
+      error: rejected.reason
+    }
+
+  const incomes = await deleteTransactions(
+    pending([
+      TransactionType.INCOME
+    ]),
+    deleteTransactionAsync
+  )
+  markTransactions(incomes.deletedIds)
+  if (incomes.error)
+    return {
+      ok: false,
+      entry,
+      error: incomes.error
+    }
+
+  return {
+    ok: true,
+    entry: {
+      ...entry,
+      undoneAt: new Date().toISOString()
+    }
+  }
+}
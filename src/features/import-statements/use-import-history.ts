@@ -0,0 +1,71 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { getErrorMessage } from '@/lib/api-error'
+import type { ImportHistoryEntry } from './import-history'
+import {
+  listHouseholdImportHistory,
+  saveImportHistoryEntry
+} from './import-history-api'
+
+const IMPORT_HISTORY_QUERY_KEY = 'import-history'
+
+export const importHistoryQueryKeys = {
+  all: [
+    IMPORT_HISTORY_QUERY_KEY
+  ] as const,
+  household: (householdId: string) =>
+    [
+      IMPORT_HISTORY_QUERY_KEY,
+      'household',
+      householdId
+    ] as const
+}
+
+const EMPTY_HISTORY: ImportHistoryEntry[] = []
+
+export type UseImportHistoryResult = {
+  /** Most recent first. */
+  entries: ImportHistoryEntry[]
+  isLoading: boolean
+  /**
+   * Replaces the entry with the same id, or adds it as the most recent. Saved
+   * in the background; a failed request shows a toast.
+   */
+  saveEntry: (entry: ImportHistoryEntry) => void
+}
+
+/**
+ * Household import batches, written by the import page and undone from the
+ * history page.
+ */
+export function useImportHistory(householdId: string): UseImportHistoryResult {
+  const { t } = useTranslation()
+  const queryClient = useQueryClient()
+  const { data: entries = EMPTY_HISTORY, isLoading } = useQuery({
+    queryKey: importHistoryQueryKeys.household(householdId),
+    queryFn: () => listHouseholdImportHistory(householdId),
+    enabled: !!householdId
+  })
+
+  const { mutate: saveEntry } = useMutation({
+    mutationFn: (entry: ImportHistoryEntry) =>
+      saveImportHistoryEntry(householdId, entry),
+    onSuccess: () =>
+      queryClient.invalidateQueries({
+        queryKey: importHistoryQueryKeys.all
+      }),
+    onError: (error) =>
+      toast.error(
+        t('importHistory.saveFailed', {
+          message: getErrorMessage(error)
+        })
+      )
+  })
+
+  return {
+    entries,
+    isLoading,
+    saveEntry
+  }
+}
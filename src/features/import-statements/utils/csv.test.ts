@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { decodeStatementText, detectCsvDelimiter, parseCsvRows } from './csv'
+
+describe('decodeStatementText', () => {
+  it('decodes UTF-8 and strips the byte order mark', () => {
+    const bytes = new TextEncoder().encode('\uFEFFBokföringsdatum;Belopp')
+    expect(decodeStatementText(bytes.buffer)).toBe('Bokföringsdatum;Belopp')
+  })
+
+  it('falls back to Windows-1252 for non UTF-8 bytes', () => {
+    // "Överföring" encoded as Windows-1252.
+    const bytes = new Uint8Array([
+      0xd6,
+      0x76,
+      0x65,
+      0x72,
+      0x66,
+      0xf6,
+      0x72,
+      0x69,
+      0x6e,
+      0x67
+    ])
+    expect(decodeStatementText(bytes.buffer)).toBe('Överföring')
+  })
+})
+
+describe('detectCsvDelimiter', () => {
+  it.each([
+    [
+      'Datum;Text;Belopp\n2026-06-20;"ICA, Maxi";-1,50',
+      ';'
+    ],
+    [
+      'Datum,Text,Belopp\n2026-06-20,ICA,"-1,50"',
+      ','
+    ],
+    [
+      'Datum\tText\tBelopp\n2026-06-20\tICA\t-1,50',
+      '\t'
+    ]
+  ])('detects delimiter in %j', (text, expected) => {
+    expect(detectCsvDelimiter(text)).toBe(expected)
+  })
+})
+
+describe('parseCsvRows', () => {
+  it('handles quoted delimiters, escaped quotes, and line breaks', () => {
+    expect(
+      parseCsvRows('a;"b;c";"say ""hi"""\r\n\r\n"multi\nline";2\r\n', ';')
+    ).toEqual([
+      [
+        'a',
+        'b;c',
+        'say "hi"'
+      ],
+      [
+        'multi\nline',
+        '2'
+      ]
+    ])
+  })
+
+  it('keeps quotes inside an unquoted field as text', () => {
+    expect(
+      parseCsvRows(
+        '2026-06-20;ICA "MAXI" 123;-1,50\n2026-06-21;Willys;-2\n',
+        ';'
+      )
+    ).toEqual([
+      [
+        '2026-06-20',
+        'ICA "MAXI" 123',
+        '-1,50'
+      ],
+      [
+        '2026-06-21',
+        'Willys',
+        '-2'
+      ]
+    ])
+  })
+})
@@ -0,0 +1,148 @@
+const UTF8_BOM = '\uFEFF'
+const DELIMITER_CANDIDATES = [
+  ';',
+  ',',
+  '\t',
+  '|'
+] as const
+const DELIMITER_SAMPLE_LINES = 20
+
+export type CsvDelimiter = (typeof DELIMITER_CANDIDATES)[number]
+
+/**
+ * Decodes CSV bytes as UTF-8 when valid, otherwise as Windows-1252 (the
+ * default export encoding of several Swedish banks).
+ */
+export function decodeStatementText(buffer: ArrayBuffer): string {
+  let text: string
+  try {
+    text = new TextDecoder('utf-8', {
+      fatal: true
+    }).decode(buffer)
+  } catch {
+    text = new TextDecoder('windows-1252').decode(buffer)
+  }
+  return text.startsWith(UTF8_BOM) ? text.slice(UTF8_BOM.length) : text
+}
+
+function countDelimiters(line: string, delimiter: string): number {
+  let count = 0
+  let inQuotes = false
+  let fieldStart = true
+  // A doubled quote inside a quoted field closes and at once reopens it.
+  let justClosed = false
+  for (const char of line) {
+    if (inQuotes) {
+      if (char === '"') {
+        inQuotes = false
+        justClosed = true
+      }
+      continue
+    }
+    if (char === '"' && (fieldStart || justClosed)) {
+      inQuotes = true
+    } else if (char === delimiter) {
+      count++
+      fieldStart = true
+      justClosed = false
+      continue
+    }
+    fieldStart = false
+    justClosed = false
+  }
+  return count
+}
+
+/**
+ * Picks the delimiter that splits the leading lines most consistently.
+ * Falls back to `;`, the common Swedish bank export delimiter.
+ */
+export function detectCsvDelimiter(text: string): CsvDelimiter {
+  const lines = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '')
+    .slice(0, DELIMITER_SAMPLE_LINES)
+
+  let best: {
+    delimiter: CsvDelimiter
+    score: number
+  } | null = null
+
+  for (const delimiter of DELIMITER_CANDIDATES) {
+    const counts = lines.map((line) => countDelimiters(line, delimiter))
+    const frequency = new Map<number, number>()
+    for (const count of counts) {
+      if (count === 0) continue
+      frequency.set(count, (frequency.get(count) ?? 0) + 1)
+    }
+
+    // Lines sharing the same field count weigh more than a single wide line.
+    let score = 0
+    for (const [count, lineCount] of frequency) {
+      score = Math.max(score, lineCount * 100 + count)
+    }
+    if (score > 0 && (!best || score > best.score)) {
+      best = {
+        delimiter,
+        score
+      }
+    }
+  }
+
+  return best?.delimiter ?? ';'
+}
+
+/**
+ * Splits CSV text into rows of cells. Supports quoted fields with embedded
+ * delimiters, doubled quotes, and line breaks. Only a quote opening a field
+ * starts a quoted section; one inside an unquoted field is kept as text.
+ * Blank lines are skipped.
+ */
+export function parseCsvRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+  let fieldStart = true
+
+  const pushRow = () => {
+    row.push(cell)
+    if (row.some((value) => value.trim() !== '')) rows.push(row)
+    row = []
+    cell = ''
+    fieldStart = true
+  }
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]
+
+    if (inQuotes) {
+      if (char !== '"') {
+        cell += char
+      } else if (text[index + 1] === '"') {
+        cell += '"'
+        index++
+      } else {
+        inQuotes = false
+      }
+      continue
+    }
+
+    if (char === '"' && fieldStart) {
+      inQuotes = true
+      fieldStart = false
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+      fieldStart = true
+    } else if (char === '\n') {
+      pushRow()
+    } else if (char !== '\r') {
+      cell += char
+      fieldStart = false
+    }
+  }
+
+  pushRow()
+  return rows
+}
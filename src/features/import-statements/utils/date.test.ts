@@ -31,3 +31,27 @@ describe('parseStatementDate', () => {
     expect(parseStatementDate(input)).toBe(expected)
   })
 })
+
+describe('parseStatementDate with formats', () => {
+  it('uses the first matching profile format', () => {
+    expect(
+      parseStatementDate('2026/06/20', [
+        'YYYY-MM-DD',
+        'YYYY/MM/DD'
+      ])
+    ).toBe('2026-06-20')
+    expect(
+      parseStatementDate('20260620', [
+        'YYYYMMDD'
+      ])
+    ).toBe('2026-06-20')
+  })
+
+  it('rejects text that matches none of the formats', () => {
+    expect(() =>
+      parseStatementDate('20/06/2026', [
+        'YYYY-MM-DD'
+      ])
+    ).toThrow('statementImport.errors.invalidDateWithValue')
+  })
+})
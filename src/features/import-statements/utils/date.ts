@@ -1,6 +1,78 @@
 const EXCEL_EPOCH_OFFSET = 25_569
 const MS_PER_DAY = 86_400_000
 
+export const STATEMENT_DATE_FORMATS = [
+  'YYYY-MM-DD',
+  'YYYY/MM/DD',
+  'YYYYMMDD',
+  'DD/MM/YYYY',
+  'DD.MM.YYYY',
+  'DD-MM-YYYY'
+] as const
+
+export type StatementDateFormat = (typeof STATEMENT_DATE_FORMATS)[number]
+
+const DATE_FORMAT_PATTERNS: Record<
+  StatementDateFormat,
+  {
+    pattern: RegExp
+    order: [
+      year: number,
+      month: number,
+      day: number
+    ]
+  }
+> = {
+  'YYYY-MM-DD': {
+    pattern: /^(\d{4})-(\d{1,2})-(\d{1,2})$/,
+    order: [
+      1,
+      2,
+      3
+    ]
+  },
+  'YYYY/MM/DD': {
+    pattern: /^(\d{4})\/(\d{1,2})\/(\d{1,2})$/,
+    order: [
+      1,
+      2,
+      3
+    ]
+  },
+  YYYYMMDD: {
+    pattern: /^(\d{4})(\d{2})(\d{2})$/,
+    order: [
+      1,
+      2,
+      3
+    ]
+  },
+  'DD/MM/YYYY': {
+    pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/,
+    order: [
+      3,
+      2,
+      1
+    ]
+  },
+  'DD.MM.YYYY': {
+    pattern: /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/,
+    order: [
+      3,
+      2,
+      1
+    ]
+  },
+  'DD-MM-YYYY': {
+    pattern: /^(\d{1,2})-(\d{1,2})-(\d{4})$/,
+    order: [
+      3,
+      2,
+      1
+    ]
+  }
+}
+
 function formatDate(date: Date): string {
   if (Number.isNaN(date.getTime())) {
     throw new Error('statementImport.errors.invalidDate')
@@ -12,7 +84,15 @@ function fromParts(year: number, month: number, day: number): string {
   return formatDate(new Date(Date.UTC(year, month - 1, day)))
 }
 
-export function parseStatementDate(value: string | number | Date): string {
+/**
+ * Parses a statement date cell to `YYYY-MM-DD`. Text values are matched
+ * against `formats` in order when given (bank profiles), otherwise ISO and
+ * day-first Swedish layouts are auto-detected.
+ */
+export function parseStatementDate(
+  value: string | number | Date,
+  formats: readonly StatementDateFormat[] = []
+): string {
   if (value instanceof Date) return formatDate(value)
 
   if (typeof value === 'number') {
@@ -22,6 +102,20 @@ export function parseStatementDate(value: string | number | Date): string {
   const text = value.trim()
   if (!text) throw new Error('statementImport.errors.missingDate')
 
+  if (formats.length > 0) {
+    for (const format of formats) {
+      const { pattern, order } = DATE_FORMAT_PATTERNS[format]
+      const match = text.match(pattern)
+      if (!match) continue
+      return fromParts(
+        Number(match[order[0]]),
+        Number(match[order[1]]),
+        Number(match[order[2]])
+      )
+    }
+    throw new Error('statementImport.errors.invalidDateWithValue')
+  }
+
   const iso = text.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/)
   if (iso) return fromParts(Number(iso[1]), Number(iso[2]), Number(iso[3]))
 
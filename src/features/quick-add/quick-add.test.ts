@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest'
+import { TransactionType } from '@/api/generated/types.gen'
+import {
+  buildQuickAddHistory,
+  parseQuickAdd,
+  type QuickAddHistoryTransaction,
+  type QuickAddLookups
+} from './quick-add'
+
+// A Thursday.
+const TODAY = new Date(2026, 9, 22, 14, 30)
+const SINCE = new Date(2026, 3, 22)
+
+const LOOKUPS: QuickAddLookups = {
+  accounts: [
+    {
+      id: 'checking',
+      name: 'Lönekonto'
+    },
+    {
+      id: 'card',
+      name: 'Kreditkort'
+    }
+  ],
+  budgets: [
+    {
+      id: 'food',
+      name: 'Mat'
+    },
+    {
+      id: 'fun',
+      name: 'Nöje'
+    }
+  ],
+  recipients: [
+    {
+      id: 'ica',
+      name: 'ICA Maxi'
+    },
+    {
+      id: 'sl',
+      name: 'SL'
+    }
+  ],
+  incomeSources: [
+    {
+      id: 'salary',
+      name: 'Lön'
+    }
+  ]
+}
+
+function transaction(
+  id: string,
+  overrides: Partial<QuickAddHistoryTransaction> = {}
+): QuickAddHistoryTransaction {
+  return {
+    id,
+    type: TransactionType.EXPENSE,
+    date: new Date(2026, 8, 10),
+    account: {
+      id: 'checking',
+      name: 'Lönekonto'
+    },
+    recipient: {
+      id: 'ica',
+      name: 'ICA Maxi'
+    },
+    budget: {
+      id: 'food',
+      name: 'Mat'
+    },
+    category: {
+      id: 'groceries',
+      name: 'Livsmedel'
+    },
+    ...overrides
+  }
+}
+
+const HISTORY = buildQuickAddHistory(
+  [
+    transaction('1'),
+    transaction('2', {
+      date: new Date(2026, 9, 1),
+      account: {
+        id: 'card',
+        name: 'Kreditkort'
+      }
+    }),
+    transaction('3', {
+      type: TransactionType.INCOME,
+      date: new Date(2026, 8, 25),
+      recipient: null,
+      budget: null,
+      incomeSource: {
+        id: 'salary',
+        name: 'Lön'
+      },
+      category: {
+        id: 'wages',
+        name: 'Lön'
+      }
+    }),
+    transaction('4', {
+      recipient: {
+        id: 'sl',
+        name: 'SL'
+      }
+    })
+  ],
+  SINCE
+)
+
+function parse(input: string) {
+  return parseQuickAdd({
+    input,
+    lookups: LOOKUPS,
+    history: HISTORY,
+    today: TODAY
+  })
+}
+
+describe('parseQuickAdd', () => {
+  it('reads amount, recipient, budget, date and account from an expense', () => {
+    expect(parse('347 ICA mat igår kort')).toEqual({
+      type: TransactionType.EXPENSE,
+      amount: 347,
+      date: new Date(2026, 9, 21),
+      name: 'ICA Maxi',
+      accountId: 'card',
+      partyId: 'ica',
+      newPartyName: '',
+      budgetId: 'food',
+      categoryId: 'groceries'
+    })
+  })
+
+  it('treats a leading plus as income and reads day/month dates', () => {
+    expect(parse('+25000 lön 25/10')).toMatchObject({
+      type: TransactionType.INCOME,
+      amount: 25000,
+      date: new Date(2026, 9, 25),
+      name: 'Lön',
+      partyId: 'salary',
+      budgetId: '',
+      categoryId: 'wages',
+      accountId: 'checking'
+    })
+  })
+
+  it('fills budget, category and account from the recipient history', () => {
+    expect(parse('89,50 ica')).toMatchObject({
+      amount: 89.5,
+      budgetId: 'food',
+      categoryId: 'groceries',
+      accountId: 'card',
+      date: new Date(2026, 9, 22)
+    })
+  })
+
+  it('keeps unknown recipients as a new name and falls back to the usual account', () => {
+    expect(parse('120 Pizzeria Roma nöje i måndags')).toMatchObject({
+      name: 'Pizzeria Roma',
+      partyId: '',
+      newPartyName: 'Pizzeria Roma',
+      budgetId: 'fun',
+      categoryId: '',
+      accountId: 'checking',
+      date: new Date(2026, 9, 19)
+    })
+  })
+
+  it('reads "i <weekday>s" on that weekday as a week ago', () => {
+    expect(parse('120 ica i torsdags').date).toEqual(new Date(2026, 9, 15))
+    expect(parse('120 ica torsdag').date).toEqual(new Date(2026, 9, 22))
+  })
+
+  it('leaves the amount empty when the entry has none', () => {
+    expect(parse('ICA').amount).toBeNull()
+  })
+})
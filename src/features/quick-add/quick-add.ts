@@ -0,0 +1,405 @@
+import { isValid, parse, startOfDay, subDays } from 'date-fns'
+import { type Transaction, TransactionType } from '@/api/generated/types.gen'
+import { findFuzzyRecipientId } from '@/features/import-statements/classification/assignment-rules'
+import {
+  type RecipientHistoryTransaction,
+  recipientBudgetSuggestions
+} from '@/features/import-statements/classification/budget-suggestions'
+import type {
+  BudgetSuggestion,
+  ImportLookupItem
+} from '@/features/import-statements/types'
+
+export type QuickAddType =
+  | typeof TransactionType.EXPENSE
+  | typeof TransactionType.INCOME
+
+export type QuickAddLookups = {
+  /** Active accounts only; archived ones are never picked. */
+  accounts: ImportLookupItem[]
+  budgets: ImportLookupItem[]
+  recipients: ImportLookupItem[]
+  incomeSources: ImportLookupItem[]
+}
+
+export type QuickAddHistoryTransaction = RecipientHistoryTransaction &
+  Pick<Transaction, 'account' | 'incomeSource'>
+
+/** What earlier transactions say about a recipient or sender. */
+export type QuickAddHistory = {
+  budgetSuggestions: Map<string, BudgetSuggestion>
+  /** Recipient or income source id → account of its latest transaction. */
+  accountByParty: Map<string, string>
+  /** Income source id → category of its latest income. */
+  incomeCategoryBySource: Map<string, string>
+  /** Account used by most expenses and incomes. */
+  defaultAccountId?: string
+}
+
+export type QuickAddParseResult = {
+  type: QuickAddType
+  amount: number | null
+  date: Date
+  name: string
+  accountId: string
+  /** Matched recipient (expense) or income source (income). */
+  partyId: string
+  /** Typed recipient or sender that matched nothing; created on save. */
+  newPartyName: string
+  budgetId: string
+  categoryId: string
+}
+
+const AMOUNT_PATTERN = /^([+-])?(\d+)(?:[.,](\d{1,2}))?(?:kr|:-)?$/i
+const DAY_MONTH_PATTERN = /^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const RELATIVE_DAYS: Record<string, number> = {
+  idag: 0,
+  igar: 1,
+  forrgar: 2
+}
+
+/** Swedish weekday names in `Date.getDay()` order. */
+const WEEKDAYS = [
+  'sondag',
+  'mandag',
+  'tisdag',
+  'onsdag',
+  'torsdag',
+  'fredag',
+  'lordag'
+]
+
+function normalizeWord(word: string): string {
+  return word.toLocaleLowerCase('sv').normalize('NFD').replace(/[̀-ͯ]/g, '')
+}
+
+function parseAmountToken(token: string): {
+  amount: number
+  sign: '+' | '-' | undefined
+} | null {
+  const match = AMOUNT_PATTERN.exec(token)
+  if (!match) return null
+  const [, sign, whole, fraction] = match
+  return {
+    amount: Number(`${whole}.${fraction ?? '0'}`),
+    sign: sign as '+' | '-' | undefined
+  }
+}
+
+/**
+ * Most recent date falling on the weekday. "måndag" may be today; the past
+ * form "måndags" always means an earlier day, so it goes back 1–7 days.
+ */
+function lastWeekday(today: Date, weekday: number, past: boolean): Date {
+  const days = (today.getDay() - weekday + 7) % 7
+  return subDays(today, past && days === 0 ? 7 : days)
+}
+
+function parseDateToken(token: string, today: Date): Date | null {
+  const word = normalizeWord(token)
+  if (word in RELATIVE_DAYS) return subDays(today, RELATIVE_DAYS[word] ?? 0)
+
+  const weekday = WEEKDAYS.findIndex(
+    (name) => word === name || word === `${name}s`
+  )
+  if (weekday >= 0) return lastWeekday(today, weekday, word.endsWith('s'))
+
+  if (ISO_DATE_PATTERN.test(token)) {
+    const date = parse(token, 'yyyy-MM-dd', today)
+    return isValid(date) ? date : null
+  }
+
+  const dayMonth = DAY_MONTH_PATTERN.exec(token)
+  if (dayMonth) {
+    const [, day, month, year] = dayMonth
+    const fullYear = year
+      ? year.length === 2
+        ? 2000 + Number(year)
+        : Number(year)
+      : today.getFullYear()
+    const date = new Date(fullYear, Number(month) - 1, Number(day))
+    return date.getDate() === Number(day) &&
+      date.getMonth() === Number(month) - 1
+      ? date
+      : null
+  }
+  return null
+}
+
+function editDistanceAtMostOne(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false
+  let i = 0
+  let j = 0
+  let edits = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i += 1
+      j += 1
+      continue
+    }
+    edits += 1
+    if (edits > 1) return false
+    if (a.length > b.length) i += 1
+    else if (b.length > a.length) j += 1
+    else {
+      i += 1
+      j += 1
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1
+}
+
+/**
+ * How well one typed word names an item, lower is better: whole name, a word
+ * of the name, a prefix, a substring, then a one-letter typo.
+ */
+function wordMatchScore(word: string, name: string): number | null {
+  const normalizedName = normalizeWord(name)
+  if (normalizedName === word) return 0
+  const nameWords = normalizedName.split(/[\s\-/&.,]+/).filter(Boolean)
+  if (nameWords.includes(word)) return 0.1
+  if (word.length < 3) return null
+  if (nameWords.some((nameWord) => nameWord.startsWith(word))) return 0.2
+  if (normalizedName.includes(word)) return 0.3
+  if (
+    word.length >= 4 &&
+    nameWords.some((nameWord) => editDistanceAtMostOne(word, nameWord))
+  )
+    return 0.35
+  return null
+}
+
+function bestItemMatch(
+  word: string,
+  items: ImportLookupItem[]
+): {
+  id: string
+  score: number
+} | null {
+  let best: {
+    id: string
+    score: number
+  } | null = null
+  for (const item of items) {
+    if (item.archived) continue
+    const score = wordMatchScore(word, item.name)
+    if (score !== null && (!best || score < best.score)) {
+      best = {
+        id: item.id,
+        score
+      }
+    }
+  }
+  return best
+}
+
+function mostRecentBy<T extends QuickAddHistoryTransaction>(
+  transactions: T[],
+  key: (transaction: T) => string | undefined,
+  value: (transaction: T) => string | undefined
+): Map<string, string> {
+  const latest = new Map<
+    string,
+    {
+      time: number
+      value: string
+    }
+  >()
+  for (const transaction of transactions) {
+    const k = key(transaction)
+    const v = value(transaction)
+    const time = new Date(transaction.date).getTime()
+    if (!k || !v || Number.isNaN(time)) continue
+    const current = latest.get(k)
+    if (!current || time > current.time) {
+      latest.set(k, {
+        time,
+        value: v
+      })
+    }
+  }
+  return new Map(
+    [
+      ...latest
+    ].map(([k, entry]) => [
+      k,
+      entry.value
+    ])
+  )
+}
+
+/**
+ * Budget, category and account habits from registered transactions on or
+ * after `since`, used to fill in what a quick-add entry leaves out.
+ */
+export function buildQuickAddHistory(
+  transactions: QuickAddHistoryTransaction[],
+  since: Date
+): QuickAddHistory {
+  const recent = transactions.filter(
+    (transaction) =>
+      transaction.type !== TransactionType.TRANSFER &&
+      new Date(transaction.date).getTime() >= since.getTime()
+  )
+  const accountCounts = new Map<string, number>()
+  for (const transaction of recent) {
+    const accountId = transaction.account?.id
+    if (accountId)
+      accountCounts.set(accountId, (accountCounts.get(accountId) ?? 0) + 1)
+  }
+  const defaultAccountId = [
+    ...accountCounts
+  ].sort((a, b) => b[1] - a[1])[0]?.[0]
+
+  return {
+    budgetSuggestions: recipientBudgetSuggestions(recent, since),
+    accountByParty: mostRecentBy(
+      recent,
+      (transaction) =>
+        transaction.type === TransactionType.INCOME
+          ? transaction.incomeSource?.id
+          : transaction.recipient?.id,
+      (transaction) => transaction.account?.id
+    ),
+    incomeCategoryBySource: mostRecentBy(
+      recent.filter(
+        (transaction) => transaction.type === TransactionType.INCOME
+      ),
+      (transaction) => transaction.incomeSource?.id,
+      (transaction) => transaction.category?.id
+    ),
+    defaultAccountId
+  }
+}
+
+function existing(id: string | undefined, items: ImportLookupItem[]): string {
+  return id && items.some((item) => item.id === id && !item.archived) ? id : ''
+}
+
+/**
+ * Reads a one-line entry such as `347 ICA mat igår kort` or `+25000 lön
+ * 25/10`. The first number is the amount, a leading `+` makes it an income,
+ * day words and dates set the date, and single words naming an account or a
+ * budget pick those. What is left names the recipient or sender; anything
+ * the text does not say comes from the party's history.
+ */
+export function parseQuickAdd(params: {
+  input: string
+  lookups: QuickAddLookups
+  history: QuickAddHistory
+  today: Date
+}): QuickAddParseResult {
+  const { lookups, history } = params
+  const today = startOfDay(params.today)
+  const tokens = params.input.trim().split(/\s+/).filter(Boolean)
+
+  let amount: number | null = null
+  let type: QuickAddType = TransactionType.EXPENSE
+  let date = today
+  const words: string[] = []
+
+  for (let index = 0; index < tokens.length; index += 1) {
+    const token = tokens[index] ?? ''
+    const next = tokens[index + 1]
+    // "i måndags", "i förrgår"
+    if (normalizeWord(token) === 'i' && next && parseDateToken(next, today)) {
+      continue
+    }
+    const parsedDate = parseDateToken(token, today)
+    if (parsedDate) {
+      date = parsedDate
+      continue
+    }
+    const parsedAmount: ReturnType<typeof parseAmountToken> =
+      amount === null ? parseAmountToken(token) : null
+    if (parsedAmount) {
+      amount = parsedAmount.amount
+      if (parsedAmount.sign === '+') type = TransactionType.INCOME
+      continue
+    }
+    words.push(token)
+  }
+
+  const parties =
+    type === TransactionType.INCOME ? lookups.incomeSources : lookups.recipients
+  type WordPick = {
+    index: number
+    id: string
+    score: number
+  }
+  let account: WordPick | null = null
+  let budget: WordPick | null = null
+
+  for (const [index, word] of words.entries()) {
+    const normalized = normalizeWord(word)
+    const accountMatch = bestItemMatch(normalized, lookups.accounts)
+    const budgetMatch =
+      type === TransactionType.EXPENSE
+        ? bestItemMatch(normalized, lookups.budgets)
+        : null
+    const partyScore = bestItemMatch(normalized, parties)?.score ?? Infinity
+    if (
+      accountMatch &&
+      accountMatch.score < partyScore &&
+      accountMatch.score <= (budgetMatch?.score ?? Infinity) &&
+      (!account || accountMatch.score < account.score)
+    ) {
+      account = {
+        index,
+        ...accountMatch
+      }
+    } else if (
+      budgetMatch &&
+      budgetMatch.score < partyScore &&
+      (!budget || budgetMatch.score < budget.score)
+    ) {
+      budget = {
+        index,
+        ...budgetMatch
+      }
+    }
+  }
+
+  const text = words
+    .filter((_, index) => index !== account?.index && index !== budget?.index)
+    .join(' ')
+  const partyId = text ? findFuzzyRecipientId(text, parties) : ''
+  const party = parties.find((item) => item.id === partyId)
+
+  const suggestion = partyId
+    ? history.budgetSuggestions.get(partyId)
+    : undefined
+  let budgetId = budget?.id ?? ''
+  let categoryId = ''
+  if (type === TransactionType.EXPENSE && suggestion) {
+    if (!budgetId) budgetId = existing(suggestion.budgetId, lookups.budgets)
+    if (budgetId === suggestion.budgetId)
+      categoryId = suggestion.categoryId ?? ''
+  }
+  if (type === TransactionType.INCOME && partyId) {
+    categoryId = history.incomeCategoryBySource.get(partyId) ?? ''
+  }
+
+  const accountId =
+    account?.id ||
+    existing(
+      partyId ? history.accountByParty.get(partyId) : undefined,
+      lookups.accounts
+    ) ||
+    existing(history.defaultAccountId, lookups.accounts) ||
+    (lookups.accounts.length === 1 ? (lookups.accounts[0]?.id ?? '') : '')
+
+  return {
+    type,
+    amount,
+    date,
+    name: party?.name ?? text,
+    accountId,
+    partyId,
+    newPartyName: partyId ? '' : text,
+    budgetId,
+    categoryId
+  }
+}
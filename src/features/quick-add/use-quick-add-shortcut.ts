@@ -0,0 +1,41 @@
+import { useEffect } from 'react'
+
+/** Key that opens quick add from anywhere in the app. */
+export const QUICK_ADD_SHORTCUT_KEY = 'n'
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return (
+    target.isContentEditable ||
+    target.closest('input, textarea, select, [role="combobox"]') !== null
+  )
+}
+
+/**
+ * Calls `onOpen` when the quick-add key is pressed on its own, unless the
+ * user is typing in a field or a dialog or drawer is already open.
+ */
+export function useQuickAddShortcut(onOpen: () => void): void {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (
+        event.key.toLowerCase() !== QUICK_ADD_SHORTCUT_KEY ||
+        event.repeat ||
+        event.altKey ||
+        event.ctrlKey ||
+        event.metaKey ||
+        event.shiftKey ||
+        event.defaultPrevented ||
+        isTypingTarget(event.target) ||
+        document.querySelector('[role="dialog"], [role="alertdialog"]')
+      )
+        return
+      event.preventDefault()
+      onOpen()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [
+    onOpen
+  ])
+}
@@ -0,0 +1,35 @@
+import { format } from 'date-fns'
+import { sv } from 'date-fns/locale'
+import { CalendarClock } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+
+/**
+ * Marks an instance that is off its bill's or income's date rule, with the
+ * date it should be on; nothing when it follows the rule.
+ */
+export function RecurrenceRuleDriftIndicator({
+  ruleDate
+}: {
+  ruleDate: Date | null
+}) {
+  const { t } = useTranslation()
+  if (!ruleDate) return null
+
+  const label = t('recurrenceRules.drift.title', {
+    date: format(ruleDate, 'P', {
+      locale: sv
+    })
+  })
+  return (
+    <span
+      className="inline-flex shrink-0 items-center text-orange-600"
+      title={label}
+    >
+      <CalendarClock
+        className="size-4"
+        aria-hidden
+      />
+      <span className="sr-only">{label}</span>
+    </span>
+  )
+}
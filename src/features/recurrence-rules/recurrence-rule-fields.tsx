@@ -0,0 +1,282 @@
+import { format, isValid } from 'date-fns'
+import { sv } from 'date-fns/locale'
+import { useId, useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import type { RecurrenceType } from '@/api/generated/types.gen'
+import { FormField } from '@/components/form-field/form-field'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import {
+  defaultRecurrenceRule,
+  previewRecurrenceDates,
+  type RecurrenceDate,
+  type RecurrenceRule,
+  type RecurrenceRuleKind,
+  RULE_WEEKDAYS,
+  supportsRecurrenceRule,
+  WEEKDAY_ORDINALS,
+  type WeekdayOrdinal
+} from './recurrence-rules'
+import { type BankDayShift, swedishHolidayOn } from './swedish-holidays'
+
+/** Select value for "no rule": instances keep the start date's day of month. */
+const SAME_DATE = 'SAME_DATE'
+
+const RULE_KINDS: RecurrenceRuleKind[] = [
+  'DAY_OF_MONTH',
+  'NTH_WEEKDAY',
+  'LAST_BANK_DAY'
+]
+
+const DAYS_OF_MONTH = Array.from(
+  {
+    length: 31
+  },
+  (_, index) => index + 1
+)
+
+function RuleSelect({
+  label,
+  value,
+  options,
+  onChange
+}: {
+  label: string
+  value: string
+  options: {
+    value: string
+    label: string
+  }[]
+  onChange: (value: string) => void
+}) {
+  const fieldId = useId()
+  return (
+    <FormField
+      label={label}
+      fieldId={fieldId}
+    >
+      <Select
+        value={value}
+        onValueChange={onChange}
+      >
+        <SelectTrigger id={fieldId}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent position="popper">
+          {options.map((option) => (
+            <SelectItem
+              key={option.value}
+              value={option.value}
+            >
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </FormField>
+  )
+}
+
+type RecurrenceRuleFieldsProps = {
+  recurrenceType: RecurrenceType
+  customIntervalDays?: number | null
+  startDate: Date | null | undefined
+  endDate?: Date | null
+  rule: RecurrenceRule | null
+  onRuleChange: (rule: RecurrenceRule | null) => void
+}
+
+/**
+ * Bank-day rule for month-based recurrence and a preview of the next twelve
+ * dates. Sits under the recurrence select in the bill and income drawers.
+ */
+export function RecurrenceRuleFields({
+  recurrenceType,
+  customIntervalDays,
+  startDate,
+  endDate,
+  rule,
+  onRuleChange
+}: RecurrenceRuleFieldsProps) {
+  const { t } = useTranslation()
+  const ruleSupported = supportsRecurrenceRule(recurrenceType)
+  const validStart = startDate && isValid(startDate) ? startDate : null
+
+  const preview = useMemo(
+    () =>
+      validStart
+        ? previewRecurrenceDates({
+            recurrenceType,
+            customIntervalDays,
+            startDate: validStart,
+            endDate,
+            rule: ruleSupported ? rule : null
+          })
+        : [],
+    [
+      recurrenceType,
+      customIntervalDays,
+      validStart,
+      endDate,
+      rule,
+      ruleSupported
+    ]
+  )
+
+  const weekdayLabel = (weekday: number) =>
+    format(new Date(2026, 0, 4 + weekday), 'EEEE', {
+      locale: sv
+    })
+
+  const shiftReason = (item: RecurrenceDate) => {
+    if (!item.shiftedFrom) return null
+    const holiday = swedishHolidayOn(item.shiftedFrom)
+    return t('recurrenceRules.preview.shifted', {
+      date: format(item.shiftedFrom, 'd MMM', {
+        locale: sv
+      }),
+      reason: holiday
+        ? t(`recurrenceRules.holidays.${holiday}`)
+        : t('recurrenceRules.preview.weekend')
+    })
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {ruleSupported ? (
+        <>
+          <RuleSelect
+            label={t('recurrenceRules.label')}
+            value={rule?.kind ?? SAME_DATE}
+            options={[
+              {
+                value: SAME_DATE,
+                label: t('recurrenceRules.kinds.SAME_DATE')
+              },
+              ...RULE_KINDS.map((kind) => ({
+                value: kind,
+                label: t(`recurrenceRules.kinds.${kind}`)
+              }))
+            ]}
+            onChange={(value) =>
+              onRuleChange(
+                value === SAME_DATE
+                  ? null
+                  : defaultRecurrenceRule(
+                      value as RecurrenceRuleKind,
+                      validStart ?? new Date()
+                    )
+              )
+            }
+          />
+          {rule?.kind === 'DAY_OF_MONTH' ? (
+            <div className="grid grid-cols-2 gap-3">
+              <RuleSelect
+                label={t('recurrenceRules.dayOfMonth')}
+                value={String(rule.day)}
+                options={DAYS_OF_MONTH.map((day) => ({
+                  value: String(day),
+                  label: String(day)
+                }))}
+                onChange={(value) =>
+                  onRuleChange({
+                    ...rule,
+                    day: Number(value)
+                  })
+                }
+              />
+              <RuleSelect
+                label={t('recurrenceRules.shift.label')}
+                value={rule.shift}
+                options={[
+                  {
+                    value: 'PREVIOUS',
+                    label: t('recurrenceRules.shift.PREVIOUS')
+                  },
+                  {
+                    value: 'NEXT',
+                    label: t('recurrenceRules.shift.NEXT')
+                  }
+                ]}
+                onChange={(value) =>
+                  onRuleChange({
+                    ...rule,
+                    shift: value as BankDayShift
+                  })
+                }
+              />
+            </div>
+          ) : null}
+          {rule?.kind === 'NTH_WEEKDAY' ? (
+            <div className="grid grid-cols-2 gap-3">
+              <RuleSelect
+                label={t('recurrenceRules.ordinal.label')}
+                value={String(rule.ordinal)}
+                options={WEEKDAY_ORDINALS.map((ordinal) => ({
+                  value: String(ordinal),
+                  label: t(`recurrenceRules.ordinal.${ordinal}`)
+                }))}
+                onChange={(value) =>
+                  onRuleChange({
+                    ...rule,
+                    ordinal: Number(value) as WeekdayOrdinal
+                  })
+                }
+              />
+              <RuleSelect
+                label={t('recurrenceRules.weekday')}
+                value={String(rule.weekday)}
+                options={RULE_WEEKDAYS.map((weekday) => ({
+                  value: String(weekday),
+                  label: weekdayLabel(weekday)
+                }))}
+                onChange={(value) =>
+                  onRuleChange({
+                    ...rule,
+                    weekday: Number(value)
+                  })
+                }
+              />
+            </div>
+          ) : null}
+        </>
+      ) : null}
+      {preview.length > 0 ? (
+        <section
+          className="flex flex-col gap-1"
+          aria-label={t('recurrenceRules.preview.title')}
+        >
+          <p className="type-label text-gray-800">
+            {t('recurrenceRules.preview.title')}
+          </p>
+          <ol className="grid grid-cols-1 gap-x-4 gap-y-0.5 sm:grid-cols-2">
+            {preview.map((item) => {
+              const reason = shiftReason(item)
+              return (
+                <li
+                  key={item.date.getTime()}
+                  className="type-label-small text-gray-700"
+                >
+                  <span className="text-gray-950">
+                    {format(item.date, 'EEE d MMM yyyy', {
+                      locale: sv
+                    })}
+                  </span>
+                  {reason ? (
+                    <span className="ml-1 text-gray-600">{reason}</span>
+                  ) : null}
+                </li>
+              )
+            })}
+          </ol>
+        </section>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+import { client } from '@/api/generated/client.gen'
+import type { RecurrenceRule } from './recurrence-rules'
+
+/*
+ * Recurrence rule endpoints are not in the OpenAPI spec yet, so they are
+ * called through the generated client by hand to share its base URL and auth.
+ * The MSW handlers in `src/__mocks__/handlers/recurrence-rules.ts` mirror them.
+ * The rule is stored on its bill or income and is deleted along with it.
+ */
+
+const SECURITY = [
+  {
+    scheme: 'bearer',
+    type: 'http'
+  } as const
+]
+
+/** Whether the rule belongs to a bill or an income blueprint. */
+export type RecurrenceRuleOwner = 'bills' | 'incomes'
+
+export type RecurrenceRuleState = Record<
+  RecurrenceRuleOwner,
+  Record<string, RecurrenceRule>
+>
+
+const RULE_URLS = {
+  bills: '/bills/{id}/recurrence-rule',
+  incomes: '/incomes/{id}/recurrence-rule'
+} satisfies Record<RecurrenceRuleOwner, string>
+
+export async function listHouseholdRecurrenceRules(
+  householdId: string
+): Promise<RecurrenceRuleState> {
+  const { data } = await client.get<
+    {
+      200: RecurrenceRuleState
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/households/{householdId}/recurrence-rules',
+    path: {
+      householdId
+    },
+    throwOnError: true
+  })
+  return data
+}
+
+export async function saveRecurrenceRule(
+  owner: RecurrenceRuleOwner,
+  id: string,
+  rule: RecurrenceRule
+): Promise<RecurrenceRule> {
+  const { data } = await client.put<
+    {
+      200: RecurrenceRule
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: RULE_URLS[owner],
+    path: {
+      id
+    },
+    body: rule,
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    throwOnError: true
+  })
+  return data
+}
+
+export async function deleteRecurrenceRule(
+  owner: RecurrenceRuleOwner,
+  id: string
+): Promise<void> {
+  await client.delete<
+    {
+      204: undefined
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: RULE_URLS[owner],
+    path: {
+      id
+    },
+    throwOnError: true
+  })
+}
@@ -0,0 +1,243 @@
+import { format } from 'date-fns'
+import { describe, expect, it } from 'vitest'
+import { RecurrenceType } from '@/api/generated/types.gen'
+import {
+  alignDateToRule,
+  defaultRecurrenceRule,
+  isRecurrenceRule,
+  previewRecurrenceDates,
+  ruleAlignmentMoves,
+  ruleDriftDate
+} from './recurrence-rules'
+import {
+  easterSunday,
+  isSwedishBankDay,
+  swedishHolidayOn,
+  swedishHolidays
+} from './swedish-holidays'
+
+const key = (date: Date) => format(date, 'yyyy-MM-dd')
+
+describe('swedishHolidays', () => {
+  it('places the moveable holidays', () => {
+    expect(key(easterSunday(2025))).toBe('2025-04-20')
+    expect(key(easterSunday(2027))).toBe('2027-03-28')
+    const holidays = new Map(
+      swedishHolidays(2026).map((holiday) => [
+        holiday.id,
+        key(holiday.date)
+      ])
+    )
+    expect(holidays.get('goodFriday')).toBe('2026-04-03')
+    expect(holidays.get('ascensionDay')).toBe('2026-05-14')
+    expect(holidays.get('midsummerEve')).toBe('2026-06-19')
+    expect(holidays.get('allSaintsDay')).toBe('2026-10-31')
+  })
+
+  it('treats bank holiday eves as non-bank days', () => {
+    expect(swedishHolidayOn(new Date(2026, 11, 24))).toBe('christmasEve')
+    expect(isSwedishBankDay(new Date(2026, 11, 31))).toBe(false)
+    expect(isSwedishBankDay(new Date(2026, 11, 30))).toBe(true)
+    expect(isSwedishBankDay(new Date(2026, 9, 24))).toBe(false)
+  })
+})
+
+describe('previewRecurrenceDates', () => {
+  it('moves salary day back to the previous bank day', () => {
+    const dates = previewRecurrenceDates({
+      recurrenceType: RecurrenceType.MONTHLY,
+      startDate: new Date(2026, 9, 1),
+      rule: {
+        kind: 'DAY_OF_MONTH',
+        day: 25,
+        shift: 'PREVIOUS'
+      }
+    })
+    expect(dates).toHaveLength(12)
+    expect(dates.slice(0, 3).map((item) => key(item.date))).toEqual([
+      '2026-10-23',
+      '2026-11-25',
+      '2026-12-23'
+    ])
+    expect(key(dates[0]?.shiftedFrom ?? new Date(0))).toBe('2026-10-25')
+    expect(dates[1]?.shiftedFrom).toBeNull()
+  })
+
+  it('moves autogiro forward, across the month end if needed', () => {
+    const dates = previewRecurrenceDates({
+      recurrenceType: RecurrenceType.MONTHLY,
+      startDate: new Date(2026, 1, 1),
+      rule: {
+        kind: 'DAY_OF_MONTH',
+        day: 28,
+        shift: 'NEXT'
+      },
+      count: 2
+    })
+    expect(dates.map((item) => key(item.date))).toEqual([
+      '2026-03-02',
+      '2026-03-30'
+    ])
+  })
+
+  it('skips a first occurrence before the start date and stops at the end date', () => {
+    const dates = previewRecurrenceDates({
+      recurrenceType: RecurrenceType.QUARTERLY,
+      startDate: new Date(2026, 9, 20),
+      endDate: new Date(2027, 6, 1),
+      rule: {
+        kind: 'NTH_WEEKDAY',
+        ordinal: 2,
+        weekday: 2
+      }
+    })
+    expect(dates.map((item) => key(item.date))).toEqual([
+      '2027-01-12',
+      '2027-04-13'
+    ])
+  })
+
+  it('uses the last bank day of the month', () => {
+    const dates = previewRecurrenceDates({
+      recurrenceType: RecurrenceType.MONTHLY,
+      startDate: new Date(2026, 10, 1),
+      rule: {
+        kind: 'LAST_BANK_DAY'
+      },
+      count: 2
+    })
+    expect(dates.map((item) => key(item.date))).toEqual([
+      '2026-11-30',
+      '2026-12-30'
+    ])
+  })
+
+  it('steps plain recurrence types from the start date', () => {
+    const dates = previewRecurrenceDates({
+      recurrenceType: RecurrenceType.CUSTOM,
+      customIntervalDays: 10,
+      startDate: new Date(2026, 9, 1),
+      count: 3
+    })
+    expect(dates.map((item) => key(item.date))).toEqual([
+      '2026-10-01',
+      '2026-10-11',
+      '2026-10-21'
+    ])
+    expect(
+      previewRecurrenceDates({
+        recurrenceType: RecurrenceType.NONE,
+        startDate: new Date(2026, 9, 1)
+      })
+    ).toHaveLength(1)
+  })
+})
+
+describe('alignDateToRule', () => {
+  it('moves a generated date to the nearest rule date', () => {
+    const rule = {
+      kind: 'DAY_OF_MONTH',
+      day: 28,
+      shift: 'NEXT'
+    } as const
+    expect(key(alignDateToRule(new Date(2026, 1, 28), rule))).toBe('2026-03-02')
+    expect(key(alignDateToRule(new Date(2026, 2, 28), rule))).toBe('2026-03-30')
+  })
+})
+
+describe('ruleAlignmentMoves', () => {
+  it('moves only upcoming pending instances that are off the rule', () => {
+    const moves = ruleAlignmentMoves(
+      [
+        {
+          id: 'past',
+          date: new Date(2026, 9, 25),
+          pending: true
+        },
+        {
+          id: 'paid',
+          date: new Date(2027, 0, 25),
+          pending: false
+        },
+        {
+          id: 'onRule',
+          date: new Date(2026, 10, 25, 8),
+          pending: true
+        },
+        {
+          id: 'christmas',
+          date: new Date(2026, 11, 25, 8),
+          pending: true
+        }
+      ],
+      {
+        kind: 'DAY_OF_MONTH',
+        day: 25,
+        shift: 'PREVIOUS'
+      },
+      new Date(2026, 9, 26)
+    )
+    expect(moves).toEqual([
+      {
+        id: 'christmas',
+        date: new Date(2026, 11, 23, 8)
+      }
+    ])
+  })
+})
+
+describe('ruleDriftDate', () => {
+  it('flags a generated instance off the last bank day', () => {
+    const rule = {
+      kind: 'LAST_BANK_DAY'
+    } as const
+    const today = new Date(2026, 9, 19)
+    expect(
+      ruleDriftDate(
+        {
+          date: new Date(2027, 0, 31),
+          pending: true
+        },
+        rule,
+        today
+      )
+    ).toEqual(new Date(2027, 0, 29))
+    expect(
+      ruleDriftDate(
+        {
+          date: new Date(2027, 0, 29),
+          pending: true
+        },
+        rule,
+        today
+      )
+    ).toBeNull()
+  })
+})
+
+describe('recurrence rule helpers', () => {
+  it('derives a last-weekday rule from a date in the final week', () => {
+    expect(defaultRecurrenceRule('NTH_WEEKDAY', new Date(2026, 9, 30))).toEqual(
+      {
+        kind: 'NTH_WEEKDAY',
+        ordinal: -1,
+        weekday: 5
+      }
+    )
+  })
+
+  it('rejects malformed stored rules', () => {
+    expect(
+      isRecurrenceRule({
+        kind: 'DAY_OF_MONTH',
+        day: 32,
+        shift: 'NEXT'
+      })
+    ).toBe(false)
+    expect(
+      isRecurrenceRule({
+        kind: 'LAST_BANK_DAY'
+      })
+    ).toBe(true)
+  })
+})
@@ -0,0 +1,345 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  getDate,
+  getDay,
+  getDaysInMonth,
+  isAfter,
+  isBefore,
+  isSameDay,
+  startOfDay,
+  startOfMonth
+} from 'date-fns'
+
+import { RecurrenceType } from '@/api/generated/types.gen'
+import { type BankDayShift, shiftToBankDay } from './swedish-holidays'
+
+/** Which occurrence of a weekday within the month; `-1` is the last one. */
+export type WeekdayOrdinal = 1 | 2 | 3 | 4 | -1
+
+/**
+ * Day-of-month placement that the backend recurrence types cannot express.
+ * The recurrence type still decides how many months lie between occurrences.
+ */
+export type RecurrenceRule =
+  | {
+      kind: 'DAY_OF_MONTH'
+      /** 1–31, clamped to the last day of shorter months. */
+      day: number
+      shift: BankDayShift
+    }
+  | {
+      kind: 'NTH_WEEKDAY'
+      ordinal: WeekdayOrdinal
+      /** 0 = Sunday … 6 = Saturday, as in `Date.getDay()`. */
+      weekday: number
+    }
+  | {
+      kind: 'LAST_BANK_DAY'
+    }
+
+export type RecurrenceRuleKind = RecurrenceRule['kind']
+
+export const WEEKDAY_ORDINALS: WeekdayOrdinal[] = [
+  1,
+  2,
+  3,
+  4,
+  -1
+]
+
+/** Monday-first, matching the calendar. */
+export const RULE_WEEKDAYS = [
+  1,
+  2,
+  3,
+  4,
+  5,
+  6,
+  0
+]
+
+const INTERVAL_MONTHS: Partial<Record<RecurrenceType, number>> = {
+  [RecurrenceType.MONTHLY]: 1,
+  [RecurrenceType.QUARTERLY]: 3,
+  [RecurrenceType.YEARLY]: 12
+}
+
+/** Rules place a date within a month, so they only apply to month-based recurrence. */
+export function supportsRecurrenceRule(
+  recurrenceType: RecurrenceType
+): boolean {
+  return INTERVAL_MONTHS[recurrenceType] !== undefined
+}
+
+/** A rule of `kind` that matches `startDate` as closely as possible. */
+export function defaultRecurrenceRule(
+  kind: RecurrenceRuleKind,
+  startDate: Date
+): RecurrenceRule {
+  switch (kind) {
+    case 'DAY_OF_MONTH':
+      return {
+        kind,
+        day: getDate(startDate),
+        shift: 'PREVIOUS'
+      }
+    case 'NTH_WEEKDAY':
+      return {
+        kind,
+        ordinal:
+          getDate(startDate) + 7 > getDaysInMonth(startDate)
+            ? -1
+            : (Math.ceil(getDate(startDate) / 7) as WeekdayOrdinal),
+        weekday: getDay(startDate)
+      }
+    case 'LAST_BANK_DAY':
+      return {
+        kind
+      }
+  }
+}
+
+/** One generated date; `shiftedFrom` is set when a weekend or holiday moved it. */
+export type RecurrenceDate = {
+  date: Date
+  shiftedFrom: Date | null
+}
+
+function nthWeekdayInMonth(
+  month: Date,
+  ordinal: WeekdayOrdinal,
+  weekday: number
+): Date {
+  const first = startOfMonth(month)
+  if (ordinal === -1) {
+    const last = addDays(first, getDaysInMonth(first) - 1)
+    return addDays(last, -((getDay(last) - weekday + 7) % 7))
+  }
+  const firstMatch = addDays(first, (weekday - getDay(first) + 7) % 7)
+  return addWeeks(firstMatch, ordinal - 1)
+}
+
+/**
+ * The rule's date for the month containing `month`. A shift to the next bank
+ * day can land early in the following month.
+ */
+export function ruleDateInMonth(
+  rule: RecurrenceRule,
+  month: Date
+): RecurrenceDate {
+  const first = startOfMonth(month)
+  let nominal: Date
+  let shift: BankDayShift | null
+  switch (rule.kind) {
+    case 'DAY_OF_MONTH':
+      nominal = addDays(first, Math.min(rule.day, getDaysInMonth(first)) - 1)
+      shift = rule.shift
+      break
+    case 'NTH_WEEKDAY':
+      nominal = nthWeekdayInMonth(first, rule.ordinal, rule.weekday)
+      shift = null
+      break
+    case 'LAST_BANK_DAY':
+      nominal = addDays(first, getDaysInMonth(first) - 1)
+      shift = 'PREVIOUS'
+      break
+  }
+  const date = shift ? shiftToBankDay(nominal, shift) : nominal
+  return {
+    date,
+    shiftedFrom: isSameDay(date, nominal) ? null : nominal
+  }
+}
+
+export type RecurrencePreviewParams = {
+  recurrenceType: RecurrenceType
+  customIntervalDays?: number | null
+  startDate: Date
+  endDate?: Date | null
+  rule?: RecurrenceRule | null
+  count?: number
+}
+
+/**
+ * The next `count` dates from `startDate` on, stopping at `endDate`. Rules
+ * only apply to month-based recurrence; other types step from the start date
+ * the way the backend generates instances.
+ */
+export function previewRecurrenceDates({
+  recurrenceType,
+  customIntervalDays,
+  startDate,
+  endDate,
+  rule,
+  count = 12
+}: RecurrencePreviewParams): RecurrenceDate[] {
+  const start = startOfDay(startDate)
+  const end = endDate ? startOfDay(endDate) : null
+  const months = INTERVAL_MONTHS[recurrenceType]
+  const dates: RecurrenceDate[] = []
+  const push = (next: RecurrenceDate) => {
+    if (end && isAfter(next.date, end)) return false
+    dates.push(next)
+    return dates.length < count
+  }
+
+  if (rule && months !== undefined) {
+    // The first month's date may fall before the start date; one extra
+    // month keeps the count.
+    for (let i = 0; i <= count; i++) {
+      const next = ruleDateInMonth(rule, addMonths(start, i * months))
+      if (isBefore(next.date, start)) continue
+      if (!push(next)) break
+    }
+    return dates
+  }
+
+  const stepped = (i: number): Date | null => {
+    switch (recurrenceType) {
+      case RecurrenceType.NONE:
+        return i === 0 ? start : null
+      case RecurrenceType.WEEKLY:
+        return addWeeks(start, i)
+      case RecurrenceType.CUSTOM:
+        return customIntervalDays && customIntervalDays > 0
+          ? addDays(start, i * customIntervalDays)
+          : null
+      default:
+        return addMonths(start, i * (months ?? 1))
+    }
+  }
+  for (let i = 0; i < count; i++) {
+    const date = stepped(i)
+    if (!date) break
+    if (
+      !push({
+        date,
+        shiftedFrom: null
+      })
+    )
+      break
+  }
+  return dates
+}
+
+/**
+ * First date the rule produces on or after `startDate`, so a new blueprint's
+ * first instance lands on the rule.
+ */
+export function ruleStartDate(
+  rule: RecurrenceRule,
+  recurrenceType: RecurrenceType,
+  startDate: Date
+): Date {
+  return (
+    previewRecurrenceDates({
+      recurrenceType,
+      startDate,
+      rule,
+      count: 1
+    })[0]?.date ?? startDate
+  )
+}
+
+/**
+ * The rule's date nearest to `date`, for moving an instance the backend
+ * generated on a plain day-of-month onto the rule.
+ */
+export function alignDateToRule(date: Date, rule: RecurrenceRule): Date {
+  let nearest = ruleDateInMonth(rule, date).date
+  for (const offset of [
+    -1,
+    1
+  ]) {
+    const candidate = ruleDateInMonth(rule, addMonths(date, offset)).date
+    if (
+      Math.abs(differenceInCalendarDays(candidate, date)) <
+      Math.abs(differenceInCalendarDays(nearest, date))
+    ) {
+      nearest = candidate
+    }
+  }
+  return nearest
+}
+
+export type RuleAlignmentInstance = {
+  id: string
+  date: Date
+  /** Without a linked transaction; only these may move. */
+  pending: boolean
+}
+
+/**
+ * Where a pending instance from `today` on belongs under the rule, at its
+ * original time of day, or `null` when it is already there (or paid, or past).
+ * Instances the backend generates after the rule was saved drift this way.
+ */
+export function ruleDriftDate(
+  instance: Omit<RuleAlignmentInstance, 'id'>,
+  rule: RecurrenceRule,
+  today: Date
+): Date | null {
+  if (!instance.pending || isBefore(instance.date, startOfDay(today)))
+    return null
+  const date = alignDateToRule(instance.date, rule)
+  if (isSameDay(date, instance.date)) return null
+  date.setHours(
+    instance.date.getHours(),
+    instance.date.getMinutes(),
+    instance.date.getSeconds(),
+    instance.date.getMilliseconds()
+  )
+  return date
+}
+
+/**
+ * Pending instances from `today` on whose date is not the rule's, with the
+ * date they should move to at their original time of day.
+ */
+export function ruleAlignmentMoves(
+  instances: RuleAlignmentInstance[],
+  rule: RecurrenceRule,
+  today: Date
+): {
+  id: string
+  date: Date
+}[] {
+  return instances.flatMap((instance) => {
+    const date = ruleDriftDate(instance, rule, today)
+    return date
+      ? [
+          {
+            id: instance.id,
+            date
+          }
+        ]
+      : []
+  })
+}
+
+/** Narrows stored JSON to a rule, dropping anything malformed. */
+export function isRecurrenceRule(value: unknown): value is RecurrenceRule {
+  if (typeof value !== 'object' || value === null) return false
+  const rule = value as Record<string, unknown>
+  switch (rule.kind) {
+    case 'DAY_OF_MONTH':
+      return (
+        Number.isInteger(rule.day) &&
+        (rule.day as number) >= 1 &&
+        (rule.day as number) <= 31 &&
+        (rule.shift === 'PREVIOUS' || rule.shift === 'NEXT')
+      )
+    case 'NTH_WEEKDAY':
+      return (
+        WEEKDAY_ORDINALS.includes(rule.ordinal as WeekdayOrdinal) &&
+        RULE_WEEKDAYS.includes(rule.weekday as number)
+      )
+    case 'LAST_BANK_DAY':
+      return true
+    default:
+      return false
+  }
+}
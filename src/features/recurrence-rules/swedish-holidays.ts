@@ -0,0 +1,162 @@
+import { addDays, format, getDay, isWeekend } from 'date-fns'
+
+/**
+ * Days Swedish banks do not process payments: the public holidays plus
+ * midsommarafton, julafton and nyårsafton.
+ */
+export type SwedishHolidayId =
+  | 'newYearsDay'
+  | 'epiphany'
+  | 'goodFriday'
+  | 'easterSunday'
+  | 'easterMonday'
+  | 'mayDay'
+  | 'ascensionDay'
+  | 'whitSunday'
+  | 'nationalDay'
+  | 'midsummerEve'
+  | 'midsummerDay'
+  | 'allSaintsDay'
+  | 'christmasEve'
+  | 'christmasDay'
+  | 'boxingDay'
+  | 'newYearsEve'
+
+export type SwedishHoliday = {
+  id: SwedishHolidayId
+  date: Date
+}
+
+/** Direction to move a date that falls on a weekend or holiday. */
+export type BankDayShift = 'PREVIOUS' | 'NEXT'
+
+/** Gregorian Easter Sunday (anonymous Gregorian algorithm). */
+export function easterSunday(year: number): Date {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return new Date(year, month - 1, day)
+}
+
+/** First date from `from` on that falls on `weekday` (0 = Sunday). */
+function firstWeekdayFrom(from: Date, weekday: number): Date {
+  return addDays(from, (weekday - getDay(from) + 7) % 7)
+}
+
+/** Bank holidays of `year` in date order. */
+export function swedishHolidays(year: number): SwedishHoliday[] {
+  const easter = easterSunday(year)
+  const midsummerEve = firstWeekdayFrom(new Date(year, 5, 19), 5)
+  const holidays: SwedishHoliday[] = [
+    {
+      id: 'newYearsDay',
+      date: new Date(year, 0, 1)
+    },
+    {
+      id: 'epiphany',
+      date: new Date(year, 0, 6)
+    },
+    {
+      id: 'goodFriday',
+      date: addDays(easter, -2)
+    },
+    {
+      id: 'easterSunday',
+      date: easter
+    },
+    {
+      id: 'easterMonday',
+      date: addDays(easter, 1)
+    },
+    {
+      id: 'mayDay',
+      date: new Date(year, 4, 1)
+    },
+    {
+      id: 'ascensionDay',
+      date: addDays(easter, 39)
+    },
+    {
+      id: 'whitSunday',
+      date: addDays(easter, 49)
+    },
+    {
+      id: 'nationalDay',
+      date: new Date(year, 5, 6)
+    },
+    {
+      id: 'midsummerEve',
+      date: midsummerEve
+    },
+    {
+      id: 'midsummerDay',
+      date: addDays(midsummerEve, 1)
+    },
+    {
+      id: 'allSaintsDay',
+      date: firstWeekdayFrom(new Date(year, 9, 31), 6)
+    },
+    {
+      id: 'christmasEve',
+      date: new Date(year, 11, 24)
+    },
+    {
+      id: 'christmasDay',
+      date: new Date(year, 11, 25)
+    },
+    {
+      id: 'boxingDay',
+      date: new Date(year, 11, 26)
+    },
+    {
+      id: 'newYearsEve',
+      date: new Date(year, 11, 31)
+    }
+  ]
+  return holidays.sort((a, b) => a.date.getTime() - b.date.getTime())
+}
+
+const holidaysByYear = new Map<number, Map<string, SwedishHolidayId>>()
+
+function holidayLookup(year: number): Map<string, SwedishHolidayId> {
+  let lookup = holidaysByYear.get(year)
+  if (!lookup) {
+    lookup = new Map(
+      swedishHolidays(year).map((holiday) => [
+        format(holiday.date, 'yyyy-MM-dd'),
+        holiday.id
+      ])
+    )
+    holidaysByYear.set(year, lookup)
+  }
+  return lookup
+}
+
+export function swedishHolidayOn(date: Date): SwedishHolidayId | null {
+  return (
+    holidayLookup(date.getFullYear()).get(format(date, 'yyyy-MM-dd')) ?? null
+  )
+}
+
+export function isSwedishBankDay(date: Date): boolean {
+  return !isWeekend(date) && swedishHolidayOn(date) === null
+}
+
+/** `date` itself when it is a bank day, otherwise the nearest one in `shift` direction. */
+export function shiftToBankDay(date: Date, shift: BankDayShift): Date {
+  const step = shift === 'PREVIOUS' ? -1 : 1
+  let day = date
+  while (!isSwedishBankDay(day)) day = addDays(day, step)
+  return day
+}
@@ -0,0 +1,149 @@
+import { useQueryClient } from '@tanstack/react-query'
+import { startOfDay } from 'date-fns'
+import { useCallback } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import {
+  listBillInstancesOptions,
+  listIncomeInstancesFilteredOptions
+} from '@/api/generated/@tanstack/react-query.gen'
+import { useUpdateBillInstance, useUpdateIncomeInstance } from '@/hooks/api'
+import { fromApiDate } from '@/hooks/api/date-normalization'
+import { type RecurrenceRule, ruleAlignmentMoves } from './recurrence-rules'
+import type { RecurrenceRuleOwner } from './recurrence-rules-api'
+import { useRecurrenceRules } from './use-recurrence-rules'
+
+type ApplyRecurrenceRuleParams = {
+  owner: RecurrenceRuleOwner
+  /** Bill or income id. */
+  id: string
+  userId?: string | null
+  /** `null` clears a previously saved rule. */
+  rule: RecurrenceRule | null
+}
+
+type ApplyRecurrenceRuleResult = {
+  moved: number
+  failed: number
+}
+
+/**
+ * Saves the bill's or income's rule and moves its upcoming unpaid instances
+ * onto the rule's dates. The backend generates instances on a plain day of
+ * month, so this runs after every drawer save; instances generated later are
+ * flagged by {@link useRecurrenceRuleDrift} until the next save. Every move is
+ * attempted even when some fail, and failures are toasted with their count.
+ */
+export function useApplyRecurrenceRule(
+  householdId: string
+): (params: ApplyRecurrenceRuleParams) => Promise<ApplyRecurrenceRuleResult> {
+  const { t } = useTranslation()
+  const queryClient = useQueryClient()
+  const { setRecurrenceRule } = useRecurrenceRules(householdId)
+  const { mutateAsync: updateBillInstance } = useUpdateBillInstance()
+  const { mutateAsync: updateIncomeInstance } = useUpdateIncomeInstance()
+
+  const reportMoves = useCallback(
+    (results: PromiseSettledResult<unknown>[]): ApplyRecurrenceRuleResult => {
+      const failed = results.filter(
+        (result) => result.status === 'rejected'
+      ).length
+      if (failed > 0)
+        toast.error(
+          t('recurrenceRules.alignFailed', {
+            count: failed,
+            total: results.length
+          })
+        )
+      return {
+        moved: results.length - failed,
+        failed
+      }
+    },
+    [
+      t
+    ]
+  )
+
+  return useCallback(
+    async ({ owner, id, userId, rule }: ApplyRecurrenceRuleParams) => {
+      await setRecurrenceRule(owner, id, rule)
+      if (!rule)
+        return {
+          moved: 0,
+          failed: 0
+        }
+      const today = startOfDay(new Date())
+
+      if (owner === 'bills') {
+        const response = await queryClient.fetchQuery(
+          listBillInstancesOptions({
+            query: {
+              householdId,
+              billId: id,
+              dateFrom: today.toISOString()
+            }
+          })
+        )
+        const moves = ruleAlignmentMoves(
+          (response.data ?? []).map((instance) => ({
+            id: instance.id,
+            date: fromApiDate(instance.dueDate),
+            pending: !instance.transaction
+          })),
+          rule,
+          today
+        )
+        return reportMoves(
+          await Promise.allSettled(
+            moves.map((move) =>
+              updateBillInstance({
+                id: move.id,
+                userId,
+                dueDate: move.date
+              })
+            )
+          )
+        )
+      }
+
+      const response = await queryClient.fetchQuery(
+        listIncomeInstancesFilteredOptions({
+          query: {
+            householdId,
+            incomeId: id,
+            dateFrom: today.toISOString()
+          }
+        })
+      )
+      const moves = ruleAlignmentMoves(
+        (response.data ?? []).map((instance) => ({
+          id: instance.id,
+          date: fromApiDate(instance.expectedDate),
+          pending: !instance.transaction && !instance.transactionId
+        })),
+        rule,
+        today
+      )
+      return reportMoves(
+        await Promise.allSettled(
+          moves.map((move) =>
+            updateIncomeInstance({
+              id: move.id,
+              userId,
+              expectedDate: move.date
+            })
+          )
+        )
+      )
+    },
+    [
+      householdId,
+      queryClient,
+      reportMoves,
+      setRecurrenceRule,
+      updateBillInstance,
+      updateIncomeInstance
+    ]
+  )
+}
@@ -0,0 +1,34 @@
+import { startOfDay } from 'date-fns'
+import { useCallback, useMemo } from 'react'
+import { ruleDriftDate } from './recurrence-rules'
+import type { RecurrenceRuleOwner } from './recurrence-rules-api'
+import { useRecurrenceRules } from './use-recurrence-rules'
+
+/**
+ * Looks up where a loaded instance belongs under its bill's or income's rule.
+ * Resolves to `null` when the blueprint has no rule or the instance is on it.
+ */
+export function useRecurrenceRuleDrift(householdId: string): (
+  owner: RecurrenceRuleOwner,
+  blueprintId: string | null | undefined,
+  instance: {
+    date: Date
+    pending: boolean
+  }
+) => Date | null {
+  const { bills, incomes } = useRecurrenceRules(householdId)
+  const today = useMemo(() => startOfDay(new Date()), [])
+
+  return useCallback(
+    (owner, blueprintId, instance) => {
+      const rules = owner === 'bills' ? bills : incomes
+      const rule = blueprintId ? rules[blueprintId] : undefined
+      return rule ? ruleDriftDate(instance, rule, today) : null
+    },
+    [
+      bills,
+      incomes,
+      today
+    ]
+  )
+}
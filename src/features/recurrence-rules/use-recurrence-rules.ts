@@ -0,0 +1,91 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useCallback } from 'react'
+import type { RecurrenceRule } from './recurrence-rules'
+import {
+  deleteRecurrenceRule,
+  listHouseholdRecurrenceRules,
+  type RecurrenceRuleOwner,
+  type RecurrenceRuleState,
+  saveRecurrenceRule
+} from './recurrence-rules-api'
+
+const RECURRENCE_RULES_QUERY_KEY = 'recurrence-rules'
+
+export const recurrenceRuleQueryKeys = {
+  all: [
+    RECURRENCE_RULES_QUERY_KEY
+  ] as const,
+  household: (householdId: string) =>
+    [
+      RECURRENCE_RULES_QUERY_KEY,
+      'household',
+      householdId
+    ] as const
+}
+
+const EMPTY_STATE: RecurrenceRuleState = {
+  bills: {},
+  incomes: {}
+}
+
+export type UseRecurrenceRulesResult = RecurrenceRuleState & {
+  isLoading: boolean
+  /** Stores the rule for a bill or income, or removes it when `null`. */
+  setRecurrenceRule: (
+    owner: RecurrenceRuleOwner,
+    id: string,
+    rule: RecurrenceRule | null
+  ) => Promise<void>
+}
+
+/**
+ * Bank-day recurrence rules per bill and income. The server keeps each rule
+ * with its bill or income, but still generates instances on a plain day of
+ * month; {@link useApplyRecurrenceRule} moves them onto the rule's dates.
+ */
+export function useRecurrenceRules(
+  householdId: string
+): UseRecurrenceRulesResult {
+  const queryClient = useQueryClient()
+  const { data = EMPTY_STATE, isLoading } = useQuery({
+    queryKey: recurrenceRuleQueryKeys.household(householdId),
+    queryFn: () => listHouseholdRecurrenceRules(householdId),
+    enabled: !!householdId
+  })
+
+  const { mutateAsync } = useMutation({
+    mutationFn: async (variables: {
+      owner: RecurrenceRuleOwner
+      id: string
+      rule: RecurrenceRule | null
+    }) => {
+      if (variables.rule) {
+        await saveRecurrenceRule(variables.owner, variables.id, variables.rule)
+      } else {
+        await deleteRecurrenceRule(variables.owner, variables.id)
+      }
+    },
+    onSuccess: () =>
+      queryClient.invalidateQueries({
+        queryKey: recurrenceRuleQueryKeys.all
+      })
+  })
+
+  const setRecurrenceRule = useCallback(
+    (owner: RecurrenceRuleOwner, id: string, rule: RecurrenceRule | null) =>
+      mutateAsync({
+        owner,
+        id,
+        rule
+      }),
+    [
+      mutateAsync
+    ]
+  )
+
+  return {
+    ...data,
+    isLoading,
+    setRecurrenceRule
+  }
+}
@@ -0,0 +1,133 @@
+import type { HouseholdMember } from '@/api/generated/types.gen'
+
+/** Relative weights per member user id; a member left out bears nothing. */
+export type ShareWeights = Record<string, number>
+
+export type SharedExpenseSettings = {
+  /** How expenses are shared when they have no shares of their own. */
+  defaultShares: ShareWeights
+  /** Member user id that owns each personal account. */
+  accountOwners: Record<string, string>
+}
+
+/** Who paid an expense and who it was for. */
+export type TransactionAttribution = {
+  /** Defaults to the owner of the transaction's account. */
+  payerId?: string
+  /** Defaults to the household's default shares. */
+  shares?: ShareWeights
+  /** Per split line, aligned with the transaction's splits. */
+  splitShares?: Array<ShareWeights | null>
+}
+
+export const EMPTY_SHARED_EXPENSE_SETTINGS: SharedExpenseSettings = {
+  defaultShares: {},
+  accountOwners: {}
+}
+
+export type SharedExpenseMember = Pick<HouseholdMember, 'userId' | 'user'>
+
+export function memberDisplayName(
+  member: SharedExpenseMember,
+  fallback: string
+): string {
+  const user = member.user
+  return (
+    user?.fullName?.trim() ||
+    [
+      user?.firstName,
+      user?.lastName
+    ]
+      .filter(Boolean)
+      .join(' ')
+      .trim() ||
+    user?.email?.trim() ||
+    fallback
+  )
+}
+
+/** Weights with members that are gone or set to zero or less removed. */
+export function cleanShareWeights(
+  weights: ShareWeights | null | undefined,
+  memberIds: string[]
+): ShareWeights | null {
+  if (!weights) return null
+  const cleaned = Object.fromEntries(
+    memberIds
+      .map((id) => [
+        id,
+        weights[id] ?? 0
+      ])
+      .filter(([, weight]) => Number(weight) > 0)
+  )
+  return Object.keys(cleaned).length > 0 ? cleaned : null
+}
+
+/**
+ * The household default, or an even split between all members when no
+ * default is set.
+ */
+export function defaultShareWeights(
+  settings: SharedExpenseSettings,
+  memberIds: string[]
+): ShareWeights {
+  return (
+    cleanShareWeights(settings.defaultShares, memberIds) ??
+    Object.fromEntries(
+      memberIds.map((id) => [
+        id,
+        1
+      ])
+    )
+  )
+}
+
+/** Member who paid: the one set on the expense, else the account's owner. */
+export function resolvePayerId(params: {
+  accountId: string
+  attribution?: TransactionAttribution
+  settings: SharedExpenseSettings
+  memberIds: string[]
+}): string | null {
+  const { accountId, attribution, settings, memberIds } = params
+  const payerId = attribution?.payerId ?? settings.accountOwners[accountId]
+  return payerId && memberIds.includes(payerId) ? payerId : null
+}
+
+/**
+ * Attribution as stored: empty weights and split lines beyond `splitCount`
+ * dropped, or `null` when nothing differs from the defaults.
+ */
+export function compactAttribution(
+  attribution: TransactionAttribution,
+  memberIds: string[],
+  splitCount: number
+): TransactionAttribution | null {
+  const payerId =
+    attribution.payerId && memberIds.includes(attribution.payerId)
+      ? attribution.payerId
+      : undefined
+  const shares = cleanShareWeights(attribution.shares, memberIds) ?? undefined
+  const splitShares = (attribution.splitShares ?? [])
+    .slice(0, splitCount)
+    .map((weights) => cleanShareWeights(weights, memberIds))
+  const hasSplitShares = splitShares.some((weights) => weights !== null)
+  if (!payerId && !shares && !hasSplitShares) return null
+  return {
+    ...(payerId
+      ? {
+          payerId
+        }
+      : {}),
+    ...(shares
+      ? {
+          shares
+        }
+      : {}),
+    ...(hasSplitShares
+      ? {
+          splitShares
+        }
+      : {})
+  }
+}
@@ -0,0 +1,374 @@
+import { describe, expect, it } from 'vitest'
+import { TransactionStatus, TransactionType } from '@/api/generated/types.gen'
+import {
+  indexTransactionRefunds,
+  type TransactionRefund
+} from '@/features/transaction-refunds/refunds'
+import { compactAttribution, type SharedExpenseSettings } from './attribution'
+import {
+  computeMemberBalances,
+  type SettleUpTransaction,
+  settleBalances,
+  splitByWeights
+} from './settle-up'
+
+const settings: SharedExpenseSettings = {
+  defaultShares: {},
+  accountOwners: {
+    acc_alex: 'alex',
+    acc_sam: 'sam'
+  }
+}
+
+const NO_REFUNDS = indexTransactionRefunds([])
+
+function expense(
+  id: string,
+  accountId: string,
+  amount: number,
+  extra: Partial<SettleUpTransaction> = {}
+): SettleUpTransaction {
+  return {
+    id,
+    type: TransactionType.EXPENSE,
+    status: TransactionStatus.EFFECTIVE,
+    amount,
+    account: {
+      id: accountId
+    },
+    ...extra
+  }
+}
+
+describe('splitByWeights', () => {
+  it('hands rounding leftovers to the first members', () => {
+    expect([
+      ...splitByWeights(100, {
+        a: 1,
+        b: 1,
+        c: 1
+      })
+    ]).toEqual([
+      [
+        'a',
+        34
+      ],
+      [
+        'b',
+        33
+      ],
+      [
+        'c',
+        33
+      ]
+    ])
+  })
+})
+
+describe('computeMemberBalances', () => {
+  it('splits expenses evenly by default and skips unpaid and shared-account ones', () => {
+    const summary = computeMemberBalances({
+      transactions: [
+        expense('t1', 'acc_alex', 300),
+        expense('t2', 'acc_joint', 80),
+        expense('t3', 'acc_sam', 50, {
+          status: TransactionStatus.PENDING
+        })
+      ],
+      memberIds: [
+        'alex',
+        'sam'
+      ],
+      settings,
+      attributions: {},
+      refunds: NO_REFUNDS
+    })
+
+    expect(summary.balances).toEqual([
+      {
+        memberId: 'alex',
+        paid: 300,
+        cost: 150,
+        sent: 0,
+        received: 0,
+        balance: 150
+      },
+      {
+        memberId: 'sam',
+        paid: 0,
+        cost: 150,
+        sent: 0,
+        received: 0,
+        balance: -150
+      }
+    ])
+    expect(summary.unattributed).toEqual({
+      count: 1,
+      amount: 80
+    })
+  })
+
+  it('uses per-split shares, payer overrides and transfers between members', () => {
+    const summary = computeMemberBalances({
+      transactions: [
+        expense('t1', 'acc_joint', 100, {
+          splits: [
+            {
+              amount: 60
+            },
+            {
+              amount: 40
+            }
+          ]
+        }),
+        {
+          id: 't2',
+          type: TransactionType.TRANSFER,
+          status: TransactionStatus.EFFECTIVE,
+          amount: 20,
+          account: {
+            id: 'acc_sam'
+          },
+          transferToAccount: {
+            id: 'acc_alex'
+          }
+        }
+      ],
+      memberIds: [
+        'alex',
+        'sam'
+      ],
+      settings,
+      attributions: {
+        t1: {
+          payerId: 'alex',
+          shares: {
+            sam: 1
+          },
+          splitShares: [
+            null,
+            {
+              alex: 1
+            }
+          ]
+        }
+      },
+      refunds: NO_REFUNDS
+    })
+
+    expect(
+      summary.balances.map((member) => [
+        member.memberId,
+        member.cost,
+        member.balance
+      ])
+    ).toEqual([
+      [
+        'alex',
+        40,
+        40
+      ],
+      [
+        'sam',
+        60,
+        -40
+      ]
+    ])
+  })
+  it('nets a linked refund against the expense it refunds', () => {
+    const refund: TransactionRefund = {
+      refundId: 'r1',
+      originalId: 't1',
+      originalName: 'Hotell',
+      amount: 1000,
+      date: '2026-06-10',
+      lines: [
+        {
+          budgetId: null,
+          categoryId: null,
+          subtitle: '',
+          amount: 1000
+        }
+      ],
+      allocations: [],
+      createdAt: '2026-06-10T10:00:00.000Z'
+    }
+    const summary = computeMemberBalances({
+      transactions: [
+        expense('t1', 'acc_alex', 1000),
+        {
+          id: 'r1',
+          type: TransactionType.INCOME,
+          status: TransactionStatus.EFFECTIVE,
+          amount: 1000,
+          account: {
+            id: 'acc_alex'
+          }
+        }
+      ],
+      memberIds: [
+        'alex',
+        'sam'
+      ],
+      settings,
+      attributions: {},
+      refunds: indexTransactionRefunds([
+        refund
+      ])
+    })
+
+    expect(summary.balances.map((member) => member.balance)).toEqual([
+      0,
+      0
+    ])
+    expect(settleBalances(summary.balances)).toEqual([])
+  })
+
+  it('takes a partial refund off the split line it refunded', () => {
+    const summary = computeMemberBalances({
+      transactions: [
+        expense('t1', 'acc_alex', 100, {
+          splits: [
+            {
+              amount: 60
+            },
+            {
+              amount: 40
+            }
+          ]
+        })
+      ],
+      memberIds: [
+        'alex',
+        'sam'
+      ],
+      settings,
+      attributions: {
+        t1: {
+          splitShares: [
+            {
+              sam: 1
+            },
+            {
+              alex: 1
+            }
+          ]
+        }
+      },
+      refunds: indexTransactionRefunds([
+        {
+          refundId: 'r1',
+          originalId: 't1',
+          originalName: 'Elgiganten',
+          amount: 40,
+          date: '2026-06-10',
+          lines: [
+            {
+              budgetId: null,
+              categoryId: null,
+              subtitle: '',
+              amount: 0
+            },
+            {
+              budgetId: null,
+              categoryId: null,
+              subtitle: '',
+              amount: 40
+            }
+          ],
+          allocations: [],
+          createdAt: '2026-06-10T10:00:00.000Z'
+        }
+      ])
+    })
+
+    expect(
+      summary.balances.map((member) => [
+        member.memberId,
+        member.paid,
+        member.cost,
+        member.balance
+      ])
+    ).toEqual([
+      [
+        'alex',
+        60,
+        0,
+        60
+      ],
+      [
+        'sam',
+        0,
+        60,
+        -60
+      ]
+    ])
+  })
+})
+
+describe('settleBalances', () => {
+  it('pays the largest creditor from the largest debtor first', () => {
+    expect(
+      settleBalances([
+        {
+          memberId: 'a',
+          paid: 0,
+          cost: 0,
+          sent: 0,
+          received: 0,
+          balance: 90
+        },
+        {
+          memberId: 'b',
+          paid: 0,
+          cost: 0,
+          sent: 0,
+          received: 0,
+          balance: -60
+        },
+        {
+          memberId: 'c',
+          paid: 0,
+          cost: 0,
+          sent: 0,
+          received: 0,
+          balance: -30
+        }
+      ])
+    ).toEqual([
+      {
+        fromMemberId: 'b',
+        toMemberId: 'a',
+        amount: 60
+      },
+      {
+        fromMemberId: 'c',
+        toMemberId: 'a',
+        amount: 30
+      }
+    ])
+  })
+})
+
+describe('compactAttribution', () => {
+  it('drops defaults and departed members', () => {
+    expect(
+      compactAttribution(
+        {
+          payerId: 'gone',
+          shares: {
+            gone: 1
+          },
+          splitShares: [
+            null
+          ]
+        },
+        [
+          'alex',
+          'sam'
+        ],
+        1
+      )
+    ).toBeNull()
+  })
+})
@@ -0,0 +1,257 @@
+import {
+  type Transaction,
+  TransactionStatus,
+  TransactionType
+} from '@/api/generated/types.gen'
+import {
+  netRefundedAmounts,
+  type TransactionRefundIndex
+} from '@/features/transaction-refunds/refunds'
+import {
+  cleanShareWeights,
+  defaultShareWeights,
+  resolvePayerId,
+  type SharedExpenseSettings,
+  type ShareWeights,
+  type TransactionAttribution
+} from './attribution'
+
+export type SettleUpTransaction = Pick<
+  Transaction,
+  'id' | 'type' | 'status' | 'amount'
+> & {
+  account: {
+    id: string
+  }
+  transferToAccount?: {
+    id: string
+  } | null
+  splits?: Array<{
+    amount: number
+  }>
+}
+
+/** A member's side of the period; a positive balance is owed to them. */
+export type MemberBalance = {
+  memberId: string
+  /** Expenses paid from the member's accounts or attributed to them. */
+  paid: number
+  /** The member's share of all attributed expenses. */
+  cost: number
+  /** Transfers from the member's accounts to other members' accounts. */
+  sent: number
+  received: number
+  balance: number
+}
+
+export type Settlement = {
+  fromMemberId: string
+  toMemberId: string
+  amount: number
+}
+
+export type SettleUpSummary = {
+  balances: MemberBalance[]
+  /** Effective expenses with no member as payer, left out of the balances. */
+  unattributed: {
+    count: number
+    amount: number
+  }
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100)
+}
+
+/**
+ * Splits an amount in öre by weight. Rounding leftovers go to members in
+ * the order the weights list them, so the shares always add up.
+ */
+export function splitByWeights(
+  cents: number,
+  weights: ShareWeights
+): Map<string, number> {
+  const entries = Object.entries(weights).filter(([, weight]) => weight > 0)
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0)
+  const shares = new Map<string, number>()
+  if (total === 0) return shares
+  let assigned = 0
+  for (const [memberId, weight] of entries) {
+    const share = Math.floor((cents * weight) / total)
+    shares.set(memberId, share)
+    assigned += share
+  }
+  for (const [memberId] of entries) {
+    if (assigned >= cents) break
+    shares.set(memberId, (shares.get(memberId) ?? 0) + 1)
+    assigned += 1
+  }
+  return shares
+}
+
+/**
+ * Who paid and who bore the household's effective expenses, and what moved
+ * between members' accounts as transfers, for the transactions given.
+ * Refunds linked to an expense are taken off what its payer paid and off
+ * the shares of the lines they refunded.
+ */
+export function computeMemberBalances(params: {
+  transactions: SettleUpTransaction[]
+  memberIds: string[]
+  settings: SharedExpenseSettings
+  attributions: Record<string, TransactionAttribution>
+  refunds: TransactionRefundIndex
+}): SettleUpSummary {
+  const { transactions, memberIds, settings, attributions, refunds } = params
+  const fallbackShares = defaultShareWeights(settings, memberIds)
+  const cents = new Map(
+    memberIds.map((id) => [
+      id,
+      {
+        paid: 0,
+        cost: 0,
+        sent: 0,
+        received: 0
+      }
+    ])
+  )
+  const unattributed = {
+    count: 0,
+    cents: 0
+  }
+
+  for (const transaction of transactions) {
+    if (transaction.status !== TransactionStatus.EFFECTIVE) continue
+
+    if (transaction.type === TransactionType.TRANSFER) {
+      const fromId = settings.accountOwners[transaction.account.id]
+      const toId = transaction.transferToAccount
+        ? settings.accountOwners[transaction.transferToAccount.id]
+        : undefined
+      const from = fromId ? cents.get(fromId) : undefined
+      const to = toId ? cents.get(toId) : undefined
+      if (!from || !to || fromId === toId) continue
+      from.sent += toCents(transaction.amount)
+      to.received += toCents(transaction.amount)
+      continue
+    }
+
+    if (transaction.type !== TransactionType.EXPENSE) continue
+    const transactionRefunds = refunds.byOriginal.get(transaction.id) ?? []
+    const netCents =
+      toCents(transaction.amount) -
+      transactionRefunds.reduce(
+        (sum, refund) => sum + toCents(refund.amount),
+        0
+      )
+    if (netCents <= 0) continue
+    const attribution = attributions[transaction.id]
+    const payerId = resolvePayerId({
+      accountId: transaction.account.id,
+      attribution,
+      settings,
+      memberIds
+    })
+    const payer = payerId ? cents.get(payerId) : undefined
+    if (!payer) {
+      unattributed.count += 1
+      unattributed.cents += netCents
+      continue
+    }
+    payer.paid += netCents
+
+    const transactionShares =
+      cleanShareWeights(attribution?.shares, memberIds) ?? fallbackShares
+    const splits = transaction.splits ?? []
+    const lines =
+      splits.length > 0
+        ? splits.map((split, index) => ({
+            cents: toCents(split.amount),
+            shares:
+              cleanShareWeights(attribution?.splitShares?.[index], memberIds) ??
+              transactionShares
+          }))
+        : [
+            {
+              cents: toCents(transaction.amount),
+              shares: transactionShares
+            }
+          ]
+    const netAmounts = netRefundedAmounts(
+      lines.map((line) => line.cents / 100),
+      transactionRefunds
+    )
+    for (const [index, line] of lines.entries()) {
+      const lineCents = toCents(netAmounts[index] ?? 0)
+      for (const [memberId, share] of splitByWeights(lineCents, line.shares)) {
+        const member = cents.get(memberId)
+        if (member) member.cost += share
+      }
+    }
+  }
+
+  return {
+    balances: memberIds.map((memberId) => {
+      const member = cents.get(memberId) ?? {
+        paid: 0,
+        cost: 0,
+        sent: 0,
+        received: 0
+      }
+      return {
+        memberId,
+        paid: member.paid / 100,
+        cost: member.cost / 100,
+        sent: member.sent / 100,
+        received: member.received / 100,
+        balance:
+          (member.paid - member.cost + member.sent - member.received) / 100
+      }
+    }),
+    unattributed: {
+      count: unattributed.count,
+      amount: unattributed.cents / 100
+    }
+  }
+}
+
+/**
+ * Payments that even out the balances, largest debts first, so each member
+ * pays or is paid as few times as possible.
+ */
+export function settleBalances(balances: MemberBalance[]): Settlement[] {
+  const debtors = balances
+    .filter((member) => toCents(member.balance) < 0)
+    .map((member) => ({
+      memberId: member.memberId,
+      cents: -toCents(member.balance)
+    }))
+    .sort((a, b) => b.cents - a.cents)
+  const creditors = balances
+    .filter((member) => toCents(member.balance) > 0)
+    .map((member) => ({
+      memberId: member.memberId,
+      cents: toCents(member.balance)
+    }))
+    .sort((a, b) => b.cents - a.cents)
+
+  const settlements: Settlement[] = []
+  let debtorIndex = 0
+  let creditorIndex = 0
+  while (debtorIndex < debtors.length && creditorIndex < creditors.length) {
+    const debtor = debtors[debtorIndex]
+    const creditor = creditors[creditorIndex]
+    if (!debtor || !creditor) break
+    const cents = Math.min(debtor.cents, creditor.cents)
+    settlements.push({
+      fromMemberId: debtor.memberId,
+      toMemberId: creditor.memberId,
+      amount: cents / 100
+    })
+    debtor.cents -= cents
+    creditor.cents -= cents
+    if (debtor.cents === 0) debtorIndex += 1
+    if (creditor.cents === 0) creditorIndex += 1
+  }
+  return settlements
+}
@@ -0,0 +1,114 @@
+import { client } from '@/api/generated/client.gen'
+import type {
+  SharedExpenseSettings,
+  TransactionAttribution
+} from './attribution'
+
+/*
+ * Shared expense endpoints are not in the OpenAPI spec yet, so they are called
+ * through the generated client by hand to share its base URL and auth. The
+ * MSW handlers in `src/__mocks__/handlers/shared-expenses.ts` mirror them.
+ */
+
+const SECURITY = [
+  {
+    scheme: 'bearer',
+    type: 'http'
+  } as const
+]
+
+export type SharedExpenses = {
+  settings: SharedExpenseSettings
+  /** Payer and shares per expense transaction id. */
+  attributions: Record<string, TransactionAttribution>
+}
+
+export async function getHouseholdSharedExpenses(
+  householdId: string
+): Promise<SharedExpenses> {
+  const { data } = await client.get<
+    {
+      200: SharedExpenses
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/households/{householdId}/shared-expenses',
+    path: {
+      householdId
+    },
+    throwOnError: true
+  })
+  return data
+}
+
+export async function updateSharedExpenseSettings(
+  householdId: string,
+  settings: SharedExpenseSettings
+): Promise<SharedExpenseSettings> {
+  const { data } = await client.put<
+    {
+      200: SharedExpenseSettings
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/households/{householdId}/shared-expenses/settings',
+    path: {
+      householdId
+    },
+    body: settings,
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    throwOnError: true
+  })
+  return data
+}
+
+export async function saveTransactionAttribution(
+  transactionId: string,
+  attribution: TransactionAttribution
+): Promise<TransactionAttribution> {
+  const { data } = await client.put<
+    {
+      200: TransactionAttribution
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/transactions/{transactionId}/attribution',
+    path: {
+      transactionId
+    },
+    body: attribution,
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    throwOnError: true
+  })
+  return data
+}
+
+/** Puts the expense back on the account owner and the default shares. */
+export async function deleteTransactionAttribution(
+  transactionId: string
+): Promise<void> {
+  await client.delete<
+    {
+      204: undefined
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/transactions/{transactionId}/attribution',
+    path: {
+      transactionId
+    },
+    throwOnError: true
+  })
+}
@@ -0,0 +1,104 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+  EMPTY_SHARED_EXPENSE_SETTINGS,
+  type SharedExpenseSettings,
+  type TransactionAttribution
+} from './attribution'
+import {
+  deleteTransactionAttribution,
+  getHouseholdSharedExpenses,
+  type SharedExpenses,
+  saveTransactionAttribution,
+  updateSharedExpenseSettings
+} from './shared-expenses-api'
+
+const SHARED_EXPENSES_QUERY_KEY = 'shared-expenses'
+
+export const sharedExpenseQueryKeys = {
+  all: [
+    SHARED_EXPENSES_QUERY_KEY
+  ] as const,
+  household: (householdId: string) =>
+    [
+      SHARED_EXPENSES_QUERY_KEY,
+      'household',
+      householdId
+    ] as const
+}
+
+const EMPTY_SHARED_EXPENSES: SharedExpenses = {
+  settings: EMPTY_SHARED_EXPENSE_SETTINGS,
+  attributions: {}
+}
+
+export type UseSharedExpensesResult = SharedExpenses & {
+  isLoading: boolean
+  saveSettings: (settings: SharedExpenseSettings) => void
+  /** Stores the expense's payer and shares; `null` goes back to defaults. */
+  saveAttribution: (
+    transactionId: string,
+    attribution: TransactionAttribution | null
+  ) => Promise<void>
+}
+
+/**
+ * Household sharing settings and per-transaction payer and shares, for the
+ * settle-up page and the transaction drawer. They live on the server so every
+ * member settles up from the same numbers.
+ */
+export function useSharedExpenses(
+  householdId: string
+): UseSharedExpensesResult {
+  const queryClient = useQueryClient()
+  const queryKey = sharedExpenseQueryKeys.household(householdId)
+  const { data = EMPTY_SHARED_EXPENSES, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => getHouseholdSharedExpenses(householdId),
+    enabled: !!householdId
+  })
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({
+      queryKey: sharedExpenseQueryKeys.all
+    })
+  // Settings are edited in inputs, so the cache is updated before the request
+  // to keep them responsive.
+  const { mutate: saveSettings } = useMutation({
+    mutationFn: (settings: SharedExpenseSettings) =>
+      updateSharedExpenseSettings(householdId, settings),
+    onMutate: (settings) => {
+      queryClient.setQueryData<SharedExpenses>(queryKey, (current) => ({
+        ...(current ?? EMPTY_SHARED_EXPENSES),
+        settings
+      }))
+    },
+    onSettled: invalidate
+  })
+  const { mutateAsync: saveAttribution } = useMutation({
+    mutationFn: async (variables: {
+      transactionId: string
+      attribution: TransactionAttribution | null
+    }) => {
+      if (variables.attribution) {
+        await saveTransactionAttribution(
+          variables.transactionId,
+          variables.attribution
+        )
+      } else {
+        await deleteTransactionAttribution(variables.transactionId)
+      }
+    },
+    onSuccess: invalidate
+  })
+
+  return {
+    ...data,
+    isLoading,
+    saveSettings,
+    saveAttribution: (transactionId, attribution) =>
+      saveAttribution({
+        transactionId,
+        attribution
+      })
+  }
+}
@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest'
+import {
+  CategoryType,
+  TransactionStatus,
+  TransactionType
+} from '@/api/generated/types.gen'
+import {
+  type BulkEditableTransaction,
+  bulkDeleteBudgetImpact,
+  bulkUpdateBudgetImpact,
+  EMPTY_TRANSACTION_BULK_EDIT_VALUES,
+  planTransactionBulkUpdate,
+  type TransactionBulkEditValues
+} from './bulk-update'
+
+function transaction(
+  overrides: Partial<BulkEditableTransaction>
+): BulkEditableTransaction {
+  return {
+    id: 'tx',
+    name: 'ICA',
+    amount: 200,
+    date: new Date('2026-03-10T00:00:00.000Z'),
+    type: TransactionType.EXPENSE,
+    status: TransactionStatus.EFFECTIVE,
+    account: {
+      id: 'checking',
+      name: 'Lönekonto'
+    },
+    budget: {
+      id: 'food',
+      name: 'Mat'
+    },
+    recipient: {
+      id: 'ica',
+      name: 'ICA'
+    },
+    ...overrides
+  }
+}
+
+function plan(
+  transactions: BulkEditableTransaction[],
+  values: Partial<TransactionBulkEditValues>
+) {
+  return planTransactionBulkUpdate({
+    transactions,
+    values: {
+      ...EMPTY_TRANSACTION_BULK_EDIT_VALUES,
+      ...values
+    },
+    categories: [
+      {
+        id: 'groceries',
+        types: [
+          CategoryType.EXPENSE
+        ]
+      }
+    ],
+    billInstances: [],
+    incomeInstances: []
+  })
+}
+
+describe('planTransactionBulkUpdate', () => {
+  it('applies each value only where it fits the transaction', () => {
+    const { updates, unchanged } = plan(
+      [
+        transaction({
+          id: 'expense'
+        }),
+        transaction({
+          id: 'income',
+          type: TransactionType.INCOME,
+          budget: null,
+          recipient: null
+        }),
+        transaction({
+          id: 'split',
+          budget: null,
+          splits: [
+            {
+              id: 'line',
+              transactionId: 'split',
+              categoryId: 'groceries',
+              budgetId: 'food',
+              amount: 200,
+              subtitle: 'Mat'
+            }
+          ]
+        })
+      ],
+      {
+        budgetId: 'household',
+        categoryId: 'groceries'
+      }
+    )
+
+    expect(updates).toEqual([
+      {
+        transaction: expect.objectContaining({
+          id: 'expense'
+        }),
+        body: {
+          budgetId: 'household',
+          categoryId: 'groceries'
+        }
+      }
+    ])
+    expect(unchanged.map((item) => item.id)).toEqual([
+      'income',
+      'split'
+    ])
+  })
+
+  it('shifts dates and skips moving a transfer onto its own destination', () => {
+    const { updates } = plan(
+      [
+        transaction({
+          id: 'transfer',
+          type: TransactionType.TRANSFER,
+          budget: null,
+          recipient: null,
+          transferToAccount: {
+            id: 'savings',
+            name: 'Spar'
+          }
+        })
+      ],
+      {
+        accountId: 'savings',
+        shiftDays: -2
+      }
+    )
+
+    expect(updates[0]?.body).toEqual({
+      date: '2026-03-08T00:00:00.000Z'
+    })
+  })
+})
+
+describe('budget impact', () => {
+  it('moves spending between budgets', () => {
+    const { updates } = plan(
+      [
+        transaction({}),
+        transaction({
+          id: 'pending',
+          status: TransactionStatus.PENDING,
+          date: new Date('2999-01-01T00:00:00.000Z')
+        })
+      ],
+      {
+        budgetId: 'household'
+      }
+    )
+
+    expect(bulkUpdateBudgetImpact(updates)).toEqual([
+      {
+        budgetId: 'food',
+        change: -200
+      },
+      {
+        budgetId: 'household',
+        change: 200
+      }
+    ])
+  })
+
+  it('returns the spending of deleted expenses', () => {
+    expect(
+      bulkDeleteBudgetImpact([
+        transaction({}),
+        transaction({
+          id: 'transfer',
+          type: TransactionType.TRANSFER
+        })
+      ])
+    ).toEqual([
+      {
+        budgetId: 'food',
+        change: -200
+      }
+    ])
+  })
+})
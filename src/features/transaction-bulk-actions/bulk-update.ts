@@ -0,0 +1,287 @@
+import { addDays, format } from 'date-fns'
+import {
+  type Category,
+  type CategoryType,
+  type Transaction,
+  TransactionStatus,
+  TransactionType,
+  type UpdateTransactionRequest
+} from '@/api/generated/types.gen'
+import { isEffectiveTransactionDate } from '@/drawers/drawers/create-transaction-drawer/budget-allocation-shortfall'
+import {
+  findMatchingBillInstanceId,
+  findMatchingIncomeInstanceId,
+  type MatchableBillInstance,
+  type MatchableIncomeInstance
+} from '@/features/import-statements/classification/instance-matching'
+
+export type BulkEditableTransaction = Omit<
+  Pick<
+    Transaction,
+    | 'id'
+    | 'name'
+    | 'amount'
+    | 'date'
+    | 'type'
+    | 'status'
+    | 'account'
+    | 'transferToAccount'
+    | 'budget'
+    | 'category'
+    | 'recipient'
+    | 'incomeSource'
+    | 'billInstance'
+    | 'incomeInstance'
+    | 'splits'
+  >,
+  'date'
+> & {
+  date: Date
+}
+
+/** Empty strings, `0`, and `false` leave the field unchanged. */
+export type TransactionBulkEditValues = {
+  budgetId: string
+  categoryId: string
+  recipientId: string
+  accountId: string
+  /** Days to move each date, negative for earlier. */
+  shiftDays: number
+  /** Link unlinked incomes and expenses to their best open instance. */
+  linkInstances: boolean
+}
+
+export const EMPTY_TRANSACTION_BULK_EDIT_VALUES: TransactionBulkEditValues = {
+  budgetId: '',
+  categoryId: '',
+  recipientId: '',
+  accountId: '',
+  shiftDays: 0,
+  linkInstances: false
+}
+
+export type TransactionBulkUpdate = {
+  transaction: BulkEditableTransaction
+  /** Only the fields that change; send as a PATCH. */
+  body: UpdateTransactionRequest
+}
+
+export type TransactionBulkPlan = {
+  updates: TransactionBulkUpdate[]
+  /** Selected rows none of the values apply to. */
+  unchanged: BulkEditableTransaction[]
+}
+
+export type BudgetImpact = {
+  budgetId: string
+  /** Change in the budget's spending; negative frees money. */
+  change: number
+}
+
+function hasSplits(transaction: BulkEditableTransaction): boolean {
+  return (transaction.splits?.length ?? 0) > 0
+}
+
+/**
+ * PATCH bodies for every selected transaction a value applies to. Budgets
+ * apply to expenses, categories to expenses and incomes whose type the
+ * category allows, recipients to expenses; split transactions keep their
+ * lines. A transfer cannot move to its own destination account. Instances are
+ * matched like statement rows, never linking one instance twice.
+ */
+export function planTransactionBulkUpdate(params: {
+  transactions: BulkEditableTransaction[]
+  values: TransactionBulkEditValues
+  categories: Array<Pick<Category, 'id' | 'types'>>
+  billInstances: MatchableBillInstance[]
+  incomeInstances: MatchableIncomeInstance[]
+}): TransactionBulkPlan {
+  const { transactions, values, categories, billInstances, incomeInstances } =
+    params
+  const category = categories.find((item) => item.id === values.categoryId)
+  const linkedInstanceIds = new Set<string>()
+  const updates: TransactionBulkUpdate[] = []
+  const unchanged: BulkEditableTransaction[] = []
+
+  for (const transaction of transactions) {
+    const body: UpdateTransactionRequest = {}
+    const isExpense = transaction.type === TransactionType.EXPENSE
+    const isIncome = transaction.type === TransactionType.INCOME
+
+    if (
+      values.budgetId &&
+      isExpense &&
+      !hasSplits(transaction) &&
+      transaction.budget?.id !== values.budgetId
+    ) {
+      body.budgetId = values.budgetId
+    }
+    if (
+      category &&
+      (isExpense || isIncome) &&
+      !hasSplits(transaction) &&
+      category.types.includes(transaction.type as CategoryType) &&
+      transaction.category?.id !== category.id
+    ) {
+      body.categoryId = category.id
+    }
+    if (
+      values.recipientId &&
+      isExpense &&
+      transaction.recipient?.id !== values.recipientId
+    ) {
+      body.recipientId = values.recipientId
+    }
+    if (
+      values.accountId &&
+      transaction.account.id !== values.accountId &&
+      transaction.transferToAccount?.id !== values.accountId
+    ) {
+      body.accountId = values.accountId
+    }
+    const date =
+      values.shiftDays !== 0
+        ? addDays(transaction.date, values.shiftDays)
+        : transaction.date
+    if (values.shiftDays !== 0) body.date = date.toISOString()
+
+    if (values.linkInstances && (isExpense || isIncome)) {
+      const match = {
+        date: format(date, 'yyyy-MM-dd'),
+        amount: transaction.amount,
+        originalDescription: transaction.name,
+        recipientId: body.recipientId ?? transaction.recipient?.id,
+        incomeSourceId: transaction.incomeSource?.id
+      }
+      const instanceId = isExpense
+        ? !transaction.billInstance?.id &&
+          findMatchingBillInstanceId(match, billInstances, linkedInstanceIds)
+        : !transaction.incomeInstance?.id &&
+          findMatchingIncomeInstanceId(
+            match,
+            incomeInstances,
+            linkedInstanceIds
+          )
+      if (instanceId) {
+        linkedInstanceIds.add(instanceId)
+        body.instanceId = instanceId
+      }
+    }
+
+    if (Object.keys(body).length > 0) {
+      updates.push({
+        transaction,
+        body
+      })
+    } else {
+      unchanged.push(transaction)
+    }
+  }
+
+  return {
+    updates,
+    unchanged
+  }
+}
+
+/** Budget spending of a transaction: effective expenses only. */
+function budgetLines(
+  transaction: BulkEditableTransaction,
+  overrides: {
+    budgetId?: string | null
+    effective: boolean
+  }
+): BudgetImpact[] {
+  if (transaction.type !== TransactionType.EXPENSE || !overrides.effective)
+    return []
+  if (hasSplits(transaction)) {
+    return (transaction.splits ?? [])
+      .filter((split) => split.budgetId)
+      .map((split) => ({
+        budgetId: split.budgetId as string,
+        change: split.amount
+      }))
+  }
+  const budgetId =
+    overrides.budgetId === undefined
+      ? transaction.budget?.id
+      : overrides.budgetId
+  if (!budgetId) return []
+  return [
+    {
+      budgetId,
+      change: transaction.amount
+    }
+  ]
+}
+
+function sumImpact(
+  lines: Array<{
+    line: BudgetImpact
+    sign: 1 | -1
+  }>
+): BudgetImpact[] {
+  const changeByBudget = new Map<string, number>()
+  for (const { line, sign } of lines) {
+    changeByBudget.set(
+      line.budgetId,
+      (changeByBudget.get(line.budgetId) ?? 0) + sign * line.change
+    )
+  }
+  return [
+    ...changeByBudget
+  ]
+    .filter(([, change]) => Math.abs(change) >= 0.005)
+    .map(([budgetId, change]) => ({
+      budgetId,
+      change
+    }))
+}
+
+function isEffective(transaction: BulkEditableTransaction): boolean {
+  return transaction.status === TransactionStatus.EFFECTIVE
+}
+
+/**
+ * How each budget's spending changes when the updates are saved. Moving a
+ * date across today turns spending on or off, like the server does.
+ */
+export function bulkUpdateBudgetImpact(
+  updates: TransactionBulkUpdate[]
+): BudgetImpact[] {
+  return sumImpact(
+    updates.flatMap(({ transaction, body }) => [
+      ...budgetLines(transaction, {
+        effective: isEffective(transaction)
+      }).map((line) => ({
+        line,
+        sign: -1 as const
+      })),
+      ...budgetLines(transaction, {
+        budgetId: body.budgetId,
+        effective: body.date
+          ? isEffectiveTransactionDate(new Date(body.date))
+          : isEffective(transaction)
+      }).map((line) => ({
+        line,
+        sign: 1 as const
+      }))
+    ])
+  )
+}
+
+/** Spending returned to each budget when the transactions are deleted. */
+export function bulkDeleteBudgetImpact(
+  transactions: BulkEditableTransaction[]
+): BudgetImpact[] {
+  return sumImpact(
+    transactions.flatMap((transaction) =>
+      budgetLines(transaction, {
+        effective: isEffective(transaction)
+      }).map((line) => ({
+        line,
+        sign: -1 as const
+      }))
+    )
+  )
+}
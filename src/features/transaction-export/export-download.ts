@@ -0,0 +1,78 @@
+import * as XLSX from 'xlsx'
+import {
+  type TransactionExportFormat,
+  type TransactionReportSummary,
+  toTransactionCsv,
+  toTransactionReportHtml,
+  toTransactionWorkbook
+} from './export-formats'
+import type { TransactionExportTable } from './export-table'
+
+function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.append(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Prints the report from a hidden frame so the browser's dialog can save it
+ * as PDF without leaving the page.
+ */
+function printHtml(html: string): void {
+  const frame = document.createElement('iframe')
+  frame.setAttribute('aria-hidden', 'true')
+  frame.style.position = 'fixed'
+  frame.style.width = '0'
+  frame.style.height = '0'
+  frame.style.border = '0'
+  frame.onload = () => {
+    frame.contentWindow?.addEventListener('afterprint', () => frame.remove())
+    frame.contentWindow?.print()
+  }
+  frame.srcdoc = html
+  document.body.append(frame)
+}
+
+/**
+ * Writes the export in the chosen format: a CSV or XLSX download named
+ * `baseName`, or the print dialog for a PDF report.
+ */
+export function exportTransactions(
+  exportFormat: TransactionExportFormat,
+  table: TransactionExportTable,
+  options: {
+    baseName: string
+    summary: TransactionReportSummary
+  }
+): void {
+  switch (exportFormat) {
+    case 'csv':
+      // The byte order mark makes Excel read the file as UTF-8 (å, ä, ö).
+      downloadBlob(
+        new Blob(
+          [
+            `\uFEFF${toTransactionCsv(table)}`
+          ],
+          {
+            type: 'text/csv;charset=utf-8'
+          }
+        ),
+        `${options.baseName}.csv`
+      )
+      return
+    case 'xlsx':
+      XLSX.writeFile(
+        toTransactionWorkbook(table, options.summary.title),
+        `${options.baseName}.xlsx`
+      )
+      return
+    case 'pdf':
+      printHtml(toTransactionReportHtml(table, options.summary))
+      return
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { formatExportAmount, toTransactionCsv } from './export-formats'
+
+describe('toTransactionCsv', () => {
+  it('writes Swedish dates and decimals, quoting fields that need it', () => {
+    expect(
+      toTransactionCsv({
+        columns: [
+          {
+            id: 'date',
+            header: 'Datum'
+          },
+          {
+            id: 'name',
+            header: 'Namn'
+          },
+          {
+            id: 'amount',
+            header: 'Belopp'
+          }
+        ],
+        rows: [
+          [
+            new Date(2026, 2, 10),
+            'Hyra; mars "A"',
+            12500.5
+          ]
+        ]
+      })
+    ).toBe('Datum;Namn;Belopp\r\n2026-03-10;"Hyra; mars ""A""";12500,50')
+  })
+
+  it('keeps text cells that look like formulas as text', () => {
+    expect(
+      toTransactionCsv({
+        columns: [
+          {
+            id: 'name',
+            header: 'Namn'
+          },
+          {
+            id: 'recipientSender',
+            header: 'Mottagare'
+          },
+          {
+            id: 'amount',
+            header: 'Belopp'
+          }
+        ],
+        rows: [
+          [
+            '=HYPERLINK("x")',
+            '-50 tillbaka',
+            -50
+          ],
+          [
+            '@kiosk',
+            '+46 70',
+            0
+          ]
+        ]
+      })
+    ).toBe(
+      'Namn;Mottagare;Belopp\r\n"\'=HYPERLINK(""x"")";\'-50 tillbaka;-50,00\r\n\'@kiosk;\'+46 70;0,00'
+    )
+  })
+
+  it('uses an ASCII minus sign for negative amounts', () => {
+    expect(formatExportAmount(-1234)).toBe('-1234,00')
+  })
+})
@@ -0,0 +1,166 @@
+import { format } from 'date-fns'
+import * as XLSX from 'xlsx'
+import { formatCurrency } from '@/lib/utils'
+import type { ExportCell, TransactionExportTable } from './export-table'
+
+export type TransactionExportFormat = 'csv' | 'xlsx' | 'pdf'
+
+const CSV_SEPARATOR = ';'
+const DATE_FORMAT = 'yyyy-MM-dd'
+
+const decimalFormat = new Intl.NumberFormat('sv-SE', {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+  useGrouping: false
+})
+
+/**
+ * Swedish decimal comma without grouping, so spreadsheets read it back as a
+ * number. Intl writes a Unicode minus sign, which they do not.
+ */
+export function formatExportAmount(amount: number): string {
+  return decimalFormat.format(amount).replace('−', '-')
+}
+
+/** Leading characters spreadsheets read as the start of a formula. */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function csvText(cell: ExportCell): string {
+  if (cell instanceof Date) return format(cell, DATE_FORMAT)
+  if (typeof cell === 'number') return formatExportAmount(cell)
+  // A leading apostrophe keeps names and notes like "=SUM(...)" or "-50 kr
+  // back" as text; amounts are numbers and may start with a minus sign.
+  return FORMULA_PREFIX.test(cell) ? `'${cell}` : cell
+}
+
+function csvField(cell: ExportCell): string {
+  const text = csvText(cell)
+  return /[";\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text
+}
+
+/**
+ * Semicolon-separated CSV, the layout Swedish Excel opens without an import
+ * wizard. The byte order mark is added when the file is downloaded.
+ */
+export function toTransactionCsv(table: TransactionExportTable): string {
+  return [
+    table.columns.map((column) => csvField(column.header)),
+    ...table.rows.map((row) => row.map(csvField))
+  ]
+    .map((fields) => fields.join(CSV_SEPARATOR))
+    .join('\r\n')
+}
+
+/** Workbook with real dates and numbers formatted for a Swedish locale. */
+export function toTransactionWorkbook(
+  table: TransactionExportTable,
+  sheetName: string
+): XLSX.WorkBook {
+  const sheet = XLSX.utils.aoa_to_sheet(
+    [
+      table.columns.map((column) => column.header),
+      ...table.rows
+    ],
+    {
+      cellDates: true,
+      dateNF: 'yyyy-mm-dd'
+    }
+  )
+  const amountColumn = table.columns.findIndex(
+    (column) => column.id === 'amount'
+  )
+  if (amountColumn >= 0) {
+    for (let row = 1; row <= table.rows.length; row += 1) {
+      const cell =
+        sheet[
+          XLSX.utils.encode_cell({
+            r: row,
+            c: amountColumn
+          })
+        ]
+      if (cell) cell.z = '#,##0.00'
+    }
+  }
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, sheet, sheetName.slice(0, 31))
+  return workbook
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+}
+
+function htmlCell(cell: ExportCell): string {
+  if (cell instanceof Date) return format(cell, DATE_FORMAT)
+  if (typeof cell === 'number') return escapeHtml(formatCurrency(cell))
+  return escapeHtml(cell)
+}
+
+export type TransactionReportSummary = {
+  title: string
+  subtitle: string
+  totals: Array<{
+    label: string
+    amount: number
+  }>
+}
+
+/** Standalone HTML document for printing or saving as PDF. */
+export function toTransactionReportHtml(
+  table: TransactionExportTable,
+  summary: TransactionReportSummary
+): string {
+  const numeric = table.columns.map((column) => column.id === 'amount')
+  const align = (index: number) => (numeric[index] ? ' class="amount"' : '')
+  return `<!doctype html>
+<html lang="sv">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(summary.title)}</title>
+<style>
+  @page { size: A4 landscape; margin: 12mm; }
+  body { font: 10pt system-ui, sans-serif; color: #111; }
+  h1 { font-size: 14pt; margin: 0 0 2mm; }
+  p { margin: 0 0 4mm; color: #444; }
+  dl { display: flex; gap: 8mm; margin: 0 0 4mm; }
+  dt { color: #444; }
+  dd { margin: 0; font-weight: 600; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 1.5mm 2mm; border-bottom: 0.2mm solid #ccc; }
+  th { border-bottom-width: 0.4mm; }
+  .amount { text-align: right; white-space: nowrap; }
+  thead { display: table-header-group; }
+  tr { break-inside: avoid; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(summary.title)}</h1>
+<p>${escapeHtml(summary.subtitle)}</p>
+<dl>${summary.totals
+    .map(
+      (total) =>
+        `<div><dt>${escapeHtml(total.label)}</dt><dd>${escapeHtml(formatCurrency(total.amount))}</dd></div>`
+    )
+    .join('')}</dl>
+<table>
+<thead><tr>${table.columns
+    .map(
+      (column, index) => `<th${align(index)}>${escapeHtml(column.header)}</th>`
+    )
+    .join('')}</tr></thead>
+<tbody>
+${table.rows
+  .map(
+    (row) =>
+      `<tr>${row.map((cell, index) => `<td${align(index)}>${htmlCell(cell)}</td>`).join('')}</tr>`
+  )
+  .join('\n')}
+</tbody>
+</table>
+</body>
+</html>`
+}
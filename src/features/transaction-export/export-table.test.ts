@@ -0,0 +1,170 @@
+import type { TFunction } from 'i18next'
+import { describe, expect, it } from 'vitest'
+import { TransactionType } from '@/api/generated/types.gen'
+import {
+  buildTransactionExportTable,
+  type ExportableTransaction
+} from './export-table'
+
+const t = ((key: string) => key) as unknown as TFunction
+
+const lookups = {
+  budgets: new Map([
+    [
+      'fun',
+      'Nöje'
+    ]
+  ]),
+  categories: new Map([
+    [
+      'games',
+      'Spel'
+    ]
+  ])
+}
+
+function transaction(
+  overrides: Partial<ExportableTransaction>
+): ExportableTransaction {
+  return {
+    id: 'tx',
+    name: 'ICA',
+    amount: 300,
+    date: new Date(2026, 2, 10),
+    type: TransactionType.EXPENSE,
+    account: {
+      id: 'card',
+      name: 'Kort'
+    },
+    budget: {
+      id: 'food',
+      name: 'Mat'
+    },
+    category: {
+      id: 'groceries',
+      name: 'Livsmedel'
+    },
+    recipient: {
+      id: 'ica',
+      name: 'ICA Maxi'
+    },
+    ...overrides
+  }
+}
+
+describe('buildTransactionExportTable', () => {
+  it('keeps the visible value columns in table order', () => {
+    const table = buildTransactionExportTable({
+      transactions: [
+        transaction({})
+      ],
+      columnIds: [
+        'select',
+        'date',
+        'amount',
+        'recipientSender',
+        'actions'
+      ],
+      lookups,
+      t
+    })
+
+    expect(table.columns).toEqual([
+      {
+        id: 'date',
+        header: 'common.date'
+      },
+      {
+        id: 'amount',
+        header: 'common.amount'
+      },
+      {
+        id: 'recipientSender',
+        header: 'common.recipientSender'
+      }
+    ])
+    expect(table.rows).toEqual([
+      [
+        new Date(2026, 2, 10),
+        300,
+        'ICA Maxi'
+      ]
+    ])
+  })
+
+  it('expands split lines with their own budget and category', () => {
+    const table = buildTransactionExportTable({
+      transactions: [
+        transaction({
+          budget: null,
+          category: null,
+          splits: [
+            {
+              id: 'a',
+              transactionId: 'tx',
+              categoryId: 'groceries',
+              budgetId: 'food',
+              amount: 200,
+              subtitle: 'Mat',
+              budget: {
+                id: 'food',
+                name: 'Mat'
+              }
+            },
+            {
+              id: 'b',
+              transactionId: 'tx',
+              categoryId: 'games',
+              budgetId: 'fun',
+              amount: 100,
+              subtitle: ''
+            }
+          ]
+        }),
+        transaction({
+          id: 'transfer',
+          name: 'Sparande',
+          type: TransactionType.TRANSFER,
+          budget: null,
+          transferToAccount: {
+            id: 'savings',
+            name: 'Spar'
+          }
+        })
+      ],
+      columnIds: [
+        'name',
+        'amount',
+        'account',
+        'budget',
+        'category'
+      ],
+      lookups,
+      t
+    })
+
+    expect(table.rows).toEqual([
+      [
+        'ICA – Mat',
+        200,
+        'Kort',
+        'Mat',
+        'common.uncategorized'
+      ],
+      [
+        'ICA',
+        100,
+        'Kort',
+        'Nöje',
+        'Spel'
+      ],
+      [
+        'Sparande',
+        300,
+        'Kort → Spar',
+        '',
+        ''
+      ]
+    ])
+  })
+})
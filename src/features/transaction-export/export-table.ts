@@ -0,0 +1,209 @@
+import type { TFunction } from 'i18next'
+import { type Transaction, TransactionType } from '@/api/generated/types.gen'
+
+export type ExportableTransaction = Omit<
+  Pick<
+    Transaction,
+    | 'id'
+    | 'name'
+    | 'amount'
+    | 'date'
+    | 'type'
+    | 'account'
+    | 'transferToAccount'
+    | 'budget'
+    | 'category'
+    | 'recipient'
+    | 'incomeSource'
+    | 'splits'
+  >,
+  'date'
+> & {
+  date: Date
+}
+
+/** Table columns with a value to export, in table order. */
+export const TRANSACTION_EXPORT_COLUMN_IDS = [
+  'date',
+  'name',
+  'type',
+  'amount',
+  'account',
+  'budget',
+  'category',
+  'recipientSender'
+] as const
+
+export type TransactionExportColumnId =
+  (typeof TRANSACTION_EXPORT_COLUMN_IDS)[number]
+
+/** Dates and amounts stay typed so each format can render them its own way. */
+export type ExportCell = string | number | Date
+
+export type TransactionExportTable = {
+  columns: Array<{
+    id: TransactionExportColumnId
+    header: string
+  }>
+  rows: ExportCell[][]
+}
+
+/** One exported row: a whole transaction, or one line of a split. */
+type ExportLine = {
+  transaction: ExportableTransaction
+  name: string
+  amount: number
+  budget: string
+  category: string
+}
+
+function isExportColumnId(id: string): id is TransactionExportColumnId {
+  return (TRANSACTION_EXPORT_COLUMN_IDS as readonly string[]).includes(id)
+}
+
+function columnHeader(id: TransactionExportColumnId, t: TFunction): string {
+  switch (id) {
+    case 'date':
+      return t('common.date')
+    case 'name':
+      return t('forms.transactionName')
+    case 'type':
+      return t('forms.transactionType')
+    case 'amount':
+      return t('common.amount')
+    case 'account':
+      return t('common.account')
+    case 'budget':
+      return t('common.budget')
+    case 'category':
+      return t('common.category')
+    case 'recipientSender':
+      return t('common.recipientSender')
+  }
+}
+
+function typeLabel(type: TransactionType, t: TFunction): string {
+  switch (type) {
+    case TransactionType.INCOME:
+      return t('transactions.income')
+    case TransactionType.EXPENSE:
+      return t('transactions.expense')
+    case TransactionType.TRANSFER:
+      return t('common.transfer')
+    default:
+      return type
+  }
+}
+
+/** Names for ids that split lines reference without an embedded relation. */
+export type ExportLabelLookup = {
+  budgets: Map<string, string>
+  categories: Map<string, string>
+}
+
+/** Split lines become rows of their own with the line's budget and category. */
+function exportLines(
+  transaction: ExportableTransaction,
+  t: TFunction,
+  lookups: ExportLabelLookup
+): ExportLine[] {
+  if (transaction.type === TransactionType.TRANSFER) {
+    return [
+      {
+        transaction,
+        name: transaction.name,
+        amount: transaction.amount,
+        budget: '',
+        category: ''
+      }
+    ]
+  }
+  const uncategorized = t('common.uncategorized')
+  const splits = transaction.splits ?? []
+  if (splits.length === 0) {
+    return [
+      {
+        transaction,
+        name: transaction.name,
+        amount: transaction.amount,
+        budget: transaction.budget?.name ?? '',
+        category: transaction.category?.name ?? uncategorized
+      }
+    ]
+  }
+  return splits.map((split) => ({
+    transaction,
+    name: split.subtitle
+      ? `${transaction.name} – ${split.subtitle}`
+      : transaction.name,
+    amount: split.amount,
+    budget:
+      split.budget?.name ??
+      (split.budgetId ? lookups.budgets.get(split.budgetId) : undefined) ??
+      '',
+    category:
+      split.category?.name ??
+      lookups.categories.get(split.categoryId) ??
+      uncategorized
+  }))
+}
+
+function cellValue(
+  id: TransactionExportColumnId,
+  line: ExportLine,
+  t: TFunction
+): ExportCell {
+  const { transaction } = line
+  switch (id) {
+    case 'date':
+      return transaction.date
+    case 'name':
+      return line.name
+    case 'type':
+      return typeLabel(transaction.type, t)
+    case 'amount':
+      return line.amount
+    case 'account':
+      return transaction.type === TransactionType.TRANSFER
+        ? `${transaction.account?.name ?? ''} → ${transaction.transferToAccount?.name ?? ''}`
+        : (transaction.account?.name ?? '')
+    case 'budget':
+      return line.budget
+    case 'category':
+      return line.category
+    case 'recipientSender':
+      if (transaction.type === TransactionType.INCOME) {
+        return transaction.incomeSource?.name ?? ''
+      }
+      if (transaction.type === TransactionType.EXPENSE) {
+        return transaction.recipient?.name ?? ''
+      }
+      return ''
+  }
+}
+
+/**
+ * Rows for an export of the transactions table. `columnIds` are the table's
+ * visible column ids in order; columns without a value (selection, row
+ * actions) are left out.
+ */
+export function buildTransactionExportTable(params: {
+  transactions: ExportableTransaction[]
+  columnIds: string[]
+  lookups: ExportLabelLookup
+  t: TFunction
+}): TransactionExportTable {
+  const { transactions, lookups, t } = params
+  const columnIds = params.columnIds.filter(isExportColumnId)
+  return {
+    columns: columnIds.map((id) => ({
+      id,
+      header: columnHeader(id, t)
+    })),
+    rows: transactions.flatMap((transaction) =>
+      exportLines(transaction, t, lookups).map((line) =>
+        columnIds.map((id) => cellValue(id, line, t))
+      )
+    )
+  }
+}
@@ -0,0 +1,128 @@
+import type { Table } from '@tanstack/react-table'
+import { type RefObject, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { TransactionType } from '@/api/generated/types.gen'
+import { getErrorMessage } from '@/lib/api-error'
+import { exportTransactions } from './export-download'
+import type { TransactionExportFormat } from './export-formats'
+import {
+  buildTransactionExportTable,
+  type ExportableTransaction,
+  type ExportLabelLookup
+} from './export-table'
+
+/** The loaded pages of a server-side query and how to fetch the next one. */
+type ServerPages<TRow> = {
+  items: TRow[]
+  hasNextPage: boolean
+  fetchNextPage: (options: { throwOnError: true }) => Promise<{
+    data?: {
+      items: TRow[]
+    }
+    hasNextPage: boolean
+  }>
+}
+
+type UseTransactionExportParams<TRow extends ExportableTransaction> = {
+  table: Table<TRow>
+  /** Set in server mode, where the table only holds the pages scrolled to. */
+  serverPages: ServerPages<TRow> | null
+  lookups: RefObject<ExportLabelLookup>
+  /** Period shown in the file name and report, `yyyy-MM-dd`. */
+  from: string
+  to: string
+  /** Search and column filters listed under the report title. */
+  filterLabels: string[]
+}
+
+/**
+ * Exports the rows the transactions table covers with its visible columns:
+ * the filtered, sorted table, or in server mode every page of the current
+ * query, not just the ones scrolled into view.
+ */
+export function useTransactionExport<TRow extends ExportableTransaction>({
+  table,
+  serverPages,
+  lookups,
+  from,
+  to,
+  filterLabels
+}: UseTransactionExportParams<TRow>): {
+  exportPending: boolean
+  startExport: (exportFormat: TransactionExportFormat) => Promise<void>
+} {
+  const { t } = useTranslation()
+  const [exportPending, setExportPending] = useState(false)
+
+  const loadRows = async (): Promise<TRow[]> => {
+    if (!serverPages) {
+      return table.getPrePaginationRowModel().rows.map((row) => row.original)
+    }
+    let items = serverPages.items
+    let hasMore = serverPages.hasNextPage
+    while (hasMore) {
+      const next = await serverPages.fetchNextPage({
+        throwOnError: true
+      })
+      items = next.data?.items ?? items
+      hasMore = next.hasNextPage
+    }
+    return items
+  }
+
+  const startExport = async (exportFormat: TransactionExportFormat) => {
+    setExportPending(true)
+    try {
+      const rows = await loadRows()
+      const exportTable = buildTransactionExportTable({
+        transactions: rows,
+        columnIds: table.getVisibleLeafColumns().map((column) => column.id),
+        lookups: lookups.current,
+        t
+      })
+      const sumOf = (type: TransactionType) =>
+        rows
+          .filter((row) => row.type === type)
+          .reduce((sum, row) => sum + row.amount, 0)
+      const income = sumOf(TransactionType.INCOME)
+      const expense = sumOf(TransactionType.EXPENSE)
+      exportTransactions(exportFormat, exportTable, {
+        baseName: t('transactions.export.fileName', {
+          from,
+          to
+        }),
+        summary: {
+          title: t('transactions.title'),
+          subtitle: [
+            `${from} – ${to}`,
+            ...filterLabels
+          ].join(' · '),
+          totals: [
+            {
+              label: t('dashboard.totalIncomes'),
+              amount: income
+            },
+            {
+              label: t('dashboard.totalExpenses'),
+              amount: expense
+            },
+            {
+              label: t('dashboard.net'),
+              amount: income - expense
+            }
+          ]
+        }
+      })
+    } catch (error) {
+      toast.error(getErrorMessage(error))
+    } finally {
+      setExportPending(false)
+    }
+  }
+
+  return {
+    exportPending,
+    startExport
+  }
+}
@@ -0,0 +1,65 @@
+import { client } from '@/api/generated/client.gen'
+import type { TransactionRefund } from './refunds'
+
+/*
+ * Refund endpoints are not in the OpenAPI spec yet, so they are called
+ * through the generated client by hand to share its base URL and auth. The
+ * MSW handlers in `src/__mocks__/handlers/transaction-refunds.ts` mirror
+ * them. Deleting a refund's credit drops its link on the server, and an
+ * expense with linked refunds cannot be deleted.
+ */
+
+const SECURITY = [
+  {
+    scheme: 'bearer',
+    type: 'http'
+  } as const
+]
+
+/** Every refund linked to one of the household's expenses. */
+export async function listHouseholdTransactionRefunds(
+  householdId: string
+): Promise<TransactionRefund[]> {
+  const { data } = await client.get<
+    {
+      200: {
+        data: TransactionRefund[]
+      }
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/households/{householdId}/transaction-refunds',
+    path: {
+      householdId
+    },
+    throwOnError: true
+  })
+  return data.data
+}
+
+/** Links the credit to its expense, replacing the credit's earlier link. */
+export async function saveTransactionRefund(
+  refund: TransactionRefund
+): Promise<TransactionRefund> {
+  const { data } = await client.put<
+    {
+      200: TransactionRefund
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/transactions/{transactionId}/refund',
+    path: {
+      transactionId: refund.refundId
+    },
+    body: refund,
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    throwOnError: true
+  })
+  return data
+}
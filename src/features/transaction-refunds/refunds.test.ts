@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest'
+import { TransactionType } from '@/api/generated/types.gen'
+import {
+  buildRefundTransactionBody,
+  distributeRefund,
+  type RefundableTransaction,
+  refundBudgetAllocations,
+  remainingRefundLines,
+  type TransactionRefund
+} from './refunds'
+
+const splitExpense: RefundableTransaction = {
+  id: 'tx',
+  name: 'ICA',
+  amount: 300,
+  type: TransactionType.EXPENSE,
+  account: {
+    id: 'card',
+    name: 'Kort'
+  },
+  budget: null,
+  category: null,
+  splits: [
+    {
+      categoryId: 'groceries',
+      budgetId: 'food',
+      amount: 200,
+      subtitle: 'Mat'
+    },
+    {
+      categoryId: 'toys',
+      budgetId: 'fun',
+      amount: 100,
+      subtitle: 'Leksaker'
+    }
+  ]
+}
+
+function refundOf(amounts: number[]): TransactionRefund {
+  return {
+    refundId: 'refund',
+    originalId: 'tx',
+    originalName: 'ICA',
+    amount: amounts.reduce((sum, amount) => sum + amount, 0),
+    date: '2026-03-12T00:00:00.000Z',
+    lines: amounts.map((amount) => ({
+      budgetId: null,
+      categoryId: null,
+      subtitle: '',
+      amount
+    })),
+    allocations: [],
+    createdAt: '2026-03-12T00:00:00.000Z'
+  }
+}
+
+describe('distributeRefund', () => {
+  it('spreads a partial refund in proportion, rounding to whole öre', () => {
+    const lines = remainingRefundLines(splitExpense, [])
+    expect(distributeRefund(lines, 100).map((line) => line.amount)).toEqual([
+      66.67,
+      33.33
+    ])
+    expect(distributeRefund(lines, 500).map((line) => line.amount)).toEqual([
+      200,
+      100
+    ])
+  })
+})
+
+describe('remainingRefundLines', () => {
+  it('subtracts earlier refunds line by line', () => {
+    expect(
+      remainingRefundLines(splitExpense, [
+        refundOf([
+          150,
+          0
+        ])
+      ]).map((line) => line.amount)
+    ).toEqual([
+      50,
+      100
+    ])
+  })
+
+  it('falls back to the total left when the expense lines changed', () => {
+    expect(
+      remainingRefundLines(splitExpense, [
+        refundOf([
+          250
+        ])
+      ]).map((line) => line.amount)
+    ).toEqual([
+      50,
+      0
+    ])
+  })
+})
+
+describe('buildRefundTransactionBody', () => {
+  it('credits the refunded lines as income on the same account', () => {
+    const lines = distributeRefund(remainingRefundLines(splitExpense, []), 30)
+    expect(
+      buildRefundTransactionBody({
+        original: splitExpense,
+        lines,
+        name: 'Retur ICA'
+      })
+    ).toEqual({
+      type: TransactionType.INCOME,
+      accountId: 'card',
+      name: 'Retur ICA',
+      amount: 30,
+      splits: [
+        {
+          categoryId: 'groceries',
+          budgetId: 'food',
+          amount: 20,
+          subtitle: 'Mat'
+        },
+        {
+          categoryId: 'toys',
+          budgetId: 'fun',
+          amount: 10,
+          subtitle: 'Leksaker'
+        }
+      ]
+    })
+    expect(refundBudgetAllocations(lines)).toEqual([
+      {
+        budgetId: 'food',
+        amount: 20
+      },
+      {
+        budgetId: 'fun',
+        amount: 10
+      }
+    ])
+  })
+
+  it('uses top-level budget and category for a single line', () => {
+    const lines = remainingRefundLines(splitExpense, [
+      refundOf([
+        0,
+        100
+      ])
+    ])
+    expect(
+      buildRefundTransactionBody({
+        original: splitExpense,
+        lines,
+        name: 'Retur ICA'
+      })
+    ).toEqual({
+      type: TransactionType.INCOME,
+      accountId: 'card',
+      name: 'Retur ICA',
+      amount: 200,
+      budgetId: 'food',
+      categoryId: 'groceries'
+    })
+  })
+})
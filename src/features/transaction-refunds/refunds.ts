@@ -0,0 +1,253 @@
+import {
+  type CreateTransactionRequest,
+  type Transaction,
+  TransactionType
+} from '@/api/generated/types.gen'
+
+export type RefundableTransaction = Pick<
+  Transaction,
+  'id' | 'name' | 'amount' | 'type' | 'account' | 'budget' | 'category'
+> & {
+  splits?: Array<
+    Pick<
+      NonNullable<Transaction['splits']>[number],
+      'categoryId' | 'budgetId' | 'budget' | 'amount' | 'subtitle'
+    >
+  >
+}
+
+/** One budget and category line of an expense, or the part refunded of it. */
+export type RefundLine = {
+  budgetId: string | null
+  categoryId: string | null
+  subtitle: string
+  amount: number
+}
+
+export type RefundAllocation = {
+  budgetId: string
+  amount: number
+}
+
+/** A credit recorded against an expense. */
+export type TransactionRefund = {
+  /** The INCOME transaction that holds the credit. */
+  refundId: string
+  originalId: string
+  originalName: string
+  amount: number
+  date: string
+  /** Aligned with the expense's lines at the time of the refund. */
+  lines: RefundLine[]
+  /** Allocations that put the credit back into the expense's budgets. */
+  allocations: RefundAllocation[]
+  createdAt: string
+}
+
+export type TransactionRefundIndex = {
+  byOriginal: Map<string, TransactionRefund[]>
+  byRefund: Map<string, TransactionRefund>
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100)
+}
+
+/** Budget and category lines of an expense: each split, or the whole amount. */
+export function expenseRefundLines(
+  transaction: RefundableTransaction
+): RefundLine[] {
+  const splits = transaction.splits ?? []
+  if (splits.length === 0) {
+    return [
+      {
+        budgetId: transaction.budget?.id ?? null,
+        categoryId: transaction.category?.id ?? null,
+        subtitle: '',
+        amount: transaction.amount
+      }
+    ]
+  }
+  return splits.map((split) => ({
+    budgetId: split.budgetId ?? split.budget?.id ?? null,
+    categoryId: split.categoryId || null,
+    subtitle: split.subtitle ?? '',
+    amount: split.amount
+  }))
+}
+
+export function indexTransactionRefunds(
+  refunds: TransactionRefund[]
+): TransactionRefundIndex {
+  const byOriginal = new Map<string, TransactionRefund[]>()
+  const byRefund = new Map<string, TransactionRefund>()
+  for (const refund of refunds) {
+    byOriginal.set(refund.originalId, [
+      ...(byOriginal.get(refund.originalId) ?? []),
+      refund
+    ])
+    byRefund.set(refund.refundId, refund)
+  }
+  return {
+    byOriginal,
+    byRefund
+  }
+}
+
+export function refundedAmount(refunds: TransactionRefund[]): number {
+  return refunds.reduce((sum, refund) => sum + toCents(refund.amount), 0) / 100
+}
+
+export function refundLinesTotal(lines: RefundLine[]): number {
+  return lines.reduce((sum, line) => sum + toCents(line.amount), 0) / 100
+}
+
+/**
+ * Line amounts less what the refunds took off them. Refunds are subtracted
+ * line by line; if the lines have changed since, only the total left is
+ * known and it is kept on the lines in order.
+ */
+export function netRefundedAmounts(
+  amounts: number[],
+  refunds: TransactionRefund[]
+): number[] {
+  const aligned = refunds.every(
+    (refund) => refund.lines.length === amounts.length
+  )
+  if (aligned) {
+    return amounts.map(
+      (amount, index) =>
+        Math.max(
+          0,
+          toCents(amount) -
+            refunds.reduce(
+              (sum, refund) => sum + toCents(refund.lines[index]?.amount ?? 0),
+              0
+            )
+        ) / 100
+    )
+  }
+  let leftCents = Math.max(
+    0,
+    amounts.reduce((sum, amount) => sum + toCents(amount), 0) -
+      toCents(refundedAmount(refunds))
+  )
+  return amounts.map((amount) => {
+    const cents = Math.min(toCents(amount), leftCents)
+    leftCents -= cents
+    return cents / 100
+  })
+}
+
+/** What is left to refund on each line of the expense. */
+export function remainingRefundLines(
+  transaction: RefundableTransaction,
+  refunds: TransactionRefund[]
+): RefundLine[] {
+  const lines = expenseRefundLines(transaction)
+  const amounts = netRefundedAmounts(
+    lines.map((line) => line.amount),
+    refunds
+  )
+  return lines.map((line, index) => ({
+    ...line,
+    amount: amounts[index] ?? 0
+  }))
+}
+
+/**
+ * Spreads a refund over the lines in proportion to what is left on each,
+ * in whole öre. Rounding leftovers go to the first lines with room.
+ */
+export function distributeRefund(
+  lines: RefundLine[],
+  amount: number
+): RefundLine[] {
+  const capacities = lines.map((line) => toCents(line.amount))
+  const totalCents = capacities.reduce((sum, cents) => sum + cents, 0)
+  const targetCents = Math.min(Math.max(0, toCents(amount)), totalCents)
+  if (totalCents === 0) {
+    return lines.map((line) => ({
+      ...line,
+      amount: 0
+    }))
+  }
+  const shares = capacities.map((cents) =>
+    Math.floor((cents * targetCents) / totalCents)
+  )
+  let leftover = targetCents - shares.reduce((sum, cents) => sum + cents, 0)
+  for (let index = 0; leftover > 0 && index < shares.length; index += 1) {
+    const room = (capacities[index] ?? 0) - (shares[index] ?? 0)
+    const add = Math.min(room, leftover)
+    shares[index] = (shares[index] ?? 0) + add
+    leftover -= add
+  }
+  return lines.map((line, index) => ({
+    ...line,
+    amount: (shares[index] ?? 0) / 100
+  }))
+}
+
+/** Allocations per budget that return the refunded lines to their budgets. */
+export function refundBudgetAllocations(
+  lines: RefundLine[]
+): RefundAllocation[] {
+  const cents = new Map<string, number>()
+  for (const line of lines) {
+    if (!line.budgetId || line.amount <= 0) continue
+    cents.set(
+      line.budgetId,
+      (cents.get(line.budgetId) ?? 0) + toCents(line.amount)
+    )
+  }
+  return [
+    ...cents
+  ].map(([budgetId, amount]) => ({
+    budgetId,
+    amount: amount / 100
+  }))
+}
+
+/**
+ * INCOME on the expense's account carrying the refunded lines' budgets and
+ * categories, so the credit shows up under them.
+ */
+export function buildRefundTransactionBody(params: {
+  original: RefundableTransaction
+  lines: RefundLine[]
+  name: string
+}): Omit<CreateTransactionRequest, 'date'> {
+  const { original, name } = params
+  const lines = params.lines.filter((line) => line.amount > 0)
+  const base = {
+    type: TransactionType.INCOME,
+    accountId: original.account.id,
+    name,
+    amount: refundLinesTotal(lines)
+  }
+  const [line] = lines
+  if (lines.length === 1 && line) {
+    return {
+      ...base,
+      budgetId: line.budgetId,
+      categoryId: line.categoryId
+    }
+  }
+  return {
+    ...base,
+    splits: lines.map((item) => ({
+      ...(item.categoryId
+        ? {
+            categoryId: item.categoryId
+          }
+        : {}),
+      ...(item.budgetId
+        ? {
+            budgetId: item.budgetId
+          }
+        : {}),
+      amount: item.amount,
+      subtitle: item.subtitle
+    }))
+  }
+}
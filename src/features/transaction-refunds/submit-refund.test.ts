@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from 'vitest'
+import { TransactionType } from '@/api/generated/types.gen'
+import type { RefundableTransaction, RefundLine } from './refunds'
+import {
+  deleteTransactionRefund,
+  submitTransactionRefund
+} from './submit-refund'
+
+const expense: RefundableTransaction = {
+  id: 'tx',
+  name: 'ICA',
+  amount: 300,
+  type: TransactionType.EXPENSE,
+  account: {
+    id: 'card',
+    name: 'Kort'
+  },
+  budget: {
+    id: 'food',
+    name: 'Mat'
+  },
+  category: {
+    id: 'groceries',
+    name: 'Livsmedel'
+  }
+}
+
+const lines: RefundLine[] = [
+  {
+    budgetId: 'food',
+    categoryId: 'groceries',
+    subtitle: '',
+    amount: 120
+  }
+]
+
+describe('submitTransactionRefund', () => {
+  it('creates the credit and allocates it back to the budget', async () => {
+    const createTransactionAsync = vi.fn().mockResolvedValue({
+      id: 'refund'
+    })
+    const createAllocationAsync = vi.fn().mockResolvedValue({})
+
+    const result = await submitTransactionRefund({
+      original: expense,
+      lines,
+      name: 'Retur',
+      date: new Date('2026-03-12T00:00:00.000Z'),
+      createTransactionAsync,
+      createAllocationAsync,
+      now: new Date('2026-03-12T10:00:00.000Z')
+    })
+
+    expect(createTransactionAsync).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: TransactionType.INCOME,
+        amount: 120,
+        budgetId: 'food'
+      })
+    )
+    expect(createAllocationAsync).toHaveBeenCalledWith({
+      budgetId: 'food',
+      amount: 120,
+      userId: undefined
+    })
+    expect(result).toMatchObject({
+      ok: true,
+      refund: {
+        refundId: 'refund',
+        originalId: 'tx',
+        amount: 120,
+        allocations: [
+          {
+            budgetId: 'food',
+            amount: 120
+          }
+        ]
+      }
+    })
+  })
+
+  it('keeps the link when the allocation fails', async () => {
+    const result = await submitTransactionRefund({
+      original: expense,
+      lines,
+      name: 'Retur',
+      date: new Date('2026-03-12T00:00:00.000Z'),
+      createTransactionAsync: vi.fn().mockResolvedValue({
+        id: 'refund'
+      }),
+      createAllocationAsync: vi.fn().mockRejectedValue(new Error('nope'))
+    })
+
+    expect(result.ok).toBe(false)
+    expect(result.refund).toMatchObject({
+      refundId: 'refund',
+      allocations: []
+    })
+  })
+})
+
+describe('deleteTransactionRefund', () => {
+  it('returns the allocations before deleting the credit', async () => {
+    const calls: string[] = []
+    const result = await deleteTransactionRefund({
+      refund: {
+        refundId: 'refund',
+        originalId: 'tx',
+        originalName: 'ICA',
+        amount: 120,
+        date: '2026-03-12T00:00:00.000Z',
+        lines,
+        allocations: [
+          {
+            budgetId: 'food',
+            amount: 120
+          }
+        ],
+        createdAt: '2026-03-12T10:00:00.000Z'
+      },
+      createAllocationAsync: vi.fn(async ({ amount }) => {
+        calls.push(`allocate ${amount}`)
+      }),
+      deleteTransactionAsync: vi.fn(async ({ id }) => {
+        calls.push(`delete ${id}`)
+      })
+    })
+
+    expect(result.ok).toBe(true)
+    expect(calls).toEqual([
+      'allocate -120',
+      'delete refund'
+    ])
+  })
+})
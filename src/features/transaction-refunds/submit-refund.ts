@@ -0,0 +1,175 @@
+import type { CreateTransactionRequest } from '@/api/generated/types.gen'
+import { getProblemDetails } from '@/lib/api-error'
+import {
+  buildRefundTransactionBody,
+  type RefundAllocation,
+  type RefundableTransaction,
+  type RefundLine,
+  refundBudgetAllocations,
+  type TransactionRefund
+} from './refunds'
+
+type CreateTransactionAsync = (
+  variables: Omit<CreateTransactionRequest, 'date'> & {
+    date: Date
+    userId?: string | null
+  }
+) => Promise<{
+  id: string
+}>
+
+type CreateAllocationAsync = (variables: {
+  budgetId: string
+  amount: number
+  userId?: string | null
+}) => Promise<unknown>
+
+type DeleteTransactionAsync = (variables: {
+  id: string
+  userId?: string | null
+}) => Promise<unknown>
+
+export type RefundSubmitResult =
+  | {
+      ok: true
+      refund: TransactionRefund
+    }
+  | {
+      ok: false
+      /** Set when the credit was created but not every budget got it back. */
+      refund?: TransactionRefund
+      error: unknown
+    }
+
+/**
+ * Records the credit, then allocates it back to the budgets it came from. The
+ * link is returned as soon as the credit exists, with the allocations that
+ * went through, so a failed allocation can be made by hand.
+ */
+export async function submitTransactionRefund(params: {
+  original: RefundableTransaction
+  lines: RefundLine[]
+  name: string
+  date: Date
+  userId?: string | null
+  createTransactionAsync: CreateTransactionAsync
+  createAllocationAsync: CreateAllocationAsync
+  now?: Date
+}): Promise<RefundSubmitResult> {
+  const { original, lines, name, date, userId } = params
+  const body = buildRefundTransactionBody({
+    original,
+    lines,
+    name
+  })
+
+  let refundId: string
+  try {
+    const created = await params.createTransactionAsync({
+      ...body,
+      date,
+      userId
+    })
+    refundId = created.id
+  } catch (error) {
+    return {
+      ok: false,
+      error
+    }
+  }
+
+  const allocations: RefundAllocation[] = []
+  const refund = (): TransactionRefund => ({
+    refundId,
+    originalId: original.id,
+    originalName: original.name,
+    amount: body.amount,
+    date: date.toISOString(),
+    lines,
+    allocations,
+    createdAt: (params.now ?? new Date()).toISOString()
+  })
+
+  for (const allocation of refundBudgetAllocations(lines)) {
+    try {
+      await params.createAllocationAsync({
+        ...allocation,
+        userId
+      })
+      allocations.push(allocation)
+    } catch (error) {
+      return {
+        ok: false,
+        refund: refund(),
+        error
+      }
+    }
+  }
+  return {
+    ok: true,
+    refund: refund()
+  }
+}
+
+export type RefundDeleteResult =
+  | {
+      ok: true
+    }
+  | {
+      ok: false
+      /** The link with the allocations still in the budgets. */
+      refund: TransactionRefund
+      error: unknown
+    }
+
+/**
+ * Deletes a refund's credit after taking its allocations back out of the
+ * budgets, the same order an import undo uses, so the pool never loses the
+ * income before the allocations it funded are returned.
+ */
+export async function deleteTransactionRefund(params: {
+  refund: TransactionRefund
+  userId?: string | null
+  createAllocationAsync: CreateAllocationAsync
+  deleteTransactionAsync: DeleteTransactionAsync
+}): Promise<RefundDeleteResult> {
+  const { userId } = params
+  let refund = params.refund
+  for (const allocation of params.refund.allocations) {
+    try {
+      await params.createAllocationAsync({
+        budgetId: allocation.budgetId,
+        amount: -allocation.amount,
+        userId
+      })
+    } catch (error) {
+      return {
+        ok: false,
+        refund,
+        error
+      }
+    }
+    refund = {
+      ...refund,
+      allocations: refund.allocations.filter((item) => item !== allocation)
+    }
+  }
+  try {
+    await params.deleteTransactionAsync({
+      id: refund.refundId,
+      userId
+    })
+  } catch (error) {
+    // A credit someone already deleted counts as deleted.
+    if (getProblemDetails(error)?.status !== 404) {
+      return {
+        ok: false,
+        refund,
+        error
+      }
+    }
+  }
+  return {
+    ok: true
+  }
+}
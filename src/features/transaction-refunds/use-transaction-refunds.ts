@@ -0,0 +1,73 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useMemo } from 'react'
+import {
+  indexTransactionRefunds,
+  type TransactionRefund,
+  type TransactionRefundIndex
+} from './refunds'
+import {
+  listHouseholdTransactionRefunds,
+  saveTransactionRefund
+} from './refunds-api'
+
+const REFUNDS_QUERY_KEY = 'transaction-refunds'
+
+export const transactionRefundQueryKeys = {
+  all: [
+    REFUNDS_QUERY_KEY
+  ] as const,
+  household: (householdId: string) =>
+    [
+      REFUNDS_QUERY_KEY,
+      'household',
+      householdId
+    ] as const
+}
+
+const EMPTY_REFUNDS: TransactionRefund[] = []
+
+export type UseTransactionRefundsResult = {
+  refundIndex: TransactionRefundIndex
+  isLoading: boolean
+  saveRefund: (refund: TransactionRefund) => Promise<TransactionRefund>
+  /** Refetches the links, e.g. after deleting a credit dropped its link. */
+  refreshRefunds: () => Promise<void>
+}
+
+/**
+ * Refunds linked to household expenses, shared by the transactions table,
+ * the transaction drawer, settle up, and the import undo. The links live on
+ * the server so every member and device sees the same refunds.
+ */
+export function useTransactionRefunds(
+  householdId: string
+): UseTransactionRefundsResult {
+  const queryClient = useQueryClient()
+  const { data: refunds = EMPTY_REFUNDS, isLoading } = useQuery({
+    queryKey: transactionRefundQueryKeys.household(householdId),
+    queryFn: () => listHouseholdTransactionRefunds(householdId),
+    enabled: !!householdId
+  })
+  const refundIndex = useMemo(
+    () => indexTransactionRefunds(refunds),
+    [
+      refunds
+    ]
+  )
+
+  const refreshRefunds = () =>
+    queryClient.invalidateQueries({
+      queryKey: transactionRefundQueryKeys.all
+    })
+  const { mutateAsync: saveRefund } = useMutation({
+    mutationFn: saveTransactionRefund,
+    onSuccess: refreshRefunds
+  })
+
+  return {
+    refundIndex,
+    isLoading,
+    saveRefund,
+    refreshRefunds
+  }
+}
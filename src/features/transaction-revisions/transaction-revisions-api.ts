@@ -0,0 +1,55 @@
+import { client } from '@/api/generated/client.gen'
+import type { PaginationMeta } from '@/api/generated/types.gen'
+import type { TransactionRevision } from './transaction-revisions'
+
+/*
+ * Revision endpoints are not in the OpenAPI spec yet, so they are called
+ * through the generated client by hand to share its base URL and auth. The
+ * MSW handlers in `src/__mocks__/handlers/transaction-revisions.ts` mirror
+ * them.
+ */
+
+const SECURITY = [
+  {
+    scheme: 'bearer',
+    type: 'http'
+  } as const
+]
+
+export type TransactionRevisionListQuery = {
+  /** Only the revisions of this transaction. */
+  transactionId?: string
+  limit?: number
+  offset?: number
+}
+
+export type TransactionRevisionListResponse = {
+  data: TransactionRevision[]
+  pagination: PaginationMeta
+}
+
+/**
+ * Recorded changes to the household's transactions, newest first. The server
+ * records them from the transaction endpoints as the authenticated user.
+ */
+export async function listHouseholdTransactionRevisions(
+  householdId: string,
+  query: TransactionRevisionListQuery = {}
+): Promise<TransactionRevisionListResponse> {
+  const { data } = await client.get<
+    {
+      200: TransactionRevisionListResponse
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/households/{householdId}/transaction-revisions',
+    path: {
+      householdId
+    },
+    query,
+    throwOnError: true
+  })
+  return data
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import {
+  type TransactionRevision,
+  transactionTimelineRevisions
+} from './transaction-revisions'
+
+function revision(
+  id: string,
+  action: TransactionRevision['action'],
+  createdAt: string
+): TransactionRevision {
+  return {
+    id,
+    transactionId: 'tx',
+    transactionName: 'ICA',
+    action,
+    authorId: 'anna',
+    createdAt,
+    changes: []
+  }
+}
+
+describe('transactionTimelineRevisions', () => {
+  it('orders newest first and ends with the creation', () => {
+    const timeline = transactionTimelineRevisions({
+      revisions: [
+        revision('created', 'created', '2026-10-01T08:00:00.000Z'),
+        revision('late', 'updated', '2026-10-05T08:00:00.000Z'),
+        revision('early', 'updated', '2026-10-02T08:00:00.000Z')
+      ],
+      createdAt: '2026-10-01T07:59:00.000Z',
+      authorNames: new Map([
+        [
+          'anna',
+          'Anna'
+        ]
+      ])
+    })
+    expect(timeline.map((item) => item.id)).toEqual([
+      'late',
+      'early',
+      'created'
+    ])
+    expect(timeline[0]?.authorName).toBe('Anna')
+  })
+
+  it('adds an empty creation for transactions from before recording started', () => {
+    const timeline = transactionTimelineRevisions({
+      revisions: [
+        revision('edit', 'updated', '2026-10-05T08:00:00.000Z')
+      ],
+      createdAt: '2026-09-01T10:00:00.000Z',
+      authorNames: new Map()
+    })
+    expect(timeline.at(-1)).toEqual({
+      id: 'created',
+      createdAt: '2026-09-01T10:00:00.000Z',
+      changes: []
+    })
+    expect(timeline[0]?.authorName).toBeNull()
+  })
+})
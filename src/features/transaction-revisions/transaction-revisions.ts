@@ -0,0 +1,59 @@
+import type {
+  BlueprintRevisionChangeLike,
+  BlueprintRevisionLike
+} from '@/features/blueprint-revisions/revision-helpers'
+
+export type TransactionRevisionAction = 'created' | 'updated' | 'deleted'
+
+/** One recorded change to a transaction; the server lists them newest first. */
+export type TransactionRevision = {
+  id: string
+  transactionId: string
+  /** Name after the change, or before it for deletions. */
+  transactionName: string
+  action: TransactionRevisionAction
+  /** User id of the household member who made the change. */
+  authorId: string
+  createdAt: string
+  changes: BlueprintRevisionChangeLike[]
+}
+
+/**
+ * One transaction's revisions in the order {@link BlueprintRevisionTimeline}
+ * expects: newest first with the creation last. Transactions created before
+ * changes were recorded get an empty creation entry at `createdAt`.
+ */
+export function transactionTimelineRevisions(params: {
+  revisions: TransactionRevision[]
+  createdAt: string
+  authorNames: ReadonlyMap<string, string>
+}): BlueprintRevisionLike[] {
+  const { revisions, createdAt, authorNames } = params
+  const sorted = [
+    ...revisions
+  ].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  const creation = sorted.find((revision) => revision.action === 'created')
+  const timeline = sorted
+    .filter((revision) => revision !== creation)
+    .map((revision) => ({
+      id: revision.id,
+      createdAt: revision.createdAt,
+      authorName: authorNames.get(revision.authorId) ?? null,
+      changes: revision.changes
+    }))
+  return [
+    ...timeline,
+    creation
+      ? {
+          id: creation.id,
+          createdAt: creation.createdAt,
+          authorName: authorNames.get(creation.authorId) ?? null,
+          changes: creation.changes
+        }
+      : {
+          id: 'created',
+          createdAt,
+          changes: []
+        }
+  ]
+}
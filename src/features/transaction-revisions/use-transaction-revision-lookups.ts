@@ -0,0 +1,109 @@
+import { useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useAuth } from '@/contexts/auth-context'
+import type { RevisionLabelLookups } from '@/features/blueprint-revisions/format-revision-value'
+import { memberDisplayName } from '@/features/shared-expenses/attribution'
+import {
+  useAccountsList,
+  useBudgetsList,
+  useCategoriesList,
+  useHouseholdMembers,
+  useIncomeSourcesList,
+  useRecipientsList
+} from '@/hooks/api'
+import { accountsById } from '@/lib/accounts'
+
+function namesById(
+  items: Array<{
+    id: string
+    name: string
+  }>
+): Map<string, string> {
+  return new Map(
+    items.map((item) => [
+      item.id,
+      item.name
+    ])
+  )
+}
+
+/**
+ * Names for the ids in transaction revisions, including archived accounts
+ * and the household members who made the changes.
+ */
+export function useTransactionRevisionLookups(): {
+  lookups: RevisionLabelLookups
+  authorNames: Map<string, string>
+} {
+  const { t } = useTranslation()
+  const { userId, householdId } = useAuth()
+  const enabled = Boolean(householdId)
+
+  const { data: accounts = [] } = useAccountsList({
+    householdId,
+    userId,
+    enabled,
+    excludeArchived: false
+  })
+  const { data: categories = [] } = useCategoriesList({
+    householdId,
+    userId,
+    enabled
+  })
+  const { data: budgets = [] } = useBudgetsList({
+    householdId,
+    userId,
+    enabled
+  })
+  const { data: recipients = [] } = useRecipientsList({
+    householdId,
+    userId,
+    enabled
+  })
+  const { data: incomeSources = [] } = useIncomeSourcesList({
+    householdId,
+    userId,
+    enabled
+  })
+  const { data: members = [] } = useHouseholdMembers({
+    householdId,
+    userId,
+    enabled
+  })
+
+  const lookups = useMemo(
+    (): RevisionLabelLookups => ({
+      accountById: accountsById(accounts),
+      categoryById: namesById(categories),
+      budgetById: namesById(budgets),
+      recipientById: namesById(recipients),
+      incomeSourceById: namesById(incomeSources)
+    }),
+    [
+      accounts,
+      categories,
+      budgets,
+      recipients,
+      incomeSources
+    ]
+  )
+
+  const authorNames = useMemo(
+    () =>
+      new Map(
+        members.map((member) => [
+          member.userId,
+          memberDisplayName(member, t('forms.unknownUser'))
+        ])
+      ),
+    [
+      members,
+      t
+    ]
+  )
+
+  return {
+    lookups,
+    authorNames
+  }
+}
@@ -0,0 +1,50 @@
+import { useQuery } from '@tanstack/react-query'
+import type { TransactionRevision } from './transaction-revisions'
+import {
+  listHouseholdTransactionRevisions,
+  type TransactionRevisionListQuery
+} from './transaction-revisions-api'
+
+/**
+ * Keyed like the generated query options, so the transaction mutations the
+ * server records revisions for can refresh it with `invalidateByOperation`.
+ */
+export const transactionRevisionQueryKeys = {
+  household: (householdId: string, query: TransactionRevisionListQuery = {}) =>
+    [
+      {
+        _id: 'listHouseholdTransactionRevisions',
+        householdId,
+        ...query
+      }
+    ] as const
+}
+
+const EMPTY_REVISIONS: TransactionRevision[] = []
+
+export type UseTransactionRevisionsResult = {
+  revisions: TransactionRevision[]
+  isLoading: boolean
+}
+
+/**
+ * Household revision history for the transaction drawers and the recent
+ * changes feed, newest first. The server records a revision whenever a
+ * transaction is created, updated, cloned or deleted, so every member sees
+ * changes made on any device.
+ */
+export function useTransactionRevisions(
+  householdId: string,
+  query: TransactionRevisionListQuery = {}
+): UseTransactionRevisionsResult {
+  const { data, isLoading } = useQuery({
+    queryKey: transactionRevisionQueryKeys.household(householdId, query),
+    queryFn: () => listHouseholdTransactionRevisions(householdId, query),
+    enabled: !!householdId
+  })
+
+  return {
+    revisions: data?.data ?? EMPTY_REVISIONS,
+    isLoading
+  }
+}
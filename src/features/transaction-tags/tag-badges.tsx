@@ -0,0 +1,28 @@
+import { Badge } from '@/components/badge/badge'
+import type { TransactionTag } from './tags'
+
+type TagBadgesProps = {
+  tagIds: readonly string[] | undefined
+  tagsById: ReadonlyMap<string, TransactionTag>
+}
+
+/** Coloured tag labels in name order; ids of deleted tags are skipped. */
+export function TagBadges({ tagIds, tagsById }: TagBadgesProps) {
+  const tags = (tagIds ?? [])
+    .map((id) => tagsById.get(id))
+    .filter((tag): tag is TransactionTag => tag !== undefined)
+    .sort((a, b) => a.name.localeCompare(b.name, 'sv'))
+  if (tags.length === 0) return null
+
+  return (
+    <span className="flex flex-wrap gap-1">
+      {tags.map((tag) => (
+        <Badge
+          key={tag.id}
+          color={tag.color}
+          label={tag.name}
+        />
+      ))}
+    </span>
+  )
+}
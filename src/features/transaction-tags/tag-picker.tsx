@@ -0,0 +1,46 @@
+import { useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { FilterMultiselect } from '@/components/filter-multiselect/filter-multiselect'
+import { useAuth } from '@/contexts/auth-context'
+import { useTransactionTags } from './use-transaction-tags'
+
+type TagPickerProps = {
+  value: string[]
+  onChange: (tagIds: string[]) => void
+  disabled?: boolean
+}
+
+/**
+ * Multiselect over the household's tags, used wherever tags are assigned.
+ * Tags are created and recoloured on the tags page.
+ */
+export function TagPicker({ value, onChange, disabled }: TagPickerProps) {
+  const { t } = useTranslation()
+  const { householdId } = useAuth()
+  const { tags } = useTransactionTags(householdId)
+
+  const options = useMemo(
+    () =>
+      tags
+        .map((tag) => ({
+          value: tag.id,
+          label: tag.name
+        }))
+        .sort((a, b) => a.label.localeCompare(b.label, 'sv')),
+    [
+      tags
+    ]
+  )
+
+  return (
+    <FilterMultiselect
+      value={value}
+      onChange={onChange}
+      options={options}
+      placeholder={t('tags.picker.placeholder')}
+      searchPlaceholder={t('common.search')}
+      emptyText={t('tags.picker.empty')}
+      disabled={disabled}
+    />
+  )
+}
@@ -0,0 +1,135 @@
+import { client } from '@/api/generated/client.gen'
+import type { TagAssignments, TransactionTag } from './tags'
+
+/*
+ * Tag endpoints are not in the OpenAPI spec yet, so they are called through
+ * the generated client by hand to share its base URL and auth. The MSW
+ * handlers in `src/__mocks__/handlers/transaction-tags.ts` mirror them.
+ * Deleting a tag or a transaction drops the tag assignments with it.
+ */
+
+const SECURITY = [
+  {
+    scheme: 'bearer',
+    type: 'http'
+  } as const
+]
+
+export type TransactionTagState = {
+  tags: TransactionTag[]
+  assignments: TagAssignments
+}
+
+export async function getHouseholdTransactionTags(
+  householdId: string
+): Promise<TransactionTagState> {
+  const { data } = await client.get<
+    {
+      200: TransactionTagState
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/households/{householdId}/transaction-tags',
+    path: {
+      householdId
+    },
+    throwOnError: true
+  })
+  return data
+}
+
+export async function createTransactionTag(
+  householdId: string,
+  tag: Omit<TransactionTag, 'id'>
+): Promise<TransactionTag> {
+  const { data } = await client.post<
+    {
+      201: TransactionTag
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/households/{householdId}/transaction-tags',
+    path: {
+      householdId
+    },
+    body: tag,
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    throwOnError: true
+  })
+  return data
+}
+
+export async function updateTransactionTag(
+  tagId: string,
+  patch: Partial<Omit<TransactionTag, 'id'>>
+): Promise<TransactionTag> {
+  const { data } = await client.patch<
+    {
+      200: TransactionTag
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/transaction-tags/{tagId}',
+    path: {
+      tagId
+    },
+    body: patch,
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    throwOnError: true
+  })
+  return data
+}
+
+export async function deleteTransactionTag(tagId: string): Promise<void> {
+  await client.delete<
+    {
+      204: undefined
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/transaction-tags/{tagId}',
+    path: {
+      tagId
+    },
+    throwOnError: true
+  })
+}
+
+/** Replaces the tags on each listed transaction; empty lists clear them. */
+export async function setTransactionTagAssignments(
+  householdId: string,
+  assignments: TagAssignments
+): Promise<void> {
+  await client.put<
+    {
+      204: undefined
+    },
+    unknown,
+    true
+  >({
+    security: SECURITY,
+    url: '/households/{householdId}/transaction-tag-assignments',
+    path: {
+      householdId
+    },
+    body: {
+      assignments
+    },
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    throwOnError: true
+  })
+}
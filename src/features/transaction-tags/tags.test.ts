@@ -0,0 +1,244 @@
+import { describe, expect, it } from 'vitest'
+import { TransactionType } from '@/api/generated/types.gen'
+import { indexTransactionRefunds } from '@/features/transaction-refunds/refunds'
+import {
+  buildTagReport,
+  findTagByName,
+  matchesTagFilter,
+  nextTagColor,
+  type TagReportTransaction,
+  type TransactionTag
+} from './tags'
+
+const tags: TransactionTag[] = [
+  {
+    id: 'vacation',
+    name: 'Semester',
+    color: 'blue'
+  },
+  {
+    id: 'renovation',
+    name: 'Renovering',
+    color: 'pink'
+  }
+]
+
+const NO_REFUNDS = indexTransactionRefunds([])
+
+function expense(
+  id: string,
+  amount: number,
+  extra: Partial<TagReportTransaction> = {}
+): TagReportTransaction {
+  return {
+    id,
+    type: TransactionType.EXPENSE,
+    amount,
+    budget: {
+      id: 'b_food',
+      name: 'Mat'
+    },
+    category: {
+      id: 'c_restaurant',
+      name: 'Restaurang'
+    },
+    ...extra
+  }
+}
+
+describe('buildTagReport', () => {
+  it('totals expenses per tag and breaks split lines down by budget and category', () => {
+    const report = buildTagReport({
+      transactions: [
+        expense('t1', 120.5),
+        expense('t2', 300, {
+          splits: [
+            {
+              amount: 200,
+              budgetId: 'b_travel',
+              categoryId: 'c_hotel'
+            },
+            {
+              amount: 100,
+              budgetId: null,
+              categoryId: 'c_restaurant'
+            }
+          ]
+        }),
+        expense('t3', 50, {
+          type: TransactionType.INCOME
+        })
+      ],
+      assignments: {
+        t1: [
+          'vacation'
+        ],
+        t2: [
+          'vacation',
+          'renovation'
+        ],
+        t3: [
+          'vacation'
+        ]
+      },
+      tags,
+      refunds: NO_REFUNDS
+    })
+
+    expect(report[0]).toEqual({
+      tagId: 'vacation',
+      total: 420.5,
+      count: 2,
+      byBudget: [
+        {
+          id: 'b_travel',
+          total: 200
+        },
+        {
+          id: 'b_food',
+          total: 120.5
+        },
+        {
+          id: null,
+          total: 100
+        }
+      ],
+      byCategory: [
+        {
+          id: 'c_restaurant',
+          total: 220.5
+        },
+        {
+          id: 'c_hotel',
+          total: 200
+        }
+      ]
+    })
+    expect(report[1]).toMatchObject({
+      tagId: 'renovation',
+      total: 300,
+      count: 1
+    })
+  })
+
+  it('keeps unused tags and ignores assignments to deleted tags', () => {
+    const report = buildTagReport({
+      transactions: [
+        expense('t1', 10)
+      ],
+      assignments: {
+        t1: [
+          'gone'
+        ]
+      },
+      tags,
+      refunds: NO_REFUNDS
+    })
+
+    expect(
+      report.map((row) => [
+        row.tagId,
+        row.total
+      ])
+    ).toEqual([
+      [
+        'vacation',
+        0
+      ],
+      [
+        'renovation',
+        0
+      ]
+    ])
+  })
+
+  it('takes linked refunds off the lines they refunded', () => {
+    const report = buildTagReport({
+      transactions: [
+        expense('t1', 300, {
+          splits: [
+            {
+              amount: 200,
+              budgetId: 'b_travel',
+              categoryId: 'c_hotel'
+            },
+            {
+              amount: 100,
+              budgetId: 'b_food',
+              categoryId: 'c_restaurant'
+            }
+          ]
+        })
+      ],
+      assignments: {
+        t1: [
+          'vacation'
+        ]
+      },
+      tags,
+      refunds: indexTransactionRefunds([
+        {
+          refundId: 'r1',
+          originalId: 't1',
+          originalName: 'Hotell',
+          amount: 200,
+          date: '2026-07-01',
+          lines: [
+            {
+              budgetId: 'b_travel',
+              categoryId: 'c_hotel',
+              subtitle: '',
+              amount: 200
+            },
+            {
+              budgetId: 'b_food',
+              categoryId: 'c_restaurant',
+              subtitle: '',
+              amount: 0
+            }
+          ],
+          allocations: [],
+          createdAt: '2026-07-01T10:00:00.000Z'
+        }
+      ])
+    })
+
+    expect(report[0]).toMatchObject({
+      tagId: 'vacation',
+      total: 100,
+      count: 1,
+      byCategory: [
+        {
+          id: 'c_restaurant',
+          total: 100
+        }
+      ]
+    })
+  })
+})
+
+describe('tag helpers', () => {
+  it('picks the least used colour and matches names ignoring case', () => {
+    expect(nextTagColor(tags)).toBe('orange')
+    expect(findTagByName(tags, '  semester ')?.id).toBe('vacation')
+  })
+
+  it('matches transactions carrying any filtered tag', () => {
+    expect(
+      matchesTagFilter(
+        [
+          'vacation'
+        ],
+        [
+          'renovation',
+          'vacation'
+        ]
+      )
+    ).toBe(true)
+    expect(
+      matchesTagFilter(undefined, [
+        'vacation'
+      ])
+    ).toBe(false)
+  })
+})
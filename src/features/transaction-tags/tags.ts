@@ -0,0 +1,208 @@
+import { type Transaction, TransactionType } from '@/api/generated/types.gen'
+import type { BadgeColor } from '@/components/badge/badge'
+import {
+  netRefundedAmounts,
+  type TransactionRefundIndex
+} from '@/features/transaction-refunds/refunds'
+
+/** Household label that cuts across budgets and categories. */
+export type TransactionTag = {
+  id: string
+  name: string
+  color: BadgeColor
+}
+
+/** Transaction id → ids of the tags on it. */
+export type TagAssignments = Record<string, string[]>
+
+export const TAG_COLORS = [
+  'blue',
+  'pink',
+  'orange',
+  'teal',
+  'lilac',
+  'yellow',
+  'lime',
+  'green',
+  'red',
+  'gray'
+] as const satisfies readonly BadgeColor[]
+
+export function isTagColor(value: unknown): value is BadgeColor {
+  return (TAG_COLORS as readonly unknown[]).includes(value)
+}
+
+/** The palette colour used by the fewest tags, first in palette order on ties. */
+export function nextTagColor(tags: TransactionTag[]): BadgeColor {
+  const usage = new Map<BadgeColor, number>()
+  for (const tag of tags) usage.set(tag.color, (usage.get(tag.color) ?? 0) + 1)
+  let best: BadgeColor = TAG_COLORS[0]
+  for (const color of TAG_COLORS) {
+    if ((usage.get(color) ?? 0) < (usage.get(best) ?? 0)) best = color
+  }
+  return best
+}
+
+/** Trimmed name with inner whitespace collapsed, as tags are stored. */
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ')
+}
+
+/** The tag with this name ignoring case, so names stay unique per household. */
+export function findTagByName(
+  tags: TransactionTag[],
+  name: string
+): TransactionTag | undefined {
+  const wanted = normalizeTagName(name).toLocaleLowerCase('sv')
+  return tags.find((tag) => tag.name.toLocaleLowerCase('sv') === wanted)
+}
+
+/** Sorted unique tag ids that still exist; used before storing an assignment. */
+export function cleanTagIds(
+  tagIds: readonly string[],
+  knownTagIds: ReadonlySet<string>
+): string[] {
+  return [
+    ...new Set(tagIds.filter((id) => knownTagIds.has(id)))
+  ].sort()
+}
+
+/** Whether the transaction carries any of the filtered tags. */
+export function matchesTagFilter(
+  transactionTagIds: readonly string[] | undefined,
+  filterValue: readonly string[]
+): boolean {
+  if (filterValue.length === 0) return true
+  return (transactionTagIds ?? []).some((id) => filterValue.includes(id))
+}
+
+export type TagReportTransaction = Pick<
+  Transaction,
+  'id' | 'type' | 'amount' | 'budget' | 'category'
+> & {
+  splits?: Array<{
+    amount: number
+    budgetId?: string | null
+    categoryId: string
+  }>
+}
+
+/** Spend within one tag for a budget or category; `null` means none set. */
+export type TagReportBreakdown = {
+  id: string | null
+  total: number
+}
+
+export type TagReportRow = {
+  tagId: string
+  total: number
+  count: number
+  byBudget: TagReportBreakdown[]
+  byCategory: TagReportBreakdown[]
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100)
+}
+
+function addCents(
+  totals: Map<string | null, number>,
+  id: string | null | undefined,
+  cents: number
+): void {
+  const key = id ?? null
+  totals.set(key, (totals.get(key) ?? 0) + cents)
+}
+
+function sortedBreakdown(
+  totals: Map<string | null, number>
+): TagReportBreakdown[] {
+  return [
+    ...totals
+  ]
+    .map(([id, cents]) => ({
+      id,
+      total: cents / 100
+    }))
+    .sort((a, b) => b.total - a.total)
+}
+
+/**
+ * Expense totals per tag, largest first, each broken down by budget and
+ * category. Split expenses count every split line under its own budget and
+ * category; a transaction with several tags counts in full under each.
+ * Refunds linked to an expense are taken off the lines they refunded.
+ */
+export function buildTagReport(params: {
+  transactions: TagReportTransaction[]
+  assignments: TagAssignments
+  tags: TransactionTag[]
+  refunds: TransactionRefundIndex
+}): TagReportRow[] {
+  const rows = new Map(
+    params.tags.map((tag) => [
+      tag.id,
+      {
+        total: 0,
+        count: 0,
+        byBudget: new Map<string | null, number>(),
+        byCategory: new Map<string | null, number>()
+      }
+    ])
+  )
+  const seen = new Set<string>()
+
+  for (const transaction of params.transactions) {
+    if (transaction.type !== TransactionType.EXPENSE) continue
+    if (seen.has(transaction.id)) continue
+    seen.add(transaction.id)
+
+    const grossLines =
+      transaction.splits && transaction.splits.length > 0
+        ? transaction.splits.map((split) => ({
+            amount: split.amount,
+            budgetId: split.budgetId,
+            categoryId: split.categoryId
+          }))
+        : [
+            {
+              amount: transaction.amount,
+              budgetId: transaction.budget?.id,
+              categoryId: transaction.category?.id
+            }
+          ]
+    const netAmounts = netRefundedAmounts(
+      grossLines.map((line) => line.amount),
+      params.refunds.byOriginal.get(transaction.id) ?? []
+    )
+    const lines = grossLines.map((line, index) => ({
+      cents: toCents(netAmounts[index] ?? 0),
+      budgetId: line.budgetId,
+      categoryId: line.categoryId
+    }))
+
+    for (const tagId of new Set(params.assignments[transaction.id] ?? [])) {
+      const row = rows.get(tagId)
+      if (!row) continue
+      row.count += 1
+      for (const line of lines) {
+        if (line.cents === 0) continue
+        row.total += line.cents
+        addCents(row.byBudget, line.budgetId, line.cents)
+        addCents(row.byCategory, line.categoryId, line.cents)
+      }
+    }
+  }
+
+  return [
+    ...rows
+  ]
+    .map(([tagId, row]) => ({
+      tagId,
+      total: row.total / 100,
+      count: row.count,
+      byBudget: sortedBreakdown(row.byBudget),
+      byCategory: sortedBreakdown(row.byCategory)
+    }))
+    .sort((a, b) => b.total - a.total)
+}
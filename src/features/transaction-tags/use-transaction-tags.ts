@@ -0,0 +1,180 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useCallback } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import type { BadgeColor } from '@/components/badge/badge'
+import { getErrorMessage } from '@/lib/api-error'
+import {
+  cleanTagIds,
+  nextTagColor,
+  normalizeTagName,
+  type TagAssignments,
+  type TransactionTag
+} from './tags'
+import {
+  createTransactionTag,
+  deleteTransactionTag,
+  getHouseholdTransactionTags,
+  setTransactionTagAssignments,
+  type TransactionTagState,
+  updateTransactionTag
+} from './tags-api'
+
+const TRANSACTION_TAGS_QUERY_KEY = 'transaction-tags'
+
+export const transactionTagQueryKeys = {
+  all: [
+    TRANSACTION_TAGS_QUERY_KEY
+  ] as const,
+  household: (householdId: string) =>
+    [
+      TRANSACTION_TAGS_QUERY_KEY,
+      'household',
+      householdId
+    ] as const
+}
+
+const EMPTY_STATE: TransactionTagState = {
+  tags: [],
+  assignments: {}
+}
+
+export type UseTransactionTagsResult = TransactionTagState & {
+  isLoading: boolean
+  /** Adds a tag with the next free palette colour unless one is given. */
+  createTag: (name: string, color?: BadgeColor) => void
+  updateTag: (
+    tagId: string,
+    patch: Partial<Pick<TransactionTag, 'name' | 'color'>>
+  ) => void
+  /** Removes the tag and takes it off every transaction. */
+  deleteTag: (tagId: string) => void
+  /** Replaces the tags on each listed transaction; empty lists clear them. */
+  setTransactionTags: (tagIdsByTransaction: TagAssignments) => void
+  /** Adds tags to transactions, keeping the tags already on them. */
+  addTransactionTags: (transactionIds: string[], tagIds: string[]) => void
+}
+
+/**
+ * Household tags and the transactions they are on, shared by the transaction
+ * drawers, the transactions table, imports and the tag report. They live on
+ * the server so every member sees the same tags. Changes are saved in the
+ * background; a failed request shows a toast.
+ */
+export function useTransactionTags(
+  householdId: string
+): UseTransactionTagsResult {
+  const { t } = useTranslation()
+  const queryClient = useQueryClient()
+  const queryKey = transactionTagQueryKeys.household(householdId)
+  const { data = EMPTY_STATE, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => getHouseholdTransactionTags(householdId),
+    enabled: !!householdId
+  })
+
+  const current = useCallback(
+    () =>
+      queryClient.getQueryData<TransactionTagState>(queryKey) ?? EMPTY_STATE,
+    [
+      queryClient,
+      queryKey
+    ]
+  )
+  const mutationOptions = {
+    onSuccess: () =>
+      queryClient.invalidateQueries({
+        queryKey: transactionTagQueryKeys.all
+      }),
+    onError: (error: unknown) =>
+      toast.error(
+        t('tags.saveFailed', {
+          message: getErrorMessage(error)
+        })
+      )
+  }
+  const { mutate: create } = useMutation({
+    mutationFn: (tag: Omit<TransactionTag, 'id'>) =>
+      createTransactionTag(householdId, tag),
+    ...mutationOptions
+  })
+  const { mutate: update } = useMutation({
+    mutationFn: (variables: {
+      tagId: string
+      patch: Partial<Pick<TransactionTag, 'name' | 'color'>>
+    }) => updateTransactionTag(variables.tagId, variables.patch),
+    ...mutationOptions
+  })
+  const { mutate: remove } = useMutation({
+    mutationFn: deleteTransactionTag,
+    ...mutationOptions
+  })
+  const { mutate: assign } = useMutation({
+    mutationFn: (assignments: TagAssignments) =>
+      setTransactionTagAssignments(householdId, assignments),
+    ...mutationOptions
+  })
+
+  const setTransactionTags = useCallback(
+    (tagIdsByTransaction: TagAssignments) => {
+      const knownTagIds = new Set(current().tags.map((tag) => tag.id))
+      const assignments = Object.fromEntries(
+        Object.entries(tagIdsByTransaction).map(([transactionId, tagIds]) => [
+          transactionId,
+          cleanTagIds(tagIds, knownTagIds)
+        ])
+      )
+      if (Object.keys(assignments).length === 0) return
+      assign(assignments)
+    },
+    [
+      assign,
+      current
+    ]
+  )
+
+  const addTransactionTags = useCallback(
+    (transactionIds: string[], tagIds: string[]) => {
+      const { assignments } = current()
+      setTransactionTags(
+        Object.fromEntries(
+          transactionIds.map((transactionId) => [
+            transactionId,
+            [
+              ...(assignments[transactionId] ?? []),
+              ...tagIds
+            ]
+          ])
+        )
+      )
+    },
+    [
+      current,
+      setTransactionTags
+    ]
+  )
+
+  return {
+    ...data,
+    isLoading,
+    createTag: (name, color) =>
+      create({
+        name: normalizeTagName(name),
+        color: color ?? nextTagColor(current().tags)
+      }),
+    updateTag: (tagId, patch) =>
+      update({
+        tagId,
+        patch:
+          patch.name === undefined
+            ? patch
+            : {
+                ...patch,
+                name: normalizeTagName(patch.name)
+              }
+      }),
+    deleteTag: remove,
+    setTransactionTags,
+    addTransactionTags
+  }
+}
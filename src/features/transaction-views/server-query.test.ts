@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+import { TransactionType } from '@/api/generated/types.gen'
+import { isLargeDateRange, toTransactionServerQuery } from './server-query'
+import type { TransactionViewState } from './view-search'
+
+const range = {
+  dateFrom: new Date(2024, 0, 1),
+  dateTo: new Date(2026, 11, 31, 23, 59, 59)
+}
+const now = new Date(2026, 2, 15, 12)
+
+function state(overrides: Partial<TransactionViewState>): TransactionViewState {
+  return {
+    globalFilter: '',
+    columnFilters: [],
+    sorting: [],
+    showUpcoming: true,
+    ...overrides
+  }
+}
+
+describe('toTransactionServerQuery', () => {
+  it('maps date, single type, and budget filters onto query parameters', () => {
+    expect(
+      toTransactionServerQuery(
+        state({
+          showUpcoming: false,
+          columnFilters: [
+            {
+              id: 'date',
+              value: {
+                from: '2025-06-01'
+              }
+            },
+            {
+              id: 'type',
+              value: [
+                TransactionType.EXPENSE
+              ]
+            },
+            {
+              id: 'budget',
+              value: [
+                'food'
+              ]
+            }
+          ]
+        }),
+        range,
+        now
+      )
+    ).toEqual({
+      budgetId: 'food',
+      type: TransactionType.EXPENSE,
+      dateFrom: new Date('2025-06-01'),
+      dateTo: new Date(2026, 2, 15, 23, 59, 59, 999)
+    })
+  })
+
+  it('returns null for state the API cannot express', () => {
+    const unsupported: Array<Partial<TransactionViewState>> = [
+      {
+        globalFilter: 'ica'
+      },
+      {
+        sorting: [
+          {
+            id: 'amount',
+            desc: true
+          }
+        ]
+      },
+      {
+        columnFilters: [
+          {
+            id: 'amount',
+            value: {
+              min: 1000
+            }
+          }
+        ]
+      },
+      {
+        columnFilters: [
+          {
+            id: 'type',
+            value: [
+              TransactionType.EXPENSE,
+              TransactionType.INCOME
+            ]
+          }
+        ]
+      },
+      {
+        budgetId: 'food',
+        columnFilters: [
+          {
+            id: 'budget',
+            value: [
+              'rent'
+            ]
+          }
+        ]
+      }
+    ]
+    for (const overrides of unsupported) {
+      expect(toTransactionServerQuery(state(overrides), range, now)).toBeNull()
+    }
+  })
+})
+
+describe('isLargeDateRange', () => {
+  it('starts at a year of days', () => {
+    expect(isLargeDateRange(new Date(2025, 0, 1), new Date(2025, 11, 31))).toBe(
+      false
+    )
+    expect(isLargeDateRange(new Date(2025, 0, 1), new Date(2026, 0, 2))).toBe(
+      true
+    )
+  })
+})
@@ -0,0 +1,108 @@
+import { differenceInCalendarDays, endOfDay, max, min } from 'date-fns'
+import type { TransactionType } from '@/api/generated/types.gen'
+import type { TransactionViewState } from './view-search'
+
+/** Date ranges at least this long load page by page from the server. */
+export const SERVER_SIDE_MIN_RANGE_DAYS = 366
+
+export const SERVER_SIDE_PAGE_SIZE = 100
+
+/** `listTransactions` query parameters for a server-side table. */
+export type TransactionServerQuery = {
+  type?: TransactionType
+  budgetId?: string
+  dateFrom: Date
+  dateTo: Date
+}
+
+export function isLargeDateRange(dateFrom: Date, dateTo: Date): boolean {
+  return (
+    differenceInCalendarDays(dateTo, dateFrom) >= SERVER_SIDE_MIN_RANGE_DAYS
+  )
+}
+
+/**
+ * List filters the API applies the way the table does, one id at a time.
+ * Account and category filters also match transfer destinations and split
+ * lines in the table, which the list endpoint does not document.
+ */
+const SERVER_LIST_FILTER_IDS = new Set([
+  'type',
+  'budget'
+])
+
+/**
+ * The one id a list filter selects, `undefined` for an empty filter, or
+ * `null` when several ids are selected (the API filters on a single id).
+ */
+function singleFilterValue(value: unknown): string | undefined | null {
+  if (!Array.isArray(value) || value.length === 0) return undefined
+  return value.length === 1 && typeof value[0] === 'string' ? value[0] : null
+}
+
+/**
+ * Maps the table state onto `listTransactions` parameters, or returns `null`
+ * when the API cannot express it: free-text search, column sorting (the
+ * server returns newest first), and any filter other than the date, one
+ * type, or one budget. Those tables load the whole range and filter in the
+ * browser instead, and the page says so. `listTransactions` has no sort or
+ * search parameters, so this fallback stays until the API gets them.
+ */
+export function toTransactionServerQuery(
+  state: TransactionViewState,
+  range: {
+    dateFrom: Date
+    dateTo: Date
+  },
+  now: Date
+): TransactionServerQuery | null {
+  if (state.globalFilter.trim() || state.sorting.length > 0) return null
+
+  const query: TransactionServerQuery = {
+    budgetId: state.budgetId,
+    dateFrom: range.dateFrom,
+    dateTo: state.showUpcoming
+      ? range.dateTo
+      : min([
+          range.dateTo,
+          endOfDay(now)
+        ])
+  }
+
+  for (const filter of state.columnFilters) {
+    if (filter.id === 'date') {
+      const value = filter.value as {
+        from?: string
+        to?: string
+      } | null
+      if (value?.from) {
+        query.dateFrom = max([
+          query.dateFrom,
+          new Date(value.from)
+        ])
+      }
+      if (value?.to) {
+        query.dateTo = min([
+          query.dateTo,
+          new Date(value.to)
+        ])
+      }
+      continue
+    }
+
+    if (!SERVER_LIST_FILTER_IDS.has(filter.id)) return null
+    const id = singleFilterValue(filter.value)
+    if (id === null) return null
+    if (id === undefined) continue
+    switch (filter.id) {
+      case 'type':
+        query.type = id as TransactionType
+        break
+      case 'budget':
+        if (query.budgetId && query.budgetId !== id) return null
+        query.budgetId = id
+        break
+    }
+  }
+  return query
+}
@@ -0,0 +1,190 @@
+import { useNavigate, useRouter } from '@tanstack/react-router'
+import { useCallback, useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import type { useConfirmDialog } from '@/hooks/use-confirm-dialog'
+import { useDateRange } from '@/hooks/use-date-range'
+import { createId } from '@/lib/create-id'
+import {
+  isSameTransactionViewSearch,
+  readTransactionViewState,
+  resolveSavedViewDateRange,
+  type SavedViewDateRange,
+  type TransactionViewSearch,
+  type TransactionViewState,
+  toTransactionViewSearch
+} from './view-search'
+import {
+  type SavedTransactionView,
+  useSavedTransactionViews
+} from './view-storage'
+
+type UseSavedViewActionsParams = {
+  householdId: string
+  userId: string
+  /** The transactions page's current search params. */
+  search: TransactionViewSearch
+  viewState: TransactionViewState
+  confirm: ReturnType<typeof useConfirmDialog>['confirm']
+}
+
+export type UseSavedViewActionsResult = {
+  savedViews: SavedTransactionView[]
+  /** The saved view matching the page's date range and table state. */
+  activeViewId: string | undefined
+  openView: (view: SavedTransactionView) => void
+  /** Copies a link to the view, or to the current table state without one. */
+  copyViewLink: (view?: SavedTransactionView) => void
+  /** Saves the current table state under the name, replacing a namesake. */
+  saveCurrentView: (view: {
+    name: string
+    dateRange: SavedViewDateRange
+  }) => void
+  /** Deletes the view after the user confirms. */
+  deleteView: (view: SavedTransactionView) => void
+}
+
+/** Saved views menu actions for the transactions page. */
+export function useSavedViewActions({
+  householdId,
+  userId,
+  search,
+  viewState,
+  confirm
+}: UseSavedViewActionsParams): UseSavedViewActionsResult {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const router = useRouter()
+  const { from, to } = useDateRange()
+  const {
+    views: savedViews,
+    saveView,
+    deleteView
+  } = useSavedTransactionViews(householdId, userId)
+
+  const savedViewSearch = useCallback(
+    (view: SavedTransactionView) => ({
+      ...toTransactionViewSearch(readTransactionViewState(view.search)),
+      ...resolveSavedViewDateRange(view.dateRange, new Date(), {
+        from,
+        to
+      })
+    }),
+    [
+      from,
+      to
+    ]
+  )
+
+  const activeViewId = useMemo(() => {
+    const currentRange = `${from}/${to}`
+    return savedViews.find((view) => {
+      const range = resolveSavedViewDateRange(view.dateRange, new Date(), {
+        from,
+        to
+      })
+      return (
+        `${range.from}/${range.to}` === currentRange &&
+        isSameTransactionViewSearch(view.search, search)
+      )
+    })?.id
+  }, [
+    from,
+    savedViews,
+    search,
+    to
+  ])
+
+  const openView = useCallback(
+    (view: SavedTransactionView) => {
+      void navigate({
+        to: '/transactions',
+        search: (prev) => ({
+          ...prev,
+          ...savedViewSearch(view)
+        })
+      })
+    },
+    [
+      navigate,
+      savedViewSearch
+    ]
+  )
+
+  const copyViewLink = useCallback(
+    (view?: SavedTransactionView) => {
+      const { href } = router.buildLocation({
+        to: '/transactions',
+        search: view
+          ? savedViewSearch(view)
+          : {
+              ...toTransactionViewSearch(viewState),
+              from,
+              to
+            }
+      })
+      navigator.clipboard
+        .writeText(new URL(href, window.location.origin).toString())
+        .then(
+          () => toast.success(t('transactions.views.linkCopied')),
+          () => toast.error(t('transactions.views.linkCopyFailed'))
+        )
+    },
+    [
+      from,
+      router,
+      savedViewSearch,
+      t,
+      to,
+      viewState
+    ]
+  )
+
+  const saveCurrentView = useCallback(
+    (view: { name: string; dateRange: SavedViewDateRange }) => {
+      saveView({
+        id: createId('view'),
+        name: view.name,
+        search: toTransactionViewSearch(viewState),
+        dateRange: view.dateRange
+      })
+      toast.success(
+        t('transactions.views.savedToast', {
+          name: view.name
+        })
+      )
+    },
+    [
+      saveView,
+      t,
+      viewState
+    ]
+  )
+
+  const confirmDeleteView = useCallback(
+    (view: SavedTransactionView) => {
+      confirm({
+        description: t('transactions.views.deleteConfirm', {
+          name: view.name
+        }),
+        confirmText: t('common.delete')
+      }).then((isConfirmed) => {
+        if (isConfirmed) deleteView(view.id)
+      })
+    },
+    [
+      confirm,
+      deleteView,
+      t
+    ]
+  )
+
+  return {
+    savedViews,
+    activeViewId,
+    openView,
+    copyViewLink,
+    saveCurrentView,
+    deleteView: confirmDeleteView
+  }
+}
@@ -0,0 +1,226 @@
+import { describe, expect, it } from 'vitest'
+import {
+  isSameTransactionViewSearch,
+  readTransactionViewState,
+  resolveSavedViewDateRange,
+  toTransactionViewSearch,
+  transactionViewSearchSchema
+} from './view-search'
+
+describe('transaction view search', () => {
+  it('round-trips table state and leaves defaults out of the URL', () => {
+    const search = toTransactionViewSearch({
+      globalFilter: 'ica',
+      columnFilters: [
+        {
+          id: 'amount',
+          value: {
+            min: 1000
+          }
+        }
+      ],
+      sorting: [
+        {
+          id: 'date',
+          desc: true
+        }
+      ],
+      showUpcoming: false
+    })
+
+    expect(readTransactionViewState(search)).toEqual({
+      budgetId: undefined,
+      globalFilter: 'ica',
+      columnFilters: [
+        {
+          id: 'amount',
+          value: {
+            min: 1000
+          }
+        }
+      ],
+      sorting: [
+        {
+          id: 'date',
+          desc: true
+        }
+      ],
+      showUpcoming: false
+    })
+    expect(
+      toTransactionViewSearch(
+        readTransactionViewState(transactionViewSearchSchema.parse({}))
+      )
+    ).toEqual({
+      budgetId: undefined,
+      q: undefined,
+      filters: undefined,
+      sort: undefined,
+      upcoming: undefined
+    })
+  })
+
+  it('drops malformed params instead of failing the route', () => {
+    expect(
+      transactionViewSearchSchema.parse({
+        q: 'hyra',
+        sort: 'date',
+        filters: [
+          {
+            value: 1
+          }
+        ],
+        upcoming: 'nope'
+      })
+    ).toEqual({
+      q: 'hyra'
+    })
+  })
+
+  it('drops filters whose value does not fit the column', () => {
+    expect(
+      transactionViewSearchSchema.parse({
+        filters: [
+          {
+            id: 'date',
+            value: null
+          },
+          {
+            id: 'date',
+            value: {
+              from: 'igår'
+            }
+          },
+          {
+            id: 'amount',
+            value: {
+              min: '100'
+            }
+          },
+          {
+            id: 'unknown',
+            value: []
+          },
+          {
+            id: 'type',
+            value: [
+              'EXPENSE'
+            ]
+          }
+        ]
+      }).filters
+    ).toEqual([
+      {
+        id: 'type',
+        value: [
+          'EXPENSE'
+        ]
+      }
+    ])
+    expect(
+      transactionViewSearchSchema.parse({
+        filters: [
+          {
+            id: 'account',
+            value: 'account-1'
+          }
+        ]
+      }).filters
+    ).toBeUndefined()
+  })
+
+  it('compares views by what they show, ignoring other params', () => {
+    expect(
+      isSameTransactionViewSearch(
+        {
+          q: '  ',
+          upcoming: true
+        },
+        {
+          sort: []
+        }
+      )
+    ).toBe(true)
+    expect(
+      isSameTransactionViewSearch(
+        {
+          upcoming: false
+        },
+        {}
+      )
+    ).toBe(false)
+  })
+})
+
+describe('resolveSavedViewDateRange', () => {
+  const today = new Date(2026, 2, 15)
+  const current = {
+    from: '2026-01-01',
+    to: '2026-01-31'
+  }
+
+  it('resolves relative ranges against today', () => {
+    expect(
+      resolveSavedViewDateRange(
+        {
+          kind: 'thisMonth'
+        },
+        today,
+        current
+      )
+    ).toEqual({
+      from: '2026-03-01',
+      to: '2026-03-31'
+    })
+    expect(
+      resolveSavedViewDateRange(
+        {
+          kind: 'lastMonth'
+        },
+        today,
+        current
+      )
+    ).toEqual({
+      from: '2026-02-01',
+      to: '2026-02-28'
+    })
+    expect(
+      resolveSavedViewDateRange(
+        {
+          kind: 'last30Days'
+        },
+        today,
+        current
+      )
+    ).toEqual({
+      from: '2026-02-14',
+      to: '2026-03-15'
+    })
+  })
+
+  it('keeps the current or fixed range', () => {
+    expect(
+      resolveSavedViewDateRange(
+        {
+          kind: 'current'
+        },
+        today,
+        current
+      )
+    ).toBe(current)
+    expect(
+      resolveSavedViewDateRange(
+        {
+          kind: 'fixed',
+          from: '2025-12-01',
+          to: '2025-12-31'
+        },
+        today,
+        current
+      )
+    ).toEqual({
+      from: '2025-12-01',
+      to: '2025-12-31'
+    })
+  })
+})
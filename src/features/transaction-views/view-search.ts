@@ -0,0 +1,187 @@
+import type { ColumnFiltersState, SortingState } from '@tanstack/react-table'
+import { endOfMonth, format, startOfMonth, subDays, subMonths } from 'date-fns'
+import { z } from 'zod'
+import { TransactionType } from '@/api/generated/types.gen'
+
+const filterDateSchema = z
+  .string()
+  .refine((value) => !Number.isNaN(new Date(value).getTime()))
+
+const idListSchema = z.array(z.string())
+
+/**
+ * One table column filter, with the value shape that column's filterFn reads.
+ * Links can be shared and edited by hand, so anything else is dropped.
+ */
+const columnFilterSchema = z.discriminatedUnion('id', [
+  z.object({
+    id: z.literal('date'),
+    value: z.object({
+      from: filterDateSchema.optional(),
+      to: filterDateSchema.optional()
+    })
+  }),
+  z.object({
+    id: z.literal('name'),
+    value: z.array(
+      z.enum([
+        'has',
+        'doesNotHave'
+      ])
+    )
+  }),
+  z.object({
+    id: z.literal('type'),
+    value: z.array(z.enum(TransactionType))
+  }),
+  z.object({
+    id: z.literal('amount'),
+    value: z.object({
+      min: z.number().finite().optional(),
+      max: z.number().finite().optional()
+    })
+  }),
+  ...(
+    [
+      'account',
+      'budget',
+      'category',
+      'tags',
+      'recipientSender'
+    ] as const
+  ).map((id) =>
+    z.object({
+      id: z.literal(id),
+      value: idListSchema
+    })
+  )
+])
+
+/**
+ * Transactions table state as kept in the route's search params. Defaults are
+ * left out so a plain `/transactions` link stays short.
+ */
+export const transactionViewSearchSchema = z.object({
+  budgetId: z.string().optional().catch(undefined),
+  q: z.string().optional().catch(undefined),
+  filters: z
+    .array(columnFilterSchema.nullable().catch(null))
+    .transform((filters): ColumnFiltersState | undefined => {
+      const valid = filters.filter((filter) => filter !== null)
+      return valid.length > 0 ? valid : undefined
+    })
+    .optional()
+    .catch(undefined),
+  sort: z
+    .array(
+      z.object({
+        id: z.string(),
+        desc: z.boolean()
+      })
+    )
+    .optional()
+    .catch(undefined),
+  /** Upcoming transactions are shown unless this is `false`. */
+  upcoming: z.boolean().optional().catch(undefined)
+})
+
+export type TransactionViewSearch = z.infer<typeof transactionViewSearchSchema>
+
+export type TransactionViewState = {
+  budgetId?: string
+  globalFilter: string
+  columnFilters: ColumnFiltersState
+  sorting: SortingState
+  showUpcoming: boolean
+}
+
+/** How a saved view picks the page's date range when it is opened. */
+export type SavedViewDateRange =
+  | {
+      kind: 'current' | 'thisMonth' | 'lastMonth' | 'last30Days'
+    }
+  | {
+      kind: 'fixed'
+      from: string
+      to: string
+    }
+
+export type SavedViewDateRangeKind = SavedViewDateRange['kind']
+
+export type DateRangeSearch = {
+  from: string
+  to: string
+}
+
+const EMPTY_FILTERS: ColumnFiltersState = []
+const EMPTY_SORTING: SortingState = []
+
+/** Table state for the search params, falling back to the page defaults. */
+export function readTransactionViewState(
+  search: TransactionViewSearch
+): TransactionViewState {
+  return {
+    budgetId: search.budgetId,
+    globalFilter: search.q ?? '',
+    columnFilters: search.filters ?? EMPTY_FILTERS,
+    sorting: search.sort ?? EMPTY_SORTING,
+    showUpcoming: search.upcoming ?? true
+  }
+}
+
+/** Search params for the table state; default values are omitted. */
+export function toTransactionViewSearch(
+  state: TransactionViewState
+): TransactionViewSearch {
+  return {
+    budgetId: state.budgetId || undefined,
+    // Kept untrimmed: the search box shows this value while the user types.
+    q: state.globalFilter.trim() ? state.globalFilter : undefined,
+    filters: state.columnFilters.length > 0 ? state.columnFilters : undefined,
+    sort: state.sorting.length > 0 ? state.sorting : undefined,
+    upcoming: state.showUpcoming ? undefined : false
+  }
+}
+
+/** Whether two search states show the same rows in the same order. */
+export function isSameTransactionViewSearch(
+  a: TransactionViewSearch,
+  b: TransactionViewSearch
+): boolean {
+  const normalize = (search: TransactionViewSearch) =>
+    JSON.stringify(toTransactionViewSearch(readTransactionViewState(search)))
+  return normalize(a) === normalize(b)
+}
+
+/**
+ * Date range a saved view opens with. `current` keeps the range the page
+ * already shows; the relative kinds are resolved against `today` so a view
+ * like "this month" keeps meaning the current month.
+ */
+export function resolveSavedViewDateRange(
+  range: SavedViewDateRange,
+  today: Date,
+  current: DateRangeSearch
+): DateRangeSearch {
+  const toSearch = (from: Date, to: Date): DateRangeSearch => ({
+    from: format(from, 'yyyy-MM-dd'),
+    to: format(to, 'yyyy-MM-dd')
+  })
+  switch (range.kind) {
+    case 'current':
+      return current
+    case 'thisMonth':
+      return toSearch(startOfMonth(today), endOfMonth(today))
+    case 'lastMonth': {
+      const lastMonth = subMonths(today, 1)
+      return toSearch(startOfMonth(lastMonth), endOfMonth(lastMonth))
+    }
+    case 'last30Days':
+      return toSearch(subDays(today, 29), today)
+    case 'fixed':
+      return {
+        from: range.from,
+        to: range.to
+      }
+  }
+}
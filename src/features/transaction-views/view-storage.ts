@@ -0,0 +1,125 @@
+import { useCallback } from 'react'
+import { createLocalStore, useLocalStore } from '@/lib/local-store'
+import type { SavedViewDateRange, TransactionViewSearch } from './view-search'
+
+const EMPTY_VIEWS: SavedTransactionView[] = []
+
+export type SavedTransactionView = {
+  id: string
+  name: string
+  search: TransactionViewSearch
+  dateRange: SavedViewDateRange
+}
+
+/** Views are personal: one list per user in each household. */
+function viewScope(householdId: string, userId: string): string {
+  return householdId && userId ? `${householdId}-${userId}` : ''
+}
+
+function isStoredView(value: unknown): value is SavedTransactionView {
+  if (typeof value !== 'object' || value === null) return false
+  const view = value as Partial<SavedTransactionView>
+  return (
+    typeof view.id === 'string' &&
+    typeof view.name === 'string' &&
+    typeof view.search === 'object' &&
+    view.search !== null &&
+    typeof view.dateRange === 'object' &&
+    view.dateRange !== null &&
+    typeof view.dateRange.kind === 'string'
+  )
+}
+
+const store = createLocalStore(
+  'yoshi-transaction-views-v1',
+  (stored) =>
+    Array.isArray(stored) ? stored.filter(isStoredView) : EMPTY_VIEWS,
+  EMPTY_VIEWS
+)
+
+/**
+ * Saved transaction views in the order they were created. Stored in
+ * localStorage; a view travels to other members as a link.
+ */
+export function loadSavedTransactionViews(
+  householdId: string,
+  userId: string
+): SavedTransactionView[] {
+  return store.load(viewScope(householdId, userId))
+}
+
+export function saveSavedTransactionViews(
+  householdId: string,
+  userId: string,
+  views: SavedTransactionView[]
+): void {
+  store.save(viewScope(householdId, userId), views)
+}
+
+export type UseSavedTransactionViewsResult = {
+  views: SavedTransactionView[]
+  /** Replaces a view with the same name, or appends it. */
+  saveView: (view: SavedTransactionView) => void
+  deleteView: (viewId: string) => void
+}
+
+/** Live saved views for the signed-in user in the household. */
+export function useSavedTransactionViews(
+  householdId: string,
+  userId: string
+): UseSavedTransactionViewsResult {
+  const views = useLocalStore(store, viewScope(householdId, userId))
+
+  const saveView = useCallback(
+    (view: SavedTransactionView) => {
+      const current = loadSavedTransactionViews(householdId, userId)
+      const name = view.name.trim().toLocaleLowerCase()
+      const exists = current.some(
+        (item) => item.name.trim().toLocaleLowerCase() === name
+      )
+      saveSavedTransactionViews(
+        householdId,
+        userId,
+        exists
+          ? current.map((item) =>
+              item.name.trim().toLocaleLowerCase() === name
+                ? {
+                    ...view,
+                    id: item.id
+                  }
+                : item
+            )
+          : [
+              ...current,
+              view
+            ]
+      )
+    },
+    [
+      householdId,
+      userId
+    ]
+  )
+
+  const deleteView = useCallback(
+    (viewId: string) => {
+      saveSavedTransactionViews(
+        householdId,
+        userId,
+        loadSavedTransactionViews(householdId, userId).filter(
+          (item) => item.id !== viewId
+        )
+      )
+    },
+    [
+      householdId,
+      userId
+    ]
+  )
+
+  return {
+    views,
+    saveView,
+    deleteView
+  }
+}
@@ -113,6 +113,7 @@ export function useBulkCreateTransactions(
       invalidateByOperation(queryClient, 'listBudgets')
       invalidateByOperation(queryClient, 'getUnallocatedFunds')
       invalidateByOperation(queryClient, 'listAccounts')
+      invalidateByOperation(queryClient, 'listHouseholdTransactionRevisions')
       invalidateByOperation(queryClient, 'listAccountBalances')
       invalidateByOperation(queryClient, 'getHouseholdAccountBalanceChart')
       if (variables.transactions.some((row) => row.instanceId)) {
@@ -167,6 +168,7 @@ export function useCreateTransaction(
       invalidateByOperation(queryClient, 'listBudgets')
       invalidateByOperation(queryClient, 'getUnallocatedFunds')
       invalidateByOperation(queryClient, 'listAccounts')
+      invalidateByOperation(queryClient, 'listHouseholdTransactionRevisions')
       invalidateByOperation(queryClient, 'listAccountBalances')
       invalidateByOperation(queryClient, 'getHouseholdAccountBalanceChart')
       if (variables.instanceId) {
@@ -235,6 +237,7 @@ export function useUpdateTransaction(
       invalidateByOperation(queryClient, 'listBudgets')
       invalidateByOperation(queryClient, 'getUnallocatedFunds')
       invalidateByOperation(queryClient, 'listAccounts')
+      invalidateByOperation(queryClient, 'listHouseholdTransactionRevisions')
       queryClient.invalidateQueries({
         queryKey: getTransactionQueryKey({
           path: {
@@ -284,6 +287,7 @@ export function useDeleteTransaction(
       invalidateByOperation(queryClient, 'listBudgets')
       invalidateByOperation(queryClient, 'getUnallocatedFunds')
       invalidateByOperation(queryClient, 'listAccounts')
+      invalidateByOperation(queryClient, 'listHouseholdTransactionRevisions')
       callbacks?.onSuccess?.(data, variables)
     },
     onError: (error, variables) => callbacks?.onError?.(error, variables)
@@ -324,6 +328,7 @@ export function useCloneTransaction(
       invalidateByOperation(queryClient, 'listBudgets')
       invalidateByOperation(queryClient, 'getUnallocatedFunds')
       invalidateByOperation(queryClient, 'listAccounts')
+      invalidateByOperation(queryClient, 'listHouseholdTransactionRevisions')
       callbacks?.onSuccess?.(data, variables)
     },
     onError: (error, variables) => callbacks?.onError?.(error, variables)
@@ -1,7 +1,8 @@
-import { useQuery } from '@tanstack/react-query'
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query'
 import {
   getTransactionOptions,
   getTransactionsSummaryOptions,
+  listTransactionsInfiniteOptions,
   listTransactionsOptions
 } from '@/api/generated/@tanstack/react-query.gen'
 import type {
@@ -15,12 +16,13 @@ type ListTransactionsQuery = NonNullable<ListTransactionsData['query']>
 type GetTransactionsSummaryQuery = GetTransactionsSummaryData['query']
 
 /**
- * Hook to fetch list of transactions for a household, optionally filtered by budget.
+ * Hook to fetch list of transactions for a household, optionally filtered by budget or account.
  * Query is auto-disabled when householdId is undefined/null.
  */
 export function useTransactionsList(params: {
   householdId?: ListTransactionsQuery['householdId'] | null
   budgetId?: ListTransactionsQuery['budgetId'] | null
+  accountId?: ListTransactionsQuery['accountId'] | null
   userId?: string | null
   type?: ListTransactionsQuery['type']
   billInstanceId?: ListTransactionsQuery['billInstanceId'] | null
@@ -32,6 +34,7 @@ export function useTransactionsList(params: {
   const {
     householdId,
     budgetId,
+    accountId,
     type,
     billInstanceId,
     incomeInstanceId,
@@ -44,6 +47,7 @@ export function useTransactionsList(params: {
       query: {
         householdId: householdId ?? undefined,
         budgetId: budgetId ?? undefined,
+        accountId: accountId ?? undefined,
         type,
         billInstanceId: billInstanceId ?? undefined,
         incomeInstanceId: incomeInstanceId ?? undefined,
@@ -60,6 +64,64 @@ export function useTransactionsList(params: {
   })
 }
 
+/**
+ * Hook to fetch transactions page by page (`limit` / `offset`) for tables
+ * that load more rows as the user scrolls. `total` counts every match, not
+ * just the loaded pages.
+ */
+export function useTransactionsInfiniteList(params: {
+  householdId?: ListTransactionsQuery['householdId'] | null
+  budgetId?: ListTransactionsQuery['budgetId'] | null
+  accountId?: ListTransactionsQuery['accountId'] | null
+  categoryId?: ListTransactionsQuery['categoryId'] | null
+  type?: ListTransactionsQuery['type']
+  dateFrom?: Date
+  dateTo?: Date
+  pageSize: number
+  enabled?: boolean
+}) {
+  const {
+    householdId,
+    budgetId,
+    accountId,
+    categoryId,
+    type,
+    dateFrom,
+    dateTo,
+    pageSize,
+    enabled = true
+  } = params
+  return useInfiniteQuery({
+    ...listTransactionsInfiniteOptions({
+      query: {
+        householdId: householdId ?? undefined,
+        budgetId: budgetId ?? undefined,
+        accountId: accountId ?? undefined,
+        categoryId: categoryId ?? undefined,
+        type,
+        dateFrom: dateFrom?.toISOString(),
+        dateTo: dateTo?.toISOString(),
+        limit: pageSize
+      }
+    }),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) =>
+      lastPage.pagination?.hasMore
+        ? lastPage.pagination.offset + lastPage.pagination.limit
+        : undefined,
+    enabled: enabled && !!householdId,
+    select: (data) => ({
+      items: data.pages.flatMap((page) =>
+        (page.data ?? []).map((transaction) => ({
+          ...transaction,
+          date: fromApiDate(transaction.date)
+        }))
+      ),
+      total: data.pages.at(-1)?.pagination?.total ?? 0
+    })
+  })
+}
+
 /**
  * Hook to fetch server-side transaction totals for a filtered timestamp range.
  */
@@ -0,0 +1,9 @@
+/**
+ * Random id for records the client creates itself. Falls back to a time and
+ * random based id where `crypto.randomUUID` is missing (insecure contexts).
+ */
+export function createId(prefix: string): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2)}`
+}
@@ -0,0 +1,107 @@
+import { useSyncExternalStore } from 'react'
+
+/**
+ * One JSON value per scope (usually the household id) in localStorage, for
+ * feature data the backend has no endpoint for yet. Values are cached after
+ * the first read so `useSyncExternalStore` gets a stable snapshot; a write
+ * from another tab drops the cached value so the next read picks it up.
+ */
+export type LocalStore<T> = {
+  /**
+   * The stored value, or `empty` without a scope, without localStorage or
+   * when the stored JSON cannot be read.
+   */
+  load: (scope: string) => T
+  /**
+   * Writes the value and re-renders every component using the store. A value
+   * localStorage refuses (quota, private mode) is still kept for this tab.
+   */
+  save: (scope: string, value: T) => void
+  subscribe: (listener: () => void) => () => void
+  empty: T
+}
+
+/**
+ * Creates a store under `${key}-${scope}`. `read` narrows the parsed JSON,
+ * dropping entries older versions stored in another shape.
+ */
+export function createLocalStore<T>(
+  key: string,
+  read: (stored: unknown) => T,
+  empty: T
+): LocalStore<T> {
+  const cache = new Map<string, T>()
+  const listeners = new Set<() => void>()
+
+  function storageKey(scope: string): string {
+    return `${key}-${scope}`
+  }
+
+  function notify() {
+    for (const listener of listeners) listener()
+  }
+
+  function handleStorage(event: StorageEvent) {
+    if (event.key === null) {
+      cache.clear()
+      notify()
+      return
+    }
+    if (!event.key.startsWith(`${key}-`)) return
+    cache.delete(event.key.slice(key.length + 1))
+    notify()
+  }
+
+  return {
+    empty,
+    load(scope) {
+      if (typeof localStorage === 'undefined' || !scope) return empty
+
+      const cached = cache.get(scope)
+      if (cached) return cached
+
+      let value = empty
+      const stored = localStorage.getItem(storageKey(scope))
+      if (stored) {
+        try {
+          value = read(JSON.parse(stored))
+        } catch {
+          // Ignore invalid localStorage values and fall back to empty.
+        }
+      }
+      cache.set(scope, value)
+      return value
+    },
+    save(scope, value) {
+      try {
+        localStorage.setItem(storageKey(scope), JSON.stringify(value))
+      } catch {
+        // The server-side change this value belongs to has already happened,
+        // so a full or blocked localStorage must not surface as a failure.
+      }
+      cache.set(scope, value)
+      notify()
+    },
+    subscribe(listener) {
+      if (listeners.size === 0 && typeof window !== 'undefined') {
+        window.addEventListener('storage', handleStorage)
+      }
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+        if (listeners.size === 0 && typeof window !== 'undefined') {
+          window.removeEventListener('storage', handleStorage)
+        }
+      }
+    }
+  }
+}
+
+/** Live value of `store` for the scope. */
+export function useLocalStore<T>(store: LocalStore<T>, scope: string): T {
+  return useSyncExternalStore(
+    store.subscribe,
+    () => store.load(scope),
+    () => store.empty
+  )
+}
@@ -16,10 +16,17 @@ import { Route as AuthenticatedIndexRouteImport } from './routes/_authenticated/
 import { Route as SignUpSsoCallbackRouteImport } from './routes/sign-up/sso-callback'
 import { Route as SignInSsoCallbackRouteImport } from './routes/sign-in/sso-callback'
 import { Route as AuthenticatedTransactionsIndexRouteImport } from './routes/_authenticated/transactions/index'
+import { Route as AuthenticatedTagsIndexRouteImport } from './routes/_authenticated/tags/index'
+import { Route as AuthenticatedSettleUpIndexRouteImport } from './routes/_authenticated/settle-up/index'
 import { Route as AuthenticatedIncomeIndexRouteImport } from './routes/_authenticated/income/index'
+import { Route as AuthenticatedChangesIndexRouteImport } from './routes/_authenticated/changes/index'
 import { Route as AuthenticatedCategoriesIndexRouteImport } from './routes/_authenticated/categories/index'
+import { Route as AuthenticatedCalendarIndexRouteImport } from './routes/_authenticated/calendar/index'
 import { Route as AuthenticatedBillsIndexRouteImport } from './routes/_authenticated/bills/index'
+import { Route as AuthenticatedAssignmentRulesIndexRouteImport } from './routes/_authenticated/assignment-rules/index'
+import { Route as AuthenticatedTransactionsImportHistoryRouteImport } from './routes/_authenticated/transactions/import-history'
 import { Route as AuthenticatedTransactionsImportRouteImport } from './routes/_authenticated/transactions/import'
+import { Route as AuthenticatedReconcileAccountIdRouteImport } from './routes/_authenticated/reconcile/$accountId'
 
 const SignUpRoute = SignUpRouteImport.update({
   id: '/sign-up',
@@ -56,29 +63,70 @@ const AuthenticatedTransactionsIndexRoute =
     path: '/transactions/',
     getParentRoute: () => AuthenticatedRoute,
   } as any)
+const AuthenticatedTagsIndexRoute = AuthenticatedTagsIndexRouteImport.update({
+  id: '/tags/',
+  path: '/tags/',
+  getParentRoute: () => AuthenticatedRoute,
+} as any)
+const AuthenticatedSettleUpIndexRoute =
+  AuthenticatedSettleUpIndexRouteImport.update({
+    id: '/settle-up/',
+    path: '/settle-up/',
+    getParentRoute: () => AuthenticatedRoute,
+  } as any)
 const AuthenticatedIncomeIndexRoute =
   AuthenticatedIncomeIndexRouteImport.update({
     id: '/income/',
     path: '/income/',
     getParentRoute: () => AuthenticatedRoute,
   } as any)
+const AuthenticatedChangesIndexRoute =
+  AuthenticatedChangesIndexRouteImport.update({
+    id: '/changes/',
+    path: '/changes/',
+    getParentRoute: () => AuthenticatedRoute,
+  } as any)
 const AuthenticatedCategoriesIndexRoute =
   AuthenticatedCategoriesIndexRouteImport.update({
     id: '/categories/',
     path: '/categories/',
     getParentRoute: () => AuthenticatedRoute,
   } as any)
+const AuthenticatedCalendarIndexRoute =
+  AuthenticatedCalendarIndexRouteImport.update({
+    id: '/calendar/',
+    path: '/calendar/',
+    getParentRoute: () => AuthenticatedRoute,
+  } as any)
 const AuthenticatedBillsIndexRoute = AuthenticatedBillsIndexRouteImport.update({
   id: '/bills/',
   path: '/bills/',
   getParentRoute: () => AuthenticatedRoute,
 } as any)
+const AuthenticatedAssignmentRulesIndexRoute =
+  AuthenticatedAssignmentRulesIndexRouteImport.update({
+    id: '/assignment-rules/',
+    path: '/assignment-rules/',
+    getParentRoute: () => AuthenticatedRoute,
+  } as any)
+const AuthenticatedTransactionsImportHistoryRoute =
+  AuthenticatedTransactionsImportHistoryRouteImport.update({
+    id: '/transactions/import-history',
+    path: '/transactions/import-history',
+    getParentRoute: () => AuthenticatedRoute,
+  } as any)
 const AuthenticatedTransactionsImportRoute =
   AuthenticatedTransactionsImportRouteImport.update({
     id: '/transactions/import',
     path: '/transactions/import',
     getParentRoute: () => AuthenticatedRoute,
   } as any)
+const AuthenticatedReconcileAccountIdRoute =
+  AuthenticatedReconcileAccountIdRouteImport.update({
+    id: '/reconcile/$accountId',
+    path: '/reconcile/$accountId',
+    getParentRoute: () => AuthenticatedRoute,
+  } as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof AuthenticatedIndexRoute
@@ -86,10 +134,17 @@ export interface FileRoutesByFullPath {
   '/sign-up': typeof SignUpRouteWithChildren
   '/sign-in/sso-callback': typeof SignInSsoCallbackRoute
   '/sign-up/sso-callback': typeof SignUpSsoCallbackRoute
+  '/reconcile/$accountId': typeof AuthenticatedReconcileAccountIdRoute
   '/transactions/import': typeof AuthenticatedTransactionsImportRoute
+  '/transactions/import-history': typeof AuthenticatedTransactionsImportHistoryRoute
+  '/assignment-rules/': typeof AuthenticatedAssignmentRulesIndexRoute
   '/bills/': typeof AuthenticatedBillsIndexRoute
+  '/calendar/': typeof AuthenticatedCalendarIndexRoute
   '/categories/': typeof AuthenticatedCategoriesIndexRoute
+  '/changes/': typeof AuthenticatedChangesIndexRoute
   '/income/': typeof AuthenticatedIncomeIndexRoute
+  '/settle-up/': typeof AuthenticatedSettleUpIndexRoute
+  '/tags/': typeof AuthenticatedTagsIndexRoute
   '/transactions/': typeof AuthenticatedTransactionsIndexRoute
 }
 export interface FileRoutesByTo {
@@ -98,10 +153,17 @@ export interface FileRoutesByTo {
   '/sign-in/sso-callback': typeof SignInSsoCallbackRoute
   '/sign-up/sso-callback': typeof SignUpSsoCallbackRoute
   '/': typeof AuthenticatedIndexRoute
+  '/reconcile/$accountId': typeof AuthenticatedReconcileAccountIdRoute
   '/transactions/import': typeof AuthenticatedTransactionsImportRoute
+  '/transactions/import-history': typeof AuthenticatedTransactionsImportHistoryRoute
+  '/assignment-rules': typeof AuthenticatedAssignmentRulesIndexRoute
   '/bills': typeof AuthenticatedBillsIndexRoute
+  '/calendar': typeof AuthenticatedCalendarIndexRoute
   '/categories': typeof AuthenticatedCategoriesIndexRoute
+  '/changes': typeof AuthenticatedChangesIndexRoute
   '/income': typeof AuthenticatedIncomeIndexRoute
+  '/settle-up': typeof AuthenticatedSettleUpIndexRoute
+  '/tags': typeof AuthenticatedTagsIndexRoute
   '/transactions': typeof AuthenticatedTransactionsIndexRoute
 }
 export interface FileRoutesById {
@@ -112,10 +174,17 @@ export interface FileRoutesById {
   '/sign-in/sso-callback': typeof SignInSsoCallbackRoute
   '/sign-up/sso-callback': typeof SignUpSsoCallbackRoute
   '/_authenticated/': typeof AuthenticatedIndexRoute
+  '/_authenticated/reconcile/$accountId': typeof AuthenticatedReconcileAccountIdRoute
   '/_authenticated/transactions/import': typeof AuthenticatedTransactionsImportRoute
+  '/_authenticated/transactions/import-history': typeof AuthenticatedTransactionsImportHistoryRoute
+  '/_authenticated/assignment-rules/': typeof AuthenticatedAssignmentRulesIndexRoute
   '/_authenticated/bills/': typeof AuthenticatedBillsIndexRoute
+  '/_authenticated/calendar/': typeof AuthenticatedCalendarIndexRoute
   '/_authenticated/categories/': typeof AuthenticatedCategoriesIndexRoute
+  '/_authenticated/changes/': typeof AuthenticatedChangesIndexRoute
   '/_authenticated/income/': typeof AuthenticatedIncomeIndexRoute
+  '/_authenticated/settle-up/': typeof AuthenticatedSettleUpIndexRoute
+  '/_authenticated/tags/': typeof AuthenticatedTagsIndexRoute
   '/_authenticated/transactions/': typeof AuthenticatedTransactionsIndexRoute
 }
 export interface FileRouteTypes {
@@ -126,10 +195,17 @@ export interface FileRouteTypes {
     | '/sign-up'
     | '/sign-in/sso-callback'
     | '/sign-up/sso-callback'
+    | '/reconcile/$accountId'
     | '/transactions/import'
+    | '/transactions/import-history'
+    | '/assignment-rules/'
     | '/bills/'
+    | '/calendar/'
     | '/categories/'
+    | '/changes/'
     | '/income/'
+    | '/settle-up/'
+    | '/tags/'
     | '/transactions/'
   fileRoutesByTo: FileRoutesByTo
   to:
@@ -138,10 +214,17 @@ export interface FileRouteTypes {
     | '/sign-in/sso-callback'
     | '/sign-up/sso-callback'
     | '/'
+    | '/reconcile/$accountId'
     | '/transactions/import'
+    | '/transactions/import-history'
+    | '/assignment-rules'
     | '/bills'
+    | '/calendar'
     | '/categories'
+    | '/changes'
     | '/income'
+    | '/settle-up'
+    | '/tags'
     | '/transactions'
   id:
     | '__root__'
@@ -151,10 +234,17 @@ export interface FileRouteTypes {
     | '/sign-in/sso-callback'
     | '/sign-up/sso-callback'
     | '/_authenticated/'
+    | '/_authenticated/reconcile/$accountId'
     | '/_authenticated/transactions/import'
+    | '/_authenticated/transactions/import-history'
+    | '/_authenticated/assignment-rules/'
     | '/_authenticated/bills/'
+    | '/_authenticated/calendar/'
     | '/_authenticated/categories/'
+    | '/_authenticated/changes/'
     | '/_authenticated/income/'
+    | '/_authenticated/settle-up/'
+    | '/_authenticated/tags/'
     | '/_authenticated/transactions/'
   fileRoutesById: FileRoutesById
 }
@@ -215,6 +305,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthenticatedTransactionsIndexRouteImport
       parentRoute: typeof AuthenticatedRoute
     }
+    '/_authenticated/tags/': {
+      id: '/_authenticated/tags/'
+      path: '/tags'
+      fullPath: '/tags/'
+      preLoaderRoute: typeof AuthenticatedTagsIndexRouteImport
+      parentRoute: typeof AuthenticatedRoute
+    }
+    '/_authenticated/settle-up/': {
+      id: '/_authenticated/settle-up/'
+      path: '/settle-up'
+      fullPath: '/settle-up/'
+      preLoaderRoute: typeof AuthenticatedSettleUpIndexRouteImport
+      parentRoute: typeof AuthenticatedRoute
+    }
     '/_authenticated/income/': {
       id: '/_authenticated/income/'
       path: '/income'
@@ -222,6 +326,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthenticatedIncomeIndexRouteImport
       parentRoute: typeof AuthenticatedRoute
     }
+    '/_authenticated/changes/': {
+      id: '/_authenticated/changes/'
+      path: '/changes'
+      fullPath: '/changes/'
+      preLoaderRoute: typeof AuthenticatedChangesIndexRouteImport
+      parentRoute: typeof AuthenticatedRoute
+    }
     '/_authenticated/categories/': {
       id: '/_authenticated/categories/'
       path: '/categories'
@@ -229,6 +340,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthenticatedCategoriesIndexRouteImport
       parentRoute: typeof AuthenticatedRoute
     }
+    '/_authenticated/calendar/': {
+      id: '/_authenticated/calendar/'
+      path: '/calendar'
+      fullPath: '/calendar/'
+      preLoaderRoute: typeof AuthenticatedCalendarIndexRouteImport
+      parentRoute: typeof AuthenticatedRoute
+    }
     '/_authenticated/bills/': {
       id: '/_authenticated/bills/'
       path: '/bills'
@@ -236,6 +354,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthenticatedBillsIndexRouteImport
       parentRoute: typeof AuthenticatedRoute
     }
+    '/_authenticated/assignment-rules/': {
+      id: '/_authenticated/assignment-rules/'
+      path: '/assignment-rules'
+      fullPath: '/assignment-rules/'
+      preLoaderRoute: typeof AuthenticatedAssignmentRulesIndexRouteImport
+      parentRoute: typeof AuthenticatedRoute
+    }
+    '/_authenticated/transactions/import-history': {
+      id: '/_authenticated/transactions/import-history'
+      path: '/transactions/import-history'
+      fullPath: '/transactions/import-history'
+      preLoaderRoute: typeof AuthenticatedTransactionsImportHistoryRouteImport
+      parentRoute: typeof AuthenticatedRoute
+    }
     '/_authenticated/transactions/import': {
       id: '/_authenticated/transactions/import'
       path: '/transactions/import'
@@ -243,24 +375,47 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthenticatedTransactionsImportRouteImport
       parentRoute: typeof AuthenticatedRoute
     }
+    '/_authenticated/reconcile/$accountId': {
+      id: '/_authenticated/reconcile/$accountId'
+      path: '/reconcile/$accountId'
+      fullPath: '/reconcile/$accountId'
+      preLoaderRoute: typeof AuthenticatedReconcileAccountIdRouteImport
+      parentRoute: typeof AuthenticatedRoute
+    }
   }
 }
 
 interface AuthenticatedRouteChildren {
   AuthenticatedIndexRoute: typeof AuthenticatedIndexRoute
+  AuthenticatedReconcileAccountIdRoute: typeof AuthenticatedReconcileAccountIdRoute
   AuthenticatedTransactionsImportRoute: typeof AuthenticatedTransactionsImportRoute
+  AuthenticatedTransactionsImportHistoryRoute: typeof AuthenticatedTransactionsImportHistoryRoute
+  AuthenticatedAssignmentRulesIndexRoute: typeof AuthenticatedAssignmentRulesIndexRoute
   AuthenticatedBillsIndexRoute: typeof AuthenticatedBillsIndexRoute
+  AuthenticatedCalendarIndexRoute: typeof AuthenticatedCalendarIndexRoute
   AuthenticatedCategoriesIndexRoute: typeof AuthenticatedCategoriesIndexRoute
+  AuthenticatedChangesIndexRoute: typeof AuthenticatedChangesIndexRoute
   AuthenticatedIncomeIndexRoute: typeof AuthenticatedIncomeIndexRoute
+  AuthenticatedSettleUpIndexRoute: typeof AuthenticatedSettleUpIndexRoute
+  AuthenticatedTagsIndexRoute: typeof AuthenticatedTagsIndexRoute
   AuthenticatedTransactionsIndexRoute: typeof AuthenticatedTransactionsIndexRoute
 }
 
 const AuthenticatedRouteChildren: AuthenticatedRouteChildren = {
   AuthenticatedIndexRoute: AuthenticatedIndexRoute,
+  AuthenticatedReconcileAccountIdRoute: AuthenticatedReconcileAccountIdRoute,
   AuthenticatedTransactionsImportRoute: AuthenticatedTransactionsImportRoute,
+  AuthenticatedTransactionsImportHistoryRoute:
+    AuthenticatedTransactionsImportHistoryRoute,
+  AuthenticatedAssignmentRulesIndexRoute:
+    AuthenticatedAssignmentRulesIndexRoute,
   AuthenticatedBillsIndexRoute: AuthenticatedBillsIndexRoute,
+  AuthenticatedCalendarIndexRoute: AuthenticatedCalendarIndexRoute,
   AuthenticatedCategoriesIndexRoute: AuthenticatedCategoriesIndexRoute,
+  AuthenticatedChangesIndexRoute: AuthenticatedChangesIndexRoute,
   AuthenticatedIncomeIndexRoute: AuthenticatedIncomeIndexRoute,
+  AuthenticatedSettleUpIndexRoute: AuthenticatedSettleUpIndexRoute,
+  AuthenticatedTagsIndexRoute: AuthenticatedTagsIndexRoute,
   AuthenticatedTransactionsIndexRoute: AuthenticatedTransactionsIndexRoute,
 }
 
@@ -4,7 +4,7 @@ import { auth } from '@clerk/tanstack-react-start/server'
 import { createFileRoute, redirect } from '@tanstack/react-router'
 import { createServerFn } from '@tanstack/react-start'
 import { format, subDays } from 'date-fns'
-import { useEffect } from 'react'
+import { useCallback, useEffect } from 'react'
 import { useTranslation } from 'react-i18next'
 import { z } from 'zod'
 import { configureApiClient } from '@/api/client-config'
@@ -13,6 +13,7 @@ import { SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar'
 import { AuthProvider } from '@/contexts/auth-context'
 import { HouseholdProvider } from '@/contexts/household-context'
 import { useDrawer } from '@/drawers'
+import { useQuickAddShortcut } from '@/features/quick-add/use-quick-add-shortcut'
 import { useSelectedHousehold } from '@/hooks/use-selected-household'
 
 import { AuthenticatedOutlet } from './_authenticated/authenticated-outlet'
@@ -74,6 +75,12 @@ function AuthenticatedSidebarChrome({
   onSignOut
 }: AuthenticatedSidebarChromeProps) {
   const { openDrawer } = useDrawer()
+  const openQuickAdd = useCallback(() => {
+    openDrawer('quickAddTransaction', {})
+  }, [
+    openDrawer
+  ])
+  useQuickAddShortcut(openQuickAdd)
 
   return (
     <>
@@ -92,6 +99,7 @@ function AuthenticatedSidebarChrome({
         onShowInvitations={() => {
           openDrawer('myInvitations', {})
         }}
+        onQuickAdd={openQuickAdd}
         onSignOut={onSignOut}
       />
     </>
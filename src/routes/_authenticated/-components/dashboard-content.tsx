@@ -1,8 +1,10 @@
+import { useNavigate } from '@tanstack/react-router'
 import {
   Archive,
   ArrowDownToLine,
   ArrowUpDown,
   ArrowUpFromLine,
+  ListChecks,
   Plus,
   Scale,
   SettingsIcon,
@@ -28,6 +30,7 @@ import {
 import { TableRowMenu } from '@/components/table-row-menu/table-row-menu'
 import { useAuth } from '@/contexts/auth-context'
 import { useDrawer } from '@/drawers'
+import { useAccountReconciliations } from '@/features/account-reconciliation/use-account-reconciliations'
 import { useAccountBalanceChart, useHouseholdPeriodSummary } from '@/hooks/api'
 import { useDateRange } from '@/hooks/use-date-range'
 import { formatAccountLabel } from '@/lib/accounts'
@@ -92,7 +95,9 @@ export function DashboardContent({
   const { t } = useTranslation()
   const { householdId } = useAuth()
   const { openDrawer } = useDrawer()
-  const { dateFrom, dateTo } = useDateRange()
+  const navigate = useNavigate()
+  const { from, to, dateFrom, dateTo } = useDateRange()
+  const { accounts: reconciliations } = useAccountReconciliations(householdId)
 
   const { selectedAccountIds } = dashboardSettings
 
@@ -199,6 +204,19 @@ export function DashboardContent({
     })
   }
 
+  const openReconcileAccount = (accountId: string) => {
+    void navigate({
+      to: '/reconcile/$accountId',
+      params: {
+        accountId
+      },
+      search: {
+        from,
+        to
+      }
+    })
+  }
+
   const openEditBudgetDrawer = (budgetId: string) => {
     openDrawer('editBudget', {
       id: budgetId
@@ -398,6 +416,9 @@ export function DashboardContent({
                     <TableHead className="type-label h-auto py-2 pr-2 pl-0 text-muted-foreground">
                       {t('dashboard.balanceColumn')}
                     </TableHead>
+                    <TableHead className="type-label h-auto py-2 pr-2 pl-0 text-muted-foreground">
+                      {t('dashboard.lastReconciledColumn')}
+                    </TableHead>
                     <TableHead className="type-label h-auto w-10 py-2 pr-0 pl-0 text-end text-muted-foreground">
                       <span className="sr-only">{t('common.more')}</span>
                     </TableHead>
@@ -415,6 +436,9 @@ export function DashboardContent({
                       <TableCell className="type-body-medium py-2 pr-2 pl-0 text-foreground">
                         {formatCurrency(account.currentBalance)}
                       </TableCell>
+                      <TableCell className="type-body-medium py-2 pr-2 pl-0 text-foreground">
+                        {reconciliations[account.id]?.statementDate ?? '—'}
+                      </TableCell>
                       <TableCell className="py-2 pr-0 pl-0 text-end">
                         <TableRowMenu
                           aria-label={t('common.more')}
@@ -432,6 +456,19 @@ export function DashboardContent({
                                 openEditAccountDrawer(account.id)
                               }
                             },
+                            {
+                              id: 'reconcile',
+                              label: t('dashboard.accountRowMenu.reconcile'),
+                              icon: (
+                                <ListChecks
+                                  className="stroke-[1.5]"
+                                  aria-hidden={true}
+                                />
+                              ),
+                              onSelect: () => {
+                                openReconcileAccount(account.id)
+                              }
+                            },
                             {
                               id: 'archive',
                               label: t('dashboard.accountRowMenu.archive'),
@@ -0,0 +1,146 @@
+import { useTranslation } from 'react-i18next'
+
+import { useAppForm } from '@/components/form'
+import {
+  type AssignmentRuleLookups,
+  describeAssignmentRuleActions
+} from '@/features/assignment-rules/rule-summary'
+import {
+  findMatchingAssignmentRules,
+  resolveAssignmentRuleActions
+} from '@/features/assignment-rules/rules'
+import type {
+  AssignmentRule,
+  AssignmentRuleInput
+} from '@/features/assignment-rules/types'
+
+/** Select value for "no account"; Radix Select has no empty item. */
+const ANY_ACCOUNT = '__none__'
+
+/**
+ * Runs the household rules against a sample description so users can check a
+ * rule before the next import.
+ */
+export function AssignmentRulePreview({
+  rules,
+  lookups
+}: {
+  rules: AssignmentRule[]
+  lookups: AssignmentRuleLookups
+}) {
+  const { t } = useTranslation()
+  const form = useAppForm({
+    defaultValues: {
+      description: '',
+      amount: null as number | null,
+      accountId: ANY_ACCOUNT
+    }
+  })
+
+  return (
+    <section
+      className="flex flex-col gap-4"
+      aria-label={t('assignmentRules.preview.title')}
+    >
+      <div className="flex flex-col gap-1">
+        <h2 className="type-label text-gray-600">
+          {t('assignmentRules.preview.title')}
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          {t('assignmentRules.preview.description')}
+        </p>
+      </div>
+      <form.AppField name="description">
+        {(field) => (
+          <field.TextField
+            label={t('assignmentRules.preview.sampleDescription')}
+            placeholder={t(
+              'assignmentRules.form.descriptionContainsPlaceholder'
+            )}
+          />
+        )}
+      </form.AppField>
+      <form.AppField name="amount">
+        {(field) => (
+          <field.NumberField
+            label={t('assignmentRules.preview.sampleAmount')}
+            description={t('assignmentRules.preview.sampleAmountHelp')}
+          />
+        )}
+      </form.AppField>
+      <form.AppField name="accountId">
+        {(field) => (
+          <field.SelectField
+            label={t('assignmentRules.form.originAccount')}
+            options={[
+              {
+                value: ANY_ACCOUNT,
+                label: t('assignmentRules.preview.noAccount')
+              },
+              ...lookups.accounts.map((account) => ({
+                value: account.id,
+                label: account.name
+              }))
+            ]}
+          />
+        )}
+      </form.AppField>
+
+      <form.Subscribe selector={(s) => s.values}>
+        {(values) => {
+          if (!values.description.trim() && values.amount == null) return null
+
+          const input: AssignmentRuleInput = {
+            description: values.description,
+            signedAmount: values.amount ?? 0,
+            originAccountId:
+              values.accountId === ANY_ACCOUNT ? '' : values.accountId
+          }
+          const matched = findMatchingAssignmentRules(rules, input)
+          if (matched.length === 0) {
+            return (
+              <p className="text-sm text-muted-foreground">
+                {t('assignmentRules.preview.noMatches')}
+              </p>
+            )
+          }
+          const resolved = describeAssignmentRuleActions(
+            resolveAssignmentRuleActions(rules, input),
+            lookups,
+            t
+          )
+          return (
+            <div className="flex flex-col gap-3">
+              <div className="flex flex-col gap-1">
+                <p className="type-label text-gray-500">
+                  {t('assignmentRules.preview.matched')}
+                </p>
+                {matched.map((rule) => (
+                  <span
+                    key={rule.id}
+                    className="type-label text-foreground"
+                  >
+                    {rule.name}
+                  </span>
+                ))}
+              </div>
+              <div className="flex flex-col gap-1">
+                <p className="type-label text-gray-500">
+                  {t('assignmentRules.preview.result')}
+                </p>
+                {resolved.map((part) => (
+                  <span
+                    key={part}
+                    className="type-label text-foreground"
+                  >
+                    {part}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )
+        }}
+      </form.Subscribe>
+    </section>
+  )
+}
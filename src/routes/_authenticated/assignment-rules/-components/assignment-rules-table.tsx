@@ -0,0 +1,160 @@
+import type { TFunction } from 'i18next'
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  PencilIcon,
+  Trash2Icon
+} from 'lucide-react'
+
+import { Badge } from '@/components/badge/badge'
+import type { DataTableColumnDef } from '@/components/data-table'
+import {
+  TableRowMenu,
+  type TableRowMenuItem
+} from '@/components/table-row-menu/table-row-menu'
+
+export type AssignmentRuleTableRow = {
+  id: string
+  /** 1-based position; lower numbers win. */
+  priority: number
+  name: string
+  enabled: boolean
+  conditions: string[]
+  actions: string[]
+}
+
+function SummaryList({ parts }: { parts: string[] }) {
+  if (parts.length === 0) {
+    return <span className="type-label text-muted-foreground">{'\u2014'}</span>
+  }
+  return (
+    <span className="flex flex-col gap-0.5">
+      {parts.map((part) => (
+        <span
+          key={part}
+          className="type-label text-foreground"
+        >
+          {part}
+        </span>
+      ))}
+    </span>
+  )
+}
+
+export function createAssignmentRulesTableColumns(params: {
+  t: TFunction
+  ruleCount: number
+  onEdit: (row: AssignmentRuleTableRow) => void
+  onMove: (row: AssignmentRuleTableRow, offset: -1 | 1) => void
+  onDelete: (row: AssignmentRuleTableRow) => void
+}): DataTableColumnDef<AssignmentRuleTableRow>[] {
+  const { t, ruleCount, onEdit, onMove, onDelete } = params
+
+  return [
+    {
+      accessorKey: 'priority',
+      header: t('assignmentRules.columns.priority'),
+      cell: ({ row }) => (
+        <span className="type-label text-gray-500">
+          {row.original.priority}
+        </span>
+      ),
+      meta: {
+        globalSearchable: false
+      }
+    },
+    {
+      accessorKey: 'name',
+      header: t('assignmentRules.columns.name'),
+      cell: ({ row }) => (
+        <span className="flex flex-row flex-wrap items-center gap-2">
+          <span className="font-medium">{row.original.name}</span>
+          {row.original.enabled ? null : (
+            <Badge
+              color="gray"
+              label={t('assignmentRules.disabled')}
+            />
+          )}
+        </span>
+      ),
+      meta: {
+        globalSearchable: true,
+        searchValue: (r) => r.name
+      }
+    },
+    {
+      id: 'conditions',
+      accessorFn: (r) => r.conditions.join(' '),
+      header: t('assignmentRules.columns.conditions'),
+      enableSorting: false,
+      cell: ({ row }) => <SummaryList parts={row.original.conditions} />,
+      meta: {
+        globalSearchable: true,
+        searchValue: (r) => r.conditions.join(' ')
+      }
+    },
+    {
+      id: 'actions',
+      accessorFn: (r) => r.actions.join(' '),
+      header: t('assignmentRules.columns.actions'),
+      enableSorting: false,
+      cell: ({ row }) => <SummaryList parts={row.original.actions} />,
+      meta: {
+        globalSearchable: true,
+        searchValue: (r) => r.actions.join(' ')
+      }
+    },
+    {
+      id: 'rowActions',
+      header: '',
+      enableSorting: false,
+      cell: ({ row }) => {
+        const rule = row.original
+        const items: TableRowMenuItem[] = [
+          {
+            id: 'edit',
+            label: t('assignmentRules.edit'),
+            icon: <PencilIcon />,
+            onSelect: () => onEdit(rule)
+          }
+        ]
+        if (rule.priority > 1) {
+          items.push({
+            id: 'moveUp',
+            label: t('assignmentRules.moveUp'),
+            icon: <ArrowUpIcon />,
+            onSelect: () => onMove(rule, -1)
+          })
+        }
+        if (rule.priority < ruleCount) {
+          items.push({
+            id: 'moveDown',
+            label: t('assignmentRules.moveDown'),
+            icon: <ArrowDownIcon />,
+            onSelect: () => onMove(rule, 1)
+          })
+        }
+        items.push({
+          id: 'delete',
+          label: t('common.delete'),
+          icon: <Trash2Icon />,
+          onSelect: () => onDelete(rule),
+          destructive: true,
+          separatorBefore: true
+        })
+
+        return (
+          <div className="flex flex-row justify-end">
+            <TableRowMenu
+              aria-label={t('common.actions')}
+              items={items}
+            />
+          </div>
+        )
+      },
+      meta: {
+        globalSearchable: false
+      }
+    }
+  ]
+}
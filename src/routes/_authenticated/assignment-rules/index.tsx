@@ -0,0 +1,191 @@
+/**
+ * Assignment rules — household rules that prefill type, recipient, category,
+ * and budget for imported statement rows, in priority order.
+ */
+
+import { createFileRoute } from '@tanstack/react-router'
+import { PlusIcon } from 'lucide-react'
+import { type ReactNode, useCallback, useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+
+import { DataTable, useDataTable } from '@/components/data-table'
+import { PageLayout } from '@/components/page-layout/page-layout'
+import { useAuth } from '@/contexts/auth-context'
+import { useDrawer } from '@/drawers'
+import {
+  describeAssignmentRuleActions,
+  describeAssignmentRuleConditions
+} from '@/features/assignment-rules/rule-summary'
+import { useAssignmentRuleLookups } from '@/features/assignment-rules/use-assignment-rule-lookups'
+import { useAssignmentRules } from '@/features/assignment-rules/use-assignment-rules'
+import { getErrorMessage } from '@/lib/api-error'
+import { AssignmentRulePreview } from './-components/assignment-rule-preview'
+import {
+  type AssignmentRuleTableRow,
+  createAssignmentRulesTableColumns
+} from './-components/assignment-rules-table'
+
+export const Route = createFileRoute('/_authenticated/assignment-rules/')({
+  component: AssignmentRulesPage
+})
+
+function AssignmentRulesPage() {
+  const { userId, householdId } = useAuth()
+  const { t } = useTranslation()
+  const { openDrawer } = useDrawer()
+  const {
+    rules,
+    isLoading: rulesLoading,
+    deleteRule,
+    moveRule
+  } = useAssignmentRules(householdId)
+  const { lookups, isLoading } = useAssignmentRuleLookups({
+    householdId,
+    userId
+  })
+
+  const tableRows: AssignmentRuleTableRow[] = useMemo(
+    () =>
+      rules.map((rule, index) => ({
+        id: rule.id,
+        priority: index + 1,
+        name: rule.name || t('assignmentRules.unnamed'),
+        enabled: rule.enabled,
+        conditions: describeAssignmentRuleConditions(
+          rule.conditions,
+          lookups,
+          t
+        ),
+        actions: describeAssignmentRuleActions(rule.actions, lookups, t)
+      })),
+    [
+      rules,
+      lookups,
+      t
+    ]
+  )
+
+  const handleCreate = useCallback(() => {
+    openDrawer('assignmentRule', {})
+  }, [
+    openDrawer
+  ])
+
+  const handleEdit = useCallback(
+    (row: AssignmentRuleTableRow) => {
+      openDrawer('assignmentRule', {
+        ruleId: row.id
+      })
+    },
+    [
+      openDrawer
+    ]
+  )
+
+  const handleMove = useCallback(
+    (row: AssignmentRuleTableRow, offset: -1 | 1) => {
+      moveRule(row.id, offset)
+    },
+    [
+      moveRule
+    ]
+  )
+
+  const handleDelete = useCallback(
+    async (row: AssignmentRuleTableRow) => {
+      if (
+        !window.confirm(
+          t('assignmentRules.deleteConfirm', {
+            name: row.name
+          })
+        )
+      )
+        return
+      try {
+        await deleteRule(row.id)
+      } catch (error) {
+        toast.error(getErrorMessage(error))
+        return
+      }
+      toast.success(t('assignmentRules.deleteSuccess'))
+    },
+    [
+      deleteRule,
+      t
+    ]
+  )
+
+  const columns = useMemo(
+    () =>
+      createAssignmentRulesTableColumns({
+        t,
+        ruleCount: rules.length,
+        onEdit: handleEdit,
+        onMove: handleMove,
+        onDelete: handleDelete
+      }),
+    [
+      t,
+      rules.length,
+      handleEdit,
+      handleMove,
+      handleDelete
+    ]
+  )
+
+  const { table, globalFilter, setGlobalFilter, activeFilters } = useDataTable({
+    data: tableRows,
+    columns
+  })
+
+  const filteredRowCount = table.getFilteredRowModel().rows.length
+
+  const tableEmptyMessage = useMemo((): ReactNode | undefined => {
+    if (rules.length === 0) return t('assignmentRules.empty')
+    if (filteredRowCount === 0) return t('common.noResultsFound')
+    return undefined
+  }, [
+    rules.length,
+    filteredRowCount,
+    t
+  ])
+
+  return (
+    <PageLayout
+      title={t('assignmentRules.title')}
+      description={t('assignmentRules.pageDescription')}
+      loadingContent={isLoading || rulesLoading}
+    >
+      <div className="flex min-h-0 flex-1 flex-col gap-8 overflow-hidden lg:flex-row lg:items-stretch">
+        <div className="flex min-h-0 min-w-0 flex-1 flex-col overflow-hidden">
+          <DataTable
+            table={table}
+            columns={columns}
+            globalFilter={globalFilter}
+            onGlobalFilterChange={setGlobalFilter}
+            activeFilters={activeFilters}
+            actionButton={{
+              label: t('assignmentRules.createAction'),
+              icon: <PlusIcon />,
+              onClick: handleCreate,
+              disabled: !householdId
+            }}
+            toolbarLabels={{
+              searchPlaceholder: t('common.search'),
+              filter: t('common.filter'),
+              pillRemoveAriaLabel: t('common.removeFilter')
+            }}
+            emptyMessage={tableEmptyMessage}
+          />
+        </div>
+        <aside className="flex min-h-0 w-full shrink-0 flex-col overflow-y-auto border-gray-200 border-t pt-6 lg:w-80 lg:border-t-0 lg:border-l lg:pt-0 lg:pl-6">
+          <AssignmentRulePreview
+            rules={rules}
+            lookups={lookups}
+          />
+        </aside>
+      </div>
+    </PageLayout>
+  )
+}
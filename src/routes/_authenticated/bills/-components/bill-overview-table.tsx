@@ -18,6 +18,8 @@ import {
   splitLinesToolbarSearchText
 } from '@/components/split-lines-table-cell/split-lines-table-cell'
 import { TableRowMenu } from '@/components/table-row-menu/table-row-menu'
+import { AttachmentIndicator } from '@/features/attachments/attachment-indicator'
+import { RecurrenceRuleDriftIndicator } from '@/features/recurrence-rules/recurrence-rule-drift-indicator'
 import { formatCurrency } from '@/lib/utils'
 
 export type BillOverviewStatus = 'handled' | 'paid' | 'overdue' | 'upcoming'
@@ -36,6 +38,8 @@ export type BillOverviewRow = {
   id: string
   billId: string | null
   dueDate: Date
+  /** The date rule's day when this unpaid instance has drifted off it. */
+  ruleDate: Date | null
   billName: string
   billSeriesName: string | null
   status: BillOverviewStatus
@@ -77,6 +81,8 @@ export type BillOverviewRow = {
   }>
   recipientId: string
   recipientName: string
+  /** Attached invoices and receipts. */
+  attachmentCount: number
 }
 
 export function mapBillOverviewStatus(
@@ -193,10 +199,14 @@ export function createBillOverviewColumns(opts: {
       id: 'dueDate',
       accessorFn: (row) => row.dueDate.getTime(),
       header: t('common.dueDate'),
-      cell: ({ row }) =>
-        format(row.original.dueDate, 'P', {
-          locale: sv
-        }),
+      cell: ({ row }) => (
+        <span className="inline-flex items-center gap-1">
+          {format(row.original.dueDate, 'P', {
+            locale: sv
+          })}
+          <RecurrenceRuleDriftIndicator ruleDate={row.original.ruleDate} />
+        </span>
+      ),
       sortingFn: 'basic',
       filterFn: (row, _columnId, filterValue: BillOverviewDateFilterValue) => {
         const time = row.original.dueDate.getTime()
@@ -510,6 +520,15 @@ export function createBillOverviewColumns(opts: {
         return filterValue.includes(row.original.recipientId)
       }
     },
+    {
+      id: 'attachments',
+      accessorKey: 'attachmentCount',
+      header: t('attachments.column'),
+      cell: ({ row }) => (
+        <AttachmentIndicator count={row.original.attachmentCount} />
+      ),
+      sortingFn: 'basic'
+    },
     {
       id: 'actions',
       enableSorting: false,
@@ -25,7 +25,10 @@ import {
 import { Tabs, TabsList, TabsTrigger } from '@/components/tabs/tabs'
 import { useAuth } from '@/contexts/auth-context'
 import { useDrawer } from '@/drawers'
+import { attachmentCountsByOwner } from '@/features/attachments/attachments'
+import { useHouseholdAttachments } from '@/features/attachments/use-attachments'
 import { NoData } from '@/features/no-data/no-data'
+import { useRecurrenceRuleDrift } from '@/features/recurrence-rules/use-recurrence-rule-drift'
 import {
   useAccountsList,
   useBillInstancesList,
@@ -247,6 +250,18 @@ function BillsPageContent({
   const isOverviewLoading = bills.length > 0 && instancesLoading
   const hasOverviewError = bills.length > 0 && instancesError
 
+  const { data: householdAttachments } = useHouseholdAttachments({
+    householdId
+  })
+  const attachmentCounts = useMemo(
+    () => attachmentCountsByOwner(householdAttachments ?? [], 'BILL_INSTANCE'),
+    [
+      householdAttachments
+    ]
+  )
+
+  const ruleDriftDate = useRecurrenceRuleDrift(householdId ?? '')
+
   const overviewRows = useMemo(() => {
     if (rawInstances.length === 0) return EMPTY_OVERVIEW_ROWS
 
@@ -275,6 +290,10 @@ function BillsPageContent({
         id: inst.id,
         billId: inst.bill?.id ?? null,
         dueDate: inst.dueDate,
+        ruleDate: ruleDriftDate('bills', inst.bill?.id, {
+          date: inst.dueDate,
+          pending: !hasTransaction
+        }),
         billName: inst.name,
         billSeriesName: inst.bill?.name ?? null,
         status: mapBillOverviewStatus(inst.status),
@@ -321,13 +340,16 @@ function BillsPageContent({
         ),
         splitPrefillLines,
         recipientId: inst.recipient.id,
-        recipientName: inst.recipient.name ?? ''
+        recipientName: inst.recipient.name ?? '',
+        attachmentCount: attachmentCounts.get(inst.id) ?? 0
       } satisfies BillOverviewRow
     })
   }, [
     rawInstances,
     budgetById,
     categoryById,
+    attachmentCounts,
+    ruleDriftDate,
     t
   ])
 
@@ -0,0 +1,132 @@
+import { format } from 'date-fns'
+import { sv } from 'date-fns/locale'
+import { ArrowLeftRight, Link2, SquarePen } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+
+import { Badge, type BadgeColor } from '@/components/badge/badge'
+import { Button } from '@/components/button/button'
+import {
+  type CalendarEvent,
+  isPendingEvent
+} from '@/features/cash-flow-calendar/calendar'
+import { RecurrenceRuleDriftIndicator } from '@/features/recurrence-rules/recurrence-rule-drift-indicator'
+import { formatCurrency } from '@/lib/utils'
+
+const STATUS_BADGE_COLOR: Record<CalendarEvent['status'], BadgeColor> = {
+  UPCOMING: 'gray',
+  OVERDUE: 'red',
+  HANDLED: 'blue',
+  PAID: 'green',
+  RECEIVED: 'green'
+}
+
+type CalendarDayPanelProps = {
+  day: Date
+  events: CalendarEvent[]
+  /** Projected balance at the end of the day, when the day is today or later. */
+  balance: number | undefined
+  onEditInstance: (event: CalendarEvent) => void
+  onCreateTransaction: (event: CalendarEvent) => void
+  onOpenTransaction: (transactionId: string) => void
+}
+
+/**
+ * The selected day's bills and incomes with their status and the actions the
+ * bill and income tables offer: edit the instance, or create or open its
+ * transaction.
+ */
+export function CalendarDayPanel({
+  day,
+  events,
+  balance,
+  onEditInstance,
+  onCreateTransaction,
+  onOpenTransaction
+}: CalendarDayPanelProps) {
+  const { t } = useTranslation()
+
+  const statusLabel = (event: CalendarEvent) =>
+    event.kind === 'bill'
+      ? t(`bills.status_.${event.status.toLowerCase()}`)
+      : t(`income.status.${event.status}`)
+
+  return (
+    <section
+      className="flex flex-col gap-3"
+      aria-label={t('calendar.dayPanel.aria')}
+    >
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h2 className="type-body-strong text-gray-950 first-letter:uppercase">
+          {format(day, 'EEEE d MMMM', {
+            locale: sv
+          })}
+        </h2>
+        {balance !== undefined ? (
+          <span className="type-label text-gray-700">
+            {t('calendar.dayPanel.balance', {
+              amount: formatCurrency(balance)
+            })}
+          </span>
+        ) : null}
+      </div>
+      {events.length === 0 ? (
+        <p className="type-body-medium text-gray-600">
+          {t('calendar.dayPanel.empty')}
+        </p>
+      ) : (
+        <ul className="flex flex-col divide-y divide-gray-200">
+          {events.map((event) => (
+            <li
+              key={event.id}
+              className="flex flex-wrap items-center gap-2 py-2"
+            >
+              <Badge
+                color={STATUS_BADGE_COLOR[event.status]}
+                label={statusLabel(event)}
+              />
+              <span className="type-body-strong min-w-0 flex-1 truncate text-gray-950">
+                {event.name}
+              </span>
+              <RecurrenceRuleDriftIndicator ruleDate={event.ruleDate} />
+              <span className="type-body-medium text-gray-800 tabular-nums">
+                {event.kind === 'income' ? '+' : '−'}
+                {formatCurrency(event.amount)}
+              </span>
+              <div className="flex flex-wrap gap-1">
+                {isPendingEvent(event) ? (
+                  <>
+                    <Button
+                      variant="text"
+                      color="primary"
+                      icon={<SquarePen aria-hidden />}
+                      label={t('calendar.dayPanel.edit')}
+                      onClick={() => onEditInstance(event)}
+                    />
+                    <Button
+                      variant="text"
+                      color="primary"
+                      icon={<ArrowLeftRight aria-hidden />}
+                      label={t('calendar.dayPanel.createTransaction')}
+                      onClick={() => onCreateTransaction(event)}
+                    />
+                  </>
+                ) : event.transactionId ? (
+                  <Button
+                    variant="text"
+                    color="primary"
+                    icon={<Link2 aria-hidden />}
+                    label={t('calendar.dayPanel.openTransaction')}
+                    onClick={() =>
+                      event.transactionId &&
+                      onOpenTransaction(event.transactionId)
+                    }
+                  />
+                ) : null}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,231 @@
+import { format, isSameMonth } from 'date-fns'
+import { sv } from 'date-fns/locale'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import {
+  type CalendarEvent,
+  type CalendarView,
+  calendarDayKey,
+  isPendingEvent
+} from '@/features/cash-flow-calendar/calendar'
+import { RecurrenceRuleDriftIndicator } from '@/features/recurrence-rules/recurrence-rule-drift-indicator'
+import { cn, formatCurrency } from '@/lib/utils'
+
+/** Chips shown per day in the month view before "n more". */
+const MONTH_VIEW_EVENT_LIMIT = 3
+
+const DRAG_MIME_TYPE = 'application/x-yoshi-calendar-event'
+
+const STATUS_CHIP_CLASS: Record<CalendarEvent['status'], string> = {
+  UPCOMING: 'bg-gray-100 text-gray-800',
+  OVERDUE: 'bg-red-100 text-red-700',
+  HANDLED: 'bg-blue-100 text-blue-600',
+  PAID: 'bg-green-100 text-green-500',
+  RECEIVED: 'bg-green-100 text-green-500'
+}
+
+type CashFlowCalendarGridProps = {
+  view: CalendarView
+  /** Month being viewed; days outside it are dimmed in the month view. */
+  anchor: Date
+  days: Date[]
+  todayKey: string
+  selectedDayKey: string | null
+  eventsByDay: ReadonlyMap<string, CalendarEvent[]>
+  balances: ReadonlyMap<string, number>
+  onSelectDay: (dayKey: string) => void
+  onOpenEvent: (event: CalendarEvent) => void
+  onReschedule: (event: CalendarEvent, day: Date) => void
+}
+
+function EventChip({
+  event,
+  onOpen
+}: {
+  event: CalendarEvent
+  onOpen: (event: CalendarEvent) => void
+}) {
+  const { t } = useTranslation()
+  const draggable = isPendingEvent(event)
+  const sign = event.kind === 'income' ? '+' : '−'
+
+  return (
+    <button
+      type="button"
+      draggable={draggable}
+      onDragStart={(dragEvent) => {
+        dragEvent.dataTransfer.setData(DRAG_MIME_TYPE, event.id)
+        dragEvent.dataTransfer.effectAllowed = 'move'
+      }}
+      onClick={(clickEvent) => {
+        clickEvent.stopPropagation()
+        onOpen(event)
+      }}
+      title={
+        draggable
+          ? t('calendar.dragHint', {
+              name: event.name
+            })
+          : event.name
+      }
+      className={cn(
+        'type-label-small flex w-full min-w-0 items-center justify-between gap-1 rounded-sm px-1 py-0.5 text-left',
+        STATUS_CHIP_CLASS[event.status],
+        draggable ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'
+      )}
+    >
+      <span className="flex min-w-0 items-center gap-0.5">
+        <span className="min-w-0 truncate">{event.name}</span>
+        <RecurrenceRuleDriftIndicator ruleDate={event.ruleDate} />
+      </span>
+      <span className="shrink-0 tabular-nums">
+        {sign}
+        {formatCurrency(event.amount)}
+      </span>
+    </button>
+  )
+}
+
+/**
+ * Month or week grid of bill and income instances with the projected balance
+ * at the end of each day. Pending instances can be dragged to another day.
+ */
+export function CashFlowCalendarGrid({
+  view,
+  anchor,
+  days,
+  todayKey,
+  selectedDayKey,
+  eventsByDay,
+  balances,
+  onSelectDay,
+  onOpenEvent,
+  onReschedule
+}: CashFlowCalendarGridProps) {
+  const { t } = useTranslation()
+  const [dropTargetKey, setDropTargetKey] = useState<string | null>(null)
+  const eventsById = new Map<string, CalendarEvent>()
+  for (const dayEvents of eventsByDay.values()) {
+    for (const event of dayEvents) eventsById.set(event.id, event)
+  }
+
+  return (
+    <div className="flex flex-col overflow-hidden rounded-md border border-gray-200">
+      <div className="grid grid-cols-7 border-gray-200 border-b bg-gray-50">
+        {days.slice(0, 7).map((day) => (
+          <div
+            key={calendarDayKey(day)}
+            className="type-label px-2 py-1 text-gray-700 capitalize"
+          >
+            {format(day, 'EEE', {
+              locale: sv
+            })}
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-7">
+        {days.map((day) => {
+          const key = calendarDayKey(day)
+          const dayEvents = eventsByDay.get(key) ?? []
+          const visibleEvents =
+            view === 'month'
+              ? dayEvents.slice(0, MONTH_VIEW_EVENT_LIMIT)
+              : dayEvents
+          const hiddenCount = dayEvents.length - visibleEvents.length
+          const balance = balances.get(key)
+          const outsideMonth = view === 'month' && !isSameMonth(day, anchor)
+
+          return (
+            // biome-ignore lint/a11y/noStaticElementInteractions: the day header button is the keyboard path; the cell is only a drop target
+            <div
+              key={key}
+              onDragOver={(dragEvent) => {
+                if (!dragEvent.dataTransfer.types.includes(DRAG_MIME_TYPE))
+                  return
+                dragEvent.preventDefault()
+                dragEvent.dataTransfer.dropEffect = 'move'
+                setDropTargetKey(key)
+              }}
+              onDragLeave={() =>
+                setDropTargetKey((current) =>
+                  current === key ? null : current
+                )
+              }
+              onDrop={(dragEvent) => {
+                dragEvent.preventDefault()
+                setDropTargetKey(null)
+                const event = eventsById.get(
+                  dragEvent.dataTransfer.getData(DRAG_MIME_TYPE)
+                )
+                if (event && calendarDayKey(event.date) !== key) {
+                  onReschedule(event, day)
+                }
+              }}
+              className={cn(
+                'flex flex-col gap-1 border-gray-200 border-r border-b p-1 [&:nth-child(7n)]:border-r-0',
+                view === 'month' ? 'min-h-28' : 'min-h-64',
+                outsideMonth && 'bg-gray-50',
+                selectedDayKey === key && 'ring-2 ring-blue-400 ring-inset',
+                dropTargetKey === key && 'bg-blue-50'
+              )}
+            >
+              <button
+                type="button"
+                onClick={() => onSelectDay(key)}
+                aria-label={t('calendar.selectDay', {
+                  date: format(day, 'PPPP', {
+                    locale: sv
+                  })
+                })}
+                className="flex items-baseline justify-between gap-1 rounded-sm px-1 text-left hover:bg-gray-100"
+              >
+                <span
+                  className={cn(
+                    'type-label',
+                    key === todayKey
+                      ? 'rounded-full bg-blue-600 px-1.5 text-white'
+                      : outsideMonth
+                        ? 'text-gray-500'
+                        : 'text-gray-950'
+                  )}
+                >
+                  {format(day, 'd')}
+                </span>
+                {balance !== undefined ? (
+                  <span
+                    className={cn(
+                      'type-label-small tabular-nums',
+                      balance < 0 ? 'text-red-700' : 'text-gray-600'
+                    )}
+                    title={t('calendar.projectedBalance')}
+                  >
+                    {formatCurrency(balance)}
+                  </span>
+                ) : null}
+              </button>
+              {visibleEvents.map((event) => (
+                <EventChip
+                  key={event.id}
+                  event={event}
+                  onOpen={onOpenEvent}
+                />
+              ))}
+              {hiddenCount > 0 ? (
+                <button
+                  type="button"
+                  className="type-label-small px-1 text-left text-blue-600 hover:underline"
+                  onClick={() => onSelectDay(key)}
+                >
+                  {t('calendar.more', {
+                    count: hiddenCount
+                  })}
+                </button>
+              ) : null}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
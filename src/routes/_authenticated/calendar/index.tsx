@@ -0,0 +1,578 @@
+/**
+ * Cash flow calendar — bill and income instances by day for a month or week,
+ * with the projected balance and drag-to-reschedule.
+ */
+
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import {
+  addMonths,
+  addWeeks,
+  endOfDay,
+  format,
+  getISOWeek,
+  isBefore,
+  parseISO,
+  startOfDay,
+  subMonths
+} from 'date-fns'
+import { sv } from 'date-fns/locale'
+import {
+  CalendarDays,
+  CalendarRange,
+  ChevronLeft,
+  ChevronRight,
+  HandCoins,
+  ReceiptText,
+  Wallet
+} from 'lucide-react'
+import { useCallback, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { z } from 'zod'
+
+import { Button } from '@/components/button/button'
+import { IconButton } from '@/components/icon-button/icon-button'
+import {
+  PageLayout,
+  type PageLayoutProps
+} from '@/components/page-layout/page-layout'
+import { Tabs, TabsList, TabsTrigger } from '@/components/tabs/tabs'
+import { useAuth } from '@/contexts/auth-context'
+import { useDrawer } from '@/drawers'
+import {
+  type CalendarEvent,
+  type CalendarView,
+  calendarDayKey,
+  calendarDays,
+  calendarRange,
+  groupEventsByDay,
+  projectedDailyBalances,
+  rescheduledDate
+} from '@/features/cash-flow-calendar/calendar'
+import { useRecurrenceRuleDrift } from '@/features/recurrence-rules/use-recurrence-rule-drift'
+import {
+  useAccountBalancesList,
+  useBillInstancesList,
+  useIncomeInstancesFilteredList,
+  useIncomeSourcesList,
+  useUpdateBillInstance,
+  useUpdateIncomeInstance
+} from '@/hooks/api'
+import { fromApiDate } from '@/hooks/api/date-normalization'
+import { getErrorMessage } from '@/lib/api-error'
+import { formatCurrency } from '@/lib/utils'
+import { CalendarDayPanel } from './-components/calendar-day-panel'
+import { CashFlowCalendarGrid } from './-components/cash-flow-calendar-grid'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const calendarSearchSchema = z.object({
+  view: z
+    .enum([
+      'month',
+      'week'
+    ])
+    .optional()
+    .catch(undefined),
+  day: z.string().regex(DATE_PATTERN).optional().catch(undefined)
+})
+
+export const Route = createFileRoute('/_authenticated/calendar/')({
+  component: CashFlowCalendarPage,
+  validateSearch: (search) => calendarSearchSchema.parse(search)
+})
+
+/** Unpaid instances this far back still count against today's balance. */
+const OVERDUE_LOOKBACK_MONTHS = 3
+
+function CashFlowCalendarPage() {
+  const { householdId, userId } = useAuth()
+  const { t } = useTranslation()
+  const { openDrawer } = useDrawer()
+  const navigate = useNavigate()
+  const search = Route.useSearch()
+  const view: CalendarView = search.view ?? 'month'
+  const today = useMemo(() => startOfDay(new Date()), [])
+  const anchor = useMemo(
+    () => (search.day ? parseISO(search.day) : today),
+    [
+      search.day,
+      today
+    ]
+  )
+  const [selectedDayKey, setSelectedDayKey] = useState<string | null>(null)
+
+  const days = useMemo(
+    () => calendarDays(view, anchor),
+    [
+      view,
+      anchor
+    ]
+  )
+  const range = useMemo(
+    () => calendarRange(view, anchor),
+    [
+      view,
+      anchor
+    ]
+  )
+  // Fetch from the overdue window on so the projection sees unpaid instances
+  // and everything between today and a later view.
+  const fetchFrom = useMemo(() => {
+    const overdueFrom = subMonths(today, OVERDUE_LOOKBACK_MONTHS)
+    return isBefore(range.start, overdueFrom) ? range.start : overdueFrom
+  }, [
+    range.start,
+    today
+  ])
+  const fetchTo = useMemo(
+    () => endOfDay(range.end),
+    [
+      range.end
+    ]
+  )
+
+  const { data: billInstances = [], isLoading: billsLoading } =
+    useBillInstancesList({
+      householdId,
+      dateFrom: fetchFrom,
+      dateTo: fetchTo
+    })
+  const { data: incomeInstances = [], isLoading: incomeLoading } =
+    useIncomeInstancesFilteredList({
+      householdId,
+      dateFrom: fetchFrom,
+      dateTo: fetchTo
+    })
+  const { data: incomeSources = [] } = useIncomeSourcesList({
+    householdId,
+    userId
+  })
+  const { data: accountBalances = [], isLoading: balancesLoading } =
+    useAccountBalancesList({
+      householdId,
+      userId,
+      includeArchived: false
+    })
+  const { mutate: updateBillInstance } = useUpdateBillInstance()
+  const { mutate: updateIncomeInstance } = useUpdateIncomeInstance()
+
+  const ruleDriftDate = useRecurrenceRuleDrift(householdId)
+
+  const events = useMemo<CalendarEvent[]>(
+    () => [
+      ...billInstances.map((instance) => {
+        const transactionId = instance.transaction?.id ?? null
+        return {
+          id: instance.id,
+          kind: 'bill' as const,
+          name: instance.name,
+          amount: instance.amount,
+          date: instance.dueDate,
+          status: instance.status,
+          transactionId,
+          ruleDate: ruleDriftDate('bills', instance.bill?.id, {
+            date: instance.dueDate,
+            pending: transactionId === null
+          })
+        }
+      }),
+      ...incomeInstances.map((instance) => {
+        const date = fromApiDate(instance.expectedDate)
+        const transactionId =
+          instance.transaction?.id ?? instance.transactionId ?? null
+        return {
+          id: instance.id,
+          kind: 'income' as const,
+          name: instance.name,
+          amount: instance.amount,
+          date,
+          status: instance.status,
+          transactionId,
+          ruleDate: ruleDriftDate('incomes', instance.incomeId, {
+            date,
+            pending: transactionId === null
+          })
+        }
+      })
+    ],
+    [
+      billInstances,
+      incomeInstances,
+      ruleDriftDate
+    ]
+  )
+  const eventsByDay = useMemo(
+    () => groupEventsByDay(events),
+    [
+      events
+    ]
+  )
+  const startingBalance = useMemo(
+    () =>
+      accountBalances.reduce(
+        (sum, balance) => sum + Number(balance.currentBalance),
+        0
+      ),
+    [
+      accountBalances
+    ]
+  )
+  const balances = useMemo(
+    () =>
+      projectedDailyBalances({
+        days,
+        events,
+        startingBalance,
+        today
+      }),
+    [
+      days,
+      events,
+      startingBalance,
+      today
+    ]
+  )
+
+  const visibleKeys = useMemo(
+    () => new Set(days.map(calendarDayKey)),
+    [
+      days
+    ]
+  )
+  const periodTotals = useMemo(() => {
+    let incomes = 0
+    let bills = 0
+    for (const event of events) {
+      if (!visibleKeys.has(calendarDayKey(event.date))) continue
+      if (event.kind === 'income') incomes += event.amount
+      else bills += event.amount
+    }
+    return {
+      incomes,
+      bills
+    }
+  }, [
+    events,
+    visibleKeys
+  ])
+
+  const setSearch = useCallback(
+    (next: { view?: CalendarView; day?: Date }) => {
+      void navigate({
+        to: '.',
+        search: (prev) => ({
+          ...prev,
+          ...(next.view
+            ? {
+                view: next.view
+              }
+            : {}),
+          ...(next.day
+            ? {
+                day: calendarDayKey(next.day)
+              }
+            : {})
+        }),
+        replace: true
+      })
+    },
+    [
+      navigate
+    ]
+  )
+
+  const step = (direction: 1 | -1) =>
+    setSearch({
+      day:
+        view === 'week'
+          ? addWeeks(anchor, direction)
+          : addMonths(anchor, direction)
+    })
+
+  const openInstance = useCallback(
+    (event: CalendarEvent) => {
+      if (event.kind === 'bill') {
+        openDrawer('editBillInstance', {
+          instanceId: event.id
+        })
+      } else {
+        openDrawer('editIncomeInstance', {
+          instanceId: event.id
+        })
+      }
+    },
+    [
+      openDrawer
+    ]
+  )
+
+  const openTransaction = useCallback(
+    (transactionId: string) =>
+      openDrawer('editTransaction', {
+        transactionId
+      }),
+    [
+      openDrawer
+    ]
+  )
+
+  const openEvent = useCallback(
+    (event: CalendarEvent) => {
+      if (event.transactionId) openTransaction(event.transactionId)
+      else openInstance(event)
+    },
+    [
+      openInstance,
+      openTransaction
+    ]
+  )
+
+  const createTransaction = useCallback(
+    (event: CalendarEvent) => {
+      if (event.kind === 'bill') {
+        const instance = billInstances.find((item) => item.id === event.id)
+        if (!instance) return
+        const splits = (instance.splits ?? []).map((split) => ({
+          subtitle: split.subtitle ?? '',
+          amount: split.amount,
+          budgetId: split.budgetId ?? split.budget?.id ?? null,
+          categoryId: split.categoryId ?? split.category?.id ?? ''
+        }))
+        openDrawer('createTransaction', {
+          billInstance: {
+            instanceId: instance.id,
+            name: instance.name,
+            amount: instance.amount,
+            date: instance.dueDate,
+            accountId: instance.account?.id ?? null,
+            categoryId: instance.category?.id ?? null,
+            budgetId: instance.budget?.id ?? null,
+            recipientId: instance.recipient.id,
+            splits: splits.length > 0 ? splits : undefined
+          }
+        })
+        return
+      }
+      const instance = incomeInstances.find((item) => item.id === event.id)
+      if (!instance) return
+      openDrawer('createTransaction', {
+        incomeInstance: {
+          instanceId: instance.id,
+          name: instance.name,
+          amount: instance.amount,
+          date: fromApiDate(instance.expectedDate),
+          accountId: instance.accountId,
+          categoryId: instance.categoryId ?? null,
+          senderName:
+            incomeSources.find(
+              (source) => source.id === instance.incomeSourceId
+            )?.name ?? ''
+        }
+      })
+    },
+    [
+      billInstances,
+      incomeInstances,
+      incomeSources,
+      openDrawer
+    ]
+  )
+
+  const reschedule = useCallback(
+    (event: CalendarEvent, day: Date) => {
+      const date = rescheduledDate(event.date, day)
+      const callbacks = {
+        onSuccess: () =>
+          toast.success(
+            t('calendar.rescheduled', {
+              name: event.name,
+              date: format(date, 'd MMMM', {
+                locale: sv
+              })
+            })
+          ),
+        onError: (error: Error) => toast.error(getErrorMessage(error))
+      }
+      if (event.kind === 'bill') {
+        updateBillInstance(
+          {
+            id: event.id,
+            userId,
+            dueDate: date
+          },
+          callbacks
+        )
+      } else {
+        updateIncomeInstance(
+          {
+            id: event.id,
+            userId,
+            expectedDate: date
+          },
+          callbacks
+        )
+      }
+    },
+    [
+      t,
+      updateBillInstance,
+      updateIncomeInstance,
+      userId
+    ]
+  )
+
+  const lastDayKey = calendarDayKey(range.end)
+  const infoCards: PageLayoutProps['infoCards'] = [
+    {
+      id: 'calendar-end-balance',
+      color: 'blue',
+      icon: (
+        <Wallet
+          className="stroke-[1.5]"
+          aria-hidden
+        />
+      ),
+      label: t('calendar.summary.endBalance'),
+      value: balances.has(lastDayKey)
+        ? formatCurrency(balances.get(lastDayKey) ?? 0)
+        : '–'
+    },
+    {
+      id: 'calendar-bills',
+      color: 'red',
+      icon: (
+        <ReceiptText
+          className="stroke-[1.5]"
+          aria-hidden
+        />
+      ),
+      label: t('calendar.summary.bills'),
+      value: formatCurrency(periodTotals.bills)
+    },
+    {
+      id: 'calendar-incomes',
+      color: 'green',
+      icon: (
+        <HandCoins
+          className="stroke-[1.5]"
+          aria-hidden
+        />
+      ),
+      label: t('calendar.summary.incomes'),
+      value: formatCurrency(periodTotals.incomes)
+    }
+  ]
+
+  const title =
+    view === 'week'
+      ? t('calendar.weekTitle', {
+          week: getISOWeek(anchor),
+          from: format(range.start, 'd MMM', {
+            locale: sv
+          }),
+          to: format(range.end, 'd MMM yyyy', {
+            locale: sv
+          })
+        })
+      : format(anchor, 'LLLL yyyy', {
+          locale: sv
+        })
+
+  const selectedDay = days.find((day) => calendarDayKey(day) === selectedDayKey)
+
+  return (
+    <PageLayout
+      title={t('calendar.title')}
+      description={t('calendar.description')}
+      loadingContent={billsLoading || incomeLoading || balancesLoading}
+      infoCards={infoCards}
+      tabs={
+        <Tabs
+          value={view}
+          onValueChange={(value) =>
+            setSearch({
+              view: value as CalendarView
+            })
+          }
+        >
+          <TabsList>
+            <TabsTrigger
+              value="month"
+              icon={<CalendarDays className="size-4 stroke-[1.5]" />}
+            >
+              {t('calendar.views.month')}
+            </TabsTrigger>
+            <TabsTrigger
+              value="week"
+              icon={<CalendarRange className="size-4 stroke-[1.5]" />}
+            >
+              {t('calendar.views.week')}
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+      }
+    >
+      <div className="flex min-h-0 flex-1 flex-col gap-4 overflow-y-auto">
+        <div className="flex flex-wrap items-center gap-2">
+          <IconButton
+            variant="text"
+            color="subtle"
+            icon={<ChevronLeft />}
+            aria-label={t(`calendar.previous.${view}`)}
+            title={t(`calendar.previous.${view}`)}
+            onClick={() => step(-1)}
+          />
+          <IconButton
+            variant="text"
+            color="subtle"
+            icon={<ChevronRight />}
+            aria-label={t(`calendar.next.${view}`)}
+            title={t(`calendar.next.${view}`)}
+            onClick={() => step(1)}
+          />
+          <Button
+            variant="outlined"
+            color="subtle"
+            label={t('calendar.today')}
+            onClick={() =>
+              setSearch({
+                day: today
+              })
+            }
+          />
+          <h2 className="type-body-strong text-gray-950 first-letter:uppercase">
+            {title}
+          </h2>
+          <span className="type-label ml-auto text-gray-600">
+            {t('calendar.dragHelp')}
+          </span>
+        </div>
+        <CashFlowCalendarGrid
+          view={view}
+          anchor={anchor}
+          days={days}
+          todayKey={calendarDayKey(today)}
+          selectedDayKey={selectedDayKey}
+          eventsByDay={eventsByDay}
+          balances={balances}
+          onSelectDay={(key) =>
+            setSelectedDayKey((current) => (current === key ? null : key))
+          }
+          onOpenEvent={openEvent}
+          onReschedule={reschedule}
+        />
+        {selectedDay && selectedDayKey ? (
+          <CalendarDayPanel
+            day={selectedDay}
+            events={eventsByDay.get(selectedDayKey) ?? []}
+            balance={balances.get(selectedDayKey)}
+            onEditInstance={openInstance}
+            onCreateTransaction={createTransaction}
+            onOpenTransaction={openTransaction}
+          />
+        ) : null}
+      </div>
+    </PageLayout>
+  )
+}
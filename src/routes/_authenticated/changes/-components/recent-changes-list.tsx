@@ -0,0 +1,145 @@
+import { useTranslation } from 'react-i18next'
+
+import { Badge, type BadgeColor } from '@/components/badge/badge'
+import { Button } from '@/components/button/button'
+import { RevisionChangeList } from '@/features/blueprint-revisions/blueprint-revision-timeline'
+import type { RevisionLabelLookups } from '@/features/blueprint-revisions/format-revision-value'
+import type {
+  TransactionRevision,
+  TransactionRevisionAction
+} from '@/features/transaction-revisions/transaction-revisions'
+
+const ACTION_COLORS: Record<TransactionRevisionAction, BadgeColor> = {
+  created: 'green',
+  updated: 'blue',
+  deleted: 'red'
+}
+
+type RecentChangesListProps = {
+  revisions: TransactionRevision[]
+  lookups: RevisionLabelLookups
+  authorNames: ReadonlyMap<string, string>
+  /** Transactions that have since been deleted and can no longer be opened. */
+  deletedTransactionIds: ReadonlySet<string>
+  onOpenTransaction: (transactionId: string) => void
+}
+
+function revisionDay(revision: TransactionRevision): string {
+  return revision.createdAt.slice(0, 10)
+}
+
+function revisionTime(revision: TransactionRevision): string {
+  return new Date(revision.createdAt).toLocaleTimeString('sv-SE', {
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+/**
+ * Household-wide change feed grouped by day, newest first: who changed which
+ * transaction and the field values before and after.
+ */
+export function RecentChangesList({
+  revisions,
+  lookups,
+  authorNames,
+  deletedTransactionIds,
+  onOpenTransaction
+}: RecentChangesListProps) {
+  const { t } = useTranslation()
+
+  if (revisions.length === 0) {
+    return (
+      <p className="type-body-medium text-gray-600">
+        {t('transactionRevisions.feed.empty')}
+      </p>
+    )
+  }
+
+  const days: Array<{
+    day: string
+    revisions: TransactionRevision[]
+  }> = []
+  for (const revision of revisions) {
+    const day = revisionDay(revision)
+    const last = days[days.length - 1]
+    if (last?.day === day) last.revisions.push(revision)
+    else
+      days.push({
+        day,
+        revisions: [
+          revision
+        ]
+      })
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      {days.map(({ day, revisions: dayRevisions }) => (
+        <section
+          key={day}
+          className="flex flex-col gap-2"
+          aria-label={t('drawers.blueprintRevisions.sectionAria', {
+            date: day
+          })}
+        >
+          <h2 className="type-body-strong text-gray-950">{day}</h2>
+          <ul className="flex flex-col divide-y divide-gray-200">
+            {dayRevisions.map((revision) => {
+              const canOpen =
+                revision.action !== 'deleted' &&
+                !deletedTransactionIds.has(revision.transactionId)
+              return (
+                <li
+                  key={revision.id}
+                  className="flex flex-col gap-2 py-3"
+                >
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="type-label text-gray-600">
+                      {revisionTime(revision)}
+                    </span>
+                    <Badge
+                      color={ACTION_COLORS[revision.action]}
+                      label={t(
+                        `transactionRevisions.actions.${revision.action}`
+                      )}
+                    />
+                    {canOpen ? (
+                      <Button
+                        variant="text"
+                        color="primary"
+                        label={revision.transactionName}
+                        onClick={() =>
+                          onOpenTransaction(revision.transactionId)
+                        }
+                      />
+                    ) : (
+                      <span className="type-body-strong text-gray-950">
+                        {revision.transactionName}
+                      </span>
+                    )}
+                    <span className="type-label text-gray-600">
+                      {t('transactionRevisions.feed.by', {
+                        name:
+                          authorNames.get(revision.authorId) ??
+                          t('forms.unknownUser')
+                      })}
+                    </span>
+                  </div>
+                  <RevisionChangeList
+                    kind="transaction"
+                    t={t}
+                    lookups={lookups}
+                    dayRevisions={[
+                      revision
+                    ]}
+                  />
+                </li>
+              )
+            })}
+          </ul>
+        </section>
+      ))}
+    </div>
+  )
+}
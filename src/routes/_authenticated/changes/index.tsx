@@ -0,0 +1,155 @@
+/**
+ * Recent changes — every recorded create, edit and delete of the household's
+ * transactions, newest first, with who made it.
+ */
+
+import { createFileRoute } from '@tanstack/react-router'
+import { HistoryIcon } from 'lucide-react'
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import { Button } from '@/components/button/button'
+import {
+  PageLayout,
+  type PageLayoutProps
+} from '@/components/page-layout/page-layout'
+import { useAuth } from '@/contexts/auth-context'
+import { useDrawer } from '@/drawers'
+import { DRAFT_CONTROL_CLASS_NAME } from '@/features/import-statements/components/import-table-fields'
+import { useTransactionRevisionLookups } from '@/features/transaction-revisions/use-transaction-revision-lookups'
+import { useTransactionRevisions } from '@/features/transaction-revisions/use-transaction-revisions'
+import { cn } from '@/lib/utils'
+import { RecentChangesList } from './-components/recent-changes-list'
+
+export const Route = createFileRoute('/_authenticated/changes/')({
+  component: RecentChangesPage
+})
+
+const PAGE_SIZE = 50
+
+function RecentChangesPage() {
+  const { householdId } = useAuth()
+  const { t } = useTranslation()
+  const { openDrawer } = useDrawer()
+  const { revisions } = useTransactionRevisions(householdId)
+  const { lookups, authorNames } = useTransactionRevisionLookups()
+  const [authorId, setAuthorId] = useState('')
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE)
+
+  const filtered = useMemo(
+    () =>
+      authorId
+        ? revisions.filter((revision) => revision.authorId === authorId)
+        : revisions,
+    [
+      revisions,
+      authorId
+    ]
+  )
+  const deletedTransactionIds = useMemo(
+    () =>
+      new Set(
+        revisions
+          .filter((revision) => revision.action === 'deleted')
+          .map((revision) => revision.transactionId)
+      ),
+    [
+      revisions
+    ]
+  )
+  const authorOptions = useMemo(
+    () =>
+      [
+        ...new Set(revisions.map((revision) => revision.authorId))
+      ]
+        .map((id) => ({
+          id,
+          name: authorNames.get(id) ?? t('forms.unknownUser')
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name, 'sv')),
+    [
+      revisions,
+      authorNames,
+      t
+    ]
+  )
+
+  const lastWeekCount = useMemo(() => {
+    const since = Date.now() - 7 * 24 * 60 * 60 * 1000
+    return revisions.filter(
+      (revision) => new Date(revision.createdAt).getTime() >= since
+    ).length
+  }, [
+    revisions
+  ])
+
+  const infoCards: PageLayoutProps['infoCards'] = [
+    {
+      id: 'changes-last-week',
+      color: 'blue',
+      icon: (
+        <HistoryIcon
+          className="stroke-[1.5]"
+          aria-hidden
+        />
+      ),
+      label: t('transactionRevisions.feed.lastWeek'),
+      value: String(lastWeekCount)
+    }
+  ]
+
+  return (
+    <PageLayout
+      title={t('transactionRevisions.feed.title')}
+      description={t('transactionRevisions.feed.description')}
+      infoCards={infoCards}
+    >
+      <div className="flex min-h-0 flex-1 flex-col gap-4 overflow-y-auto">
+        {authorOptions.length > 1 ? (
+          <select
+            className={cn(DRAFT_CONTROL_CLASS_NAME, 'w-full sm:w-64')}
+            value={authorId}
+            aria-label={t('transactionRevisions.feed.memberFilter')}
+            onChange={(event) => {
+              setAuthorId(event.target.value)
+              setVisibleCount(PAGE_SIZE)
+            }}
+          >
+            <option value="">
+              {t('transactionRevisions.feed.allMembers')}
+            </option>
+            {authorOptions.map((option) => (
+              <option
+                key={option.id}
+                value={option.id}
+              >
+                {option.name}
+              </option>
+            ))}
+          </select>
+        ) : null}
+        <RecentChangesList
+          revisions={filtered.slice(0, visibleCount)}
+          lookups={lookups}
+          authorNames={authorNames}
+          deletedTransactionIds={deletedTransactionIds}
+          onOpenTransaction={(transactionId) =>
+            openDrawer('editTransaction', {
+              transactionId
+            })
+          }
+        />
+        {filtered.length > visibleCount ? (
+          <div>
+            <Button
+              variant="outlined"
+              color="subtle"
+              label={t('transactionRevisions.feed.showMore')}
+              onClick={() => setVisibleCount((count) => count + PAGE_SIZE)}
+            />
+          </div>
+        ) : null}
+      </div>
+    </PageLayout>
+  )
+}
@@ -10,6 +10,7 @@ import { Badge } from '@/components/badge/badge'
 import type { DataTableColumnDef } from '@/components/data-table'
 import { IconButton } from '@/components/icon-button/icon-button'
 import { TableRowMenu } from '@/components/table-row-menu/table-row-menu'
+import { RecurrenceRuleDriftIndicator } from '@/features/recurrence-rules/recurrence-rule-drift-indicator'
 import { formatCurrency } from '@/lib/utils'
 
 export type IncomeDateFilterValue = {
@@ -25,6 +26,8 @@ export type IncomeAmountFilterValue = {
 export type IncomeOverviewRow = {
   id: string
   expectedDate: Date
+  /** The date rule's day when this unreceived instance has drifted off it. */
+  ruleDate: Date | null
   incomeName: string
   incomeSeriesName: string | null
   status: IncomeInstanceStatus
@@ -93,10 +96,14 @@ export function createIncomeOverviewColumns(opts: {
       id: 'expectedDate',
       accessorFn: (row) => row.expectedDate.getTime(),
       header: t('common.date'),
-      cell: ({ row }) =>
-        format(row.original.expectedDate, 'P', {
-          locale: sv
-        }),
+      cell: ({ row }) => (
+        <span className="inline-flex items-center gap-1">
+          {format(row.original.expectedDate, 'P', {
+            locale: sv
+          })}
+          <RecurrenceRuleDriftIndicator ruleDate={row.original.ruleDate} />
+        </span>
+      ),
       sortingFn: 'basic',
       meta: {
         globalSearchable: false,
@@ -26,6 +26,7 @@ import { Tabs, TabsList, TabsTrigger } from '@/components/tabs/tabs'
 import { useAuth } from '@/contexts/auth-context'
 import { useDrawer } from '@/drawers'
 import { NoData } from '@/features/no-data/no-data'
+import { useRecurrenceRuleDrift } from '@/features/recurrence-rules/use-recurrence-rule-drift'
 import {
   useAccountsList,
   useCategoriesList,
@@ -180,6 +181,8 @@ function IncomePageContent({
   const isOverviewLoading = incomes.length > 0 && instancesLoading
   const hasOverviewError = incomes.length > 0 && instancesError
 
+  const ruleDriftDate = useRecurrenceRuleDrift(householdId ?? '')
+
   const overviewRows = useMemo(() => {
     if (rawInstances.length === 0) return EMPTY_ROWS
 
@@ -189,6 +192,10 @@ function IncomePageContent({
       return {
         id: inst.id,
         expectedDate,
+        ruleDate: ruleDriftDate('incomes', inst.incomeId, {
+          date: expectedDate,
+          pending: !inst.transaction && !inst.transactionId
+        }),
         incomeName: inst.name,
         incomeSeriesName: inst.incomeId
           ? (incomeById.get(inst.incomeId) ?? null)
@@ -213,6 +220,7 @@ function IncomePageContent({
     categoryById,
     incomeById,
     incomeSourceById,
+    ruleDriftDate,
     t
   ])
 
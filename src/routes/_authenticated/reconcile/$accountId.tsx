@@ -0,0 +1,371 @@
+/**
+ * Reconcile — tick off an account's transactions against a bank statement
+ * until the cleared balance matches, then lock them or book the remainder.
+ */
+
+import {
+  createFileRoute,
+  getRouteApi,
+  useNavigate
+} from '@tanstack/react-router'
+import { endOfDay, format, startOfDay } from 'date-fns'
+import {
+  CheckCheckIcon,
+  LandmarkIcon,
+  ScaleIcon,
+  SigmaIcon
+} from 'lucide-react'
+import { useCallback, useId, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { TransactionType } from '@/api/generated/types.gen'
+import { Alert } from '@/components/alert/alert'
+import { Button } from '@/components/button/button'
+import { Checkbox } from '@/components/checkbox/checkbox'
+import { DatePicker } from '@/components/date-picker/date-picker'
+import { NumericInput } from '@/components/numeric-input/numeric-input'
+import {
+  PageLayout,
+  type PageLayoutProps
+} from '@/components/page-layout/page-layout'
+import { useAuth } from '@/contexts/auth-context'
+import {
+  buildBalanceAdjustmentBody,
+  buildReconciliationRows,
+  clearedBalance,
+  reconciliationDifference
+} from '@/features/account-reconciliation/reconciliation'
+import { useAccountReconciliations } from '@/features/account-reconciliation/use-account-reconciliations'
+import {
+  useAccountById,
+  useCreateTransaction,
+  useTransactionsList
+} from '@/hooks/api'
+import { getErrorMessage } from '@/lib/api-error'
+import { formatCurrency } from '@/lib/utils'
+import { ReconciliationTable } from './-components/reconciliation-table'
+
+export const Route = createFileRoute('/_authenticated/reconcile/$accountId')({
+  component: ReconcileAccountPage
+})
+
+const authenticatedRouteApi = getRouteApi('/_authenticated')
+
+function ReconcileAccountPage() {
+  const { accountId } = Route.useParams()
+  const { userId, householdId } = useAuth()
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const { from, to } = authenticatedRouteApi.useSearch()
+  const statementDateId = useId()
+  const statementBalanceId = useId()
+  const lockId = useId()
+  const {
+    accounts,
+    lockedTransactionIds,
+    isLoading: reconciliationsLoading,
+    completeReconciliation
+  } = useAccountReconciliations(householdId)
+  const previous = accounts[accountId]
+
+  const [statementDate, setStatementDate] = useState(() =>
+    startOfDay(new Date())
+  )
+  const [statementBalance, setStatementBalance] = useState<number>()
+  const [clearedIds, setClearedIds] = useState(
+    () => new Set(previous?.clearedTransactionIds ?? [])
+  )
+  const [lockCleared, setLockCleared] = useState(true)
+  const [adjustmentPending, setAdjustmentPending] = useState(false)
+  const [finishPending, setFinishPending] = useState(false)
+
+  const { data: account, isPending: accountPending } = useAccountById({
+    accountId,
+    userId,
+    enabled: !!householdId
+  })
+  const { data: accountTransactions, isLoading: accountTransactionsLoading } =
+    useTransactionsList({
+      householdId,
+      accountId,
+      userId,
+      dateTo: endOfDay(statementDate),
+      enabled: !!householdId
+    })
+  // `accountId` only matches the account money leaves, so transfers into the
+  // account are loaded separately.
+  const { data: householdTransfers, isLoading: transfersLoading } =
+    useTransactionsList({
+      householdId,
+      userId,
+      type: TransactionType.TRANSFER,
+      dateTo: endOfDay(statementDate),
+      enabled: !!householdId
+    })
+  const transactions = useMemo(
+    () => [
+      ...(accountTransactions ?? []),
+      ...(householdTransfers ?? []).filter(
+        (transfer) =>
+          transfer.transferToAccount?.id === accountId &&
+          transfer.account.id !== accountId
+      )
+    ],
+    [
+      accountTransactions,
+      householdTransfers,
+      accountId
+    ]
+  )
+  const transactionsLoading = accountTransactionsLoading || transfersLoading
+  const { mutateAsync: createTransactionAsync } = useCreateTransaction()
+
+  const initialBalance = account?.initialBalance ?? 0
+  const rows = useMemo(
+    () =>
+      buildReconciliationRows({
+        transactions,
+        accountId,
+        initialBalance,
+        statementDate
+      }),
+    [
+      transactions,
+      accountId,
+      initialBalance,
+      statementDate
+    ]
+  )
+  /** Ticked rows, with transactions locked by an earlier reconciliation. */
+  const effectiveClearedIds = useMemo(
+    () =>
+      new Set(
+        rows
+          .map((row) => row.transaction.id)
+          .filter((id) => clearedIds.has(id) || lockedTransactionIds.has(id))
+      ),
+    [
+      rows,
+      clearedIds,
+      lockedTransactionIds
+    ]
+  )
+  const cleared = clearedBalance(rows, initialBalance, effectiveClearedIds)
+  const difference =
+    statementBalance === undefined
+      ? null
+      : reconciliationDifference(statementBalance, cleared)
+
+  const handleClearedChange = useCallback(
+    (transactionIds: string[], isCleared: boolean) => {
+      setClearedIds((current) => {
+        const next = new Set(current)
+        for (const id of transactionIds) {
+          if (isCleared) next.add(id)
+          else next.delete(id)
+        }
+        return next
+      })
+    },
+    []
+  )
+
+  const goBack = () =>
+    navigate({
+      to: '/',
+      search: {
+        from,
+        to
+      }
+    })
+
+  const handleRecordAdjustment = async () => {
+    if (!difference) return
+    setAdjustmentPending(true)
+    try {
+      const created = await createTransactionAsync({
+        ...buildBalanceAdjustmentBody({
+          accountId,
+          difference,
+          name: t('reconciliation.adjustmentName')
+        }),
+        date: statementDate,
+        userId
+      })
+      handleClearedChange(
+        [
+          created.id
+        ],
+        true
+      )
+      toast.success(t('reconciliation.adjustmentSuccess'))
+    } catch (error) {
+      toast.error(getErrorMessage(error))
+    } finally {
+      setAdjustmentPending(false)
+    }
+  }
+
+  const handleFinish = async () => {
+    if (statementBalance === undefined || difference !== 0) return
+    setFinishPending(true)
+    try {
+      await completeReconciliation(accountId, {
+        statementDate: format(statementDate, 'yyyy-MM-dd'),
+        statementBalance,
+        clearedTransactionIds: [
+          ...effectiveClearedIds
+        ],
+        lock: lockCleared
+      })
+      toast.success(
+        t('reconciliation.finishSuccess', {
+          name: account?.name ?? ''
+        })
+      )
+      void goBack()
+    } catch (error) {
+      toast.error(getErrorMessage(error))
+    } finally {
+      setFinishPending(false)
+    }
+  }
+
+  const infoCards: PageLayoutProps['infoCards'] = [
+    {
+      id: 'difference',
+      color: difference === null ? 'gray' : difference === 0 ? 'green' : 'red',
+      icon: (
+        <ScaleIcon
+          className="stroke-[1.5]"
+          aria-hidden
+        />
+      ),
+      label: t('reconciliation.difference'),
+      value: difference === null ? '—' : formatCurrency(difference)
+    },
+    {
+      id: 'cleared',
+      color: 'gray',
+      icon: (
+        <SigmaIcon
+          className="stroke-[1.5]"
+          aria-hidden
+        />
+      ),
+      label: t('reconciliation.clearedBalance'),
+      value: formatCurrency(cleared)
+    },
+    {
+      id: 'statement',
+      color: 'gray',
+      icon: (
+        <LandmarkIcon
+          className="stroke-[1.5]"
+          aria-hidden
+        />
+      ),
+      label: t('reconciliation.statementBalance'),
+      value:
+        statementBalance === undefined ? '—' : formatCurrency(statementBalance)
+    }
+  ]
+
+  if (!accountPending && !account) {
+    return (
+      <Alert variant="error">
+        <span className="font-medium">{t('accounts.notFound')}</span>
+      </Alert>
+    )
+  }
+
+  return (
+    <PageLayout
+      title={t('reconciliation.title', {
+        name: account?.name ?? ''
+      })}
+      description={
+        previous
+          ? t('reconciliation.lastReconciled', {
+              date: previous.statementDate,
+              amount: formatCurrency(previous.statementBalance)
+            })
+          : t('reconciliation.pageDescription')
+      }
+      loadingContent={
+        accountPending || transactionsLoading || reconciliationsLoading
+      }
+      infoCards={infoCards}
+    >
+      <div className="flex min-h-0 flex-1 flex-col gap-6 overflow-hidden">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex w-48 flex-col gap-2">
+            <label
+              className="type-label text-gray-800"
+              htmlFor={statementDateId}
+            >
+              {t('reconciliation.statementDate')}
+            </label>
+            <DatePicker
+              id={statementDateId}
+              value={statementDate}
+              onChange={(date) => setStatementDate(startOfDay(date))}
+            />
+          </div>
+          <div className="flex w-48 flex-col gap-2">
+            <label
+              className="type-label text-gray-800"
+              htmlFor={statementBalanceId}
+            >
+              {t('reconciliation.statementBalance')}
+            </label>
+            <NumericInput
+              id={statementBalanceId}
+              value={statementBalance}
+              onValueChange={setStatementBalance}
+              unit={t('common.currencyCode')}
+            />
+          </div>
+          <div className="flex flex-1 flex-wrap items-center justify-end gap-4">
+            <Checkbox
+              id={lockId}
+              checked={lockCleared}
+              onCheckedChange={setLockCleared}
+              label={t('reconciliation.lockCleared')}
+            />
+            <Button
+              variant="outlined"
+              color="subtle"
+              label={t('reconciliation.recordAdjustment', {
+                amount: formatCurrency(difference ?? 0)
+              })}
+              disabled={!difference || adjustmentPending}
+              onClick={() => void handleRecordAdjustment()}
+            />
+            <Button
+              icon={<CheckCheckIcon />}
+              label={t('reconciliation.finish')}
+              disabled={difference !== 0 || finishPending}
+              onClick={() => void handleFinish()}
+            />
+          </div>
+        </div>
+
+        <div className="min-h-0 flex-1 overflow-y-auto">
+          {rows.length === 0 ? (
+            <p className="type-body-medium text-gray-600">
+              {t('reconciliation.empty')}
+            </p>
+          ) : (
+            <ReconciliationTable
+              rows={rows}
+              clearedIds={effectiveClearedIds}
+              lockedIds={lockedTransactionIds}
+              onClearedChange={handleClearedChange}
+            />
+          )}
+        </div>
+      </div>
+    </PageLayout>
+  )
+}
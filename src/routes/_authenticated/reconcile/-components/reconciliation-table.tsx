@@ -0,0 +1,128 @@
+import { format } from 'date-fns'
+import { LockIcon } from 'lucide-react'
+import { useId } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import { Checkbox } from '@/components/checkbox/checkbox'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/table/table'
+import type { ReconciliationRow } from '@/features/account-reconciliation/reconciliation'
+import { cn, formatCurrency } from '@/lib/utils'
+
+type ReconciliationTableProps = {
+  rows: ReconciliationRow[]
+  clearedIds: ReadonlySet<string>
+  lockedIds: ReadonlySet<string>
+  onClearedChange: (transactionIds: string[], cleared: boolean) => void
+}
+
+/**
+ * The account's transactions oldest first with the running book balance.
+ * Locked transactions stay ticked; they were cleared in an earlier
+ * reconciliation.
+ */
+export function ReconciliationTable({
+  rows,
+  clearedIds,
+  lockedIds,
+  onClearedChange
+}: ReconciliationTableProps) {
+  const { t } = useTranslation()
+  const selectAllId = useId()
+  const toggleableIds = rows
+    .map((row) => row.transaction.id)
+    .filter((id) => !lockedIds.has(id))
+  const allCleared =
+    toggleableIds.length > 0 && toggleableIds.every((id) => clearedIds.has(id))
+
+  return (
+    <Table>
+      <TableHeader className="sticky top-0 z-10 bg-card">
+        <TableRow className="hover:bg-transparent">
+          <TableHead className="h-auto w-10 py-2 pr-2 pl-0">
+            <Checkbox
+              id={selectAllId}
+              checked={allCleared}
+              disabled={toggleableIds.length === 0}
+              aria-label={t('reconciliation.table.selectAll')}
+              onCheckedChange={(checked) =>
+                onClearedChange(toggleableIds, checked)
+              }
+            />
+          </TableHead>
+          <TableHead className="type-label h-auto py-2 pr-2 pl-0 text-muted-foreground">
+            {t('common.date')}
+          </TableHead>
+          <TableHead className="type-label h-auto py-2 pr-2 pl-0 text-muted-foreground">
+            {t('common.name')}
+          </TableHead>
+          <TableHead className="type-label h-auto py-2 pr-2 pl-0 text-end text-muted-foreground">
+            {t('common.amount')}
+          </TableHead>
+          <TableHead className="type-label h-auto py-2 pr-0 pl-0 text-end text-muted-foreground">
+            {t('reconciliation.table.runningBalance')}
+          </TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => {
+          const { transaction } = row
+          const locked = lockedIds.has(transaction.id)
+          return (
+            <TableRow key={transaction.id}>
+              <TableCell className="py-2 pr-2 pl-0">
+                <Checkbox
+                  id={`reconciliation-cleared-${transaction.id}`}
+                  checked={locked || clearedIds.has(transaction.id)}
+                  disabled={locked}
+                  aria-label={t('reconciliation.table.clearedAria', {
+                    name: transaction.name
+                  })}
+                  onCheckedChange={(checked) =>
+                    onClearedChange(
+                      [
+                        transaction.id
+                      ],
+                      checked
+                    )
+                  }
+                />
+              </TableCell>
+              <TableCell className="type-body-medium py-2 pr-2 pl-0 text-foreground">
+                {format(transaction.date, 'yyyy-MM-dd')}
+              </TableCell>
+              <TableCell className="type-body-medium py-2 pr-2 pl-0 text-foreground">
+                <span className="flex items-center gap-2">
+                  {transaction.name}
+                  {locked ? (
+                    <LockIcon
+                      className="size-3.5 shrink-0 stroke-[1.5] text-gray-500"
+                      aria-label={t('reconciliation.table.locked')}
+                    />
+                  ) : null}
+                </span>
+              </TableCell>
+              <TableCell
+                className={cn(
+                  'type-body-medium py-2 pr-2 pl-0 text-end',
+                  row.amount < 0 ? 'text-foreground' : 'text-green-700'
+                )}
+              >
+                {formatCurrency(row.amount)}
+              </TableCell>
+              <TableCell className="type-body-medium py-2 pr-0 pl-0 text-end text-foreground">
+                {formatCurrency(row.runningBalance)}
+              </TableCell>
+            </TableRow>
+          )
+        })}
+      </TableBody>
+    </Table>
+  )
+}
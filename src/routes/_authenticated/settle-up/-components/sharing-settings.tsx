@@ -0,0 +1,125 @@
+import { useTranslation } from 'react-i18next'
+
+import { DRAFT_CONTROL_CLASS_NAME } from '@/features/import-statements/components/import-table-fields'
+import type { ImportLookupItem } from '@/features/import-statements/types'
+import type { SharedExpenseSettings } from '@/features/shared-expenses/attribution'
+
+type SharingSettingsProps = {
+  members: Array<{
+    userId: string
+    name: string
+  }>
+  accounts: ImportLookupItem[]
+  settings: SharedExpenseSettings
+  onChange: (settings: SharedExpenseSettings) => void
+}
+
+/**
+ * Household defaults for settling up: how expenses are shared when they have
+ * no shares of their own, and which member each personal account belongs to.
+ */
+export function SharingSettings({
+  members,
+  accounts,
+  settings,
+  onChange
+}: SharingSettingsProps) {
+  const { t } = useTranslation()
+  const hasDefaultShares = Object.keys(settings.defaultShares).length > 0
+
+  const setWeight = (memberId: string, input: string) => {
+    const { [memberId]: _, ...rest } = settings.defaultShares
+    const weight = Number.parseFloat(input.replace(',', '.'))
+    onChange({
+      ...settings,
+      defaultShares:
+        input.trim() && Number.isFinite(weight) && weight >= 0
+          ? {
+              ...rest,
+              [memberId]: weight
+            }
+          : rest
+    })
+  }
+
+  const setOwner = (accountId: string, memberId: string) => {
+    const { [accountId]: _, ...rest } = settings.accountOwners
+    onChange({
+      ...settings,
+      accountOwners: memberId
+        ? {
+            ...rest,
+            [accountId]: memberId
+          }
+        : rest
+    })
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      <section className="flex flex-col gap-3">
+        <div className="flex flex-col gap-1">
+          <h2 className="type-body-strong text-gray-950">
+            {t('sharedExpenses.settings.sharesTitle')}
+          </h2>
+          <p className="type-label text-gray-600">
+            {t('sharedExpenses.settings.sharesDescription')}
+          </p>
+        </div>
+        {members.map((member) => (
+          <label
+            key={member.userId}
+            className="flex items-center justify-between gap-3"
+          >
+            <span className="type-body-medium text-gray-950">
+              {member.name}
+            </span>
+            <input
+              className={`${DRAFT_CONTROL_CLASS_NAME} w-20`}
+              inputMode="decimal"
+              value={settings.defaultShares[member.userId] ?? ''}
+              placeholder={hasDefaultShares ? '0' : '1'}
+              onChange={(event) => setWeight(member.userId, event.target.value)}
+            />
+          </label>
+        ))}
+      </section>
+
+      <section className="flex flex-col gap-3">
+        <div className="flex flex-col gap-1">
+          <h2 className="type-body-strong text-gray-950">
+            {t('sharedExpenses.settings.accountsTitle')}
+          </h2>
+          <p className="type-label text-gray-600">
+            {t('sharedExpenses.settings.accountsDescription')}
+          </p>
+        </div>
+        {accounts.map((account) => (
+          <label
+            key={account.id}
+            className="flex items-center justify-between gap-3"
+          >
+            <span className="type-body-medium min-w-0 truncate text-gray-950">
+              {account.name}
+            </span>
+            <select
+              className={`${DRAFT_CONTROL_CLASS_NAME} w-40`}
+              value={settings.accountOwners[account.id] ?? ''}
+              onChange={(event) => setOwner(account.id, event.target.value)}
+            >
+              <option value="">{t('sharedExpenses.settings.shared')}</option>
+              {members.map((member) => (
+                <option
+                  key={member.userId}
+                  value={member.userId}
+                >
+                  {member.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,339 @@
+/**
+ * Settle up — who paid for the household's shared expenses in the selected
+ * period, what each member's share was, and the transfers that even it out.
+ */
+
+import { createFileRoute } from '@tanstack/react-router'
+import { ArrowLeftRightIcon, ScaleIcon } from 'lucide-react'
+import { useCallback, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+
+import { TransactionType } from '@/api/generated/types.gen'
+import { Alert } from '@/components/alert/alert'
+import { Button } from '@/components/button/button'
+import {
+  PageLayout,
+  type PageLayoutProps
+} from '@/components/page-layout/page-layout'
+import { useAuth } from '@/contexts/auth-context'
+import {
+  RecordSettlementDialog,
+  type SettlementTransfer
+} from '@/dialogs/shared-expenses/record-settlement-dialog'
+import type { ImportLookupItem } from '@/features/import-statements/types'
+import { memberDisplayName } from '@/features/shared-expenses/attribution'
+import {
+  computeMemberBalances,
+  type Settlement,
+  settleBalances
+} from '@/features/shared-expenses/settle-up'
+import { useSharedExpenses } from '@/features/shared-expenses/use-shared-expenses'
+import { useTransactionRefunds } from '@/features/transaction-refunds/use-transaction-refunds'
+import {
+  useAccountsList,
+  useCreateTransaction,
+  useHouseholdMembers,
+  useTransactionsList
+} from '@/hooks/api'
+import { useDateRange } from '@/hooks/use-date-range'
+import { getErrorMessage } from '@/lib/api-error'
+import { formatCurrency } from '@/lib/utils'
+import { SharingSettings } from './-components/sharing-settings'
+
+export const Route = createFileRoute('/_authenticated/settle-up/')({
+  component: SettleUpPage
+})
+
+function SettleUpPage() {
+  const { userId, householdId } = useAuth()
+  const { t } = useTranslation()
+  const { dateFrom, dateTo } = useDateRange()
+  const { settings, attributions, saveSettings } =
+    useSharedExpenses(householdId)
+  const [settlementTarget, setSettlementTarget] = useState<Settlement | null>(
+    null
+  )
+
+  const { data: members = [], isLoading: membersLoading } = useHouseholdMembers(
+    {
+      householdId,
+      userId,
+      enabled: !!householdId
+    }
+  )
+  const { data: accounts = [] } = useAccountsList({
+    householdId,
+    userId,
+    enabled: !!householdId,
+    excludeArchived: true
+  })
+  const { data: transactions = [], isLoading: transactionsLoading } =
+    useTransactionsList({
+      householdId,
+      userId,
+      dateFrom,
+      dateTo,
+      enabled: !!householdId
+    })
+  const { mutateAsync: createTransactionAsync, isPending } =
+    useCreateTransaction()
+  const { refundIndex: refunds } = useTransactionRefunds(householdId)
+
+  const memberRows = useMemo(
+    () =>
+      members.map((member) => ({
+        userId: member.userId,
+        name: memberDisplayName(member, t('forms.unknownUser'))
+      })),
+    [
+      members,
+      t
+    ]
+  )
+  const memberNames = useMemo(
+    () =>
+      new Map(
+        memberRows.map((member) => [
+          member.userId,
+          member.name
+        ])
+      ),
+    [
+      memberRows
+    ]
+  )
+  const accountItems: ImportLookupItem[] = useMemo(
+    () =>
+      accounts.map((account) => ({
+        id: account.id,
+        name: account.name,
+        archived: account.archived
+      })),
+    [
+      accounts
+    ]
+  )
+  const accountsByMember = useMemo(() => {
+    const byMember = new Map<string, ImportLookupItem[]>()
+    for (const account of accountItems) {
+      const ownerId = settings.accountOwners[account.id]
+      if (!ownerId) continue
+      byMember.set(ownerId, [
+        ...(byMember.get(ownerId) ?? []),
+        account
+      ])
+    }
+    return byMember
+  }, [
+    accountItems,
+    settings.accountOwners
+  ])
+
+  const summary = useMemo(
+    () =>
+      computeMemberBalances({
+        transactions,
+        memberIds: memberRows.map((member) => member.userId),
+        settings,
+        attributions,
+        refunds
+      }),
+    [
+      transactions,
+      memberRows,
+      settings,
+      attributions,
+      refunds
+    ]
+  )
+  const settlements = useMemo(
+    () => settleBalances(summary.balances),
+    [
+      summary.balances
+    ]
+  )
+
+  const handleRecord = useCallback(
+    async (transfer: SettlementTransfer) => {
+      if (!settlementTarget) return
+      try {
+        await createTransactionAsync({
+          type: TransactionType.TRANSFER,
+          accountId: transfer.accountId,
+          transferToAccountId: transfer.transferToAccountId,
+          name: t('sharedExpenses.settle.transferName', {
+            from: memberNames.get(settlementTarget.fromMemberId) ?? '',
+            to: memberNames.get(settlementTarget.toMemberId) ?? ''
+          }),
+          amount: transfer.amount,
+          date: transfer.date,
+          userId
+        })
+        toast.success(t('sharedExpenses.settle.recordSuccess'))
+        setSettlementTarget(null)
+      } catch (error) {
+        toast.error(getErrorMessage(error))
+      }
+    },
+    [
+      settlementTarget,
+      createTransactionAsync,
+      memberNames,
+      userId,
+      t
+    ]
+  )
+
+  const infoCards: PageLayoutProps['infoCards'] = summary.balances.map(
+    (balance) => ({
+      id: balance.memberId,
+      color:
+        balance.balance > 0 ? 'green' : balance.balance < 0 ? 'red' : 'gray',
+      icon: (
+        <ScaleIcon
+          className="stroke-[1.5]"
+          aria-hidden
+        />
+      ),
+      label: memberNames.get(balance.memberId) ?? '',
+      value: formatCurrency(balance.balance)
+    })
+  )
+
+  return (
+    <PageLayout
+      title={t('sharedExpenses.title')}
+      description={t('sharedExpenses.pageDescription')}
+      loadingContent={membersLoading || transactionsLoading}
+      infoCards={memberRows.length > 1 ? infoCards : undefined}
+    >
+      {memberRows.length < 2 ? (
+        <Alert variant="info">{t('sharedExpenses.singleMember')}</Alert>
+      ) : (
+        <div className="flex min-h-0 flex-1 flex-col gap-8 overflow-hidden lg:flex-row lg:items-stretch">
+          <div className="flex min-h-0 min-w-0 flex-1 flex-col gap-6 overflow-y-auto">
+            {summary.unattributed.count > 0 ? (
+              <Alert variant="discrete">
+                {t('sharedExpenses.unattributed', {
+                  count: summary.unattributed.count,
+                  amount: formatCurrency(summary.unattributed.amount)
+                })}
+              </Alert>
+            ) : null}
+
+            <section className="flex flex-col gap-3">
+              <h2 className="type-body-strong text-gray-950">
+                {t('sharedExpenses.settle.title')}
+              </h2>
+              {settlements.length === 0 ? (
+                <p className="type-body-medium text-gray-600">
+                  {t('sharedExpenses.settle.even')}
+                </p>
+              ) : (
+                <ul className="flex flex-col divide-y divide-gray-200">
+                  {settlements.map((settlement) => (
+                    <li
+                      key={`${settlement.fromMemberId}-${settlement.toMemberId}`}
+                      className="flex flex-wrap items-center justify-between gap-3 py-3"
+                    >
+                      <span className="type-body-medium text-gray-950">
+                        {t('sharedExpenses.settle.owes', {
+                          from: memberNames.get(settlement.fromMemberId),
+                          to: memberNames.get(settlement.toMemberId),
+                          amount: formatCurrency(settlement.amount)
+                        })}
+                      </span>
+                      <Button
+                        variant="outlined"
+                        icon={<ArrowLeftRightIcon />}
+                        label={t('sharedExpenses.settle.record')}
+                        onClick={() => setSettlementTarget(settlement)}
+                      />
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <section className="flex flex-col gap-3">
+              <h2 className="type-body-strong text-gray-950">
+                {t('sharedExpenses.balances.title')}
+              </h2>
+              <table className="w-full">
+                <thead>
+                  <tr className="type-label text-left text-gray-700">
+                    <th className="py-2 pr-4">
+                      {t('sharedExpenses.balances.member')}
+                    </th>
+                    <th className="py-2 pr-4 text-right">
+                      {t('sharedExpenses.balances.paid')}
+                    </th>
+                    <th className="py-2 pr-4 text-right">
+                      {t('sharedExpenses.balances.cost')}
+                    </th>
+                    <th className="py-2 pr-4 text-right">
+                      {t('sharedExpenses.balances.sent')}
+                    </th>
+                    <th className="py-2 pr-4 text-right">
+                      {t('sharedExpenses.balances.received')}
+                    </th>
+                    <th className="py-2 text-right">
+                      {t('sharedExpenses.balances.balance')}
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="type-body-medium text-gray-950">
+                  {summary.balances.map((balance) => (
+                    <tr
+                      key={balance.memberId}
+                      className="border-gray-200 border-t"
+                    >
+                      <td className="py-2 pr-4">
+                        {memberNames.get(balance.memberId)}
+                      </td>
+                      <td className="py-2 pr-4 text-right">
+                        {formatCurrency(balance.paid)}
+                      </td>
+                      <td className="py-2 pr-4 text-right">
+                        {formatCurrency(balance.cost)}
+                      </td>
+                      <td className="py-2 pr-4 text-right">
+                        {formatCurrency(balance.sent)}
+                      </td>
+                      <td className="py-2 pr-4 text-right">
+                        {formatCurrency(balance.received)}
+                      </td>
+                      <td className="py-2 text-right">
+                        {formatCurrency(balance.balance)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          </div>
+          <aside className="flex min-h-0 w-full shrink-0 flex-col overflow-y-auto border-gray-200 border-t pt-6 lg:w-80 lg:border-t-0 lg:border-l lg:pt-0 lg:pl-6">
+            <SharingSettings
+              members={memberRows}
+              accounts={accountItems}
+              settings={settings}
+              onChange={saveSettings}
+            />
+          </aside>
+        </div>
+      )}
+
+      <RecordSettlementDialog
+        settlement={settlementTarget}
+        memberNames={memberNames}
+        accountsByMember={accountsByMember}
+        pending={isPending}
+        onOpenChange={(open) => {
+          if (!open) setSettlementTarget(null)
+        }}
+        onSubmit={(transfer) => void handleRecord(transfer)}
+      />
+    </PageLayout>
+  )
+}
@@ -0,0 +1,151 @@
+import { PlusIcon, TrashIcon } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import type { BadgeColor } from '@/components/badge/badge'
+import { Button } from '@/components/button/button'
+import { IconButton } from '@/components/icon-button/icon-button'
+import { DRAFT_CONTROL_CLASS_NAME } from '@/features/import-statements/components/import-table-fields'
+import {
+  findTagByName,
+  normalizeTagName,
+  TAG_COLORS,
+  type TransactionTag
+} from '@/features/transaction-tags/tags'
+import { cn } from '@/lib/utils'
+
+type TagManagerProps = {
+  tags: TransactionTag[]
+  onCreate: (name: string) => void
+  onUpdate: (
+    tagId: string,
+    patch: Partial<Pick<TransactionTag, 'name' | 'color'>>
+  ) => void
+  onDelete: (tag: TransactionTag) => void
+}
+
+/**
+ * Create, rename, recolour and delete the household's tags. Names stay
+ * unique ignoring case; a rename that would clash is dropped.
+ */
+export function TagManager({
+  tags,
+  onCreate,
+  onUpdate,
+  onDelete
+}: TagManagerProps) {
+  const { t } = useTranslation()
+  const [newName, setNewName] = useState('')
+  const trimmedName = normalizeTagName(newName)
+  const nameTaken = !!findTagByName(tags, trimmedName)
+
+  const handleCreate = () => {
+    if (!trimmedName || nameTaken) return
+    onCreate(trimmedName)
+    setNewName('')
+  }
+
+  const handleRename = (tag: TransactionTag, input: string) => {
+    const name = normalizeTagName(input)
+    const clash = findTagByName(tags, name)
+    if (!name || name === tag.name || (clash && clash.id !== tag.id)) return
+    onUpdate(tag.id, {
+      name
+    })
+  }
+
+  return (
+    <section className="flex flex-col gap-3">
+      <div className="flex flex-col gap-1">
+        <h2 className="type-body-strong text-gray-950">
+          {t('tags.manage.title')}
+        </h2>
+        <p className="type-label text-gray-600">
+          {t('tags.manage.description')}
+        </p>
+      </div>
+
+      <form
+        className="flex items-center gap-2"
+        onSubmit={(event) => {
+          event.preventDefault()
+          handleCreate()
+        }}
+      >
+        <input
+          className={cn(DRAFT_CONTROL_CLASS_NAME, 'min-w-0 flex-1')}
+          value={newName}
+          placeholder={t('tags.manage.namePlaceholder')}
+          aria-label={t('tags.manage.namePlaceholder')}
+          onChange={(event) => setNewName(event.target.value)}
+        />
+        <Button
+          type="submit"
+          variant="outlined"
+          icon={<PlusIcon />}
+          label={t('tags.manage.create')}
+          disabled={!trimmedName || nameTaken}
+          onClick={() => void 0}
+        />
+      </form>
+      {nameTaken ? (
+        <p className="type-label text-red-700">{t('tags.manage.nameTaken')}</p>
+      ) : null}
+
+      {tags.length === 0 ? (
+        <p className="type-body-medium text-gray-600">
+          {t('tags.manage.empty')}
+        </p>
+      ) : (
+        <ul className="flex flex-col divide-y divide-gray-200">
+          {tags.map((tag) => (
+            <li
+              key={tag.id}
+              className="flex items-center gap-2 py-2"
+            >
+              <input
+                key={tag.name}
+                className={cn(DRAFT_CONTROL_CLASS_NAME, 'min-w-0 flex-1')}
+                defaultValue={tag.name}
+                aria-label={t('tags.manage.renameAria', {
+                  name: tag.name
+                })}
+                onBlur={(event) => handleRename(tag, event.target.value)}
+              />
+              <select
+                className={cn(DRAFT_CONTROL_CLASS_NAME, 'w-28')}
+                value={tag.color}
+                aria-label={t('tags.manage.colorAria', {
+                  name: tag.name
+                })}
+                onChange={(event) =>
+                  onUpdate(tag.id, {
+                    color: event.target.value as BadgeColor
+                  })
+                }
+              >
+                {TAG_COLORS.map((color) => (
+                  <option
+                    key={color}
+                    value={color}
+                  >
+                    {t(`tags.colors.${color}`)}
+                  </option>
+                ))}
+              </select>
+              <IconButton
+                variant="text"
+                color="destructive"
+                icon={<TrashIcon />}
+                aria-label={t('tags.manage.deleteAria', {
+                  name: tag.name
+                })}
+                onClick={() => onDelete(tag)}
+              />
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,110 @@
+import { useTranslation } from 'react-i18next'
+
+import { Badge } from '@/components/badge/badge'
+import type {
+  TagReportBreakdown,
+  TagReportRow,
+  TransactionTag
+} from '@/features/transaction-tags/tags'
+import { formatCurrency } from '@/lib/utils'
+
+type TagReportProps = {
+  rows: TagReportRow[]
+  tagsById: ReadonlyMap<string, TransactionTag>
+  budgetNames: ReadonlyMap<string, string>
+  categoryNames: ReadonlyMap<string, string>
+}
+
+function BreakdownList({
+  title,
+  items,
+  names,
+  fallback
+}: {
+  title: string
+  items: TagReportBreakdown[]
+  names: ReadonlyMap<string, string>
+  fallback: string
+}) {
+  return (
+    <div className="flex min-w-0 flex-1 flex-col gap-1">
+      <span className="type-label text-gray-700">{title}</span>
+      {items.map((item) => (
+        <span
+          key={item.id ?? ''}
+          className="type-body-medium flex justify-between gap-4 text-gray-950"
+        >
+          <span className="min-w-0 truncate">
+            {item.id === null ? fallback : (names.get(item.id) ?? item.id)}
+          </span>
+          <span>{formatCurrency(item.total)}</span>
+        </span>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Spend per tag in the selected period, each split by budget and by category.
+ */
+export function TagReport({
+  rows,
+  tagsById,
+  budgetNames,
+  categoryNames
+}: TagReportProps) {
+  const { t } = useTranslation()
+  const usedRows = rows.filter((row) => row.count > 0)
+
+  if (usedRows.length === 0) {
+    return (
+      <p className="type-body-medium text-gray-600">{t('tags.report.empty')}</p>
+    )
+  }
+
+  return (
+    <ul className="flex flex-col divide-y divide-gray-200">
+      {usedRows.map((row) => {
+        const tag = tagsById.get(row.tagId)
+        if (!tag) return null
+        return (
+          <li
+            key={row.tagId}
+            className="flex flex-col gap-3 py-4"
+          >
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <span className="flex items-center gap-3">
+                <Badge
+                  color={tag.color}
+                  label={tag.name}
+                />
+                <span className="type-label text-gray-600">
+                  {t('tags.report.count', {
+                    count: row.count
+                  })}
+                </span>
+              </span>
+              <span className="type-body-strong text-gray-950">
+                {formatCurrency(row.total)}
+              </span>
+            </div>
+            <div className="flex flex-col gap-4 sm:flex-row sm:gap-8">
+              <BreakdownList
+                title={t('tags.report.byBudget')}
+                items={row.byBudget}
+                names={budgetNames}
+                fallback={t('tags.report.noBudget')}
+              />
+              <BreakdownList
+                title={t('tags.report.byCategory')}
+                items={row.byCategory}
+                names={categoryNames}
+                fallback={t('common.uncategorized')}
+              />
+            </div>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
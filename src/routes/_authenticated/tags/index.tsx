@@ -0,0 +1,212 @@
+/**
+ * Tags — the household's transaction tags and what was spent under each in
+ * the selected period, broken down by budget and category.
+ */
+
+import { createFileRoute } from '@tanstack/react-router'
+import { TagsIcon } from 'lucide-react'
+import { useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import { TransactionType } from '@/api/generated/types.gen'
+import {
+  PageLayout,
+  type PageLayoutProps
+} from '@/components/page-layout/page-layout'
+import { useAuth } from '@/contexts/auth-context'
+import { refundedAmount } from '@/features/transaction-refunds/refunds'
+import { useTransactionRefunds } from '@/features/transaction-refunds/use-transaction-refunds'
+import {
+  buildTagReport,
+  type TransactionTag
+} from '@/features/transaction-tags/tags'
+import { useTransactionTags } from '@/features/transaction-tags/use-transaction-tags'
+import {
+  useBudgetsList,
+  useCategoriesList,
+  useTransactionsList
+} from '@/hooks/api'
+import { useConfirmDialog } from '@/hooks/use-confirm-dialog'
+import { useDateRange } from '@/hooks/use-date-range'
+import { formatCurrency } from '@/lib/utils'
+import { TagManager } from './-components/tag-manager'
+import { TagReport } from './-components/tag-report'
+
+export const Route = createFileRoute('/_authenticated/tags/')({
+  component: TagsPage
+})
+
+function TagsPage() {
+  const { userId, householdId } = useAuth()
+  const { t } = useTranslation()
+  const { dateFrom, dateTo } = useDateRange()
+  const { confirm, confirmDialog } = useConfirmDialog()
+  const { tags, assignments, createTag, updateTag, deleteTag } =
+    useTransactionTags(householdId)
+  const { refundIndex } = useTransactionRefunds(householdId)
+
+  const { data: transactions = [], isLoading: transactionsLoading } =
+    useTransactionsList({
+      householdId,
+      userId,
+      dateFrom,
+      dateTo,
+      enabled: !!householdId
+    })
+  const { data: budgets = [] } = useBudgetsList({
+    householdId,
+    userId,
+    enabled: !!householdId
+  })
+  const { data: categories = [] } = useCategoriesList({
+    householdId,
+    userId,
+    enabled: !!householdId
+  })
+
+  const tagsById = useMemo(
+    () =>
+      new Map(
+        tags.map((tag) => [
+          tag.id,
+          tag
+        ])
+      ),
+    [
+      tags
+    ]
+  )
+  const sortedTags = useMemo(
+    () =>
+      [
+        ...tags
+      ].sort((a, b) => a.name.localeCompare(b.name, 'sv')),
+    [
+      tags
+    ]
+  )
+  const budgetNames = useMemo(
+    () =>
+      new Map(
+        budgets.map((budget) => [
+          budget.id,
+          budget.name
+        ])
+      ),
+    [
+      budgets
+    ]
+  )
+  const categoryNames = useMemo(
+    () =>
+      new Map(
+        categories.map((category) => [
+          category.id,
+          category.name
+        ])
+      ),
+    [
+      categories
+    ]
+  )
+
+  const reportRows = useMemo(
+    () =>
+      buildTagReport({
+        transactions,
+        assignments,
+        tags,
+        refunds: refundIndex
+      }),
+    [
+      transactions,
+      assignments,
+      tags,
+      refundIndex
+    ]
+  )
+
+  /** Each tagged expense once, however many tags it has, less refunds. */
+  const taggedSpend = useMemo(
+    () =>
+      transactions
+        .filter(
+          (transaction) =>
+            transaction.type === TransactionType.EXPENSE &&
+            (assignments[transaction.id]?.length ?? 0) > 0
+        )
+        .reduce(
+          (sum, transaction) =>
+            sum +
+            Math.max(
+              0,
+              transaction.amount -
+                refundedAmount(refundIndex.byOriginal.get(transaction.id) ?? [])
+            ),
+          0
+        ),
+    [
+      transactions,
+      assignments,
+      refundIndex
+    ]
+  )
+
+  const handleDelete = (tag: TransactionTag) => {
+    void confirm({
+      description: t('tags.manage.deleteConfirm', {
+        name: tag.name
+      }),
+      confirmText: t('common.delete')
+    }).then((isConfirmed) => {
+      if (isConfirmed) deleteTag(tag.id)
+    })
+  }
+
+  const infoCards: PageLayoutProps['infoCards'] = [
+    {
+      id: 'tagged-spend',
+      color: 'blue',
+      icon: (
+        <TagsIcon
+          className="stroke-[1.5]"
+          aria-hidden
+        />
+      ),
+      label: t('tags.report.taggedSpend'),
+      value: formatCurrency(taggedSpend)
+    }
+  ]
+
+  return (
+    <PageLayout
+      title={t('tags.title')}
+      description={t('tags.pageDescription')}
+      loadingContent={transactionsLoading}
+      infoCards={infoCards}
+    >
+      <div className="flex min-h-0 flex-1 flex-col gap-8 overflow-hidden lg:flex-row lg:items-stretch">
+        <section className="flex min-h-0 min-w-0 flex-1 flex-col gap-3 overflow-y-auto">
+          <h2 className="type-body-strong text-gray-950">
+            {t('tags.report.title')}
+          </h2>
+          <TagReport
+            rows={reportRows}
+            tagsById={tagsById}
+            budgetNames={budgetNames}
+            categoryNames={categoryNames}
+          />
+        </section>
+        <aside className="flex min-h-0 w-full shrink-0 flex-col overflow-y-auto border-gray-200 border-t pt-6 lg:w-80 lg:border-t-0 lg:border-l lg:pt-0 lg:pl-6">
+          <TagManager
+            tags={sortedTags}
+            onCreate={(name) => createTag(name)}
+            onUpdate={updateTag}
+            onDelete={handleDelete}
+          />
+        </aside>
+      </div>
+      {confirmDialog}
+    </PageLayout>
+  )
+}
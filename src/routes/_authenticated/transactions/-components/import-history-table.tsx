@@ -0,0 +1,151 @@
+import type { TFunction } from 'i18next'
+import { Undo2Icon } from 'lucide-react'
+
+import { Badge } from '@/components/badge/badge'
+import type { DataTableColumnDef } from '@/components/data-table'
+import {
+  TableRowMenu,
+  type TableRowMenuItem
+} from '@/components/table-row-menu/table-row-menu'
+import type { ImportHistoryEntry } from '@/features/import-statements/import-history'
+
+export type ImportHistoryTableRow = {
+  id: string
+  /** `yyyy-MM-dd HH:mm` */
+  importedAt: string
+  files: string[]
+  accounts: string[]
+  rows: string[]
+  totals: string[]
+  allocations: string[]
+  status: 'imported' | 'partiallyUndone' | 'undone'
+  entry: ImportHistoryEntry
+}
+
+function SummaryList({ parts }: { parts: string[] }) {
+  if (parts.length === 0) {
+    return <span className="type-label text-muted-foreground">{'\u2014'}</span>
+  }
+  return (
+    <span className="flex flex-col gap-0.5">
+      {parts.map((part) => (
+        <span
+          key={part}
+          className="type-label text-foreground"
+        >
+          {part}
+        </span>
+      ))}
+    </span>
+  )
+}
+
+export function createImportHistoryTableColumns(params: {
+  t: TFunction
+  onUndo: (row: ImportHistoryTableRow) => void
+}): DataTableColumnDef<ImportHistoryTableRow>[] {
+  const { t, onUndo } = params
+
+  return [
+    {
+      accessorKey: 'importedAt',
+      header: t('importHistory.columns.importedAt'),
+      cell: ({ row }) => (
+        <span className="flex flex-row flex-wrap items-center gap-2">
+          <span className="type-label text-foreground">
+            {row.original.importedAt}
+          </span>
+          {row.original.status === 'imported' ? null : (
+            <Badge
+              color={row.original.status === 'undone' ? 'gray' : 'yellow'}
+              label={t(`importHistory.status.${row.original.status}`)}
+            />
+          )}
+        </span>
+      ),
+      meta: {
+        globalSearchable: false
+      }
+    },
+    {
+      id: 'files',
+      accessorFn: (r) => r.files.join(' '),
+      header: t('importHistory.columns.files'),
+      enableSorting: false,
+      cell: ({ row }) => <SummaryList parts={row.original.files} />,
+      meta: {
+        globalSearchable: true,
+        searchValue: (r) => r.files.join(' ')
+      }
+    },
+    {
+      id: 'accounts',
+      accessorFn: (r) => r.accounts.join(' '),
+      header: t('importHistory.columns.accounts'),
+      enableSorting: false,
+      cell: ({ row }) => <SummaryList parts={row.original.accounts} />,
+      meta: {
+        globalSearchable: true,
+        searchValue: (r) => r.accounts.join(' ')
+      }
+    },
+    {
+      id: 'rows',
+      header: t('importHistory.columns.rows'),
+      enableSorting: false,
+      cell: ({ row }) => <SummaryList parts={row.original.rows} />,
+      meta: {
+        globalSearchable: false
+      }
+    },
+    {
+      id: 'totals',
+      header: t('importHistory.columns.totals'),
+      enableSorting: false,
+      cell: ({ row }) => <SummaryList parts={row.original.totals} />,
+      meta: {
+        globalSearchable: false
+      }
+    },
+    {
+      id: 'allocations',
+      accessorFn: (r) => r.allocations.join(' '),
+      header: t('importHistory.columns.allocations'),
+      enableSorting: false,
+      cell: ({ row }) => <SummaryList parts={row.original.allocations} />,
+      meta: {
+        globalSearchable: true,
+        searchValue: (r) => r.allocations.join(' ')
+      }
+    },
+    {
+      id: 'rowActions',
+      header: '',
+      enableSorting: false,
+      cell: ({ row }) => {
+        if (row.original.status === 'undone') return null
+        const items: TableRowMenuItem[] = [
+          {
+            id: 'undo',
+            label: t('importHistory.undo'),
+            icon: <Undo2Icon />,
+            onSelect: () => onUndo(row.original),
+            destructive: true
+          }
+        ]
+
+        return (
+          <div className="flex flex-row justify-end">
+            <TableRowMenu
+              aria-label={t('common.actions')}
+              items={items}
+            />
+          </div>
+        )
+      },
+      meta: {
+        globalSearchable: false
+      }
+    }
+  ]
+}
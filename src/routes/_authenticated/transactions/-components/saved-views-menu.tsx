@@ -0,0 +1,120 @@
+import type { TFunction } from 'i18next'
+import {
+  BookmarkIcon,
+  CheckIcon,
+  LinkIcon,
+  PlusIcon,
+  TrashIcon
+} from 'lucide-react'
+
+import { BaseButton } from '@/components/base-button/base-button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import type { SavedTransactionView } from '@/features/transaction-views/view-storage'
+
+export type SavedViewsMenuProps = {
+  t: TFunction
+  views: SavedTransactionView[]
+  /** The saved view the table currently shows, if any. */
+  activeViewId?: string
+  disabled?: boolean
+  onOpenView: (view: SavedTransactionView) => void
+  /** Copies a link to `view`, or to the current view when omitted. */
+  onCopyLink: (view?: SavedTransactionView) => void
+  onSaveCurrent: () => void
+  onDeleteView: (view: SavedTransactionView) => void
+}
+
+/**
+ * Toolbar menu for the user's saved transaction views: open, share as a link,
+ * delete, or save what the table shows now.
+ */
+export function SavedViewsMenu({
+  t,
+  views,
+  activeViewId,
+  disabled,
+  onOpenView,
+  onCopyLink,
+  onSaveCurrent,
+  onDeleteView
+}: SavedViewsMenuProps) {
+  const activeView = views.find((view) => view.id === activeViewId)
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <BaseButton
+          type="button"
+          variant="outlined"
+          color="primary"
+          iconOnly={false}
+          disabled={disabled}
+        >
+          <BookmarkIcon />
+          <span className="max-w-48 truncate">
+            {activeView?.name ?? t('transactions.views.title')}
+          </span>
+        </BaseButton>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        className="w-64"
+        align="start"
+      >
+        <DropdownMenuLabel>{t('transactions.views.saved')}</DropdownMenuLabel>
+        {views.length === 0 ? (
+          <DropdownMenuItem disabled>
+            {t('transactions.views.none')}
+          </DropdownMenuItem>
+        ) : (
+          views.map((view) => (
+            <DropdownMenuSub key={view.id}>
+              <DropdownMenuSubTrigger>
+                <CheckIcon
+                  className={
+                    view.id === activeViewId ? 'size-4' : 'size-4 invisible'
+                  }
+                />
+                <span className="truncate">{view.name}</span>
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                <DropdownMenuItem onClick={() => onOpenView(view)}>
+                  <BookmarkIcon className="size-4" />
+                  {t('transactions.views.open')}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onCopyLink(view)}>
+                  <LinkIcon className="size-4" />
+                  {t('transactions.views.copyLink')}
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  variant="destructive"
+                  onClick={() => onDeleteView(view)}
+                >
+                  <TrashIcon className="size-4" />
+                  {t('common.delete')}
+                </DropdownMenuItem>
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          ))
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={onSaveCurrent}>
+          <PlusIcon className="size-4" />
+          {t('transactions.views.saveCurrent')}
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => onCopyLink()}>
+          <LinkIcon className="size-4" />
+          {t('transactions.views.copyCurrentLink')}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,60 @@
+import type { TFunction } from 'i18next'
+import {
+  DownloadIcon,
+  FileSpreadsheetIcon,
+  FileTextIcon,
+  PrinterIcon
+} from 'lucide-react'
+
+import { BaseButton } from '@/components/base-button/base-button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import type { TransactionExportFormat } from '@/features/transaction-export/export-formats'
+
+export type TransactionsExportMenuProps = {
+  t: TFunction
+  disabled?: boolean
+  onExport: (format: TransactionExportFormat) => void
+}
+
+/** Toolbar menu that exports the filtered transactions. */
+export function TransactionsExportMenu({
+  t,
+  disabled,
+  onExport
+}: TransactionsExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <BaseButton
+          type="button"
+          variant="outlined"
+          color="primary"
+          iconOnly={false}
+          disabled={disabled}
+        >
+          <DownloadIcon />
+          <span>{t('transactions.export.title')}</span>
+        </BaseButton>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuItem onClick={() => onExport('csv')}>
+          <FileTextIcon className="size-4" />
+          {t('transactions.export.csv')}
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => onExport('xlsx')}>
+          <FileSpreadsheetIcon className="size-4" />
+          {t('transactions.export.xlsx')}
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => onExport('pdf')}>
+          <PrinterIcon className="size-4" />
+          {t('transactions.export.pdf')}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,59 @@
+import type { TFunction } from 'i18next'
+import { EditIcon, TrashIcon, XIcon } from 'lucide-react'
+
+import { Button } from '@/components/button/button'
+
+export type TransactionsSelectionBarProps = {
+  t: TFunction
+  selectedCount: number
+  disabled?: boolean
+  onEdit: () => void
+  onDelete: () => void
+  onClear: () => void
+}
+
+/**
+ * Bulk actions for the rows checked in the transactions table; hidden while
+ * nothing is selected.
+ */
+export function TransactionsSelectionBar({
+  t,
+  selectedCount,
+  disabled,
+  onEdit,
+  onDelete,
+  onClear
+}: TransactionsSelectionBarProps) {
+  if (selectedCount === 0) return null
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-sm border border-gray-300 bg-gray-50 px-3 py-2">
+      <span className="type-label mr-auto text-gray-800">
+        {t('transactions.bulk.selected', {
+          count: selectedCount
+        })}
+      </span>
+      <Button
+        variant="outlined"
+        icon={<EditIcon />}
+        label={t('transactions.bulk.edit')}
+        disabled={disabled}
+        onClick={onEdit}
+      />
+      <Button
+        variant="outlined"
+        color="destructive"
+        icon={<TrashIcon />}
+        label={t('common.delete')}
+        disabled={disabled}
+        onClick={onDelete}
+      />
+      <Button
+        variant="text"
+        color="subtle"
+        icon={<XIcon />}
+        label={t('transactions.bulk.clear')}
+        onClick={onClear}
+      />
+    </div>
+  )
+}
@@ -7,12 +7,14 @@ import {
   CopyIcon,
   Link2,
   PencilIcon,
-  TrashIcon
+  TrashIcon,
+  Undo2
 } from 'lucide-react'
 import type { ReactNode, RefObject } from 'react'
 
 import { type Transaction, TransactionType } from '@/api/generated/types.gen'
 import { Badge } from '@/components/badge/badge'
+import { Checkbox } from '@/components/checkbox/checkbox'
 import type { DataTableColumnDef } from '@/components/data-table'
 import { IconButton } from '@/components/icon-button/icon-button'
 import {
@@ -21,6 +23,16 @@ import {
   splitLinesToolbarSearchText
 } from '@/components/split-lines-table-cell/split-lines-table-cell'
 import { TableRowMenu } from '@/components/table-row-menu/table-row-menu'
+import { AttachmentIndicator } from '@/features/attachments/attachment-indicator'
+import {
+  refundedAmount,
+  type TransactionRefundIndex
+} from '@/features/transaction-refunds/refunds'
+import { TagBadges } from '@/features/transaction-tags/tag-badges'
+import {
+  matchesTagFilter,
+  type TransactionTag
+} from '@/features/transaction-tags/tags'
 import {
   transactionSplitsBudgetSearchBlob,
   transactionSplitsCategorySearchBlob,
@@ -30,6 +42,11 @@ import { formatCurrency } from '@/lib/utils'
 
 export type TransactionListItem = Omit<Transaction, 'date'> & {
   date: Date
+  /**
+   * Household tags on the transaction. Part of the row so tagging alone makes
+   * the table filter and sort the rows again.
+   */
+  tagIds?: string[]
 }
 
 export type TransactionDateFilterValue = {
@@ -49,11 +66,27 @@ export type TransactionLabelLookup = {
   recipientsSenders: Map<string, string>
 }
 
+/** Household tags by id; read through a ref like the label lookup. */
+export type TransactionTagLookup = {
+  tagsById: Map<string, TransactionTag>
+}
+
+/** Rows picked for bulk actions; read through a ref so columns stay stable. */
+export type TransactionSelection = {
+  selectedIds: Set<string>
+  onSelectedChange: (ids: string[], selected: boolean) => void
+}
+
 type PresenceFilterValue = Array<'has' | 'doesNotHave'>
 
 export type CreateTransactionTableColumnsParams = {
   t: TFunction
   labelLookupRef: RefObject<TransactionLabelLookup>
+  selectionRef: RefObject<TransactionSelection>
+  refundsRef: RefObject<TransactionRefundIndex>
+  tagsRef: RefObject<TransactionTagLookup>
+  /** Attached receipt and invoice count per transaction id. */
+  attachmentCountsRef: RefObject<ReadonlyMap<string, number>>
   onEditTransaction: (transaction: TransactionListItem) => void
   onEditTransfer: (transfer: {
     id: string
@@ -66,6 +99,9 @@ export type CreateTransactionTableColumnsParams = {
     notes: string | null
   }) => void
   onClone: (transaction: TransactionListItem) => void
+  onRefund: (transaction: TransactionListItem) => void
+  /** Opens the other side of a refund link. */
+  onOpenLinkedTransaction: (transactionId: string) => void
   onDeleteTransaction: (transaction: TransactionListItem) => void
   onDeleteTransfer: (transaction: TransactionListItem) => void
 }
@@ -120,6 +156,60 @@ function isLinkedToScheduledInstance(
   return Boolean(transaction.billInstance?.id || transaction.incomeInstance?.id)
 }
 
+/**
+ * Link icon on a refund (to the expense it credits) or on a refunded expense
+ * (to its latest refund), titled with what the link means.
+ */
+function refundLinkButton(
+  transaction: TransactionListItem,
+  refunds: TransactionRefundIndex,
+  t: TFunction,
+  onOpenLinkedTransaction: (transactionId: string) => void
+): ReactNode {
+  const refund = refunds.byRefund.get(transaction.id)
+  const ofOriginal = refunds.byOriginal.get(transaction.id) ?? []
+  const latest = ofOriginal[ofOriginal.length - 1]
+  const link = refund
+    ? {
+        id: refund.originalId,
+        title: t('transactions.refund.refundOf', {
+          name: refund.originalName
+        })
+      }
+    : latest
+      ? {
+          id: latest.refundId,
+          title: t('transactions.refund.refunded', {
+            amount: formatCurrency(refundedAmount(ofOriginal)),
+            total: formatCurrency(transaction.amount)
+          })
+        }
+      : null
+  if (!link) return null
+  return (
+    <IconButton
+      type="button"
+      variant="text"
+      color="primary"
+      icon={<Undo2 />}
+      onClick={() => onOpenLinkedTransaction(link.id)}
+      title={link.title}
+      aria-label={link.title}
+    />
+  )
+}
+
+function canRefund(
+  transaction: TransactionListItem,
+  refunds: TransactionRefundIndex
+): boolean {
+  if (transaction.type !== TransactionType.EXPENSE) return false
+  return (
+    refundedAmount(refunds.byOriginal.get(transaction.id) ?? []) <
+    transaction.amount
+  )
+}
+
 function transactionNameSearchText(transaction: TransactionListItem): string {
   return [
     transaction.name,
@@ -170,6 +260,17 @@ function accountCell(transaction: TransactionListItem): ReactNode {
   return transaction.account?.name ?? emptyCellDash
 }
 
+function tagsSortValue(
+  transaction: TransactionListItem,
+  lookup: TransactionTagLookup
+): string {
+  return (transaction.tagIds ?? [])
+    .map((id) => lookup.tagsById.get(id)?.name ?? '')
+    .filter(Boolean)
+    .sort((a, b) => a.localeCompare(b, 'sv'))
+    .join(', ')
+}
+
 function recipientSenderSortValue(transaction: TransactionListItem): string {
   if (transaction.type === TransactionType.TRANSFER) return ''
   if (transaction.type === TransactionType.INCOME) {
@@ -368,13 +469,59 @@ function typeFilterPillValue(value: unknown, t: TFunction): string {
 export function createTransactionTableColumns({
   t,
   labelLookupRef,
+  selectionRef,
+  refundsRef,
+  tagsRef,
+  attachmentCountsRef,
   onEditTransaction,
   onEditTransfer,
   onClone,
+  onRefund,
+  onOpenLinkedTransaction,
   onDeleteTransaction,
   onDeleteTransfer
 }: CreateTransactionTableColumnsParams): DataTableColumnDef<TransactionListItem>[] {
   return [
+    columnHelper.display({
+      id: 'select',
+      enableSorting: false,
+      header: (ctx) => {
+        const { selectedIds, onSelectedChange } = selectionRef.current
+        const ids = ctx.table
+          .getFilteredRowModel()
+          .rows.map((row) => row.original.id)
+        return (
+          <Checkbox
+            id={`transactions-${ctx.header.id}-all`}
+            checked={ids.length > 0 && ids.every((id) => selectedIds.has(id))}
+            disabled={ids.length === 0}
+            aria-label={t('transactions.bulk.selectAll')}
+            onCheckedChange={(checked) => onSelectedChange(ids, checked)}
+          />
+        )
+      },
+      cell: (ctx) => {
+        const { selectedIds, onSelectedChange } = selectionRef.current
+        const tx = ctx.row.original
+        return (
+          <Checkbox
+            id={`transactions-select-${tx.id}`}
+            checked={selectedIds.has(tx.id)}
+            aria-label={t('transactions.bulk.selectRow', {
+              name: tx.name
+            })}
+            onCheckedChange={(checked) =>
+              onSelectedChange(
+                [
+                  tx.id
+                ],
+                checked
+              )
+            }
+          />
+        )
+      }
+    }),
     columnHelper.accessor((row) => row.date.getTime(), {
       id: 'date',
       header: t('common.date'),
@@ -460,6 +607,12 @@ export function createTransactionTableColumns({
                 aria-label={t('transactions.scheduledLink')}
               />
             ) : null}
+            {refundLinkButton(
+              tx,
+              refundsRef.current,
+              t,
+              onOpenLinkedTransaction
+            )}
           </span>
         )
       }
@@ -632,6 +785,55 @@ export function createTransactionTableColumns({
       },
       cell: (ctx) => categoryCell(ctx.row.original, t, labelLookupRef.current)
     }),
+    columnHelper.accessor((row) => tagsSortValue(row, tagsRef.current), {
+      id: 'tags',
+      header: t('tags.column'),
+      sortingFn: (rowA, rowB) =>
+        tagsSortValue(rowA.original, tagsRef.current).localeCompare(
+          tagsSortValue(rowB.original, tagsRef.current),
+          'sv'
+        ),
+      filterFn: (
+        row: Row<TransactionListItem>,
+        _columnId: string,
+        filterValue: string[]
+      ) => matchesTagFilter(row.original.tagIds, filterValue),
+      meta: {
+        globalSearchable: true,
+        searchValue: (row: TransactionListItem) =>
+          tagsSortValue(row, tagsRef.current),
+        filterable: true,
+        filterLabel: t('tags.column'),
+        filterPillValue: (value: unknown) => {
+          if (!Array.isArray(value)) return ''
+          const { tagsById } = tagsRef.current
+          return (value as string[])
+            .map((id) => tagsById.get(id)?.name ?? id)
+            .join(', ')
+        }
+      },
+      cell: (ctx) => (
+        <TagBadges
+          tagIds={ctx.row.original.tagIds}
+          tagsById={tagsRef.current.tagsById}
+        />
+      )
+    }),
+    columnHelper.accessor(
+      (row) => attachmentCountsRef.current.get(row.id) ?? 0,
+      {
+        id: 'attachments',
+        header: t('attachments.column'),
+        sortingFn: (rowA, rowB) =>
+          (attachmentCountsRef.current.get(rowA.original.id) ?? 0) -
+          (attachmentCountsRef.current.get(rowB.original.id) ?? 0),
+        cell: (ctx) => (
+          <AttachmentIndicator
+            count={attachmentCountsRef.current.get(ctx.row.original.id) ?? 0}
+          />
+        )
+      }
+    ),
     columnHelper.accessor((row) => recipientSenderSortValue(row), {
       id: 'recipientSender',
       header: t('common.recipientSender'),
@@ -718,6 +920,16 @@ export function createTransactionTableColumns({
                   icon: <CopyIcon />,
                   onSelect: () => onClone(tx)
                 },
+                ...(canRefund(tx, refundsRef.current)
+                  ? [
+                      {
+                        id: 'refund',
+                        label: t('transactions.refund.action'),
+                        icon: <Undo2 />,
+                        onSelect: () => onRefund(tx)
+                      }
+                    ]
+                  : []),
                 {
                   id: 'delete',
                   label: t('common.delete'),
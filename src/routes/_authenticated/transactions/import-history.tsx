@@ -0,0 +1,296 @@
+/**
+ * Import history — statement imports the household submitted, with the
+ * transactions and allocations each created, and an undo for a whole batch.
+ */
+
+import {
+  createFileRoute,
+  getRouteApi,
+  useNavigate
+} from '@tanstack/react-router'
+import { format } from 'date-fns'
+import { UploadIcon } from 'lucide-react'
+import { type ReactNode, useCallback, useMemo, useRef } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+
+import { DataTable, useDataTable } from '@/components/data-table'
+import { PageLayout } from '@/components/page-layout/page-layout'
+import { useAuth } from '@/contexts/auth-context'
+import { useAccountReconciliations } from '@/features/account-reconciliation/use-account-reconciliations'
+import {
+  StatementFileInput,
+  type StatementFileInputHandle
+} from '@/features/import-statements/components/statement-file-input'
+import { useUndoImportDialog } from '@/features/import-statements/components/undo-import-dialog'
+import { toLookupItems } from '@/features/import-statements/import-drafts'
+import {
+  type ImportHistoryEntry,
+  importHistoryTotals
+} from '@/features/import-statements/import-history'
+import { setActiveStatements } from '@/features/import-statements/session'
+import { undoImportBatch } from '@/features/import-statements/undo-import'
+import { useImportHistory } from '@/features/import-statements/use-import-history'
+import { useTransactionRefunds } from '@/features/transaction-refunds/use-transaction-refunds'
+import {
+  useAccountsList,
+  useBudgetsList,
+  useCreateAllocationMutation,
+  useDeleteTransaction
+} from '@/hooks/api'
+import { getErrorMessage } from '@/lib/api-error'
+import { formatCurrency } from '@/lib/utils'
+import {
+  createImportHistoryTableColumns,
+  type ImportHistoryTableRow
+} from './-components/import-history-table'
+
+export const Route = createFileRoute(
+  '/_authenticated/transactions/import-history'
+)({
+  component: ImportHistoryPage
+})
+
+const authenticatedRouteApi = getRouteApi('/_authenticated')
+
+function entryStatus(
+  entry: ImportHistoryEntry
+): ImportHistoryTableRow['status'] {
+  if (entry.undoneAt) return 'undone'
+  const partiallyUndone =
+    entry.transactions.some((transaction) => transaction.undone) ||
+    entry.allocations.some((allocation) => allocation.undone)
+  return partiallyUndone ? 'partiallyUndone' : 'imported'
+}
+
+function ImportHistoryPage() {
+  const { userId, householdId } = useAuth()
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const { from, to } = authenticatedRouteApi.useSearch()
+  const statementFileInputRef = useRef<StatementFileInputHandle | null>(null)
+  const {
+    entries,
+    isLoading: historyLoading,
+    saveEntry: saveImportHistoryEntry
+  } = useImportHistory(householdId)
+  const { promptUndoImport, undoImportDialog } = useUndoImportDialog()
+  const { lockedTransactionIds } = useAccountReconciliations(householdId)
+  const { refundIndex: refunds } = useTransactionRefunds(householdId)
+  const { mutateAsync: deleteTransactionAsync } = useDeleteTransaction()
+  const { mutateAsync: createAllocationAsync } = useCreateAllocationMutation()
+
+  const { data: accountsData = [], isLoading: accountsLoading } =
+    useAccountsList({
+      householdId,
+      userId,
+      enabled: !!householdId,
+      excludeArchived: false
+    })
+  const { data: budgetsData = [], isLoading: budgetsLoading } = useBudgetsList({
+    householdId,
+    userId,
+    enabled: !!householdId
+  })
+  const accounts = useMemo(
+    () => toLookupItems(accountsData),
+    [
+      accountsData
+    ]
+  )
+  const budgets = useMemo(
+    () => toLookupItems(budgetsData),
+    [
+      budgetsData
+    ]
+  )
+
+  const tableRows: ImportHistoryTableRow[] = useMemo(() => {
+    const nameOf = (items: typeof accounts, id: string) =>
+      items.find((item) => item.id === id)?.name ?? ''
+
+    return entries.map((entry) => {
+      const totals = importHistoryTotals(entry)
+      return {
+        id: entry.id,
+        importedAt: format(new Date(entry.importedAt), 'yyyy-MM-dd HH:mm'),
+        files: entry.files.map((file) => file.fileName),
+        accounts: [
+          ...new Set(
+            entry.files
+              .map((file) => nameOf(accounts, file.accountId))
+              .filter(Boolean)
+          )
+        ],
+        rows: [
+          t('importHistory.rows.incomes', {
+            count: totals.incomeCount
+          }),
+          t('importHistory.rows.expenses', {
+            count: totals.expenseCount
+          }),
+          t('importHistory.rows.transfers', {
+            count: totals.transferCount
+          })
+        ],
+        totals: [
+          t('importHistory.totals.income', {
+            amount: formatCurrency(totals.income)
+          }),
+          t('importHistory.totals.expenses', {
+            amount: formatCurrency(totals.expenses)
+          }),
+          t('importHistory.totals.transfers', {
+            amount: formatCurrency(totals.transfers)
+          })
+        ],
+        allocations: entry.allocations.map((allocation) =>
+          t('importHistory.allocation', {
+            budget: nameOf(budgets, allocation.budgetId),
+            amount: formatCurrency(allocation.amount)
+          })
+        ),
+        status: entryStatus(entry),
+        entry
+      }
+    })
+  }, [
+    accounts,
+    budgets,
+    entries,
+    t
+  ])
+
+  const handleUndo = useCallback(
+    async (row: ImportHistoryTableRow) => {
+      const confirmed = await promptUndoImport({
+        entry: row.entry,
+        lookups: {
+          accounts,
+          budgets
+        },
+        lockedTransactionIds,
+        refunds
+      })
+      if (!confirmed) return
+
+      try {
+        const result = await undoImportBatch({
+          entry: row.entry,
+          userId,
+          lockedTransactionIds,
+          refunds,
+          deleteTransactionAsync,
+          createAllocationAsync
+        })
+        saveImportHistoryEntry(result.entry)
+        if (result.ok) {
+          toast.success(t('importHistory.undoSuccess'))
+        } else if (result.lockedTransactions?.length) {
+          toast.error(
+            t('importHistory.undoDialog.locked', {
+              count: result.lockedTransactions.length
+            })
+          )
+        } else if (result.refundedTransactions?.length) {
+          toast.error(
+            t('importHistory.undoDialog.refunded', {
+              count: result.refundedTransactions.length
+            })
+          )
+        } else {
+          toast.error(
+            t('importHistory.undoFailed', {
+              message: getErrorMessage(result.error)
+            })
+          )
+        }
+      } catch (error) {
+        toast.error(getErrorMessage(error))
+      }
+    },
+    [
+      accounts,
+      budgets,
+      createAllocationAsync,
+      deleteTransactionAsync,
+      lockedTransactionIds,
+      promptUndoImport,
+      refunds,
+      saveImportHistoryEntry,
+      t,
+      userId
+    ]
+  )
+
+  const columns = useMemo(
+    () =>
+      createImportHistoryTableColumns({
+        t,
+        onUndo: (row) => void handleUndo(row)
+      }),
+    [
+      handleUndo,
+      t
+    ]
+  )
+
+  const { table, globalFilter, setGlobalFilter, activeFilters } = useDataTable({
+    data: tableRows,
+    columns
+  })
+
+  const filteredRowCount = table.getFilteredRowModel().rows.length
+
+  const tableEmptyMessage = useMemo((): ReactNode | undefined => {
+    if (entries.length === 0) return t('importHistory.empty')
+    if (filteredRowCount === 0) return t('common.noResultsFound')
+    return undefined
+  }, [
+    entries.length,
+    filteredRowCount,
+    t
+  ])
+
+  return (
+    <PageLayout
+      title={t('importHistory.title')}
+      description={t('importHistory.pageDescription')}
+      loadingContent={accountsLoading || budgetsLoading || historyLoading}
+    >
+      <DataTable
+        table={table}
+        columns={columns}
+        globalFilter={globalFilter}
+        onGlobalFilterChange={setGlobalFilter}
+        activeFilters={activeFilters}
+        actionButton={{
+          label: t('statementImport.page.quickAction'),
+          icon: <UploadIcon />,
+          onClick: () => statementFileInputRef.current?.open(),
+          disabled: !householdId
+        }}
+        toolbarLabels={{
+          searchPlaceholder: t('common.search'),
+          filter: t('common.filter'),
+          pillRemoveAriaLabel: t('common.removeFilter')
+        }}
+        emptyMessage={tableEmptyMessage}
+      />
+      <StatementFileInput
+        inputRef={statementFileInputRef}
+        onParsed={(statements) => {
+          setActiveStatements(statements)
+          navigate({
+            to: '/transactions/import',
+            search: {
+              from,
+              to
+            }
+          })
+        }}
+      />
+      {undoImportDialog}
+    </PageLayout>
+  )
+}
@@ -9,14 +9,34 @@ import { toast } from 'sonner'
 import { TransactionType } from '@/api/generated/types.gen'
 import { PageLayout } from '@/components/page-layout/page-layout'
 import { useAuth } from '@/contexts/auth-context'
+import { useAssignmentRules } from '@/features/assignment-rules/use-assignment-rules'
 import { buildBulkCreateRequest } from '@/features/import-statements/build-bulk-create-request'
+import {
+  applyBudgetSuggestions,
+  budgetSuggestionSince,
+  recipientBudgetSuggestions
+} from '@/features/import-statements/classification/budget-suggestions'
+import {
+  flagDuplicateDrafts,
+  statementDateSpan
+} from '@/features/import-statements/classification/duplicate-detection'
 import {
   buildBillInstancePatch,
   buildIncomeInstancePatch,
   findMatchingBillInstanceId,
   findMatchingIncomeInstanceId
 } from '@/features/import-statements/classification/instance-matching'
-import { ExpensesTable } from '@/features/import-statements/components/expenses-table'
+import {
+  applyAssignmentRuleProposals,
+  proposeAssignmentRules
+} from '@/features/import-statements/classification/learn-assignment-rules'
+import { applyTransferCounterparts } from '@/features/import-statements/classification/transfer-counterpart'
+import {
+  confirmTransferPair,
+  pairStatementTransfers,
+  unpairStatementTransfers
+} from '@/features/import-statements/classification/transfer-pairing'
+import { DraftSections } from '@/features/import-statements/components/draft-sections'
 import {
   Footer,
   importValidationMessages
@@ -25,34 +45,48 @@ import {
   type ImportAllocationChoice,
   useImportBudgetAllocationDialog
 } from '@/features/import-statements/components/import-allocation-dialog'
-import { IncomesTable } from '@/features/import-statements/components/incomes-table'
+import { useLearnedRulesDialog } from '@/features/import-statements/components/learned-rules-dialog'
+import { ResumeImportBanner } from '@/features/import-statements/components/resume-import-banner'
 import {
   StatementFileInput,
   type StatementFileInputHandle
 } from '@/features/import-statements/components/statement-file-input'
 import { Summary } from '@/features/import-statements/components/summary'
-import { TransfersTable } from '@/features/import-statements/components/transfers-table'
-import { UncategorizedTable } from '@/features/import-statements/components/uncategorized-table'
 import {
   computeImportAvailableToAllocate,
   computeImportBudgetShortfalls,
   pendingIncomeTotalFromImportDrafts
 } from '@/features/import-statements/import-budget-shortfalls'
 import {
-  buildDraftsFromStatement,
-  toLookupItems
+  buildDraftsFromStatements,
+  toLookupItems,
+  withOriginAccount
 } from '@/features/import-statements/import-drafts'
+import { importedHistoryTransactions } from '@/features/import-statements/import-history'
 import {
-  clearActiveStatement,
-  getActiveStatement,
-  getActiveStatementFileName,
-  setActiveStatement
+  clearActiveStatements,
+  getActiveStatements,
+  setActiveStatements
 } from '@/features/import-statements/session'
-import { submitImportInOrder } from '@/features/import-statements/submit-import'
+import {
+  deleteImportSession,
+  importSessionFingerprint,
+  loadImportSession,
+  type StoredImportSession,
+  saveImportSession
+} from '@/features/import-statements/session-storage'
+import {
+  applyImportPhaseResult,
+  type ImportBulkPhaseResult,
+  submitImportInOrder
+} from '@/features/import-statements/submit-import'
 import type {
-  StatementParseResult,
+  ImportStatementFile,
   TransactionDraft
 } from '@/features/import-statements/types'
+import { useImportHistory } from '@/features/import-statements/use-import-history'
+import type { TagAssignments } from '@/features/transaction-tags/tags'
+import { useTransactionTags } from '@/features/transaction-tags/use-transaction-tags'
 import {
   useAccountsList,
   useAllocationsQuery,
@@ -63,9 +97,12 @@ import {
   useCreateAllocationMutation,
   useIncomeInstancesFilteredList,
   useIncomeSourcesList,
-  useRecipientsList
+  useRecipientsList,
+  useTransactionsList
 } from '@/hooks/api'
+import { useConfirmDialog } from '@/hooks/use-confirm-dialog'
 import { getErrorMessage } from '@/lib/api-error'
+import { createId } from '@/lib/create-id'
 
 export const Route = createFileRoute('/_authenticated/transactions/import')({
   component: ImportTransactionsPage
@@ -73,24 +110,55 @@ export const Route = createFileRoute('/_authenticated/transactions/import')({
 
 const authenticatedRouteApi = getRouteApi('/_authenticated')
 
+/** Debounce for writing the in-progress import to IndexedDB. */
+const SESSION_SAVE_DELAY_MS = 500
+
 function ImportTransactionsPage() {
   const { householdId, userId } = useAuth()
   const { t } = useTranslation()
   const navigate = useNavigate()
   const { from, to } = authenticatedRouteApi.useSearch()
   const fileInputRef = useRef<StatementFileInputHandle | null>(null)
-  const [parseResult, setParseResult] = useState<StatementParseResult | null>(
-    () => getActiveStatement()
+  const { rules: assignmentRules, updateRules: updateAssignmentRules } =
+    useAssignmentRules(householdId)
+  const { setTransactionTags } = useTransactionTags(householdId)
+  const { saveEntry: saveImportHistoryEntry } = useImportHistory(householdId)
+  const [statements, setStatements] = useState<ImportStatementFile[]>(() =>
+    getActiveStatements()
+  )
+  const fingerprint = useMemo(
+    () => importSessionFingerprint(statements),
+    [
+      statements
+    ]
   )
-  const [fileName, setFileName] = useState(() => getActiveStatementFileName())
-  const [appliedResult, setAppliedResult] =
-    useState<StatementParseResult | null>(null)
+  /** Saved session looked up for `statements`; drafts wait for it. */
+  const [storedLookup, setStoredLookup] = useState<{
+    statements: ImportStatementFile[]
+    session: StoredImportSession | null
+  } | null>(null)
+  /** Set once the import finished or was discarded; stops further saves. */
+  const sessionClosedRef = useRef(false)
+  const [appliedStatements, setAppliedStatements] = useState<
+    ImportStatementFile[] | null
+  >(null)
   const [autoMatchedSignature, setAutoMatchedSignature] = useState('')
+  const [duplicateCheckSignature, setDuplicateCheckSignature] = useState('')
   const [drafts, setDrafts] = useState<TransactionDraft[]>([])
-  const [originAccountId, setOriginAccountId] = useState('')
-  const [importFailures, setImportFailures] = useState<Record<string, string>>(
-    {}
+  const [originAccountIds, setOriginAccountIds] = useState<
+    Record<string, string>
+  >({})
+  const [allocationChoices, setAllocationChoices] = useState<
+    ImportAllocationChoice[]
+  >([])
+  /** Import history entry the attempts of this import are recorded under. */
+  const [historyEntryId, setHistoryEntryId] = useState<string>(() =>
+    createId('import')
   )
+  /** Allocations a partially failed attempt already created. */
+  const [createdAllocations, setCreatedAllocations] = useState<
+    ImportAllocationChoice[]
+  >([])
   const [isImporting, setIsImporting] = useState(false)
 
   const { mutateAsync: bulkCreateAsync, isPending: bulkCreatePending } =
@@ -98,6 +166,8 @@ function ImportTransactionsPage() {
   const { mutateAsync: createAllocationAsync } = useCreateAllocationMutation()
   const { promptImportAllocations, importAllocationDialog } =
     useImportBudgetAllocationDialog()
+  const { promptLearnedRules, learnedRulesDialog } = useLearnedRulesDialog()
+  const { confirm, confirmDialog } = useConfirmDialog()
 
   const { data: accountsData = [], isLoading: accountsLoading } =
     useAccountsList({
@@ -111,7 +181,11 @@ function ImportTransactionsPage() {
     userId,
     enabled: !!householdId
   })
-  const { data: budgetsData = [], isLoading: budgetsLoading } = useBudgetsList({
+  const {
+    data: budgetsData = [],
+    isLoading: budgetsLoading,
+    refetch: refetchBudgets
+  } = useBudgetsList({
     householdId,
     userId,
     enabled: !!householdId
@@ -187,6 +261,97 @@ function ImportTransactionsPage() {
       enabled: !!householdId && hasExpenseRows
     })
 
+  const statementSpan = useMemo(
+    () =>
+      appliedStatements
+        ? statementDateSpan(
+            appliedStatements.flatMap(
+              (statement) => statement.result.transactions
+            )
+          )
+        : null,
+    [
+      appliedStatements
+    ]
+  )
+  const matchedAccountIds = useMemo(
+    () =>
+      [
+        ...new Set(Object.values(originAccountIds).filter(Boolean))
+      ].sort(),
+    [
+      originAccountIds
+    ]
+  )
+  // Household-wide: transfer counterparts live on the other accounts.
+  const { data: householdTransactions } = useTransactionsList({
+    householdId,
+    dateFrom: statementSpan?.dateFrom,
+    dateTo: statementSpan?.dateTo,
+    enabled: !!householdId && matchedAccountIds.length > 0 && !!statementSpan
+  })
+
+  const importedTransactionIds = useMemo(
+    () =>
+      new Set(
+        drafts
+          .map((draft) => draft.importedTransactionId)
+          .filter((id): id is string => Boolean(id))
+      ),
+    [
+      drafts
+    ]
+  )
+  /** Registered before this import; rows created by it must not count. */
+  const existingTransactions = useMemo(
+    () =>
+      householdTransactions?.filter(
+        (transaction) => !importedTransactionIds.has(transaction.id)
+      ),
+    [
+      householdTransactions,
+      importedTransactionIds
+    ]
+  )
+
+  const recipientHistorySince = useMemo(
+    () => (statementSpan ? budgetSuggestionSince(statementSpan.dateTo) : null),
+    [
+      statementSpan
+    ]
+  )
+  const { data: recipientHistory } = useTransactionsList({
+    householdId,
+    type: TransactionType.EXPENSE,
+    dateFrom: recipientHistorySince ?? undefined,
+    dateTo: statementSpan?.dateTo,
+    enabled: !!householdId && hasExpenseRows && !!recipientHistorySince
+  })
+  const budgetSuggestions = useMemo(
+    () =>
+      recipientHistory && recipientHistorySince
+        ? recipientBudgetSuggestions(
+            recipientHistory.filter(
+              (transaction) => !importedTransactionIds.has(transaction.id)
+            ),
+            recipientHistorySince
+          )
+        : new Map(),
+    [
+      importedTransactionIds,
+      recipientHistory,
+      recipientHistorySince
+    ]
+  )
+  /** Drafts as reviewed: suggestions are derived, never stored with the session. */
+  const suggestedDrafts = useMemo(
+    () => applyBudgetSuggestions(drafts, budgetSuggestions),
+    [
+      budgetSuggestions,
+      drafts
+    ]
+  )
+
   const lookupsLoading =
     accountsLoading ||
     budgetsLoading ||
@@ -196,7 +361,7 @@ function ImportTransactionsPage() {
 
   useEffect(() => {
     if (
-      !appliedResult ||
+      !appliedStatements ||
       autoMatchedSignature ===
         `${incomeInstances.length}:${billInstances.length}` ||
       incomeInstancesLoading ||
@@ -265,7 +430,7 @@ function ImportTransactionsPage() {
     })
     setAutoMatchedSignature(`${incomeInstances.length}:${billInstances.length}`)
   }, [
-    appliedResult,
+    appliedStatements,
     autoMatchedSignature,
     billInstances,
     billInstancesLoading,
@@ -274,88 +439,258 @@ function ImportTransactionsPage() {
   ])
 
   useEffect(() => {
-    if (!parseResult || appliedResult === parseResult || lookupsLoading) return
+    if (!appliedStatements || !existingTransactions) return
+    const signature = `${matchedAccountIds.join(',')}:${existingTransactions.length}`
+    if (duplicateCheckSignature === signature) return
+
+    setDrafts((current) =>
+      applyTransferCounterparts(
+        flagDuplicateDrafts(current, existingTransactions),
+        existingTransactions
+      )
+    )
+    setDuplicateCheckSignature(signature)
+  }, [
+    appliedStatements,
+    duplicateCheckSignature,
+    existingTransactions,
+    matchedAccountIds
+  ])
+
+  useEffect(() => {
+    if (statements.length === 0) return
+
+    let cancelled = false
+    void loadImportSession(householdId, fingerprint).then((session) => {
+      if (cancelled) return
+      setStoredLookup({
+        statements,
+        session
+      })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [
+    fingerprint,
+    householdId,
+    statements
+  ])
 
-    const next = buildDraftsFromStatement(parseResult, {
+  useEffect(() => {
+    if (
+      statements.length === 0 ||
+      appliedStatements === statements ||
+      lookupsLoading
+    )
+      return
+    if (storedLookup?.statements !== statements) return
+
+    const stored = storedLookup.session
+    if (stored) {
+      setOriginAccountIds(stored.originAccountIds)
+      setDrafts(stored.drafts)
+      setAllocationChoices(stored.allocationChoices)
+      setCreatedAllocations(stored.createdAllocations ?? [])
+      if (stored.historyEntryId) setHistoryEntryId(stored.historyEntryId)
+      setAutoMatchedSignature(stored.autoMatchedSignature)
+      setDuplicateCheckSignature(stored.duplicateCheckSignature)
+      setAppliedStatements(statements)
+      return
+    }
+
+    const next = buildDraftsFromStatements(statements, {
       accounts,
       recipients,
       incomeSources,
-      categories
+      categories,
+      budgets,
+      rules: assignmentRules
     })
-    setOriginAccountId(next.originAccountId)
+    setOriginAccountIds(next.originAccountIds)
     setDrafts(next.drafts)
-    setAppliedResult(parseResult)
+    setAppliedStatements(statements)
   }, [
     accounts,
-    appliedResult,
+    appliedStatements,
+    assignmentRules,
+    budgets,
     categories,
     incomeSources,
     lookupsLoading,
-    parseResult,
-    recipients
+    recipients,
+    statements,
+    storedLookup
   ])
 
-  const validationMessages = useMemo(() => {
-    const messages = importValidationMessages(drafts, t)
-    for (const [draftId, message] of Object.entries(importFailures)) {
-      const draft = drafts.find((row) => row.id === draftId)
-      messages.push(
-        t('statementImport.import.rowFailed', {
-          row: draft?.sourceRowNumber ?? draftId,
-          message
-        })
-      )
-    }
-    return messages
+  useEffect(() => {
+    if (!appliedStatements || isImporting) return
+
+    const timeout = window.setTimeout(() => {
+      if (sessionClosedRef.current) return
+      saveImportSession({
+        householdId,
+        fingerprint,
+        statements: appliedStatements,
+        drafts,
+        originAccountIds,
+        allocationChoices,
+        createdAllocations,
+        historyEntryId,
+        autoMatchedSignature,
+        duplicateCheckSignature,
+        updatedAt: new Date().toISOString()
+      }).catch(() => {
+        // Saving is best effort; the import itself still works without it.
+      })
+    }, SESSION_SAVE_DELAY_MS)
+    return () => window.clearTimeout(timeout)
   }, [
+    allocationChoices,
+    appliedStatements,
+    autoMatchedSignature,
+    createdAllocations,
     drafts,
-    importFailures,
-    t
+    duplicateCheckSignature,
+    fingerprint,
+    historyEntryId,
+    householdId,
+    isImporting,
+    originAccountIds
   ])
 
-  const handleParsed = (result: StatementParseResult, nextFileName: string) => {
-    setActiveStatement(result, nextFileName)
-    setParseResult(result)
-    setFileName(nextFileName)
-    setAppliedResult(null)
+  const validationMessages = useMemo(
+    () => importValidationMessages(drafts, t),
+    [
+      drafts,
+      t
+    ]
+  )
+  const importErrors = useMemo(
+    () =>
+      drafts.flatMap((draft) =>
+        draft.importError
+          ? [
+              t('statementImport.import.rowFailed', {
+                row: draft.sourceRowNumber,
+                message: draft.importError.message
+              })
+            ]
+          : []
+      ),
+    [
+      drafts,
+      t
+    ]
+  )
+  const hasImportedRows = importedTransactionIds.size > 0
+  /** Files with imported rows; moving them to another account is blocked. */
+  const lockedStatementIds = useMemo(
+    () =>
+      new Set(
+        drafts
+          .filter((draft) => draft.importedTransactionId)
+          .flatMap((draft) => [
+            draft.statementId,
+            draft.transferPair?.incoming.statementId
+          ])
+      ),
+    [
+      drafts
+    ]
+  )
+
+  const handleParsed = (nextStatements: ImportStatementFile[]) => {
+    setActiveStatements(nextStatements)
+    setStatements(nextStatements)
+    sessionClosedRef.current = false
+    setAppliedStatements(null)
+    setAllocationChoices([])
+    setCreatedAllocations([])
+    setHistoryEntryId(createId('import'))
     setAutoMatchedSignature('')
-    setImportFailures({})
+    setDuplicateCheckSignature('')
   }
 
-  const handleOriginAccountChange = (accountId: string) => {
-    setOriginAccountId(accountId)
+  const navigateToTransactions = () => {
+    navigate({
+      to: '/transactions',
+      search: {
+        from,
+        to
+      }
+    })
+  }
+
+  /** Ends the session: later edits are no longer saved for `fingerprint`. */
+  const closeSession = async () => {
+    sessionClosedRef.current = true
+    clearActiveStatements()
+    await deleteImportSession(householdId, fingerprint).catch(() => {
+      // A leftover session only shows up again in the resume banner.
+    })
+  }
+
+  const handleDiscard = async () => {
+    const confirmed = await confirm({
+      description: t('statementImport.resume.discardConfirm', {
+        fileName: statements.map((statement) => statement.fileName).join(', ')
+      }),
+      confirmText: t('statementImport.resume.discard')
+    })
+    if (!confirmed) return
+
+    await closeSession()
+    navigateToTransactions()
+  }
+
+  /**
+   * Moves one file's rows to another account. Pairs involving the file are
+   * split first and paired again against the new account.
+   */
+  const handleOriginAccountChange = (
+    statementId: string,
+    accountId: string
+  ) => {
+    setOriginAccountIds((current) => ({
+      ...current,
+      [statementId]: accountId
+    }))
     setDrafts((current) =>
-      current.map((draft) => ({
-        ...draft,
-        originAccountId: accountId,
-        transferFromAccountId:
-          draft.type === TransactionType.TRANSFER && draft.signedAmount < 0
-            ? accountId
-            : draft.transferFromAccountId,
-        transferToAccountId:
-          draft.type === TransactionType.TRANSFER && draft.signedAmount > 0
-            ? accountId
-            : draft.transferToAccountId
-      }))
+      pairStatementTransfers(
+        unpairStatementTransfers(
+          current,
+          (draft) =>
+            draft.transferPair?.outgoing.statementId === statementId ||
+            draft.transferPair?.incoming.statementId === statementId
+        ).map((draft) =>
+          draft.statementId === statementId
+            ? withOriginAccount(draft, accountId)
+            : draft
+        )
+      )
     )
   }
 
+  const handleUnpairTransfer = useCallback((id: string) => {
+    setDrafts((current) =>
+      unpairStatementTransfers(current, (draft) => draft.id === id)
+    )
+  }, [])
+
+  const handleConfirmTransferPair = useCallback((id: string) => {
+    setDrafts((current) => confirmTransferPair(current, id))
+  }, [])
+
   const handleDraftChange = useCallback(
     (id: string, patch: Partial<TransactionDraft>) => {
-      setImportFailures((current) => {
-        if (!(id in current)) return current
-        const next = {
-          ...current
-        }
-        delete next[id]
-        return next
-      })
       setDrafts((current) =>
         current.map((draft) =>
           draft.id === id
             ? {
                 ...draft,
-                ...patch
+                ...patch,
+                importError: undefined
               }
             : draft
         )
@@ -364,34 +699,72 @@ function ImportTransactionsPage() {
     []
   )
 
-  const applyBulkFailures = (
-    failed: Array<{
-      clientRowId: string
-      message: string
-    }>,
-    created: Array<{
-      clientRowId: string
-    }>
-  ) => {
-    const createdIds = new Set(created.map((row) => row.clientRowId))
-    setDrafts((current) => current.filter((draft) => !createdIds.has(draft.id)))
-    setImportFailures(
-      Object.fromEntries(
-        failed.map((row) => [
-          row.clientRowId,
-          row.message
-        ])
+  const learnAssignmentRules = async (imported: TransactionDraft[]) => {
+    const proposals = proposeAssignmentRules(imported, assignmentRules)
+    if (proposals.length === 0) return
+
+    const accepted = await promptLearnedRules({
+      proposals,
+      lookups: {
+        recipients,
+        incomeSources,
+        categories,
+        budgets
+      }
+    })
+    if (!accepted?.length) return
+
+    try {
+      await updateAssignmentRules((rules) =>
+        applyAssignmentRuleProposals(rules, accepted)
       )
+    } catch (error) {
+      toast.error(
+        t('assignmentRules.saveFailed', {
+          message: getErrorMessage(error)
+        })
+      )
+      return
+    }
+    toast.success(
+      t('statementImport.learnedRules.saved', {
+        count: accepted.length
+      })
     )
   }
 
+  /** Writes what this import created so far to the household import history. */
+  const recordImportHistory = (
+    importedDrafts: TransactionDraft[],
+    allocations: ImportAllocationChoice[]
+  ) => {
+    const transactions = importedHistoryTransactions(importedDrafts)
+    if (transactions.length === 0 && allocations.length === 0) return
+
+    saveImportHistoryEntry({
+      id: historyEntryId,
+      importedAt: new Date().toISOString(),
+      files: statements.map((statement) => ({
+        fileName: statement.fileName,
+        accountId: originAccountIds[statement.id] ?? ''
+      })),
+      transactions,
+      allocations
+    })
+  }
+
   const handleImport = async () => {
     const hasRows = buildBulkCreateRequest(drafts).transactions.length > 0
     if (!hasRows || isImporting) return
 
+    // Remaining budget must include allocations an earlier attempt created.
+    const currentBudgets =
+      createdAllocations.length > 0
+        ? ((await refetchBudgets()).data ?? budgetsData)
+        : budgetsData
     const shortfalls = computeImportBudgetShortfalls({
       drafts,
-      budgets: budgetsData
+      budgets: currentBudgets
     })
     const existingUnallocated = allocationSummary?.unallocated ?? 0
     const pendingIncomeAmount = pendingIncomeTotalFromImportDrafts(drafts)
@@ -400,76 +773,81 @@ function ImportTransactionsPage() {
       drafts
     })
 
-    let allocationChoices: ImportAllocationChoice[] = []
+    let choices: ImportAllocationChoice[] = []
 
     if (shortfalls.length > 0) {
-      const choices = await promptImportAllocations({
+      const chosen = await promptImportAllocations({
         shortfalls,
         unallocatedAmount: availableToAllocate,
         existingUnallocated,
-        pendingIncomeAmount
+        pendingIncomeAmount,
+        initialChoices: allocationChoices
       })
-      if (!choices) return
-      allocationChoices = choices
+      if (!chosen) return
+      choices = chosen
+      setAllocationChoices(chosen)
     }
 
     setIsImporting(true)
     try {
       const result = await submitImportInOrder({
         drafts,
-        allocationChoices,
+        allocationChoices: choices,
         userId,
         bulkCreateAsync,
         createAllocationAsync
       })
 
-      if (!result.ok) {
-        if (result.phase === 'incomes' && result.incomeResult) {
-          applyBulkFailures(
-            result.incomeResult.failed,
-            result.incomeResult.created
-          )
-          toast.error(t('statementImport.import.incomePhaseFailed'))
-          return
-        }
-
-        if (result.phase === 'allocations') {
-          if (result.incomeResult?.created.length) {
-            applyBulkFailures([], result.incomeResult.created)
-          }
-          toast.error(
-            getErrorMessage(result.allocationError) ||
-              t('statementImport.import.allocationPhaseFailed')
-          )
-          return
+      const phases = [
+        result.incomeResult,
+        result.finalResult
+      ].filter((phase): phase is ImportBulkPhaseResult => Boolean(phase))
+      const applyPhases = (current: TransactionDraft[]) =>
+        phases.reduce(applyImportPhaseResult, current)
+      setDrafts(applyPhases)
+      const importedDrafts = applyPhases(drafts)
+      const created = result.ok ? choices : result.createdAllocations
+      recordImportHistory(importedDrafts, [
+        ...createdAllocations,
+        ...created
+      ])
+      const importedTags: TagAssignments = {}
+      for (const draft of importedDrafts) {
+        if (draft.importedTransactionId && draft.tagIds?.length) {
+          importedTags[draft.importedTransactionId] = draft.tagIds
         }
+      }
+      setTransactionTags(importedTags)
 
-        if (result.finalResult) {
-          applyBulkFailures(result.finalResult.failed, [
-            ...(result.incomeResult?.created ?? []),
-            ...result.finalResult.created
-          ])
-          toast.error(t('statementImport.import.transfersExpensesPhaseFailed'))
-        }
+      if (!result.ok) {
+        setCreatedAllocations((current) => [
+          ...current,
+          ...created
+        ])
+        setAllocationChoices(
+          choices.filter((choice) => !created.includes(choice))
+        )
+        const fallback =
+          result.phase === 'incomes'
+            ? t('statementImport.import.incomePhaseFailed')
+            : result.phase === 'allocations'
+              ? t('statementImport.import.allocationPhaseFailed')
+              : t('statementImport.import.transfersExpensesPhaseFailed')
+        toast.error(
+          result.error ? getErrorMessage(result.error) || fallback : fallback
+        )
         return
       }
 
-      clearActiveStatement()
-      const createdCount =
-        (result.incomeResult?.created.length ?? 0) +
-        (result.finalResult?.created.length ?? 0)
+      await closeSession()
       toast.success(
         t('statementImport.import.success', {
-          count: createdCount
+          count: importedDrafts.filter((draft) => draft.importedTransactionId)
+            .length
         })
       )
-      navigate({
-        to: '/transactions',
-        search: {
-          from,
-          to
-        }
-      })
+      await learnAssignmentRules(importedDrafts)
+      navigateToTransactions()
     } catch (error) {
       toast.error(getErrorMessage(error))
     } finally {
@@ -500,6 +878,29 @@ function ImportTransactionsPage() {
     ]
   )
 
+  /** Review tables per origin account; a single group keeps the flat layout. */
+  const draftSections = useMemo(() => {
+    const accountIds = [
+      ...new Set(suggestedDrafts.map((draft) => draft.originAccountId))
+    ]
+    if (accountIds.length <= 1) {
+      return [
+        {
+          accountId: accountIds[0] ?? '',
+          rows: suggestedDrafts
+        }
+      ]
+    }
+    return accountIds.map((accountId) => ({
+      accountId,
+      rows: suggestedDrafts.filter(
+        (draft) => draft.originAccountId === accountId
+      )
+    }))
+  }, [
+    suggestedDrafts
+  ])
+
   return (
     <PageLayout
       title={t('statementImport.page.title')}
@@ -511,48 +912,69 @@ function ImportTransactionsPage() {
         onParsed={handleParsed}
       />
       {importAllocationDialog}
-      <div className="flex flex-col gap-6">
+      {learnedRulesDialog}
+      {confirmDialog}
+      <section
+        aria-label={t('statementImport.page.dropFiles')}
+        className="flex flex-col gap-6"
+        onDragOver={(event) => event.preventDefault()}
+        onDrop={(event) => {
+          event.preventDefault()
+          fileInputRef.current?.parseFiles(Array.from(event.dataTransfer.files))
+        }}
+      >
+        {statements.length > 0 ? null : (
+          <ResumeImportBanner
+            householdId={householdId}
+            onResume={(session) => handleParsed(session.statements)}
+          />
+        )}
         <Summary
           drafts={drafts}
-          fileName={fileName}
+          statements={statements.map((statement) => ({
+            id: statement.id,
+            fileName: statement.fileName,
+            profileName: statement.result.profile?.name,
+            originAccountId: originAccountIds[statement.id] ?? '',
+            locked: lockedStatementIds.has(statement.id)
+          }))}
           accounts={accounts}
-          originAccountId={originAccountId}
           onOriginAccountChange={handleOriginAccountChange}
           onChangeFile={() => fileInputRef.current?.open()}
+          onDiscard={statements.length > 0 ? handleDiscard : undefined}
         />
-        {drafts.some((draft) => draft.type === 'uncategorized') ? (
-          <UncategorizedTable
-            title={t('statementImport.sections.uncategorized')}
-            rows={drafts.filter((draft) => draft.type === 'uncategorized')}
-            {...commonTableProps}
+        {draftSections.map((section) => (
+          <DraftSections
+            key={section.accountId}
+            heading={
+              draftSections.length > 1
+                ? (accounts.find((account) => account.id === section.accountId)
+                    ?.name ?? t('statementImport.sections.noOriginAccount'))
+                : undefined
+            }
+            fileNames={statements
+              .filter(
+                (statement) =>
+                  (originAccountIds[statement.id] ?? '') === section.accountId
+              )
+              .map((statement) => statement.fileName)}
+            rows={section.rows}
+            tableProps={commonTableProps}
+            onUnpairTransfer={handleUnpairTransfer}
+            onConfirmTransferPair={handleConfirmTransferPair}
           />
-        ) : null}
-        <IncomesTable
-          title={t('statementImport.sections.incomes')}
-          rows={drafts.filter((draft) => draft.type === TransactionType.INCOME)}
-          {...commonTableProps}
-        />
-        <TransfersTable
-          title={t('statementImport.sections.transfers')}
-          rows={drafts.filter(
-            (draft) => draft.type === TransactionType.TRANSFER
-          )}
-          {...commonTableProps}
-        />
-        <ExpensesTable
-          title={t('statementImport.sections.expenses')}
-          rows={drafts.filter(
-            (draft) => draft.type === TransactionType.EXPENSE
-          )}
-          {...commonTableProps}
-        />
+        ))}
         <Footer
           validationMessages={validationMessages}
-          invalidRows={parseResult?.invalidRows ?? []}
+          invalidRows={statements.flatMap(
+            (statement) => statement.result.invalidRows
+          )}
+          importErrors={importErrors}
+          isRetry={hasImportedRows}
           isSubmitting={isImporting || bulkCreatePending}
           onImport={handleImport}
         />
-      </div>
+      </section>
     </PageLayout>
   )
 }
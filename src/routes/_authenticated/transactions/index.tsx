@@ -3,9 +3,10 @@
  */
 
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
-import type { ColumnFiltersState } from '@tanstack/react-table'
+import type { ColumnFiltersState, SortingState } from '@tanstack/react-table'
 import { format, isAfter, startOfDay } from 'date-fns'
 import {
+  HistoryIcon,
   PlusIcon,
   Scale,
   TrendingDown,
@@ -24,6 +25,7 @@ import { useTranslation } from 'react-i18next'
 import { toast } from 'sonner'
 import { z } from 'zod'
 import { TransactionStatus, TransactionType } from '@/api/generated/types.gen'
+import { Alert } from '@/components/alert/alert'
 import { Button } from '@/components/button/button'
 import {
   DataTable,
@@ -32,20 +34,68 @@ import {
 } from '@/components/data-table'
 import { PageLayout } from '@/components/page-layout/page-layout'
 import { useAuth } from '@/contexts/auth-context'
+import { RefundTransactionDialog } from '@/dialogs/transactions/refund-transaction-dialog'
+import { SaveTransactionViewDialog } from '@/dialogs/transactions/save-transaction-view-dialog'
+import {
+  type TransactionsBulkDialogMode,
+  TransactionsBulkEditDialog
+} from '@/dialogs/transactions/transactions-bulk-edit-dialog'
 import { useDrawer } from '@/drawers'
+import { useTransactionLocks } from '@/features/account-reconciliation/use-transaction-locks'
+import {
+  type Attachment,
+  attachmentCountsByOwner
+} from '@/features/attachments/attachments'
+import { useHouseholdAttachments } from '@/features/attachments/use-attachments'
+import { ResumeImportBanner } from '@/features/import-statements/components/resume-import-banner'
 import {
   StatementFileInput,
   type StatementFileInputHandle
 } from '@/features/import-statements/components/statement-file-input'
-import { setActiveStatement } from '@/features/import-statements/session'
+import { toLookupItems } from '@/features/import-statements/import-drafts'
+import { setActiveStatements } from '@/features/import-statements/session'
 import { NoData } from '@/features/no-data/no-data'
+import type {
+  BulkEditableTransaction,
+  TransactionBulkUpdate
+} from '@/features/transaction-bulk-actions/bulk-update'
+import { useTransactionExport } from '@/features/transaction-export/use-transaction-export'
+import type { RefundLine } from '@/features/transaction-refunds/refunds'
+import {
+  deleteTransactionRefund,
+  submitTransactionRefund
+} from '@/features/transaction-refunds/submit-refund'
+import { useTransactionRefunds } from '@/features/transaction-refunds/use-transaction-refunds'
+import { useTransactionTags } from '@/features/transaction-tags/use-transaction-tags'
+import {
+  isLargeDateRange,
+  SERVER_SIDE_PAGE_SIZE,
+  toTransactionServerQuery
+} from '@/features/transaction-views/server-query'
+import { useSavedViewActions } from '@/features/transaction-views/use-saved-view-actions'
+import {
+  isSameTransactionViewSearch,
+  readTransactionViewState,
+  type SavedViewDateRange,
+  type TransactionViewState,
+  toTransactionViewSearch,
+  transactionViewSearchSchema
+} from '@/features/transaction-views/view-search'
 import {
   useAccountsList,
+  useBillInstancesList,
+  useBudgetsList,
   useCategoriesList,
   useCloneTransaction,
+  useCreateAllocationMutation,
+  useCreateTransaction,
   useDeleteTransaction,
+  useIncomeInstancesFilteredList,
+  useRecipientsList,
+  useTransactionsInfiniteList,
   useTransactionsList,
-  useTransactionsSummary
+  useTransactionsSummary,
+  useUpdateTransaction
 } from '@/hooks/api'
 import { useConfirmDialog } from '@/hooks/use-confirm-dialog'
 import { useDateRange } from '@/hooks/use-date-range'
@@ -53,15 +103,19 @@ import { accountsById } from '@/lib/accounts'
 import { getErrorMessage } from '@/lib/api-error'
 import { getAmountBounds } from '@/lib/column-filter-utils'
 import { formatCurrency } from '@/lib/utils'
+import { SavedViewsMenu } from './-components/saved-views-menu'
+import { TransactionsExportMenu } from './-components/transactions-export-menu'
+import { TransactionsSelectionBar } from './-components/transactions-selection-bar'
 import {
   createTransactionTableColumns,
   type TransactionDateFilterValue,
   type TransactionLabelLookup,
-  type TransactionListItem
+  type TransactionListItem,
+  type TransactionSelection,
+  type TransactionTagLookup
 } from './-components/transactions-table'
 
-const transactionsSearchSchema = z.object({
-  budgetId: z.string().optional(),
+const transactionsSearchSchema = transactionViewSearchSchema.extend({
   createFromBill: z.string().optional()
 })
 
@@ -72,6 +126,8 @@ export const Route = createFileRoute('/_authenticated/transactions/')({
 
 const ALL_BUDGETS_VALUE = '__all_budgets__'
 
+const EMPTY_ATTACHMENTS: Attachment[] = []
+
 const TRANSACTION_TYPE_ORDER: TransactionType[] = [
   TransactionType.INCOME,
   TransactionType.EXPENSE,
@@ -106,18 +162,81 @@ function readTransactionsDateRangeFilter(columnFilters: ColumnFiltersState):
 }
 
 function TransactionsPage() {
-  const { budgetId: urlBudgetId } = Route.useSearch()
+  const search = Route.useSearch()
   const navigate = useNavigate()
   const { userId, householdId } = useAuth()
-  const { dateFrom, dateTo } = useDateRange()
+  const { from, to, dateFrom, dateTo } = useDateRange()
   const { confirm, confirmDialog } = useConfirmDialog()
   const { t } = useTranslation()
   const { openDrawer } = useDrawer()
-  const budgetFilter = urlBudgetId ?? ALL_BUDGETS_VALUE
+  const viewState = useMemo(
+    () => readTransactionViewState(search),
+    [
+      search
+    ]
+  )
+  const budgetFilter = viewState.budgetId ?? ALL_BUDGETS_VALUE
   const budgetId = budgetFilter === ALL_BUDGETS_VALUE ? undefined : budgetFilter
   const showUpcomingFilterId = useId()
   const statementFileInputRef = useRef<StatementFileInputHandle | null>(null)
-  const [showUpcomingTransactions, setShowUpcomingTransactions] = useState(true)
+  const showUpcomingTransactions = viewState.showUpcoming
+  const {
+    savedViews,
+    activeViewId,
+    openView,
+    copyViewLink,
+    saveCurrentView,
+    deleteView
+  } = useSavedViewActions({
+    householdId,
+    userId,
+    search,
+    viewState,
+    confirm
+  })
+  const [saveViewDialogOpen, setSaveViewDialogOpen] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set())
+  const [bulkDialogMode, setBulkDialogMode] =
+    useState<TransactionsBulkDialogMode | null>(null)
+  const [bulkPending, setBulkPending] = useState(false)
+  const [refundTarget, setRefundTarget] = useState<TransactionListItem | null>(
+    null
+  )
+  const [refundPending, setRefundPending] = useState(false)
+  const { refundIndex, saveRefund, refreshRefunds } =
+    useTransactionRefunds(householdId)
+  const { ensureUnlocked, skipLocked } = useTransactionLocks(householdId)
+  const refundsRef = useRef(refundIndex)
+  refundsRef.current = refundIndex
+  const transactionTags = useTransactionTags(householdId)
+  const { addTransactionTags } = transactionTags
+  const tagLookup = useMemo<TransactionTagLookup>(
+    () => ({
+      tagsById: new Map(
+        transactionTags.tags.map((tag) => [
+          tag.id,
+          tag
+        ])
+      )
+    }),
+    [
+      transactionTags.tags
+    ]
+  )
+  const tagsRef = useRef(tagLookup)
+  tagsRef.current = tagLookup
+  const { data: householdAttachments = EMPTY_ATTACHMENTS } =
+    useHouseholdAttachments({
+      householdId
+    })
+  const attachmentCounts = useMemo(
+    () => attachmentCountsByOwner(householdAttachments, 'TRANSACTION'),
+    [
+      householdAttachments
+    ]
+  )
+  const attachmentCountsRef = useRef(attachmentCounts)
+  attachmentCountsRef.current = attachmentCounts
 
   const openCreateTransactionDrawer = useCallback(() => {
     openDrawer('createTransaction', {})
@@ -139,18 +258,137 @@ function TransactionsPage() {
     navigate
   ])
 
-  const {
-    data: transactions,
-    isLoading: transactionsIsLoading,
-    refetch
-  } = useTransactionsList({
+  const navigateToImportHistory = useCallback(() => {
+    navigate({
+      to: '/transactions/import-history',
+      search: {
+        from: format(dateFrom, 'yyyy-MM-dd'),
+        to: format(dateTo, 'yyyy-MM-dd')
+      }
+    })
+  }, [
+    dateFrom,
+    dateTo,
+    navigate
+  ])
+
+  /**
+   * Search, filters, sorting, and the upcoming toggle live in the URL so the
+   * table survives reloads and can be shared. Typing replaces the history
+   * entry instead of adding one per keystroke.
+   */
+  const updateViewState = useCallback(
+    (patch: Partial<TransactionViewState>) => {
+      const next = toTransactionViewSearch({
+        ...viewState,
+        ...patch
+      })
+      if (isSameTransactionViewSearch(search, next)) return
+      void navigate({
+        to: '.',
+        search: (prev) => ({
+          ...prev,
+          ...next
+        }),
+        replace: true
+      })
+    },
+    [
+      navigate,
+      search,
+      viewState
+    ]
+  )
+
+  const handleGlobalFilterChange = useCallback(
+    (globalFilter: string) =>
+      updateViewState({
+        globalFilter
+      }),
+    [
+      updateViewState
+    ]
+  )
+  const handleColumnFiltersChange = useCallback(
+    (columnFilters: ColumnFiltersState) =>
+      updateViewState({
+        columnFilters
+      }),
+    [
+      updateViewState
+    ]
+  )
+  const handleSortingChange = useCallback(
+    (sorting: SortingState) =>
+      updateViewState({
+        sorting
+      }),
+    [
+      updateViewState
+    ]
+  )
+
+  const handleSaveView = (view: {
+    name: string
+    dateRange: SavedViewDateRange
+  }) => {
+    saveCurrentView(view)
+    setSaveViewDialogOpen(false)
+  }
+
+  /**
+   * Wide date ranges load page by page with filters applied by the server,
+   * as long as the API can express the table state; otherwise the whole range
+   * loads and the table filters it in the browser.
+   */
+  const serverQuery = useMemo(
+    () =>
+      isLargeDateRange(dateFrom, dateTo)
+        ? toTransactionServerQuery(
+            viewState,
+            {
+              dateFrom,
+              dateTo
+            },
+            new Date()
+          )
+        : null,
+    [
+      dateFrom,
+      dateTo,
+      viewState
+    ]
+  )
+  const isServerSide = serverQuery !== null
+  /** A wide range the API cannot filter, search, or sort; loaded whole. */
+  const isClientSideFallback =
+    !isServerSide && isLargeDateRange(dateFrom, dateTo)
+
+  const fullList = useTransactionsList({
     householdId,
     budgetId,
     userId,
     dateFrom,
     dateTo,
-    enabled: !!householdId
+    enabled: !!householdId && !isServerSide
   })
+  const pagedList = useTransactionsInfiniteList({
+    householdId,
+    ...serverQuery,
+    pageSize: SERVER_SIDE_PAGE_SIZE,
+    enabled: isServerSide
+  })
+  const transactions = isServerSide ? pagedList.data?.items : fullList.data
+  const transactionsIsLoading = isServerSide
+    ? pagedList.isLoading
+    : fullList.isLoading
+  const refetch = isServerSide ? pagedList.refetch : fullList.refetch
+  const { fetchNextPage, hasNextPage, isFetchingNextPage } = pagedList
+  const loadMoreTransactions = useCallback(() => {
+    void fetchNextPage()
+  }, [
+    fetchNextPage
+  ])
 
   const { data: categories = [] } = useCategoriesList({
     householdId,
@@ -195,6 +433,53 @@ function TransactionsPage() {
     }
   })
 
+  const { mutateAsync: deleteTransactionAsync } = useDeleteTransaction()
+  const { mutateAsync: createTransactionAsync } = useCreateTransaction()
+  const { mutateAsync: updateTransactionAsync } = useUpdateTransaction()
+  const { mutateAsync: createAllocationAsync } = useCreateAllocationMutation()
+
+  /**
+   * Deletes a transaction and the refund links to it. A refund's credit is
+   * only deleted after its allocations are taken back out of the budgets. An
+   * expense with refunds is refused, so its credits and their allocations are
+   * never left behind unlinked.
+   */
+  const deleteWithRefundLinks = useCallback(
+    async (id: string) => {
+      if (refundsRef.current.byOriginal.get(id)?.length) {
+        throw new Error(t('transactions.refund.deleteOriginalBlocked'))
+      }
+      const refund = refundsRef.current.byRefund.get(id)
+      if (refund) {
+        const result = await deleteTransactionRefund({
+          refund,
+          userId,
+          createAllocationAsync,
+          deleteTransactionAsync
+        })
+        if (!result.ok) {
+          await saveRefund(result.refund)
+          throw result.error
+        }
+        // The server dropped the credit's link along with it.
+        await refreshRefunds()
+      } else {
+        await deleteTransactionAsync({
+          id,
+          userId
+        })
+      }
+    },
+    [
+      createAllocationAsync,
+      deleteTransactionAsync,
+      refreshRefunds,
+      saveRefund,
+      t,
+      userId
+    ]
+  )
+
   const { mutate: cloneTransaction } = useCloneTransaction({
     onSuccess: () => {
       refetch()
@@ -238,29 +523,45 @@ function TransactionsPage() {
 
   const handleDeleteTransaction = useCallback(
     (transaction: TransactionListItem) => {
+      if (!ensureUnlocked(transaction.id)) return
+      if (refundsRef.current.byOriginal.get(transaction.id)?.length) {
+        toast.error(t('transactions.refund.deleteOriginalBlocked'))
+        return
+      }
+      const isRefund = refundsRef.current.byRefund.has(transaction.id)
       confirm({
-        description: t('transactions.deleteConfirm', {
-          name: transaction.name
-        }),
+        description: t(
+          isRefund
+            ? 'transactions.refund.deleteConfirm'
+            : 'transactions.deleteConfirm',
+          {
+            name: transaction.name
+          }
+        ),
         confirmText: t('common.delete')
       }).then((isConfirmed) => {
         if (!isConfirmed) return
-        deleteTransaction({
-          id: transaction.id,
-          userId
-        })
+        deleteWithRefundLinks(transaction.id).then(
+          () => {
+            refetch()
+            toast.success(t('transactions.deleteSuccess'))
+          },
+          (error) => toast.error(getErrorMessage(error))
+        )
       })
     },
     [
       confirm,
-      deleteTransaction,
-      t,
-      userId
+      deleteWithRefundLinks,
+      ensureUnlocked,
+      refetch,
+      t
     ]
   )
 
   const handleDeleteTransfer = useCallback(
     (transaction: TransactionListItem) => {
+      if (!ensureUnlocked(transaction.id)) return
       confirm({
         description: t('transfers.deleteConfirm'),
         confirmText: t('common.delete')
@@ -275,6 +576,7 @@ function TransactionsPage() {
     [
       confirm,
       deleteTransaction,
+      ensureUnlocked,
       t,
       userId
     ]
@@ -303,6 +605,81 @@ function TransactionsPage() {
     ]
   )
 
+  const handleOpenLinkedTransaction = useCallback(
+    (transactionId: string) => {
+      openDrawer('editTransaction', {
+        transactionId
+      })
+    },
+    [
+      openDrawer
+    ]
+  )
+
+  const handleSubmitRefund = async (refund: {
+    lines: RefundLine[]
+    name: string
+    date: Date
+  }) => {
+    if (!refundTarget) return
+    setRefundPending(true)
+    const result = await submitTransactionRefund({
+      original: refundTarget,
+      ...refund,
+      userId,
+      createTransactionAsync,
+      createAllocationAsync
+    })
+    if (result.refund) {
+      try {
+        await saveRefund(result.refund)
+      } catch (error) {
+        setRefundPending(false)
+        toast.error(getErrorMessage(error))
+        refetch()
+        return
+      }
+    }
+    setRefundPending(false)
+    if (result.ok) {
+      toast.success(t('transactions.refund.success'))
+      setRefundTarget(null)
+    } else {
+      toast.error(
+        result.refund
+          ? t('transactions.refund.allocationFailed', {
+              message: getErrorMessage(result.error)
+            })
+          : getErrorMessage(result.error)
+      )
+      if (result.refund) setRefundTarget(null)
+    }
+    refetch()
+  }
+
+  const handleSelectedChange = useCallback(
+    (ids: string[], selected: boolean) => {
+      setSelectedIds((current) => {
+        const next = new Set(current)
+        for (const id of ids) {
+          if (selected) next.add(id)
+          else next.delete(id)
+        }
+        return next
+      })
+    },
+    []
+  )
+
+  const selectionRef = useRef<TransactionSelection>({
+    selectedIds,
+    onSelectedChange: handleSelectedChange
+  })
+  selectionRef.current = {
+    selectedIds,
+    onSelectedChange: handleSelectedChange
+  }
+
   const labelLookupRef = useRef<TransactionLabelLookup>({
     accounts: new Map(),
     budgets: new Map(),
@@ -315,9 +692,15 @@ function TransactionsPage() {
       createTransactionTableColumns({
         t,
         labelLookupRef,
+        selectionRef,
+        refundsRef,
+        tagsRef,
+        attachmentCountsRef,
         onEditTransaction: handleEditTransaction,
         onEditTransfer: handleEditTransfer,
         onClone: handleClone,
+        onRefund: setRefundTarget,
+        onOpenLinkedTransaction: handleOpenLinkedTransaction,
         onDeleteTransaction: handleDeleteTransaction,
         onDeleteTransfer: handleDeleteTransfer
       }),
@@ -326,6 +709,7 @@ function TransactionsPage() {
       handleEditTransaction,
       handleEditTransfer,
       handleClone,
+      handleOpenLinkedTransaction,
       handleDeleteTransaction,
       handleDeleteTransfer
     ]
@@ -334,13 +718,19 @@ function TransactionsPage() {
   const tableData = transactions ?? []
 
   const dataTableRows = useMemo(() => {
-    if (showUpcomingTransactions) return tableData
-    return tableData.filter(
-      (transaction) => !isTransactionDateAfterToday(transaction.date)
-    )
+    const rows = showUpcomingTransactions
+      ? tableData
+      : tableData.filter(
+          (transaction) => !isTransactionDateAfterToday(transaction.date)
+        )
+    return rows.map((transaction) => ({
+      ...transaction,
+      tagIds: transactionTags.assignments[transaction.id]
+    }))
   }, [
     showUpcomingTransactions,
-    tableData
+    tableData,
+    transactionTags.assignments
   ])
 
   const {
@@ -354,7 +744,18 @@ function TransactionsPage() {
   } = useDataTable({
     data: dataTableRows,
     columns,
-    defaultPageSize: 15
+    defaultPageSize: isServerSide ? undefined : 15,
+    serverSide: isServerSide
+      ? {
+          rowCount: pagedList.data?.total ?? 0
+        }
+      : undefined,
+    globalFilter: viewState.globalFilter,
+    onGlobalFilterChange: handleGlobalFilterChange,
+    columnFilters: viewState.columnFilters,
+    onColumnFiltersChange: handleColumnFiltersChange,
+    sorting: viewState.sorting,
+    onSortingChange: handleSortingChange
   })
 
   const filteredRowCount = table.getFilteredRowModel().rows.length
@@ -366,28 +767,33 @@ function TransactionsPage() {
     ]
   )
   const canUseSummary = useMemo(
-    () => columnFilters.every((filter) => filter.id === 'date'),
+    () => isServerSide || columnFilters.every((filter) => filter.id === 'date'),
     [
-      columnFilters
+      columnFilters,
+      isServerSide
     ]
   )
   const { data: summary, isLoading: summaryIsLoading } = useTransactionsSummary(
     {
       householdId,
-      budgetId,
-      dateFrom: dateRangeFilter?.from ?? dateFrom,
-      dateTo: dateRangeFilter?.to ?? dateTo,
+      budgetId: serverQuery ? serverQuery.budgetId : budgetId,
+      type: serverQuery?.type,
+      dateFrom: serverQuery?.dateFrom ?? dateRangeFilter?.from ?? dateFrom,
+      dateTo: serverQuery?.dateTo ?? dateRangeFilter?.to ?? dateTo,
       enabled: !!householdId && canUseSummary
     }
   )
 
   const availableTransactionTypes = useMemo(() => {
+    // Loaded server pages are already narrowed to the chosen type.
+    if (isServerSide) return TRANSACTION_TYPE_ORDER
     const present = new Set<TransactionType>()
     for (const tx of tableData) {
       present.add(tx.type)
     }
     return TRANSACTION_TYPE_ORDER.filter((type) => present.has(type))
   }, [
+    isServerSide,
     tableData
   ])
 
@@ -501,6 +907,19 @@ function TransactionsPage() {
     tableData
   ])
 
+  const availableTags = useMemo(
+    () =>
+      transactionTags.tags
+        .map((tag) => ({
+          value: tag.id,
+          label: tag.name
+        }))
+        .sort((a, b) => a.label.localeCompare(b.label, 'sv')),
+    [
+      transactionTags.tags
+    ]
+  )
+
   const amountBounds = useMemo(
     () => getAmountBounds(tableData),
     [
@@ -508,12 +927,181 @@ function TransactionsPage() {
     ]
   )
 
-  const filterDisabled = totalTransactionCount === 0
+  // Server-side results are already filtered; an empty page must not lock
+  // the user out of changing the filters.
+  const filterDisabled = !isServerSide && totalTransactionCount === 0
 
   const filteredTransactions = table
     .getFilteredRowModel()
     .rows.map((row) => row.original)
 
+  /** Bulk actions only touch selected rows the current filters show. */
+  const selectedTransactions = filteredTransactions.filter((transaction) =>
+    selectedIds.has(transaction.id)
+  )
+  const hasSelection = selectedTransactions.length > 0
+
+  const { data: budgetsData = [] } = useBudgetsList({
+    householdId,
+    userId,
+    enabled: !!householdId && (hasSelection || refundTarget !== null)
+  })
+  const { data: recipientsData = [] } = useRecipientsList({
+    householdId,
+    userId,
+    enabled: !!householdId && hasSelection
+  })
+  const { data: billInstances = [] } = useBillInstancesList({
+    householdId,
+    includeArchived: false,
+    enabled: !!householdId && hasSelection
+  })
+  const { data: incomeInstances = [] } = useIncomeInstancesFilteredList({
+    householdId,
+    includeArchived: false,
+    enabled: !!householdId && hasSelection
+  })
+
+  const refundBudgetNames = useMemo(
+    () =>
+      new Map(
+        budgetsData.map((budget) => [
+          budget.id,
+          budget.name
+        ])
+      ),
+    [
+      budgetsData
+    ]
+  )
+
+  const bulkLookups = useMemo(
+    () => ({
+      accounts: toLookupItems(accounts),
+      budgets: budgetsData.map((budget) => ({
+        id: budget.id,
+        name: budget.name,
+        remainingAmount: budget.remainingAmount
+      })),
+      recipients: toLookupItems(recipientsData)
+    }),
+    [
+      accounts,
+      budgetsData,
+      recipientsData
+    ]
+  )
+
+  /**
+   * Runs one request per transaction. Rows that failed stay selected so the
+   * action can be retried on just those.
+   */
+  const runBulkAction = async (
+    ids: string[],
+    run: (id: string) => Promise<unknown>,
+    successKey:
+      | 'transactions.bulk.updateSuccess'
+      | 'transactions.bulk.deleteSuccess'
+  ) => {
+    setBulkPending(true)
+    const outcomes = await Promise.allSettled(ids.map(run))
+    setBulkPending(false)
+    const failedIds = ids.filter(
+      (_, index) => outcomes[index]?.status === 'rejected'
+    )
+    const succeeded = ids.length - failedIds.length
+    if (succeeded > 0) {
+      toast.success(
+        t(successKey, {
+          count: succeeded
+        })
+      )
+    }
+    const rejected = outcomes.find(
+      (outcome): outcome is PromiseRejectedResult =>
+        outcome.status === 'rejected'
+    )
+    if (rejected) {
+      toast.error(
+        t('transactions.bulk.failed', {
+          count: failedIds.length,
+          message: getErrorMessage(rejected.reason)
+        })
+      )
+    }
+    setSelectedIds(new Set(failedIds))
+    setBulkDialogMode(null)
+    refetch()
+  }
+
+  const handleBulkApply = (
+    updates: TransactionBulkUpdate[],
+    tagIds: string[]
+  ) => {
+    const unlockedIds = new Set(
+      skipLocked(selectedTransactions.map((transaction) => transaction.id))
+    )
+    if (tagIds.length > 0) {
+      const taggedIds = [
+        ...unlockedIds
+      ]
+      addTransactionTags(taggedIds, tagIds)
+      toast.success(
+        t('tags.bulkAddSuccess', {
+          count: taggedIds.length
+        })
+      )
+    }
+    if (updates.length === 0) {
+      setSelectedIds(new Set())
+      setBulkDialogMode(null)
+      return
+    }
+    void runBulkAction(
+      updates
+        .map(({ transaction }) => transaction.id)
+        .filter((id) => unlockedIds.has(id)),
+      async (id) => {
+        const update = updates.find((item) => item.transaction.id === id)
+        await updateTransactionAsync({
+          id,
+          userId,
+          ...update?.body
+        })
+      },
+      'transactions.bulk.updateSuccess'
+    )
+  }
+
+  const handleBulkDelete = (transactionsToDelete: BulkEditableTransaction[]) =>
+    void runBulkAction(
+      skipLocked(transactionsToDelete.map((transaction) => transaction.id)),
+      (id) => deleteWithRefundLinks(id),
+      'transactions.bulk.deleteSuccess'
+    )
+
+  const { exportPending, startExport } = useTransactionExport({
+    table,
+    serverPages: isServerSide
+      ? {
+          items: pagedList.data?.items ?? [],
+          hasNextPage,
+          fetchNextPage
+        }
+      : null,
+    lookups: labelLookupRef,
+    from,
+    to,
+    filterLabels: [
+      viewState.globalFilter.trim()
+        ? `${t('common.search')}: ${viewState.globalFilter.trim()}`
+        : '',
+      ...activeFilters.map(
+        (filter) => `${filter.label}: ${filter.displayValue}`
+      )
+    ].filter(Boolean)
+  })
+
   const fallbackTotalIncome = filteredTransactions.reduce(
     (sum, transaction) => {
       if (getTransactionType(transaction) !== TransactionType.INCOME) return sum
@@ -540,13 +1128,14 @@ function TransactionsPage() {
   const formattedExpense = formatCurrency(totalExpense)
   const formattedNet = formatCurrency(net)
 
-  const showNoTransactions = !!householdId && (transactions?.length ?? 0) === 0
+  const showNoTransactions =
+    !!householdId && !isServerSide && (transactions?.length ?? 0) === 0
 
   const tableEmptyMessage = useMemo((): ReactNode | undefined => {
     if (showNoTransactions) {
       return undefined
     }
-    if (totalTransactionCount === 0) {
+    if (totalTransactionCount === 0 && !isServerSide) {
       return (
         <div className="flex flex-col items-center gap-4 py-4">
           <p className="type-body-medium text-gray-800">
@@ -573,6 +1162,7 @@ function TransactionsPage() {
   }, [
     filteredRowCount,
     householdId,
+    isServerSide,
     openCreateTransactionDrawer,
     showNoTransactions,
     t,
@@ -590,6 +1180,12 @@ function TransactionsPage() {
             label: t('statementImport.page.quickAction'),
             icon: <UploadIcon />,
             onClick: () => statementFileInputRef.current?.open()
+          },
+          {
+            id: 'import-history',
+            label: t('importHistory.quickAction'),
+            icon: <HistoryIcon />,
+            onClick: navigateToImportHistory
           }
         ]}
         loadingHeader={summaryIsLoading}
@@ -633,7 +1229,25 @@ function TransactionsPage() {
           }
         ]}
       >
-        <div className="flex min-h-0 flex-1 flex-col">
+        <div className="flex min-h-0 flex-1 flex-col gap-4">
+          <ResumeImportBanner
+            householdId={householdId}
+            onResume={(session) => {
+              setActiveStatements(session.statements)
+              navigateToImportPage()
+            }}
+          />
+          <TransactionsSelectionBar
+            t={t}
+            selectedCount={selectedTransactions.length}
+            disabled={bulkPending}
+            onEdit={() => setBulkDialogMode('edit')}
+            onDelete={() => setBulkDialogMode('delete')}
+            onClear={() => setSelectedIds(new Set())}
+          />
+          {isClientSideFallback ? (
+            <Alert variant="info">{t('transactions.clientSideFallback')}</Alert>
+          ) : null}
           {showNoTransactions ? (
             <NoData
               variant="no-transactions"
@@ -655,6 +1269,7 @@ function TransactionsPage() {
                   availableBudgets,
                   availableCategories,
                   availableRecipientsSenders,
+                  availableTags,
                   amountBounds
                 })
               }
@@ -671,16 +1286,46 @@ function TransactionsPage() {
                 pillRemoveAriaLabel: t('common.removeFilter')
               }}
               quickFilters={
-                <DataTableQuickFilterSwitch
-                  id={showUpcomingFilterId}
-                  label={t('transactions.showUpcomingQuickFilter')}
-                  checked={showUpcomingTransactions}
-                  onCheckedChange={setShowUpcomingTransactions}
-                  disabled={filterDisabled}
-                />
+                <>
+                  <DataTableQuickFilterSwitch
+                    id={showUpcomingFilterId}
+                    label={t('transactions.showUpcomingQuickFilter')}
+                    checked={showUpcomingTransactions}
+                    onCheckedChange={(showUpcoming) =>
+                      updateViewState({
+                        showUpcoming
+                      })
+                    }
+                    disabled={filterDisabled}
+                  />
+                  <TransactionsExportMenu
+                    t={t}
+                    disabled={filterDisabled || exportPending}
+                    onExport={(exportFormat) => void startExport(exportFormat)}
+                  />
+                  <SavedViewsMenu
+                    t={t}
+                    views={savedViews}
+                    activeViewId={activeViewId}
+                    onOpenView={openView}
+                    onCopyLink={copyViewLink}
+                    onSaveCurrent={() => setSaveViewDialogOpen(true)}
+                    onDeleteView={deleteView}
+                  />
+                </>
               }
-              showPagination
+              showPagination={!isServerSide}
               pagination={pagination}
+              infiniteScroll={
+                isServerSide
+                  ? {
+                      hasMore: hasNextPage,
+                      loading: isFetchingNextPage,
+                      onLoadMore: loadMoreTransactions,
+                      loadingLabel: t('transactions.loadingMore')
+                    }
+                  : undefined
+              }
               emptyMessage={tableEmptyMessage}
               getRowClassName={(row) =>
                 row.status === TransactionStatus.PENDING
@@ -693,11 +1338,52 @@ function TransactionsPage() {
       </PageLayout>
       <StatementFileInput
         inputRef={statementFileInputRef}
-        onParsed={(result, fileName) => {
-          setActiveStatement(result, fileName)
+        onParsed={(statements) => {
+          setActiveStatements(statements)
           navigateToImportPage()
         }}
       />
+      <TransactionsBulkEditDialog
+        mode={bulkDialogMode}
+        transactions={selectedTransactions}
+        accounts={bulkLookups.accounts}
+        budgets={bulkLookups.budgets}
+        categories={categories}
+        recipients={bulkLookups.recipients}
+        billInstances={billInstances}
+        incomeInstances={incomeInstances}
+        pending={bulkPending}
+        onOpenChange={(open) => {
+          if (!open) setBulkDialogMode(null)
+        }}
+        onApply={handleBulkApply}
+        onDelete={handleBulkDelete}
+      />
+      <RefundTransactionDialog
+        transaction={refundTarget}
+        refunds={
+          refundTarget
+            ? (refundIndex.byOriginal.get(refundTarget.id) ?? [])
+            : []
+        }
+        budgetNames={refundBudgetNames}
+        categoryNames={categoryById}
+        pending={refundPending}
+        onOpenChange={(open) => {
+          if (!open) setRefundTarget(null)
+        }}
+        onSubmit={(refund) => void handleSubmitRefund(refund)}
+      />
+      <SaveTransactionViewDialog
+        open={saveViewDialogOpen}
+        currentRange={{
+          from,
+          to
+        }}
+        existingNames={savedViews.map((view) => view.name)}
+        onOpenChange={setSaveViewDialogOpen}
+        onSave={handleSaveView}
+      />
       {confirmDialog}
     </>
   )